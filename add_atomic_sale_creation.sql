@@ -0,0 +1,231 @@
+-- ============================================
+-- ATOMIC SALE CREATION (DOUBLE-BOOKING PROTECTION)
+-- Migration: create_sale_atomic() and realtime on land_pieces / houses
+-- ============================================
+-- Purpose: The land and homes pages used to read a piece's status, then insert
+--          the sale, then set the pieces to Reserved. Two workers could both
+--          read 'Available' and sell the same piece.
+--          - create_sale_atomic() locks every piece (or house) of the sale in
+--            a fixed order, checks they are free, inserts the sale, reserves
+--            them and records the reservation advance, in one transaction
+--          - The loser gets SQLSTATE PT409 (HTTP 409 Conflict through PostgREST)
+--            with the conflicting ids as JSON in the error details
+--          - land_pieces and houses are added to the realtime publication so
+--            open pages see the change at once
+-- Run this in Supabase SQL Editor
+-- Dependencies: Requires supabase_schema.sql, add_reservation_workflow.sql
+--               and add_server_side_permission_validation.sql
+-- ============================================
+
+-- ============================================
+-- STEP 1: Create function
+-- ============================================
+-- p_sale: the sales row to insert. Only the columns of a new sale are read
+--         (see v_allowed_columns); the sale is always created Pending by the
+--         caller, whatever status / created_by / confirmed_by p_sale holds
+-- p_piece_prices: [{ "id": ..., "selling_price_full": ..., "selling_price_installment": ... }]
+--         prices used by the sale, written back to the pieces only when the
+--         caller may edit prices (edit_prices); otherwise the pieces keep theirs
+CREATE OR REPLACE FUNCTION create_sale_atomic(
+    p_sale JSONB,
+    p_piece_prices JSONB DEFAULT '[]'::JSONB,
+    p_payment_method VARCHAR(50) DEFAULT 'Cash'
+)
+RETURNS sales AS $$
+DECLARE
+    v_piece_ids UUID[];
+    v_house_ids UUID[];
+    v_client_id UUID;
+    v_conflicts JSONB;
+    v_sale_data JSONB;
+    v_columns TEXT;
+    v_sale sales;
+    v_allowed_columns TEXT[] := ARRAY[
+        'client_id', 'land_piece_ids', 'house_ids', 'payment_type',
+        'total_purchase_cost', 'total_selling_price', 'profit_margin',
+        'small_advance_amount', 'big_advance_amount',
+        'company_fee_percentage', 'company_fee_amount',
+        'sale_date', 'deadline_date', 'notes', 'selected_offer_id',
+        'number_of_installments', 'monthly_installment_amount',
+        'promise_initial_payment', 'promise_completion_date', 'promise_completed'
+    ];
+BEGIN
+    IF NOT validate_user_permission('create_sales') THEN
+        RAISE EXCEPTION 'ليس لديك صلاحية إنشاء المبيعات';
+    END IF;
+
+    v_client_id := (p_sale->>'client_id')::UUID;
+    v_piece_ids := COALESCE(ARRAY(SELECT jsonb_array_elements_text(p_sale->'land_piece_ids')::UUID), ARRAY[]::UUID[]);
+    v_house_ids := COALESCE(ARRAY(SELECT jsonb_array_elements_text(p_sale->'house_ids')::UUID), ARRAY[]::UUID[]);
+
+    IF v_client_id IS NULL THEN
+        RAISE EXCEPTION 'يرجى اختيار عميل أولاً';
+    END IF;
+
+    IF cardinality(v_piece_ids) = 0 AND cardinality(v_house_ids) = 0 THEN
+        RAISE EXCEPTION 'يجب اختيار قطعة أو منزل واحد على الأقل';
+    END IF;
+
+    -- Lock in id order so two sales sharing pieces cannot deadlock
+    PERFORM 1 FROM land_pieces WHERE id = ANY(v_piece_ids) ORDER BY id FOR UPDATE;
+    PERFORM 1 FROM houses WHERE id = ANY(v_house_ids) ORDER BY id FOR UPDATE;
+
+    -- Pieces not Available, or held by an active sale or reservation
+    SELECT jsonb_agg(jsonb_build_object('id', lp.id, 'piece_number', lp.piece_number, 'status', lp.status) ORDER BY lp.piece_number)
+    INTO v_conflicts
+    FROM land_pieces lp
+    WHERE lp.id = ANY(v_piece_ids)
+    AND (
+        lp.status <> 'Available'
+        OR EXISTS (
+            SELECT 1 FROM sales s
+            WHERE lp.id = ANY(s.land_piece_ids)
+            AND s.status <> 'Cancelled'
+        )
+        OR EXISTS (
+            SELECT 1 FROM reservations r
+            WHERE lp.id = ANY(r.land_piece_ids)
+            AND r.status = 'Pending'
+        )
+    );
+
+    IF v_conflicts IS NOT NULL THEN
+        RAISE EXCEPTION 'القطع التالية لم تعد متاحة: %',
+            (SELECT string_agg('#' || (c->>'piece_number'), ', ') FROM jsonb_array_elements(v_conflicts) c)
+            USING ERRCODE = 'PT409', DETAIL = jsonb_build_object('pieces', v_conflicts)::TEXT;
+    END IF;
+
+    IF cardinality(v_piece_ids) <> (SELECT COUNT(*) FROM land_pieces WHERE id = ANY(v_piece_ids)) THEN
+        RAISE EXCEPTION 'بعض القطع المختارة غير موجودة';
+    END IF;
+
+    SELECT jsonb_agg(jsonb_build_object('id', h.id, 'name', h.name, 'status', h.status))
+    INTO v_conflicts
+    FROM houses h
+    WHERE h.id = ANY(v_house_ids)
+    AND (
+        h.status <> 'Available'
+        OR EXISTS (
+            SELECT 1 FROM sales s
+            WHERE h.id = ANY(s.house_ids)
+            AND s.status <> 'Cancelled'
+        )
+    );
+
+    IF v_conflicts IS NOT NULL THEN
+        RAISE EXCEPTION 'المنزل لم يعد متاحاً: %',
+            (SELECT string_agg(c->>'name', ', ') FROM jsonb_array_elements(v_conflicts) c)
+            USING ERRCODE = 'PT409', DETAIL = jsonb_build_object('houses', v_conflicts)::TEXT;
+    END IF;
+
+    -- Insert only the allowed columns given, so the others keep their defaults;
+    -- status and author are set here, never taken from the caller
+    SELECT COALESCE(jsonb_object_agg(key, value), '{}'::JSONB)
+    INTO v_sale_data
+    FROM jsonb_each(p_sale)
+    WHERE key = ANY(v_allowed_columns);
+
+    v_sale_data := v_sale_data || jsonb_build_object(
+        'status', 'Pending',
+        'created_by', auth.uid()
+    );
+
+    SELECT string_agg(quote_ident(c.column_name), ', ')
+    INTO v_columns
+    FROM information_schema.columns c
+    WHERE c.table_schema = 'public'
+    AND c.table_name = 'sales'
+    AND v_sale_data ? c.column_name;
+
+    EXECUTE format(
+        'INSERT INTO sales (%1$s) SELECT %1$s FROM jsonb_populate_record(NULL::sales, $1) RETURNING *',
+        v_columns
+    )
+    USING v_sale_data
+    INTO v_sale;
+
+    -- Repricing the pieces needs edit_prices; without it the sale still goes
+    -- through and the pieces keep their stored prices
+    IF NOT validate_user_permission('edit_prices') THEN
+        p_piece_prices := '[]'::JSONB;
+    END IF;
+
+    UPDATE land_pieces lp
+    SET status = 'Reserved',
+        reservation_client_id = v_client_id,
+        selling_price_full = COALESCE(
+            (SELECT (pp->>'selling_price_full')::DECIMAL
+             FROM jsonb_array_elements(COALESCE(p_piece_prices, '[]'::JSONB)) pp
+             WHERE (pp->>'id')::UUID = lp.id
+             LIMIT 1),
+            lp.selling_price_full
+        ),
+        selling_price_installment = COALESCE(
+            (SELECT (pp->>'selling_price_installment')::DECIMAL
+             FROM jsonb_array_elements(COALESCE(p_piece_prices, '[]'::JSONB)) pp
+             WHERE (pp->>'id')::UUID = lp.id
+             LIMIT 1),
+            lp.selling_price_installment
+        ),
+        updated_at = NOW()
+    WHERE lp.id = ANY(v_piece_ids);
+
+    UPDATE houses
+    SET status = 'Reserved',
+        reservation_client_id = v_client_id,
+        reserved_until = v_sale.deadline_date,
+        updated_at = NOW()
+    WHERE id = ANY(v_house_ids);
+
+    IF COALESCE(v_sale.small_advance_amount, 0) > 0 THEN
+        INSERT INTO payments (
+            client_id, sale_id, amount_paid, payment_type,
+            payment_date, payment_method, recorded_by
+        ) VALUES (
+            v_client_id, v_sale.id, v_sale.small_advance_amount, 'SmallAdvance',
+            CURRENT_DATE, COALESCE(p_payment_method, 'Cash'), auth.uid()
+        );
+    END IF;
+
+    RETURN v_sale;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION create_sale_atomic(JSONB, JSONB, VARCHAR) TO authenticated;
+
+-- ============================================
+-- STEP 2: Realtime for piece and house status
+-- ============================================
+-- Only tables not yet in the publication are added, so the script can be re-run
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'land_pieces'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE land_pieces;
+    END IF;
+END $$;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'houses'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE houses;
+    END IF;
+END $$;
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+SELECT routine_name
+FROM information_schema.routines
+WHERE routine_schema = 'public'
+AND routine_name = 'create_sale_atomic';
+
+SELECT tablename
+FROM pg_publication_tables
+WHERE pubname = 'supabase_realtime'
+AND tablename IN ('land_pieces', 'houses');
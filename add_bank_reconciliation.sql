@@ -0,0 +1,385 @@
+-- ============================================
+-- BANK RECONCILIATION
+-- Migration: Import bank statements and match them to payments and expenses
+-- ============================================
+-- Purpose: Stores imported bank statements (CSV or OFX) line by line and links
+--          each line to the payment (money in) or expense (money out) it
+--          corresponds to. Lines are matched automatically by amount, date and
+--          reference from the app, or by hand; lines that are not business
+--          movements (bank fees, transfers between accounts) can be marked
+--          ignored. What is left unmatched on either side is the
+--          reconciliation report.
+--          A payment or expense is matched to one statement line only.
+-- Run this in Supabase SQL Editor
+-- Dependencies: Requires supabase_schema.sql, add_expenses_table.sql,
+--               ADD_RECURRING_EXPENSES.sql (expenses.is_revenue) and
+--               add_server_side_permission_validation.sql
+-- ============================================
+
+-- ============================================
+-- STEP 1: Create ENUMs
+-- ============================================
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'bank_match_type') THEN
+        CREATE TYPE bank_match_type AS ENUM ('Auto', 'Manual', 'Ignored');
+    END IF;
+END $$;
+
+-- ============================================
+-- STEP 2: Create bank_statements table
+-- ============================================
+CREATE TABLE IF NOT EXISTS bank_statements (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    bank_account VARCHAR(255) NOT NULL, -- Account number or label from the file
+    file_name VARCHAR(255),
+    file_format VARCHAR(10) NOT NULL CHECK (file_format IN ('CSV', 'XLSX', 'OFX')),
+    period_start DATE,
+    period_end DATE,
+    line_count INTEGER NOT NULL DEFAULT 0,
+    skipped_count INTEGER NOT NULL DEFAULT 0, -- Lines already imported from an earlier file
+    notes TEXT,
+    imported_by UUID REFERENCES users(id),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bank_statements_account ON bank_statements(bank_account, period_end);
+
+-- ============================================
+-- STEP 3: Create bank_statement_lines table
+-- ============================================
+CREATE TABLE IF NOT EXISTS bank_statement_lines (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    statement_id UUID NOT NULL REFERENCES bank_statements(id) ON DELETE CASCADE,
+    bank_account VARCHAR(255) NOT NULL, -- Copied from the statement for the duplicate check
+    line_number INTEGER NOT NULL,
+    transaction_date DATE NOT NULL,
+    amount DECIMAL(15, 2) NOT NULL CHECK (amount <> 0), -- Positive = credit, negative = debit
+    description TEXT,
+    reference VARCHAR(255),
+    bank_transaction_id VARCHAR(255), -- FITID (OFX) or bank reference
+    payment_id UUID REFERENCES payments(id) ON DELETE SET NULL,
+    expense_id UUID REFERENCES expenses(id) ON DELETE SET NULL,
+    match_type bank_match_type,
+    matched_by UUID REFERENCES users(id),
+    matched_at TIMESTAMPTZ,
+    notes TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CHECK (payment_id IS NULL OR expense_id IS NULL),
+    CHECK (match_type IS DISTINCT FROM 'Ignored' OR (payment_id IS NULL AND expense_id IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_bank_statement_lines_statement ON bank_statement_lines(statement_id, line_number);
+CREATE INDEX IF NOT EXISTS idx_bank_statement_lines_date ON bank_statement_lines(transaction_date);
+
+-- A payment or expense appears once on the bank side
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bank_statement_lines_payment ON bank_statement_lines(payment_id) WHERE payment_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bank_statement_lines_expense ON bank_statement_lines(expense_id) WHERE expense_id IS NOT NULL;
+
+-- Overlapping statements of the same account do not import a transaction twice
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bank_statement_lines_transaction
+    ON bank_statement_lines(bank_account, bank_transaction_id) WHERE bank_transaction_id IS NOT NULL;
+
+COMMENT ON TABLE bank_statement_lines IS 'Imported bank statement lines and the payment or expense each one matches';
+COMMENT ON COLUMN bank_statement_lines.match_type IS 'NULL = unmatched; Ignored = not a business movement (fees, internal transfers)';
+
+-- ============================================
+-- STEP 4: Create function to import a statement
+-- ============================================
+-- p_lines: [{ "line_number", "transaction_date", "amount", "description",
+--             "reference", "bank_transaction_id" }, ...]
+-- The whole file is written or nothing; lines whose bank_transaction_id was
+-- already imported for the same account are skipped.
+CREATE OR REPLACE FUNCTION import_bank_statement(
+    p_bank_account VARCHAR(255),
+    p_file_name VARCHAR(255),
+    p_file_format VARCHAR(10),
+    p_lines JSONB,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS bank_statements AS $$
+DECLARE
+    v_account VARCHAR(255) := NULLIF(TRIM(COALESCE(p_bank_account, '')), '');
+    v_statement bank_statements;
+    v_line JSONB;
+    v_inserted INTEGER := 0;
+    v_skipped INTEGER := 0;
+BEGIN
+    IF NOT validate_user_permission('record_payments') THEN
+        RAISE EXCEPTION 'ليس لديك صلاحية لتسجيل المدفوعات';
+    END IF;
+
+    IF v_account IS NULL THEN
+        RAISE EXCEPTION 'يرجى إدخال الحساب البنكي';
+    END IF;
+
+    IF p_lines IS NULL OR jsonb_typeof(p_lines) <> 'array' OR jsonb_array_length(p_lines) = 0 THEN
+        RAISE EXCEPTION 'الكشف لا يحتوي على أي عملية';
+    END IF;
+
+    INSERT INTO bank_statements (bank_account, file_name, file_format, period_start, period_end, notes, imported_by)
+    SELECT
+        v_account,
+        p_file_name,
+        p_file_format,
+        MIN((line->>'transaction_date')::DATE),
+        MAX((line->>'transaction_date')::DATE),
+        p_notes,
+        auth.uid()
+    FROM jsonb_array_elements(p_lines) AS line
+    RETURNING * INTO v_statement;
+
+    FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines)
+    LOOP
+        IF COALESCE((v_line->>'amount')::DECIMAL, 0) = 0 THEN
+            RAISE EXCEPTION 'مبلغ غير صحيح في السطر %', v_line->>'line_number';
+        END IF;
+
+        IF NULLIF(v_line->>'bank_transaction_id', '') IS NOT NULL AND EXISTS (
+            SELECT 1 FROM bank_statement_lines
+            WHERE bank_account = v_account
+              AND bank_transaction_id = v_line->>'bank_transaction_id'
+        ) THEN
+            v_skipped := v_skipped + 1;
+            CONTINUE;
+        END IF;
+
+        INSERT INTO bank_statement_lines (
+            statement_id, bank_account, line_number, transaction_date, amount,
+            description, reference, bank_transaction_id
+        ) VALUES (
+            v_statement.id,
+            v_account,
+            (v_line->>'line_number')::INTEGER,
+            (v_line->>'transaction_date')::DATE,
+            ROUND((v_line->>'amount')::DECIMAL, 2),
+            NULLIF(v_line->>'description', ''),
+            NULLIF(v_line->>'reference', ''),
+            NULLIF(v_line->>'bank_transaction_id', '')
+        );
+        v_inserted := v_inserted + 1;
+    END LOOP;
+
+    UPDATE bank_statements
+    SET line_count = v_inserted,
+        skipped_count = v_skipped
+    WHERE id = v_statement.id
+    RETURNING * INTO v_statement;
+
+    RETURN v_statement;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- STEP 5: Create function to match statement lines
+-- ============================================
+-- p_matches: [{ "line_id", "payment_id", "expense_id" }, ...]
+-- Credits match payments, debits match expenses (revenue entries are credits).
+-- Auto matches come from the app's scoring and are applied in one transaction.
+CREATE OR REPLACE FUNCTION match_bank_statement_lines(
+    p_matches JSONB,
+    p_match_type bank_match_type DEFAULT 'Manual'
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_match JSONB;
+    v_line bank_statement_lines;
+    v_payment_id UUID;
+    v_expense_id UUID;
+    v_is_revenue BOOLEAN;
+    v_count INTEGER := 0;
+BEGIN
+    IF NOT validate_user_permission('record_payments') THEN
+        RAISE EXCEPTION 'ليس لديك صلاحية لتسجيل المدفوعات';
+    END IF;
+
+    IF p_match_type = 'Ignored' THEN
+        RAISE EXCEPTION 'استخدم ignore_bank_statement_line() لتجاهل سطر';
+    END IF;
+
+    FOR v_match IN SELECT * FROM jsonb_array_elements(COALESCE(p_matches, '[]'::JSONB))
+    LOOP
+        SELECT * INTO v_line
+        FROM bank_statement_lines
+        WHERE id = (v_match->>'line_id')::UUID
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'سطر الكشف غير موجود';
+        END IF;
+
+        IF v_line.match_type IS NOT NULL THEN
+            RAISE EXCEPTION 'السطر % مطابق مسبقاً', v_line.line_number;
+        END IF;
+
+        v_payment_id := NULLIF(v_match->>'payment_id', '')::UUID;
+        v_expense_id := NULLIF(v_match->>'expense_id', '')::UUID;
+
+        IF (v_payment_id IS NULL) = (v_expense_id IS NULL) THEN
+            RAISE EXCEPTION 'يرجى اختيار دفعة أو مصروف واحد للسطر %', v_line.line_number;
+        END IF;
+
+        IF v_payment_id IS NOT NULL THEN
+            IF v_line.amount < 0 THEN
+                RAISE EXCEPTION 'السطر % عملية سحب ولا يطابق دفعة عميل', v_line.line_number;
+            END IF;
+            IF EXISTS (SELECT 1 FROM bank_statement_lines WHERE payment_id = v_payment_id) THEN
+                RAISE EXCEPTION 'الدفعة مطابقة مسبقاً مع سطر آخر';
+            END IF;
+        ELSE
+            SELECT COALESCE(is_revenue, FALSE) INTO v_is_revenue FROM expenses WHERE id = v_expense_id;
+            IF NOT FOUND THEN
+                RAISE EXCEPTION 'المصروف غير موجود';
+            END IF;
+            IF (v_line.amount > 0) <> v_is_revenue THEN
+                RAISE EXCEPTION 'اتجاه السطر % لا يوافق المصروف', v_line.line_number;
+            END IF;
+            IF EXISTS (SELECT 1 FROM bank_statement_lines WHERE expense_id = v_expense_id) THEN
+                RAISE EXCEPTION 'المصروف مطابق مسبقاً مع سطر آخر';
+            END IF;
+        END IF;
+
+        UPDATE bank_statement_lines
+        SET payment_id = v_payment_id,
+            expense_id = v_expense_id,
+            match_type = p_match_type,
+            matched_by = auth.uid(),
+            matched_at = NOW()
+        WHERE id = v_line.id;
+
+        v_count := v_count + 1;
+    END LOOP;
+
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- STEP 6: Create functions to ignore or unmatch a line
+-- ============================================
+CREATE OR REPLACE FUNCTION ignore_bank_statement_line(
+    p_line_id UUID,
+    p_notes TEXT
+)
+RETURNS bank_statement_lines AS $$
+DECLARE
+    v_line bank_statement_lines;
+BEGIN
+    IF NOT validate_user_permission('record_payments') THEN
+        RAISE EXCEPTION 'ليس لديك صلاحية لتسجيل المدفوعات';
+    END IF;
+
+    IF NULLIF(TRIM(COALESCE(p_notes, '')), '') IS NULL THEN
+        RAISE EXCEPTION 'يرجى إدخال سبب التجاهل';
+    END IF;
+
+    UPDATE bank_statement_lines
+    SET payment_id = NULL,
+        expense_id = NULL,
+        match_type = 'Ignored',
+        matched_by = auth.uid(),
+        matched_at = NOW(),
+        notes = p_notes
+    WHERE id = p_line_id AND match_type IS NULL
+    RETURNING * INTO v_line;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'السطر غير موجود أو مطابق مسبقاً';
+    END IF;
+
+    RETURN v_line;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION unmatch_bank_statement_line(p_line_id UUID)
+RETURNS bank_statement_lines AS $$
+DECLARE
+    v_line bank_statement_lines;
+BEGIN
+    IF NOT validate_user_permission('record_payments') THEN
+        RAISE EXCEPTION 'ليس لديك صلاحية لتسجيل المدفوعات';
+    END IF;
+
+    UPDATE bank_statement_lines
+    SET payment_id = NULL,
+        expense_id = NULL,
+        match_type = NULL,
+        matched_by = NULL,
+        matched_at = NULL
+    WHERE id = p_line_id
+    RETURNING * INTO v_line;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'سطر الكشف غير موجود';
+    END IF;
+
+    RETURN v_line;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- STEP 7: Triggers
+-- ============================================
+DROP TRIGGER IF EXISTS update_bank_statements_updated_at ON bank_statements;
+CREATE TRIGGER update_bank_statements_updated_at
+    BEFORE UPDATE ON bank_statements
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_bank_statement_lines_updated_at ON bank_statement_lines;
+CREATE TRIGGER update_bank_statement_lines_updated_at
+    BEFORE UPDATE ON bank_statement_lines
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS audit_bank_statements ON bank_statements;
+CREATE TRIGGER audit_bank_statements AFTER INSERT OR UPDATE OR DELETE ON bank_statements
+    FOR EACH ROW EXECUTE FUNCTION audit_trigger_function();
+
+-- ============================================
+-- STEP 8: Enable RLS
+-- ============================================
+ALTER TABLE bank_statements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bank_statement_lines ENABLE ROW LEVEL SECURITY;
+
+-- Statements and matches are written by the functions above (SECURITY DEFINER)
+DROP POLICY IF EXISTS "Bank statements are viewable by authenticated users" ON bank_statements;
+CREATE POLICY "Bank statements are viewable by authenticated users"
+    ON bank_statements FOR SELECT
+    TO authenticated
+    USING (true);
+
+-- Deleting a statement removes its lines and frees their payments and expenses
+DROP POLICY IF EXISTS "Owners can delete bank statements" ON bank_statements;
+CREATE POLICY "Owners can delete bank statements"
+    ON bank_statements FOR DELETE
+    TO authenticated
+    USING (get_user_role() = 'Owner');
+
+DROP POLICY IF EXISTS "Bank statement lines are viewable by authenticated users" ON bank_statement_lines;
+CREATE POLICY "Bank statement lines are viewable by authenticated users"
+    ON bank_statement_lines FOR SELECT
+    TO authenticated
+    USING (true);
+
+GRANT EXECUTE ON FUNCTION import_bank_statement(VARCHAR, VARCHAR, VARCHAR, JSONB, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION match_bank_statement_lines(JSONB, bank_match_type) TO authenticated;
+GRANT EXECUTE ON FUNCTION ignore_bank_statement_line(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION unmatch_bank_statement_line(UUID) TO authenticated;
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+SELECT
+    s.bank_account,
+    s.file_name,
+    s.period_start,
+    s.period_end,
+    COUNT(l.id) AS lines,
+    COUNT(l.id) FILTER (WHERE l.match_type IS NULL) AS unmatched
+FROM bank_statements s
+LEFT JOIN bank_statement_lines l ON l.statement_id = s.id
+GROUP BY s.id
+ORDER BY s.created_at DESC;
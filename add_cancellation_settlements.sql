@@ -0,0 +1,307 @@
+-- ============================================
+-- CANCELLATION SETTLEMENTS
+-- Migration: Refund calculation, refund schedule and cancellation agreement data
+-- ============================================
+-- Purpose: Cancelling a sale used to delete its payments or record a refund typed
+--          in by hand. settle_sale_cancellation() now works out the money:
+--          - Total paid by the client on the sale (refunds already made deducted)
+--          - Retention kept by the company: none, a fixed amount, a percentage of
+--            what was paid, or the small advance (العربون)
+--          - A refund_schedule with the dates the money is handed back; the
+--            settlement only records what is owed, each 'Refund' payment is
+--            recorded by mark_refund_paid() when its line is handed over
+--          - The sale is cancelled, unpaid installments removed, pieces / houses
+--            released and the cancellation request (if any) approved
+--          The settlement row keeps every figure used so the agreement document
+--          can be printed again later.
+-- Run this in Supabase SQL Editor
+-- Dependencies: Requires supabase_schema.sql, add_cancellation_requests_table.sql
+--               and add_server_side_permission_validation.sql
+-- ============================================
+
+-- ============================================
+-- STEP 1: Create ENUM for retention types
+-- ============================================
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'retention_type') THEN
+        CREATE TYPE retention_type AS ENUM ('None', 'Fixed', 'Percentage', 'SmallAdvance');
+    END IF;
+END $$;
+
+-- ============================================
+-- STEP 2: Create cancellation_settlements table
+-- ============================================
+CREATE TABLE IF NOT EXISTS cancellation_settlements (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    sale_id UUID NOT NULL REFERENCES sales(id) ON DELETE CASCADE,
+    client_id UUID NOT NULL REFERENCES clients(id) ON DELETE RESTRICT,
+    cancellation_request_id UUID REFERENCES cancellation_requests(id) ON DELETE SET NULL,
+    total_paid DECIMAL(15, 2) NOT NULL DEFAULT 0, -- Payments on the sale, refunds excluded
+    already_refunded DECIMAL(15, 2) NOT NULL DEFAULT 0, -- Refunds recorded before the settlement
+    retention_type retention_type NOT NULL DEFAULT 'None',
+    retention_value DECIMAL(15, 2) NOT NULL DEFAULT 0 CHECK (retention_value >= 0), -- Amount (Fixed) or percent (Percentage)
+    retention_amount DECIMAL(15, 2) NOT NULL DEFAULT 0 CHECK (retention_amount >= 0),
+    refund_amount DECIMAL(15, 2) NOT NULL DEFAULT 0 CHECK (refund_amount >= 0),
+    refund_payment_id UUID REFERENCES payments(id) ON DELETE SET NULL, -- Settlements made before the refund schedule recorded its payments
+    reason TEXT NOT NULL,
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cancellation_settlements_sale ON cancellation_settlements(sale_id);
+CREATE INDEX IF NOT EXISTS idx_cancellation_settlements_client ON cancellation_settlements(client_id);
+
+COMMENT ON TABLE cancellation_settlements IS 'Money settled when a sale is cancelled, written by settle_sale_cancellation()';
+COMMENT ON COLUMN cancellation_settlements.retention_value IS 'Fixed amount, or percentage of the net amount paid';
+
+-- ============================================
+-- STEP 3: Create refund_schedule table
+-- ============================================
+CREATE TABLE IF NOT EXISTS refund_schedule (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    settlement_id UUID NOT NULL REFERENCES cancellation_settlements(id) ON DELETE CASCADE,
+    installment_number INTEGER NOT NULL,
+    due_date DATE NOT NULL,
+    amount DECIMAL(15, 2) NOT NULL CHECK (amount > 0),
+    status VARCHAR(20) NOT NULL DEFAULT 'Pending' CHECK (status IN ('Pending', 'Paid')),
+    paid_at TIMESTAMPTZ,
+    paid_by UUID REFERENCES users(id),
+    payment_method VARCHAR(50),
+    payment_id UUID REFERENCES payments(id) ON DELETE SET NULL, -- 'Refund' payment recorded when handed over
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (settlement_id, installment_number)
+);
+
+ALTER TABLE refund_schedule ADD COLUMN IF NOT EXISTS payment_id UUID REFERENCES payments(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_refund_schedule_settlement ON refund_schedule(settlement_id);
+CREATE INDEX IF NOT EXISTS idx_refund_schedule_pending ON refund_schedule(due_date) WHERE status = 'Pending';
+
+COMMENT ON TABLE refund_schedule IS 'Dates on which the refund of a cancellation settlement is handed to the client';
+
+-- ============================================
+-- STEP 4: Settle a cancellation
+-- ============================================
+-- p_schedule: [{ "due_date": "2025-03-01", "amount": 1500 }, ...] summing to the
+-- refund amount; empty means one refund due today.
+-- p_payment_method: planned method of the schedule lines; mark_refund_paid()
+-- records the one really used.
+CREATE OR REPLACE FUNCTION settle_sale_cancellation(
+    p_sale_id UUID,
+    p_retention_type retention_type,
+    p_retention_value DECIMAL(15, 2),
+    p_reason TEXT,
+    p_schedule JSONB DEFAULT '[]'::JSONB,
+    p_cancellation_request_id UUID DEFAULT NULL,
+    p_payment_method VARCHAR(50) DEFAULT 'Cash'
+)
+RETURNS cancellation_settlements AS $$
+DECLARE
+    v_sale RECORD;
+    v_total_paid DECIMAL(15, 2);
+    v_already_refunded DECIMAL(15, 2);
+    v_net_paid DECIMAL(15, 2);
+    v_retention DECIMAL(15, 2);
+    v_refund DECIMAL(15, 2);
+    v_schedule JSONB;
+    v_schedule_total DECIMAL(15, 2);
+    v_settlement cancellation_settlements;
+BEGIN
+    IF NOT validate_user_permission('edit_sales') THEN
+        RAISE EXCEPTION 'ليس لديك صلاحية إلغاء المبيعات';
+    END IF;
+
+    IF NULLIF(TRIM(COALESCE(p_reason, '')), '') IS NULL THEN
+        RAISE EXCEPTION 'يرجى إدخال سبب الإلغاء';
+    END IF;
+
+    IF COALESCE(p_retention_value, 0) < 0 THEN
+        RAISE EXCEPTION 'قيمة الاقتطاع لا يمكن أن تكون سالبة';
+    END IF;
+
+    IF p_retention_type = 'Percentage' AND p_retention_value > 100 THEN
+        RAISE EXCEPTION 'نسبة الاقتطاع لا يمكن أن تتجاوز 100%%';
+    END IF;
+
+    SELECT * INTO v_sale FROM sales WHERE id = p_sale_id FOR UPDATE;
+
+    IF v_sale IS NULL THEN
+        RAISE EXCEPTION 'البيع غير موجود';
+    END IF;
+
+    IF v_sale.status = 'Cancelled' THEN
+        RAISE EXCEPTION 'هذا البيع ملغى بالفعل';
+    END IF;
+
+    SELECT
+        COALESCE(SUM(amount_paid) FILTER (WHERE payment_type <> 'Refund'), 0),
+        COALESCE(SUM(ABS(amount_paid)) FILTER (WHERE payment_type = 'Refund'), 0)
+    INTO v_total_paid, v_already_refunded
+    FROM payments
+    WHERE sale_id = p_sale_id;
+
+    v_net_paid := GREATEST(v_total_paid - v_already_refunded, 0);
+
+    -- Same rules as calculateSettlement() in frontend/src/lib/cancellationSettlement.ts
+    v_retention := CASE p_retention_type
+        WHEN 'Fixed' THEN COALESCE(p_retention_value, 0)
+        WHEN 'Percentage' THEN ROUND(v_net_paid * COALESCE(p_retention_value, 0) / 100, 2)
+        WHEN 'SmallAdvance' THEN COALESCE(v_sale.small_advance_amount, 0)
+        ELSE 0
+    END;
+    v_retention := LEAST(v_retention, v_net_paid);
+    v_refund := v_net_paid - v_retention;
+
+    v_schedule := COALESCE(p_schedule, '[]'::JSONB);
+    IF v_refund > 0 AND jsonb_array_length(v_schedule) = 0 THEN
+        v_schedule := jsonb_build_array(jsonb_build_object('due_date', CURRENT_DATE, 'amount', v_refund));
+    END IF;
+
+    SELECT COALESCE(SUM((e->>'amount')::DECIMAL(15, 2)), 0)
+    INTO v_schedule_total
+    FROM jsonb_array_elements(v_schedule) e;
+
+    IF ABS(v_schedule_total - v_refund) > 0.01 THEN
+        RAISE EXCEPTION 'مجموع جدول الاسترجاع (%) لا يساوي مبلغ الاسترجاع (%)', v_schedule_total, v_refund;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM jsonb_array_elements(v_schedule) e WHERE (e->>'amount')::DECIMAL(15, 2) <= 0) THEN
+        RAISE EXCEPTION 'مبالغ جدول الاسترجاع يجب أن تكون أكبر من صفر';
+    END IF;
+
+    -- No payment yet: the refund is owed until each line is handed over
+    INSERT INTO cancellation_settlements (
+        sale_id, client_id, cancellation_request_id, total_paid, already_refunded,
+        retention_type, retention_value, retention_amount, refund_amount,
+        reason, created_by
+    ) VALUES (
+        p_sale_id, v_sale.client_id, p_cancellation_request_id, v_total_paid, v_already_refunded,
+        p_retention_type, COALESCE(p_retention_value, 0), v_retention, v_refund,
+        TRIM(p_reason), auth.uid()
+    )
+    RETURNING * INTO v_settlement;
+
+    INSERT INTO refund_schedule (settlement_id, installment_number, due_date, amount, payment_method)
+    SELECT v_settlement.id, e.ordinality, (e.value->>'due_date')::DATE, (e.value->>'amount')::DECIMAL(15, 2),
+        COALESCE(p_payment_method, 'Cash')
+    FROM jsonb_array_elements(v_schedule) WITH ORDINALITY e;
+
+    -- Installments not started are dropped; paid ones stay for history
+    DELETE FROM installments
+    WHERE sale_id = p_sale_id
+    AND COALESCE(amount_paid, 0) = 0;
+
+    UPDATE sales
+    SET status = 'Cancelled',
+        notes = CONCAT_WS(E'\n', NULLIF(notes, ''), 'سبب الإلغاء: ' || TRIM(p_reason)),
+        updated_at = NOW()
+    WHERE id = p_sale_id;
+
+    UPDATE land_pieces
+    SET status = 'Available', reservation_client_id = NULL, reserved_until = NULL, updated_at = NOW()
+    WHERE id = ANY(COALESCE(v_sale.land_piece_ids, ARRAY[]::UUID[]));
+
+    UPDATE houses
+    SET status = 'Available', reservation_client_id = NULL, reserved_until = NULL, updated_at = NOW()
+    WHERE id = ANY(COALESCE(v_sale.house_ids, ARRAY[]::UUID[]));
+
+    UPDATE cancellation_requests
+    SET status = 'Approved',
+        approved_by = auth.uid(),
+        approved_at = NOW(),
+        final_refund_amount = v_refund,
+        updated_at = NOW()
+    WHERE sale_id = p_sale_id
+    AND status = 'Pending'
+    AND (p_cancellation_request_id IS NULL OR id = p_cancellation_request_id);
+
+    RETURN v_settlement;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION settle_sale_cancellation(UUID, retention_type, DECIMAL, TEXT, JSONB, UUID, VARCHAR) TO authenticated;
+
+-- ============================================
+-- STEP 5: Mark a scheduled refund as handed over
+-- ============================================
+-- Records the 'Refund' payment of the line, dated the day it is handed over
+CREATE OR REPLACE FUNCTION mark_refund_paid(
+    p_schedule_id UUID,
+    p_payment_method VARCHAR(50) DEFAULT 'Cash'
+)
+RETURNS VOID AS $$
+DECLARE
+    v_line RECORD;
+    v_payment_id UUID;
+BEGIN
+    IF NOT validate_user_permission('edit_sales') THEN
+        RAISE EXCEPTION 'ليس لديك صلاحية تعديل المبيعات';
+    END IF;
+
+    SELECT rs.id, rs.installment_number, rs.amount, cs.sale_id, cs.client_id
+    INTO v_line
+    FROM refund_schedule rs
+    JOIN cancellation_settlements cs ON cs.id = rs.settlement_id
+    WHERE rs.id = p_schedule_id
+    AND rs.status = 'Pending'
+    FOR UPDATE OF rs;
+
+    IF v_line IS NULL THEN
+        RAISE EXCEPTION 'دفعة الاسترجاع غير موجودة أو مسددة بالفعل';
+    END IF;
+
+    INSERT INTO payments (
+        client_id, sale_id, amount_paid, payment_type,
+        payment_date, payment_method, notes, recorded_by
+    ) VALUES (
+        v_line.client_id, v_line.sale_id, v_line.amount, 'Refund',
+        CURRENT_DATE, COALESCE(p_payment_method, 'Cash'),
+        'استرجاع لإلغاء البيع #' || LEFT(v_line.sale_id::TEXT, 8) || ' - دفعة ' || v_line.installment_number,
+        auth.uid()
+    )
+    RETURNING id INTO v_payment_id;
+
+    UPDATE refund_schedule
+    SET status = 'Paid',
+        paid_at = NOW(),
+        paid_by = auth.uid(),
+        payment_method = COALESCE(p_payment_method, 'Cash'),
+        payment_id = v_payment_id
+    WHERE id = p_schedule_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION mark_refund_paid(UUID, VARCHAR) TO authenticated;
+
+-- ============================================
+-- STEP 6: Enable RLS
+-- ============================================
+ALTER TABLE cancellation_settlements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE refund_schedule ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the functions above (SECURITY DEFINER)
+DROP POLICY IF EXISTS "Cancellation settlements are viewable by authenticated users" ON cancellation_settlements;
+CREATE POLICY "Cancellation settlements are viewable by authenticated users"
+    ON cancellation_settlements FOR SELECT
+    TO authenticated
+    USING (true);
+
+DROP POLICY IF EXISTS "Refund schedule is viewable by authenticated users" ON refund_schedule;
+CREATE POLICY "Refund schedule is viewable by authenticated users"
+    ON refund_schedule FOR SELECT
+    TO authenticated
+    USING (true);
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+SELECT routine_name
+FROM information_schema.routines
+WHERE routine_schema = 'public'
+AND routine_name IN ('settle_sale_cancellation', 'mark_refund_paid');
+
+SELECT table_name
+FROM information_schema.tables
+WHERE table_schema = 'public'
+AND table_name IN ('cancellation_settlements', 'refund_schedule');
@@ -0,0 +1,280 @@
+-- ============================================
+-- CASH REGISTER SESSIONS
+-- Migration: Cash drawer sessions per user with opening float and closing count
+-- ============================================
+-- Purpose: Each user collecting cash works in a session: it opens with the
+--          float in the drawer, every Cash payment or expense the user records
+--          while it is open is attached to it, and it closes with the amount
+--          counted. The expected amount is computed at closing:
+--            float + cash payments - cash refunds - cash expenses + cash revenue entries
+--          and the variance is counted minus expected.
+--          A user has one open session at a time. The cash of a closed session
+--          is handed over to the user named at closing (usually the Owner).
+--          Rejected expenses are left out of the expected amount.
+-- Run this in Supabase SQL Editor
+-- Dependencies: Requires supabase_schema.sql, add_expenses_table.sql and
+--               ADD_RECURRING_EXPENSES.sql
+-- ============================================
+
+-- ============================================
+-- STEP 1: Create ENUMs
+-- ============================================
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'cash_session_status') THEN
+        CREATE TYPE cash_session_status AS ENUM ('Open', 'Closed');
+    END IF;
+END $$;
+
+-- ============================================
+-- STEP 2: Create cash_sessions table
+-- ============================================
+CREATE TABLE IF NOT EXISTS cash_sessions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE RESTRICT, -- Who holds the drawer
+    status cash_session_status NOT NULL DEFAULT 'Open',
+    opening_float DECIMAL(15, 2) NOT NULL DEFAULT 0 CHECK (opening_float >= 0),
+    opened_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    opening_notes TEXT,
+    -- Filled at closing
+    closed_at TIMESTAMPTZ,
+    closed_by UUID REFERENCES users(id),
+    expected_amount DECIMAL(15, 2),
+    counted_amount DECIMAL(15, 2) CHECK (counted_amount >= 0),
+    variance DECIMAL(15, 2), -- counted - expected; negative = cash missing
+    handed_over_to UUID REFERENCES users(id),
+    closing_notes TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CHECK (status = 'Open' OR (closed_at IS NOT NULL AND counted_amount IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_cash_sessions_user ON cash_sessions(user_id, opened_at DESC);
+CREATE INDEX IF NOT EXISTS idx_cash_sessions_status ON cash_sessions(status);
+
+-- One open drawer per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cash_sessions_one_open ON cash_sessions(user_id) WHERE status = 'Open';
+
+COMMENT ON TABLE cash_sessions IS 'Cash drawer sessions: opening float, attached cash movements and closing count';
+
+-- ============================================
+-- STEP 3: Attach cash movements to sessions
+-- ============================================
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS cash_session_id UUID REFERENCES cash_sessions(id) ON DELETE SET NULL;
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS cash_session_id UUID REFERENCES cash_sessions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_payments_cash_session ON payments(cash_session_id) WHERE cash_session_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_expenses_cash_session ON expenses(cash_session_id) WHERE cash_session_id IS NOT NULL;
+
+-- Cash recorded while the recording user has an open session goes to that session
+CREATE OR REPLACE FUNCTION attach_payment_to_cash_session()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.cash_session_id IS NULL AND COALESCE(NEW.payment_method, 'Cash') = 'Cash' THEN
+        SELECT id INTO NEW.cash_session_id
+        FROM cash_sessions
+        WHERE user_id = COALESCE(NEW.recorded_by, auth.uid())
+          AND status = 'Open';
+    ELSIF NEW.payment_method IS DISTINCT FROM 'Cash' THEN
+        NEW.cash_session_id := NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION attach_expense_to_cash_session()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.cash_session_id IS NULL AND NEW.payment_method = 'Cash' THEN
+        SELECT id INTO NEW.cash_session_id
+        FROM cash_sessions
+        WHERE user_id = COALESCE(NEW.submitted_by, auth.uid())
+          AND status = 'Open';
+    ELSIF NEW.payment_method <> 'Cash' THEN
+        NEW.cash_session_id := NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS attach_payment_to_cash_session ON payments;
+CREATE TRIGGER attach_payment_to_cash_session
+    BEFORE INSERT OR UPDATE OF payment_method ON payments
+    FOR EACH ROW EXECUTE FUNCTION attach_payment_to_cash_session();
+
+DROP TRIGGER IF EXISTS attach_expense_to_cash_session ON expenses;
+CREATE TRIGGER attach_expense_to_cash_session
+    BEFORE INSERT OR UPDATE OF payment_method ON expenses
+    FOR EACH ROW EXECUTE FUNCTION attach_expense_to_cash_session();
+
+-- ============================================
+-- STEP 4: Session totals
+-- ============================================
+-- Live figures for open sessions; closed sessions keep the figures stored at closing
+CREATE OR REPLACE FUNCTION get_cash_session_totals(p_session_ids UUID[])
+RETURNS TABLE (
+    session_id UUID,
+    payments_in DECIMAL(15, 2),
+    refunds_out DECIMAL(15, 2),
+    expenses_out DECIMAL(15, 2),
+    revenue_in DECIMAL(15, 2),
+    expected_amount DECIMAL(15, 2)
+) AS $$
+    WITH pay AS (
+        SELECT
+            p.cash_session_id,
+            COALESCE(SUM(p.amount_paid) FILTER (WHERE p.payment_type <> 'Refund'), 0) AS paid,
+            COALESCE(SUM(p.amount_paid) FILTER (WHERE p.payment_type = 'Refund'), 0) AS refunded
+        FROM payments p
+        WHERE p.cash_session_id = ANY(p_session_ids)
+        GROUP BY p.cash_session_id
+    ),
+    exp AS (
+        SELECT
+            e.cash_session_id,
+            COALESCE(SUM(e.amount) FILTER (WHERE NOT COALESCE(e.is_revenue, FALSE)), 0) AS spent,
+            COALESCE(SUM(e.amount) FILTER (WHERE COALESCE(e.is_revenue, FALSE)), 0) AS received
+        FROM expenses e
+        WHERE e.cash_session_id = ANY(p_session_ids)
+          AND e.status <> 'Rejected'
+        GROUP BY e.cash_session_id
+    )
+    SELECT
+        s.id,
+        COALESCE(pay.paid, 0)::DECIMAL(15, 2),
+        COALESCE(pay.refunded, 0)::DECIMAL(15, 2),
+        COALESCE(exp.spent, 0)::DECIMAL(15, 2),
+        COALESCE(exp.received, 0)::DECIMAL(15, 2),
+        (s.opening_float + COALESCE(pay.paid, 0) - COALESCE(pay.refunded, 0)
+            - COALESCE(exp.spent, 0) + COALESCE(exp.received, 0))::DECIMAL(15, 2)
+    FROM cash_sessions s
+    LEFT JOIN pay ON pay.cash_session_id = s.id
+    LEFT JOIN exp ON exp.cash_session_id = s.id
+    WHERE s.id = ANY(p_session_ids)
+      AND (s.user_id = auth.uid() OR get_user_role() = 'Owner');
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- STEP 5: Open and close
+-- ============================================
+CREATE OR REPLACE FUNCTION open_cash_session(
+    p_opening_float DECIMAL,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS cash_sessions AS $$
+DECLARE
+    v_session cash_sessions;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'يجب تسجيل الدخول';
+    END IF;
+
+    IF COALESCE(p_opening_float, 0) < 0 THEN
+        RAISE EXCEPTION 'رصيد الافتتاح لا يمكن أن يكون سالباً';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM cash_sessions WHERE user_id = auth.uid() AND status = 'Open') THEN
+        RAISE EXCEPTION 'لديك جلسة صندوق مفتوحة، يجب إغلاقها أولاً';
+    END IF;
+
+    INSERT INTO cash_sessions (user_id, opening_float, opening_notes)
+    VALUES (auth.uid(), ROUND(COALESCE(p_opening_float, 0), 2), NULLIF(TRIM(COALESCE(p_notes, '')), ''))
+    RETURNING * INTO v_session;
+
+    RETURN v_session;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The holder closes their own session; the Owner can close any session
+CREATE OR REPLACE FUNCTION close_cash_session(
+    p_session_id UUID,
+    p_counted_amount DECIMAL,
+    p_handed_over_to UUID DEFAULT NULL,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS cash_sessions AS $$
+DECLARE
+    v_session cash_sessions;
+    v_expected DECIMAL(15, 2);
+BEGIN
+    SELECT * INTO v_session FROM cash_sessions WHERE id = p_session_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'جلسة الصندوق غير موجودة';
+    END IF;
+
+    IF v_session.user_id IS DISTINCT FROM auth.uid() AND get_user_role() IS DISTINCT FROM 'Owner' THEN
+        RAISE EXCEPTION 'لا يمكنك إغلاق جلسة مستخدم آخر';
+    END IF;
+
+    IF v_session.status <> 'Open' THEN
+        RAISE EXCEPTION 'الجلسة مغلقة مسبقاً';
+    END IF;
+
+    IF p_counted_amount IS NULL OR p_counted_amount < 0 THEN
+        RAISE EXCEPTION 'يرجى إدخال المبلغ المعدود';
+    END IF;
+
+    SELECT t.expected_amount INTO v_expected
+    FROM get_cash_session_totals(ARRAY[p_session_id]) t;
+
+    UPDATE cash_sessions
+    SET status = 'Closed',
+        closed_at = NOW(),
+        closed_by = auth.uid(),
+        expected_amount = v_expected,
+        counted_amount = ROUND(p_counted_amount, 2),
+        variance = ROUND(p_counted_amount, 2) - v_expected,
+        handed_over_to = p_handed_over_to,
+        closing_notes = NULLIF(TRIM(COALESCE(p_notes, '')), '')
+    WHERE id = p_session_id
+    RETURNING * INTO v_session;
+
+    RETURN v_session;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- STEP 6: Triggers and RLS
+-- ============================================
+DROP TRIGGER IF EXISTS update_cash_sessions_updated_at ON cash_sessions;
+CREATE TRIGGER update_cash_sessions_updated_at
+    BEFORE UPDATE ON cash_sessions
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS audit_cash_sessions ON cash_sessions;
+CREATE TRIGGER audit_cash_sessions AFTER INSERT OR UPDATE OR DELETE ON cash_sessions
+    FOR EACH ROW EXECUTE FUNCTION audit_trigger_function();
+
+ALTER TABLE cash_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Sessions are opened and closed through the functions above
+DROP POLICY IF EXISTS "Users can view their own cash sessions" ON cash_sessions;
+CREATE POLICY "Users can view their own cash sessions"
+    ON cash_sessions FOR SELECT
+    TO authenticated
+    USING (user_id = auth.uid() OR get_user_role() = 'Owner');
+
+DROP POLICY IF EXISTS "Owners can delete cash sessions" ON cash_sessions;
+CREATE POLICY "Owners can delete cash sessions"
+    ON cash_sessions FOR DELETE
+    TO authenticated
+    USING (get_user_role() = 'Owner');
+
+GRANT EXECUTE ON FUNCTION get_cash_session_totals(UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION open_cash_session(DECIMAL, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION close_cash_session(UUID, DECIMAL, UUID, TEXT) TO authenticated;
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+SELECT
+    column_name,
+    data_type
+FROM information_schema.columns
+WHERE table_name = 'cash_sessions'
+ORDER BY ordinal_position;
+
+SELECT status, COUNT(*) AS sessions, SUM(variance) AS total_variance
+FROM cash_sessions
+GROUP BY status;
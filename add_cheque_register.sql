@@ -0,0 +1,423 @@
+-- ============================================
+-- CHEQUE REGISTER
+-- Migration: Track incoming and outgoing cheques through their life
+-- ============================================
+-- Purpose: Records every cheque received from clients (incoming) or given to
+--          creditors (outgoing) with its bank, number, drawer, amount and due
+--          date, and follows it through Received -> Deposited -> Cleared / Bounced.
+--          Incoming cheques link to the payment they settled; outgoing cheques
+--          link to the debt and the debt payment they settled.
+--          allocate_cheque_payment() records a sale payment and its cheque
+--          together, so neither exists without the other.
+--          When a cheque bounces the linked payment is reversed: the payment row
+--          is removed (a copy is kept on the cheque), the installments it paid are
+--          open again (Late / Partial / Unpaid) and a completed sale goes back to
+--          Pending, still confirmed. A bounced outgoing cheque removes its debt payment and makes
+--          the debt Active again.
+-- Run this in Supabase SQL Editor
+-- Dependencies: Requires supabase_schema.sql, add_debt_payments_table.sql,
+--               add_payment_allocation.sql, fix_all_missing_columns.sql
+--               and add_server_side_permission_validation.sql
+-- ============================================
+
+-- ============================================
+-- STEP 1: Create ENUMs
+-- ============================================
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'cheque_direction') THEN
+        CREATE TYPE cheque_direction AS ENUM ('Incoming', 'Outgoing');
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'cheque_status') THEN
+        CREATE TYPE cheque_status AS ENUM ('Received', 'Deposited', 'Cleared', 'Bounced');
+    END IF;
+END $$;
+
+-- ============================================
+-- STEP 2: Create cheques table
+-- ============================================
+CREATE TABLE IF NOT EXISTS cheques (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    direction cheque_direction NOT NULL,
+    cheque_number VARCHAR(50) NOT NULL,
+    bank_name VARCHAR(255) NOT NULL,
+    drawer_name VARCHAR(255) NOT NULL, -- Who signed the cheque
+    payee_name VARCHAR(255), -- Beneficiary, for outgoing cheques
+    amount DECIMAL(15, 2) NOT NULL CHECK (amount > 0),
+    issue_date DATE,
+    due_date DATE NOT NULL, -- Date written on the cheque
+    status cheque_status NOT NULL DEFAULT 'Received',
+    client_id UUID REFERENCES clients(id) ON DELETE SET NULL,
+    payment_id UUID REFERENCES payments(id) ON DELETE SET NULL,
+    debt_id UUID REFERENCES debts(id) ON DELETE SET NULL,
+    debt_payment_id UUID REFERENCES debt_payments(id) ON DELETE SET NULL,
+    deposit_account VARCHAR(255), -- Account the cheque was deposited to
+    deposited_at DATE,
+    cleared_at DATE,
+    bounced_at DATE,
+    bounce_reason TEXT,
+    reversed_payment JSONB, -- Copy of the payment / debt payment removed when the cheque bounced
+    notes TEXT,
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CHECK (direction = 'Incoming' OR payment_id IS NULL),
+    CHECK (direction = 'Outgoing' OR (debt_id IS NULL AND debt_payment_id IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_cheques_status_due ON cheques(status, due_date);
+CREATE INDEX IF NOT EXISTS idx_cheques_client ON cheques(client_id);
+CREATE INDEX IF NOT EXISTS idx_cheques_debt ON cheques(debt_id);
+CREATE INDEX IF NOT EXISTS idx_cheques_number ON cheques(cheque_number);
+
+-- A payment or debt payment is settled by one cheque
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cheques_payment ON cheques(payment_id) WHERE payment_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cheques_debt_payment ON cheques(debt_payment_id) WHERE debt_payment_id IS NOT NULL;
+
+COMMENT ON TABLE cheques IS 'Cheques received from clients and given to creditors';
+COMMENT ON COLUMN cheques.reversed_payment IS 'Payment or debt payment removed by update_cheque_status() when the cheque bounced';
+
+-- ============================================
+-- STEP 3: Create cheque_status_history table
+-- ============================================
+CREATE TABLE IF NOT EXISTS cheque_status_history (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    cheque_id UUID NOT NULL REFERENCES cheques(id) ON DELETE CASCADE,
+    from_status cheque_status, -- NULL when the cheque was recorded
+    to_status cheque_status NOT NULL,
+    status_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    notes TEXT,
+    changed_by UUID REFERENCES users(id),
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cheque_status_history_cheque ON cheque_status_history(cheque_id, created_at);
+
+-- ============================================
+-- STEP 4: Create function to record a cheque
+-- ============================================
+CREATE OR REPLACE FUNCTION record_cheque(
+    p_direction cheque_direction,
+    p_cheque_number VARCHAR(50),
+    p_bank_name VARCHAR(255),
+    p_drawer_name VARCHAR(255),
+    p_amount DECIMAL(15, 2),
+    p_due_date DATE,
+    p_issue_date DATE DEFAULT NULL,
+    p_payee_name VARCHAR(255) DEFAULT NULL,
+    p_client_id UUID DEFAULT NULL,
+    p_payment_id UUID DEFAULT NULL,
+    p_debt_id UUID DEFAULT NULL,
+    p_debt_payment_id UUID DEFAULT NULL,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS cheques AS $$
+DECLARE
+    v_client_id UUID := p_client_id;
+    v_debt_id UUID := p_debt_id;
+    v_payment RECORD;
+    v_debt_payment RECORD;
+    v_cheque cheques;
+BEGIN
+    IF NOT validate_user_permission('record_payments') THEN
+        RAISE EXCEPTION 'ليس لديك صلاحية لتسجيل المدفوعات';
+    END IF;
+
+    IF NULLIF(TRIM(COALESCE(p_cheque_number, '')), '') IS NULL
+       OR NULLIF(TRIM(COALESCE(p_bank_name, '')), '') IS NULL
+       OR NULLIF(TRIM(COALESCE(p_drawer_name, '')), '') IS NULL THEN
+        RAISE EXCEPTION 'يرجى إدخال رقم الشيك والبنك والساحب';
+    END IF;
+
+    IF COALESCE(p_amount, 0) <= 0 THEN
+        RAISE EXCEPTION 'يرجى إدخال مبلغ صحيح';
+    END IF;
+
+    IF p_direction = 'Incoming' AND (p_debt_id IS NOT NULL OR p_debt_payment_id IS NOT NULL) THEN
+        RAISE EXCEPTION 'الشيك الوارد لا يرتبط بدين';
+    END IF;
+
+    IF p_direction = 'Outgoing' AND p_payment_id IS NOT NULL THEN
+        RAISE EXCEPTION 'الشيك الصادر لا يرتبط بدفعة عميل';
+    END IF;
+
+    IF p_payment_id IS NOT NULL THEN
+        SELECT * INTO v_payment FROM payments WHERE id = p_payment_id;
+        IF v_payment IS NULL THEN
+            RAISE EXCEPTION 'الدفعة غير موجودة';
+        END IF;
+        IF v_client_id IS NOT NULL AND v_client_id <> v_payment.client_id THEN
+            RAISE EXCEPTION 'الدفعة لا تخص هذا العميل';
+        END IF;
+        v_client_id := v_payment.client_id;
+    END IF;
+
+    IF p_debt_payment_id IS NOT NULL THEN
+        SELECT * INTO v_debt_payment FROM debt_payments WHERE id = p_debt_payment_id;
+        IF v_debt_payment IS NULL THEN
+            RAISE EXCEPTION 'دفعة الدين غير موجودة';
+        END IF;
+        IF v_debt_id IS NOT NULL AND v_debt_id <> v_debt_payment.debt_id THEN
+            RAISE EXCEPTION 'دفعة الدين لا تخص هذا الدين';
+        END IF;
+        v_debt_id := v_debt_payment.debt_id;
+    END IF;
+
+    IF v_debt_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM debts WHERE id = v_debt_id) THEN
+        RAISE EXCEPTION 'الدين غير موجود';
+    END IF;
+
+    IF (p_payment_id IS NOT NULL AND EXISTS (SELECT 1 FROM cheques WHERE payment_id = p_payment_id))
+       OR (p_debt_payment_id IS NOT NULL AND EXISTS (SELECT 1 FROM cheques WHERE debt_payment_id = p_debt_payment_id)) THEN
+        RAISE EXCEPTION 'هذه الدفعة مرتبطة بشيك آخر';
+    END IF;
+
+    INSERT INTO cheques (
+        direction, cheque_number, bank_name, drawer_name, payee_name, amount,
+        issue_date, due_date, client_id, payment_id, debt_id, debt_payment_id,
+        notes, created_by
+    ) VALUES (
+        p_direction, TRIM(p_cheque_number), TRIM(p_bank_name), TRIM(p_drawer_name),
+        NULLIF(TRIM(COALESCE(p_payee_name, '')), ''), p_amount,
+        p_issue_date, p_due_date, v_client_id, p_payment_id, v_debt_id, p_debt_payment_id,
+        NULLIF(TRIM(COALESCE(p_notes, '')), ''), auth.uid()
+    )
+    RETURNING * INTO v_cheque;
+
+    INSERT INTO cheque_status_history (cheque_id, from_status, to_status, status_date, changed_by)
+    VALUES (v_cheque.id, NULL, 'Received', COALESCE(p_issue_date, CURRENT_DATE), auth.uid());
+
+    RETURN v_cheque;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- STEP 5: Create function to move a cheque to its next status
+-- ============================================
+-- Received -> Deposited -> Cleared or Bounced. Bouncing reverses the linked
+-- payment (incoming) or debt payment (outgoing) in the same transaction.
+CREATE OR REPLACE FUNCTION update_cheque_status(
+    p_cheque_id UUID,
+    p_status cheque_status,
+    p_status_date DATE DEFAULT CURRENT_DATE,
+    p_deposit_account VARCHAR(255) DEFAULT NULL,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS cheques AS $$
+DECLARE
+    v_cheque cheques;
+    v_payment payments;
+    v_debt_payment debt_payments;
+    v_reversed JSONB;
+    v_date DATE := COALESCE(p_status_date, CURRENT_DATE);
+BEGIN
+    IF NOT validate_user_permission('record_payments') THEN
+        RAISE EXCEPTION 'ليس لديك صلاحية لتسجيل المدفوعات';
+    END IF;
+
+    SELECT * INTO v_cheque FROM cheques WHERE id = p_cheque_id FOR UPDATE;
+
+    IF v_cheque IS NULL THEN
+        RAISE EXCEPTION 'الشيك غير موجود';
+    END IF;
+
+    IF NOT (
+        (v_cheque.status = 'Received' AND p_status = 'Deposited')
+        OR (v_cheque.status = 'Deposited' AND p_status IN ('Cleared', 'Bounced'))
+    ) THEN
+        RAISE EXCEPTION 'لا يمكن نقل الشيك من الحالة % إلى %', v_cheque.status, p_status;
+    END IF;
+
+    IF p_status = 'Bounced' AND NULLIF(TRIM(COALESCE(p_notes, '')), '') IS NULL THEN
+        RAISE EXCEPTION 'يرجى إدخال سبب رفض الشيك';
+    END IF;
+
+    -- Incoming cheque: undo the payment and open its installments again
+    IF p_status = 'Bounced' AND v_cheque.payment_id IS NOT NULL THEN
+        SELECT * INTO v_payment FROM payments WHERE id = v_cheque.payment_id FOR UPDATE;
+
+        IF v_payment.allocation->>'mode' = 'payoff' THEN
+            RAISE EXCEPTION 'هذا الشيك سدد البيع مسبقاً بخصم، يجب معالجة رجوعه يدوياً';
+        END IF;
+
+        WITH lines AS (
+            SELECT
+                (l->>'installment_id')::UUID AS installment_id,
+                CASE WHEN l->>'kind' = 'installment' THEN (l->>'amount')::DECIMAL(15, 2) ELSE 0 END AS installment_part,
+                CASE WHEN l->>'kind' = 'penalty' THEN (l->>'amount')::DECIMAL(15, 2) ELSE 0 END AS penalty_part
+            FROM jsonb_array_elements(COALESCE(v_payment.allocation->'lines', '[]'::JSONB)) l
+            UNION ALL
+            -- Payments recorded before allocate_payment()
+            SELECT
+                v_payment.installment_id,
+                CASE WHEN v_payment.payment_type = 'Installment' THEN v_payment.amount_paid ELSE 0 END,
+                CASE WHEN v_payment.payment_type = 'Penalty' THEN v_payment.amount_paid ELSE 0 END
+            WHERE v_payment.allocation IS NULL
+            AND v_payment.installment_id IS NOT NULL
+        ),
+        totals AS (
+            SELECT installment_id, SUM(installment_part) AS installment_part, SUM(penalty_part) AS penalty_part
+            FROM lines
+            GROUP BY installment_id
+        )
+        UPDATE installments i
+        SET amount_paid = GREATEST(COALESCE(i.amount_paid, 0) - t.installment_part, 0),
+            penalty_paid = GREATEST(COALESCE(i.penalty_paid, 0) - t.penalty_part, 0),
+            status = CASE
+                WHEN GREATEST(COALESCE(i.amount_paid, 0) - t.installment_part, 0) >= i.amount_due + COALESCE(i.stacked_amount, 0) - COALESCE(i.written_off_amount, 0) - 0.01 THEN 'Paid'
+                WHEN GREATEST(COALESCE(i.amount_paid, 0) - t.installment_part, 0) > 0 THEN 'Partial'
+                WHEN i.due_date < CURRENT_DATE THEN 'Late'
+                ELSE 'Unpaid'
+            END::installment_status,
+            paid_date = CASE
+                WHEN GREATEST(COALESCE(i.amount_paid, 0) - t.installment_part, 0) >= i.amount_due + COALESCE(i.stacked_amount, 0) - COALESCE(i.written_off_amount, 0) - 0.01 THEN i.paid_date
+                ELSE NULL
+            END,
+            notes = CONCAT_WS(E'\n', NULLIF(i.notes, ''), 'شيك مرفوض رقم ' || v_cheque.cheque_number),
+            updated_at = NOW()
+        FROM totals t
+        WHERE i.id = t.installment_id;
+
+        -- Back to Pending the way confirmed installment sales are kept, still
+        -- confirmed, so the ledgers only undo the cheque amount, not the sale
+        IF v_payment.sale_id IS NOT NULL THEN
+            UPDATE sales
+            SET status = 'Pending', is_confirmed = TRUE, updated_at = NOW()
+            WHERE id = v_payment.sale_id
+            AND status = 'Completed'
+            AND EXISTS (SELECT 1 FROM installments WHERE sale_id = v_payment.sale_id AND status <> 'Paid');
+        END IF;
+
+        v_reversed := to_jsonb(v_payment);
+        DELETE FROM payments WHERE id = v_payment.id;
+    END IF;
+
+    -- Outgoing cheque: the creditor was not paid
+    IF p_status = 'Bounced' AND v_cheque.debt_payment_id IS NOT NULL THEN
+        SELECT * INTO v_debt_payment FROM debt_payments WHERE id = v_cheque.debt_payment_id FOR UPDATE;
+
+        v_reversed := to_jsonb(v_debt_payment);
+        DELETE FROM debt_payments WHERE id = v_debt_payment.id;
+
+        UPDATE debts
+        SET status = 'Active', updated_at = NOW()
+        WHERE id = v_debt_payment.debt_id
+        AND status = 'Paid';
+    END IF;
+
+    UPDATE cheques
+    SET status = p_status,
+        deposit_account = CASE WHEN p_status = 'Deposited' THEN NULLIF(TRIM(COALESCE(p_deposit_account, '')), '') ELSE deposit_account END,
+        deposited_at = CASE WHEN p_status = 'Deposited' THEN v_date ELSE deposited_at END,
+        cleared_at = CASE WHEN p_status = 'Cleared' THEN v_date ELSE cleared_at END,
+        bounced_at = CASE WHEN p_status = 'Bounced' THEN v_date ELSE bounced_at END,
+        bounce_reason = CASE WHEN p_status = 'Bounced' THEN TRIM(p_notes) ELSE bounce_reason END,
+        reversed_payment = COALESCE(v_reversed, reversed_payment),
+        updated_at = NOW()
+    WHERE id = v_cheque.id
+    RETURNING * INTO v_cheque;
+
+    INSERT INTO cheque_status_history (cheque_id, from_status, to_status, status_date, notes, changed_by)
+    SELECT v_cheque.id, h.to_status, p_status, v_date, NULLIF(TRIM(COALESCE(p_notes, '')), ''), auth.uid()
+    FROM (
+        SELECT to_status FROM cheque_status_history
+        WHERE cheque_id = v_cheque.id
+        ORDER BY created_at DESC
+        LIMIT 1
+    ) h;
+
+    RETURN v_cheque;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- STEP 6: Create function to record a sale payment paid by cheque
+-- ============================================
+-- allocate_payment() and record_cheque() in one transaction: if the cheque is
+-- refused (missing details, number already used...) the payment is not kept.
+CREATE OR REPLACE FUNCTION allocate_cheque_payment(
+    p_sale_id UUID,
+    p_amount DECIMAL(15, 2),
+    p_cheque_number VARCHAR(50),
+    p_bank_name VARCHAR(255),
+    p_drawer_name VARCHAR(255),
+    p_due_date DATE,
+    p_installment_id UUID DEFAULT NULL,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS payments AS $$
+DECLARE
+    v_payment payments;
+BEGIN
+    v_payment := allocate_payment(p_sale_id, p_amount, p_installment_id, CURRENT_DATE, 'Check', p_notes);
+
+    PERFORM record_cheque(
+        'Incoming', p_cheque_number, p_bank_name, p_drawer_name, p_amount, p_due_date,
+        p_payment_id => v_payment.id
+    );
+
+    RETURN v_payment;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- STEP 7: Triggers
+-- ============================================
+DROP TRIGGER IF EXISTS update_cheques_updated_at ON cheques;
+CREATE TRIGGER update_cheques_updated_at
+    BEFORE UPDATE ON cheques
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS audit_cheques ON cheques;
+CREATE TRIGGER audit_cheques AFTER INSERT OR UPDATE OR DELETE ON cheques
+    FOR EACH ROW EXECUTE FUNCTION audit_trigger_function();
+
+-- ============================================
+-- STEP 8: Enable RLS
+-- ============================================
+ALTER TABLE cheques ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cheque_status_history ENABLE ROW LEVEL SECURITY;
+
+-- Cheques are written by record_cheque() / update_cheque_status() (SECURITY DEFINER)
+DROP POLICY IF EXISTS "Cheques are viewable by authenticated users" ON cheques;
+CREATE POLICY "Cheques are viewable by authenticated users"
+    ON cheques FOR SELECT
+    TO authenticated
+    USING (true);
+
+-- Details that do not affect any balance can be corrected
+DROP POLICY IF EXISTS "Owners can update cheques" ON cheques;
+CREATE POLICY "Owners can update cheques"
+    ON cheques FOR UPDATE
+    TO authenticated
+    USING (get_user_role() = 'Owner')
+    WITH CHECK (get_user_role() = 'Owner');
+
+DROP POLICY IF EXISTS "Owners can delete cheques" ON cheques;
+CREATE POLICY "Owners can delete cheques"
+    ON cheques FOR DELETE
+    TO authenticated
+    USING (get_user_role() = 'Owner');
+
+DROP POLICY IF EXISTS "Cheque history is viewable by authenticated users" ON cheque_status_history;
+CREATE POLICY "Cheque history is viewable by authenticated users"
+    ON cheque_status_history FOR SELECT
+    TO authenticated
+    USING (true);
+
+GRANT EXECUTE ON FUNCTION record_cheque(cheque_direction, VARCHAR, VARCHAR, VARCHAR, DECIMAL, DATE, DATE, VARCHAR, UUID, UUID, UUID, UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION update_cheque_status(UUID, cheque_status, DATE, VARCHAR, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION allocate_cheque_payment(UUID, DECIMAL, VARCHAR, VARCHAR, VARCHAR, DATE, UUID, TEXT) TO authenticated;
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+SELECT
+    direction,
+    status,
+    COUNT(*) AS cheques,
+    SUM(amount) AS total
+FROM cheques
+GROUP BY direction, status
+ORDER BY direction, status;
@@ -0,0 +1,366 @@
+-- ============================================
+-- COMPANY FEE LEDGER
+-- Migration: Track when each company fee falls due and when it is collected
+-- ============================================
+-- Purpose: One ledger entry per sale carrying a company fee (commission).
+--          The fee falls due when the sale is confirmed and is
+--          collected from the client's payments on the sale, the same model as
+--          the general ledger (owed with the price, paid by the payments):
+--          - FirstPayment: payments cover the fee first, until it is paid
+--          - Proportional: each payment carries its share of the fee,
+--                          fee / (selling price + fee) of the amount paid
+--          Collections are rebuilt from the payments each time a payment of
+--          the sale changes, so removed or bounced payments un-collect the fee.
+--          Refund and Penalty payments do not collect fees.
+--          A cancelled sale cancels its entry; what was collected stays visible.
+--          Entries keep the batch of the sale's first piece and the user who
+--          created the sale, for reporting by batch and by worker.
+--          Installment sales keep the Pending status after confirmation, so
+--          confirmation is read from the flags SaleConfirmation sets.
+-- Run this in Supabase SQL Editor
+-- Dependencies: Requires supabase_schema.sql, add_company_fee_to_sales.sql,
+--               fix_all_missing_columns.sql, ADD_USER_TRACKING_COLUMNS.sql
+--               and add_server_side_permission_validation.sql
+-- ============================================
+
+-- ============================================
+-- STEP 1: Create ENUMs
+-- ============================================
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'company_fee_collection_mode') THEN
+        CREATE TYPE company_fee_collection_mode AS ENUM ('FirstPayment', 'Proportional');
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'company_fee_status') THEN
+        CREATE TYPE company_fee_status AS ENUM ('Due', 'Partial', 'Collected', 'Cancelled');
+    END IF;
+END $$;
+
+-- ============================================
+-- STEP 2: Create ledger tables
+-- ============================================
+CREATE TABLE IF NOT EXISTS company_fee_entries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    sale_id UUID NOT NULL UNIQUE REFERENCES sales(id) ON DELETE CASCADE,
+    client_id UUID REFERENCES clients(id) ON DELETE SET NULL,
+    land_batch_id UUID REFERENCES land_batches(id) ON DELETE SET NULL,
+    sold_by UUID REFERENCES users(id) ON DELETE SET NULL, -- User who created the sale
+    fee_percentage DECIMAL(5, 2),
+    fee_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+    due_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    collection_mode company_fee_collection_mode NOT NULL DEFAULT 'FirstPayment',
+    collected_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+    collected_at DATE, -- Date of the payment that completed the fee
+    status company_fee_status NOT NULL DEFAULT 'Due',
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_company_fee_entries_status ON company_fee_entries(status);
+CREATE INDEX IF NOT EXISTS idx_company_fee_entries_due ON company_fee_entries(due_date);
+CREATE INDEX IF NOT EXISTS idx_company_fee_entries_batch ON company_fee_entries(land_batch_id);
+CREATE INDEX IF NOT EXISTS idx_company_fee_entries_sold_by ON company_fee_entries(sold_by);
+
+-- Part of a payment counted as fee
+CREATE TABLE IF NOT EXISTS company_fee_collections (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    entry_id UUID NOT NULL REFERENCES company_fee_entries(id) ON DELETE CASCADE,
+    payment_id UUID NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+    amount DECIMAL(15, 2) NOT NULL CHECK (amount > 0),
+    collected_date DATE NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (entry_id, payment_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_company_fee_collections_entry ON company_fee_collections(entry_id);
+CREATE INDEX IF NOT EXISTS idx_company_fee_collections_date ON company_fee_collections(collected_date);
+
+COMMENT ON TABLE company_fee_entries IS 'Company fee of each confirmed sale: amount due and amount collected from payments';
+COMMENT ON TABLE company_fee_collections IS 'Fee part of each payment, rebuilt by recompute_company_fee_collections()';
+
+-- ============================================
+-- STEP 3: Collections
+-- ============================================
+-- Confirmed by SaleConfirmation, or Completed; a cancelled sale keeps its flags
+-- so its entry stays, cancelled
+CREATE OR REPLACE FUNCTION company_fee_sale_confirmed(p_sale sales)
+RETURNS BOOLEAN AS $$
+    SELECT p_sale.status = 'Completed'
+        OR COALESCE(p_sale.is_confirmed, FALSE)
+        OR COALESCE(p_sale.big_advance_confirmed, FALSE)
+        OR p_sale.confirmed_by IS NOT NULL;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION recompute_company_fee_collections(p_entry_id UUID)
+RETURNS company_fee_entries AS $$
+DECLARE
+    v_entry company_fee_entries;
+    v_price DECIMAL(15, 2);
+    v_remaining DECIMAL(15, 2);
+    v_share DECIMAL(15, 2);
+    v_completed_at DATE;
+    v_payment RECORD;
+BEGIN
+    SELECT * INTO v_entry FROM company_fee_entries WHERE id = p_entry_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT total_selling_price INTO v_price FROM sales WHERE id = v_entry.sale_id;
+
+    DELETE FROM company_fee_collections WHERE entry_id = p_entry_id;
+    v_remaining := v_entry.fee_amount;
+
+    FOR v_payment IN
+        SELECT id, amount_paid, payment_date
+        FROM payments
+        WHERE sale_id = v_entry.sale_id
+          AND payment_type NOT IN ('Refund', 'Penalty')
+          AND amount_paid > 0
+        ORDER BY payment_date, created_at
+    LOOP
+        EXIT WHEN v_remaining <= 0;
+
+        IF v_entry.collection_mode = 'FirstPayment' THEN
+            v_share := LEAST(v_payment.amount_paid, v_remaining);
+        ELSE
+            v_share := LEAST(
+                ROUND(v_payment.amount_paid * v_entry.fee_amount / NULLIF(COALESCE(v_price, 0) + v_entry.fee_amount, 0), 2),
+                v_remaining
+            );
+        END IF;
+
+        IF COALESCE(v_share, 0) > 0 THEN
+            INSERT INTO company_fee_collections (entry_id, payment_id, amount, collected_date)
+            VALUES (p_entry_id, v_payment.id, v_share, v_payment.payment_date);
+            v_remaining := v_remaining - v_share;
+            IF v_remaining <= 0 THEN
+                v_completed_at := v_payment.payment_date;
+            END IF;
+        END IF;
+    END LOOP;
+
+    UPDATE company_fee_entries
+    SET collected_amount = v_entry.fee_amount - GREATEST(v_remaining, 0),
+        collected_at = v_completed_at,
+        status = CASE
+            WHEN status = 'Cancelled' THEN 'Cancelled'::company_fee_status
+            WHEN v_remaining <= 0 THEN 'Collected'::company_fee_status
+            WHEN v_remaining < v_entry.fee_amount THEN 'Partial'::company_fee_status
+            ELSE 'Due'::company_fee_status
+        END
+    WHERE id = p_entry_id
+    RETURNING * INTO v_entry;
+
+    RETURN v_entry;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Creates, updates or cancels the entry of a sale from its current figures
+CREATE OR REPLACE FUNCTION sync_company_fee_entry(
+    p_sale_id UUID,
+    p_due_date DATE DEFAULT CURRENT_DATE
+)
+RETURNS UUID AS $$
+DECLARE
+    v_sale sales;
+    v_entry_id UUID;
+    v_batch_id UUID;
+BEGIN
+    SELECT * INTO v_sale FROM sales WHERE id = p_sale_id;
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT id INTO v_entry_id FROM company_fee_entries WHERE sale_id = p_sale_id;
+
+    -- No fee, or a sale not confirmed yet: nothing falls due
+    IF COALESCE(v_sale.company_fee_amount, 0) <= 0 OR NOT company_fee_sale_confirmed(v_sale) THEN
+        IF v_entry_id IS NOT NULL THEN
+            DELETE FROM company_fee_entries WHERE id = v_entry_id;
+        END IF;
+        RETURN NULL;
+    END IF;
+
+    SELECT land_batch_id INTO v_batch_id
+    FROM land_pieces
+    WHERE id = v_sale.land_piece_ids[1];
+
+    IF v_entry_id IS NULL THEN
+        INSERT INTO company_fee_entries (
+            sale_id, client_id, land_batch_id, sold_by,
+            fee_percentage, fee_amount, due_date, status
+        )
+        VALUES (
+            v_sale.id, v_sale.client_id, v_batch_id, v_sale.created_by,
+            v_sale.company_fee_percentage, v_sale.company_fee_amount, COALESCE(p_due_date, CURRENT_DATE),
+            CASE WHEN v_sale.status = 'Cancelled' THEN 'Cancelled' ELSE 'Due' END::company_fee_status
+        )
+        RETURNING id INTO v_entry_id;
+    ELSE
+        UPDATE company_fee_entries
+        SET fee_percentage = v_sale.company_fee_percentage,
+            fee_amount = v_sale.company_fee_amount,
+            client_id = v_sale.client_id,
+            land_batch_id = COALESCE(v_batch_id, land_batch_id),
+            -- Reset so recompute_company_fee_collections() sets Due / Partial / Collected again
+            status = CASE WHEN v_sale.status = 'Cancelled' THEN 'Cancelled' ELSE 'Due' END::company_fee_status
+        WHERE id = v_entry_id;
+    END IF;
+
+    PERFORM recompute_company_fee_collections(v_entry_id);
+    RETURN v_entry_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- STEP 4: Triggers on sales and payments
+-- ============================================
+CREATE OR REPLACE FUNCTION company_fee_sync_sale()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE'
+       AND NEW.company_fee_amount IS NOT DISTINCT FROM OLD.company_fee_amount
+       AND NEW.company_fee_percentage IS NOT DISTINCT FROM OLD.company_fee_percentage
+       AND NEW.total_selling_price IS NOT DISTINCT FROM OLD.total_selling_price
+       AND NEW.status IS NOT DISTINCT FROM OLD.status
+       AND company_fee_sale_confirmed(NEW) = company_fee_sale_confirmed(OLD) THEN
+        RETURN NEW;
+    END IF;
+
+    PERFORM sync_company_fee_entry(NEW.id);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS company_fee_sales ON sales;
+CREATE TRIGGER company_fee_sales
+    AFTER INSERT OR UPDATE ON sales
+    FOR EACH ROW EXECUTE FUNCTION company_fee_sync_sale();
+
+CREATE OR REPLACE FUNCTION company_fee_sync_payment()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_sale_ids UUID[];
+    v_entry_id UUID;
+BEGIN
+    IF TG_OP = 'UPDATE'
+       AND NEW.sale_id IS NOT DISTINCT FROM OLD.sale_id
+       AND NEW.amount_paid IS NOT DISTINCT FROM OLD.amount_paid
+       AND NEW.payment_type IS NOT DISTINCT FROM OLD.payment_type
+       AND NEW.payment_date IS NOT DISTINCT FROM OLD.payment_date THEN
+        RETURN NEW;
+    END IF;
+
+    v_sale_ids := ARRAY[]::UUID[];
+    IF TG_OP <> 'DELETE' AND NEW.sale_id IS NOT NULL THEN
+        v_sale_ids := v_sale_ids || NEW.sale_id;
+    END IF;
+    IF TG_OP <> 'INSERT' AND OLD.sale_id IS NOT NULL THEN
+        v_sale_ids := v_sale_ids || OLD.sale_id;
+    END IF;
+
+    FOR v_entry_id IN
+        SELECT id FROM company_fee_entries WHERE sale_id = ANY(v_sale_ids)
+    LOOP
+        PERFORM recompute_company_fee_collections(v_entry_id);
+    END LOOP;
+
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS company_fee_payments ON payments;
+CREATE TRIGGER company_fee_payments
+    AFTER INSERT OR UPDATE OR DELETE ON payments
+    FOR EACH ROW EXECUTE FUNCTION company_fee_sync_payment();
+
+-- ============================================
+-- STEP 5: Collection mode
+-- ============================================
+CREATE OR REPLACE FUNCTION set_company_fee_collection_mode(
+    p_entry_id UUID,
+    p_mode company_fee_collection_mode
+)
+RETURNS company_fee_entries AS $$
+BEGIN
+    IF NOT validate_user_permission('edit_sales') THEN
+        RAISE EXCEPTION 'ليس لديك صلاحية تعديل طريقة تحصيل العمولة';
+    END IF;
+
+    UPDATE company_fee_entries SET collection_mode = p_mode WHERE id = p_entry_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'العمولة غير موجودة';
+    END IF;
+
+    RETURN recompute_company_fee_collections(p_entry_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- STEP 6: Existing sales
+-- ============================================
+-- Due on the sale date; safe to run again. Entries of sales not confirmed are removed.
+DO $$
+DECLARE
+    v_sale RECORD;
+BEGIN
+    FOR v_sale IN
+        SELECT s.id, s.sale_date
+        FROM sales s
+        WHERE (COALESCE(s.company_fee_amount, 0) > 0
+               AND company_fee_sale_confirmed(s)
+               AND NOT EXISTS (SELECT 1 FROM company_fee_entries e WHERE e.sale_id = s.id))
+           OR (NOT company_fee_sale_confirmed(s)
+               AND EXISTS (SELECT 1 FROM company_fee_entries e WHERE e.sale_id = s.id))
+    LOOP
+        PERFORM sync_company_fee_entry(v_sale.id, v_sale.sale_date);
+    END LOOP;
+END $$;
+
+-- ============================================
+-- STEP 7: Triggers and RLS
+-- ============================================
+DROP TRIGGER IF EXISTS update_company_fee_entries_updated_at ON company_fee_entries;
+CREATE TRIGGER update_company_fee_entries_updated_at
+    BEFORE UPDATE ON company_fee_entries
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE company_fee_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE company_fee_collections ENABLE ROW LEVEL SECURITY;
+
+-- Written by the triggers above only
+DROP POLICY IF EXISTS "Company fee entries are viewable by authenticated users" ON company_fee_entries;
+CREATE POLICY "Company fee entries are viewable by authenticated users"
+    ON company_fee_entries FOR SELECT
+    TO authenticated
+    USING (true);
+
+DROP POLICY IF EXISTS "Company fee collections are viewable by authenticated users" ON company_fee_collections;
+CREATE POLICY "Company fee collections are viewable by authenticated users"
+    ON company_fee_collections FOR SELECT
+    TO authenticated
+    USING (true);
+
+-- Entries are kept in step with the sales and payments by the triggers only
+REVOKE EXECUTE ON FUNCTION company_fee_sale_confirmed(sales) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION recompute_company_fee_collections(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION sync_company_fee_entry(UUID, DATE) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION set_company_fee_collection_mode(UUID, company_fee_collection_mode) TO authenticated;
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+SELECT
+    status,
+    COUNT(*) AS entries,
+    SUM(fee_amount) AS fees_due,
+    SUM(collected_amount) AS fees_collected
+FROM company_fee_entries
+GROUP BY status
+ORDER BY status;
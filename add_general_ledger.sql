@@ -0,0 +1,931 @@
+-- ============================================
+-- GENERAL LEDGER
+-- Migration: Double-entry journal behind payments, expenses, debts and sales
+-- ============================================
+-- Purpose: Adds a chart of accounts and an append-only journal. Triggers post
+--          balanced entries whenever money moves, so the trial balance, the
+--          profit and loss and the balance sheet come from the journal instead
+--          of sums made on the client:
+--          - Client payment:     Dr Cash / Bank        Cr Receivables (penalty part: Cr Penalties)
+--                                 (reservation deposits without a sale: Cr Reservation advances)
+--          - Refund:             Dr Receivables        Cr Cash / Bank
+--          - Payoff discount:    Dr Payoff discounts   Cr Receivables
+--          - Confirmed sale:     Dr Receivables        Cr Land sales
+--                                Dr Cost of land sold  Cr Land inventory
+--          - Company fee:        Dr Receivables        Cr Company fees (confirmed sales)
+--          - Cancellation kept:  Dr Receivables        Cr Cancellation retentions
+--          - Approved expense:   Dr Expenses           Cr Cash / Bank (revenue entries: the other way)
+--          - Debt recorded:      Dr Opening balances   Cr Creditors
+--          - Debt payment:       Dr Creditors          Cr Cash
+--          - Land batch bought:  Dr Land inventory     Cr Opening balances
+--          Entries are never updated or deleted. When a source row changes or is
+--          deleted its entries are reversed (dated the day of the change) and
+--          the new figures are posted again. Cash goes to the bank account for
+--          every payment method except Cash.
+--          A sale counts as confirmed once SaleConfirmation marks it
+--          (is_confirmed, big_advance_confirmed or confirmed_by) or it is
+--          Completed: installment sales keep the Pending status while paid off.
+--          The company fee is owed by the client with the price and collected
+--          out of the sale's payments, as in the company fee ledger
+--          (add_company_fee_ledger.sql): payments credit receivables in full.
+--          Purchases and loans made outside the app are balanced against the
+--          opening balances account; the Owner can reclassify them with a
+--          manual entry.
+-- Run this in Supabase SQL Editor
+-- Dependencies: Requires supabase_schema.sql, add_expenses_table.sql,
+--               ADD_RECURRING_EXPENSES.sql, create_debts_table.sql,
+--               add_debt_payments_table.sql, add_payment_allocation.sql,
+--               add_cancellation_settlements.sql, add_company_fee_to_sales.sql,
+--               fix_all_missing_columns.sql and ADD_USER_TRACKING_COLUMNS.sql
+-- ============================================
+
+-- ============================================
+-- STEP 1: Create ENUMs
+-- ============================================
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'gl_account_type') THEN
+        CREATE TYPE gl_account_type AS ENUM ('Asset', 'Liability', 'Equity', 'Revenue', 'Expense');
+    END IF;
+END $$;
+
+-- ============================================
+-- STEP 2: Create chart of accounts
+-- ============================================
+CREATE TABLE IF NOT EXISTS gl_accounts (
+    code VARCHAR(20) PRIMARY KEY,
+    name_ar VARCHAR(255) NOT NULL,
+    name_fr VARCHAR(255) NOT NULL,
+    account_type gl_account_type NOT NULL,
+    is_system BOOLEAN NOT NULL DEFAULT FALSE, -- Used by the posting triggers, cannot be removed
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+INSERT INTO gl_accounts (code, name_ar, name_fr, account_type, is_system) VALUES
+    ('1000', 'الصندوق', 'Caisse', 'Asset', TRUE),
+    ('1100', 'البنك', 'Banque', 'Asset', TRUE),
+    ('1200', 'ذمم العملاء', 'Créances clients', 'Asset', TRUE),
+    ('1300', 'مخزون الأراضي', 'Stock de terrains', 'Asset', TRUE),
+    ('2000', 'الدائنون', 'Créanciers', 'Liability', TRUE),
+    ('2100', 'تسبقات الحجوزات', 'Avances sur réservations', 'Liability', TRUE),
+    ('3000', 'رأس المال والأرصدة الافتتاحية', 'Capital et soldes d''ouverture', 'Equity', TRUE),
+    ('4000', 'مبيعات الأراضي', 'Ventes de terrains', 'Revenue', TRUE),
+    ('4100', 'عمولة الشركة', 'Commissions de la société', 'Revenue', TRUE),
+    ('4200', 'غرامات التأخير', 'Pénalités de retard', 'Revenue', TRUE),
+    ('4300', 'مبالغ محتفظ بها عند الإلغاء', 'Retenues sur annulation', 'Revenue', TRUE),
+    ('4900', 'إيرادات أخرى', 'Autres produits', 'Revenue', TRUE),
+    ('5000', 'تكلفة الأراضي المباعة', 'Coût des terrains vendus', 'Expense', TRUE),
+    ('5100', 'المصاريف', 'Charges d''exploitation', 'Expense', TRUE),
+    ('5200', 'خصومات السداد المبكر', 'Remises pour paiement anticipé', 'Expense', TRUE)
+ON CONFLICT (code) DO NOTHING;
+
+-- ============================================
+-- STEP 3: Create journal tables
+-- ============================================
+CREATE TABLE IF NOT EXISTS gl_journal_entries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    entry_number BIGSERIAL UNIQUE,
+    entry_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    description TEXT NOT NULL,
+    -- Row that produced the entry; not a foreign key, the row may be deleted later
+    source_type VARCHAR(30) NOT NULL CHECK (source_type IN (
+        'payment', 'expense', 'sale', 'company_fee', 'cancellation', 'debt', 'debt_payment', 'land_batch', 'manual'
+    )),
+    source_id UUID,
+    reversal_of UUID REFERENCES gl_journal_entries(id),
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_gl_journal_entries_date ON gl_journal_entries(entry_date);
+CREATE INDEX IF NOT EXISTS idx_gl_journal_entries_source ON gl_journal_entries(source_type, source_id);
+
+-- An entry is reversed once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_gl_journal_entries_reversal ON gl_journal_entries(reversal_of) WHERE reversal_of IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS gl_journal_lines (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    entry_id UUID NOT NULL REFERENCES gl_journal_entries(id),
+    account_code VARCHAR(20) NOT NULL REFERENCES gl_accounts(code),
+    debit DECIMAL(15, 2) NOT NULL DEFAULT 0 CHECK (debit >= 0),
+    credit DECIMAL(15, 2) NOT NULL DEFAULT 0 CHECK (credit >= 0),
+    memo TEXT,
+    CHECK ((debit = 0) <> (credit = 0))
+);
+
+CREATE INDEX IF NOT EXISTS idx_gl_journal_lines_entry ON gl_journal_lines(entry_id);
+CREATE INDEX IF NOT EXISTS idx_gl_journal_lines_account ON gl_journal_lines(account_code);
+
+COMMENT ON TABLE gl_journal_entries IS 'Append-only journal; corrections are reversal entries';
+COMMENT ON COLUMN gl_journal_entries.reversal_of IS 'Entry cancelled by this one (debits and credits swapped)';
+
+-- ============================================
+-- STEP 4: Journal integrity
+-- ============================================
+CREATE OR REPLACE FUNCTION gl_prevent_journal_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'القيود المحاسبية لا تعدل ولا تحذف، يجب تسجيل قيد عكسي';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS gl_journal_entries_append_only ON gl_journal_entries;
+CREATE TRIGGER gl_journal_entries_append_only
+    BEFORE UPDATE OR DELETE ON gl_journal_entries
+    FOR EACH ROW EXECUTE FUNCTION gl_prevent_journal_changes();
+
+DROP TRIGGER IF EXISTS gl_journal_lines_append_only ON gl_journal_lines;
+CREATE TRIGGER gl_journal_lines_append_only
+    BEFORE UPDATE OR DELETE ON gl_journal_lines
+    FOR EACH ROW EXECUTE FUNCTION gl_prevent_journal_changes();
+
+-- Checked at commit, once every line of the entry is written
+CREATE OR REPLACE FUNCTION gl_check_entry_balanced()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_debit DECIMAL(15, 2);
+    v_credit DECIMAL(15, 2);
+BEGIN
+    SELECT COALESCE(SUM(debit), 0), COALESCE(SUM(credit), 0)
+    INTO v_debit, v_credit
+    FROM gl_journal_lines
+    WHERE entry_id = NEW.entry_id;
+
+    IF v_debit <> v_credit THEN
+        RAISE EXCEPTION 'القيد غير متوازن: المدين % والدائن %', v_debit, v_credit;
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS gl_journal_lines_balanced ON gl_journal_lines;
+CREATE CONSTRAINT TRIGGER gl_journal_lines_balanced
+    AFTER INSERT ON gl_journal_lines
+    DEFERRABLE INITIALLY DEFERRED
+    FOR EACH ROW EXECUTE FUNCTION gl_check_entry_balanced();
+
+-- ============================================
+-- STEP 5: Posting helpers
+-- ============================================
+-- p_lines: [{ "account_code", "debit", "credit", "memo" }, ...]
+-- A negative amount moves to the other side; zero lines are dropped and an
+-- entry without lines is not created (returns NULL).
+CREATE OR REPLACE FUNCTION gl_post_entry(
+    p_entry_date DATE,
+    p_description TEXT,
+    p_source_type VARCHAR(30),
+    p_source_id UUID,
+    p_lines JSONB,
+    p_reversal_of UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+    v_entry_id UUID;
+    v_lines JSONB;
+BEGIN
+    -- Net each line to a signed amount: debit positive, credit negative
+    SELECT jsonb_agg(jsonb_build_object('account_code', account_code, 'amount', amount, 'memo', memo))
+    INTO v_lines
+    FROM (
+        SELECT
+            line->>'account_code' AS account_code,
+            ROUND(COALESCE((line->>'debit')::DECIMAL, 0) - COALESCE((line->>'credit')::DECIMAL, 0), 2) AS amount,
+            NULLIF(line->>'memo', '') AS memo
+        FROM jsonb_array_elements(COALESCE(p_lines, '[]'::JSONB)) AS line
+    ) netted
+    WHERE amount <> 0;
+
+    IF v_lines IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO gl_journal_entries (entry_date, description, source_type, source_id, reversal_of, created_by)
+    VALUES (COALESCE(p_entry_date, CURRENT_DATE), p_description, p_source_type, p_source_id, p_reversal_of, auth.uid())
+    RETURNING id INTO v_entry_id;
+
+    INSERT INTO gl_journal_lines (entry_id, account_code, debit, credit, memo)
+    SELECT
+        v_entry_id,
+        line->>'account_code',
+        GREATEST((line->>'amount')::DECIMAL, 0),
+        GREATEST(-(line->>'amount')::DECIMAL, 0),
+        line->>'memo'
+    FROM jsonb_array_elements(v_lines) AS line;
+
+    RETURN v_entry_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Swaps debits and credits of every entry of the source not yet reversed
+CREATE OR REPLACE FUNCTION gl_reverse_source(
+    p_source_type VARCHAR(30),
+    p_source_id UUID
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_entry RECORD;
+    v_lines JSONB;
+    v_count INTEGER := 0;
+BEGIN
+    FOR v_entry IN
+        SELECT e.*
+        FROM gl_journal_entries e
+        WHERE e.source_type = p_source_type
+          AND e.source_id = p_source_id
+          AND e.reversal_of IS NULL
+          AND NOT EXISTS (SELECT 1 FROM gl_journal_entries r WHERE r.reversal_of = e.id)
+        ORDER BY e.entry_number
+    LOOP
+        SELECT jsonb_agg(jsonb_build_object(
+            'account_code', account_code,
+            'debit', credit,
+            'credit', debit,
+            'memo', memo
+        ))
+        INTO v_lines
+        FROM gl_journal_lines
+        WHERE entry_id = v_entry.id;
+
+        PERFORM gl_post_entry(CURRENT_DATE, 'عكس: ' || v_entry.description, p_source_type, p_source_id, v_lines, v_entry.id);
+        v_count := v_count + 1;
+    END LOOP;
+
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION gl_cash_account(p_payment_method TEXT)
+RETURNS VARCHAR(20) AS $$
+    SELECT CASE WHEN COALESCE(p_payment_method, 'Cash') = 'Cash' THEN '1000' ELSE '1100' END::VARCHAR(20);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Installment sales stay Pending after confirmation, so confirmation is read
+-- from the flags set by SaleConfirmation, not from the status
+CREATE OR REPLACE FUNCTION gl_sale_confirmed(p_sale sales)
+RETURNS BOOLEAN AS $$
+    SELECT p_sale.status IS DISTINCT FROM 'Cancelled'
+       AND (
+           p_sale.status = 'Completed'
+           OR COALESCE(p_sale.is_confirmed, FALSE)
+           OR COALESCE(p_sale.big_advance_confirmed, FALSE)
+           OR p_sale.confirmed_by IS NOT NULL
+       );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================
+-- STEP 6: Entries of each source
+-- ============================================
+CREATE OR REPLACE FUNCTION gl_post_payment(p_payment payments)
+RETURNS UUID AS $$
+DECLARE
+    v_cash VARCHAR(20) := gl_cash_account(p_payment.payment_method::TEXT);
+    -- Deposits on a reservation are owed back until the sale exists
+    v_client_account VARCHAR(20) := CASE WHEN p_payment.sale_id IS NOT NULL THEN '1200' ELSE '2100' END;
+    v_penalty DECIMAL(15, 2) := 0;
+    -- Principal given up by an early payoff quote, no longer owed
+    v_discount DECIMAL(15, 2) := CASE WHEN p_payment.allocation->>'mode' = 'payoff'
+        THEN COALESCE((p_payment.allocation->>'discount')::DECIMAL, 0) ELSE 0 END;
+BEGIN
+    -- Refunds are read as ABS(amount_paid), as in settle_sale_cancellation()
+    IF p_payment.payment_type = 'Refund' THEN
+        RETURN gl_post_entry(
+            p_payment.payment_date,
+            'استرجاع مبلغ لعميل',
+            'payment',
+            p_payment.id,
+            jsonb_build_array(
+                jsonb_build_object('account_code', v_client_account, 'debit', ABS(p_payment.amount_paid)),
+                jsonb_build_object('account_code', v_cash, 'credit', ABS(p_payment.amount_paid))
+            )
+        );
+    END IF;
+
+    IF p_payment.payment_type = 'Penalty' THEN
+        v_penalty := p_payment.amount_paid;
+    ELSIF p_payment.allocation IS NOT NULL THEN
+        SELECT COALESCE(SUM((line->>'amount')::DECIMAL), 0)
+        INTO v_penalty
+        FROM jsonb_array_elements(p_payment.allocation->'lines') AS line
+        WHERE line->>'kind' = 'penalty';
+    END IF;
+
+    RETURN gl_post_entry(
+        p_payment.payment_date,
+        'دفعة عميل (' || p_payment.payment_type::TEXT || ')',
+        'payment',
+        p_payment.id,
+        jsonb_build_array(
+            jsonb_build_object('account_code', v_cash, 'debit', p_payment.amount_paid),
+            jsonb_build_object('account_code', '4200', 'credit', v_penalty),
+            jsonb_build_object('account_code', v_client_account, 'credit', p_payment.amount_paid - v_penalty),
+            jsonb_build_object('account_code', '5200', 'debit', v_discount),
+            jsonb_build_object('account_code', v_client_account, 'credit', v_discount)
+        )
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only approved expenses are posted
+CREATE OR REPLACE FUNCTION gl_post_expense(p_expense expenses)
+RETURNS UUID AS $$
+DECLARE
+    v_cash VARCHAR(20) := gl_cash_account(p_expense.payment_method::TEXT);
+    v_memo TEXT := NULLIF(to_jsonb(p_expense)->>'category', '');
+BEGIN
+    IF p_expense.status <> 'Approved' THEN
+        RETURN NULL;
+    END IF;
+
+    IF COALESCE(p_expense.is_revenue, FALSE) THEN
+        RETURN gl_post_entry(
+            p_expense.expense_date,
+            COALESCE('إيراد: ' || NULLIF(p_expense.description, ''), 'إيراد'),
+            'expense',
+            p_expense.id,
+            jsonb_build_array(
+                jsonb_build_object('account_code', v_cash, 'debit', p_expense.amount),
+                jsonb_build_object('account_code', '4900', 'credit', p_expense.amount, 'memo', v_memo)
+            )
+        );
+    END IF;
+
+    RETURN gl_post_entry(
+        p_expense.expense_date,
+        COALESCE('مصروف: ' || NULLIF(p_expense.description, ''), 'مصروف'),
+        'expense',
+        p_expense.id,
+        jsonb_build_array(
+            jsonb_build_object('account_code', '5100', 'debit', p_expense.amount, 'memo', v_memo),
+            jsonb_build_object('account_code', v_cash, 'credit', p_expense.amount)
+        )
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Revenue and cost are recognized once the sale is confirmed, and taken back when it is cancelled
+CREATE OR REPLACE FUNCTION gl_post_sale(p_sale sales, p_entry_date DATE DEFAULT CURRENT_DATE)
+RETURNS UUID AS $$
+BEGIN
+    IF NOT gl_sale_confirmed(p_sale) THEN
+        RETURN NULL;
+    END IF;
+
+    RETURN gl_post_entry(
+        p_entry_date,
+        'بيع مؤكد',
+        'sale',
+        p_sale.id,
+        jsonb_build_array(
+            jsonb_build_object('account_code', '1200', 'debit', p_sale.total_selling_price),
+            jsonb_build_object('account_code', '4000', 'credit', p_sale.total_selling_price),
+            jsonb_build_object('account_code', '5000', 'debit', p_sale.total_purchase_cost),
+            jsonb_build_object('account_code', '1300', 'credit', p_sale.total_purchase_cost)
+        )
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The company fee is owed with the price and paid through the sale's payments;
+-- like the sale, it is posted once the sale is confirmed and taken back on cancellation
+CREATE OR REPLACE FUNCTION gl_post_company_fee(p_sale sales, p_entry_date DATE DEFAULT CURRENT_DATE)
+RETURNS UUID AS $$
+BEGIN
+    IF NOT gl_sale_confirmed(p_sale) THEN
+        RETURN NULL;
+    END IF;
+
+    RETURN gl_post_entry(
+        p_entry_date,
+        'عمولة الشركة',
+        'company_fee',
+        p_sale.id,
+        jsonb_build_array(
+            jsonb_build_object('account_code', '1200', 'debit', COALESCE(p_sale.company_fee_amount, 0)),
+            jsonb_build_object('account_code', '4100', 'credit', COALESCE(p_sale.company_fee_amount, 0))
+        )
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- What the company keeps from a cancelled sale stops being owed to the client
+CREATE OR REPLACE FUNCTION gl_post_cancellation(p_settlement cancellation_settlements)
+RETURNS UUID AS $$
+BEGIN
+    RETURN gl_post_entry(
+        p_settlement.created_at::DATE,
+        'مبلغ محتفظ به عند إلغاء البيع',
+        'cancellation',
+        p_settlement.id,
+        jsonb_build_array(
+            jsonb_build_object('account_code', '1200', 'debit', p_settlement.retention_amount),
+            jsonb_build_object('account_code', '4300', 'credit', p_settlement.retention_amount)
+        )
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION gl_post_debt(p_debt debts)
+RETURNS UUID AS $$
+BEGIN
+    RETURN gl_post_entry(
+        COALESCE(p_debt.created_at::DATE, CURRENT_DATE),
+        'دين لـ ' || p_debt.creditor_name,
+        'debt',
+        p_debt.id,
+        jsonb_build_array(
+            jsonb_build_object('account_code', '3000', 'debit', p_debt.amount_owed),
+            jsonb_build_object('account_code', '2000', 'credit', p_debt.amount_owed)
+        )
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Debt payments carry no payment method: they are paid from the cash box
+CREATE OR REPLACE FUNCTION gl_post_debt_payment(p_payment debt_payments)
+RETURNS UUID AS $$
+BEGIN
+    RETURN gl_post_entry(
+        p_payment.payment_date,
+        'تسديد دين',
+        'debt_payment',
+        p_payment.id,
+        jsonb_build_array(
+            jsonb_build_object('account_code', '2000', 'debit', p_payment.amount_paid),
+            jsonb_build_object('account_code', '1000', 'credit', p_payment.amount_paid)
+        )
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION gl_post_land_batch(p_batch land_batches)
+RETURNS UUID AS $$
+BEGIN
+    RETURN gl_post_entry(
+        COALESCE(p_batch.date_acquired, p_batch.created_at::DATE, CURRENT_DATE),
+        'شراء أرض: ' || p_batch.name,
+        'land_batch',
+        p_batch.id,
+        jsonb_build_array(
+            jsonb_build_object('account_code', '1300', 'debit', p_batch.total_cost),
+            jsonb_build_object('account_code', '3000', 'credit', p_batch.total_cost)
+        )
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- STEP 7: Posting triggers
+-- ============================================
+-- Changed or deleted rows: previous entries are reversed, then the row is posted again
+CREATE OR REPLACE FUNCTION gl_sync_payment()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE'
+       AND NEW.amount_paid IS NOT DISTINCT FROM OLD.amount_paid
+       AND NEW.payment_type IS NOT DISTINCT FROM OLD.payment_type
+       AND NEW.payment_method IS NOT DISTINCT FROM OLD.payment_method
+       AND NEW.payment_date IS NOT DISTINCT FROM OLD.payment_date
+       AND NEW.sale_id IS NOT DISTINCT FROM OLD.sale_id
+       AND NEW.allocation IS NOT DISTINCT FROM OLD.allocation THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP <> 'INSERT' THEN
+        PERFORM gl_reverse_source('payment', OLD.id);
+    END IF;
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+
+    PERFORM gl_post_payment(NEW);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION gl_sync_expense()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE'
+       AND NEW.status IS NOT DISTINCT FROM OLD.status
+       AND NEW.amount IS NOT DISTINCT FROM OLD.amount
+       AND NEW.payment_method IS NOT DISTINCT FROM OLD.payment_method
+       AND NEW.expense_date IS NOT DISTINCT FROM OLD.expense_date
+       AND NEW.is_revenue IS NOT DISTINCT FROM OLD.is_revenue THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP <> 'INSERT' THEN
+        PERFORM gl_reverse_source('expense', OLD.id);
+    END IF;
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+
+    PERFORM gl_post_expense(NEW);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION gl_sync_sale()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP <> 'INSERT' AND (
+        TG_OP = 'DELETE'
+        OR gl_sale_confirmed(OLD) <> gl_sale_confirmed(NEW)
+        OR NEW.total_selling_price IS DISTINCT FROM OLD.total_selling_price
+        OR NEW.total_purchase_cost IS DISTINCT FROM OLD.total_purchase_cost
+    ) THEN
+        PERFORM gl_reverse_source('sale', OLD.id);
+        IF TG_OP = 'UPDATE' THEN
+            PERFORM gl_post_sale(NEW);
+        END IF;
+    ELSIF TG_OP = 'INSERT' THEN
+        PERFORM gl_post_sale(NEW);
+    END IF;
+
+    IF TG_OP <> 'INSERT' AND (
+        TG_OP = 'DELETE'
+        OR gl_sale_confirmed(OLD) <> gl_sale_confirmed(NEW)
+        OR NEW.company_fee_amount IS DISTINCT FROM OLD.company_fee_amount
+    ) THEN
+        PERFORM gl_reverse_source('company_fee', OLD.id);
+        IF TG_OP = 'UPDATE' THEN
+            PERFORM gl_post_company_fee(NEW);
+        END IF;
+    ELSIF TG_OP = 'INSERT' THEN
+        PERFORM gl_post_company_fee(NEW);
+    END IF;
+
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION gl_sync_cancellation()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP <> 'INSERT' THEN
+        PERFORM gl_reverse_source('cancellation', OLD.id);
+    END IF;
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+
+    PERFORM gl_post_cancellation(NEW);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION gl_sync_debt()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' AND NEW.amount_owed IS NOT DISTINCT FROM OLD.amount_owed THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP <> 'INSERT' THEN
+        PERFORM gl_reverse_source('debt', OLD.id);
+    END IF;
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+
+    PERFORM gl_post_debt(NEW);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION gl_sync_debt_payment()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE'
+       AND NEW.amount_paid IS NOT DISTINCT FROM OLD.amount_paid
+       AND NEW.payment_date IS NOT DISTINCT FROM OLD.payment_date THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP <> 'INSERT' THEN
+        PERFORM gl_reverse_source('debt_payment', OLD.id);
+    END IF;
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+
+    PERFORM gl_post_debt_payment(NEW);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION gl_sync_land_batch()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' AND NEW.total_cost IS NOT DISTINCT FROM OLD.total_cost THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP <> 'INSERT' THEN
+        PERFORM gl_reverse_source('land_batch', OLD.id);
+    END IF;
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+
+    PERFORM gl_post_land_batch(NEW);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS gl_payments ON payments;
+CREATE TRIGGER gl_payments AFTER INSERT OR UPDATE OR DELETE ON payments
+    FOR EACH ROW EXECUTE FUNCTION gl_sync_payment();
+
+DROP TRIGGER IF EXISTS gl_expenses ON expenses;
+CREATE TRIGGER gl_expenses AFTER INSERT OR UPDATE OR DELETE ON expenses
+    FOR EACH ROW EXECUTE FUNCTION gl_sync_expense();
+
+DROP TRIGGER IF EXISTS gl_sales ON sales;
+CREATE TRIGGER gl_sales AFTER INSERT OR UPDATE OR DELETE ON sales
+    FOR EACH ROW EXECUTE FUNCTION gl_sync_sale();
+
+DROP TRIGGER IF EXISTS gl_cancellation_settlements ON cancellation_settlements;
+CREATE TRIGGER gl_cancellation_settlements AFTER INSERT OR DELETE ON cancellation_settlements
+    FOR EACH ROW EXECUTE FUNCTION gl_sync_cancellation();
+
+DROP TRIGGER IF EXISTS gl_debts ON debts;
+CREATE TRIGGER gl_debts AFTER INSERT OR UPDATE OR DELETE ON debts
+    FOR EACH ROW EXECUTE FUNCTION gl_sync_debt();
+
+DROP TRIGGER IF EXISTS gl_debt_payments ON debt_payments;
+CREATE TRIGGER gl_debt_payments AFTER INSERT OR UPDATE OR DELETE ON debt_payments
+    FOR EACH ROW EXECUTE FUNCTION gl_sync_debt_payment();
+
+DROP TRIGGER IF EXISTS gl_land_batches ON land_batches;
+CREATE TRIGGER gl_land_batches AFTER INSERT OR UPDATE OR DELETE ON land_batches
+    FOR EACH ROW EXECUTE FUNCTION gl_sync_land_batch();
+
+-- ============================================
+-- STEP 8: Post existing data
+-- ============================================
+-- Rows created before this migration, dated with their own dates.
+-- Safe to run again: sources that already have entries are skipped.
+DO $$
+DECLARE
+    v_batch land_batches;
+    v_sale sales;
+    v_payment payments;
+    v_settlement cancellation_settlements;
+    v_expense expenses;
+    v_debt debts;
+    v_debt_payment debt_payments;
+BEGIN
+    FOR v_batch IN SELECT * FROM land_batches b
+        WHERE NOT EXISTS (SELECT 1 FROM gl_journal_entries e WHERE e.source_type = 'land_batch' AND e.source_id = b.id)
+    LOOP
+        PERFORM gl_post_land_batch(v_batch);
+    END LOOP;
+
+    FOR v_sale IN SELECT * FROM sales s
+        WHERE NOT EXISTS (SELECT 1 FROM gl_journal_entries e WHERE e.source_type IN ('sale', 'company_fee') AND e.source_id = s.id)
+    LOOP
+        PERFORM gl_post_sale(v_sale, v_sale.sale_date);
+        PERFORM gl_post_company_fee(v_sale, v_sale.sale_date);
+    END LOOP;
+
+    FOR v_payment IN SELECT * FROM payments p
+        WHERE NOT EXISTS (SELECT 1 FROM gl_journal_entries e WHERE e.source_type = 'payment' AND e.source_id = p.id)
+    LOOP
+        PERFORM gl_post_payment(v_payment);
+    END LOOP;
+
+    FOR v_settlement IN SELECT * FROM cancellation_settlements c
+        WHERE NOT EXISTS (SELECT 1 FROM gl_journal_entries e WHERE e.source_type = 'cancellation' AND e.source_id = c.id)
+    LOOP
+        PERFORM gl_post_cancellation(v_settlement);
+    END LOOP;
+
+    FOR v_expense IN SELECT * FROM expenses x
+        WHERE NOT EXISTS (SELECT 1 FROM gl_journal_entries e WHERE e.source_type = 'expense' AND e.source_id = x.id)
+    LOOP
+        PERFORM gl_post_expense(v_expense);
+    END LOOP;
+
+    FOR v_debt IN SELECT * FROM debts d
+        WHERE NOT EXISTS (SELECT 1 FROM gl_journal_entries e WHERE e.source_type = 'debt' AND e.source_id = d.id)
+    LOOP
+        PERFORM gl_post_debt(v_debt);
+    END LOOP;
+
+    FOR v_debt_payment IN SELECT * FROM debt_payments dp
+        WHERE NOT EXISTS (SELECT 1 FROM gl_journal_entries e WHERE e.source_type = 'debt_payment' AND e.source_id = dp.id)
+    LOOP
+        PERFORM gl_post_debt_payment(v_debt_payment);
+    END LOOP;
+END $$;
+
+-- ============================================
+-- STEP 9: Manual entries
+-- ============================================
+-- Opening balances, reclassifications and corrections, by the Owner only
+CREATE OR REPLACE FUNCTION post_manual_journal_entry(
+    p_entry_date DATE,
+    p_description TEXT,
+    p_lines JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+    v_debit DECIMAL(15, 2);
+    v_credit DECIMAL(15, 2);
+    v_entry_id UUID;
+BEGIN
+    IF get_user_role() IS DISTINCT FROM 'Owner' THEN
+        RAISE EXCEPTION 'القيود اليدوية متاحة للمالك فقط';
+    END IF;
+
+    IF NULLIF(TRIM(COALESCE(p_description, '')), '') IS NULL THEN
+        RAISE EXCEPTION 'يرجى إدخال بيان القيد';
+    END IF;
+
+    IF p_lines IS NULL OR jsonb_typeof(p_lines) <> 'array' OR jsonb_array_length(p_lines) < 2 THEN
+        RAISE EXCEPTION 'القيد يحتاج سطرين على الأقل';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(p_lines) AS line
+        LEFT JOIN gl_accounts a ON a.code = line->>'account_code'
+        WHERE a.code IS NULL OR NOT a.is_active
+    ) THEN
+        RAISE EXCEPTION 'حساب غير موجود أو غير نشط';
+    END IF;
+
+    SELECT
+        COALESCE(SUM(ROUND(COALESCE((line->>'debit')::DECIMAL, 0), 2)), 0),
+        COALESCE(SUM(ROUND(COALESCE((line->>'credit')::DECIMAL, 0), 2)), 0)
+    INTO v_debit, v_credit
+    FROM jsonb_array_elements(p_lines) AS line;
+
+    IF v_debit <> v_credit OR v_debit = 0 THEN
+        RAISE EXCEPTION 'القيد غير متوازن: المدين % والدائن %', v_debit, v_credit;
+    END IF;
+
+    v_entry_id := gl_post_entry(p_entry_date, TRIM(p_description), 'manual', NULL, p_lines);
+    RETURN v_entry_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Automatic entries follow their source row; only manual entries are reversed by hand
+CREATE OR REPLACE FUNCTION reverse_manual_journal_entry(p_entry_id UUID)
+RETURNS UUID AS $$
+DECLARE
+    v_entry gl_journal_entries;
+    v_lines JSONB;
+BEGIN
+    IF get_user_role() IS DISTINCT FROM 'Owner' THEN
+        RAISE EXCEPTION 'القيود اليدوية متاحة للمالك فقط';
+    END IF;
+
+    SELECT * INTO v_entry FROM gl_journal_entries WHERE id = p_entry_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'القيد غير موجود';
+    END IF;
+
+    IF v_entry.source_type <> 'manual' OR v_entry.reversal_of IS NOT NULL THEN
+        RAISE EXCEPTION 'لا يمكن عكس إلا القيود اليدوية';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM gl_journal_entries WHERE reversal_of = v_entry.id) THEN
+        RAISE EXCEPTION 'تم عكس هذا القيد مسبقاً';
+    END IF;
+
+    SELECT jsonb_agg(jsonb_build_object('account_code', account_code, 'debit', credit, 'credit', debit, 'memo', memo))
+    INTO v_lines
+    FROM gl_journal_lines
+    WHERE entry_id = v_entry.id;
+
+    RETURN gl_post_entry(CURRENT_DATE, 'عكس: ' || v_entry.description, 'manual', NULL, v_lines, v_entry.id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- STEP 10: Trial balance
+-- ============================================
+-- Per account: movements before p_from (opening) and between p_from and p_to.
+-- P&L and balance sheet are built from these rows (frontend/src/lib/generalLedger.ts).
+CREATE OR REPLACE FUNCTION get_trial_balance(
+    p_from DATE,
+    p_to DATE DEFAULT CURRENT_DATE
+)
+RETURNS TABLE (
+    account_code VARCHAR(20),
+    name_ar VARCHAR(255),
+    name_fr VARCHAR(255),
+    account_type gl_account_type,
+    opening_debit DECIMAL(15, 2),
+    opening_credit DECIMAL(15, 2),
+    period_debit DECIMAL(15, 2),
+    period_credit DECIMAL(15, 2)
+) AS $$
+    SELECT
+        a.code,
+        a.name_ar,
+        a.name_fr,
+        a.account_type,
+        COALESCE(SUM(l.debit) FILTER (WHERE e.entry_date < p_from), 0),
+        COALESCE(SUM(l.credit) FILTER (WHERE e.entry_date < p_from), 0),
+        COALESCE(SUM(l.debit) FILTER (WHERE e.entry_date >= p_from), 0),
+        COALESCE(SUM(l.credit) FILTER (WHERE e.entry_date >= p_from), 0)
+    FROM gl_accounts a
+    LEFT JOIN gl_journal_lines l ON l.account_code = a.code
+    LEFT JOIN gl_journal_entries e ON e.id = l.entry_id AND e.entry_date <= p_to
+    WHERE l.id IS NULL OR e.id IS NOT NULL
+    GROUP BY a.code, a.name_ar, a.name_fr, a.account_type
+    ORDER BY a.code;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- STEP 11: Triggers and RLS
+-- ============================================
+DROP TRIGGER IF EXISTS update_gl_accounts_updated_at ON gl_accounts;
+CREATE TRIGGER update_gl_accounts_updated_at
+    BEFORE UPDATE ON gl_accounts
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS audit_gl_accounts ON gl_accounts;
+CREATE TRIGGER audit_gl_accounts AFTER INSERT OR UPDATE OR DELETE ON gl_accounts
+    FOR EACH ROW EXECUTE FUNCTION audit_trigger_function();
+
+ALTER TABLE gl_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE gl_journal_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE gl_journal_lines ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Accounts are viewable by authenticated users" ON gl_accounts;
+CREATE POLICY "Accounts are viewable by authenticated users"
+    ON gl_accounts FOR SELECT
+    TO authenticated
+    USING (true);
+
+-- New accounts for manual entries; system accounts keep their code and type
+DROP POLICY IF EXISTS "Owners can add accounts" ON gl_accounts;
+CREATE POLICY "Owners can add accounts"
+    ON gl_accounts FOR INSERT
+    TO authenticated
+    WITH CHECK (get_user_role() = 'Owner' AND NOT is_system);
+
+DROP POLICY IF EXISTS "Owners can update accounts" ON gl_accounts;
+CREATE POLICY "Owners can update accounts"
+    ON gl_accounts FOR UPDATE
+    TO authenticated
+    USING (get_user_role() = 'Owner')
+    WITH CHECK (get_user_role() = 'Owner');
+
+-- Entries are written by the posting functions (SECURITY DEFINER) only
+DROP POLICY IF EXISTS "Journal entries are viewable by authenticated users" ON gl_journal_entries;
+CREATE POLICY "Journal entries are viewable by authenticated users"
+    ON gl_journal_entries FOR SELECT
+    TO authenticated
+    USING (true);
+
+DROP POLICY IF EXISTS "Journal lines are viewable by authenticated users" ON gl_journal_lines;
+CREATE POLICY "Journal lines are viewable by authenticated users"
+    ON gl_journal_lines FOR SELECT
+    TO authenticated
+    USING (true);
+
+-- Entries are posted by the triggers (SECURITY DEFINER) only: a direct RPC
+-- call could add made-up entries or reverse real ones
+REVOKE EXECUTE ON FUNCTION gl_post_entry(DATE, TEXT, VARCHAR, UUID, JSONB, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION gl_reverse_source(VARCHAR, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION gl_cash_account(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION gl_sale_confirmed(sales) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION gl_post_payment(payments) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION gl_post_expense(expenses) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION gl_post_sale(sales, DATE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION gl_post_company_fee(sales, DATE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION gl_post_cancellation(cancellation_settlements) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION gl_post_debt(debts) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION gl_post_debt_payment(debt_payments) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION gl_post_land_batch(land_batches) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION post_manual_journal_entry(DATE, TEXT, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION reverse_manual_journal_entry(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_trial_balance(DATE, DATE) TO authenticated;
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+-- Total debits and credits must be equal
+SELECT
+    SUM(debit) AS total_debit,
+    SUM(credit) AS total_credit,
+    SUM(debit) - SUM(credit) AS difference
+FROM gl_journal_lines;
+
+SELECT source_type, COUNT(*) AS entries
+FROM gl_journal_entries
+GROUP BY source_type
+ORDER BY source_type;
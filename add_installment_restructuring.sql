@@ -0,0 +1,267 @@
+-- ============================================
+-- INSTALLMENT RESTRUCTURING
+-- Migration: Rebuild the schedule of a sale from its outstanding balance
+-- ============================================
+-- Purpose: When a client falls behind, staff used to reset the installments or
+--          edit stacked_amount by hand. restructure_installments() replaces the
+--          open installments of a sale with a new schedule:
+--          - Outstanding balance = what is still owed on the open installments,
+--            plus late penalties not yet collected (capitalized)
+--          - The new schedule (more months, another monthly amount, a payment
+--            holiday and / or a balloon payment) is built by the app and must
+--            sum to that balance
+--          - Superseded installments are copied to superseded_installments;
+--            started ones are closed at what was paid, untouched ones removed
+--          - installment_restructurings records the old / new plan and who
+--            approved it
+-- Run this in Supabase SQL Editor
+-- Dependencies: Requires supabase_schema.sql, add_late_payment_penalties.sql
+--               and add_server_side_permission_validation.sql
+-- ============================================
+
+-- ============================================
+-- STEP 1: Create installment_restructurings table
+-- ============================================
+CREATE TABLE IF NOT EXISTS installment_restructurings (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    sale_id UUID NOT NULL REFERENCES sales(id) ON DELETE CASCADE,
+    outstanding_balance DECIMAL(15, 2) NOT NULL CHECK (outstanding_balance > 0), -- Installments + penalties rescheduled
+    capitalized_penalties DECIMAL(15, 2) NOT NULL DEFAULT 0, -- Part of the balance coming from penalties
+    old_installment_count INTEGER NOT NULL, -- Open installments replaced
+    old_monthly_amount DECIMAL(15, 2),
+    old_end_date DATE,
+    new_installment_count INTEGER NOT NULL,
+    new_monthly_amount DECIMAL(15, 2),
+    new_end_date DATE,
+    holiday_months INTEGER NOT NULL DEFAULT 0 CHECK (holiday_months >= 0), -- Months without payment before the first new installment
+    balloon_amount DECIMAL(15, 2) NOT NULL DEFAULT 0 CHECK (balloon_amount >= 0), -- Lump sum at the end of the new schedule
+    reason TEXT NOT NULL,
+    approved_by UUID REFERENCES users(id),
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_installment_restructurings_sale ON installment_restructurings(sale_id);
+
+COMMENT ON TABLE installment_restructurings IS 'Schedule restructurings of a sale, written by restructure_installments()';
+
+-- ============================================
+-- STEP 2: Create superseded_installments table
+-- ============================================
+-- Copy of each open installment as it was just before the restructuring
+CREATE TABLE IF NOT EXISTS superseded_installments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    restructuring_id UUID NOT NULL REFERENCES installment_restructurings(id) ON DELETE CASCADE,
+    sale_id UUID NOT NULL REFERENCES sales(id) ON DELETE CASCADE,
+    installment_id UUID, -- Original row (deleted when nothing was paid on it)
+    installment_number INTEGER NOT NULL,
+    amount_due DECIMAL(15, 2) NOT NULL,
+    amount_paid DECIMAL(15, 2) NOT NULL DEFAULT 0,
+    stacked_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+    penalty_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+    penalty_paid DECIMAL(15, 2) NOT NULL DEFAULT 0,
+    due_date DATE NOT NULL,
+    status VARCHAR(20) NOT NULL,
+    notes TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_superseded_installments_restructuring ON superseded_installments(restructuring_id);
+CREATE INDEX IF NOT EXISTS idx_superseded_installments_sale ON superseded_installments(sale_id);
+
+COMMENT ON TABLE superseded_installments IS 'Installments replaced by a restructuring, kept for history';
+
+-- ============================================
+-- STEP 3: Restructure the open installments of a sale
+-- ============================================
+-- p_schedule: [{ "due_date": "2025-03-01", "amount": 1500 }, ...] summing to the
+-- outstanding balance (see buildRestructuringPlan() in
+-- frontend/src/lib/installmentRestructuring.ts).
+CREATE OR REPLACE FUNCTION restructure_installments(
+    p_sale_id UUID,
+    p_schedule JSONB,
+    p_reason TEXT,
+    p_monthly_amount DECIMAL(15, 2) DEFAULT NULL,
+    p_holiday_months INTEGER DEFAULT 0,
+    p_balloon_amount DECIMAL(15, 2) DEFAULT 0
+)
+RETURNS installment_restructurings AS $$
+DECLARE
+    v_sale RECORD;
+    v_open_count INTEGER;
+    v_open_balance DECIMAL(15, 2);
+    v_penalties DECIMAL(15, 2);
+    v_balance DECIMAL(15, 2);
+    v_old_monthly DECIMAL(15, 2);
+    v_old_end DATE;
+    v_schedule_total DECIMAL(15, 2);
+    v_schedule_count INTEGER;
+    v_new_end DATE;
+    v_next_number INTEGER;
+    v_restructuring installment_restructurings;
+BEGIN
+    IF NOT validate_user_permission('edit_sales') THEN
+        RAISE EXCEPTION 'ليس لديك صلاحية تعديل المبيعات';
+    END IF;
+
+    IF NULLIF(TRIM(COALESCE(p_reason, '')), '') IS NULL THEN
+        RAISE EXCEPTION 'يرجى إدخال سبب إعادة الجدولة';
+    END IF;
+
+    IF COALESCE(p_holiday_months, 0) < 0 OR COALESCE(p_balloon_amount, 0) < 0 THEN
+        RAISE EXCEPTION 'قيم إعادة الجدولة لا يمكن أن تكون سالبة';
+    END IF;
+
+    SELECT * INTO v_sale FROM sales WHERE id = p_sale_id FOR UPDATE;
+
+    IF v_sale IS NULL THEN
+        RAISE EXCEPTION 'البيع غير موجود';
+    END IF;
+
+    IF v_sale.status = 'Cancelled' THEN
+        RAISE EXCEPTION 'لا يمكن إعادة جدولة بيع ملغى';
+    END IF;
+
+    -- Same totals as getRestructuringBalance()
+    SELECT
+        COUNT(*),
+        COALESCE(SUM(GREATEST(amount_due + COALESCE(stacked_amount, 0) - COALESCE(amount_paid, 0), 0)), 0),
+        COALESCE(SUM(GREATEST(COALESCE(penalty_amount, 0) - COALESCE(penalty_paid, 0), 0)), 0),
+        MAX(amount_due),
+        MAX(due_date)
+    INTO v_open_count, v_open_balance, v_penalties, v_old_monthly, v_old_end
+    FROM installments
+    WHERE sale_id = p_sale_id
+    AND status <> 'Paid';
+
+    v_balance := v_open_balance + v_penalties;
+
+    IF v_open_count = 0 OR v_balance <= 0 THEN
+        RAISE EXCEPTION 'لا يوجد رصيد متبقي لإعادة جدولته';
+    END IF;
+
+    IF COALESCE(p_balloon_amount, 0) > v_balance THEN
+        RAISE EXCEPTION 'الدفعة النهائية (%) أكبر من الرصيد المتبقي (%)', p_balloon_amount, v_balance;
+    END IF;
+
+    SELECT
+        COUNT(*),
+        COALESCE(SUM((e->>'amount')::DECIMAL(15, 2)), 0),
+        MAX((e->>'due_date')::DATE)
+    INTO v_schedule_count, v_schedule_total, v_new_end
+    FROM jsonb_array_elements(COALESCE(p_schedule, '[]'::JSONB)) e;
+
+    IF v_schedule_count = 0 THEN
+        RAISE EXCEPTION 'الجدول الجديد فارغ';
+    END IF;
+
+    IF ABS(v_schedule_total - v_balance) > 0.01 THEN
+        RAISE EXCEPTION 'مجموع الجدول الجديد (%) لا يساوي الرصيد المتبقي (%)', v_schedule_total, v_balance;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM jsonb_array_elements(p_schedule) e WHERE (e->>'amount')::DECIMAL(15, 2) <= 0) THEN
+        RAISE EXCEPTION 'مبالغ الجدول الجديد يجب أن تكون أكبر من صفر';
+    END IF;
+
+    INSERT INTO installment_restructurings (
+        sale_id, outstanding_balance, capitalized_penalties,
+        old_installment_count, old_monthly_amount, old_end_date,
+        new_installment_count, new_monthly_amount, new_end_date,
+        holiday_months, balloon_amount, reason, approved_by
+    ) VALUES (
+        p_sale_id, v_balance, v_penalties,
+        v_open_count, COALESCE(v_sale.monthly_installment_amount, v_old_monthly), v_old_end,
+        v_schedule_count, p_monthly_amount, v_new_end,
+        COALESCE(p_holiday_months, 0), COALESCE(p_balloon_amount, 0), TRIM(p_reason), auth.uid()
+    )
+    RETURNING * INTO v_restructuring;
+
+    INSERT INTO superseded_installments (
+        restructuring_id, sale_id, installment_id, installment_number,
+        amount_due, amount_paid, stacked_amount, penalty_amount, penalty_paid,
+        due_date, status, notes
+    )
+    SELECT
+        v_restructuring.id, sale_id, id, installment_number,
+        amount_due, COALESCE(amount_paid, 0), COALESCE(stacked_amount, 0),
+        COALESCE(penalty_amount, 0), COALESCE(penalty_paid, 0),
+        due_date, status, notes
+    FROM installments
+    WHERE sale_id = p_sale_id
+    AND status <> 'Paid';
+
+    -- Started installments are closed at what was paid (their payments stay linked),
+    -- the rest and the uncollected penalties move to the new schedule
+    UPDATE installments
+    SET amount_due = COALESCE(amount_paid, 0),
+        stacked_amount = 0,
+        penalty_amount = COALESCE(penalty_paid, 0),
+        status = 'Paid',
+        paid_date = COALESCE(paid_date, CURRENT_DATE),
+        notes = CONCAT_WS(E'\n', NULLIF(notes, ''), 'أعيدت جدولة الباقي'),
+        updated_at = NOW()
+    WHERE sale_id = p_sale_id
+    AND status <> 'Paid'
+    AND (COALESCE(amount_paid, 0) > 0 OR COALESCE(penalty_paid, 0) > 0);
+
+    DELETE FROM installments
+    WHERE sale_id = p_sale_id
+    AND status <> 'Paid';
+
+    SELECT COALESCE(MAX(installment_number), 0) + 1
+    INTO v_next_number
+    FROM installments
+    WHERE sale_id = p_sale_id;
+
+    INSERT INTO installments (
+        sale_id, installment_number, amount_due, amount_paid, stacked_amount,
+        due_date, status, notes
+    )
+    SELECT
+        p_sale_id, v_next_number + e.ordinality - 1, (e.value->>'amount')::DECIMAL(15, 2), 0, 0,
+        (e.value->>'due_date')::DATE, 'Unpaid', 'إعادة جدولة'
+    FROM jsonb_array_elements(p_schedule) WITH ORDINALITY e;
+
+    UPDATE sales
+    SET number_of_installments = (SELECT COUNT(*) FROM installments WHERE sale_id = p_sale_id),
+        monthly_installment_amount = COALESCE(p_monthly_amount, monthly_installment_amount),
+        installment_end_date = v_new_end,
+        updated_at = NOW()
+    WHERE id = p_sale_id;
+
+    RETURN v_restructuring;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION restructure_installments(UUID, JSONB, TEXT, DECIMAL, INTEGER, DECIMAL) TO authenticated;
+
+-- ============================================
+-- STEP 4: Enable RLS
+-- ============================================
+ALTER TABLE installment_restructurings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE superseded_installments ENABLE ROW LEVEL SECURITY;
+
+-- Written only by restructure_installments() (SECURITY DEFINER)
+DROP POLICY IF EXISTS "Installment restructurings are viewable by authenticated users" ON installment_restructurings;
+CREATE POLICY "Installment restructurings are viewable by authenticated users"
+    ON installment_restructurings FOR SELECT
+    TO authenticated
+    USING (true);
+
+DROP POLICY IF EXISTS "Superseded installments are viewable by authenticated users" ON superseded_installments;
+CREATE POLICY "Superseded installments are viewable by authenticated users"
+    ON superseded_installments FOR SELECT
+    TO authenticated
+    USING (true);
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+SELECT routine_name
+FROM information_schema.routines
+WHERE routine_schema = 'public'
+AND routine_name = 'restructure_installments';
+
+SELECT table_name
+FROM information_schema.tables
+WHERE table_schema = 'public'
+AND table_name IN ('installment_restructurings', 'superseded_installments');
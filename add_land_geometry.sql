@@ -0,0 +1,58 @@
+-- ============================================
+-- GEOGRAPHIC GEOMETRY FOR LAND BATCHES AND PIECES
+-- ============================================
+-- Purpose: Real coordinates for batches and pieces, imported from surveyor
+--          GeoJSON/KML files and exported as GeoJSON.
+--          - Stored as GeoJSON geometry objects (Polygon or MultiPolygon),
+--            longitude/latitude in WGS84 (EPSG:4326), as GeoJSON requires
+--          - land_batches.location stays the free-text address
+--          - geometry_area is the surface computed from the geometry (m²),
+--            kept next to surface_area so discrepancies can be listed in SQL
+-- Run this in Supabase SQL Editor
+-- Dependencies: Requires land_batches and land_pieces tables (supabase_schema.sql)
+-- ============================================
+
+-- ============================================
+-- STEP 1: Geometry columns
+-- ============================================
+ALTER TABLE land_batches
+ADD COLUMN IF NOT EXISTS geometry JSONB,
+ADD COLUMN IF NOT EXISTS geometry_area DECIMAL(15, 2);
+
+ALTER TABLE land_pieces
+ADD COLUMN IF NOT EXISTS geometry JSONB,
+ADD COLUMN IF NOT EXISTS geometry_area DECIMAL(15, 2);
+
+COMMENT ON COLUMN land_batches.geometry IS 'GeoJSON Polygon/MultiPolygon of the batch outline, WGS84 longitude/latitude';
+COMMENT ON COLUMN land_batches.geometry_area IS 'Surface computed from geometry (m²)';
+COMMENT ON COLUMN land_pieces.geometry IS 'GeoJSON Polygon/MultiPolygon of the piece, WGS84 longitude/latitude';
+COMMENT ON COLUMN land_pieces.geometry_area IS 'Surface computed from geometry (m²), compared with surface_area';
+
+-- ============================================
+-- STEP 2: Only polygons are accepted
+-- ============================================
+ALTER TABLE land_batches DROP CONSTRAINT IF EXISTS land_batches_geometry_check;
+ALTER TABLE land_batches
+ADD CONSTRAINT land_batches_geometry_check
+CHECK (geometry IS NULL OR geometry->>'type' IN ('Polygon', 'MultiPolygon'));
+
+ALTER TABLE land_pieces DROP CONSTRAINT IF EXISTS land_pieces_geometry_check;
+ALTER TABLE land_pieces
+ADD CONSTRAINT land_pieces_geometry_check
+CHECK (geometry IS NULL OR geometry->>'type' IN ('Polygon', 'MultiPolygon'));
+
+-- ============================================
+-- STEP 3: Verify
+-- ============================================
+SELECT table_name, column_name, data_type
+FROM information_schema.columns
+WHERE table_name IN ('land_batches', 'land_pieces')
+  AND column_name IN ('geometry', 'geometry_area')
+ORDER BY table_name, column_name;
+
+-- Pieces whose geometry differs from the stored surface by more than 5%:
+-- SELECT piece_number, surface_area, geometry_area
+-- FROM land_pieces
+-- WHERE geometry_area IS NOT NULL
+--   AND surface_area > 0
+--   AND ABS(geometry_area - surface_area) / surface_area > 0.05;
@@ -0,0 +1,31 @@
+-- ============================================
+-- SUBDIVISION MAP: PIECE POLYGONS OVER THE BATCH PLAN IMAGE
+-- ============================================
+-- Purpose: Each land piece can be outlined on its batch plan image
+--          (land_batches.image_url) so the plan becomes a clickable map.
+--          Points are stored relative to the image size (0..1), so the map
+--          keeps working if the plan image is replaced by a larger scan of
+--          the same plan.
+--          Format: [[x1, y1], [x2, y2], ...] (at least 3 points, not closed)
+-- Run this in Supabase SQL Editor
+-- Dependencies: Requires ADD_IMAGE_TO_LAND_BATCHES.sql
+-- ============================================
+
+ALTER TABLE land_pieces
+ADD COLUMN IF NOT EXISTS map_polygon JSONB;
+
+COMMENT ON COLUMN land_pieces.map_polygon IS 'Outline of the piece on the batch plan image: [[x, y], ...] with x and y relative to the image size (0..1)';
+
+ALTER TABLE land_pieces DROP CONSTRAINT IF EXISTS land_pieces_map_polygon_check;
+ALTER TABLE land_pieces
+ADD CONSTRAINT land_pieces_map_polygon_check
+CHECK (
+    map_polygon IS NULL
+    OR (jsonb_typeof(map_polygon) = 'array' AND jsonb_array_length(map_polygon) >= 3)
+);
+
+-- Verify
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE table_name = 'land_pieces'
+  AND column_name = 'map_polygon';
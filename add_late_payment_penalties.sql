@@ -0,0 +1,265 @@
+-- ============================================
+-- LATE PAYMENT PENALTIES
+-- Migration: Add configurable penalty policy for overdue installments
+-- ============================================
+-- Purpose: Charges a late fee on installments that stay unpaid past a grace period.
+--          The fee is either flat or a percentage of the outstanding amount, repeats
+--          monthly if configured, and is capped per installment.
+--          Penalty charges are stored on the installment (penalty_amount) and in the
+--          installment_penalties ledger; collected penalties are recorded in payments
+--          with the new 'Penalty' payment_record_type.
+-- Run this in Supabase SQL Editor
+-- Dependencies: Requires installments and payments tables (supabase_schema.sql)
+-- ============================================
+
+-- ============================================
+-- STEP 1: Add 'Penalty' to payment_record_type enum
+-- ============================================
+-- Note: ALTER TYPE ... ADD VALUE cannot run inside a transaction block
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_enum
+        WHERE enumlabel = 'Penalty'
+        AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'payment_record_type')
+    ) THEN
+        ALTER TYPE payment_record_type ADD VALUE IF NOT EXISTS 'Penalty';
+        RAISE NOTICE 'Added Penalty to payment_record_type enum';
+    ELSE
+        RAISE NOTICE 'Penalty already exists in payment_record_type enum';
+    END IF;
+END $$;
+
+-- ============================================
+-- STEP 2: Create ENUM for penalty fee types
+-- ============================================
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'penalty_fee_type') THEN
+        CREATE TYPE penalty_fee_type AS ENUM ('Flat', 'Percentage');
+    END IF;
+END $$;
+
+-- ============================================
+-- STEP 3: Create late_penalty_policies table
+-- ============================================
+CREATE TABLE IF NOT EXISTS late_penalty_policies (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(255) NOT NULL,
+    grace_period_days INTEGER NOT NULL DEFAULT 0 CHECK (grace_period_days >= 0),
+    fee_type penalty_fee_type NOT NULL DEFAULT 'Flat',
+    fee_value DECIMAL(15, 2) NOT NULL CHECK (fee_value >= 0), -- Amount (Flat) or percent of outstanding (Percentage)
+    cap_amount DECIMAL(15, 2) CHECK (cap_amount IS NULL OR cap_amount >= 0), -- Max total penalty per installment (NULL = no cap)
+    repeat_monthly BOOLEAN NOT NULL DEFAULT FALSE, -- Charge again every month the installment stays late
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    notes TEXT,
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Only one active policy at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_late_penalty_policies_single_active
+    ON late_penalty_policies(is_active) WHERE is_active = TRUE;
+
+COMMENT ON TABLE late_penalty_policies IS 'Late fee rules applied to overdue installments by apply_late_penalties()';
+COMMENT ON COLUMN late_penalty_policies.fee_value IS 'Flat amount, or percentage of the outstanding installment amount';
+COMMENT ON COLUMN late_penalty_policies.cap_amount IS 'Maximum total penalty per installment, NULL for no cap';
+
+-- ============================================
+-- STEP 4: Add penalty columns to installments
+-- ============================================
+ALTER TABLE installments
+ADD COLUMN IF NOT EXISTS penalty_amount DECIMAL(15, 2) NOT NULL DEFAULT 0, -- Total penalties charged
+ADD COLUMN IF NOT EXISTS penalty_paid DECIMAL(15, 2) NOT NULL DEFAULT 0, -- Penalties collected
+ADD COLUMN IF NOT EXISTS last_penalty_date DATE, -- Last date a penalty was charged
+-- Given up by early payoffs (installment_write_offs, add_payoff_quotes.sql)
+ADD COLUMN IF NOT EXISTS written_off_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS penalty_written_off DECIMAL(15, 2) NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_installments_penalty_outstanding
+    ON installments(sale_id) WHERE penalty_amount > penalty_paid;
+
+-- ============================================
+-- STEP 5: Create installment_penalties ledger
+-- ============================================
+-- One row per penalty charge so collections staff can explain every amount
+CREATE TABLE IF NOT EXISTS installment_penalties (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    installment_id UUID NOT NULL REFERENCES installments(id) ON DELETE CASCADE,
+    sale_id UUID NOT NULL REFERENCES sales(id) ON DELETE CASCADE,
+    policy_id UUID REFERENCES late_penalty_policies(id) ON DELETE SET NULL,
+    amount DECIMAL(15, 2) NOT NULL CHECK (amount > 0),
+    outstanding_amount DECIMAL(15, 2) NOT NULL, -- Installment amount outstanding when charged
+    days_late INTEGER NOT NULL,
+    applied_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_installment_penalties_installment ON installment_penalties(installment_id);
+CREATE INDEX IF NOT EXISTS idx_installment_penalties_sale ON installment_penalties(sale_id);
+CREATE INDEX IF NOT EXISTS idx_installment_penalties_date ON installment_penalties(applied_date);
+
+-- ============================================
+-- STEP 6: Create function to apply penalties
+-- ============================================
+-- Charges the active policy on every installment that is past due + grace period.
+-- Safe to run several times a day: a charge is only made once (or once per month
+-- when repeat_monthly is set) and never exceeds the cap.
+-- Always charges as of today: a caller-chosen date would let anyone charge
+-- penalties ahead of time and push last_penalty_date forward.
+DROP FUNCTION IF EXISTS apply_late_penalties(DATE);
+
+CREATE OR REPLACE FUNCTION apply_late_penalties()
+RETURNS TABLE(
+    applied_count INTEGER,
+    charged_installment_id UUID,
+    charged_amount DECIMAL(15, 2)
+) AS $$
+DECLARE
+    v_policy RECORD;
+    v_inst RECORD;
+    v_outstanding DECIMAL(15, 2);
+    v_charge DECIMAL(15, 2);
+    v_applied_count INTEGER := 0;
+    v_as_of DATE := CURRENT_DATE;
+BEGIN
+    SELECT * INTO v_policy
+    FROM late_penalty_policies
+    WHERE is_active = TRUE
+    LIMIT 1;
+
+    IF v_policy IS NULL OR v_policy.fee_value <= 0 THEN
+        RETURN QUERY SELECT 0::INTEGER, NULL::UUID, NULL::DECIMAL(15, 2);
+        RETURN;
+    END IF;
+
+    FOR v_inst IN
+        SELECT i.*
+        FROM installments i
+        JOIN sales s ON s.id = i.sale_id
+        WHERE s.status NOT IN ('Cancelled', 'Completed')
+        AND i.status IN ('Unpaid', 'Partial', 'Late')
+        AND i.due_date + v_policy.grace_period_days < v_as_of
+        AND (i.amount_due + COALESCE(i.stacked_amount, 0) - i.amount_paid) > 0.01
+        AND (
+            i.last_penalty_date IS NULL
+            OR (v_policy.repeat_monthly AND i.last_penalty_date + INTERVAL '1 month' <= v_as_of)
+        )
+        ORDER BY i.due_date ASC
+        FOR UPDATE OF i
+    LOOP
+        v_outstanding := v_inst.amount_due + COALESCE(v_inst.stacked_amount, 0) - v_inst.amount_paid;
+
+        IF v_policy.fee_type = 'Percentage' THEN
+            v_charge := ROUND(v_outstanding * v_policy.fee_value / 100, 2);
+        ELSE
+            v_charge := v_policy.fee_value;
+        END IF;
+
+        IF v_policy.cap_amount IS NOT NULL THEN
+            v_charge := LEAST(v_charge, v_policy.cap_amount - COALESCE(v_inst.penalty_amount, 0));
+        END IF;
+
+        IF v_charge > 0 THEN
+            INSERT INTO installment_penalties (
+                installment_id, sale_id, policy_id, amount, outstanding_amount, days_late, applied_date
+            ) VALUES (
+                v_inst.id, v_inst.sale_id, v_policy.id, v_charge, v_outstanding,
+                v_as_of - v_inst.due_date, v_as_of
+            );
+
+            UPDATE installments
+            SET
+                penalty_amount = COALESCE(installments.penalty_amount, 0) + v_charge,
+                last_penalty_date = v_as_of,
+                status = CASE WHEN status = 'Unpaid' THEN 'Late'::installment_status ELSE status END,
+                updated_at = NOW()
+            WHERE id = v_inst.id;
+
+            v_applied_count := v_applied_count + 1;
+            RETURN QUERY SELECT v_applied_count, v_inst.id, v_charge;
+        END IF;
+    END LOOP;
+
+    IF v_applied_count = 0 THEN
+        RETURN QUERY SELECT 0::INTEGER, NULL::UUID, NULL::DECIMAL(15, 2);
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- STEP 7: Triggers
+-- ============================================
+DROP TRIGGER IF EXISTS update_late_penalty_policies_updated_at ON late_penalty_policies;
+CREATE TRIGGER update_late_penalty_policies_updated_at
+    BEFORE UPDATE ON late_penalty_policies
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS audit_late_penalty_policies ON late_penalty_policies;
+CREATE TRIGGER audit_late_penalty_policies AFTER INSERT OR UPDATE OR DELETE ON late_penalty_policies
+    FOR EACH ROW EXECUTE FUNCTION audit_trigger_function();
+
+-- ============================================
+-- STEP 8: Enable RLS
+-- ============================================
+ALTER TABLE late_penalty_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE installment_penalties ENABLE ROW LEVEL SECURITY;
+
+-- All authenticated users can view policies (needed to explain penalties to clients)
+DROP POLICY IF EXISTS "Penalty policies are viewable by authenticated users" ON late_penalty_policies;
+CREATE POLICY "Penalty policies are viewable by authenticated users"
+    ON late_penalty_policies FOR SELECT
+    TO authenticated
+    USING (true);
+
+-- Only Owners can manage policies
+DROP POLICY IF EXISTS "Owners can manage penalty policies" ON late_penalty_policies;
+CREATE POLICY "Owners can manage penalty policies"
+    ON late_penalty_policies FOR ALL
+    TO authenticated
+    USING (get_user_role() = 'Owner')
+    WITH CHECK (get_user_role() = 'Owner');
+
+-- All authenticated users can view penalty charges
+DROP POLICY IF EXISTS "Installment penalties are viewable by authenticated users" ON installment_penalties;
+CREATE POLICY "Installment penalties are viewable by authenticated users"
+    ON installment_penalties FOR SELECT
+    TO authenticated
+    USING (true);
+
+-- Charges are written by apply_late_penalties() (SECURITY DEFINER); only Owners can remove them
+DROP POLICY IF EXISTS "Owners can delete installment penalties" ON installment_penalties;
+CREATE POLICY "Owners can delete installment penalties"
+    ON installment_penalties FOR DELETE
+    TO authenticated
+    USING (get_user_role() = 'Owner');
+
+GRANT EXECUTE ON FUNCTION apply_late_penalties() TO authenticated;
+
+-- ============================================
+-- STEP 9: Schedule the job
+-- ============================================
+-- Same options as SETUP_RECURRING_EXPENSES_CRON.sql. With pg_cron:
+-- CREATE EXTENSION IF NOT EXISTS pg_cron;
+-- SELECT cron.schedule(
+--     'apply-late-penalties-daily',
+--     '30 0 * * *', -- Every day at 00:30
+--     $$SELECT apply_late_penalties();$$
+-- );
+--
+-- Manual run:
+-- SELECT * FROM apply_late_penalties();
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+SELECT
+    column_name,
+    data_type,
+    column_default
+FROM information_schema.columns
+WHERE table_name = 'installments'
+AND column_name IN ('penalty_amount', 'penalty_paid', 'last_penalty_date', 'written_off_amount', 'penalty_written_off')
+ORDER BY column_name;
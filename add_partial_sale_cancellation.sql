@@ -0,0 +1,292 @@
+-- ============================================
+-- PARTIAL SALE CANCELLATION
+-- Migration: Remove one piece from a multi-piece sale
+-- ============================================
+-- Purpose: Cancelling one piece of a sale used to mean undoing the whole sale
+--          or splitting it by hand. remove_piece_from_sale() does it in one
+--          transaction:
+--          - total_selling_price, total_purchase_cost, profit_margin and
+--            company_fee_amount are recomputed without the piece
+--          - Open installments keep only the other pieces' share of what is owed
+--          - What was paid for the removed piece is credited to the open
+--            installments (last ones first); the rest is an overpayment to refund
+--          - The piece goes back to 'Available'
+--          - Every removal is kept in sale_piece_removals with the old and new figures
+--          The same rules are used for the preview in
+--          frontend/src/lib/pieceRemoval.ts
+-- Run this in Supabase SQL Editor
+-- Dependencies: Requires supabase_schema.sql, add_company_fee_to_sales.sql
+--               and add_server_side_permission_validation.sql
+-- ============================================
+
+-- ============================================
+-- STEP 1: Create sale_piece_removals table
+-- ============================================
+CREATE TABLE IF NOT EXISTS sale_piece_removals (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    sale_id UUID NOT NULL REFERENCES sales(id) ON DELETE CASCADE,
+    land_piece_id UUID REFERENCES land_pieces(id) ON DELETE SET NULL,
+    piece_number VARCHAR(50),
+    reason TEXT NOT NULL,
+    share DECIMAL(9, 6) NOT NULL, -- Piece's part of the sale price (0..1)
+    old_total_selling_price DECIMAL(15, 2) NOT NULL,
+    new_total_selling_price DECIMAL(15, 2) NOT NULL,
+    old_company_fee_amount DECIMAL(15, 2),
+    new_company_fee_amount DECIMAL(15, 2),
+    old_open_balance DECIMAL(15, 2) NOT NULL DEFAULT 0, -- Still owed on installments before
+    new_open_balance DECIMAL(15, 2) NOT NULL DEFAULT 0, -- and after the removal
+    credit_amount DECIMAL(15, 2) NOT NULL DEFAULT 0, -- Paid for the removed piece
+    credit_applied DECIMAL(15, 2) NOT NULL DEFAULT 0, -- Deducted from the open installments
+    overpayment_amount DECIMAL(15, 2) NOT NULL DEFAULT 0, -- To refund to the client
+    removed_by UUID REFERENCES users(id),
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sale_piece_removals_sale ON sale_piece_removals(sale_id);
+CREATE INDEX IF NOT EXISTS idx_sale_piece_removals_piece ON sale_piece_removals(land_piece_id);
+
+COMMENT ON TABLE sale_piece_removals IS 'Pieces removed from a sale by remove_piece_from_sale(), with the recomputed figures';
+
+-- ============================================
+-- STEP 2: Remove a piece from a sale
+-- ============================================
+CREATE OR REPLACE FUNCTION remove_piece_from_sale(
+    p_sale_id UUID,
+    p_piece_id UUID,
+    p_reason TEXT
+)
+RETURNS sale_piece_removals AS $$
+DECLARE
+    v_sale RECORD;
+    v_piece RECORD;
+    v_inst RECORD;
+    v_total_weight DECIMAL(15, 2);
+    v_piece_weight DECIMAL(15, 2);
+    v_share DECIMAL(9, 6);
+    v_removed_price DECIMAL(15, 2);
+    v_new_total DECIMAL(15, 2);
+    v_new_cost DECIMAL(15, 2);
+    v_new_fee DECIMAL(15, 2);
+    v_net_paid DECIMAL(15, 2);
+    v_open_count INTEGER;
+    v_old_open DECIMAL(15, 2);
+    v_scaled_target DECIMAL(15, 2);
+    v_scaled_so_far DECIMAL(15, 2) := 0;
+    v_index INTEGER := 0;
+    v_value DECIMAL(15, 2);
+    v_credit DECIMAL(15, 2) := 0;
+    v_credit_left DECIMAL(15, 2) := 0;
+    v_applied DECIMAL(15, 2);
+    v_overpayment DECIMAL(15, 2) := 0;
+    v_new_open DECIMAL(15, 2) := 0;
+    v_removal sale_piece_removals;
+BEGIN
+    IF NOT validate_user_permission('edit_sales') THEN
+        RAISE EXCEPTION 'ليس لديك صلاحية تعديل المبيعات';
+    END IF;
+
+    IF NULLIF(TRIM(COALESCE(p_reason, '')), '') IS NULL THEN
+        RAISE EXCEPTION 'يرجى إدخال سبب الإلغاء';
+    END IF;
+
+    SELECT * INTO v_sale FROM sales WHERE id = p_sale_id FOR UPDATE;
+
+    IF v_sale IS NULL THEN
+        RAISE EXCEPTION 'البيع غير موجود';
+    END IF;
+
+    IF v_sale.status = 'Cancelled' THEN
+        RAISE EXCEPTION 'هذا البيع ملغى بالفعل';
+    END IF;
+
+    IF NOT (p_piece_id = ANY(v_sale.land_piece_ids)) THEN
+        RAISE EXCEPTION 'القطعة ليست جزءاً من هذا البيع';
+    END IF;
+
+    IF cardinality(v_sale.land_piece_ids) < 2 THEN
+        RAISE EXCEPTION 'البيع يحتوي على قطعة واحدة فقط، يرجى إلغاء البيع بالكامل';
+    END IF;
+
+    SELECT * INTO v_piece FROM land_pieces WHERE id = p_piece_id FOR UPDATE;
+
+    -- Piece's share of the sale (same weights as getPieceWeight())
+    SELECT COALESCE(SUM(
+        CASE WHEN v_sale.payment_type = 'Installment'
+            THEN COALESCE(NULLIF(selling_price_installment, 0), selling_price_full, 0)
+            ELSE COALESCE(selling_price_full, 0)
+        END
+    ), 0)
+    INTO v_total_weight
+    FROM land_pieces
+    WHERE id = ANY(v_sale.land_piece_ids);
+
+    v_piece_weight := CASE WHEN v_sale.payment_type = 'Installment'
+        THEN COALESCE(NULLIF(v_piece.selling_price_installment, 0), v_piece.selling_price_full, 0)
+        ELSE COALESCE(v_piece.selling_price_full, 0)
+    END;
+
+    v_share := CASE WHEN v_total_weight > 0
+        THEN v_piece_weight / v_total_weight
+        ELSE 1.0 / cardinality(v_sale.land_piece_ids)
+    END;
+
+    v_removed_price := ROUND(COALESCE(v_sale.total_selling_price, 0) * v_share, 2);
+    v_new_total := COALESCE(v_sale.total_selling_price, 0) - v_removed_price;
+    v_new_cost := COALESCE(v_sale.total_purchase_cost, 0) - LEAST(
+        COALESCE(NULLIF(v_piece.purchase_cost, 0), ROUND(COALESCE(v_sale.total_purchase_cost, 0) * v_share, 2)),
+        COALESCE(v_sale.total_purchase_cost, 0)
+    );
+    v_new_fee := CASE WHEN v_sale.company_fee_percentage IS NOT NULL
+        THEN ROUND(v_new_total * v_sale.company_fee_percentage / 100, 2)
+        ELSE ROUND(COALESCE(v_sale.company_fee_amount, 0) * (1 - v_share), 2)
+    END;
+
+    SELECT GREATEST(
+        COALESCE(SUM(amount_paid) FILTER (WHERE payment_type <> 'Refund'), 0)
+        - COALESCE(SUM(ABS(amount_paid)) FILTER (WHERE payment_type = 'Refund'), 0),
+        0
+    )
+    INTO v_net_paid
+    FROM payments
+    WHERE sale_id = p_sale_id;
+
+    SELECT COUNT(*), COALESCE(SUM(GREATEST(amount_due + COALESCE(stacked_amount, 0) - COALESCE(amount_paid, 0), 0)), 0)
+    INTO v_open_count, v_old_open
+    FROM installments
+    WHERE sale_id = p_sale_id
+    AND status <> 'Paid';
+
+    IF v_open_count = 0 THEN
+        v_overpayment := GREATEST(v_net_paid - v_new_total - v_new_fee, 0);
+    ELSE
+        -- Work table: outstanding per open installment after the removal
+        CREATE TEMP TABLE IF NOT EXISTS tmp_piece_removal_installments (
+            id UUID PRIMARY KEY,
+            installment_number INTEGER,
+            amount_paid DECIMAL(15, 2),
+            new_outstanding DECIMAL(15, 2)
+        ) ON COMMIT DROP;
+        DELETE FROM tmp_piece_removal_installments;
+
+        v_scaled_target := ROUND(v_old_open * (1 - v_share), 2);
+
+        FOR v_inst IN
+            SELECT id, installment_number, COALESCE(amount_paid, 0) AS amount_paid,
+                   GREATEST(amount_due + COALESCE(stacked_amount, 0) - COALESCE(amount_paid, 0), 0) AS outstanding
+            FROM installments
+            WHERE sale_id = p_sale_id
+            AND status <> 'Paid'
+            ORDER BY installment_number
+            FOR UPDATE
+        LOOP
+            v_index := v_index + 1;
+            IF v_index = v_open_count THEN
+                v_value := v_scaled_target - v_scaled_so_far;
+            ELSE
+                v_value := ROUND(v_inst.outstanding * (1 - v_share), 2);
+            END IF;
+            v_scaled_so_far := v_scaled_so_far + v_value;
+
+            INSERT INTO tmp_piece_removal_installments
+            VALUES (v_inst.id, v_inst.installment_number, v_inst.amount_paid, GREATEST(v_value, 0));
+        END LOOP;
+
+        -- Credit for the removed piece, from the last installment backwards
+        v_credit := ROUND(v_net_paid * v_share, 2);
+        v_credit_left := v_credit;
+
+        FOR v_inst IN
+            SELECT * FROM tmp_piece_removal_installments ORDER BY installment_number DESC
+        LOOP
+            EXIT WHEN v_credit_left <= 0;
+            v_applied := LEAST(v_credit_left, v_inst.new_outstanding);
+            UPDATE tmp_piece_removal_installments
+            SET new_outstanding = new_outstanding - v_applied
+            WHERE id = v_inst.id;
+            v_credit_left := v_credit_left - v_applied;
+        END LOOP;
+
+        v_overpayment := v_credit_left;
+
+        -- Installments with nothing left: dropped if never paid, closed otherwise
+        DELETE FROM installments i
+        USING tmp_piece_removal_installments t
+        WHERE i.id = t.id
+        AND t.new_outstanding <= 0
+        AND t.amount_paid = 0;
+
+        UPDATE installments i
+        SET amount_due = t.amount_paid + t.new_outstanding,
+            stacked_amount = 0,
+            status = CASE WHEN t.new_outstanding <= 0 THEN 'Paid'::installment_status ELSE i.status END,
+            paid_date = CASE WHEN t.new_outstanding <= 0 THEN COALESCE(i.paid_date, CURRENT_DATE) ELSE i.paid_date END,
+            updated_at = NOW()
+        FROM tmp_piece_removal_installments t
+        WHERE i.id = t.id
+        AND (t.new_outstanding > 0 OR t.amount_paid > 0);
+
+        SELECT COALESCE(SUM(new_outstanding), 0) INTO v_new_open FROM tmp_piece_removal_installments;
+    END IF;
+
+    UPDATE sales
+    SET land_piece_ids = array_remove(land_piece_ids, p_piece_id),
+        total_selling_price = v_new_total,
+        total_purchase_cost = v_new_cost,
+        profit_margin = v_new_total - v_new_cost,
+        company_fee_amount = CASE WHEN v_sale.company_fee_amount IS NULL THEN NULL ELSE v_new_fee END,
+        number_of_installments = CASE WHEN v_open_count = 0 THEN number_of_installments
+            ELSE (SELECT COUNT(*) FROM installments WHERE sale_id = p_sale_id) END,
+        monthly_installment_amount = CASE WHEN v_open_count = 0 THEN monthly_installment_amount
+            ELSE (SELECT amount_due FROM installments WHERE sale_id = p_sale_id AND status <> 'Paid'
+                  ORDER BY installment_number LIMIT 1) END,
+        installment_end_date = CASE WHEN v_open_count = 0 THEN installment_end_date
+            ELSE (SELECT MAX(due_date) FROM installments WHERE sale_id = p_sale_id) END,
+        updated_at = NOW()
+    WHERE id = p_sale_id;
+
+    UPDATE land_pieces
+    SET status = 'Available', reservation_client_id = NULL, reserved_until = NULL, updated_at = NOW()
+    WHERE id = p_piece_id;
+
+    INSERT INTO sale_piece_removals (
+        sale_id, land_piece_id, piece_number, reason, share,
+        old_total_selling_price, new_total_selling_price,
+        old_company_fee_amount, new_company_fee_amount,
+        old_open_balance, new_open_balance,
+        credit_amount, credit_applied, overpayment_amount, removed_by
+    ) VALUES (
+        p_sale_id, p_piece_id, v_piece.piece_number, TRIM(p_reason), v_share,
+        COALESCE(v_sale.total_selling_price, 0), v_new_total,
+        v_sale.company_fee_amount, CASE WHEN v_sale.company_fee_amount IS NULL THEN NULL ELSE v_new_fee END,
+        v_old_open, v_new_open,
+        v_credit, v_credit - v_overpayment, v_overpayment, auth.uid()
+    )
+    RETURNING * INTO v_removal;
+
+    RETURN v_removal;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION remove_piece_from_sale(UUID, UUID, TEXT) TO authenticated;
+
+-- ============================================
+-- STEP 3: Enable RLS
+-- ============================================
+ALTER TABLE sale_piece_removals ENABLE ROW LEVEL SECURITY;
+
+-- Written only by remove_piece_from_sale() (SECURITY DEFINER)
+DROP POLICY IF EXISTS "Piece removals are viewable by authenticated users" ON sale_piece_removals;
+CREATE POLICY "Piece removals are viewable by authenticated users"
+    ON sale_piece_removals FOR SELECT
+    TO authenticated
+    USING (true);
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+SELECT routine_name
+FROM information_schema.routines
+WHERE routine_schema = 'public'
+AND routine_name = 'remove_piece_from_sale';
+
+SELECT COUNT(*) AS piece_removals FROM sale_piece_removals;
@@ -0,0 +1,273 @@
+-- ============================================
+-- PAYMENT ALLOCATION ENGINE
+-- Migration: Allocate one incoming payment over the installments of a sale
+-- ============================================
+-- Purpose: The installments page split payments itself, stacked overdue amounts
+--          into stacked_amount and inflated amount_paid of older installments.
+--          allocate_payment() now records ONE payments row per payment received
+--          and spreads it with fixed rules:
+--          1. The chosen installment first (penalty, then amount), when given
+--          2. Late penalties not yet collected, oldest installment first
+--          3. Partially paid installments, oldest first
+--          4. Remaining installments (overdue and future), oldest first
+--          The breakdown is stored in payments.allocation, so
+--          rebuild_installment_ledger() can always recompute amount_paid,
+--          penalty_paid and status of the installments from the payments.
+-- Run this in Supabase SQL Editor
+-- Dependencies: Requires supabase_schema.sql, add_late_payment_penalties.sql
+--               and add_server_side_permission_validation.sql
+-- ============================================
+
+-- ============================================
+-- STEP 1: Add allocation column to payments
+-- ============================================
+-- { "mode": "oldest" | "installment", "lines": [
+--     { "installment_id": "...", "installment_number": 3, "kind": "penalty" | "installment", "amount": 150 }
+-- ] }
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS allocation JSONB;
+
+COMMENT ON COLUMN payments.allocation IS 'How the payment was spread over installments (allocate_payment)';
+
+-- ============================================
+-- STEP 2: Allocate a payment
+-- ============================================
+CREATE OR REPLACE FUNCTION allocate_payment(
+    p_sale_id UUID,
+    p_amount DECIMAL(15, 2),
+    p_installment_id UUID DEFAULT NULL,
+    p_payment_date DATE DEFAULT CURRENT_DATE,
+    p_payment_method VARCHAR(50) DEFAULT 'Cash',
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS payments AS $$
+DECLARE
+    v_sale RECORD;
+    v_inst RECORD;
+    v_left DECIMAL(15, 2);
+    v_total_due DECIMAL(15, 2);
+    v_part DECIMAL(15, 2);
+    v_lines JSONB := '[]'::JSONB;
+    v_payment payments;
+BEGIN
+    IF NOT validate_user_permission('record_payments') THEN
+        RAISE EXCEPTION 'ليس لديك صلاحية لتسجيل المدفوعات';
+    END IF;
+
+    IF COALESCE(p_amount, 0) <= 0 THEN
+        RAISE EXCEPTION 'يرجى إدخال مبلغ صحيح';
+    END IF;
+
+    SELECT * INTO v_sale FROM sales WHERE id = p_sale_id FOR UPDATE;
+
+    IF v_sale IS NULL THEN
+        RAISE EXCEPTION 'البيع غير موجود';
+    END IF;
+
+    IF v_sale.status = 'Cancelled' THEN
+        RAISE EXCEPTION 'لا يمكن تسجيل دفعة على بيع ملغى';
+    END IF;
+
+    IF p_installment_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM installments WHERE id = p_installment_id AND sale_id = p_sale_id
+    ) THEN
+        RAISE EXCEPTION 'القسط غير موجود في هذا البيع';
+    END IF;
+
+    -- Working copy of the open installments, updated as the payment is spread
+    CREATE TEMP TABLE IF NOT EXISTS tmp_allocation (
+        id UUID PRIMARY KEY,
+        installment_number INTEGER,
+        outstanding DECIMAL(15, 2),
+        penalty DECIMAL(15, 2),
+        started BOOLEAN
+    ) ON COMMIT DROP;
+    DELETE FROM tmp_allocation;
+
+    INSERT INTO tmp_allocation
+    SELECT
+        id,
+        installment_number,
+        GREATEST(amount_due + COALESCE(stacked_amount, 0) - COALESCE(amount_paid, 0) - COALESCE(written_off_amount, 0), 0),
+        GREATEST(COALESCE(penalty_amount, 0) - COALESCE(penalty_paid, 0) - COALESCE(penalty_written_off, 0), 0),
+        COALESCE(amount_paid, 0) > 0
+    FROM installments
+    WHERE sale_id = p_sale_id
+    -- Paid installments stay open while a late penalty on them is uncollected
+    AND (status <> 'Paid' OR COALESCE(penalty_amount, 0) - COALESCE(penalty_paid, 0) - COALESCE(penalty_written_off, 0) > 0)
+    FOR UPDATE;
+
+    SELECT COALESCE(SUM(outstanding + penalty), 0) INTO v_total_due FROM tmp_allocation;
+
+    IF p_amount > v_total_due + 0.01 THEN
+        RAISE EXCEPTION 'المبلغ (%) أكبر من المتبقي على البيع (%)', p_amount, v_total_due;
+    END IF;
+
+    v_left := p_amount;
+
+    -- Rule 1: the chosen installment, penalty then amount
+    IF p_installment_id IS NOT NULL THEN
+        SELECT * INTO v_inst FROM tmp_allocation WHERE id = p_installment_id;
+        IF FOUND THEN
+            v_part := LEAST(v_left, v_inst.penalty);
+            IF v_part > 0 THEN
+                v_lines := v_lines || jsonb_build_object('installment_id', v_inst.id, 'installment_number', v_inst.installment_number, 'kind', 'penalty', 'amount', v_part);
+                UPDATE tmp_allocation SET penalty = penalty - v_part WHERE id = v_inst.id;
+                v_left := v_left - v_part;
+            END IF;
+            v_part := LEAST(v_left, v_inst.outstanding);
+            IF v_part > 0 THEN
+                v_lines := v_lines || jsonb_build_object('installment_id', v_inst.id, 'installment_number', v_inst.installment_number, 'kind', 'installment', 'amount', v_part);
+                UPDATE tmp_allocation SET outstanding = outstanding - v_part WHERE id = v_inst.id;
+                v_left := v_left - v_part;
+            END IF;
+        END IF;
+    END IF;
+
+    -- Rule 2: penalties, oldest first
+    FOR v_inst IN SELECT * FROM tmp_allocation WHERE penalty > 0 ORDER BY installment_number LOOP
+        EXIT WHEN v_left <= 0;
+        v_part := LEAST(v_left, v_inst.penalty);
+        v_lines := v_lines || jsonb_build_object('installment_id', v_inst.id, 'installment_number', v_inst.installment_number, 'kind', 'penalty', 'amount', v_part);
+        UPDATE tmp_allocation SET penalty = penalty - v_part WHERE id = v_inst.id;
+        v_left := v_left - v_part;
+    END LOOP;
+
+    -- Rules 3 and 4: partially paid installments, then the rest, oldest first
+    FOR v_inst IN SELECT * FROM tmp_allocation WHERE outstanding > 0 ORDER BY started DESC, installment_number LOOP
+        EXIT WHEN v_left <= 0;
+        v_part := LEAST(v_left, v_inst.outstanding);
+        v_lines := v_lines || jsonb_build_object('installment_id', v_inst.id, 'installment_number', v_inst.installment_number, 'kind', 'installment', 'amount', v_part);
+        UPDATE tmp_allocation SET outstanding = outstanding - v_part WHERE id = v_inst.id;
+        v_left := v_left - v_part;
+    END LOOP;
+
+    INSERT INTO payments (
+        client_id, sale_id, installment_id, amount_paid, payment_type,
+        payment_date, payment_method, notes, recorded_by, allocation
+    ) VALUES (
+        v_sale.client_id, p_sale_id,
+        COALESCE(p_installment_id, (v_lines->0->>'installment_id')::UUID),
+        p_amount, 'Installment',
+        COALESCE(p_payment_date, CURRENT_DATE), COALESCE(p_payment_method, 'Cash'),
+        NULLIF(TRIM(COALESCE(p_notes, '')), ''), auth.uid(),
+        jsonb_build_object(
+            'mode', CASE WHEN p_installment_id IS NULL THEN 'oldest' ELSE 'installment' END,
+            'lines', v_lines
+        )
+    )
+    RETURNING * INTO v_payment;
+
+    -- Apply the breakdown to the installments
+    UPDATE installments i
+    SET amount_paid = COALESCE(i.amount_paid, 0) + a.installment_part,
+        penalty_paid = COALESCE(i.penalty_paid, 0) + a.penalty_part,
+        status = CASE
+            WHEN COALESCE(i.amount_paid, 0) + a.installment_part >= i.amount_due + COALESCE(i.stacked_amount, 0) - COALESCE(i.written_off_amount, 0) - 0.01 THEN 'Paid'
+            WHEN COALESCE(i.amount_paid, 0) + a.installment_part > 0 THEN 'Partial'
+            ELSE i.status
+        END::installment_status,
+        paid_date = CASE
+            WHEN i.status <> 'Paid'
+            AND COALESCE(i.amount_paid, 0) + a.installment_part >= i.amount_due + COALESCE(i.stacked_amount, 0) - COALESCE(i.written_off_amount, 0) - 0.01
+            THEN COALESCE(p_payment_date, CURRENT_DATE)
+            ELSE i.paid_date
+        END,
+        updated_at = NOW()
+    FROM (
+        SELECT
+            (l->>'installment_id')::UUID AS installment_id,
+            COALESCE(SUM((l->>'amount')::DECIMAL(15, 2)) FILTER (WHERE l->>'kind' = 'installment'), 0) AS installment_part,
+            COALESCE(SUM((l->>'amount')::DECIMAL(15, 2)) FILTER (WHERE l->>'kind' = 'penalty'), 0) AS penalty_part
+        FROM jsonb_array_elements(v_lines) l
+        GROUP BY 1
+    ) a
+    WHERE i.id = a.installment_id;
+
+    IF NOT EXISTS (SELECT 1 FROM installments WHERE sale_id = p_sale_id AND status <> 'Paid') THEN
+        UPDATE sales SET status = 'Completed', updated_at = NOW() WHERE id = p_sale_id;
+    END IF;
+
+    RETURN v_payment;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION allocate_payment(UUID, DECIMAL, UUID, DATE, VARCHAR, TEXT) TO authenticated;
+
+-- ============================================
+-- STEP 3: Rebuild installments from the payments ledger
+-- ============================================
+-- amount_paid / penalty_paid come from the allocation of each payment; older
+-- payments without allocation count for their installment_id ('Penalty' rows
+-- for the penalty). stacked_amount is cleared: overdue amounts are no longer
+-- moved between installments, allocation covers the oldest first.
+CREATE OR REPLACE FUNCTION rebuild_installment_ledger(p_sale_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    IF NOT validate_user_permission('edit_sales') THEN
+        RAISE EXCEPTION 'ليس لديك صلاحية تعديل المبيعات';
+    END IF;
+
+    WITH ledger AS (
+        SELECT
+            (l->>'installment_id')::UUID AS installment_id,
+            CASE WHEN l->>'kind' = 'installment' THEN (l->>'amount')::DECIMAL(15, 2) ELSE 0 END AS installment_part,
+            CASE WHEN l->>'kind' = 'penalty' THEN (l->>'amount')::DECIMAL(15, 2) ELSE 0 END AS penalty_part,
+            p.payment_date
+        FROM payments p
+        CROSS JOIN LATERAL jsonb_array_elements(p.allocation->'lines') l
+        WHERE p.sale_id = p_sale_id
+        AND p.allocation IS NOT NULL
+        UNION ALL
+        SELECT
+            p.installment_id,
+            CASE WHEN p.payment_type = 'Installment' THEN p.amount_paid ELSE 0 END,
+            CASE WHEN p.payment_type = 'Penalty' THEN p.amount_paid ELSE 0 END,
+            p.payment_date
+        FROM payments p
+        WHERE p.sale_id = p_sale_id
+        AND p.allocation IS NULL
+        AND p.installment_id IS NOT NULL
+        AND p.payment_type IN ('Installment', 'Penalty')
+    ),
+    totals AS (
+        SELECT
+            i.id,
+            COALESCE(SUM(l.installment_part), 0) AS paid,
+            COALESCE(SUM(l.penalty_part), 0) AS penalty_paid,
+            MAX(l.payment_date) FILTER (WHERE l.installment_part > 0) AS last_paid
+        FROM installments i
+        LEFT JOIN ledger l ON l.installment_id = i.id
+        WHERE i.sale_id = p_sale_id
+        GROUP BY i.id
+    )
+    UPDATE installments i
+    SET amount_paid = t.paid,
+        penalty_paid = t.penalty_paid,
+        stacked_amount = 0,
+        status = CASE
+            WHEN t.paid >= i.amount_due - COALESCE(i.written_off_amount, 0) - 0.01 THEN 'Paid'
+            WHEN t.paid > 0 THEN 'Partial'
+            WHEN i.due_date < CURRENT_DATE THEN 'Late'
+            ELSE 'Unpaid'
+        END::installment_status,
+        paid_date = CASE WHEN t.paid >= i.amount_due - COALESCE(i.written_off_amount, 0) - 0.01 THEN t.last_paid ELSE NULL END,
+        updated_at = NOW()
+    FROM totals t
+    WHERE i.id = t.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION rebuild_installment_ledger(UUID) TO authenticated;
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE table_name = 'payments'
+AND column_name = 'allocation';
+
+SELECT routine_name
+FROM information_schema.routines
+WHERE routine_schema = 'public'
+AND routine_name IN ('allocate_payment', 'rebuild_installment_ledger');
@@ -0,0 +1,229 @@
+-- ============================================
+-- PAYMENT RECEIPTS WITH SEQUENTIAL NUMBERING
+-- Migration: Numbered receipt for every row written to payments
+-- ============================================
+-- Purpose: Every payment (advances, installments, Refund, InitialPayment, ...)
+--          gets a receipt with a gap-free, never reused number.
+--          - The number comes from a single locked counter row, in the same
+--            transaction as the payment insert: a rolled back payment rolls back
+--            its number too, so no gaps.
+--          - The receipt keeps a snapshot (client, amount, method, staff member) and
+--            is only voided, never deleted, when its payment is deleted
+--            (including through delete_sale_completely), so numbers are never reused.
+-- Run this in Supabase SQL Editor
+-- Dependencies: Requires payments table (supabase_schema.sql)
+-- ============================================
+
+-- ============================================
+-- STEP 1: Create receipt counter
+-- ============================================
+CREATE TABLE IF NOT EXISTS receipt_counters (
+    name VARCHAR(50) PRIMARY KEY,
+    last_number BIGINT NOT NULL DEFAULT 0,
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+INSERT INTO receipt_counters (name, last_number)
+VALUES ('payment_receipts', 0)
+ON CONFLICT (name) DO NOTHING;
+
+-- ============================================
+-- STEP 2: Create payment_receipts table
+-- ============================================
+CREATE TABLE IF NOT EXISTS payment_receipts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    receipt_number BIGINT NOT NULL UNIQUE,
+    payment_id UUID UNIQUE REFERENCES payments(id) ON DELETE SET NULL,
+    client_id UUID REFERENCES clients(id) ON DELETE SET NULL,
+    sale_id UUID REFERENCES sales(id) ON DELETE SET NULL,
+    installment_id UUID REFERENCES installments(id) ON DELETE SET NULL,
+    -- Snapshot so the receipt can be reprinted after the payment or sale is deleted
+    client_name VARCHAR(255),
+    client_cin VARCHAR(50),
+    amount DECIMAL(15, 2) NOT NULL,
+    payment_type payment_record_type NOT NULL,
+    payment_method VARCHAR(50),
+    payment_date DATE NOT NULL,
+    recorded_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    recorded_by_name VARCHAR(255),
+    is_voided BOOLEAN NOT NULL DEFAULT FALSE,
+    voided_at TIMESTAMPTZ,
+    void_reason TEXT,
+    print_count INTEGER NOT NULL DEFAULT 0,
+    last_printed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_receipts_client ON payment_receipts(client_id);
+CREATE INDEX IF NOT EXISTS idx_payment_receipts_sale ON payment_receipts(sale_id);
+CREATE INDEX IF NOT EXISTS idx_payment_receipts_date ON payment_receipts(payment_date);
+
+COMMENT ON TABLE payment_receipts IS 'One numbered receipt per payment. Rows are voided, never deleted, so numbers are never reused';
+
+-- ============================================
+-- STEP 3: Numbering function
+-- ============================================
+-- The UPDATE locks the counter row until the transaction ends, so concurrent
+-- payments are numbered one after the other.
+CREATE OR REPLACE FUNCTION next_receipt_number()
+RETURNS BIGINT AS $$
+DECLARE
+    v_number BIGINT;
+BEGIN
+    UPDATE receipt_counters
+    SET last_number = last_number + 1, updated_at = NOW()
+    WHERE name = 'payment_receipts'
+    RETURNING last_number INTO v_number;
+
+    IF v_number IS NULL THEN
+        RAISE EXCEPTION 'receipt_counters row payment_receipts is missing';
+    END IF;
+
+    RETURN v_number;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the receipt triggers (SECURITY DEFINER) may take numbers: a direct RPC
+-- call would burn one and leave a gap in the sequence
+REVOKE EXECUTE ON FUNCTION next_receipt_number() FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- STEP 4: Receipt triggers on payments
+-- ============================================
+CREATE OR REPLACE FUNCTION create_payment_receipt()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO payment_receipts (
+        receipt_number, payment_id, client_id, sale_id, installment_id,
+        client_name, client_cin, amount, payment_type, payment_method,
+        payment_date, recorded_by, recorded_by_name
+    )
+    SELECT
+        next_receipt_number(), NEW.id, NEW.client_id, NEW.sale_id, NEW.installment_id,
+        c.name, c.cin, NEW.amount_paid, NEW.payment_type, NEW.payment_method,
+        NEW.payment_date, NEW.recorded_by, u.name
+    FROM (SELECT 1) AS one
+    LEFT JOIN clients c ON c.id = NEW.client_id
+    LEFT JOIN users u ON u.id = NEW.recorded_by;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Keep the snapshot in line with corrections made to the payment
+CREATE OR REPLACE FUNCTION sync_payment_receipt()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE payment_receipts
+    SET
+        sale_id = NEW.sale_id,
+        installment_id = NEW.installment_id,
+        amount = NEW.amount_paid,
+        payment_type = NEW.payment_type,
+        payment_method = NEW.payment_method,
+        payment_date = NEW.payment_date
+    WHERE payment_id = NEW.id
+    AND is_voided = FALSE;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Void instead of delete: the number stays used
+CREATE OR REPLACE FUNCTION void_payment_receipt()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE payment_receipts
+    SET is_voided = TRUE, voided_at = NOW(), void_reason = 'Payment deleted'
+    WHERE payment_id = OLD.id
+    AND is_voided = FALSE;
+
+    RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS create_payment_receipt_trigger ON payments;
+CREATE TRIGGER create_payment_receipt_trigger AFTER INSERT ON payments
+    FOR EACH ROW EXECUTE FUNCTION create_payment_receipt();
+
+DROP TRIGGER IF EXISTS sync_payment_receipt_trigger ON payments;
+CREATE TRIGGER sync_payment_receipt_trigger AFTER UPDATE ON payments
+    FOR EACH ROW
+    WHEN (
+        OLD.amount_paid IS DISTINCT FROM NEW.amount_paid
+        OR OLD.sale_id IS DISTINCT FROM NEW.sale_id
+        OR OLD.installment_id IS DISTINCT FROM NEW.installment_id
+        OR OLD.payment_type IS DISTINCT FROM NEW.payment_type
+        OR OLD.payment_method IS DISTINCT FROM NEW.payment_method
+        OR OLD.payment_date IS DISTINCT FROM NEW.payment_date
+    )
+    EXECUTE FUNCTION sync_payment_receipt();
+
+DROP TRIGGER IF EXISTS void_payment_receipt_trigger ON payments;
+CREATE TRIGGER void_payment_receipt_trigger BEFORE DELETE ON payments
+    FOR EACH ROW EXECUTE FUNCTION void_payment_receipt();
+
+-- ============================================
+-- STEP 5: Reprint tracking
+-- ============================================
+CREATE OR REPLACE FUNCTION mark_receipt_printed(p_receipt_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE payment_receipts
+    SET print_count = print_count + 1, last_printed_at = NOW()
+    WHERE id = p_receipt_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION mark_receipt_printed(UUID) TO authenticated;
+
+-- ============================================
+-- STEP 6: Number existing payments (oldest first)
+-- ============================================
+DO $$
+DECLARE
+    v_payment RECORD;
+BEGIN
+    FOR v_payment IN
+        SELECT p.id
+        FROM payments p
+        WHERE NOT EXISTS (SELECT 1 FROM payment_receipts r WHERE r.payment_id = p.id)
+        ORDER BY p.created_at ASC, p.id ASC
+    LOOP
+        INSERT INTO payment_receipts (
+            receipt_number, payment_id, client_id, sale_id, installment_id,
+            client_name, client_cin, amount, payment_type, payment_method,
+            payment_date, recorded_by, recorded_by_name, created_at
+        )
+        SELECT
+            next_receipt_number(), p.id, p.client_id, p.sale_id, p.installment_id,
+            c.name, c.cin, p.amount_paid, p.payment_type, p.payment_method,
+            p.payment_date, p.recorded_by, u.name, p.created_at
+        FROM payments p
+        LEFT JOIN clients c ON c.id = p.client_id
+        LEFT JOIN users u ON u.id = p.recorded_by
+        WHERE p.id = v_payment.id;
+    END LOOP;
+END $$;
+
+-- ============================================
+-- STEP 7: Enable RLS
+-- ============================================
+ALTER TABLE receipt_counters ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_receipts ENABLE ROW LEVEL SECURITY;
+
+-- Receipts are written only by the triggers above (SECURITY DEFINER).
+-- No INSERT/UPDATE/DELETE policies: numbers cannot be edited or removed from the app.
+DROP POLICY IF EXISTS "Payment receipts are viewable by authenticated users" ON payment_receipts;
+CREATE POLICY "Payment receipts are viewable by authenticated users"
+    ON payment_receipts FOR SELECT
+    TO authenticated
+    USING (true);
+
+-- =====================================================
+-- VERIFICATION
+-- =====================================================
+SELECT
+    (SELECT last_number FROM receipt_counters WHERE name = 'payment_receipts') AS last_receipt_number,
+    (SELECT COUNT(*) FROM payment_receipts) AS receipts,
+    (SELECT COUNT(*) FROM payments) AS payments;
@@ -0,0 +1,336 @@
+-- ============================================
+-- PAYMENT REMINDERS
+-- Migration: Add reminder templates, rules and a per-client send log
+-- ============================================
+-- Purpose: Reminds clients of their installments by SMS or WhatsApp.
+--          Templates hold the message text in Arabic and French, with placeholders
+--          for the client's phone, the amount due and the piece number(s).
+--          Rules say when a reminder goes out: N days before the due date, on the
+--          due date, or M days after it. get_due_reminders() lists what has to be
+--          sent on a given day; the send-reminders Edge Function renders, sends
+--          through the configured provider and records every attempt in
+--          reminder_log, which also prevents sending the same reminder twice.
+-- Run this in Supabase SQL Editor
+-- Dependencies: Requires clients, sales, installments and land_pieces (supabase_schema.sql)
+-- ============================================
+
+-- ============================================
+-- STEP 1: Create ENUMs
+-- ============================================
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'reminder_channel') THEN
+        CREATE TYPE reminder_channel AS ENUM ('SMS', 'WhatsApp');
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'reminder_trigger_type') THEN
+        CREATE TYPE reminder_trigger_type AS ENUM ('BeforeDue', 'OnDue', 'AfterDue');
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'reminder_log_status') THEN
+        CREATE TYPE reminder_log_status AS ENUM ('Sent', 'Failed', 'Logged');
+    END IF;
+END $$;
+
+-- ============================================
+-- STEP 2: Client language
+-- ============================================
+-- Language the client reads reminders in
+ALTER TABLE clients
+ADD COLUMN IF NOT EXISTS preferred_language VARCHAR(2) NOT NULL DEFAULT 'ar'
+    CHECK (preferred_language IN ('ar', 'fr'));
+
+-- ============================================
+-- STEP 3: Create reminder_templates table
+-- ============================================
+CREATE TABLE IF NOT EXISTS reminder_templates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(255) NOT NULL,
+    language VARCHAR(2) NOT NULL CHECK (language IN ('ar', 'fr')),
+    body TEXT NOT NULL, -- With placeholders such as {client_name}, {amount}, {piece_numbers}
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON TABLE reminder_templates IS 'Reminder message texts, rendered by the send-reminders Edge Function';
+COMMENT ON COLUMN reminder_templates.body IS 'Placeholders: {client_name} {phone} {amount} {due_date} {piece_numbers} {installment_number} {days}';
+
+-- ============================================
+-- STEP 4: Create reminder_rules table
+-- ============================================
+CREATE TABLE IF NOT EXISTS reminder_rules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(255) NOT NULL,
+    trigger_type reminder_trigger_type NOT NULL,
+    days INTEGER NOT NULL DEFAULT 0 CHECK (days >= 0), -- Days before (BeforeDue) or after (AfterDue) the due date
+    channel reminder_channel NOT NULL DEFAULT 'SMS',
+    template_ar_id UUID REFERENCES reminder_templates(id) ON DELETE SET NULL,
+    template_fr_id UUID REFERENCES reminder_templates(id) ON DELETE SET NULL,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CHECK (template_ar_id IS NOT NULL OR template_fr_id IS NOT NULL)
+);
+
+COMMENT ON TABLE reminder_rules IS 'When reminders are sent, relative to the installment due date';
+COMMENT ON COLUMN reminder_rules.days IS 'Ignored for OnDue';
+
+-- ============================================
+-- STEP 5: Create reminder_log table
+-- ============================================
+-- One row per reminder sent (or attempted) so staff can see what each client received
+CREATE TABLE IF NOT EXISTS reminder_log (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+    sale_id UUID REFERENCES sales(id) ON DELETE SET NULL,
+    installment_id UUID REFERENCES installments(id) ON DELETE SET NULL,
+    rule_id UUID REFERENCES reminder_rules(id) ON DELETE SET NULL,
+    channel reminder_channel NOT NULL,
+    language VARCHAR(2) NOT NULL CHECK (language IN ('ar', 'fr')),
+    phone VARCHAR(100) NOT NULL,
+    message TEXT NOT NULL,
+    provider VARCHAR(50) NOT NULL, -- 'log', 'mock', 'http', ...
+    status reminder_log_status NOT NULL,
+    provider_message_id VARCHAR(255),
+    error TEXT,
+    created_by UUID REFERENCES users(id), -- NULL when sent by the scheduled job
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_reminder_log_client ON reminder_log(client_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_reminder_log_sale ON reminder_log(sale_id);
+
+-- A rule reminds an installment once; failed attempts are retried on the next run
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reminder_log_once_per_rule
+    ON reminder_log(installment_id, rule_id) WHERE status <> 'Failed';
+
+-- ============================================
+-- STEP 6: Create function listing reminders due
+-- ============================================
+-- Every (rule, installment) pair whose send date is p_as_of and that has not been
+-- sent yet. The template is picked in the client's language, falling back to the
+-- other language when the rule has none. p_as_of may be a missed day, never a
+-- later one. Only the send-reminders Edge Function (service role) calls it.
+CREATE OR REPLACE FUNCTION get_due_reminders(p_as_of DATE DEFAULT CURRENT_DATE)
+RETURNS TABLE(
+    rule_id UUID,
+    rule_name VARCHAR(255),
+    trigger_type reminder_trigger_type,
+    days INTEGER,
+    channel reminder_channel,
+    installment_id UUID,
+    installment_number INTEGER,
+    due_date DATE,
+    amount_due DECIMAL(15, 2),
+    sale_id UUID,
+    client_id UUID,
+    client_name VARCHAR(255),
+    phone VARCHAR(100),
+    language VARCHAR(2),
+    template_body TEXT,
+    piece_numbers TEXT
+) AS $$
+BEGIN
+    IF p_as_of > CURRENT_DATE THEN
+        RAISE EXCEPTION 'لا يمكن إرسال تذكيرات بتاريخ لاحق';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        r.id,
+        r.name,
+        r.trigger_type,
+        r.days,
+        r.channel,
+        i.id,
+        i.installment_number,
+        i.due_date,
+        ROUND(
+            i.amount_due + COALESCE(i.stacked_amount, 0) - i.amount_paid
+            + GREATEST(COALESCE(i.penalty_amount, 0) - COALESCE(i.penalty_paid, 0), 0),
+            2
+        )::DECIMAL(15, 2),
+        s.id,
+        c.id,
+        c.name::VARCHAR(255),
+        c.phone::VARCHAR(100),
+        t.language,
+        t.body,
+        (
+            SELECT string_agg(lp.piece_number, ', ' ORDER BY lp.piece_number)
+            FROM land_pieces lp
+            WHERE lp.id = ANY(s.land_piece_ids)
+        )
+    FROM reminder_rules r
+    CROSS JOIN installments i
+    JOIN sales s ON s.id = i.sale_id
+    JOIN clients c ON c.id = s.client_id
+    JOIN reminder_templates t ON t.id = CASE
+        WHEN c.preferred_language = 'fr' THEN COALESCE(r.template_fr_id, r.template_ar_id)
+        ELSE COALESCE(r.template_ar_id, r.template_fr_id)
+    END
+    WHERE r.is_active = TRUE
+    AND t.is_active = TRUE
+    AND s.status NOT IN ('Cancelled', 'Completed')
+    AND i.status <> 'Paid'
+    AND (i.amount_due + COALESCE(i.stacked_amount, 0) - i.amount_paid) > 0.01
+    AND NULLIF(TRIM(c.phone), '') IS NOT NULL
+    AND i.due_date = CASE r.trigger_type
+        WHEN 'BeforeDue' THEN p_as_of + r.days
+        WHEN 'AfterDue' THEN p_as_of - r.days
+        ELSE p_as_of
+    END
+    AND NOT EXISTS (
+        SELECT 1 FROM reminder_log l
+        WHERE l.installment_id = i.id
+        AND l.rule_id = r.id
+        AND l.status <> 'Failed'
+    )
+    ORDER BY c.name, i.due_date;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- STEP 7: Triggers
+-- ============================================
+DROP TRIGGER IF EXISTS update_reminder_templates_updated_at ON reminder_templates;
+CREATE TRIGGER update_reminder_templates_updated_at
+    BEFORE UPDATE ON reminder_templates
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_reminder_rules_updated_at ON reminder_rules;
+CREATE TRIGGER update_reminder_rules_updated_at
+    BEFORE UPDATE ON reminder_rules
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS audit_reminder_templates ON reminder_templates;
+CREATE TRIGGER audit_reminder_templates AFTER INSERT OR UPDATE OR DELETE ON reminder_templates
+    FOR EACH ROW EXECUTE FUNCTION audit_trigger_function();
+
+DROP TRIGGER IF EXISTS audit_reminder_rules ON reminder_rules;
+CREATE TRIGGER audit_reminder_rules AFTER INSERT OR UPDATE OR DELETE ON reminder_rules
+    FOR EACH ROW EXECUTE FUNCTION audit_trigger_function();
+
+-- ============================================
+-- STEP 8: Enable RLS
+-- ============================================
+ALTER TABLE reminder_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reminder_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reminder_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Reminder templates are viewable by authenticated users" ON reminder_templates;
+CREATE POLICY "Reminder templates are viewable by authenticated users"
+    ON reminder_templates FOR SELECT
+    TO authenticated
+    USING (true);
+
+DROP POLICY IF EXISTS "Owners can manage reminder templates" ON reminder_templates;
+CREATE POLICY "Owners can manage reminder templates"
+    ON reminder_templates FOR ALL
+    TO authenticated
+    USING (get_user_role() = 'Owner')
+    WITH CHECK (get_user_role() = 'Owner');
+
+DROP POLICY IF EXISTS "Reminder rules are viewable by authenticated users" ON reminder_rules;
+CREATE POLICY "Reminder rules are viewable by authenticated users"
+    ON reminder_rules FOR SELECT
+    TO authenticated
+    USING (true);
+
+DROP POLICY IF EXISTS "Owners can manage reminder rules" ON reminder_rules;
+CREATE POLICY "Owners can manage reminder rules"
+    ON reminder_rules FOR ALL
+    TO authenticated
+    USING (get_user_role() = 'Owner')
+    WITH CHECK (get_user_role() = 'Owner');
+
+-- The log is written by the send-reminders Edge Function (service role)
+DROP POLICY IF EXISTS "Reminder log is viewable by authenticated users" ON reminder_log;
+CREATE POLICY "Reminder log is viewable by authenticated users"
+    ON reminder_log FOR SELECT
+    TO authenticated
+    USING (true);
+
+REVOKE EXECUTE ON FUNCTION get_due_reminders(DATE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_due_reminders(DATE) TO service_role;
+
+-- ============================================
+-- STEP 9: Default templates and rules
+-- ============================================
+DO $$
+DECLARE
+    v_before_ar UUID;
+    v_before_fr UUID;
+    v_due_ar UUID;
+    v_due_fr UUID;
+    v_late_ar UUID;
+    v_late_fr UUID;
+BEGIN
+    IF EXISTS (SELECT 1 FROM reminder_templates) THEN
+        RETURN;
+    END IF;
+
+    INSERT INTO reminder_templates (name, language, body) VALUES
+        ('تذكير قبل الاستحقاق', 'ar', 'مرحباً {client_name}، نذكركم بأن القسط رقم {installment_number} للقطعة {piece_numbers} بمبلغ {amount} يحل أجله يوم {due_date}.')
+        RETURNING id INTO v_before_ar;
+    INSERT INTO reminder_templates (name, language, body) VALUES
+        ('Rappel avant échéance', 'fr', 'Bonjour {client_name}, nous vous rappelons que l''échéance n° {installment_number} du lot {piece_numbers} d''un montant de {amount} est due le {due_date}.')
+        RETURNING id INTO v_before_fr;
+    INSERT INTO reminder_templates (name, language, body) VALUES
+        ('تذكير يوم الاستحقاق', 'ar', 'مرحباً {client_name}، اليوم {due_date} هو أجل القسط رقم {installment_number} للقطعة {piece_numbers} بمبلغ {amount}.')
+        RETURNING id INTO v_due_ar;
+    INSERT INTO reminder_templates (name, language, body) VALUES
+        ('Rappel jour d''échéance', 'fr', 'Bonjour {client_name}, l''échéance n° {installment_number} du lot {piece_numbers} d''un montant de {amount} est due aujourd''hui {due_date}.')
+        RETURNING id INTO v_due_fr;
+    INSERT INTO reminder_templates (name, language, body) VALUES
+        ('تذكير بالتأخير', 'ar', 'مرحباً {client_name}، القسط رقم {installment_number} للقطعة {piece_numbers} متأخر منذ {days} يوم. المبلغ المطلوب: {amount}. نرجو تسويته في أقرب الآجال.')
+        RETURNING id INTO v_late_ar;
+    INSERT INTO reminder_templates (name, language, body) VALUES
+        ('Rappel de retard', 'fr', 'Bonjour {client_name}, l''échéance n° {installment_number} du lot {piece_numbers} est en retard de {days} jours. Montant dû : {amount}. Merci de la régler dans les meilleurs délais.')
+        RETURNING id INTO v_late_fr;
+
+    INSERT INTO reminder_rules (name, trigger_type, days, template_ar_id, template_fr_id) VALUES
+        ('3 أيام قبل الاستحقاق', 'BeforeDue', 3, v_before_ar, v_before_fr),
+        ('يوم الاستحقاق', 'OnDue', 0, v_due_ar, v_due_fr),
+        ('7 أيام بعد الاستحقاق', 'AfterDue', 7, v_late_ar, v_late_fr);
+END $$;
+
+-- ============================================
+-- STEP 10: Schedule the job
+-- ============================================
+-- Reminders are sent by the send-reminders Edge Function. Set its secrets first:
+--   REMINDER_PROVIDER     'log' (default, nothing is sent), 'mock' or 'http'
+--   REMINDER_HTTP_URL     gateway endpoint when REMINDER_PROVIDER = 'http'
+--   REMINDER_HTTP_TOKEN   bearer token for the gateway (optional)
+--   REMINDER_CRON_SECRET  shared secret for the scheduled call below
+--
+-- With pg_cron and pg_net:
+-- CREATE EXTENSION IF NOT EXISTS pg_cron;
+-- CREATE EXTENSION IF NOT EXISTS pg_net;
+-- SELECT cron.schedule(
+--     'send-payment-reminders-daily',
+--     '0 9 * * *', -- Every day at 09:00
+--     $$SELECT net.http_post(
+--         url := 'https://<project-ref>.supabase.co/functions/v1/send-reminders',
+--         headers := '{"Content-Type": "application/json", "x-cron-secret": "<REMINDER_CRON_SECRET>"}'::jsonb,
+--         body := '{}'::jsonb
+--     );$$
+-- );
+--
+-- Preview what would be sent today:
+-- SELECT * FROM get_due_reminders();
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+SELECT
+    r.name,
+    r.trigger_type,
+    r.days,
+    r.channel,
+    r.is_active
+FROM reminder_rules r
+ORDER BY r.trigger_type, r.days;
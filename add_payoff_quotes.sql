@@ -0,0 +1,352 @@
+-- ============================================
+-- EARLY PAYOFF QUOTES
+-- Migration: Quote and settle the remaining balance of an installment sale
+-- ============================================
+-- Purpose: Clients ask how much to pay today to settle their land.
+--          create_payoff_quote() freezes the figures of a quote:
+--          - Remaining principal = what is still owed on the open installments
+--          - Optional discount on that principal (percentage or fixed amount)
+--          - Late penalties not yet collected on any installment of the sale,
+--            paid ones included, added or waived
+--          - The date until which the quote is valid
+--          A discount or a penalty waiver is given by the Owner only, who is
+--          recorded as its approver.
+--          accept_payoff_quote() records the payment (allocation stored as in
+--          allocate_payment), closes every open installment as Paid and
+--          completes the sale. The discount and the waived penalties are
+--          recorded as installment_write_offs rows and added up on the
+--          installments (written_off_amount / penalty_written_off); amount_due
+--          and penalty_amount keep the schedule and the penalties charged.
+-- Run this in Supabase SQL Editor
+-- Dependencies: Requires supabase_schema.sql, add_late_payment_penalties.sql,
+--               add_payment_allocation.sql and add_server_side_permission_validation.sql
+-- ============================================
+
+-- ============================================
+-- STEP 1: Create payoff_quotes table
+-- ============================================
+CREATE TABLE IF NOT EXISTS payoff_quotes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    sale_id UUID NOT NULL REFERENCES sales(id) ON DELETE CASCADE,
+    client_id UUID NOT NULL REFERENCES clients(id) ON DELETE RESTRICT,
+    remaining_principal DECIMAL(15, 2) NOT NULL CHECK (remaining_principal >= 0),
+    outstanding_penalties DECIMAL(15, 2) NOT NULL DEFAULT 0,
+    waive_penalties BOOLEAN NOT NULL DEFAULT FALSE,
+    discount_type VARCHAR(20) NOT NULL DEFAULT 'None' CHECK (discount_type IN ('None', 'Percentage', 'Fixed')),
+    discount_value DECIMAL(15, 2) NOT NULL DEFAULT 0 CHECK (discount_value >= 0), -- Percent (Percentage) or amount (Fixed)
+    discount_amount DECIMAL(15, 2) NOT NULL DEFAULT 0 CHECK (discount_amount >= 0),
+    payoff_amount DECIMAL(15, 2) NOT NULL CHECK (payoff_amount >= 0), -- To pay to settle the sale
+    valid_until DATE NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'Pending' CHECK (status IN ('Pending', 'Accepted', 'Cancelled')),
+    payment_id UUID REFERENCES payments(id) ON DELETE SET NULL,
+    created_by UUID REFERENCES users(id),
+    approved_by UUID REFERENCES users(id), -- Owner who granted the discount / waiver
+    approved_at TIMESTAMPTZ,
+    accepted_by UUID REFERENCES users(id),
+    accepted_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE payoff_quotes ADD COLUMN IF NOT EXISTS approved_by UUID REFERENCES users(id);
+ALTER TABLE payoff_quotes ADD COLUMN IF NOT EXISTS approved_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_payoff_quotes_sale ON payoff_quotes(sale_id);
+CREATE INDEX IF NOT EXISTS idx_payoff_quotes_pending ON payoff_quotes(valid_until) WHERE status = 'Pending';
+
+COMMENT ON TABLE payoff_quotes IS 'Early payoff quotes of installment sales (create_payoff_quote / accept_payoff_quote)';
+
+-- ============================================
+-- STEP 2: Create installment_write_offs table
+-- ============================================
+CREATE TABLE IF NOT EXISTS installment_write_offs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    installment_id UUID NOT NULL REFERENCES installments(id) ON DELETE CASCADE,
+    sale_id UUID NOT NULL REFERENCES sales(id) ON DELETE CASCADE,
+    payoff_quote_id UUID REFERENCES payoff_quotes(id) ON DELETE SET NULL,
+    kind VARCHAR(20) NOT NULL CHECK (kind IN ('Discount', 'PenaltyWaiver')),
+    amount DECIMAL(15, 2) NOT NULL CHECK (amount > 0),
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_installment_write_offs_installment ON installment_write_offs(installment_id);
+CREATE INDEX IF NOT EXISTS idx_installment_write_offs_sale ON installment_write_offs(sale_id);
+
+COMMENT ON TABLE installment_write_offs IS 'Amounts given up on installments (payoff discounts, waived penalties)';
+
+-- ============================================
+-- STEP 3: Create a quote
+-- ============================================
+CREATE OR REPLACE FUNCTION create_payoff_quote(
+    p_sale_id UUID,
+    p_valid_until DATE,
+    p_discount_type VARCHAR(20) DEFAULT 'None',
+    p_discount_value DECIMAL(15, 2) DEFAULT 0,
+    p_waive_penalties BOOLEAN DEFAULT FALSE
+)
+RETURNS payoff_quotes AS $$
+DECLARE
+    v_sale RECORD;
+    v_principal DECIMAL(15, 2);
+    v_penalties DECIMAL(15, 2);
+    v_discount DECIMAL(15, 2);
+    v_concession BOOLEAN;
+    v_quote payoff_quotes;
+BEGIN
+    IF NOT validate_user_permission('record_payments') THEN
+        RAISE EXCEPTION 'ليس لديك صلاحية لتسجيل المدفوعات';
+    END IF;
+
+    IF p_valid_until IS NULL OR p_valid_until < CURRENT_DATE THEN
+        RAISE EXCEPTION 'تاريخ صلاحية العرض يجب أن يكون اليوم أو بعده';
+    END IF;
+
+    IF COALESCE(p_discount_type, 'None') NOT IN ('None', 'Percentage', 'Fixed') THEN
+        RAISE EXCEPTION 'نوع الخصم غير صالح';
+    END IF;
+
+    IF COALESCE(p_discount_value, 0) < 0 OR (p_discount_type = 'Percentage' AND p_discount_value > 100) THEN
+        RAISE EXCEPTION 'قيمة الخصم غير صالحة';
+    END IF;
+
+    SELECT * INTO v_sale FROM sales WHERE id = p_sale_id;
+
+    IF v_sale IS NULL THEN
+        RAISE EXCEPTION 'البيع غير موجود';
+    END IF;
+
+    IF v_sale.status = 'Cancelled' THEN
+        RAISE EXCEPTION 'لا يمكن إصدار عرض سداد لبيع ملغى';
+    END IF;
+
+    -- Same totals as calculatePayoffQuote() in frontend/src/lib/payoffQuote.ts;
+    -- penalties left on installments already Paid are owed too
+    SELECT
+        COALESCE(SUM(GREATEST(amount_due + COALESCE(stacked_amount, 0) - COALESCE(amount_paid, 0) - COALESCE(written_off_amount, 0), 0))
+            FILTER (WHERE status <> 'Paid'), 0),
+        COALESCE(SUM(GREATEST(COALESCE(penalty_amount, 0) - COALESCE(penalty_paid, 0) - COALESCE(penalty_written_off, 0), 0)), 0)
+    INTO v_principal, v_penalties
+    FROM installments
+    WHERE sale_id = p_sale_id;
+
+    IF v_principal <= 0 THEN
+        RAISE EXCEPTION 'لا يوجد رصيد متبقي على هذا البيع';
+    END IF;
+
+    v_discount := CASE COALESCE(p_discount_type, 'None')
+        WHEN 'Percentage' THEN ROUND(v_principal * p_discount_value / 100, 2)
+        WHEN 'Fixed' THEN LEAST(COALESCE(p_discount_value, 0), v_principal)
+        ELSE 0
+    END;
+
+    -- Money given up by the company needs the Owner
+    v_concession := v_discount > 0 OR (COALESCE(p_waive_penalties, FALSE) AND v_penalties > 0);
+
+    IF v_concession AND get_user_role() IS DISTINCT FROM 'Owner' THEN
+        RAISE EXCEPTION 'الخصم أو الإعفاء من الغرامات يتطلب موافقة المالك';
+    END IF;
+
+    INSERT INTO payoff_quotes (
+        sale_id, client_id, remaining_principal, outstanding_penalties, waive_penalties,
+        discount_type, discount_value, discount_amount, payoff_amount, valid_until, created_by,
+        approved_by, approved_at
+    ) VALUES (
+        p_sale_id, v_sale.client_id, v_principal, v_penalties, COALESCE(p_waive_penalties, FALSE),
+        COALESCE(p_discount_type, 'None'), COALESCE(p_discount_value, 0), v_discount,
+        v_principal - v_discount + CASE WHEN COALESCE(p_waive_penalties, FALSE) THEN 0 ELSE v_penalties END,
+        p_valid_until, auth.uid(),
+        CASE WHEN v_concession THEN auth.uid() END,
+        CASE WHEN v_concession THEN NOW() END
+    )
+    RETURNING * INTO v_quote;
+
+    RETURN v_quote;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION create_payoff_quote(UUID, DATE, VARCHAR, DECIMAL, BOOLEAN) TO authenticated;
+
+-- ============================================
+-- STEP 4: Accept a quote (client pays the payoff amount)
+-- ============================================
+CREATE OR REPLACE FUNCTION accept_payoff_quote(
+    p_quote_id UUID,
+    p_payment_method VARCHAR(50) DEFAULT 'Cash'
+)
+RETURNS payoff_quotes AS $$
+DECLARE
+    v_quote payoff_quotes;
+    v_inst RECORD;
+    v_principal DECIMAL(15, 2);
+    v_penalties DECIMAL(15, 2);
+    v_cash_left DECIMAL(15, 2);
+    v_open DECIMAL(15, 2);
+    v_part DECIMAL(15, 2);
+    v_open_penalty DECIMAL(15, 2);
+    v_penalty_part DECIMAL(15, 2);
+    v_lines JSONB := '[]'::JSONB;
+    v_payment_id UUID;
+BEGIN
+    IF NOT validate_user_permission('record_payments') THEN
+        RAISE EXCEPTION 'ليس لديك صلاحية لتسجيل المدفوعات';
+    END IF;
+
+    SELECT * INTO v_quote FROM payoff_quotes WHERE id = p_quote_id FOR UPDATE;
+
+    IF v_quote IS NULL THEN
+        RAISE EXCEPTION 'عرض السداد غير موجود';
+    END IF;
+
+    IF v_quote.status <> 'Pending' THEN
+        RAISE EXCEPTION 'عرض السداد لم يعد قائماً';
+    END IF;
+
+    IF v_quote.valid_until < CURRENT_DATE THEN
+        RAISE EXCEPTION 'انتهت صلاحية عرض السداد (%)، يرجى إصدار عرض جديد', v_quote.valid_until;
+    END IF;
+
+    -- Quotes issued before approvals were recorded
+    IF (v_quote.discount_amount > 0 OR (v_quote.waive_penalties AND v_quote.outstanding_penalties > 0))
+       AND v_quote.approved_by IS NULL THEN
+        RAISE EXCEPTION 'الخصم أو الإعفاء في هذا العرض غير معتمد من المالك، يرجى إصدار عرض جديد';
+    END IF;
+
+    PERFORM 1 FROM sales WHERE id = v_quote.sale_id AND status <> 'Cancelled' FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'البيع ملغى أو غير موجود';
+    END IF;
+
+    SELECT
+        COALESCE(SUM(GREATEST(amount_due + COALESCE(stacked_amount, 0) - COALESCE(amount_paid, 0) - COALESCE(written_off_amount, 0), 0))
+            FILTER (WHERE status <> 'Paid'), 0),
+        COALESCE(SUM(GREATEST(COALESCE(penalty_amount, 0) - COALESCE(penalty_paid, 0) - COALESCE(penalty_written_off, 0), 0)), 0)
+    INTO v_principal, v_penalties
+    FROM installments
+    WHERE sale_id = v_quote.sale_id;
+
+    IF ABS(v_principal - v_quote.remaining_principal) > 0.01
+       OR ABS(v_penalties - v_quote.outstanding_penalties) > 0.01 THEN
+        RAISE EXCEPTION 'تغير رصيد البيع منذ إصدار العرض، يرجى إصدار عرض جديد';
+    END IF;
+
+    -- Cash for the installments; the discount is written off on the last ones
+    v_cash_left := v_quote.remaining_principal - v_quote.discount_amount;
+
+    FOR v_inst IN
+        SELECT *
+        FROM installments
+        WHERE sale_id = v_quote.sale_id
+        AND (
+            status <> 'Paid'
+            OR COALESCE(penalty_amount, 0) - COALESCE(penalty_paid, 0) - COALESCE(penalty_written_off, 0) > 0
+        )
+        ORDER BY installment_number
+        FOR UPDATE
+    LOOP
+        v_open := CASE WHEN v_inst.status = 'Paid' THEN 0
+            ELSE GREATEST(v_inst.amount_due + COALESCE(v_inst.stacked_amount, 0) - COALESCE(v_inst.amount_paid, 0) - COALESCE(v_inst.written_off_amount, 0), 0) END;
+        v_open_penalty := GREATEST(COALESCE(v_inst.penalty_amount, 0) - COALESCE(v_inst.penalty_paid, 0) - COALESCE(v_inst.penalty_written_off, 0), 0);
+        v_penalty_part := CASE WHEN v_quote.waive_penalties THEN 0 ELSE v_open_penalty END;
+        v_part := LEAST(v_cash_left, v_open);
+        v_cash_left := v_cash_left - v_part;
+
+        IF v_penalty_part > 0 THEN
+            v_lines := v_lines || jsonb_build_object('installment_id', v_inst.id, 'installment_number', v_inst.installment_number, 'kind', 'penalty', 'amount', v_penalty_part);
+        END IF;
+        IF v_part > 0 THEN
+            v_lines := v_lines || jsonb_build_object('installment_id', v_inst.id, 'installment_number', v_inst.installment_number, 'kind', 'installment', 'amount', v_part);
+        END IF;
+
+        IF v_open - v_part > 0 THEN
+            INSERT INTO installment_write_offs (installment_id, sale_id, payoff_quote_id, kind, amount, created_by)
+            VALUES (v_inst.id, v_quote.sale_id, v_quote.id, 'Discount', v_open - v_part, auth.uid());
+        END IF;
+        IF v_open_penalty - v_penalty_part > 0 THEN
+            INSERT INTO installment_write_offs (installment_id, sale_id, payoff_quote_id, kind, amount, created_by)
+            VALUES (v_inst.id, v_quote.sale_id, v_quote.id, 'PenaltyWaiver', v_open_penalty - v_penalty_part, auth.uid());
+        END IF;
+
+        UPDATE installments
+        SET amount_paid = COALESCE(amount_paid, 0) + v_part,
+            written_off_amount = COALESCE(written_off_amount, 0) + v_open - v_part,
+            penalty_paid = COALESCE(penalty_paid, 0) + v_penalty_part,
+            penalty_written_off = COALESCE(penalty_written_off, 0) + v_open_penalty - v_penalty_part,
+            status = 'Paid',
+            paid_date = CASE WHEN status = 'Paid' THEN paid_date ELSE CURRENT_DATE END,
+            notes = CONCAT_WS(E'\n', NULLIF(notes, ''), 'سداد مبكر'),
+            updated_at = NOW()
+        WHERE id = v_inst.id;
+    END LOOP;
+
+    IF v_quote.payoff_amount > 0 THEN
+        INSERT INTO payments (
+            client_id, sale_id, installment_id, amount_paid, payment_type,
+            payment_date, payment_method, notes, recorded_by, allocation
+        ) VALUES (
+            v_quote.client_id, v_quote.sale_id, (v_lines->0->>'installment_id')::UUID,
+            v_quote.payoff_amount, 'Installment',
+            CURRENT_DATE, COALESCE(p_payment_method, 'Cash'),
+            'سداد مبكر' || CASE WHEN v_quote.discount_amount > 0 THEN ' - خصم ' || v_quote.discount_amount ELSE '' END,
+            auth.uid(),
+            jsonb_build_object('mode', 'payoff', 'quote_id', v_quote.id, 'discount', v_quote.discount_amount, 'lines', v_lines)
+        )
+        RETURNING id INTO v_payment_id;
+    END IF;
+
+    UPDATE sales
+    SET status = 'Completed', updated_at = NOW()
+    WHERE id = v_quote.sale_id;
+
+    -- Other open quotes of the sale no longer apply
+    UPDATE payoff_quotes
+    SET status = 'Cancelled'
+    WHERE sale_id = v_quote.sale_id
+    AND status = 'Pending'
+    AND id <> v_quote.id;
+
+    UPDATE payoff_quotes
+    SET status = 'Accepted',
+        payment_id = v_payment_id,
+        accepted_by = auth.uid(),
+        accepted_at = NOW()
+    WHERE id = v_quote.id
+    RETURNING * INTO v_quote;
+
+    RETURN v_quote;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION accept_payoff_quote(UUID, VARCHAR) TO authenticated;
+
+-- ============================================
+-- STEP 5: Enable RLS
+-- ============================================
+ALTER TABLE payoff_quotes ENABLE ROW LEVEL SECURITY;
+
+-- Both written only by the functions above (SECURITY DEFINER)
+DROP POLICY IF EXISTS "Payoff quotes are viewable by authenticated users" ON payoff_quotes;
+CREATE POLICY "Payoff quotes are viewable by authenticated users"
+    ON payoff_quotes FOR SELECT
+    TO authenticated
+    USING (true);
+
+ALTER TABLE installment_write_offs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Installment write-offs are viewable by authenticated users" ON installment_write_offs;
+CREATE POLICY "Installment write-offs are viewable by authenticated users"
+    ON installment_write_offs FOR SELECT
+    TO authenticated
+    USING (true);
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+SELECT routine_name
+FROM information_schema.routines
+WHERE routine_schema = 'public'
+AND routine_name IN ('create_payoff_quote', 'accept_payoff_quote');
+
+SELECT table_name
+FROM information_schema.tables
+WHERE table_schema = 'public'
+AND table_name IN ('payoff_quotes', 'installment_write_offs');
@@ -0,0 +1,480 @@
+-- ============================================
+-- RESERVATION WORKFLOW
+-- Migration: Create, extend, cancel and convert reservations, with history
+-- ============================================
+-- Purpose: Reservations go through the reservations table instead of editing
+--          land_pieces.reserved_until directly:
+--          - create_reservation(): several pieces for one client, small advance
+--            recorded as a SmallAdvance payment linked to the reservation
+--          - extend_reservation() / cancel_reservation(): with a required reason
+--          - convert_reservation_to_sale(): Pending sale with the advance
+--            carried over (small_advance_amount and the advance payment)
+--          - Expiry stays in run_status_transitions() (add_status_transition_job.sql),
+--            which marks the reservation Expired and frees its pieces
+--          - Every change is kept in reservation_history, like sales_history
+-- Run this in Supabase SQL Editor
+-- Dependencies: Requires supabase_schema.sql, add_deadline_to_sales.sql,
+--               add_promise_of_sale_payment_type.sql, add_status_transition_job.sql
+--               and add_server_side_permission_validation.sql
+-- ============================================
+
+-- ============================================
+-- STEP 1: Reservation columns
+-- ============================================
+ALTER TABLE reservations
+ADD COLUMN IF NOT EXISTS cancellation_reason TEXT,
+ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS cancelled_by UUID REFERENCES users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS sale_id UUID REFERENCES sales(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS extension_count INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN reservations.sale_id IS 'Sale created by convert_reservation_to_sale() (status Confirmed)';
+COMMENT ON COLUMN reservations.extension_count IS 'Number of times reserved_until was pushed back';
+
+CREATE INDEX IF NOT EXISTS idx_reservations_piece_ids ON reservations USING GIN (land_piece_ids);
+CREATE INDEX IF NOT EXISTS idx_reservations_sale ON reservations(sale_id) WHERE sale_id IS NOT NULL;
+
+-- ============================================
+-- STEP 2: Create reservation_history table
+-- ============================================
+CREATE TABLE IF NOT EXISTS reservation_history (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    reservation_id UUID NOT NULL REFERENCES reservations(id) ON DELETE CASCADE,
+    changed_by UUID REFERENCES users(id),
+    change_type TEXT NOT NULL CHECK (change_type IN ('created', 'extended', 'cancelled', 'converted', 'expired', 'updated')),
+
+    old_status TEXT,
+    new_status TEXT,
+    old_reserved_until DATE,
+    new_reserved_until DATE,
+    old_small_advance_amount DECIMAL(15, 2),
+    new_small_advance_amount DECIMAL(15, 2),
+
+    reason TEXT,
+    change_description TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_reservation_history_reservation_id ON reservation_history(reservation_id);
+CREATE INDEX IF NOT EXISTS idx_reservation_history_created_at ON reservation_history(created_at DESC);
+
+ALTER TABLE reservation_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view reservation history" ON reservation_history;
+DROP POLICY IF EXISTS "No one can delete reservation history" ON reservation_history;
+
+CREATE POLICY "Users can view reservation history"
+    ON reservation_history FOR SELECT
+    TO authenticated
+    USING (true);
+
+-- History is only written by the trigger below (SECURITY DEFINER)
+CREATE POLICY "No one can delete reservation history"
+    ON reservation_history FOR DELETE
+    USING (false);
+
+-- ============================================
+-- STEP 3: History trigger
+-- ============================================
+-- The extension reason is passed by extend_reservation() through the
+-- transaction-local setting app.reservation_reason.
+CREATE OR REPLACE FUNCTION log_reservation_change()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_change_type TEXT;
+    v_description TEXT;
+    v_reason TEXT;
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        v_change_type := 'created';
+        v_description := format('تم إنشاء الحجز لـ %s قطعة', COALESCE(array_length(NEW.land_piece_ids, 1), 0));
+    ELSIF OLD.status IS DISTINCT FROM NEW.status AND NEW.status = 'Cancelled' THEN
+        v_change_type := 'cancelled';
+        v_description := 'تم إلغاء الحجز';
+        v_reason := NEW.cancellation_reason;
+    ELSIF OLD.status IS DISTINCT FROM NEW.status AND NEW.status = 'Expired' THEN
+        v_change_type := 'expired';
+        v_description := 'انتهت صلاحية الحجز وتم تحرير القطع';
+    ELSIF OLD.status IS DISTINCT FROM NEW.status AND NEW.status = 'Confirmed' THEN
+        v_change_type := 'converted';
+        v_description := 'تم تحويل الحجز إلى بيع';
+    ELSIF OLD.reserved_until IS DISTINCT FROM NEW.reserved_until THEN
+        v_change_type := 'extended';
+        v_description := format('تم تمديد الحجز من %s إلى %s', OLD.reserved_until, NEW.reserved_until);
+        v_reason := NULLIF(current_setting('app.reservation_reason', true), '');
+    ELSIF OLD.status IS DISTINCT FROM NEW.status
+       OR OLD.small_advance_amount IS DISTINCT FROM NEW.small_advance_amount
+       OR OLD.notes IS DISTINCT FROM NEW.notes THEN
+        v_change_type := 'updated';
+        v_description := 'تم تحديث الحجز';
+    ELSE
+        -- Bookkeeping only (updated_at, ...)
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO reservation_history (
+        reservation_id,
+        changed_by,
+        change_type,
+        old_status,
+        new_status,
+        old_reserved_until,
+        new_reserved_until,
+        old_small_advance_amount,
+        new_small_advance_amount,
+        reason,
+        change_description
+    ) VALUES (
+        NEW.id,
+        COALESCE(auth.uid(), CASE WHEN TG_OP = 'INSERT' THEN NEW.created_by END),
+        v_change_type,
+        CASE WHEN TG_OP = 'UPDATE' THEN OLD.status::TEXT END,
+        NEW.status::TEXT,
+        CASE WHEN TG_OP = 'UPDATE' THEN OLD.reserved_until END,
+        NEW.reserved_until,
+        CASE WHEN TG_OP = 'UPDATE' THEN OLD.small_advance_amount END,
+        NEW.small_advance_amount,
+        v_reason,
+        v_description
+    );
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_log_reservation_change ON reservations;
+CREATE TRIGGER trigger_log_reservation_change
+    AFTER INSERT OR UPDATE ON reservations
+    FOR EACH ROW
+    EXECUTE FUNCTION log_reservation_change();
+
+-- ============================================
+-- STEP 4: Create reservation
+-- ============================================
+-- All pieces are locked and must be Available, so two workers cannot
+-- reserve the same piece.
+CREATE OR REPLACE FUNCTION create_reservation(
+    p_client_id UUID,
+    p_land_piece_ids UUID[],
+    p_small_advance_amount DECIMAL(15, 2),
+    p_reserved_until DATE,
+    p_payment_method VARCHAR(50) DEFAULT 'Cash',
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+    v_reservation_id UUID;
+    v_unavailable TEXT;
+    v_found INTEGER;
+BEGIN
+    IF NOT validate_user_permission('create_sales') THEN
+        RAISE EXCEPTION 'ليس لديك صلاحية إنشاء الحجوزات';
+    END IF;
+
+    IF p_land_piece_ids IS NULL OR array_length(p_land_piece_ids, 1) IS NULL THEN
+        RAISE EXCEPTION 'يجب اختيار قطعة واحدة على الأقل';
+    END IF;
+
+    IF COALESCE(p_small_advance_amount, 0) < 0 THEN
+        RAISE EXCEPTION 'مبلغ العربون لا يمكن أن يكون سالباً';
+    END IF;
+
+    IF p_reserved_until IS NULL OR p_reserved_until < CURRENT_DATE THEN
+        RAISE EXCEPTION 'تاريخ انتهاء الحجز يجب أن يكون اليوم أو بعده';
+    END IF;
+
+    PERFORM 1 FROM land_pieces WHERE id = ANY(p_land_piece_ids) ORDER BY id FOR UPDATE;
+
+    SELECT COUNT(*) INTO v_found FROM land_pieces WHERE id = ANY(p_land_piece_ids);
+    IF v_found <> array_length(p_land_piece_ids, 1) THEN
+        RAISE EXCEPTION 'بعض القطع المختارة غير موجودة';
+    END IF;
+
+    SELECT string_agg('#' || piece_number, ', ' ORDER BY piece_number) INTO v_unavailable
+    FROM land_pieces
+    WHERE id = ANY(p_land_piece_ids)
+    AND status <> 'Available';
+
+    IF v_unavailable IS NOT NULL THEN
+        RAISE EXCEPTION 'القطع التالية لم تعد متاحة: %', v_unavailable;
+    END IF;
+
+    INSERT INTO reservations (
+        client_id, land_piece_ids, small_advance_amount, reservation_date,
+        reserved_until, status, notes, created_by
+    ) VALUES (
+        p_client_id, p_land_piece_ids, COALESCE(p_small_advance_amount, 0), CURRENT_DATE,
+        p_reserved_until, 'Pending', p_notes, auth.uid()
+    )
+    RETURNING id INTO v_reservation_id;
+
+    UPDATE land_pieces
+    SET status = 'Reserved',
+        reservation_client_id = p_client_id,
+        reserved_until = p_reserved_until,
+        updated_at = NOW()
+    WHERE id = ANY(p_land_piece_ids);
+
+    IF COALESCE(p_small_advance_amount, 0) > 0 THEN
+        INSERT INTO payments (
+            client_id, reservation_id, amount_paid, payment_type,
+            payment_date, payment_method, notes, recorded_by
+        ) VALUES (
+            p_client_id, v_reservation_id, p_small_advance_amount, 'SmallAdvance',
+            CURRENT_DATE, COALESCE(p_payment_method, 'Cash'), 'عربون حجز', auth.uid()
+        );
+    END IF;
+
+    RETURN v_reservation_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- STEP 5: Extend reservation
+-- ============================================
+CREATE OR REPLACE FUNCTION extend_reservation(
+    p_reservation_id UUID,
+    p_reserved_until DATE,
+    p_reason TEXT
+)
+RETURNS VOID AS $$
+DECLARE
+    v_reservation RECORD;
+BEGIN
+    IF NOT validate_user_permission('edit_sales') THEN
+        RAISE EXCEPTION 'ليس لديك صلاحية تعديل الحجوزات';
+    END IF;
+
+    IF NULLIF(TRIM(COALESCE(p_reason, '')), '') IS NULL THEN
+        RAISE EXCEPTION 'يرجى إدخال سبب التمديد';
+    END IF;
+
+    SELECT * INTO v_reservation FROM reservations WHERE id = p_reservation_id FOR UPDATE;
+
+    IF v_reservation IS NULL THEN
+        RAISE EXCEPTION 'الحجز غير موجود';
+    END IF;
+
+    IF v_reservation.status <> 'Pending' THEN
+        RAISE EXCEPTION 'لا يمكن تمديد حجز غير نشط';
+    END IF;
+
+    IF p_reserved_until IS NULL OR p_reserved_until <= v_reservation.reserved_until THEN
+        RAISE EXCEPTION 'التاريخ الجديد يجب أن يكون بعد %', v_reservation.reserved_until;
+    END IF;
+
+    PERFORM set_config('app.reservation_reason', TRIM(p_reason), true);
+
+    UPDATE reservations
+    SET reserved_until = p_reserved_until,
+        extension_count = extension_count + 1,
+        updated_at = NOW()
+    WHERE id = p_reservation_id;
+
+    UPDATE land_pieces
+    SET reserved_until = p_reserved_until, updated_at = NOW()
+    WHERE id = ANY(v_reservation.land_piece_ids)
+    AND status = 'Reserved';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- STEP 6: Cancel reservation
+-- ============================================
+-- The advance payment is kept; refunding it is recorded separately.
+CREATE OR REPLACE FUNCTION cancel_reservation(
+    p_reservation_id UUID,
+    p_reason TEXT
+)
+RETURNS VOID AS $$
+DECLARE
+    v_reservation RECORD;
+BEGIN
+    IF NOT validate_user_permission('edit_sales') THEN
+        RAISE EXCEPTION 'ليس لديك صلاحية إلغاء الحجوزات';
+    END IF;
+
+    IF NULLIF(TRIM(COALESCE(p_reason, '')), '') IS NULL THEN
+        RAISE EXCEPTION 'يرجى إدخال سبب الإلغاء';
+    END IF;
+
+    SELECT * INTO v_reservation FROM reservations WHERE id = p_reservation_id FOR UPDATE;
+
+    IF v_reservation IS NULL THEN
+        RAISE EXCEPTION 'الحجز غير موجود';
+    END IF;
+
+    IF v_reservation.status <> 'Pending' THEN
+        RAISE EXCEPTION 'لا يمكن إلغاء حجز غير نشط';
+    END IF;
+
+    UPDATE reservations
+    SET status = 'Cancelled',
+        cancellation_reason = TRIM(p_reason),
+        cancelled_at = NOW(),
+        cancelled_by = auth.uid(),
+        updated_at = NOW()
+    WHERE id = p_reservation_id;
+
+    -- Free the pieces unless a sale holds them
+    UPDATE land_pieces lp
+    SET status = 'Available', reservation_client_id = NULL, reserved_until = NULL, updated_at = NOW()
+    WHERE lp.id = ANY(v_reservation.land_piece_ids)
+    AND lp.status = 'Reserved'
+    AND NOT EXISTS (
+        SELECT 1 FROM sales s
+        WHERE lp.id = ANY(s.land_piece_ids)
+        AND s.status <> 'Cancelled'
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- STEP 7: Convert reservation to sale
+-- ============================================
+-- Creates the same Pending sale as the land page: the offer plan, installments
+-- and remaining advance are completed on the sale confirmation page.
+-- The reservation advance becomes the sale's small_advance_amount and its
+-- SmallAdvance payment is attached to the sale.
+CREATE OR REPLACE FUNCTION convert_reservation_to_sale(
+    p_reservation_id UUID,
+    p_payment_type payment_type,
+    p_deadline_date DATE,
+    p_selected_offer_id UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+    v_reservation RECORD;
+    v_offer RECORD;
+    v_sale_id UUID;
+    v_total_cost DECIMAL(15, 2);
+    v_total_price DECIMAL(15, 2);
+    v_fee_percentage DECIMAL(5, 2);
+    v_fee_amount DECIMAL(15, 2);
+BEGIN
+    IF NOT validate_user_permission('create_sales') THEN
+        RAISE EXCEPTION 'ليس لديك صلاحية إنشاء المبيعات';
+    END IF;
+
+    IF p_deadline_date IS NULL THEN
+        RAISE EXCEPTION 'يرجى إدخال آخر أجل لإتمام الإجراءات';
+    END IF;
+
+    SELECT * INTO v_reservation FROM reservations WHERE id = p_reservation_id FOR UPDATE;
+
+    IF v_reservation IS NULL THEN
+        RAISE EXCEPTION 'الحجز غير موجود';
+    END IF;
+
+    IF v_reservation.status <> 'Pending' THEN
+        RAISE EXCEPTION 'لا يمكن تحويل حجز غير نشط إلى بيع';
+    END IF;
+
+    PERFORM 1 FROM land_pieces WHERE id = ANY(v_reservation.land_piece_ids) ORDER BY id FOR UPDATE;
+
+    IF EXISTS (
+        SELECT 1 FROM sales s
+        WHERE s.land_piece_ids && v_reservation.land_piece_ids
+        AND s.status <> 'Cancelled'
+    ) THEN
+        RAISE EXCEPTION 'بعض قطع هذا الحجز مرتبطة ببيع آخر';
+    END IF;
+
+    IF p_selected_offer_id IS NOT NULL THEN
+        SELECT * INTO v_offer FROM payment_offers WHERE id = p_selected_offer_id;
+    END IF;
+
+    SELECT
+        COALESCE(SUM(lp.purchase_cost), 0),
+        COALESCE(SUM(
+            CASE
+                WHEN p_payment_type = 'Installment' AND v_offer.price_per_m2_installment IS NOT NULL
+                    THEN lp.surface_area * v_offer.price_per_m2_installment
+                WHEN p_payment_type = 'Installment'
+                    THEN COALESCE(NULLIF(lp.selling_price_installment, 0), lp.selling_price_full)
+                ELSE lp.selling_price_full
+            END
+        ), 0)
+    INTO v_total_cost, v_total_price
+    FROM land_pieces lp
+    WHERE lp.id = ANY(v_reservation.land_piece_ids);
+
+    v_total_price := ROUND(v_total_price, 2);
+
+    IF v_total_price <= 0 THEN
+        RAISE EXCEPTION 'يرجى التأكد من أن القطع المحجوزة لها أسعار محددة';
+    END IF;
+
+    -- Company fee of the batch for Full and PromiseOfSale, as on the land page
+    IF p_payment_type <> 'Installment' THEN
+        SELECT lb.company_fee_percentage_full INTO v_fee_percentage
+        FROM land_pieces lp
+        JOIN land_batches lb ON lb.id = lp.land_batch_id
+        WHERE lp.id = v_reservation.land_piece_ids[1];
+
+        IF COALESCE(v_fee_percentage, 0) > 0 THEN
+            v_fee_amount := ROUND(v_total_price * v_fee_percentage / 100, 2);
+        ELSE
+            v_fee_percentage := NULL;
+        END IF;
+    END IF;
+
+    IF v_reservation.small_advance_amount > v_total_price + COALESCE(v_fee_amount, 0) THEN
+        RAISE EXCEPTION 'مبلغ العربون أكبر من المبلغ الإجمالي المستحق';
+    END IF;
+
+    INSERT INTO sales (
+        client_id, land_piece_ids, reservation_id, payment_type,
+        total_purchase_cost, total_selling_price, profit_margin,
+        small_advance_amount, big_advance_amount,
+        company_fee_percentage, company_fee_amount, selected_offer_id,
+        deadline_date, promise_initial_payment, promise_completion_date, promise_completed,
+        status, sale_date, created_by
+    ) VALUES (
+        v_reservation.client_id, v_reservation.land_piece_ids, v_reservation.id, p_payment_type,
+        v_total_cost, v_total_price, v_total_price - v_total_cost,
+        v_reservation.small_advance_amount, 0,
+        v_fee_percentage, v_fee_amount,
+        CASE WHEN p_payment_type = 'Installment' THEN p_selected_offer_id END,
+        p_deadline_date,
+        CASE WHEN p_payment_type = 'PromiseOfSale' THEN 0 END,
+        CASE WHEN p_payment_type = 'PromiseOfSale' THEN p_deadline_date END,
+        CASE WHEN p_payment_type = 'PromiseOfSale' THEN FALSE END,
+        'Pending', CURRENT_DATE, auth.uid()
+    )
+    RETURNING id INTO v_sale_id;
+
+    -- Carry the advance over to the sale
+    UPDATE payments
+    SET sale_id = v_sale_id, updated_at = NOW()
+    WHERE reservation_id = v_reservation.id
+    AND sale_id IS NULL;
+
+    UPDATE reservations
+    SET status = 'Confirmed', sale_id = v_sale_id, updated_at = NOW()
+    WHERE id = v_reservation.id;
+
+    UPDATE land_pieces
+    SET status = 'Reserved',
+        reservation_client_id = v_reservation.client_id,
+        reserved_until = NULL,
+        updated_at = NOW()
+    WHERE id = ANY(v_reservation.land_piece_ids);
+
+    RETURN v_sale_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION create_reservation(UUID, UUID[], DECIMAL, DATE, VARCHAR, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION extend_reservation(UUID, DATE, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_reservation(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION convert_reservation_to_sale(UUID, payment_type, DATE, UUID) TO authenticated;
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+SELECT routine_name
+FROM information_schema.routines
+WHERE routine_schema = 'public'
+AND routine_name IN ('create_reservation', 'extend_reservation', 'cancel_reservation', 'convert_reservation_to_sale', 'log_reservation_change')
+ORDER BY routine_name;
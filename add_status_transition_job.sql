@@ -0,0 +1,224 @@
+-- ============================================
+-- AUTOMATIC STATUS TRANSITIONS
+-- Migration: Scheduled job for late installments, expired reservations
+--            and overdue promise-of-sale deadlines
+-- ============================================
+-- Purpose: Moves records to their time-based status on the server instead of
+--          only working it out on screen when a page loads:
+--          - installments past due and not fully paid -> 'Late'
+--          - reservations past reserved_until -> 'Expired', pieces freed to 'Available'
+--          - land pieces reserved past reserved_until with no active sale -> 'Available'
+--          - PromiseOfSale sales past promise_completion_date -> promise_overdue = TRUE
+--          Every change is written to audit_logs with action 'AUTO_STATUS_CHANGE'.
+-- Run this in Supabase SQL Editor
+-- Dependencies: Requires supabase_schema.sql and add_promise_of_sale_payment_type.sql
+-- ============================================
+
+-- ============================================
+-- STEP 1: Flag column for overdue promise-of-sale deadlines
+-- ============================================
+ALTER TABLE sales
+ADD COLUMN IF NOT EXISTS promise_overdue BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN sales.promise_overdue IS 'Set by run_status_transitions() when promise_completion_date has passed and the promise is not completed';
+
+CREATE INDEX IF NOT EXISTS idx_installments_status_due_date ON installments(status, due_date);
+CREATE INDEX IF NOT EXISTS idx_reservations_reserved_until ON reservations(reserved_until) WHERE status = 'Pending';
+
+-- ============================================
+-- STEP 2: Create transition function
+-- ============================================
+-- Idempotent: only rows whose status actually changes are touched and logged,
+-- so it can run as often as needed.
+-- Always runs as of today: a caller-chosen date would let anyone expire
+-- reservations, free pieces and mark installments Late ahead of time.
+DROP FUNCTION IF EXISTS run_status_transitions(DATE);
+
+CREATE OR REPLACE FUNCTION run_status_transitions()
+RETURNS TABLE(
+    entity VARCHAR(100),
+    changed_record_id UUID,
+    old_status TEXT,
+    new_status TEXT
+) AS $$
+DECLARE
+    v_row RECORD;
+    v_piece_id UUID;
+    v_as_of DATE := CURRENT_DATE;
+BEGIN
+    -- 1. Installments past due with an outstanding balance
+    FOR v_row IN
+        SELECT i.id, i.status
+        FROM installments i
+        JOIN sales s ON s.id = i.sale_id
+        WHERE i.status IN ('Unpaid', 'Partial')
+        AND i.due_date < v_as_of
+        AND (i.amount_due + COALESCE(i.stacked_amount, 0) - i.amount_paid) > 0.01
+        AND s.status NOT IN ('Cancelled', 'Completed')
+        FOR UPDATE OF i
+    LOOP
+        UPDATE installments SET status = 'Late', updated_at = NOW() WHERE id = v_row.id;
+
+        INSERT INTO audit_logs (user_id, action, table_name, record_id, old_values, new_values)
+        VALUES (
+            NULL, 'AUTO_STATUS_CHANGE', 'installments', v_row.id,
+            jsonb_build_object('status', v_row.status),
+            jsonb_build_object('status', 'Late', 'as_of', v_as_of)
+        );
+
+        RETURN QUERY SELECT 'installments'::VARCHAR(100), v_row.id, v_row.status::TEXT, 'Late'::TEXT;
+    END LOOP;
+
+    -- 2. Reservations past their end date
+    FOR v_row IN
+        SELECT r.id, r.status, r.land_piece_ids
+        FROM reservations r
+        WHERE r.status = 'Pending'
+        AND r.reserved_until < v_as_of
+        FOR UPDATE OF r
+    LOOP
+        UPDATE reservations SET status = 'Expired', updated_at = NOW() WHERE id = v_row.id;
+
+        INSERT INTO audit_logs (user_id, action, table_name, record_id, old_values, new_values)
+        VALUES (
+            NULL, 'AUTO_STATUS_CHANGE', 'reservations', v_row.id,
+            jsonb_build_object('status', v_row.status),
+            jsonb_build_object('status', 'Expired', 'as_of', v_as_of)
+        );
+
+        RETURN QUERY SELECT 'reservations'::VARCHAR(100), v_row.id, v_row.status::TEXT, 'Expired'::TEXT;
+
+        -- Free the pieces unless another sale or reservation still holds them
+        FOREACH v_piece_id IN ARRAY COALESCE(v_row.land_piece_ids, ARRAY[]::UUID[])
+        LOOP
+            IF EXISTS (
+                SELECT 1 FROM land_pieces lp
+                WHERE lp.id = v_piece_id
+                AND lp.status = 'Reserved'
+            )
+            AND NOT EXISTS (
+                SELECT 1 FROM sales s
+                WHERE v_piece_id = ANY(s.land_piece_ids)
+                AND s.status <> 'Cancelled'
+            )
+            AND NOT EXISTS (
+                SELECT 1 FROM reservations r2
+                WHERE v_piece_id = ANY(r2.land_piece_ids)
+                AND r2.id <> v_row.id
+                AND r2.status IN ('Pending', 'Confirmed')
+                AND r2.reserved_until >= v_as_of
+            ) THEN
+                UPDATE land_pieces
+                SET status = 'Available', reservation_client_id = NULL, reserved_until = NULL, updated_at = NOW()
+                WHERE id = v_piece_id;
+
+                INSERT INTO audit_logs (user_id, action, table_name, record_id, old_values, new_values)
+                VALUES (
+                    NULL, 'AUTO_STATUS_CHANGE', 'land_pieces', v_piece_id,
+                    jsonb_build_object('status', 'Reserved'),
+                    jsonb_build_object('status', 'Available', 'as_of', v_as_of, 'reservation_id', v_row.id)
+                );
+
+                RETURN QUERY SELECT 'land_pieces'::VARCHAR(100), v_piece_id, 'Reserved'::TEXT, 'Available'::TEXT;
+            END IF;
+        END LOOP;
+    END LOOP;
+
+    -- 3. Pieces reserved directly on land_pieces (reserved_until) with nothing holding them
+    FOR v_row IN
+        SELECT lp.id, lp.reserved_until
+        FROM land_pieces lp
+        WHERE lp.status = 'Reserved'
+        AND lp.reserved_until IS NOT NULL
+        AND lp.reserved_until < v_as_of
+        AND NOT EXISTS (
+            SELECT 1 FROM sales s
+            WHERE lp.id = ANY(s.land_piece_ids)
+            AND s.status <> 'Cancelled'
+        )
+        AND NOT EXISTS (
+            SELECT 1 FROM reservations r
+            WHERE lp.id = ANY(r.land_piece_ids)
+            AND r.status IN ('Pending', 'Confirmed')
+            AND r.reserved_until >= v_as_of
+        )
+        FOR UPDATE OF lp
+    LOOP
+        UPDATE land_pieces
+        SET status = 'Available', reservation_client_id = NULL, reserved_until = NULL, updated_at = NOW()
+        WHERE id = v_row.id;
+
+        INSERT INTO audit_logs (user_id, action, table_name, record_id, old_values, new_values)
+        VALUES (
+            NULL, 'AUTO_STATUS_CHANGE', 'land_pieces', v_row.id,
+            jsonb_build_object('status', 'Reserved', 'reserved_until', v_row.reserved_until),
+            jsonb_build_object('status', 'Available', 'as_of', v_as_of)
+        );
+
+        RETURN QUERY SELECT 'land_pieces'::VARCHAR(100), v_row.id, 'Reserved'::TEXT, 'Available'::TEXT;
+    END LOOP;
+
+    -- 4. Promise-of-sale deadlines that passed without completion
+    FOR v_row IN
+        SELECT s.id, s.promise_completion_date
+        FROM sales s
+        WHERE s.payment_type = 'PromiseOfSale'
+        AND s.status NOT IN ('Cancelled', 'Completed')
+        AND COALESCE(s.promise_completed, FALSE) = FALSE
+        AND s.promise_completion_date IS NOT NULL
+        AND s.promise_completion_date < v_as_of
+        AND s.promise_overdue = FALSE
+        FOR UPDATE OF s
+    LOOP
+        UPDATE sales SET promise_overdue = TRUE, updated_at = NOW() WHERE id = v_row.id;
+
+        INSERT INTO audit_logs (user_id, action, table_name, record_id, old_values, new_values)
+        VALUES (
+            NULL, 'AUTO_STATUS_CHANGE', 'sales', v_row.id,
+            jsonb_build_object('promise_overdue', FALSE),
+            jsonb_build_object('promise_overdue', TRUE, 'promise_completion_date', v_row.promise_completion_date, 'as_of', v_as_of)
+        );
+
+        RETURN QUERY SELECT 'sales'::VARCHAR(100), v_row.id, 'PromisePending'::TEXT, 'PromiseOverdue'::TEXT;
+    END LOOP;
+
+    -- Clear the flag when the deadline was moved or the promise was completed
+    UPDATE sales
+    SET promise_overdue = FALSE, updated_at = NOW()
+    WHERE promise_overdue = TRUE
+    AND (
+        COALESCE(promise_completed, FALSE) = TRUE
+        OR status IN ('Cancelled', 'Completed')
+        OR promise_completion_date IS NULL
+        OR promise_completion_date >= v_as_of
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION run_status_transitions() TO authenticated;
+
+-- ============================================
+-- STEP 3: Schedule the job
+-- ============================================
+-- Same options as SETUP_RECURRING_EXPENSES_CRON.sql. With pg_cron:
+-- CREATE EXTENSION IF NOT EXISTS pg_cron;
+-- SELECT cron.schedule(
+--     'run-status-transitions-daily',
+--     '5 0 * * *', -- Every day at 00:05, before apply_late_penalties()
+--     $$SELECT run_status_transitions();$$
+-- );
+--
+-- Manual run:
+-- SELECT * FROM run_status_transitions();
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+SELECT
+    action,
+    table_name,
+    COUNT(*) AS changes
+FROM audit_logs
+WHERE action = 'AUTO_STATUS_CHANGE'
+GROUP BY action, table_name
+ORDER BY table_name;
@@ -0,0 +1,65 @@
+-- ============================================
+-- CREATE CONTRACT TEMPLATES TABLE
+-- نماذج العقود - Sale contract templates
+-- ============================================
+-- Purpose: Stores the editable sale contract templates, one per payment type
+--          and language (Arabic / French). The body is HTML with {{placeholders}}
+--          filled by the contract generator (frontend/src/lib/contractTemplates.ts).
+--          When no row exists for a payment type/language, the built-in default
+--          template from the frontend is used.
+-- Run this in Supabase SQL Editor
+-- Dependencies: Requires payment_type enum (supabase_schema.sql, add_promise_of_sale_payment_type.sql)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS contract_templates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    payment_type payment_type NOT NULL,
+    language VARCHAR(2) NOT NULL CHECK (language IN ('ar', 'fr')),
+    title VARCHAR(255) NOT NULL,
+    body TEXT NOT NULL, -- HTML with {{placeholders}}
+    updated_by UUID REFERENCES users(id),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (payment_type, language)
+);
+
+-- Add updated_at trigger
+DROP TRIGGER IF EXISTS update_contract_templates_updated_at ON contract_templates;
+CREATE TRIGGER update_contract_templates_updated_at BEFORE UPDATE ON contract_templates
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable RLS
+ALTER TABLE contract_templates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Contract templates are viewable by authenticated users" ON contract_templates;
+DROP POLICY IF EXISTS "Owners can manage contract templates" ON contract_templates;
+
+-- All authenticated users can view templates (needed to print contracts)
+CREATE POLICY "Contract templates are viewable by authenticated users"
+    ON contract_templates FOR SELECT
+    TO authenticated
+    USING (true);
+
+-- Only Owners can create, edit or reset templates
+CREATE POLICY "Owners can manage contract templates"
+    ON contract_templates FOR ALL
+    TO authenticated
+    USING (get_user_role() = 'Owner'::user_role)
+    WITH CHECK (get_user_role() = 'Owner'::user_role);
+
+-- Add audit trigger
+DROP TRIGGER IF EXISTS audit_contract_templates ON contract_templates;
+CREATE TRIGGER audit_contract_templates AFTER INSERT OR UPDATE OR DELETE ON contract_templates
+    FOR EACH ROW EXECUTE FUNCTION audit_trigger_function();
+
+-- =====================================================
+-- VERIFICATION
+-- =====================================================
+SELECT
+    column_name,
+    data_type,
+    is_nullable,
+    column_default
+FROM information_schema.columns
+WHERE table_name = 'contract_templates'
+ORDER BY ordinal_position;
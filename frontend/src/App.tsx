@@ -10,12 +10,20 @@ import { SalesNew as Sales } from '@/pages/SalesNew'
 import { SaleConfirmation } from '@/pages/SaleConfirmation'
 import { SaleManagement } from '@/pages/SaleManagement'
 import { Installments } from '@/pages/Installments'
+import { Reservations } from '@/pages/Reservations'
 import { Financial } from '@/pages/FinancialNew'
 import { Users } from '@/pages/Users'
 import { UserPermissions } from '@/pages/UserPermissions'
 import { Security } from '@/pages/Security'
 import { Home } from '@/pages/Home'
 import { Debts } from '@/pages/Debts'
+import { Cheques } from '@/pages/Cheques'
+import { BankReconciliation } from '@/pages/BankReconciliation'
+import { GeneralLedger } from '@/pages/GeneralLedger'
+import { CashRegister } from '@/pages/CashRegister'
+import { BatchProfitability } from '@/pages/BatchProfitability'
+import { CompanyFees } from '@/pages/CompanyFees'
+import { CashFlowForecast } from '@/pages/CashFlowForecast'
 import { Expenses } from '@/pages/Expenses'
 import { RealEstateBuildings } from '@/pages/RealEstateBuildings'
 import { Workers } from '@/pages/Workers'
@@ -195,6 +203,14 @@ function AppRoutes() {
             </PermissionProtectedRoute>
           } 
         />
+        <Route 
+          path="reservations" 
+          element={
+            <PermissionProtectedRoute permission="view_sales" pageId="reservations">
+              <Reservations />
+            </PermissionProtectedRoute>
+          } 
+        />
         <Route 
           path="sale-confirmation" 
           element={
@@ -275,6 +291,62 @@ function AppRoutes() {
             </PermissionProtectedRoute>
           } 
         />
+        <Route 
+          path="cheques" 
+          element={
+            <PermissionProtectedRoute permission="view_financial" pageId="cheques">
+              <Cheques />
+            </PermissionProtectedRoute>
+          } 
+        />
+        <Route 
+          path="bank-reconciliation" 
+          element={
+            <PermissionProtectedRoute permission="view_financial" pageId="bank-reconciliation">
+              <BankReconciliation />
+            </PermissionProtectedRoute>
+          } 
+        />
+        <Route 
+          path="general-ledger" 
+          element={
+            <PermissionProtectedRoute permission="view_financial" pageId="general-ledger">
+              <GeneralLedger />
+            </PermissionProtectedRoute>
+          } 
+        />
+        <Route 
+          path="cash-register" 
+          element={
+            <PermissionProtectedRoute permission={null} pageId="cash-register">
+              <CashRegister />
+            </PermissionProtectedRoute>
+          } 
+        />
+        <Route 
+          path="batch-profitability" 
+          element={
+            <PermissionProtectedRoute permission="view_financial" pageId="batch-profitability">
+              <BatchProfitability />
+            </PermissionProtectedRoute>
+          } 
+        />
+        <Route 
+          path="company-fees" 
+          element={
+            <PermissionProtectedRoute permission="view_financial" pageId="company-fees">
+              <CompanyFees />
+            </PermissionProtectedRoute>
+          } 
+        />
+        <Route 
+          path="cash-flow-forecast" 
+          element={
+            <PermissionProtectedRoute permission="view_financial" pageId="cash-flow-forecast">
+              <CashFlowForecast />
+            </PermissionProtectedRoute>
+          } 
+        />
         <Route 
           path="real-estate-buildings" 
           element={
@@ -0,0 +1,362 @@
+import { useEffect, useMemo, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Select } from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { showNotification } from '@/components/ui/notification'
+import { Upload } from 'lucide-react'
+import { readSpreadsheet, type SpreadsheetData } from '@/lib/spreadsheetReader'
+import {
+  MAX_IMPORT_ROWS,
+  getMissingRequiredFields,
+  guessColumnMapping,
+  type ColumnMapping,
+  type ImportRow,
+} from '@/lib/bulkImport'
+import {
+  BANK_STATEMENT_FIELDS,
+  getMissingAmountColumns,
+  parseOfx,
+  validateStatementRows,
+  type BankStatementInputLine,
+} from '@/lib/bankReconciliation'
+import { sanitizeNotes, sanitizeText } from '@/lib/sanitize'
+import { formatCurrency, formatDate } from '@/lib/utils'
+import type { BankStatement, BankStatementFormat } from '@/types/database'
+
+type WizardStep = 'file' | 'mapping' | 'preview'
+
+interface BankStatementImportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Account of the statement shown on the page, proposed for the next file
+  defaultAccount?: string
+  onImported: (statement: BankStatement) => void
+}
+
+export function BankStatementImportDialog({ open, onOpenChange, defaultAccount, onImported }: BankStatementImportDialogProps) {
+  const [step, setStep] = useState<WizardStep>('file')
+  const [fileName, setFileName] = useState('')
+  const [format, setFormat] = useState<BankStatementFormat>('CSV')
+  const [sheet, setSheet] = useState<SpreadsheetData | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping>({})
+  const [results, setResults] = useState<ImportRow<BankStatementInputLine>[]>([])
+  const [account, setAccount] = useState('')
+  const [notes, setNotes] = useState('')
+  const [skipInvalid, setSkipInvalid] = useState(false)
+  const [reading, setReading] = useState(false)
+  const [importing, setImporting] = useState(false)
+
+  const missingFields = getMissingRequiredFields(BANK_STATEMENT_FIELDS, mapping)
+  const missingAmount = getMissingAmountColumns(mapping)
+  const validRows = useMemo(() => results.filter(r => r.data), [results])
+  const invalidCount = results.length - validRows.length
+  const totals = useMemo(() => validRows.reduce(
+    (sum, row) => {
+      const amount = row.data?.amount || 0
+      return amount > 0 ? { ...sum, credit: sum.credit + amount } : { ...sum, debit: sum.debit - amount }
+    },
+    { credit: 0, debit: 0 }
+  ), [validRows])
+
+  useEffect(() => {
+    if (!open) return
+    setStep('file')
+    setFileName('')
+    setSheet(null)
+    setMapping({})
+    setResults([])
+    setAccount(defaultAccount || '')
+    setNotes('')
+    setSkipInvalid(false)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open])
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    setReading(true)
+    try {
+      const name = file.name.toLowerCase()
+      if (name.endsWith('.ofx') || name.endsWith('.qfx')) {
+        const statement = parseOfx(await file.text())
+        if (statement.lines.length > MAX_IMPORT_ROWS) {
+          throw new Error(`لا يمكن استيراد أكثر من ${MAX_IMPORT_ROWS} عملية في المرة الواحدة`)
+        }
+        setFileName(file.name)
+        setFormat('OFX')
+        setSheet(null)
+        setResults(statement.lines.map(line => ({ rowNumber: line.line_number, data: line, errors: [] })))
+        if (statement.account) setAccount(statement.account)
+        setStep('preview')
+        return
+      }
+
+      const data = await readSpreadsheet(file)
+      if (data.rows.length === 0) {
+        showNotification('الملف لا يحتوي على أي سطر بيانات', 'error')
+        return
+      }
+      if (data.rows.length > MAX_IMPORT_ROWS) {
+        showNotification(`لا يمكن استيراد أكثر من ${MAX_IMPORT_ROWS} سطر في المرة الواحدة`, 'error')
+        return
+      }
+      setFileName(file.name)
+      setFormat(name.endsWith('.xlsx') ? 'XLSX' : 'CSV')
+      setSheet(data)
+      setMapping(guessColumnMapping(BANK_STATEMENT_FIELDS, data.headers))
+      setStep('mapping')
+    } catch (error) {
+      console.error('Error reading bank statement:', error)
+      showNotification('خطأ في قراءة الملف: ' + (error as Error).message, 'error')
+    } finally {
+      setReading(false)
+    }
+  }
+
+  const runPreview = () => {
+    if (!sheet || missingFields.length > 0 || missingAmount) return
+    setResults(validateStatementRows(sheet.rows, sheet.rowNumbers, mapping))
+    setSkipInvalid(false)
+    setStep('preview')
+  }
+
+  const commitImport = async () => {
+    if (importing || validRows.length === 0 || (invalidCount > 0 && !skipInvalid)) return
+    if (!account.trim()) {
+      showNotification('يرجى إدخال الحساب البنكي', 'error')
+      return
+    }
+
+    setImporting(true)
+    try {
+      const { data, error } = await supabase.rpc('import_bank_statement', {
+        p_bank_account: sanitizeText(account),
+        p_file_name: fileName,
+        p_file_format: format,
+        p_lines: validRows.map(r => r.data),
+        p_notes: notes ? sanitizeNotes(notes) : null,
+      })
+      if (error) throw error
+
+      const statement = data as BankStatement
+      showNotification(
+        statement.skipped_count > 0
+          ? `تم استيراد ${statement.line_count} عملية، وتجاهل ${statement.skipped_count} عملية مستوردة سابقاً`
+          : `تم استيراد ${statement.line_count} عملية`,
+        'success'
+      )
+      onOpenChange(false)
+      onImported(statement)
+    } catch (error) {
+      console.error('Error importing bank statement:', error)
+      showNotification('خطأ في الاستيراد، لم يتم حفظ أي سطر: ' + (error as Error).message, 'error')
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[95vw] max-w-3xl max-h-[95vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>استيراد كشف بنكي</DialogTitle>
+        </DialogHeader>
+
+        {step === 'file' && (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              اختر ملف OFX كما يصدره البنك، أو ملف CSV / Excel (XLSX) يحتوي السطر الأول منه على أسماء الأعمدة.
+            </p>
+            <p className="text-xs text-muted-foreground">
+              الأعمدة: {BANK_STATEMENT_FIELDS.map(f => `${f.label}${f.required ? ' *' : ''}`).join('، ')}
+            </p>
+            <div className="flex items-center gap-2">
+              <Input
+                id="bank_statement_file"
+                type="file"
+                accept=".ofx,.qfx,.csv,.xlsx,.txt"
+                onChange={handleFileChange}
+                className="hidden"
+                disabled={reading}
+              />
+              <Label
+                htmlFor="bank_statement_file"
+                className="flex items-center gap-2 px-4 py-2 border rounded-lg cursor-pointer hover:bg-accent transition-colors"
+              >
+                <Upload className="h-4 w-4" />
+                {reading ? 'جاري القراءة...' : 'اختر ملفاً'}
+              </Label>
+            </div>
+          </div>
+        )}
+
+        {step === 'mapping' && sheet && (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              {fileName}: {sheet.rows.length} سطر. اختر العمود المقابل لكل حقل.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {BANK_STATEMENT_FIELDS.map(field => (
+                <div key={field.key}>
+                  <Label className="text-xs sm:text-sm">
+                    {field.label}{field.required ? ' *' : ''}
+                  </Label>
+                  <Select
+                    value={mapping[field.key] ?? ''}
+                    onChange={(e) => setMapping({
+                      ...mapping,
+                      [field.key]: e.target.value === '' ? null : parseInt(e.target.value, 10),
+                    })}
+                  >
+                    <option value="">— بدون —</option>
+                    {sheet.headers.map((header, index) => (
+                      <option key={index} value={index}>
+                        {header}{sheet.rows[0]?.[index] ? ` (${sheet.rows[0][index]})` : ''}
+                      </option>
+                    ))}
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              إما عمود مبلغ واحد (الإيداع موجب والسحب سالب)، أو عمودان منفصلان للدائن والمدين.
+            </p>
+            {(missingFields.length > 0 || missingAmount) && (
+              <p className="text-sm text-red-600">
+                الحقول المطلوبة غير محددة: {[...missingFields.map(f => f.label), ...(missingAmount ? ['المبلغ'] : [])].join('، ')}
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <Badge variant="success">صالح: {validRows.length}</Badge>
+              {invalidCount > 0 && <Badge variant="destructive">به أخطاء: {invalidCount}</Badge>}
+              <span className="text-green-700">إيداعات: {formatCurrency(totals.credit)}</span>
+              <span className="text-red-700">سحوبات: {formatCurrency(totals.debit)}</span>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="bank_statement_account">الحساب البنكي *</Label>
+                <Input
+                  id="bank_statement_account"
+                  value={account}
+                  onChange={(e) => setAccount(e.target.value)}
+                  placeholder="رقم الحساب أو اسم البنك"
+                />
+              </div>
+              <div>
+                <Label htmlFor="bank_statement_notes">ملاحظات</Label>
+                <Input
+                  id="bank_statement_notes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="overflow-x-auto max-h-[45vh]">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-gray-100">
+                    <TableHead>السطر</TableHead>
+                    <TableHead>التاريخ</TableHead>
+                    <TableHead>البيان</TableHead>
+                    <TableHead>المبلغ</TableHead>
+                    <TableHead>الحالة</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {results.map(row => (
+                    <TableRow key={row.rowNumber}>
+                      <TableCell className="text-xs">{row.rowNumber}</TableCell>
+                      <TableCell className="text-xs">{row.data ? formatDate(row.data.transaction_date) : '-'}</TableCell>
+                      <TableCell className="text-xs">
+                        {row.data?.description || '-'}
+                        {row.data?.reference && <span className="text-muted-foreground"> ({row.data.reference})</span>}
+                      </TableCell>
+                      <TableCell className={`text-xs font-medium ${row.data && row.data.amount < 0 ? 'text-red-700' : 'text-green-700'}`}>
+                        {row.data ? formatCurrency(row.data.amount) : '-'}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {row.data ? (
+                          <Badge variant="success">صالح</Badge>
+                        ) : (
+                          <span className="text-red-600">{row.errors.join('، ')}</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            {invalidCount > 0 && validRows.length > 0 && (
+              <div className="flex items-center gap-2">
+                <input
+                  id="bank_statement_skip_invalid"
+                  type="checkbox"
+                  checked={skipInvalid}
+                  onChange={(e) => setSkipInvalid(e.target.checked)}
+                  className="rounded"
+                />
+                <Label htmlFor="bank_statement_skip_invalid" className="text-sm">
+                  تجاهل الأسطر التي بها أخطاء واستيراد الأسطر الصالحة فقط
+                </Label>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={importing}>
+            إلغاء
+          </Button>
+          {step === 'mapping' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('file')}>
+                ملف آخر
+              </Button>
+              <Button onClick={runPreview} disabled={missingFields.length > 0 || missingAmount}>
+                معاينة
+              </Button>
+            </>
+          )}
+          {step === 'preview' && (
+            <>
+              <Button variant="outline" onClick={() => setStep(sheet ? 'mapping' : 'file')} disabled={importing}>
+                {sheet ? 'تعديل الأعمدة' : 'ملف آخر'}
+              </Button>
+              <Button
+                onClick={commitImport}
+                disabled={importing || validRows.length === 0 || (invalidCount > 0 && !skipInvalid)}
+              >
+                {importing ? 'جاري الاستيراد...' : `استيراد ${validRows.length} عملية`}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
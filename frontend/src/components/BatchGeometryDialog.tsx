@@ -0,0 +1,293 @@
+import { useEffect, useMemo, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { showNotification } from '@/components/ui/notification'
+import { Download, Upload } from 'lucide-react'
+import {
+  SURFACE_TOLERANCE,
+  buildBatchGeoJson,
+  geometryArea,
+  isSurfaceDiscrepancy,
+  matchGeometryFeatures,
+  parseGeometryFile,
+  surfaceDifference,
+  type GeometryMatch,
+} from '@/lib/landGeometry'
+import { downloadFile } from '@/lib/exportFile'
+import type { LandBatch, LandGeometry, LandPiece } from '@/types/database'
+
+export interface GeometryUpdates {
+  batch: { geometry: LandGeometry; geometry_area: number } | null
+  pieces: Array<{ id: string; geometry: LandGeometry; geometry_area: number }>
+}
+
+interface BatchGeometryDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  batch: (LandBatch & { land_pieces: LandPiece[] }) | null
+  canEdit: boolean
+  // Geometry written to the database, for the page to update its batches
+  onGeometrySaved: (batchId: string, updates: GeometryUpdates) => void
+}
+
+function formatDifference(difference: number | null): string {
+  if (difference === null) return '-'
+  return `${difference > 0 ? '+' : ''}${(difference * 100).toFixed(1)}%`
+}
+
+export function BatchGeometryDialog({ open, onOpenChange, batch, canEdit, onGeometrySaved }: BatchGeometryDialogProps) {
+  const [matches, setMatches] = useState<GeometryMatch[] | null>(null)
+  const [fileErrors, setFileErrors] = useState<string[]>([])
+  const [fileName, setFileName] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    setMatches(null)
+    setFileErrors([])
+    setFileName('')
+  }, [open, batch?.id])
+
+  const pieces = useMemo(() => batch?.land_pieces || [], [batch])
+
+  // Pieces already located, with their computed surface
+  const locatedPieces = useMemo(() => {
+    return pieces
+      .filter(p => p.geometry)
+      .map(p => {
+        const computedArea = p.geometry_area ?? geometryArea(p.geometry as LandGeometry)
+        return { piece: p, computedArea, difference: surfaceDifference(computedArea, p.surface_area) }
+      })
+      .sort((a, b) => a.piece.piece_number.localeCompare(b.piece.piece_number, undefined, { numeric: true }))
+  }, [pieces])
+  const flaggedPieces = locatedPieces.filter(p => isSurfaceDiscrepancy(p.computedArea, p.piece.surface_area))
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file || !batch) return
+
+    try {
+      const { features, errors } = parseGeometryFile(file.name, await file.text())
+      setFileName(file.name)
+      setFileErrors(errors)
+      setMatches(matchGeometryFeatures(features, pieces, batch.name))
+    } catch (error) {
+      console.error('Error reading geometry file:', error)
+      showNotification('خطأ في قراءة الملف: ' + (error as Error).message, 'error')
+    }
+  }
+
+  const saveImport = async () => {
+    if (!batch || !matches || saving) return
+    const batchMatch = matches.find(m => m.isBatchOutline)
+    const updates: GeometryUpdates = {
+      batch: batchMatch ? { geometry: batchMatch.feature.geometry, geometry_area: batchMatch.computedArea } : null,
+      pieces: matches
+        .filter(m => m.piece)
+        .map(m => ({ id: (m.piece as { id: string }).id, geometry: m.feature.geometry, geometry_area: m.computedArea })),
+    }
+    if (!updates.batch && updates.pieces.length === 0) return
+
+    setSaving(true)
+    try {
+      const results = await Promise.all([
+        ...(updates.batch
+          ? [supabase.from('land_batches').update(updates.batch).eq('id', batch.id)]
+          : []),
+        ...updates.pieces.map(u =>
+          supabase.from('land_pieces').update({ geometry: u.geometry, geometry_area: u.geometry_area }).eq('id', u.id)
+        ),
+      ])
+      const failed = results.find(r => r.error)
+      if (failed?.error) throw failed.error
+
+      onGeometrySaved(batch.id, updates)
+      showNotification(`تم حفظ إحداثيات ${updates.pieces.length} قطعة${updates.batch ? ' وحدود الدفعة' : ''}`, 'success')
+      setMatches(null)
+      setFileName('')
+      setFileErrors([])
+    } catch (error) {
+      console.error('Error saving geometry:', error)
+      showNotification('خطأ في حفظ الإحداثيات: ' + (error as Error).message, 'error')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleExport = () => {
+    if (!batch) return
+    const safeName = batch.name.replace(/[\\/:*?"<>|]/g, '_')
+    downloadFile(`${safeName}.geojson`, buildBatchGeoJson(batch, pieces), 'application/geo+json')
+  }
+
+  if (!batch) return null
+
+  const matchedCount = matches?.filter(m => m.piece || m.isBatchOutline).length || 0
+  const tolerance = `${SURFACE_TOLERANCE * 100}%`
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[95vw] max-w-4xl max-h-[95vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>الإحداثيات الجغرافية - {batch.name}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <Badge variant={batch.geometry ? 'success' : 'secondary'}>
+              {batch.geometry ? `حدود الدفعة: ${geometryArea(batch.geometry).toLocaleString()} م²` : 'حدود الدفعة غير محددة'}
+            </Badge>
+            <Badge variant="outline">{locatedPieces.length} / {pieces.length} قطعة لها إحداثيات</Badge>
+            {flaggedPieces.length > 0 && (
+              <Badge variant="destructive">{flaggedPieces.length} فرق في المساحة</Badge>
+            )}
+          </div>
+
+          {flaggedPieces.length > 0 && !matches && (
+            <div className="space-y-1">
+              <p className="text-sm font-medium">
+                قطع تختلف مساحتها المحسوبة عن المساحة المسجلة بأكثر من {tolerance}:
+              </p>
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-gray-100">
+                      <TableHead>القطعة</TableHead>
+                      <TableHead>المساحة المسجلة</TableHead>
+                      <TableHead>المساحة المحسوبة</TableHead>
+                      <TableHead>الفرق</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {flaggedPieces.map(({ piece, computedArea, difference }) => (
+                      <TableRow key={piece.id}>
+                        <TableCell className="text-xs">#{piece.piece_number}</TableCell>
+                        <TableCell className="text-xs">{piece.surface_area} م²</TableCell>
+                        <TableCell className="text-xs">{computedArea} م²</TableCell>
+                        <TableCell className="text-xs text-red-600">{formatDifference(difference)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+
+          {canEdit && (
+            <div className="space-y-2 border-t pt-3">
+              <p className="text-sm text-muted-foreground">
+                استيراد ملف GeoJSON أو KML من المساح (نظام WGS84). تربط الأشكال بالقطع حسب رقم القطعة
+                (piece_number أو name)، والشكل الذي يحمل اسم الدفعة أو "type": "batch" يعتبر حدود الدفعة.
+              </p>
+              <div className="flex items-center gap-2">
+                <Input
+                  id="geometry_file"
+                  type="file"
+                  accept=".geojson,.json,.kml"
+                  onChange={handleFileChange}
+                  className="hidden"
+                  disabled={saving}
+                />
+                <Label
+                  htmlFor="geometry_file"
+                  className="flex items-center gap-2 px-4 py-2 border rounded-lg cursor-pointer hover:bg-accent transition-colors text-sm"
+                >
+                  <Upload className="h-4 w-4" />
+                  {fileName || 'اختر ملفاً'}
+                </Label>
+              </div>
+
+              {fileErrors.length > 0 && (
+                <ul className="text-xs text-red-600 list-disc pr-4">
+                  {fileErrors.slice(0, 10).map((error, index) => <li key={index}>{error}</li>)}
+                  {fileErrors.length > 10 && <li>... ({fileErrors.length - 10})</li>}
+                </ul>
+              )}
+
+              {matches && matches.length > 0 && (
+                <div className="overflow-x-auto max-h-[45vh]">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="bg-gray-100">
+                        <TableHead>الشكل</TableHead>
+                        <TableHead>مرتبط بـ</TableHead>
+                        <TableHead>المساحة المسجلة</TableHead>
+                        <TableHead>المساحة المحسوبة</TableHead>
+                        <TableHead>الفرق</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {matches.map((match, index) => (
+                        <TableRow key={index} className={match.flagged ? 'bg-red-50' : ''}>
+                          <TableCell className="text-xs">{match.feature.label}</TableCell>
+                          <TableCell className="text-xs">
+                            {match.isBatchOutline ? (
+                              <Badge variant="secondary">حدود الدفعة</Badge>
+                            ) : match.piece ? (
+                              `#${match.piece.piece_number}`
+                            ) : (
+                              <span className="text-red-600">قطعة غير موجودة (لن تحفظ)</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-xs">
+                            {match.isBatchOutline ? `${batch.total_surface} م²` : match.piece ? `${match.piece.surface_area} م²` : '-'}
+                          </TableCell>
+                          <TableCell className="text-xs">{match.computedArea} م²</TableCell>
+                          <TableCell className={`text-xs ${match.flagged ? 'text-red-600 font-semibold' : ''}`}>
+                            {match.isBatchOutline
+                              ? formatDifference(surfaceDifference(match.computedArea, batch.total_surface))
+                              : formatDifference(match.difference)}
+                            {match.flagged && ' ⚠'}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+              {matches && matches.some(m => m.flagged) && (
+                <p className="text-xs text-red-600">
+                  الأسطر المميزة تختلف مساحتها عن المساحة المسجلة بأكثر من {tolerance}. تحقق من المخطط أو من المساحة المسجلة للقطعة.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            إغلاق
+          </Button>
+          <Button variant="outline" onClick={handleExport} disabled={!batch.geometry && locatedPieces.length === 0}>
+            <Download className="h-4 w-4 ml-2" />
+            تصدير GeoJSON
+          </Button>
+          {canEdit && matches && (
+            <Button onClick={saveImport} disabled={saving || matchedCount === 0}>
+              {saving ? 'جاري الحفظ...' : `حفظ (${matchedCount})`}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,375 @@
+import { useEffect, useMemo, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/contexts/AuthContext'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Select } from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { showNotification } from '@/components/ui/notification'
+import { Upload } from 'lucide-react'
+import { readSpreadsheet, type SpreadsheetData } from '@/lib/spreadsheetReader'
+import {
+  MAX_IMPORT_ROWS,
+  getImportFields,
+  getMissingRequiredFields,
+  guessColumnMapping,
+  validateClientRows,
+  validatePieceRows,
+  type ClientImportData,
+  type ColumnMapping,
+  type ImportKind,
+  type ImportRow,
+  type PieceImportData,
+  type PieceValidationContext,
+} from '@/lib/bulkImport'
+import { formatCurrency } from '@/lib/utils'
+
+type WizardStep = 'file' | 'mapping' | 'preview'
+
+// CINs per lookup request, to keep the query string short
+const CIN_LOOKUP_CHUNK = 200
+
+interface BulkImportDialogProps {
+  kind: ImportKind
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Target batch, required for pieces
+  batch?: { id: string; name: string } | null
+  getDefaultPiecePrices?: PieceValidationContext['getDefaultPrices']
+  onImported: () => void
+}
+
+export function BulkImportDialog({ kind, open, onOpenChange, batch, getDefaultPiecePrices, onImported }: BulkImportDialogProps) {
+  const { user } = useAuth()
+  const [step, setStep] = useState<WizardStep>('file')
+  const [fileName, setFileName] = useState('')
+  const [sheet, setSheet] = useState<SpreadsheetData | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping>({})
+  const [results, setResults] = useState<ImportRow<PieceImportData | ClientImportData>[]>([])
+  const [skipInvalid, setSkipInvalid] = useState(false)
+  const [reading, setReading] = useState(false)
+  const [validating, setValidating] = useState(false)
+  const [importing, setImporting] = useState(false)
+
+  const fields = getImportFields(kind)
+  const missingFields = getMissingRequiredFields(fields, mapping)
+  const validRows = useMemo(() => results.filter(r => r.data), [results])
+  const invalidCount = results.length - validRows.length
+
+  useEffect(() => {
+    if (!open) return
+    setStep('file')
+    setFileName('')
+    setSheet(null)
+    setMapping({})
+    setResults([])
+    setSkipInvalid(false)
+  }, [open])
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    setReading(true)
+    try {
+      const data = await readSpreadsheet(file)
+      if (data.rows.length === 0) {
+        showNotification('الملف لا يحتوي على أي سطر بيانات', 'error')
+        return
+      }
+      if (data.rows.length > MAX_IMPORT_ROWS) {
+        showNotification(`لا يمكن استيراد أكثر من ${MAX_IMPORT_ROWS} سطر في المرة الواحدة`, 'error')
+        return
+      }
+      setFileName(file.name)
+      setSheet(data)
+      setMapping(guessColumnMapping(fields, data.headers))
+      setStep('mapping')
+    } catch (error) {
+      console.error('Error reading import file:', error)
+      showNotification('خطأ في قراءة الملف: ' + (error as Error).message, 'error')
+    } finally {
+      setReading(false)
+    }
+  }
+
+  const runDryRun = async () => {
+    if (!sheet || missingFields.length > 0) return
+    setValidating(true)
+    try {
+      if (kind === 'pieces') {
+        if (!batch) throw new Error('يرجى اختيار دفعة أرض أولاً')
+        const { data, error } = await supabase
+          .from('land_pieces')
+          .select('piece_number')
+          .eq('land_batch_id', batch.id)
+        if (error) throw error
+
+        setResults(validatePieceRows(sheet.rows, sheet.rowNumbers, mapping, {
+          existingPieceNumbers: new Set(((data || []) as Array<{ piece_number: string }>).map(p => p.piece_number)),
+          getDefaultPrices: getDefaultPiecePrices,
+        }))
+      } else {
+        // First pass without the database, only to collect the sanitized CINs
+        const cins = Array.from(new Set(
+          validateClientRows(sheet.rows, sheet.rowNumbers, mapping, { existingClientsByCin: new Map() })
+            .map(r => r.data?.cin)
+            .filter((cin): cin is string => !!cin)
+        ))
+        const existingClientsByCin = new Map<string, string>()
+        for (let i = 0; i < cins.length; i += CIN_LOOKUP_CHUNK) {
+          const { data, error } = await supabase
+            .from('clients')
+            .select('cin, name')
+            .in('cin', cins.slice(i, i + CIN_LOOKUP_CHUNK))
+          if (error) throw error
+          ;((data || []) as Array<{ cin: string; name: string }>).forEach(c => existingClientsByCin.set(c.cin, c.name))
+        }
+
+        setResults(validateClientRows(sheet.rows, sheet.rowNumbers, mapping, { existingClientsByCin }))
+      }
+      setSkipInvalid(false)
+      setStep('preview')
+    } catch (error) {
+      console.error('Error validating import:', error)
+      showNotification('خطأ في التحقق من البيانات: ' + (error as Error).message, 'error')
+    } finally {
+      setValidating(false)
+    }
+  }
+
+  const commitImport = async () => {
+    if (importing || validRows.length === 0 || (invalidCount > 0 && !skipInvalid)) return
+    setImporting(true)
+    try {
+      // A single insert: if any row fails (e.g. a piece added meanwhile), nothing is written
+      if (kind === 'pieces') {
+        if (!batch) throw new Error('يرجى اختيار دفعة أرض أولاً')
+        const piecesData = validRows.map(r => ({
+          ...(r.data as PieceImportData),
+          land_batch_id: batch.id,
+          status: 'Available',
+        }))
+        const { error } = await supabase.from('land_pieces').insert(piecesData)
+        if (error) throw error
+      } else {
+        const clientsData = validRows.map(r => ({
+          ...(r.data as ClientImportData),
+          created_by: user?.id || null,
+        }))
+        const { error } = await supabase.from('clients').insert(clientsData)
+        if (error) throw error
+      }
+
+      showNotification(`تم استيراد ${validRows.length} ${kind === 'pieces' ? 'قطعة' : 'عميل'} بنجاح`, 'success')
+      onOpenChange(false)
+      onImported()
+    } catch (error) {
+      console.error('Error importing rows:', error)
+      const code = (error as { code?: string }).code
+      showNotification(
+        code === '23505'
+          ? 'بعض الأسطر أصبحت مكررة في قاعدة البيانات. لم يتم حفظ أي سطر، يرجى إعادة المعاينة.'
+          : 'خطأ في الاستيراد، لم يتم حفظ أي سطر: ' + (error as Error).message,
+        'error'
+      )
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  const rowSummary = (row: ImportRow<PieceImportData | ClientImportData>) => {
+    if (!sheet) return ''
+    const source = sheet.rows[sheet.rowNumbers.indexOf(row.rowNumber)] || []
+    const value = (key: string) => {
+      const index = mapping[key]
+      return index === null || index === undefined ? '' : source[index]
+    }
+    if (kind === 'pieces') {
+      const data = row.data as PieceImportData | null
+      return data
+        ? `#${data.piece_number} - ${data.surface_area} م² - ${formatCurrency(data.selling_price_full)}`
+        : `#${value('piece_number')} - ${value('surface_area')}`
+    }
+    return `${value('name')} - ${value('cin')}`
+  }
+
+  const title = kind === 'pieces'
+    ? `استيراد قطع من ملف${batch ? ` - ${batch.name}` : ''}`
+    : 'استيراد عملاء من ملف'
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[95vw] max-w-3xl max-h-[95vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+        </DialogHeader>
+
+        {step === 'file' && (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              اختر ملف CSV أو Excel (XLSX). يجب أن يحتوي السطر الأول على أسماء الأعمدة، وتتم قراءة الورقة الأولى فقط.
+            </p>
+            <p className="text-xs text-muted-foreground">
+              الأعمدة: {fields.map(f => `${f.label}${f.required ? ' *' : ''}`).join('، ')}
+            </p>
+            <div className="flex items-center gap-2">
+              <Input
+                id="bulk_import_file"
+                type="file"
+                accept=".csv,.xlsx,.txt"
+                onChange={handleFileChange}
+                className="hidden"
+                disabled={reading}
+              />
+              <Label
+                htmlFor="bulk_import_file"
+                className="flex items-center gap-2 px-4 py-2 border rounded-lg cursor-pointer hover:bg-accent transition-colors"
+              >
+                <Upload className="h-4 w-4" />
+                {reading ? 'جاري القراءة...' : 'اختر ملفاً'}
+              </Label>
+            </div>
+          </div>
+        )}
+
+        {step === 'mapping' && sheet && (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              {fileName}: {sheet.rows.length} سطر. اختر العمود المقابل لكل حقل.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {fields.map(field => (
+                <div key={field.key}>
+                  <Label className="text-xs sm:text-sm">
+                    {field.label}{field.required ? ' *' : ''}
+                  </Label>
+                  <Select
+                    value={mapping[field.key] ?? ''}
+                    onChange={(e) => setMapping({
+                      ...mapping,
+                      [field.key]: e.target.value === '' ? null : parseInt(e.target.value, 10),
+                    })}
+                  >
+                    <option value="">— بدون —</option>
+                    {sheet.headers.map((header, index) => (
+                      <option key={index} value={index}>
+                        {header}{sheet.rows[0]?.[index] ? ` (${sheet.rows[0][index]})` : ''}
+                      </option>
+                    ))}
+                  </Select>
+                </div>
+              ))}
+            </div>
+            {kind === 'pieces' && (
+              <p className="text-xs text-muted-foreground">
+                إذا لم يتم تحديد الأسعار، تحسب من سعر المتر المربع للدفعة.
+              </p>
+            )}
+            {missingFields.length > 0 && (
+              <p className="text-sm text-red-600">
+                الحقول المطلوبة غير محددة: {missingFields.map(f => f.label).join('، ')}
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <Badge variant="success">صالح: {validRows.length}</Badge>
+              {invalidCount > 0 && <Badge variant="destructive">به أخطاء: {invalidCount}</Badge>}
+              <span className="text-muted-foreground">معاينة فقط، لم يتم حفظ أي شيء بعد.</span>
+            </div>
+            <div className="overflow-x-auto max-h-[50vh]">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-gray-100">
+                    <TableHead>السطر</TableHead>
+                    <TableHead>البيانات</TableHead>
+                    <TableHead>الحالة</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {results.map(row => (
+                    <TableRow key={row.rowNumber}>
+                      <TableCell className="text-xs">{row.rowNumber}</TableCell>
+                      <TableCell className="text-xs">{rowSummary(row)}</TableCell>
+                      <TableCell className="text-xs">
+                        {row.data ? (
+                          <Badge variant="success">صالح</Badge>
+                        ) : (
+                          <span className="text-red-600">{row.errors.join('، ')}</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            {invalidCount > 0 && validRows.length > 0 && (
+              <div className="flex items-center gap-2">
+                <input
+                  id="bulk_import_skip_invalid"
+                  type="checkbox"
+                  checked={skipInvalid}
+                  onChange={(e) => setSkipInvalid(e.target.checked)}
+                  className="rounded"
+                />
+                <Label htmlFor="bulk_import_skip_invalid" className="text-sm">
+                  تجاهل الأسطر التي بها أخطاء واستيراد الأسطر الصالحة فقط
+                </Label>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={importing}>
+            إلغاء
+          </Button>
+          {step === 'mapping' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('file')} disabled={validating}>
+                ملف آخر
+              </Button>
+              <Button onClick={runDryRun} disabled={validating || missingFields.length > 0}>
+                {validating ? 'جاري التحقق...' : 'معاينة'}
+              </Button>
+            </>
+          )}
+          {step === 'preview' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('mapping')} disabled={importing}>
+                تعديل الأعمدة
+              </Button>
+              <Button
+                onClick={commitImport}
+                disabled={importing || validRows.length === 0 || (invalidCount > 0 && !skipInvalid)}
+              >
+                {importing ? 'جاري الاستيراد...' : `استيراد ${validRows.length} سطر`}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
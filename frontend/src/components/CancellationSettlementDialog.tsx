@@ -0,0 +1,493 @@
+import { useEffect, useMemo, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select } from '@/components/ui/select'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { showNotification } from '@/components/ui/notification'
+import { Printer } from 'lucide-react'
+import { formatCurrency, formatDate } from '@/lib/utils'
+import { toDateString } from '@/lib/installmentSchedule'
+import {
+  RETENTION_TYPE_LABELS,
+  buildCancellationAgreementDocument,
+  buildRefundSchedule,
+  calculateSettlement,
+  type CancellationAgreementData,
+} from '@/lib/cancellationSettlement'
+import { printHtmlDocument } from '@/lib/printDocument'
+import type {
+  CancellationSettlement,
+  Client,
+  DocumentLanguage,
+  Payment,
+  RefundScheduleEntry,
+  RetentionType,
+  Sale,
+} from '@/types/database'
+
+interface CancellationSettlementDialogProps {
+  saleId: string | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Called once the sale is cancelled and the settlement recorded
+  onSettled?: (settlement: CancellationSettlement) => void
+}
+
+type SettlementSale = Sale & { client: Pick<Client, 'name' | 'cin' | 'address'> | null }
+
+export function CancellationSettlementDialog({ saleId, open, onOpenChange, onSettled }: CancellationSettlementDialogProps) {
+  const [sale, setSale] = useState<SettlementSale | null>(null)
+  const [items, setItems] = useState<string[]>([])
+  const [payments, setPayments] = useState<Pick<Payment, 'amount_paid' | 'payment_type'>[]>([])
+  const [requestId, setRequestId] = useState<string | null>(null)
+  const [settlement, setSettlement] = useState<CancellationSettlement | null>(null)
+  const [schedule, setSchedule] = useState<RefundScheduleEntry[]>([])
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [language, setLanguage] = useState<DocumentLanguage>('ar')
+  const [form, setForm] = useState({
+    retention_type: 'None' as RetentionType,
+    retention_value: '',
+    reason: '',
+    refund_count: '1',
+    first_refund_date: toDateString(new Date()),
+    payment_method: 'Cash',
+  })
+
+  useEffect(() => {
+    if (open && saleId) fetchSettlementData(saleId)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, saleId])
+
+  const fetchSettlementData = async (id: string) => {
+    setLoading(true)
+    setSale(null)
+    setSettlement(null)
+    setSchedule([])
+    try {
+      const { data: saleRow, error: saleError } = await supabase
+        .from('sales')
+        .select('*, client:clients(name, cin, address)')
+        .eq('id', id)
+        .single()
+
+      if (saleError) throw saleError
+      const saleData = saleRow as SettlementSale
+
+      const [piecesResult, housesResult, paymentsResult, requestResult, settlementResult] = await Promise.all([
+        saleData.land_piece_ids && saleData.land_piece_ids.length > 0
+          ? supabase
+              .from('land_pieces')
+              .select('piece_number, land_batch:land_batches(name)')
+              .in('id', saleData.land_piece_ids)
+          : Promise.resolve({ data: [], error: null }),
+        saleData.house_ids && saleData.house_ids.length > 0
+          ? supabase
+              .from('houses')
+              .select('name')
+              .in('id', saleData.house_ids)
+          : Promise.resolve({ data: [], error: null }),
+        supabase
+          .from('payments')
+          .select('amount_paid, payment_type')
+          .eq('sale_id', id),
+        supabase
+          .from('cancellation_requests')
+          .select('id, cancellation_reason')
+          .eq('sale_id', id)
+          .eq('status', 'Pending')
+          .order('created_at', { ascending: false })
+          .limit(1),
+        supabase
+          .from('cancellation_settlements')
+          .select('*')
+          .eq('sale_id', id)
+          .order('created_at', { ascending: false })
+          .limit(1),
+      ])
+
+      if (piecesResult.error) throw piecesResult.error
+      if (housesResult.error) throw housesResult.error
+      if (paymentsResult.error) throw paymentsResult.error
+      if (settlementResult.error) throw settlementResult.error
+
+      const pieces = (piecesResult.data || []) as Array<{ piece_number: string; land_batch: { name: string } | null }>
+      setItems([
+        ...pieces
+          .sort((a, b) => a.piece_number.localeCompare(b.piece_number, undefined, { numeric: true }))
+          .map(p => `${p.land_batch?.name || ''} #${p.piece_number}`.trim()),
+        ...((housesResult.data || []) as Array<{ name: string }>).map(h => h.name),
+      ])
+      setPayments(paymentsResult.data || [])
+      setSale(saleData)
+
+      const request = (requestResult.data || [])[0] as { id: string; cancellation_reason: string } | undefined
+      setRequestId(request?.id || null)
+      setForm(prev => ({
+        ...prev,
+        retention_type: 'None',
+        retention_value: '',
+        reason: request?.cancellation_reason || '',
+        refund_count: '1',
+        first_refund_date: toDateString(new Date()),
+      }))
+
+      const existing = ((settlementResult.data || []) as CancellationSettlement[])[0] || null
+      setSettlement(existing)
+      if (existing) await fetchSchedule(existing.id)
+    } catch (error) {
+      console.error('Error loading cancellation settlement:', error)
+      showNotification('حدث خطأ أثناء تحميل بيانات الإلغاء: ' + (error as Error).message, 'error')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchSchedule = async (settlementId: string) => {
+    const { data, error } = await supabase
+      .from('refund_schedule')
+      .select('*')
+      .eq('settlement_id', settlementId)
+      .order('installment_number', { ascending: true })
+
+    if (error) throw error
+    setSchedule((data as RefundScheduleEntry[]) || [])
+  }
+
+  const preview = useMemo(() => calculateSettlement({
+    payments,
+    smallAdvanceAmount: sale?.small_advance_amount || 0,
+    retentionType: form.retention_type,
+    retentionValue: parseFloat(form.retention_value) || 0,
+  }), [payments, sale, form.retention_type, form.retention_value])
+
+  const previewSchedule = useMemo(
+    () => buildRefundSchedule(preview.refundAmount, parseInt(form.refund_count) || 1, form.first_refund_date),
+    [preview.refundAmount, form.refund_count, form.first_refund_date]
+  )
+
+  const documentHtml = useMemo(() => {
+    if (!sale || !settlement) return ''
+    const data: CancellationAgreementData = {
+      saleId: sale.id,
+      saleDate: sale.sale_date,
+      settlementDate: settlement.created_at,
+      client: sale.client || { name: '', cin: '', address: null },
+      items,
+      totalPrice: sale.total_selling_price || 0,
+      reason: settlement.reason,
+      retentionType: settlement.retention_type,
+      retentionValue: settlement.retention_value,
+      settlement: {
+        totalPaid: settlement.total_paid,
+        alreadyRefunded: settlement.already_refunded,
+        netPaid: Math.max(0, settlement.total_paid - settlement.already_refunded),
+        retentionAmount: settlement.retention_amount,
+        refundAmount: settlement.refund_amount,
+      },
+      schedule,
+    }
+    return buildCancellationAgreementDocument(data, language)
+  }, [sale, settlement, items, schedule, language])
+
+  const handleSettle = async () => {
+    if (!sale) return
+
+    if (!form.reason.trim()) {
+      showNotification('يرجى إدخال سبب الإلغاء', 'error')
+      return
+    }
+    if (form.retention_type === 'Percentage' && (parseFloat(form.retention_value) || 0) > 100) {
+      showNotification('نسبة الاقتطاع لا يمكن أن تتجاوز 100%', 'error')
+      return
+    }
+
+    setSaving(true)
+    try {
+      const { data, error } = await supabase.rpc('settle_sale_cancellation', {
+        p_sale_id: sale.id,
+        p_retention_type: form.retention_type,
+        p_retention_value: parseFloat(form.retention_value) || 0,
+        p_reason: form.reason.trim(),
+        p_schedule: previewSchedule.map(line => ({ due_date: line.due_date, amount: line.amount })),
+        p_cancellation_request_id: requestId,
+        p_payment_method: form.payment_method,
+      })
+
+      if (error) throw error
+
+      const saved = data as CancellationSettlement
+      setSettlement(saved)
+      setSale(prev => (prev ? { ...prev, status: 'Cancelled' } : prev))
+      await fetchSchedule(saved.id)
+      showNotification('تم إلغاء البيع وتسجيل التسوية بنجاح', 'success')
+      onSettled?.(saved)
+    } catch (error) {
+      console.error('Error settling cancellation:', error)
+      showNotification('حدث خطأ أثناء إلغاء البيع: ' + (error as Error).message, 'error')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleMarkPaid = async (entry: RefundScheduleEntry) => {
+    try {
+      const { error } = await supabase.rpc('mark_refund_paid', {
+        p_schedule_id: entry.id,
+        p_payment_method: form.payment_method,
+      })
+      if (error) throw error
+
+      // Reload to pick up the refund payment recorded with the line
+      await fetchSchedule(entry.settlement_id)
+      showNotification('تم تسجيل تسليم المبلغ', 'success')
+    } catch (error) {
+      console.error('Error marking refund as paid:', error)
+      showNotification('حدث خطأ أثناء تسجيل التسليم: ' + (error as Error).message, 'error')
+    }
+  }
+
+  const summaryRows = (result: { totalPaid: number; alreadyRefunded: number; retentionAmount: number; refundAmount: number }) => (
+    <div className="grid grid-cols-2 gap-2 text-sm bg-gray-50 p-3 rounded-lg border">
+      <span className="text-muted-foreground">المبالغ المدفوعة:</span>
+      <span className="font-medium">{formatCurrency(result.totalPaid)}</span>
+      {result.alreadyRefunded > 0 && (
+        <>
+          <span className="text-muted-foreground">مسترجع سابقاً:</span>
+          <span className="font-medium">{formatCurrency(result.alreadyRefunded)}</span>
+        </>
+      )}
+      <span className="text-muted-foreground">المبلغ المقتطع:</span>
+      <span className="font-medium text-orange-600">{formatCurrency(result.retentionAmount)}</span>
+      <span className="text-muted-foreground font-semibold">المبلغ المسترجع:</span>
+      <span className="font-bold text-green-600">{formatCurrency(result.refundAmount)}</span>
+    </div>
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[95vw] max-w-3xl max-h-[95vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-destructive">تسوية إلغاء البيع</DialogTitle>
+        </DialogHeader>
+
+        {loading || !sale ? (
+          <div className="text-center py-12 text-muted-foreground">
+            {loading ? 'جاري التحميل...' : 'لا توجد بيانات'}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="bg-destructive/10 p-3 rounded-lg border border-destructive/20 text-sm space-y-1">
+              <p><strong>العميل:</strong> {sale.client?.name} ({sale.client?.cin})</p>
+              <p><strong>البيع:</strong> {items.join('، ') || '-'}</p>
+              <p><strong>السعر:</strong> {formatCurrency(sale.total_selling_price || 0)}</p>
+            </div>
+
+            {settlement ? (
+              <>
+                {summaryRows({
+                  totalPaid: settlement.total_paid,
+                  alreadyRefunded: settlement.already_refunded,
+                  retentionAmount: settlement.retention_amount,
+                  refundAmount: settlement.refund_amount,
+                })}
+
+                {schedule.length > 0 && (
+                  <div className="space-y-2">
+                    <Label>جدول الاسترجاع</Label>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>#</TableHead>
+                          <TableHead>التاريخ</TableHead>
+                          <TableHead>المبلغ</TableHead>
+                          <TableHead>الحالة</TableHead>
+                          <TableHead></TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {schedule.map(entry => (
+                          <TableRow key={entry.id}>
+                            <TableCell>{entry.installment_number}</TableCell>
+                            <TableCell>{formatDate(entry.due_date)}</TableCell>
+                            <TableCell>{formatCurrency(entry.amount)}</TableCell>
+                            <TableCell>
+                              <Badge variant={entry.status === 'Paid' ? 'success' : 'warning'}>
+                                {entry.status === 'Paid' ? 'مسلّم' : 'في الانتظار'}
+                              </Badge>
+                            </TableCell>
+                            <TableCell>
+                              {entry.status === 'Pending' && (
+                                <Button size="sm" variant="outline" onClick={() => handleMarkPaid(entry)}>
+                                  تم التسليم
+                                </Button>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant={language === 'ar' ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setLanguage('ar')}
+                  >
+                    العربية
+                  </Button>
+                  <Button
+                    variant={language === 'fr' ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setLanguage('fr')}
+                  >
+                    Français
+                  </Button>
+                </div>
+                {documentHtml && (
+                  <iframe
+                    title="cancellation-agreement-preview"
+                    srcDoc={documentHtml}
+                    className="w-full h-[45vh] border rounded-md bg-white"
+                  />
+                )}
+              </>
+            ) : sale.status === 'Cancelled' ? (
+              <div className="text-center py-6 text-muted-foreground">هذا البيع ملغى بدون تسوية مسجلة</div>
+            ) : (
+              <>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="retention_type">الاقتطاع</Label>
+                    <Select
+                      id="retention_type"
+                      value={form.retention_type}
+                      onChange={(e) => setForm({ ...form, retention_type: e.target.value as RetentionType, retention_value: '' })}
+                    >
+                      {(Object.keys(RETENTION_TYPE_LABELS) as RetentionType[]).map(type => (
+                        <option key={type} value={type}>{RETENTION_TYPE_LABELS[type].ar}</option>
+                      ))}
+                    </Select>
+                  </div>
+                  {(form.retention_type === 'Fixed' || form.retention_type === 'Percentage') && (
+                    <div className="space-y-2">
+                      <Label htmlFor="retention_value">
+                        {form.retention_type === 'Fixed' ? 'المبلغ المقتطع' : 'النسبة (%)'}
+                      </Label>
+                      <Input
+                        id="retention_value"
+                        type="number"
+                        min="0"
+                        max={form.retention_type === 'Percentage' ? '100' : undefined}
+                        step="0.01"
+                        value={form.retention_value}
+                        onChange={(e) => setForm({ ...form, retention_value: e.target.value })}
+                      />
+                    </div>
+                  )}
+                  <div className="space-y-2">
+                    <Label htmlFor="refund_count">عدد دفعات الاسترجاع</Label>
+                    <Input
+                      id="refund_count"
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={form.refund_count}
+                      onChange={(e) => setForm({ ...form, refund_count: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="first_refund_date">تاريخ أول دفعة</Label>
+                    <Input
+                      id="first_refund_date"
+                      type="date"
+                      value={form.first_refund_date}
+                      onChange={(e) => setForm({ ...form, first_refund_date: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="refund_method">طريقة الاسترجاع</Label>
+                    <Select
+                      id="refund_method"
+                      value={form.payment_method}
+                      onChange={(e) => setForm({ ...form, payment_method: e.target.value })}
+                    >
+                      <option value="Cash">نقدي</option>
+                      <option value="BankTransfer">تحويل بنكي</option>
+                      <option value="Check">شيك</option>
+                      <option value="Other">أخرى</option>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="cancellation_reason">سبب الإلغاء *</Label>
+                  <Textarea
+                    id="cancellation_reason"
+                    value={form.reason}
+                    onChange={(e) => setForm({ ...form, reason: e.target.value })}
+                    rows={2}
+                  />
+                </div>
+
+                {summaryRows(preview)}
+
+                {previewSchedule.length > 1 && (
+                  <div className="text-xs text-muted-foreground space-y-1">
+                    {previewSchedule.map(line => (
+                      <div key={line.installment_number}>
+                        {line.installment_number}. {formatDate(line.due_date)} — {formatCurrency(line.amount)}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <div className="bg-yellow-50 p-3 rounded-lg border border-yellow-200">
+                  <p className="text-sm text-yellow-800">
+                    <strong>تحذير:</strong> سيتم إلغاء البيع، حذف الأقساط غير المدفوعة وإرجاع القطع أو المنزل إلى حالة "متاح".
+                  </p>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            إغلاق
+          </Button>
+          {settlement ? (
+            <Button onClick={() => printHtmlDocument(documentHtml)} disabled={!documentHtml}>
+              <Printer className="h-4 w-4 ml-2" />
+              طباعة اتفاقية الفسخ
+            </Button>
+          ) : sale && sale.status !== 'Cancelled' && (
+            <Button variant="destructive" onClick={handleSettle} disabled={saving || loading}>
+              {saving ? 'جاري الإلغاء...' : 'تأكيد الإلغاء'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,258 @@
+import { useEffect, useMemo, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { showNotification } from '@/components/ui/notification'
+import { Download, Printer } from 'lucide-react'
+import { formatCurrency, formatDate } from '@/lib/utils'
+import {
+  STATEMENT_CSV_HEADERS,
+  buildClientStatement,
+  buildStatementDocument,
+  getStatementCsvRows,
+  type ClientStatementInput,
+  type StatementSale,
+} from '@/lib/clientStatement'
+import { downloadCsv } from '@/lib/exportFile'
+import { printHtmlDocument } from '@/lib/printDocument'
+import { toDateString } from '@/lib/installmentSchedule'
+import type { Client, Installment, InstallmentPenalty, Payment, Sale } from '@/types/database'
+
+interface ClientStatementDialogProps {
+  client: Pick<Client, 'id' | 'name' | 'cin' | 'phone'> | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function ClientStatementDialog({ client, open, onOpenChange }: ClientStatementDialogProps) {
+  const [statementInput, setStatementInput] = useState<ClientStatementInput | null>(null)
+  const [fromDate, setFromDate] = useState('')
+  const [toDate, setToDate] = useState(toDateString(new Date()))
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (open && client?.id) fetchStatementData(client.id)
+  }, [open, client?.id])
+
+  const fetchStatementData = async (clientId: string) => {
+    setLoading(true)
+    setStatementInput(null)
+    try {
+      const [salesResult, paymentsResult] = await Promise.all([
+        supabase
+          .from('sales')
+          .select('*')
+          .eq('client_id', clientId)
+          .order('sale_date', { ascending: true }),
+        supabase
+          .from('payments')
+          .select('*')
+          .eq('client_id', clientId)
+          .order('payment_date', { ascending: true }),
+      ])
+
+      if (salesResult.error) throw salesResult.error
+      if (paymentsResult.error) throw paymentsResult.error
+
+      const sales = (salesResult.data as Sale[]) || []
+      const saleIds = sales.map(s => s.id)
+      const pieceIds = Array.from(new Set(sales.flatMap(s => s.land_piece_ids || [])))
+
+      const [installmentsResult, penaltiesResult, piecesResult] = await Promise.all([
+        saleIds.length > 0
+          ? supabase.from('installments').select('*').in('sale_id', saleIds)
+          : Promise.resolve({ data: [], error: null }),
+        saleIds.length > 0
+          ? supabase.from('installment_penalties').select('*').in('sale_id', saleIds)
+          : Promise.resolve({ data: [], error: null }),
+        pieceIds.length > 0
+          ? supabase.from('land_pieces').select('id, piece_number').in('id', pieceIds)
+          : Promise.resolve({ data: [], error: null }),
+      ])
+
+      if (installmentsResult.error) throw installmentsResult.error
+      if (piecesResult.error) throw piecesResult.error
+      // Without the penalty ledger, penalties fall back to the installment totals
+      if (penaltiesResult.error) console.warn('Penalty ledger not available:', penaltiesResult.error)
+
+      const pieceNumbers = new Map(
+        ((piecesResult.data || []) as Array<{ id: string; piece_number: string }>).map(p => [p.id, p.piece_number])
+      )
+
+      const statementSales: StatementSale[] = sales.map(sale => {
+        const pieces = (sale.land_piece_ids || [])
+          .map(id => pieceNumbers.get(id))
+          .filter(Boolean)
+          .map(n => `#${n}`)
+          .join('، ')
+        return {
+          ...sale,
+          label: `${formatDate(sale.sale_date)}${pieces ? ` - ${pieces}` : ''}`,
+        }
+      })
+
+      setStatementInput({
+        sales: statementSales,
+        installments: (installmentsResult.data as Installment[]) || [],
+        payments: (paymentsResult.data as Payment[]) || [],
+        penalties: penaltiesResult.error ? [] : (penaltiesResult.data as InstallmentPenalty[]) || [],
+      })
+    } catch (error) {
+      console.error('Error loading client statement:', error)
+      showNotification('حدث خطأ أثناء تحميل كشف الحساب: ' + (error as Error).message, 'error')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const statement = useMemo(() => {
+    if (!statementInput || !toDate) return null
+    return buildClientStatement(statementInput, { from: fromDate || null, to: toDate })
+  }, [statementInput, fromDate, toDate])
+
+  const handlePrint = () => {
+    if (!client || !statement) return
+    printHtmlDocument(buildStatementDocument(client, statement))
+  }
+
+  const handleExport = () => {
+    if (!client || !statement) return
+    const safeName = client.name.replace(/[\\/:*?"<>|]/g, '_')
+    downloadCsv(`releve-${safeName}-${statement.to}.csv`, STATEMENT_CSV_HEADERS, getStatementCsvRows(statement))
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[95vw] max-w-5xl max-h-[95vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>كشف حساب العميل{client ? ` - ${client.name}` : ''}</DialogTitle>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div>
+            <Label htmlFor="statement_from">من تاريخ</Label>
+            <Input
+              id="statement_from"
+              type="date"
+              value={fromDate}
+              max={toDate}
+              onChange={(e) => setFromDate(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="statement_to">إلى تاريخ</Label>
+            <Input
+              id="statement_to"
+              type="date"
+              value={toDate}
+              min={fromDate || undefined}
+              onChange={(e) => setToDate(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {loading || !statement ? (
+          <div className="text-center py-12 text-muted-foreground">
+            {loading ? 'جاري التحميل...' : 'لا توجد بيانات'}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-sm">
+              <div className="rounded-md border p-2">
+                <p className="text-xs text-muted-foreground">الرصيد الافتتاحي</p>
+                <p className="font-semibold">{formatCurrency(statement.openingBalance)}</p>
+              </div>
+              <div className="rounded-md border p-2">
+                <p className="text-xs text-muted-foreground">المدفوع في الفترة</p>
+                <p className="font-semibold text-green-600">{formatCurrency(statement.totalCredit)}</p>
+              </div>
+              <div className="rounded-md border p-2">
+                <p className="text-xs text-muted-foreground">الرصيد المستحق</p>
+                <p className={`font-semibold ${statement.closingBalance > 0.01 ? 'text-red-600' : 'text-green-600'}`}>
+                  {formatCurrency(statement.closingBalance)}
+                </p>
+              </div>
+              <div className="rounded-md border p-2">
+                <p className="text-xs text-muted-foreground">المتبقي من العقود</p>
+                <p className="font-semibold">{formatCurrency(statement.remainingContractAmount)}</p>
+              </div>
+            </div>
+
+            {statement.cancelledSalesCount > 0 && (
+              <p className="text-xs text-muted-foreground">
+                المبيعات الملغاة ({statement.cancelledSalesCount}) غير مدرجة في هذا الكشف.
+              </p>
+            )}
+
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-gray-100">
+                    <TableHead>التاريخ</TableHead>
+                    <TableHead>البيع</TableHead>
+                    <TableHead>البيان</TableHead>
+                    <TableHead>مستحق</TableHead>
+                    <TableHead>مدفوع</TableHead>
+                    <TableHead>الرصيد</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {statement.entries.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-muted-foreground">
+                        لا توجد حركات في هذه الفترة
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    statement.entries.map((entry, idx) => (
+                      <TableRow key={idx}>
+                        <TableCell className="text-xs whitespace-nowrap">{formatDate(entry.date)}</TableCell>
+                        <TableCell className="text-xs">{entry.saleLabel}</TableCell>
+                        <TableCell className={`text-xs ${entry.kind === 'Penalty' ? 'text-red-600' : ''}`}>
+                          {entry.description}
+                        </TableCell>
+                        <TableCell className="text-xs">{entry.debit ? formatCurrency(entry.debit) : ''}</TableCell>
+                        <TableCell className="text-xs text-green-600">{entry.credit ? formatCurrency(entry.credit) : ''}</TableCell>
+                        <TableCell className="text-xs font-semibold">{formatCurrency(entry.balance)}</TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            إغلاق
+          </Button>
+          <Button variant="outline" onClick={handleExport} disabled={!statement}>
+            <Download className="h-4 w-4 ml-2" />
+            تصدير CSV
+          </Button>
+          <Button onClick={handlePrint} disabled={!statement}>
+            <Printer className="h-4 w-4 ml-2" />
+            طباعة / PDF
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,218 @@
+import { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/contexts/AuthContext'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Select } from '@/components/ui/select'
+import { Textarea } from '@/components/ui/textarea'
+import { ConfirmDialog } from '@/components/ui/confirm-dialog'
+import { showNotification } from '@/components/ui/notification'
+import { RotateCcw, Save } from 'lucide-react'
+import { CONTRACT_PLACEHOLDERS, DEFAULT_CONTRACT_TEMPLATES } from '@/lib/contractTemplates'
+import type { ContractTemplate, DocumentLanguage, PaymentType } from '@/types/database'
+
+const PAYMENT_TYPES: { value: PaymentType; label: string }[] = [
+  { value: 'Full', label: 'بالحاضر' },
+  { value: 'Installment', label: 'بالتقسيط' },
+  { value: 'PromiseOfSale', label: 'وعد بالبيع' },
+]
+
+const LANGUAGES: { value: DocumentLanguage; label: string }[] = [
+  { value: 'ar', label: 'العربية' },
+  { value: 'fr', label: 'Français' },
+]
+
+export function ContractTemplatesManager() {
+  const { user, profile } = useAuth()
+  const canEdit = profile?.role === 'Owner'
+  const [templates, setTemplates] = useState<ContractTemplate[]>([])
+  const [paymentType, setPaymentType] = useState<PaymentType>('Installment')
+  const [language, setLanguage] = useState<DocumentLanguage>('ar')
+  const [form, setForm] = useState({ title: '', body: '' })
+  const [saving, setSaving] = useState(false)
+  const [resetConfirmOpen, setResetConfirmOpen] = useState(false)
+
+  const savedTemplate = templates.find(t => t.payment_type === paymentType && t.language === language) || null
+
+  useEffect(() => {
+    fetchTemplates()
+  }, [])
+
+  useEffect(() => {
+    const source = templates.find(t => t.payment_type === paymentType && t.language === language)
+      || DEFAULT_CONTRACT_TEMPLATES[paymentType][language]
+    setForm({ title: source.title, body: source.body })
+  }, [paymentType, language, templates])
+
+  const fetchTemplates = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('contract_templates')
+        .select('*')
+
+      if (error) throw error
+      setTemplates((data as ContractTemplate[]) || [])
+    } catch (error) {
+      console.error('Error fetching contract templates:', error)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!user || !canEdit) return
+    if (!form.title.trim() || !form.body.trim()) {
+      showNotification('يرجى إدخال عنوان ونص العقد', 'error')
+      return
+    }
+
+    setSaving(true)
+    try {
+      const { error } = await supabase
+        .from('contract_templates')
+        .upsert(
+          {
+            payment_type: paymentType,
+            language,
+            title: form.title.trim(),
+            body: form.body,
+            updated_by: user.id,
+          },
+          { onConflict: 'payment_type,language' }
+        )
+
+      if (error) throw error
+      showNotification('تم حفظ نموذج العقد بنجاح', 'success')
+      fetchTemplates()
+    } catch (error) {
+      console.error('Error saving contract template:', error)
+      showNotification('حدث خطأ أثناء الحفظ: ' + (error as Error).message, 'error')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleReset = async () => {
+    if (!savedTemplate) return
+
+    try {
+      const { error } = await supabase
+        .from('contract_templates')
+        .delete()
+        .eq('id', savedTemplate.id)
+
+      if (error) throw error
+      setResetConfirmOpen(false)
+      showNotification('تمت استعادة النموذج الافتراضي', 'success')
+      fetchTemplates()
+    } catch (error) {
+      console.error('Error resetting contract template:', error)
+      showNotification('حدث خطأ: ' + (error as Error).message, 'error')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle>نماذج العقود</CardTitle>
+          <Badge variant={savedTemplate ? 'default' : 'outline'}>
+            {savedTemplate ? 'نموذج معدل' : 'النموذج الافتراضي'}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="template_payment_type">نوع البيع</Label>
+            <Select
+              id="template_payment_type"
+              value={paymentType}
+              onChange={(e) => setPaymentType(e.target.value as PaymentType)}
+            >
+              {PAYMENT_TYPES.map((type) => (
+                <option key={type.value} value={type.value}>
+                  {type.label}
+                </option>
+              ))}
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="template_language">اللغة</Label>
+            <Select
+              id="template_language"
+              value={language}
+              onChange={(e) => setLanguage(e.target.value as DocumentLanguage)}
+            >
+              {LANGUAGES.map((lang) => (
+                <option key={lang.value} value={lang.value}>
+                  {lang.label}
+                </option>
+              ))}
+            </Select>
+          </div>
+        </div>
+
+        <div>
+          <Label htmlFor="template_title">عنوان العقد</Label>
+          <Input
+            id="template_title"
+            value={form.title}
+            onChange={(e) => setForm({ ...form, title: e.target.value })}
+            disabled={!canEdit}
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="template_body">نص العقد (HTML)</Label>
+          <Textarea
+            id="template_body"
+            value={form.body}
+            onChange={(e) => setForm({ ...form, body: e.target.value })}
+            rows={16}
+            dir={language === 'ar' ? 'rtl' : 'ltr'}
+            className="font-mono text-xs"
+            disabled={!canEdit}
+          />
+        </div>
+
+        <div>
+          <p className="text-sm font-medium mb-2">المتغيرات المتاحة</p>
+          <div className="flex flex-wrap gap-1">
+            {CONTRACT_PLACEHOLDERS.map((placeholder) => (
+              <Badge key={placeholder.key} variant="secondary" className="text-xs font-normal" title={placeholder.label}>
+                {`{{${placeholder.key}}}`} - {placeholder.label}
+              </Badge>
+            ))}
+          </div>
+        </div>
+
+        {canEdit && (
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setResetConfirmOpen(true)}
+              disabled={!savedTemplate}
+            >
+              <RotateCcw className="h-4 w-4 ml-2" />
+              استعادة الافتراضي
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              <Save className="h-4 w-4 ml-2" />
+              {saving ? 'جاري الحفظ...' : 'حفظ النموذج'}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+
+      <ConfirmDialog
+        open={resetConfirmOpen}
+        onOpenChange={setResetConfirmOpen}
+        onConfirm={handleReset}
+        title="استعادة النموذج الافتراضي"
+        description="سيتم حذف التعديلات على هذا النموذج واستعمال النص الافتراضي. هل أنت متأكد؟"
+      />
+    </Card>
+  )
+}
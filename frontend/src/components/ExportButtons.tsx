@@ -0,0 +1,52 @@
+import { useAuth } from '@/contexts/AuthContext'
+import { useLanguage } from '@/contexts/LanguageContext'
+import { Button } from '@/components/ui/button'
+import { showNotification } from '@/components/ui/notification'
+import { Download } from 'lucide-react'
+import { exportTable, type ExportColumn, type ExportFormat } from '@/lib/exportFile'
+
+// Custom permission keys (resource_export) granted from the user permissions page
+export type ExportPermission = 'client_export' | 'sale_export' | 'payment_export' | 'expense_export' | 'report_export'
+
+interface ExportButtonsProps<T> {
+  permission: ExportPermission
+  filename: string
+  sheetName: Record<'ar' | 'fr', string>
+  columns: ExportColumn<T>[]
+  // Rows as currently filtered on the page
+  rows: T[]
+  className?: string
+}
+
+export function ExportButtons<T>({ permission, filename, sheetName, columns, rows, className }: ExportButtonsProps<T>) {
+  const { hasPermission } = useAuth()
+  const { language, t } = useLanguage()
+
+  if (!hasPermission(permission)) return null
+
+  const handleExport = (format: ExportFormat) => {
+    if (rows.length === 0) {
+      showNotification(t('common.nothingToExport'), 'error')
+      return
+    }
+    try {
+      exportTable({ filename, sheetName: sheetName[language], format, language, columns, rows })
+    } catch (error) {
+      console.error('Error exporting rows:', error)
+      showNotification((error as Error).message, 'error')
+    }
+  }
+
+  return (
+    <div className={`flex items-center gap-2 ${className || ''}`}>
+      <Button variant="outline" size="sm" onClick={() => handleExport('csv')}>
+        <Download className="h-4 w-4" />
+        {t('common.exportCsv')}
+      </Button>
+      <Button variant="outline" size="sm" onClick={() => handleExport('xlsx')}>
+        <Download className="h-4 w-4" />
+        {t('common.exportExcel')}
+      </Button>
+    </div>
+  )
+}
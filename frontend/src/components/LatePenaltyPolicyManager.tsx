@@ -0,0 +1,331 @@
+import { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/contexts/AuthContext'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import { Select } from '@/components/ui/select'
+import { Textarea } from '@/components/ui/textarea'
+import { formatCurrency } from '@/lib/utils'
+import { Play } from 'lucide-react'
+import type { LatePenaltyPolicy, PenaltyFeeType } from '@/types/database'
+import { showNotification } from '@/components/ui/notification'
+
+const FEE_TYPES: { value: PenaltyFeeType; label: string }[] = [
+  { value: 'Flat', label: 'مبلغ ثابت' },
+  { value: 'Percentage', label: 'نسبة من المبلغ المتأخر' },
+]
+
+interface LatePenaltyPolicyManagerProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Called after penalties were applied so the page can reload installments
+  onPenaltiesApplied?: () => void
+}
+
+export function LatePenaltyPolicyManager({ open, onOpenChange, onPenaltiesApplied }: LatePenaltyPolicyManagerProps) {
+  const { user, profile } = useAuth()
+  const canEdit = profile?.role === 'Owner'
+  const [policy, setPolicy] = useState<LatePenaltyPolicy | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [applying, setApplying] = useState(false)
+  const [form, setForm] = useState({
+    name: 'غرامة التأخير',
+    grace_period_days: '0',
+    fee_type: 'Flat' as PenaltyFeeType,
+    fee_value: '',
+    cap_amount: '',
+    repeat_monthly: false,
+    is_active: true,
+    notes: '',
+  })
+
+  useEffect(() => {
+    if (open) fetchPolicy()
+  }, [open])
+
+  const fetchPolicy = async () => {
+    setLoading(true)
+    try {
+      // Latest policy, active or not, so a disabled policy can be re-enabled
+      const { data, error } = await supabase
+        .from('late_penalty_policies')
+        .select('*')
+        .order('is_active', { ascending: false })
+        .order('updated_at', { ascending: false })
+        .limit(1)
+
+      if (error) throw error
+      const current = (data?.[0] as LatePenaltyPolicy) || null
+      setPolicy(current)
+      if (current) {
+        setForm({
+          name: current.name,
+          grace_period_days: current.grace_period_days.toString(),
+          fee_type: current.fee_type,
+          fee_value: current.fee_value.toString(),
+          cap_amount: current.cap_amount !== null ? current.cap_amount.toString() : '',
+          repeat_monthly: current.repeat_monthly,
+          is_active: current.is_active,
+          notes: current.notes || '',
+        })
+      }
+    } catch (error) {
+      console.error('Error fetching penalty policy:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!user || !canEdit) return
+
+    const feeValue = parseFloat(form.fee_value)
+    const graceDays = parseInt(form.grace_period_days) || 0
+    const capAmount = form.cap_amount ? parseFloat(form.cap_amount) : null
+
+    if (isNaN(feeValue) || feeValue < 0) {
+      showNotification('قيمة الغرامة غير صحيحة', 'error')
+      return
+    }
+    if (form.fee_type === 'Percentage' && feeValue > 100) {
+      showNotification('النسبة يجب أن تكون بين 0 و 100', 'error')
+      return
+    }
+    if (graceDays < 0 || (capAmount !== null && (isNaN(capAmount) || capAmount < 0))) {
+      showNotification('فترة السماح أو الحد الأقصى غير صحيح', 'error')
+      return
+    }
+
+    setSaving(true)
+    try {
+      const policyData = {
+        name: form.name.trim() || 'غرامة التأخير',
+        grace_period_days: graceDays,
+        fee_type: form.fee_type,
+        fee_value: feeValue,
+        cap_amount: capAmount,
+        repeat_monthly: form.repeat_monthly,
+        is_active: form.is_active,
+        notes: form.notes.trim() || null,
+      }
+
+      if (policy) {
+        const { error } = await supabase
+          .from('late_penalty_policies')
+          .update(policyData)
+          .eq('id', policy.id)
+
+        if (error) throw error
+      } else {
+        const { error } = await supabase
+          .from('late_penalty_policies')
+          .insert([{ ...policyData, created_by: user.id }])
+
+        if (error) throw error
+      }
+
+      showNotification('تم حفظ سياسة غرامات التأخير', 'success')
+      fetchPolicy()
+    } catch (error) {
+      console.error('Error saving penalty policy:', error)
+      showNotification('حدث خطأ أثناء الحفظ: ' + (error as Error).message, 'error')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleApplyNow = async () => {
+    setApplying(true)
+    try {
+      const { data, error } = await supabase.rpc('apply_late_penalties')
+
+      if (error) throw error
+      const charged = ((data as { charged_installment_id: string | null }[]) || [])
+        .filter(row => row.charged_installment_id)
+      showNotification(
+        charged.length > 0
+          ? `تم تطبيق الغرامات على ${charged.length} قسط`
+          : 'لا توجد أقساط تستحق غرامة حالياً',
+        'success'
+      )
+      onPenaltiesApplied?.()
+    } catch (error) {
+      console.error('Error applying penalties:', error)
+      showNotification('حدث خطأ: ' + (error as Error).message, 'error')
+    } finally {
+      setApplying(false)
+    }
+  }
+
+  const getPolicySummary = () => {
+    const value = parseFloat(form.fee_value) || 0
+    const fee = form.fee_type === 'Percentage' ? `${value}% من المبلغ المتأخر` : formatCurrency(value)
+    const grace = parseInt(form.grace_period_days) || 0
+    const cap = form.cap_amount ? ` - بحد أقصى ${formatCurrency(parseFloat(form.cap_amount) || 0)} للقسط` : ''
+    return `${fee} بعد ${grace} يوم من تاريخ الاستحقاق${form.repeat_monthly ? '، تتكرر كل شهر' : ''}${cap}`
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>سياسة غرامات التأخير</DialogTitle>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="text-center py-8 text-muted-foreground">جاري التحميل...</div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Badge variant={policy?.is_active ? 'default' : 'outline'}>
+                {policy ? (policy.is_active ? 'نشطة' : 'متوقفة') : 'غير محددة'}
+              </Badge>
+              {form.fee_value && (
+                <span className="text-sm text-muted-foreground">{getPolicySummary()}</span>
+              )}
+            </div>
+
+            <div>
+              <Label htmlFor="penalty_name">اسم السياسة</Label>
+              <Input
+                id="penalty_name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                disabled={!canEdit}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="penalty_fee_type">نوع الغرامة</Label>
+                <Select
+                  id="penalty_fee_type"
+                  value={form.fee_type}
+                  onChange={(e) => setForm({ ...form, fee_type: e.target.value as PenaltyFeeType })}
+                  disabled={!canEdit}
+                >
+                  {FEE_TYPES.map((type) => (
+                    <option key={type.value} value={type.value}>
+                      {type.label}
+                    </option>
+                  ))}
+                </Select>
+              </div>
+
+              <div>
+                <Label htmlFor="penalty_fee_value">
+                  {form.fee_type === 'Percentage' ? 'النسبة (%) *' : 'المبلغ *'}
+                </Label>
+                <Input
+                  id="penalty_fee_value"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={form.fee_value}
+                  onChange={(e) => setForm({ ...form, fee_value: e.target.value })}
+                  placeholder="0.00"
+                  disabled={!canEdit}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="penalty_grace">فترة السماح (أيام)</Label>
+                <Input
+                  id="penalty_grace"
+                  type="number"
+                  min="0"
+                  value={form.grace_period_days}
+                  onChange={(e) => setForm({ ...form, grace_period_days: e.target.value })}
+                  disabled={!canEdit}
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="penalty_cap">الحد الأقصى للقسط</Label>
+                <Input
+                  id="penalty_cap"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={form.cap_amount}
+                  onChange={(e) => setForm({ ...form, cap_amount: e.target.value })}
+                  placeholder="بدون حد"
+                  disabled={!canEdit}
+                />
+              </div>
+            </div>
+
+            <div className="flex flex-col gap-2">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={form.repeat_monthly}
+                  onChange={(e) => setForm({ ...form, repeat_monthly: e.target.checked })}
+                  className="rounded"
+                  disabled={!canEdit}
+                />
+                <span className="text-sm">تكرار الغرامة كل شهر ما دام القسط متأخراً</span>
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={form.is_active}
+                  onChange={(e) => setForm({ ...form, is_active: e.target.checked })}
+                  className="rounded"
+                  disabled={!canEdit}
+                />
+                <span className="text-sm">السياسة مفعلة</span>
+              </label>
+            </div>
+
+            <div>
+              <Label htmlFor="penalty_notes">ملاحظات</Label>
+              <Textarea
+                id="penalty_notes"
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                rows={2}
+                disabled={!canEdit}
+              />
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              تُحتسب الغرامات تلقائياً يومياً، وتُخصم الدفعات من الغرامة المستحقة أولاً ثم من القسط.
+            </p>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            onClick={handleApplyNow}
+            disabled={loading || applying || !policy?.is_active}
+          >
+            <Play className="h-4 w-4 ml-2" />
+            {applying ? 'جاري التطبيق...' : 'تطبيق الغرامات الآن'}
+          </Button>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            إغلاق
+          </Button>
+          {canEdit && (
+            <Button onClick={handleSave} disabled={loading || saving || !form.fee_value}>
+              {saving ? 'جاري الحفظ...' : 'حفظ'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,152 @@
+import { useEffect, useMemo, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import { showNotification } from '@/components/ui/notification'
+import { Printer } from 'lucide-react'
+import { formatCurrency, formatDate } from '@/lib/utils'
+import { PAYMENT_RECORD_TYPE_LABELS, buildReceiptDocument, formatReceiptNumber } from '@/lib/paymentReceipts'
+import { printHtmlDocument } from '@/lib/printDocument'
+import type { PaymentReceipt } from '@/types/database'
+
+interface PaymentReceiptDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Receipts of the given payments (just recorded), or all receipts of a sale
+  paymentIds?: string[]
+  saleId?: string | null
+}
+
+export function PaymentReceiptDialog({ open, onOpenChange, paymentIds, saleId }: PaymentReceiptDialogProps) {
+  const [receipts, setReceipts] = useState<PaymentReceipt[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  const paymentIdsKey = (paymentIds || []).join(',')
+
+  useEffect(() => {
+    if (open) fetchReceipts()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, paymentIdsKey, saleId])
+
+  const fetchReceipts = async () => {
+    if (!saleId && !paymentIdsKey) {
+      setReceipts([])
+      return
+    }
+
+    setLoading(true)
+    try {
+      let query = supabase
+        .from('payment_receipts')
+        .select('*')
+        .order('receipt_number', { ascending: true })
+
+      query = paymentIdsKey
+        ? query.in('payment_id', paymentIdsKey.split(','))
+        : query.eq('sale_id', saleId)
+
+      const { data, error } = await query
+      if (error) throw error
+
+      const rows = (data as PaymentReceipt[]) || []
+      setReceipts(rows)
+      setSelectedId(rows.length > 0 ? rows[rows.length - 1].id : null)
+    } catch (error) {
+      console.error('Error fetching payment receipts:', error)
+      showNotification('حدث خطأ أثناء تحميل الوصولات: ' + (error as Error).message, 'error')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const selectedReceipt = receipts.find(r => r.id === selectedId) || null
+
+  const documentHtml = useMemo(
+    () => (selectedReceipt ? buildReceiptDocument(selectedReceipt) : ''),
+    [selectedReceipt]
+  )
+
+  const handlePrint = async () => {
+    if (!selectedReceipt) return
+    printHtmlDocument(documentHtml)
+
+    const { error } = await supabase.rpc('mark_receipt_printed', { p_receipt_id: selectedReceipt.id })
+    if (error) {
+      console.error('Error marking receipt as printed:', error)
+      return
+    }
+    // Next print of this receipt is a duplicate
+    setReceipts(prev => prev.map(r =>
+      r.id === selectedReceipt.id
+        ? { ...r, print_count: r.print_count + 1, last_printed_at: new Date().toISOString() }
+        : r
+    ))
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[95vw] max-w-4xl max-h-[95vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>وصولات الخلاص</DialogTitle>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="text-center py-12 text-muted-foreground">جاري التحميل...</div>
+        ) : receipts.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">لا توجد وصولات</div>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2">
+              {receipts.map((receipt) => (
+                <button
+                  key={receipt.id}
+                  type="button"
+                  onClick={() => setSelectedId(receipt.id)}
+                  className={`rounded-md border px-3 py-2 text-right text-xs ${
+                    receipt.id === selectedId ? 'border-primary bg-primary/10' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  <div className="flex items-center gap-2 font-medium">
+                    <span>#{formatReceiptNumber(receipt.receipt_number)}</span>
+                    {receipt.is_voided && <Badge variant="destructive" className="text-[10px]">ملغى</Badge>}
+                    {receipt.print_count > 0 && <Badge variant="secondary" className="text-[10px]">مطبوع</Badge>}
+                  </div>
+                  <div className="text-muted-foreground">
+                    {formatDate(receipt.payment_date)} • {PAYMENT_RECORD_TYPE_LABELS[receipt.payment_type]?.ar || receipt.payment_type}
+                  </div>
+                  <div className="font-semibold">{formatCurrency(receipt.amount)}</div>
+                </button>
+              ))}
+            </div>
+
+            {documentHtml && (
+              <iframe
+                title="receipt-preview"
+                srcDoc={documentHtml}
+                className="w-full h-[55vh] border rounded-md bg-white"
+              />
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            إغلاق
+          </Button>
+          <Button onClick={handlePrint} disabled={!selectedReceipt}>
+            <Printer className="h-4 w-4 ml-2" />
+            طباعة الوصل
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
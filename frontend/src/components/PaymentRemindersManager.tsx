@@ -0,0 +1,687 @@
+import { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/contexts/AuthContext'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Select } from '@/components/ui/select'
+import { Textarea } from '@/components/ui/textarea'
+import { formatCurrency, formatDate, formatDateTime } from '@/lib/utils'
+import { toDateString } from '@/lib/installmentSchedule'
+import {
+  REMINDER_CHANNEL_LABELS,
+  REMINDER_PLACEHOLDERS,
+  REMINDER_STATUS_LABELS,
+  REMINDER_TRIGGER_LABELS,
+  SAMPLE_REMINDER_VALUES,
+  describeReminderRule,
+  renderReminderTemplate,
+} from '@/lib/paymentReminders'
+import { Edit, Plus, Send, Trash2 } from 'lucide-react'
+import type {
+  DocumentLanguage,
+  DueReminder,
+  ReminderChannel,
+  ReminderLogEntry,
+  ReminderRule,
+  ReminderTemplate,
+  ReminderTriggerType,
+} from '@/types/database'
+import { showNotification } from '@/components/ui/notification'
+import { ConfirmDialog } from '@/components/ui/confirm-dialog'
+
+type ReminderView = 'due' | 'log' | 'rules' | 'templates'
+
+interface ReminderLogRow extends ReminderLogEntry {
+  client?: { name: string } | null
+}
+
+interface PaymentRemindersManagerProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Limit the reminders due and the log to one client
+  clientId?: string | null
+}
+
+const EMPTY_TEMPLATE_FORM = {
+  name: '',
+  language: 'ar' as DocumentLanguage,
+  body: '',
+  is_active: true,
+}
+
+const EMPTY_RULE_FORM = {
+  name: '',
+  trigger_type: 'BeforeDue' as ReminderTriggerType,
+  days: '3',
+  channel: 'SMS' as ReminderChannel,
+  template_ar_id: '',
+  template_fr_id: '',
+  is_active: true,
+}
+
+export function PaymentRemindersManager({ open, onOpenChange, clientId }: PaymentRemindersManagerProps) {
+  const { user, profile } = useAuth()
+  const canEdit = profile?.role === 'Owner'
+  const [view, setView] = useState<ReminderView>('due')
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [sending, setSending] = useState(false)
+  const [asOf, setAsOf] = useState(toDateString(new Date()))
+  const [dueReminders, setDueReminders] = useState<DueReminder[]>([])
+  const [log, setLog] = useState<ReminderLogRow[]>([])
+  const [rules, setRules] = useState<ReminderRule[]>([])
+  const [templates, setTemplates] = useState<ReminderTemplate[]>([])
+  const [editingTemplateId, setEditingTemplateId] = useState<string | null>(null)
+  const [templateForm, setTemplateForm] = useState<typeof EMPTY_TEMPLATE_FORM | null>(null)
+  const [editingRuleId, setEditingRuleId] = useState<string | null>(null)
+  const [ruleForm, setRuleForm] = useState<typeof EMPTY_RULE_FORM | null>(null)
+  const [deleteTarget, setDeleteTarget] = useState<{ table: 'reminder_templates' | 'reminder_rules'; id: string; name: string } | null>(null)
+
+  useEffect(() => {
+    if (open) {
+      setView(clientId || !canEdit ? 'log' : 'due')
+      setTemplateForm(null)
+      setRuleForm(null)
+      fetchData()
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, clientId])
+
+  const fetchData = async (date: string = asOf) => {
+    setLoading(true)
+    try {
+      let logQuery = supabase
+        .from('reminder_log')
+        .select('*, client:clients(name)')
+        .order('created_at', { ascending: false })
+        .limit(200)
+      if (clientId) logQuery = logQuery.eq('client_id', clientId)
+
+      // Due reminders are listed by the Edge Function, which only the Owner may call
+      const [dueRes, logRes, rulesRes, templatesRes] = await Promise.all([
+        canEdit
+          ? supabase.functions.invoke('send-reminders', { body: { asOf: date, clientId, dryRun: true } })
+          : Promise.resolve({ data: { data: [] }, error: null }),
+        logQuery,
+        supabase.from('reminder_rules').select('*').order('trigger_type').order('days'),
+        supabase.from('reminder_templates').select('*').order('name'),
+      ])
+
+      if (dueRes.error) throw dueRes.error
+      if (logRes.error) throw logRes.error
+      if (rulesRes.error) throw rulesRes.error
+      if (templatesRes.error) throw templatesRes.error
+
+      setDueReminders((dueRes.data as { data: DueReminder[] } | null)?.data || [])
+      setLog((logRes.data as ReminderLogRow[]) || [])
+      setRules((rulesRes.data as ReminderRule[]) || [])
+      setTemplates((templatesRes.data as ReminderTemplate[]) || [])
+    } catch (error) {
+      console.error('Error fetching reminders:', error)
+      showNotification('حدث خطأ أثناء تحميل التذكيرات: ' + (error as Error).message, 'error')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSendNow = async () => {
+    setSending(true)
+    try {
+      const { data, error } = await supabase.functions.invoke('send-reminders', {
+        body: { asOf, clientId },
+      })
+
+      if (error) throw error
+      const result = data as { provider: string; count: number; Sent: number; Failed: number; Logged: number }
+      if (!result.count) {
+        showNotification('لا توجد تذكيرات مستحقة لهذا التاريخ', 'success')
+      } else if (result.Failed > 0) {
+        showNotification(`تم إرسال ${result.Sent + result.Logged} تذكير، وفشل ${result.Failed}`, 'error')
+      } else {
+        showNotification(
+          result.provider === 'log'
+            ? `تم تسجيل ${result.Logged} تذكير (بدون إرسال فعلي)`
+            : `تم إرسال ${result.Sent} تذكير`,
+          'success'
+        )
+      }
+      fetchData()
+    } catch (error) {
+      console.error('Error sending reminders:', error)
+      showNotification('حدث خطأ أثناء إرسال التذكيرات: ' + (error as Error).message, 'error')
+    } finally {
+      setSending(false)
+    }
+  }
+
+  const openTemplateForm = (template?: ReminderTemplate) => {
+    setEditingTemplateId(template?.id || null)
+    setTemplateForm(template
+      ? { name: template.name, language: template.language, body: template.body, is_active: template.is_active }
+      : { ...EMPTY_TEMPLATE_FORM })
+  }
+
+  const handleSaveTemplate = async () => {
+    if (!templateForm) return
+    setSaving(true)
+    try {
+      const payload = {
+        name: templateForm.name.trim(),
+        language: templateForm.language,
+        body: templateForm.body.trim(),
+        is_active: templateForm.is_active,
+      }
+
+      const { error } = editingTemplateId
+        ? await supabase.from('reminder_templates').update(payload).eq('id', editingTemplateId)
+        : await supabase.from('reminder_templates').insert([{ ...payload, created_by: user?.id || null }])
+
+      if (error) throw error
+      showNotification('تم حفظ النموذج بنجاح', 'success')
+      setTemplateForm(null)
+      fetchData()
+    } catch (error) {
+      console.error('Error saving reminder template:', error)
+      showNotification('حدث خطأ أثناء الحفظ: ' + (error as Error).message, 'error')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const openRuleForm = (rule?: ReminderRule) => {
+    setEditingRuleId(rule?.id || null)
+    setRuleForm(rule
+      ? {
+          name: rule.name,
+          trigger_type: rule.trigger_type,
+          days: String(rule.days),
+          channel: rule.channel,
+          template_ar_id: rule.template_ar_id || '',
+          template_fr_id: rule.template_fr_id || '',
+          is_active: rule.is_active,
+        }
+      : { ...EMPTY_RULE_FORM })
+  }
+
+  const handleSaveRule = async () => {
+    if (!ruleForm) return
+    if (!ruleForm.template_ar_id && !ruleForm.template_fr_id) {
+      showNotification('يرجى اختيار نموذج رسالة واحد على الأقل', 'error')
+      return
+    }
+    setSaving(true)
+    try {
+      const payload = {
+        name: ruleForm.name.trim(),
+        trigger_type: ruleForm.trigger_type,
+        days: ruleForm.trigger_type === 'OnDue' ? 0 : Math.max(0, parseInt(ruleForm.days) || 0),
+        channel: ruleForm.channel,
+        template_ar_id: ruleForm.template_ar_id || null,
+        template_fr_id: ruleForm.template_fr_id || null,
+        is_active: ruleForm.is_active,
+      }
+
+      const { error } = editingRuleId
+        ? await supabase.from('reminder_rules').update(payload).eq('id', editingRuleId)
+        : await supabase.from('reminder_rules').insert([{ ...payload, created_by: user?.id || null }])
+
+      if (error) throw error
+      showNotification('تم حفظ القاعدة بنجاح', 'success')
+      setRuleForm(null)
+      fetchData()
+    } catch (error) {
+      console.error('Error saving reminder rule:', error)
+      showNotification('حدث خطأ أثناء الحفظ: ' + (error as Error).message, 'error')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return
+    try {
+      const { error } = await supabase.from(deleteTarget.table).delete().eq('id', deleteTarget.id)
+
+      if (error) throw error
+      showNotification('تم الحذف بنجاح', 'success')
+      setDeleteTarget(null)
+      fetchData()
+    } catch (error) {
+      console.error('Error deleting reminder setting:', error)
+      showNotification('حدث خطأ أثناء الحذف: ' + (error as Error).message, 'error')
+    }
+  }
+
+  const templateName = (id: string | null) => templates.find(t => t.id === id)?.name || '-'
+
+  const VIEWS: { value: ReminderView; label: string }[] = [
+    ...(canEdit ? [{ value: 'due' as ReminderView, label: `المستحقة (${dueReminders.length})` }] : []),
+    { value: 'log', label: 'سجل الإرسال' },
+    { value: 'rules', label: 'القواعد' },
+    { value: 'templates', label: 'نماذج الرسائل' },
+  ]
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{clientId ? 'تذكيرات العميل' : 'تذكيرات الدفع'}</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-2">
+          {VIEWS.map((item) => (
+            <Button
+              key={item.value}
+              size="sm"
+              variant={view === item.value ? 'default' : 'outline'}
+              onClick={() => setView(item.value)}
+            >
+              {item.label}
+            </Button>
+          ))}
+        </div>
+
+        {loading ? (
+          <div className="text-center py-8 text-muted-foreground">جاري التحميل...</div>
+        ) : (
+          <div className="space-y-4">
+            {view === 'due' && (
+              <>
+                <div className="flex flex-wrap items-end gap-2">
+                  <div>
+                    <Label htmlFor="reminders_as_of">تاريخ الإرسال</Label>
+                    <Input
+                      id="reminders_as_of"
+                      type="date"
+                      max={toDateString(new Date())}
+                      value={asOf}
+                      onChange={(e) => {
+                        setAsOf(e.target.value)
+                        if (e.target.value) fetchData(e.target.value)
+                      }}
+                    />
+                  </div>
+                  <span className="text-xs text-muted-foreground pb-2">
+                    التذكيرات المرسلة سابقاً لنفس القسط والقاعدة لا تظهر هنا
+                  </span>
+                </div>
+
+                {dueReminders.length === 0 ? (
+                  <div className="text-center py-6 text-muted-foreground">لا توجد تذكيرات مستحقة لهذا التاريخ</div>
+                ) : (
+                  <div className="space-y-2">
+                    {dueReminders.map((reminder) => (
+                      <div key={`${reminder.rule_id}-${reminder.installment_id}`} className="rounded-lg border p-3 space-y-1">
+                        <div className="flex flex-wrap items-center gap-2 text-sm">
+                          <span className="font-medium">{reminder.client_name}</span>
+                          <span className="text-muted-foreground" dir="ltr">{reminder.phone}</span>
+                          <Badge variant="outline">{REMINDER_CHANNEL_LABELS[reminder.channel]}</Badge>
+                          <Badge variant="secondary">{reminder.rule_name}</Badge>
+                          <span className="text-muted-foreground">
+                            القسط #{reminder.installment_number} - {formatDate(reminder.due_date)} - {formatCurrency(reminder.amount_due)}
+                          </span>
+                        </div>
+                        <p className="text-sm bg-muted/50 rounded p-2" dir={reminder.language === 'ar' ? 'rtl' : 'ltr'}>
+                          {renderReminderTemplate(reminder.template_body, reminder, reminder.language)}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+
+            {view === 'log' && (
+              log.length === 0 ? (
+                <div className="text-center py-6 text-muted-foreground">لم يُرسل أي تذكير بعد</div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>التاريخ</TableHead>
+                        {!clientId && <TableHead>العميل</TableHead>}
+                        <TableHead>الهاتف</TableHead>
+                        <TableHead>القناة</TableHead>
+                        <TableHead>الحالة</TableHead>
+                        <TableHead>الرسالة</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {log.map((entry) => (
+                        <TableRow key={entry.id}>
+                          <TableCell className="whitespace-nowrap text-xs">{formatDateTime(entry.created_at)}</TableCell>
+                          {!clientId && <TableCell>{entry.client?.name || '-'}</TableCell>}
+                          <TableCell dir="ltr" className="whitespace-nowrap">{entry.phone}</TableCell>
+                          <TableCell>{REMINDER_CHANNEL_LABELS[entry.channel]}</TableCell>
+                          <TableCell>
+                            <Badge variant={REMINDER_STATUS_LABELS[entry.status].variant}>
+                              {REMINDER_STATUS_LABELS[entry.status].label}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-xs max-w-xs">
+                            <div dir={entry.language === 'ar' ? 'rtl' : 'ltr'}>{entry.message}</div>
+                            {entry.error && <div className="text-destructive">{entry.error}</div>}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )
+            )}
+
+            {view === 'rules' && (
+              <>
+                {rules.length === 0 ? (
+                  <div className="text-center py-6 text-muted-foreground">لا توجد قواعد</div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>القاعدة</TableHead>
+                        <TableHead>التوقيت</TableHead>
+                        <TableHead>القناة</TableHead>
+                        <TableHead>النموذج (ع / ف)</TableHead>
+                        <TableHead>الحالة</TableHead>
+                        {canEdit && <TableHead></TableHead>}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rules.map((rule) => (
+                        <TableRow key={rule.id}>
+                          <TableCell className="font-medium">{rule.name}</TableCell>
+                          <TableCell>{describeReminderRule(rule)}</TableCell>
+                          <TableCell>{REMINDER_CHANNEL_LABELS[rule.channel]}</TableCell>
+                          <TableCell className="text-xs">
+                            {templateName(rule.template_ar_id)} / {templateName(rule.template_fr_id)}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={rule.is_active ? 'default' : 'outline'}>
+                              {rule.is_active ? 'نشطة' : 'متوقفة'}
+                            </Badge>
+                          </TableCell>
+                          {canEdit && (
+                            <TableCell>
+                              <div className="flex gap-1">
+                                <Button size="sm" variant="ghost" onClick={() => openRuleForm(rule)} title="تعديل">
+                                  <Edit className="h-4 w-4" />
+                                </Button>
+                                <Button size="sm" variant="ghost" onClick={() => setDeleteTarget({ table: 'reminder_rules', id: rule.id, name: rule.name })} title="حذف">
+                                  <Trash2 className="h-4 w-4 text-destructive" />
+                                </Button>
+                              </div>
+                            </TableCell>
+                          )}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+
+                {canEdit && !ruleForm && (
+                  <Button size="sm" variant="outline" onClick={() => openRuleForm()}>
+                    <Plus className="h-4 w-4 ml-2" />
+                    قاعدة جديدة
+                  </Button>
+                )}
+
+                {ruleForm && (
+                  <div className="rounded-lg border p-4 space-y-3">
+                    <div>
+                      <Label htmlFor="rule_name">اسم القاعدة *</Label>
+                      <Input
+                        id="rule_name"
+                        value={ruleForm.name}
+                        onChange={(e) => setRuleForm({ ...ruleForm, name: e.target.value })}
+                      />
+                    </div>
+                    <div className="grid grid-cols-3 gap-3">
+                      <div>
+                        <Label htmlFor="rule_trigger">التوقيت</Label>
+                        <Select
+                          id="rule_trigger"
+                          value={ruleForm.trigger_type}
+                          onChange={(e) => setRuleForm({ ...ruleForm, trigger_type: e.target.value as ReminderTriggerType })}
+                        >
+                          {(Object.keys(REMINDER_TRIGGER_LABELS) as ReminderTriggerType[]).map((type) => (
+                            <option key={type} value={type}>{REMINDER_TRIGGER_LABELS[type]}</option>
+                          ))}
+                        </Select>
+                      </div>
+                      <div>
+                        <Label htmlFor="rule_days">عدد الأيام</Label>
+                        <Input
+                          id="rule_days"
+                          type="number"
+                          min="0"
+                          value={ruleForm.trigger_type === 'OnDue' ? '0' : ruleForm.days}
+                          onChange={(e) => setRuleForm({ ...ruleForm, days: e.target.value })}
+                          disabled={ruleForm.trigger_type === 'OnDue'}
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="rule_channel">القناة</Label>
+                        <Select
+                          id="rule_channel"
+                          value={ruleForm.channel}
+                          onChange={(e) => setRuleForm({ ...ruleForm, channel: e.target.value as ReminderChannel })}
+                        >
+                          {(Object.keys(REMINDER_CHANNEL_LABELS) as ReminderChannel[]).map((channel) => (
+                            <option key={channel} value={channel}>{REMINDER_CHANNEL_LABELS[channel]}</option>
+                          ))}
+                        </Select>
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <Label htmlFor="rule_template_ar">النموذج بالعربية</Label>
+                        <Select
+                          id="rule_template_ar"
+                          value={ruleForm.template_ar_id}
+                          onChange={(e) => setRuleForm({ ...ruleForm, template_ar_id: e.target.value })}
+                        >
+                          <option value="">بدون</option>
+                          {templates.filter(t => t.language === 'ar').map((t) => (
+                            <option key={t.id} value={t.id}>{t.name}</option>
+                          ))}
+                        </Select>
+                      </div>
+                      <div>
+                        <Label htmlFor="rule_template_fr">النموذج بالفرنسية</Label>
+                        <Select
+                          id="rule_template_fr"
+                          value={ruleForm.template_fr_id}
+                          onChange={(e) => setRuleForm({ ...ruleForm, template_fr_id: e.target.value })}
+                        >
+                          <option value="">بدون</option>
+                          {templates.filter(t => t.language === 'fr').map((t) => (
+                            <option key={t.id} value={t.id}>{t.name}</option>
+                          ))}
+                        </Select>
+                      </div>
+                    </div>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={ruleForm.is_active}
+                        onChange={(e) => setRuleForm({ ...ruleForm, is_active: e.target.checked })}
+                        className="rounded"
+                      />
+                      <span className="text-sm">القاعدة مفعلة</span>
+                    </label>
+                    <div className="flex gap-2">
+                      <Button size="sm" onClick={handleSaveRule} disabled={saving || !ruleForm.name.trim()}>
+                        {saving ? 'جاري الحفظ...' : 'حفظ'}
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => setRuleForm(null)}>
+                        إلغاء
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+
+            {view === 'templates' && (
+              <>
+                {templates.length === 0 ? (
+                  <div className="text-center py-6 text-muted-foreground">لا توجد نماذج</div>
+                ) : (
+                  <div className="space-y-2">
+                    {templates.map((template) => (
+                      <div key={template.id} className="rounded-lg border p-3 space-y-1">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium text-sm">{template.name}</span>
+                          <Badge variant="outline">{template.language === 'ar' ? 'العربية' : 'الفرنسية'}</Badge>
+                          {!template.is_active && <Badge variant="secondary">متوقف</Badge>}
+                          {canEdit && (
+                            <div className="flex gap-1 mr-auto">
+                              <Button size="sm" variant="ghost" onClick={() => openTemplateForm(template)} title="تعديل">
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                              <Button size="sm" variant="ghost" onClick={() => setDeleteTarget({ table: 'reminder_templates', id: template.id, name: template.name })} title="حذف">
+                                <Trash2 className="h-4 w-4 text-destructive" />
+                              </Button>
+                            </div>
+                          )}
+                        </div>
+                        <p className="text-xs text-muted-foreground" dir={template.language === 'ar' ? 'rtl' : 'ltr'}>
+                          {template.body}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {canEdit && !templateForm && (
+                  <Button size="sm" variant="outline" onClick={() => openTemplateForm()}>
+                    <Plus className="h-4 w-4 ml-2" />
+                    نموذج جديد
+                  </Button>
+                )}
+
+                {templateForm && (
+                  <div className="rounded-lg border p-4 space-y-3">
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <Label htmlFor="template_name">اسم النموذج *</Label>
+                        <Input
+                          id="template_name"
+                          value={templateForm.name}
+                          onChange={(e) => setTemplateForm({ ...templateForm, name: e.target.value })}
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="template_language">اللغة</Label>
+                        <Select
+                          id="template_language"
+                          value={templateForm.language}
+                          onChange={(e) => setTemplateForm({ ...templateForm, language: e.target.value as DocumentLanguage })}
+                        >
+                          <option value="ar">العربية</option>
+                          <option value="fr">الفرنسية</option>
+                        </Select>
+                      </div>
+                    </div>
+                    <div>
+                      <Label htmlFor="template_body">نص الرسالة *</Label>
+                      <Textarea
+                        id="template_body"
+                        value={templateForm.body}
+                        onChange={(e) => setTemplateForm({ ...templateForm, body: e.target.value })}
+                        rows={3}
+                        dir={templateForm.language === 'ar' ? 'rtl' : 'ltr'}
+                      />
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {REMINDER_PLACEHOLDERS.map((placeholder) => (
+                          <Button
+                            key={placeholder.key}
+                            type="button"
+                            size="sm"
+                            variant="outline"
+                            className="h-6 text-xs"
+                            title={placeholder.key}
+                            onClick={() => setTemplateForm({ ...templateForm, body: `${templateForm.body}${placeholder.key}` })}
+                          >
+                            {placeholder.label}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                    {templateForm.body.trim() && (
+                      <div>
+                        <Label>معاينة</Label>
+                        <p className="text-sm bg-muted/50 rounded p-2" dir={templateForm.language === 'ar' ? 'rtl' : 'ltr'}>
+                          {renderReminderTemplate(templateForm.body, SAMPLE_REMINDER_VALUES, templateForm.language)}
+                        </p>
+                      </div>
+                    )}
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={templateForm.is_active}
+                        onChange={(e) => setTemplateForm({ ...templateForm, is_active: e.target.checked })}
+                        className="rounded"
+                      />
+                      <span className="text-sm">النموذج مفعل</span>
+                    </label>
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        onClick={handleSaveTemplate}
+                        disabled={saving || !templateForm.name.trim() || !templateForm.body.trim()}
+                      >
+                        {saving ? 'جاري الحفظ...' : 'حفظ'}
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => setTemplateForm(null)}>
+                        إلغاء
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            إغلاق
+          </Button>
+          {view === 'due' && (
+            <Button onClick={handleSendNow} disabled={loading || sending || dueReminders.length === 0}>
+              <Send className="h-4 w-4 ml-2" />
+              {sending ? 'جاري الإرسال...' : 'إرسال التذكيرات الآن'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+
+      <ConfirmDialog
+        open={!!deleteTarget}
+        onOpenChange={(isOpen) => !isOpen && setDeleteTarget(null)}
+        onConfirm={handleDelete}
+        title={deleteTarget?.table === 'reminder_rules' ? 'حذف القاعدة' : 'حذف النموذج'}
+        description={`سيتم حذف "${deleteTarget?.name || ''}". التذكيرات المرسلة سابقاً تبقى في السجل. هل أنت متأكد؟`}
+      />
+    </Dialog>
+  )
+}
@@ -0,0 +1,399 @@
+import { useEffect, useMemo, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/contexts/AuthContext'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select } from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import { showNotification } from '@/components/ui/notification'
+import { Printer } from 'lucide-react'
+import { formatCurrency, formatDate } from '@/lib/utils'
+import { toDateString } from '@/lib/installmentSchedule'
+import {
+  PAYOFF_DISCOUNT_LABELS,
+  buildPayoffQuoteDocument,
+  calculatePayoffQuote,
+  isPayoffQuoteExpired,
+} from '@/lib/payoffQuote'
+import { printHtmlDocument } from '@/lib/printDocument'
+import type { Client, DocumentLanguage, Installment, PayoffDiscountType, PayoffQuote, Sale } from '@/types/database'
+
+interface PayoffQuoteDialogProps {
+  saleId: string | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Called once the client paid the quote and the sale is completed
+  onAccepted?: (quote: PayoffQuote) => void
+}
+
+type QuoteSale = Sale & { client: Pick<Client, 'name' | 'cin' | 'phone'> | null }
+
+// Quotes are valid one week by default
+const DEFAULT_VALIDITY_DAYS = 7
+
+const defaultValidUntil = () => {
+  const date = new Date()
+  date.setDate(date.getDate() + DEFAULT_VALIDITY_DAYS)
+  return toDateString(date)
+}
+
+export function PayoffQuoteDialog({ saleId, open, onOpenChange, onAccepted }: PayoffQuoteDialogProps) {
+  const { profile } = useAuth()
+  // Discounts and penalty waivers are granted by the Owner only
+  const canGrantConcessions = profile?.role === 'Owner'
+  const [sale, setSale] = useState<QuoteSale | null>(null)
+  const [items, setItems] = useState<string[]>([])
+  const [installments, setInstallments] = useState<Installment[]>([])
+  const [quote, setQuote] = useState<PayoffQuote | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [language, setLanguage] = useState<DocumentLanguage>('ar')
+  const [form, setForm] = useState({
+    discount_type: 'None' as PayoffDiscountType,
+    discount_value: '',
+    waive_penalties: false,
+    valid_until: defaultValidUntil(),
+    payment_method: 'Cash',
+  })
+
+  useEffect(() => {
+    if (open && saleId) fetchQuoteData(saleId)
+  }, [open, saleId])
+
+  const fetchQuoteData = async (id: string) => {
+    setLoading(true)
+    setSale(null)
+    setQuote(null)
+    try {
+      const { data: saleRow, error: saleError } = await supabase
+        .from('sales')
+        .select('*, client:clients(name, cin, phone)')
+        .eq('id', id)
+        .single()
+
+      if (saleError) throw saleError
+      const saleData = saleRow as QuoteSale
+
+      const [piecesResult, installmentsResult, quoteResult] = await Promise.all([
+        saleData.land_piece_ids && saleData.land_piece_ids.length > 0
+          ? supabase
+              .from('land_pieces')
+              .select('piece_number, land_batch:land_batches(name)')
+              .in('id', saleData.land_piece_ids)
+          : Promise.resolve({ data: [], error: null }),
+        supabase
+          .from('installments')
+          .select('*')
+          .eq('sale_id', id)
+          .order('installment_number', { ascending: true }),
+        supabase
+          .from('payoff_quotes')
+          .select('*')
+          .eq('sale_id', id)
+          .eq('status', 'Pending')
+          .order('created_at', { ascending: false })
+          .limit(1),
+      ])
+
+      if (piecesResult.error) throw piecesResult.error
+      if (installmentsResult.error) throw installmentsResult.error
+      if (quoteResult.error) throw quoteResult.error
+
+      const pieces = (piecesResult.data || []) as Array<{ piece_number: string; land_batch: { name: string } | null }>
+      setItems(pieces
+        .sort((a, b) => a.piece_number.localeCompare(b.piece_number, undefined, { numeric: true }))
+        .map(p => `${p.land_batch?.name || ''} #${p.piece_number}`.trim()))
+      setInstallments((installmentsResult.data as Installment[]) || [])
+      setQuote(((quoteResult.data || []) as PayoffQuote[])[0] || null)
+      setForm({
+        discount_type: 'None',
+        discount_value: '',
+        waive_penalties: false,
+        valid_until: defaultValidUntil(),
+        payment_method: 'Cash',
+      })
+      setSale(saleData)
+    } catch (error) {
+      console.error('Error loading payoff quote:', error)
+      showNotification('حدث خطأ أثناء تحميل بيانات السداد: ' + (error as Error).message, 'error')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const preview = useMemo(() => calculatePayoffQuote(installments, {
+    discountType: form.discount_type,
+    discountValue: parseFloat(form.discount_value) || 0,
+    waivePenalties: form.waive_penalties,
+  }), [installments, form.discount_type, form.discount_value, form.waive_penalties])
+
+  const documentHtml = useMemo(() => {
+    if (!sale || !quote) return ''
+    return buildPayoffQuoteDocument({
+      quote,
+      saleDate: sale.sale_date,
+      client: sale.client || { name: '', cin: '', phone: null },
+      items,
+    }, language)
+  }, [sale, quote, items, language])
+
+  const expired = !!quote && isPayoffQuoteExpired(quote)
+
+  const handleCreateQuote = async () => {
+    if (!sale) return
+
+    if (form.discount_type === 'Percentage' && (parseFloat(form.discount_value) || 0) > 100) {
+      showNotification('نسبة الخصم لا يمكن أن تتجاوز 100%', 'error')
+      return
+    }
+    if (!form.valid_until || form.valid_until < toDateString(new Date())) {
+      showNotification('تاريخ صلاحية العرض يجب أن يكون اليوم أو بعده', 'error')
+      return
+    }
+
+    setSaving(true)
+    try {
+      const { data, error } = await supabase.rpc('create_payoff_quote', {
+        p_sale_id: sale.id,
+        p_valid_until: form.valid_until,
+        p_discount_type: form.discount_type,
+        p_discount_value: parseFloat(form.discount_value) || 0,
+        p_waive_penalties: form.waive_penalties,
+      })
+
+      if (error) throw error
+
+      setQuote(data as PayoffQuote)
+      showNotification('تم إصدار عرض السداد', 'success')
+    } catch (error) {
+      console.error('Error creating payoff quote:', error)
+      showNotification('حدث خطأ أثناء إصدار العرض: ' + (error as Error).message, 'error')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleAccept = async () => {
+    if (!quote) return
+
+    setSaving(true)
+    try {
+      const { data, error } = await supabase.rpc('accept_payoff_quote', {
+        p_quote_id: quote.id,
+        p_payment_method: form.payment_method,
+      })
+
+      if (error) throw error
+
+      showNotification('تم سداد البيع بالكامل وإغلاقه', 'success')
+      onOpenChange(false)
+      onAccepted?.(data as PayoffQuote)
+    } catch (error) {
+      console.error('Error accepting payoff quote:', error)
+      showNotification('حدث خطأ أثناء تسجيل السداد: ' + (error as Error).message, 'error')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const summaryRows = (result: { remainingPrincipal: number; discountAmount: number; outstandingPenalties: number; waivePenalties: boolean; payoffAmount: number }) => (
+    <div className="grid grid-cols-2 gap-2 text-sm bg-gray-50 p-3 rounded-lg border">
+      <span className="text-muted-foreground">المتبقي من الأقساط:</span>
+      <span className="font-medium">{formatCurrency(result.remainingPrincipal)}</span>
+      {result.discountAmount > 0 && (
+        <>
+          <span className="text-muted-foreground">الخصم:</span>
+          <span className="font-medium text-green-600">- {formatCurrency(result.discountAmount)}</span>
+        </>
+      )}
+      {result.outstandingPenalties > 0 && (
+        <>
+          <span className="text-muted-foreground">غرامات التأخير:</span>
+          <span className={`font-medium ${result.waivePenalties ? 'line-through text-muted-foreground' : 'text-red-600'}`}>
+            {formatCurrency(result.outstandingPenalties)}
+          </span>
+        </>
+      )}
+      <span className="text-muted-foreground font-semibold">المبلغ الواجب دفعه:</span>
+      <span className="font-bold text-primary">{formatCurrency(result.payoffAmount)}</span>
+    </div>
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[95vw] max-w-3xl max-h-[95vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>عرض السداد المسبق</DialogTitle>
+        </DialogHeader>
+
+        {loading || !sale ? (
+          <div className="text-center py-12 text-muted-foreground">
+            {loading ? 'جاري التحميل...' : 'لا توجد بيانات'}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="bg-blue-50 p-3 rounded-lg border border-blue-200 text-sm space-y-1">
+              <p><strong>العميل:</strong> {sale.client?.name} ({sale.client?.cin})</p>
+              <p><strong>البيع:</strong> {items.join('، ') || '-'}</p>
+              <p><strong>الأقساط المتبقية:</strong> {preview.openInstallments}</p>
+            </div>
+
+            {quote ? (
+              <>
+                <div className="flex items-center justify-between text-sm">
+                  <span>
+                    صالح إلى غاية <strong>{formatDate(quote.valid_until)}</strong>
+                  </span>
+                  <Badge variant={expired ? 'destructive' : 'warning'}>
+                    {expired ? 'منتهي الصلاحية' : 'في الانتظار'}
+                  </Badge>
+                </div>
+
+                {summaryRows({
+                  remainingPrincipal: quote.remaining_principal,
+                  discountAmount: quote.discount_amount,
+                  outstandingPenalties: quote.outstanding_penalties,
+                  waivePenalties: quote.waive_penalties,
+                  payoffAmount: quote.payoff_amount,
+                })}
+
+                {!expired && (
+                  <div className="space-y-2">
+                    <Label htmlFor="payoff_method">طريقة الدفع</Label>
+                    <Select
+                      id="payoff_method"
+                      value={form.payment_method}
+                      onChange={(e) => setForm({ ...form, payment_method: e.target.value })}
+                    >
+                      <option value="Cash">نقدي</option>
+                      <option value="BankTransfer">تحويل بنكي</option>
+                      <option value="Check">شيك</option>
+                      <option value="Other">أخرى</option>
+                    </Select>
+                  </div>
+                )}
+
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant={language === 'ar' ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setLanguage('ar')}
+                  >
+                    العربية
+                  </Button>
+                  <Button
+                    variant={language === 'fr' ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setLanguage('fr')}
+                  >
+                    Français
+                  </Button>
+                  <Button variant="ghost" size="sm" className="mr-auto" onClick={() => setQuote(null)}>
+                    عرض جديد
+                  </Button>
+                </div>
+                {documentHtml && (
+                  <iframe
+                    title="payoff-quote-preview"
+                    srcDoc={documentHtml}
+                    className="w-full h-[45vh] border rounded-md bg-white"
+                  />
+                )}
+              </>
+            ) : preview.remainingPrincipal <= 0 ? (
+              <div className="text-center py-6 text-muted-foreground">
+                لا يوجد رصيد متبقي على هذا البيع
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {canGrantConcessions && (
+                    <div className="space-y-2">
+                      <Label htmlFor="payoff_discount_type">الخصم</Label>
+                      <Select
+                        id="payoff_discount_type"
+                        value={form.discount_type}
+                        onChange={(e) => setForm({ ...form, discount_type: e.target.value as PayoffDiscountType, discount_value: '' })}
+                      >
+                        {(Object.keys(PAYOFF_DISCOUNT_LABELS) as PayoffDiscountType[]).map(type => (
+                          <option key={type} value={type}>{PAYOFF_DISCOUNT_LABELS[type].ar}</option>
+                        ))}
+                      </Select>
+                    </div>
+                  )}
+                  {canGrantConcessions && form.discount_type !== 'None' && (
+                    <div className="space-y-2">
+                      <Label htmlFor="payoff_discount_value">
+                        {form.discount_type === 'Fixed' ? 'مبلغ الخصم' : 'النسبة (%)'}
+                      </Label>
+                      <Input
+                        id="payoff_discount_value"
+                        type="number"
+                        min="0"
+                        max={form.discount_type === 'Percentage' ? '100' : undefined}
+                        step="0.01"
+                        value={form.discount_value}
+                        onChange={(e) => setForm({ ...form, discount_value: e.target.value })}
+                      />
+                    </div>
+                  )}
+                  <div className="space-y-2">
+                    <Label htmlFor="payoff_valid_until">صالح إلى غاية</Label>
+                    <Input
+                      id="payoff_valid_until"
+                      type="date"
+                      min={toDateString(new Date())}
+                      value={form.valid_until}
+                      onChange={(e) => setForm({ ...form, valid_until: e.target.value })}
+                    />
+                  </div>
+                  {canGrantConcessions && preview.outstandingPenalties > 0 && (
+                    <label className="flex items-center gap-2 text-sm self-end pb-2">
+                      <input
+                        type="checkbox"
+                        checked={form.waive_penalties}
+                        onChange={(e) => setForm({ ...form, waive_penalties: e.target.checked })}
+                      />
+                      الإعفاء من غرامات التأخير
+                    </label>
+                  )}
+                </div>
+
+                {summaryRows({ ...preview, waivePenalties: form.waive_penalties })}
+              </>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            إغلاق
+          </Button>
+          {quote ? (
+            <>
+              <Button variant="outline" onClick={() => printHtmlDocument(documentHtml)} disabled={!documentHtml}>
+                <Printer className="h-4 w-4 ml-2" />
+                طباعة العرض
+              </Button>
+              <Button onClick={handleAccept} disabled={saving || expired}>
+                {saving ? 'جاري التسجيل...' : `قبول ودفع ${formatCurrency(quote.payoff_amount)}`}
+              </Button>
+            </>
+          ) : sale && preview.remainingPrincipal > 0 && (
+            <Button onClick={handleCreateQuote} disabled={saving || loading}>
+              {saving ? 'جاري الإصدار...' : 'إصدار العرض'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
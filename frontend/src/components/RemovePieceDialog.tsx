@@ -0,0 +1,275 @@
+import { useEffect, useMemo, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { showNotification } from '@/components/ui/notification'
+import { formatCurrency, formatDate } from '@/lib/utils'
+import { calculatePieceRemoval, type InstallmentChangeAction } from '@/lib/pieceRemoval'
+import type { Installment, LandPiece, Payment, Sale, SalePieceRemoval } from '@/types/database'
+
+interface RemovePieceDialogProps {
+  saleId: string | null
+  pieceId: string | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Called once the piece is removed from the sale
+  onRemoved?: (removal: SalePieceRemoval) => void
+}
+
+const ACTION_LABELS: Record<InstallmentChangeAction, { label: string; variant: 'secondary' | 'warning' | 'success' | 'destructive' }> = {
+  keep: { label: 'بدون تغيير', variant: 'secondary' },
+  update: { label: 'تعديل', variant: 'warning' },
+  paid: { label: 'مسدد', variant: 'success' },
+  delete: { label: 'حذف', variant: 'destructive' },
+}
+
+type RemovalPiece = Pick<LandPiece, 'id' | 'piece_number' | 'selling_price_full' | 'selling_price_installment' | 'purchase_cost'>
+
+export function RemovePieceDialog({ saleId, pieceId, open, onOpenChange, onRemoved }: RemovePieceDialogProps) {
+  const [sale, setSale] = useState<Sale | null>(null)
+  const [pieces, setPieces] = useState<RemovalPiece[]>([])
+  const [installments, setInstallments] = useState<Installment[]>([])
+  const [payments, setPayments] = useState<Pick<Payment, 'amount_paid' | 'payment_type'>[]>([])
+  const [reason, setReason] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (open && saleId) fetchSaleData(saleId)
+  }, [open, saleId, pieceId])
+
+  const fetchSaleData = async (id: string) => {
+    setLoading(true)
+    setSale(null)
+    setReason('')
+    try {
+      const { data: saleRow, error: saleError } = await supabase
+        .from('sales')
+        .select('*')
+        .eq('id', id)
+        .single()
+
+      if (saleError) throw saleError
+      const saleData = saleRow as Sale
+
+      const [piecesResult, installmentsResult, paymentsResult] = await Promise.all([
+        supabase
+          .from('land_pieces')
+          .select('id, piece_number, selling_price_full, selling_price_installment, purchase_cost')
+          .in('id', saleData.land_piece_ids || []),
+        supabase
+          .from('installments')
+          .select('*')
+          .eq('sale_id', id)
+          .order('installment_number', { ascending: true }),
+        supabase
+          .from('payments')
+          .select('amount_paid, payment_type')
+          .eq('sale_id', id),
+      ])
+
+      if (piecesResult.error) throw piecesResult.error
+      if (installmentsResult.error) throw installmentsResult.error
+      if (paymentsResult.error) throw paymentsResult.error
+
+      setPieces((piecesResult.data as RemovalPiece[]) || [])
+      setInstallments((installmentsResult.data as Installment[]) || [])
+      setPayments(paymentsResult.data || [])
+      setSale(saleData)
+    } catch (error) {
+      console.error('Error loading sale for piece removal:', error)
+      showNotification('حدث خطأ أثناء تحميل بيانات البيع: ' + (error as Error).message, 'error')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const piece = pieces.find(p => p.id === pieceId) || null
+
+  const plan = useMemo(() => {
+    if (!sale || !pieceId) return null
+    return calculatePieceRemoval({ sale, pieces, pieceId, installments, payments })
+  }, [sale, pieces, pieceId, installments, payments])
+
+  const changedInstallments = (plan?.installments || []).filter(change => change.action !== 'keep')
+
+  const handleRemove = async () => {
+    if (!sale || !pieceId) return
+
+    if (!reason.trim()) {
+      showNotification('يرجى إدخال سبب الإلغاء', 'error')
+      return
+    }
+
+    setSaving(true)
+    try {
+      const { data, error } = await supabase.rpc('remove_piece_from_sale', {
+        p_sale_id: sale.id,
+        p_piece_id: pieceId,
+        p_reason: reason.trim(),
+      })
+
+      if (error) throw error
+
+      const removal = data as SalePieceRemoval
+      showNotification(
+        removal.overpayment_amount > 0
+          ? `تم إلغاء القطعة. يجب إرجاع ${formatCurrency(removal.overpayment_amount)} للعميل`
+          : 'تم إلغاء القطعة وتحديث البيع بنجاح',
+        'success'
+      )
+      onOpenChange(false)
+      onRemoved?.(removal)
+    } catch (error) {
+      console.error('Error removing piece from sale:', error)
+      showNotification('حدث خطأ أثناء إلغاء القطعة: ' + (error as Error).message, 'error')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const blocked = !!sale && (sale.status === 'Cancelled' || (sale.land_piece_ids || []).length < 2)
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[95vw] max-w-2xl max-h-[95vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-destructive">
+            إلغاء قطعة من البيع{piece ? ` - #${piece.piece_number}` : ''}
+          </DialogTitle>
+        </DialogHeader>
+
+        {loading || !sale || !plan ? (
+          <div className="text-center py-12 text-muted-foreground">
+            {loading ? 'جاري التحميل...' : 'لا توجد بيانات'}
+          </div>
+        ) : blocked ? (
+          <div className="text-center py-6 text-muted-foreground">
+            {sale.status === 'Cancelled'
+              ? 'هذا البيع ملغى بالفعل'
+              : 'البيع يحتوي على قطعة واحدة فقط، يرجى إلغاء البيع بالكامل'}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-2 text-sm bg-gray-50 p-3 rounded-lg border">
+              <span></span>
+              <span className="text-muted-foreground">قبل</span>
+              <span className="text-muted-foreground">بعد</span>
+
+              <span className="text-muted-foreground">عدد القطع</span>
+              <span>{sale.land_piece_ids.length}</span>
+              <span>{sale.land_piece_ids.length - 1}</span>
+
+              <span className="text-muted-foreground">سعر البيع</span>
+              <span>{formatCurrency(sale.total_selling_price || 0)}</span>
+              <span className="font-medium">{formatCurrency(plan.newTotalPrice)}</span>
+
+              <span className="text-muted-foreground">العمولة</span>
+              <span>{formatCurrency(sale.company_fee_amount || 0)}</span>
+              <span className="font-medium">{formatCurrency(sale.company_fee_amount === null ? 0 : plan.newCompanyFee)}</span>
+
+              {plan.installments.length > 0 && (
+                <>
+                  <span className="text-muted-foreground">المتبقي في الأقساط</span>
+                  <span>{formatCurrency(plan.oldOpenBalance)}</span>
+                  <span className="font-medium">{formatCurrency(plan.newOpenBalance)}</span>
+                </>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              <span className="text-muted-foreground">حصة القطعة من البيع:</span>
+              <span>{(plan.share * 100).toFixed(1)}% ({formatCurrency(plan.removedPrice)})</span>
+              <span className="text-muted-foreground">المدفوع عن القطعة:</span>
+              <span>{formatCurrency(plan.creditAmount)}</span>
+              {plan.creditApplied > 0 && (
+                <>
+                  <span className="text-muted-foreground">مخصوم من الأقساط:</span>
+                  <span className="text-green-600">{formatCurrency(plan.creditApplied)}</span>
+                </>
+              )}
+            </div>
+
+            {plan.overpayment > 0 && (
+              <div className="bg-orange-50 p-3 rounded-lg border border-orange-200 text-sm text-orange-800">
+                دفع العميل أكثر من المستحق بعد الإلغاء: يجب إرجاع <strong>{formatCurrency(plan.overpayment)}</strong>
+              </div>
+            )}
+
+            {changedInstallments.length > 0 && (
+              <div className="space-y-2">
+                <Label>الأقساط المعدلة</Label>
+                <div className="max-h-56 overflow-y-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>#</TableHead>
+                        <TableHead>التاريخ</TableHead>
+                        <TableHead>المتبقي قبل</TableHead>
+                        <TableHead>المتبقي بعد</TableHead>
+                        <TableHead></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {changedInstallments.map(change => (
+                        <TableRow key={change.id}>
+                          <TableCell>{change.installment_number}</TableCell>
+                          <TableCell>{formatDate(change.due_date)}</TableCell>
+                          <TableCell>{formatCurrency(change.oldOutstanding)}</TableCell>
+                          <TableCell>{formatCurrency(change.newOutstanding)}</TableCell>
+                          <TableCell>
+                            <Badge variant={ACTION_LABELS[change.action].variant}>{ACTION_LABELS[change.action].label}</Badge>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="piece_removal_reason">سبب الإلغاء *</Label>
+              <Textarea
+                id="piece_removal_reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                rows={2}
+              />
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              ستعود القطعة إلى حالة "متاحة" ويبقى باقي البيع كما هو.
+            </p>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            تراجع
+          </Button>
+          <Button variant="destructive" onClick={handleRemove} disabled={saving || loading || !plan || blocked}>
+            {saving ? 'جاري الإلغاء...' : 'إلغاء القطعة'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,405 @@
+import { useEffect, useMemo, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select } from '@/components/ui/select'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { showNotification } from '@/components/ui/notification'
+import { formatCurrency, formatDate } from '@/lib/utils'
+import { addMonths, toDateString } from '@/lib/installmentSchedule'
+import { getInstallmentOutstanding, getOutstandingPenalty } from '@/lib/latePenalties'
+import { buildRestructuringPlan } from '@/lib/installmentRestructuring'
+import type { Installment, InstallmentRestructuring, Sale } from '@/types/database'
+
+interface RestructureInstallmentsDialogProps {
+  saleId: string | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Called once the new schedule replaces the open installments
+  onRestructured?: (restructuring: InstallmentRestructuring) => void
+}
+
+type RestructuringMode = 'months' | 'monthly'
+
+type RestructuringHistoryEntry = InstallmentRestructuring & { approved_by_user: { name: string } | null }
+
+export function RestructureInstallmentsDialog({ saleId, open, onOpenChange, onRestructured }: RestructureInstallmentsDialogProps) {
+  const [sale, setSale] = useState<Sale | null>(null)
+  const [installments, setInstallments] = useState<Installment[]>([])
+  const [history, setHistory] = useState<RestructuringHistoryEntry[]>([])
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [form, setForm] = useState({
+    mode: 'months' as RestructuringMode,
+    number_of_months: '',
+    monthly_amount: '',
+    start_date: addMonths(new Date(), 1),
+    holiday_months: '0',
+    balloon_amount: '',
+    reason: '',
+  })
+
+  useEffect(() => {
+    if (open && saleId) fetchRestructuringData(saleId)
+  }, [open, saleId])
+
+  const fetchRestructuringData = async (id: string) => {
+    setLoading(true)
+    setSale(null)
+    try {
+      const [saleResult, installmentsResult, historyResult] = await Promise.all([
+        supabase
+          .from('sales')
+          .select('*')
+          .eq('id', id)
+          .single(),
+        supabase
+          .from('installments')
+          .select('*')
+          .eq('sale_id', id)
+          .order('installment_number', { ascending: true }),
+        supabase
+          .from('installment_restructurings')
+          .select('*, approved_by_user:users(name)')
+          .eq('sale_id', id)
+          .order('created_at', { ascending: false }),
+      ])
+
+      if (saleResult.error) throw saleResult.error
+      if (installmentsResult.error) throw installmentsResult.error
+      if (historyResult.error) throw historyResult.error
+
+      const saleData = saleResult.data as Sale
+      const rows = (installmentsResult.data as Installment[]) || []
+      const openCount = rows.filter(i => i.status !== 'Paid').length
+
+      setInstallments(rows)
+      setHistory((historyResult.data as RestructuringHistoryEntry[]) || [])
+      setForm({
+        mode: 'months',
+        number_of_months: openCount > 0 ? String(openCount) : '',
+        monthly_amount: saleData.monthly_installment_amount ? String(saleData.monthly_installment_amount) : '',
+        start_date: addMonths(new Date(), 1),
+        holiday_months: '0',
+        balloon_amount: '',
+        reason: '',
+      })
+      setSale(saleData)
+    } catch (error) {
+      console.error('Error loading installments for restructuring:', error)
+      showNotification('حدث خطأ أثناء تحميل الأقساط: ' + (error as Error).message, 'error')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const plan = useMemo(() => {
+    if (!sale) return null
+    return buildRestructuringPlan(installments, {
+      numberOfMonths: form.mode === 'months' ? parseInt(form.number_of_months) || null : null,
+      monthlyAmount: form.mode === 'monthly' ? parseFloat(form.monthly_amount) || null : null,
+      startDate: form.start_date || toDateString(new Date()),
+      holidayMonths: parseInt(form.holiday_months) || 0,
+      balloonAmount: parseFloat(form.balloon_amount) || 0,
+    })
+  }, [sale, installments, form])
+
+  const oldInstallments = plan?.balance.openInstallments || []
+  const oldEndDate = oldInstallments.length > 0 ? oldInstallments[oldInstallments.length - 1].due_date : null
+
+  const handleRestructure = async () => {
+    if (!sale || !plan) return
+
+    if (!form.reason.trim()) {
+      showNotification('يرجى إدخال سبب إعادة الجدولة', 'error')
+      return
+    }
+
+    if ((parseFloat(form.balloon_amount) || 0) > plan.balance.total) {
+      showNotification('الدفعة النهائية أكبر من الرصيد المتبقي', 'error')
+      return
+    }
+
+    if (plan.schedule.length === 0) {
+      showNotification('يرجى تحديد عدد الأشهر أو المبلغ الشهري', 'error')
+      return
+    }
+
+    setSaving(true)
+    try {
+      const { data, error } = await supabase.rpc('restructure_installments', {
+        p_sale_id: sale.id,
+        p_schedule: plan.schedule.map(line => ({ due_date: line.due_date, amount: line.amount })),
+        p_reason: form.reason.trim(),
+        p_monthly_amount: plan.monthlyAmount || null,
+        p_holiday_months: plan.holidayMonths,
+        p_balloon_amount: plan.balloonAmount,
+      })
+
+      if (error) throw error
+
+      showNotification('تمت إعادة جدولة الأقساط بنجاح', 'success')
+      onOpenChange(false)
+      onRestructured?.(data as InstallmentRestructuring)
+    } catch (error) {
+      console.error('Error restructuring installments:', error)
+      showNotification('حدث خطأ أثناء إعادة الجدولة: ' + (error as Error).message, 'error')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const noBalance = !!plan && plan.balance.total <= 0
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[95vw] max-w-4xl max-h-[95vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>إعادة جدولة الأقساط</DialogTitle>
+        </DialogHeader>
+
+        {loading || !sale || !plan ? (
+          <div className="text-center py-12 text-muted-foreground">
+            {loading ? 'جاري التحميل...' : 'لا توجد بيانات'}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {noBalance ? (
+              <div className="text-center py-6 text-muted-foreground">
+                لا يوجد رصيد متبقي لإعادة جدولته
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 text-sm bg-gray-50 p-3 rounded-lg border">
+                  <div>
+                    <span className="text-muted-foreground">المتبقي من الأقساط: </span>
+                    <span className="font-medium">{formatCurrency(plan.balance.installmentsBalance)}</span>
+                  </div>
+                  {plan.balance.penalties > 0 && (
+                    <div>
+                      <span className="text-muted-foreground">غرامات غير محصلة: </span>
+                      <span className="font-medium text-orange-600">{formatCurrency(plan.balance.penalties)}</span>
+                    </div>
+                  )}
+                  <div>
+                    <span className="text-muted-foreground">الرصيد المعاد جدولته: </span>
+                    <span className="font-bold">{formatCurrency(plan.balance.total)}</span>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="restructuring_mode">طريقة الحساب</Label>
+                    <Select
+                      id="restructuring_mode"
+                      value={form.mode}
+                      onChange={(e) => setForm({ ...form, mode: e.target.value as RestructuringMode })}
+                    >
+                      <option value="months">عدد الأشهر</option>
+                      <option value="monthly">المبلغ الشهري</option>
+                    </Select>
+                  </div>
+                  {form.mode === 'months' ? (
+                    <div className="space-y-2">
+                      <Label htmlFor="restructuring_months">عدد الأشهر</Label>
+                      <Input
+                        id="restructuring_months"
+                        type="number"
+                        min="1"
+                        step="1"
+                        value={form.number_of_months}
+                        onChange={(e) => setForm({ ...form, number_of_months: e.target.value })}
+                      />
+                    </div>
+                  ) : (
+                    <div className="space-y-2">
+                      <Label htmlFor="restructuring_monthly">المبلغ الشهري</Label>
+                      <Input
+                        id="restructuring_monthly"
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={form.monthly_amount}
+                        onChange={(e) => setForm({ ...form, monthly_amount: e.target.value })}
+                      />
+                    </div>
+                  )}
+                  <div className="space-y-2">
+                    <Label htmlFor="restructuring_start">تاريخ البداية</Label>
+                    <Input
+                      id="restructuring_start"
+                      type="date"
+                      value={form.start_date}
+                      onChange={(e) => setForm({ ...form, start_date: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="restructuring_holiday">أشهر الإعفاء</Label>
+                    <Input
+                      id="restructuring_holiday"
+                      type="number"
+                      min="0"
+                      step="1"
+                      value={form.holiday_months}
+                      onChange={(e) => setForm({ ...form, holiday_months: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="restructuring_balloon">دفعة نهائية</Label>
+                    <Input
+                      id="restructuring_balloon"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={form.balloon_amount}
+                      onChange={(e) => setForm({ ...form, balloon_amount: e.target.value })}
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-3 gap-2 text-sm bg-gray-50 p-3 rounded-lg border">
+                  <span></span>
+                  <span className="text-muted-foreground">الجدول الحالي</span>
+                  <span className="text-muted-foreground">الجدول الجديد</span>
+
+                  <span className="text-muted-foreground">عدد الأقساط</span>
+                  <span>{oldInstallments.length}</span>
+                  <span className="font-medium">{plan.schedule.length}</span>
+
+                  <span className="text-muted-foreground">القسط الشهري</span>
+                  <span>{formatCurrency(sale.monthly_installment_amount || 0)}</span>
+                  <span className="font-medium">{formatCurrency(plan.monthlyAmount)}</span>
+
+                  <span className="text-muted-foreground">تاريخ النهاية</span>
+                  <span>{oldEndDate ? formatDate(oldEndDate) : '-'}</span>
+                  <span className="font-medium">{plan.endDate ? formatDate(plan.endDate) : '-'}</span>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>الأقساط الحالية</Label>
+                    <div className="max-h-64 overflow-y-auto border rounded-lg">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>#</TableHead>
+                            <TableHead>التاريخ</TableHead>
+                            <TableHead>المتبقي</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {oldInstallments.map(inst => (
+                            <TableRow key={inst.id}>
+                              <TableCell>{inst.installment_number}</TableCell>
+                              <TableCell>{formatDate(inst.due_date)}</TableCell>
+                              <TableCell>
+                                {formatCurrency(getInstallmentOutstanding(inst))}
+                                {getOutstandingPenalty(inst) > 0 && (
+                                  <span className="text-xs text-orange-600"> + {formatCurrency(getOutstandingPenalty(inst))}</span>
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>الأقساط الجديدة</Label>
+                    <div className="max-h-64 overflow-y-auto border rounded-lg">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>#</TableHead>
+                            <TableHead>التاريخ</TableHead>
+                            <TableHead>المبلغ</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {plan.schedule.map(line => (
+                            <TableRow key={line.installment_number}>
+                              <TableCell>{line.installment_number}</TableCell>
+                              <TableCell>{formatDate(line.due_date)}</TableCell>
+                              <TableCell>
+                                {formatCurrency(line.amount)}
+                                {line.isBalloon && <Badge variant="warning" className="text-xs mr-2">دفعة نهائية</Badge>}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="restructuring_reason">سبب إعادة الجدولة *</Label>
+                  <Textarea
+                    id="restructuring_reason"
+                    value={form.reason}
+                    onChange={(e) => setForm({ ...form, reason: e.target.value })}
+                    rows={2}
+                  />
+                </div>
+
+                <p className="text-xs text-muted-foreground">
+                  تُحفظ الأقساط الحالية في السجل؛ الأقساط المدفوعة جزئياً تُغلق بما دُفع منها ويُنقل الباقي والغرامات إلى الجدول الجديد.
+                </p>
+              </>
+            )}
+
+            {history.length > 0 && (
+              <div className="space-y-2">
+                <Label>سجل إعادة الجدولة</Label>
+                <div className="space-y-2 max-h-48 overflow-y-auto">
+                  {history.map(entry => (
+                    <div key={entry.id} className="p-2 bg-gray-50 rounded border text-sm">
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium">{formatDate(entry.created_at)}</span>
+                        <span className="text-muted-foreground">
+                          وافق عليها: {entry.approved_by_user?.name || 'غير معروف'}
+                        </span>
+                      </div>
+                      <div className="text-muted-foreground">
+                        {formatCurrency(entry.outstanding_balance)} — {entry.old_installment_count} ← {entry.new_installment_count} قسط
+                        {entry.holiday_months > 0 && ` — إعفاء ${entry.holiday_months} شهر`}
+                        {entry.balloon_amount > 0 && ` — دفعة نهائية ${formatCurrency(entry.balloon_amount)}`}
+                      </div>
+                      <div className="text-xs text-muted-foreground">{entry.reason}</div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            إغلاق
+          </Button>
+          <Button onClick={handleRestructure} disabled={saving || loading || !plan || noBalance}>
+            {saving ? 'جاري الحفظ...' : 'اعتماد الجدول الجديد'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,184 @@
+import { useEffect, useMemo, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import { showNotification } from '@/components/ui/notification'
+import { Printer } from 'lucide-react'
+import {
+  DEFAULT_CONTRACT_TEMPLATES,
+  buildContractDocument,
+  type ContractData,
+  type ContractTemplateContent,
+} from '@/lib/contractTemplates'
+import { printHtmlDocument } from '@/lib/printDocument'
+import type { ContractTemplate, DocumentLanguage, Sale } from '@/types/database'
+
+interface SaleContractDialogProps {
+  saleId: string | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function SaleContractDialog({ saleId, open, onOpenChange }: SaleContractDialogProps) {
+  const [language, setLanguage] = useState<DocumentLanguage>('ar')
+  const [contractData, setContractData] = useState<ContractData | null>(null)
+  const [templates, setTemplates] = useState<ContractTemplate[]>([])
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (open && saleId) fetchContractData(saleId)
+  }, [open, saleId])
+
+  const fetchContractData = async (id: string) => {
+    setLoading(true)
+    setContractData(null)
+    try {
+      const { data: saleRow, error: saleError } = await supabase
+        .from('sales')
+        .select('*, client:clients(*), contract_editor:contract_editors(*)')
+        .eq('id', id)
+        .single()
+
+      if (saleError) throw saleError
+      const sale = saleRow as Sale & {
+        client: ContractData['client'] | null
+        contract_editor: ContractData['contractEditor']
+      }
+
+      const [piecesResult, installmentsResult, templatesResult] = await Promise.all([
+        sale.land_piece_ids && sale.land_piece_ids.length > 0
+          ? supabase
+              .from('land_pieces')
+              .select('id, piece_number, surface_area, selling_price_full, selling_price_installment, land_batch:land_batches(name, real_estate_tax_number)')
+              .in('id', sale.land_piece_ids)
+          : Promise.resolve({ data: [], error: null }),
+        supabase
+          .from('installments')
+          .select('installment_number, due_date, amount_due')
+          .eq('sale_id', id)
+          .order('installment_number', { ascending: true }),
+        supabase
+          .from('contract_templates')
+          .select('*')
+          .eq('payment_type', sale.payment_type),
+      ])
+
+      if (piecesResult.error) throw piecesResult.error
+      if (installmentsResult.error) throw installmentsResult.error
+      // Missing templates table just means the defaults are used
+      if (templatesResult.error) console.warn('Contract templates not available, using defaults:', templatesResult.error)
+
+      const pieces = ((piecesResult.data || []) as Array<{
+        piece_number: string
+        surface_area: number
+        selling_price_full: number
+        selling_price_installment: number
+        land_batch: { name: string; real_estate_tax_number: string | null } | null
+      }>)
+        .sort((a, b) => a.piece_number.localeCompare(b.piece_number, undefined, { numeric: true }))
+        .map(piece => ({
+          batchName: piece.land_batch?.name || '',
+          pieceNumber: piece.piece_number,
+          surfaceArea: piece.surface_area,
+          realEstateTaxNumber: piece.land_batch?.real_estate_tax_number || null,
+          price: sale.payment_type === 'Installment'
+            ? piece.selling_price_installment || piece.selling_price_full
+            : piece.selling_price_full,
+        }))
+
+      setTemplates((templatesResult.data as ContractTemplate[]) || [])
+      setContractData({
+        saleId: sale.id,
+        saleDate: sale.sale_date,
+        paymentType: sale.payment_type,
+        client: sale.client || { name: '', cin: '', address: null, phone: null },
+        pieces,
+        totalPrice: sale.total_selling_price || 0,
+        reservationAmount: sale.small_advance_amount || 0,
+        advanceAmount: sale.big_advance_amount || 0,
+        companyFeeAmount: sale.company_fee_amount || 0,
+        numberOfInstallments: sale.number_of_installments || installmentsResult.data?.length || 0,
+        monthlyAmount: sale.monthly_installment_amount || 0,
+        installmentStartDate: sale.installment_start_date,
+        installmentEndDate: sale.installment_end_date,
+        installments: installmentsResult.data || [],
+        promiseInitialPayment: sale.promise_initial_payment || 0,
+        promiseCompletionDate: sale.promise_completion_date,
+        contractEditor: sale.contract_editor || null,
+      })
+    } catch (error) {
+      console.error('Error loading contract data:', error)
+      showNotification('حدث خطأ أثناء تحميل بيانات العقد: ' + (error as Error).message, 'error')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const template: ContractTemplateContent | null = useMemo(() => {
+    if (!contractData) return null
+    const saved = templates.find(t => t.language === language)
+    return saved
+      ? { title: saved.title, body: saved.body }
+      : DEFAULT_CONTRACT_TEMPLATES[contractData.paymentType][language]
+  }, [contractData, templates, language])
+
+  const documentHtml = useMemo(() => {
+    if (!contractData || !template) return ''
+    return buildContractDocument(template, contractData, language)
+  }, [contractData, template, language])
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[95vw] max-w-4xl max-h-[95vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>عقد البيع</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <Button
+            variant={language === 'ar' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setLanguage('ar')}
+          >
+            العربية
+          </Button>
+          <Button
+            variant={language === 'fr' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setLanguage('fr')}
+          >
+            Français
+          </Button>
+        </div>
+
+        {loading || !documentHtml ? (
+          <div className="text-center py-12 text-muted-foreground">
+            {loading ? 'جاري تحميل العقد...' : 'لا توجد بيانات'}
+          </div>
+        ) : (
+          <iframe
+            title="contract-preview"
+            srcDoc={documentHtml}
+            className="w-full h-[60vh] border rounded-md bg-white"
+          />
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            إغلاق
+          </Button>
+          <Button onClick={() => printHtmlDocument(documentHtml)} disabled={!documentHtml}>
+            <Printer className="h-4 w-4 ml-2" />
+            طباعة / PDF
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
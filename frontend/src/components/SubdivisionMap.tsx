@@ -0,0 +1,263 @@
+import { useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { RotateCcw, ZoomIn, ZoomOut } from 'lucide-react'
+import { MAP_STATUS_STYLES, isValidPolygon, normalizePoint, polygonCentroid, toSvgPoints } from '@/lib/subdivisionMap'
+import type { LandStatus, MapPoint } from '@/types/database'
+
+export interface SubdivisionMapPiece {
+  id: string
+  piece_number: string
+  status: LandStatus
+  map_polygon?: MapPoint[] | null
+}
+
+interface SubdivisionMapProps {
+  imageUrl: string
+  pieces: SubdivisionMapPiece[]
+  selectedPieceId?: string | null
+  onPieceClick?: (piece: SubdivisionMapPiece) => void
+  // Drawing mode: clicks on the plan add points instead of selecting pieces
+  draftPoints?: MapPoint[] | null
+  onMapClick?: (point: MapPoint) => void
+  onImageLoad?: (size: { width: number; height: number }) => void
+  className?: string
+}
+
+const MIN_ZOOM = 1
+const MAX_ZOOM = 6
+// Movement (px) after which a press is a pan, not a click
+const DRAG_THRESHOLD = 5
+
+export function SubdivisionMap({
+  imageUrl,
+  pieces,
+  selectedPieceId,
+  onPieceClick,
+  draftPoints,
+  onMapClick,
+  onImageLoad,
+  className,
+}: SubdivisionMapProps) {
+  const [zoom, setZoom] = useState(1)
+  const [pan, setPan] = useState({ x: 0, y: 0 })
+  const [imageError, setImageError] = useState(false)
+  const imageRef = useRef<HTMLImageElement>(null)
+  // Active pointers (mouse or fingers) for pan and pinch
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>())
+  const gestureRef = useRef<{ startX: number; startY: number; panX: number; panY: number; distance: number; zoom: number; moved: boolean } | null>(null)
+
+  const drawing = !!onMapClick
+  const mappedPieces = pieces.filter(p => isValidPolygon(p.map_polygon))
+  const statusesShown = Array.from(new Set(mappedPieces.map(p => p.status)))
+
+  const clampZoom = (value: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, value))
+
+  const applyZoom = (value: number) => {
+    const next = clampZoom(value)
+    setZoom(next)
+    if (next === 1) setPan({ x: 0, y: 0 })
+  }
+
+  const reset = () => {
+    setZoom(1)
+    setPan({ x: 0, y: 0 })
+  }
+
+  const pointerDistance = () => {
+    const [a, b] = Array.from(pointersRef.current.values())
+    return a && b ? Math.hypot(b.x - a.x, b.y - a.y) : 0
+  }
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY })
+    gestureRef.current = {
+      startX: e.clientX,
+      startY: e.clientY,
+      panX: pan.x,
+      panY: pan.y,
+      distance: pointerDistance(),
+      zoom,
+      moved: pointersRef.current.size > 1,
+    }
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const gesture = gestureRef.current
+    if (!gesture || !pointersRef.current.has(e.pointerId)) return
+    pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY })
+
+    if (pointersRef.current.size === 2 && gesture.distance > 0) {
+      applyZoom(gesture.zoom * (pointerDistance() / gesture.distance))
+      gesture.moved = true
+      return
+    }
+
+    const dx = e.clientX - gesture.startX
+    const dy = e.clientY - gesture.startY
+    if (!gesture.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD) return
+    gesture.moved = true
+    if (zoom > 1) setPan({ x: gesture.panX + dx, y: gesture.panY + dy })
+  }
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    pointersRef.current.delete(e.pointerId)
+    if (pointersRef.current.size === 0 && gestureRef.current?.moved) {
+      // Swallow the click that ends a pan or pinch
+      const gesture = gestureRef.current
+      setTimeout(() => {
+        if (gestureRef.current === gesture) gestureRef.current = null
+      }, 0)
+    }
+  }
+
+  const wasDragged = () => gestureRef.current?.moved === true
+
+  const handleWheel = (e: React.WheelEvent<HTMLDivElement>) => {
+    applyZoom(zoom * (e.deltaY < 0 ? 1.2 : 1 / 1.2))
+  }
+
+  const handlePlanClick = (e: React.MouseEvent) => {
+    if (!onMapClick || wasDragged() || !imageRef.current) return
+    const rect = imageRef.current.getBoundingClientRect()
+    if (rect.width === 0 || rect.height === 0) return
+    onMapClick(normalizePoint((e.clientX - rect.left) / rect.width, (e.clientY - rect.top) / rect.height))
+  }
+
+  const handlePieceClick = (e: React.MouseEvent, piece: SubdivisionMapPiece) => {
+    if (drawing) return
+    e.stopPropagation()
+    if (!wasDragged()) onPieceClick?.(piece)
+  }
+
+  if (imageError) {
+    return (
+      <div className={`flex items-center justify-center rounded-lg border bg-gray-50 p-8 text-sm text-muted-foreground ${className || ''}`}>
+        تعذر تحميل صورة المخطط
+      </div>
+    )
+  }
+
+  return (
+    <div className={`space-y-2 ${className || ''}`}>
+      <div
+        className="relative overflow-hidden rounded-lg border bg-gray-50 select-none"
+        style={{ touchAction: 'none' }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+        onWheel={handleWheel}
+      >
+        <div
+          className="relative mx-auto w-fit"
+          style={{
+            transform: `translate(${pan.x}px, ${pan.y}px) scale(${zoom})`,
+            transformOrigin: 'center center',
+            cursor: drawing ? 'crosshair' : zoom > 1 ? 'grab' : 'default',
+          }}
+          onClick={handlePlanClick}
+        >
+          <img
+            ref={imageRef}
+            src={imageUrl}
+            alt="مخطط التقسيم"
+            className="block max-w-full max-h-[65vh]"
+            draggable={false}
+            onLoad={(e) => onImageLoad?.({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+            onError={() => setImageError(true)}
+          />
+          <svg
+            className="absolute inset-0 h-full w-full"
+            viewBox="0 0 1 1"
+            preserveAspectRatio="none"
+          >
+            {mappedPieces.map(piece => {
+              const style = MAP_STATUS_STYLES[piece.status]
+              const selected = piece.id === selectedPieceId
+              return (
+                <polygon
+                  key={piece.id}
+                  points={toSvgPoints(piece.map_polygon as MapPoint[])}
+                  fill={style.fill}
+                  stroke={selected ? '#1d4ed8' : style.stroke}
+                  strokeWidth={selected ? 3 : 1.5}
+                  vectorEffect="non-scaling-stroke"
+                  className={drawing ? undefined : 'cursor-pointer hover:opacity-80'}
+                  onClick={(e) => handlePieceClick(e, piece)}
+                >
+                  <title>{`#${piece.piece_number} - ${style.label}`}</title>
+                </polygon>
+              )
+            })}
+            {draftPoints && draftPoints.length > 0 && (
+              <>
+                <polygon
+                  points={toSvgPoints(draftPoints)}
+                  fill="rgba(59, 130, 246, 0.25)"
+                  stroke="#1d4ed8"
+                  strokeWidth={2}
+                  strokeDasharray="4 3"
+                  vectorEffect="non-scaling-stroke"
+                />
+                {draftPoints.map(([x, y], index) => (
+                  <circle
+                    key={index}
+                    cx={x}
+                    cy={y}
+                    r={0.004 / zoom}
+                    fill={index === 0 ? '#1d4ed8' : '#ffffff'}
+                    stroke="#1d4ed8"
+                    strokeWidth={1.5}
+                    vectorEffect="non-scaling-stroke"
+                  />
+                ))}
+              </>
+            )}
+          </svg>
+          {/* Labels in HTML so the text is not stretched with the plan */}
+          {mappedPieces.map(piece => {
+            const [x, y] = polygonCentroid(piece.map_polygon as MapPoint[])
+            return (
+              <span
+                key={piece.id}
+                className="pointer-events-none absolute -translate-x-1/2 -translate-y-1/2 text-[10px] font-bold text-gray-900"
+                style={{ left: `${x * 100}%`, top: `${y * 100}%`, textShadow: '0 0 2px #fff, 0 0 2px #fff' }}
+              >
+                {piece.piece_number}
+              </span>
+            )
+          })}
+        </div>
+
+        <div className="absolute top-2 left-2 flex flex-col gap-1">
+          <Button type="button" size="icon" variant="outline" className="h-8 w-8 bg-white/90" onClick={() => applyZoom(zoom * 1.5)}>
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+          <Button type="button" size="icon" variant="outline" className="h-8 w-8 bg-white/90" onClick={() => applyZoom(zoom / 1.5)}>
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+          {zoom > 1 && (
+            <Button type="button" size="icon" variant="outline" className="h-8 w-8 bg-white/90" onClick={reset}>
+              <RotateCcw className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {statusesShown.length > 0 && (
+        <div className="flex flex-wrap items-center gap-3 text-xs">
+          {statusesShown.map(status => (
+            <span key={status} className="flex items-center gap-1">
+              <span
+                className="inline-block h-3 w-3 rounded-sm border"
+                style={{ backgroundColor: MAP_STATUS_STYLES[status].fill, borderColor: MAP_STATUS_STYLES[status].stroke }}
+              />
+              {MAP_STATUS_STYLES[status].label}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
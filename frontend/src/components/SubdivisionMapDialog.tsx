@@ -0,0 +1,280 @@
+import { useEffect, useMemo, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { showNotification } from '@/components/ui/notification'
+import { SubdivisionMap } from '@/components/SubdivisionMap'
+import { Edit, Eye, ShoppingCart, Trash2, Undo2, Upload } from 'lucide-react'
+import { MAP_STATUS_STYLES, isValidPolygon, parsePolygonImport } from '@/lib/subdivisionMap'
+import { formatCurrency } from '@/lib/utils'
+import type { LandPiece, MapPoint } from '@/types/database'
+
+interface SubdivisionMapDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  batch: { id: string; name: string; image_url?: string | null; land_pieces: LandPiece[] } | null
+  canEdit: boolean
+  canSell: boolean
+  onOpenPiece: (piece: LandPiece) => void
+  onSellPiece: (piece: LandPiece) => void
+  onViewSale: (piece: LandPiece) => void
+  // Outlines written to the database, for the page to update its pieces
+  onPolygonsSaved: (updates: Array<{ id: string; polygon: MapPoint[] | null }>) => void
+}
+
+export function SubdivisionMapDialog({
+  open,
+  onOpenChange,
+  batch,
+  canEdit,
+  canSell,
+  onOpenPiece,
+  onSellPiece,
+  onViewSale,
+  onPolygonsSaved,
+}: SubdivisionMapDialogProps) {
+  const [selectedPieceId, setSelectedPieceId] = useState<string | null>(null)
+  const [draftPoints, setDraftPoints] = useState<MapPoint[] | null>(null)
+  const [imageSize, setImageSize] = useState({ width: 0, height: 0 })
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    setSelectedPieceId(null)
+    setDraftPoints(null)
+  }, [open, batch?.id])
+
+  const pieces = useMemo(() => {
+    return [...(batch?.land_pieces || [])]
+      .sort((a, b) => a.piece_number.localeCompare(b.piece_number, undefined, { numeric: true }))
+  }, [batch])
+
+  const selectedPiece = pieces.find(p => p.id === selectedPieceId) || null
+  const mappedCount = pieces.filter(p => isValidPolygon(p.map_polygon)).length
+  const drawing = draftPoints !== null
+
+  const savePolygons = async (updates: Array<{ id: string; polygon: MapPoint[] | null }>) => {
+    setSaving(true)
+    try {
+      const results = await Promise.all(updates.map(u =>
+        supabase.from('land_pieces').update({ map_polygon: u.polygon }).eq('id', u.id)
+      ))
+      const failed = results.find(r => r.error)
+      if (failed?.error) throw failed.error
+
+      onPolygonsSaved(updates)
+      return true
+    } catch (error) {
+      console.error('Error saving map outlines:', error)
+      showNotification('خطأ في حفظ شكل القطعة: ' + (error as Error).message, 'error')
+      return false
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const finishDrawing = async () => {
+    if (!selectedPiece || !draftPoints || draftPoints.length < 3) return
+    if (await savePolygons([{ id: selectedPiece.id, polygon: draftPoints }])) {
+      setDraftPoints(null)
+    }
+  }
+
+  const removePolygon = async () => {
+    if (!selectedPiece) return
+    await savePolygons([{ id: selectedPiece.id, polygon: null }])
+  }
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    const { polygons, errors } = parsePolygonImport(await file.text(), imageSize)
+    const byNumber = new Map(pieces.map(p => [p.piece_number.trim(), p]))
+    const updates: Array<{ id: string; polygon: MapPoint[] }> = []
+    const unknown: string[] = []
+    polygons.forEach((polygon, pieceNumber) => {
+      const piece = byNumber.get(pieceNumber)
+      if (piece) updates.push({ id: piece.id, polygon })
+      else unknown.push(pieceNumber)
+    })
+
+    if (unknown.length > 0) errors.push(`قطع غير موجودة في هذه الدفعة: ${unknown.join('، ')}`)
+    if (updates.length > 0 && await savePolygons(updates)) {
+      showNotification(`تم استيراد ${updates.length} شكل`, 'success')
+    }
+    if (errors.length > 0) showNotification(errors.slice(0, 5).join(' | '), 'error')
+  }
+
+  if (!batch) return null
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[95vw] max-w-6xl max-h-[95vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>خريطة التقسيم - {batch.name}</DialogTitle>
+        </DialogHeader>
+
+        {!batch.image_url ? (
+          <p className="text-center text-muted-foreground py-8">
+            أضف صورة المخطط للدفعة أولاً لاستعمال الخريطة.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-[1fr_280px] gap-4">
+            <div className="space-y-2">
+              {drawing && (
+                <p className="text-sm text-blue-700 bg-blue-50 border border-blue-200 rounded-md p-2">
+                  رسم القطعة #{selectedPiece?.piece_number}: انقر على زوايا القطعة في المخطط بالترتيب ({draftPoints.length} نقطة)
+                </p>
+              )}
+              <SubdivisionMap
+                imageUrl={batch.image_url}
+                pieces={pieces}
+                selectedPieceId={selectedPieceId}
+                onPieceClick={(piece) => setSelectedPieceId(piece.id)}
+                draftPoints={draftPoints}
+                onMapClick={drawing ? (point) => setDraftPoints(prev => [...(prev || []), point]) : undefined}
+                onImageLoad={setImageSize}
+              />
+            </div>
+
+            <div className="space-y-3">
+              <p className="text-xs text-muted-foreground">
+                {mappedCount} / {pieces.length} قطعة مرسومة على المخطط
+              </p>
+
+              {selectedPiece ? (
+                <div className="rounded-lg border p-3 space-y-2 text-sm">
+                  <div className="flex items-center justify-between">
+                    <span className="font-bold">#{selectedPiece.piece_number}</span>
+                    <Badge
+                      variant="outline"
+                      style={{ borderColor: MAP_STATUS_STYLES[selectedPiece.status].stroke, color: MAP_STATUS_STYLES[selectedPiece.status].stroke }}
+                    >
+                      {MAP_STATUS_STYLES[selectedPiece.status].label}
+                    </Badge>
+                  </div>
+                  <p>المساحة: {selectedPiece.surface_area} م²</p>
+                  <p>السعر (كامل): {formatCurrency(selectedPiece.selling_price_full)}</p>
+
+                  {!drawing && (
+                    <div className="flex flex-col gap-1 pt-1">
+                      <Button size="sm" variant="outline" onClick={() => onOpenPiece(selectedPiece)}>
+                        <Edit className="h-4 w-4 ml-1" />
+                        فتح القطعة
+                      </Button>
+                      {selectedPiece.status === 'Available' && canSell && (
+                        <Button size="sm" className="bg-green-600 hover:bg-green-700" onClick={() => onSellPiece(selectedPiece)}>
+                          <ShoppingCart className="h-4 w-4 ml-1" />
+                          حجز / بيع
+                        </Button>
+                      )}
+                      {(selectedPiece.status === 'Reserved' || selectedPiece.status === 'Sold') && (
+                        <Button size="sm" variant="outline" onClick={() => onViewSale(selectedPiece)}>
+                          <Eye className="h-4 w-4 ml-1" />
+                          تفاصيل البيع
+                        </Button>
+                      )}
+                    </div>
+                  )}
+
+                  {canEdit && (
+                    <div className="flex flex-col gap-1 border-t pt-2">
+                      {drawing ? (
+                        <>
+                          <Button size="sm" onClick={finishDrawing} disabled={saving || draftPoints.length < 3}>
+                            {saving ? 'جاري الحفظ...' : 'حفظ الشكل'}
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setDraftPoints(prev => (prev || []).slice(0, -1))}
+                            disabled={draftPoints.length === 0}
+                          >
+                            <Undo2 className="h-4 w-4 ml-1" />
+                            حذف آخر نقطة
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => setDraftPoints(null)}>
+                            إلغاء الرسم
+                          </Button>
+                        </>
+                      ) : (
+                        <>
+                          <Button size="sm" variant="outline" onClick={() => setDraftPoints([])}>
+                            <Edit className="h-4 w-4 ml-1" />
+                            {isValidPolygon(selectedPiece.map_polygon) ? 'إعادة رسم الشكل' : 'رسم الشكل'}
+                          </Button>
+                          {isValidPolygon(selectedPiece.map_polygon) && (
+                            <Button size="sm" variant="ghost" className="text-red-600" onClick={removePolygon} disabled={saving}>
+                              <Trash2 className="h-4 w-4 ml-1" />
+                              حذف الشكل
+                            </Button>
+                          )}
+                        </>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">انقر على قطعة في المخطط أو اخترها من القائمة.</p>
+              )}
+
+              <div className="max-h-64 overflow-y-auto rounded-md border divide-y">
+                {pieces.map(piece => (
+                  <button
+                    key={piece.id}
+                    type="button"
+                    disabled={drawing}
+                    onClick={() => setSelectedPieceId(piece.id)}
+                    className={`flex w-full items-center justify-between px-2 py-1.5 text-sm disabled:opacity-60 ${piece.id === selectedPieceId ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                  >
+                    <span>#{piece.piece_number}</span>
+                    <span className="flex items-center gap-2 text-xs">
+                      {isValidPolygon(piece.map_polygon) ? '✓' : <span className="text-muted-foreground">غير مرسومة</span>}
+                      <span
+                        className="inline-block h-2.5 w-2.5 rounded-full"
+                        style={{ backgroundColor: MAP_STATUS_STYLES[piece.status].stroke }}
+                      />
+                    </span>
+                  </button>
+                ))}
+              </div>
+
+              {canEdit && !drawing && (
+                <div className="space-y-1">
+                  <Input
+                    id="map_polygons_file"
+                    type="file"
+                    accept=".json,application/json"
+                    onChange={handleImportFile}
+                    className="hidden"
+                    disabled={saving}
+                  />
+                  <Label
+                    htmlFor="map_polygons_file"
+                    className="flex items-center justify-center gap-2 px-3 py-2 border rounded-lg cursor-pointer hover:bg-accent transition-colors text-sm"
+                  >
+                    <Upload className="h-4 w-4" />
+                    استيراد الأشكال (JSON)
+                  </Label>
+                  <p className="text-xs text-muted-foreground">
+                    {'[{"piece_number": "12", "points": [[x, y], ...]}] بإحداثيات البكسل في صورة المخطط أو بين 0 و 1'}
+                  </p>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
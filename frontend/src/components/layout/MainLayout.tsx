@@ -27,6 +27,13 @@ function MainLayout() {
     '/financial': 'finance',
     '/expenses': 'expenses',
     '/debts': 'debts',
+    '/cheques': 'cheques',
+    '/bank-reconciliation': 'bank-reconciliation',
+    '/general-ledger': 'general-ledger',
+    '/cash-register': 'cash-register',
+    '/batch-profitability': 'batch-profitability',
+    '/company-fees': 'company-fees',
+    '/cash-flow-forecast': 'cash-flow-forecast',
     '/real-estate-buildings': 'real-estate',
     '/messages': 'messages',
     '/users': 'users',
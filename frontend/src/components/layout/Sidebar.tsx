@@ -26,6 +26,14 @@ import {
   Phone,
   Download as DownloadIcon,
   FileText,
+  Bookmark,
+  Banknote,
+  Landmark,
+  BookOpen,
+  Wallet,
+  PieChart,
+  Percent,
+  LineChart,
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { Select } from '@/components/ui/select'
@@ -39,6 +47,7 @@ const getNavItems = (t: (key: string) => string) => [
   { to: '/homes', icon: HomeIcon, label: t('nav.homes'), permission: 'view_land', pageId: 'homes' },
   { to: '/clients', icon: Users, label: t('nav.clients'), permission: 'view_clients', pageId: 'clients' },
   { to: '/sales', icon: ShoppingCart, label: t('nav.sales'), permission: 'view_sales', pageId: 'sales' },
+  { to: '/reservations', icon: Bookmark, label: t('nav.reservations'), permission: 'view_sales', pageId: 'reservations' },
   { to: '/sale-confirmation', icon: CheckCircle2, label: t('nav.confirmSales'), permission: 'edit_sales', pageId: 'confirm-sales' },
   { to: '/sale-management', icon: Settings, label: t('nav.saleManagement'), permission: 'edit_sales', pageId: 'sale-management' },
   { to: '/calendar', icon: CalendarIcon, label: t('nav.calendar'), permission: 'edit_sales', pageId: 'calendar' },
@@ -48,6 +57,13 @@ const getNavItems = (t: (key: string) => string) => [
   { to: '/financial', icon: DollarSign, label: t('nav.financial'), permission: 'view_financial', pageId: 'finance' },
   { to: '/expenses', icon: Receipt, label: t('nav.expenses'), permission: 'view_financial', pageId: 'expenses' },
   { to: '/debts', icon: TrendingDown, label: t('nav.debts'), permission: null, pageId: 'debts' },
+  { to: '/cheques', icon: Banknote, label: t('nav.cheques'), permission: 'view_financial', pageId: 'cheques' },
+  { to: '/bank-reconciliation', icon: Landmark, label: t('nav.bankReconciliation'), permission: 'view_financial', pageId: 'bank-reconciliation' },
+  { to: '/general-ledger', icon: BookOpen, label: t('nav.generalLedger'), permission: 'view_financial', pageId: 'general-ledger' },
+  { to: '/cash-register', icon: Wallet, label: t('nav.cashRegister'), permission: null, pageId: 'cash-register' },
+  { to: '/batch-profitability', icon: PieChart, label: t('nav.batchProfitability'), permission: 'view_financial', pageId: 'batch-profitability' },
+  { to: '/company-fees', icon: Percent, label: t('nav.companyFees'), permission: 'view_financial', pageId: 'company-fees' },
+  { to: '/cash-flow-forecast', icon: LineChart, label: t('nav.cashFlowForecast'), permission: 'view_financial', pageId: 'cash-flow-forecast' },
   { to: '/real-estate-buildings', icon: Building2, label: t('nav.realEstate'), permission: null, pageId: 'real-estate' },
   { to: '/workers', icon: Briefcase, label: t('nav.workers'), permission: 'view_workers', pageId: 'workers' },
   { to: '/messages', icon: MessageSquare, label: t('nav.messages'), permission: 'view_messages', pageId: 'messages' },
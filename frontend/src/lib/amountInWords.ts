@@ -0,0 +1,149 @@
+/**
+ * Amounts in words for receipts and contracts (Tunisian dinar)
+ * 1 dinar = 1000 millimes; amounts are stored with 2 decimals, so
+ * 125.5 -> "125 dinars et 500 millimes".
+ */
+
+import type { DocumentLanguage } from '@/types/database'
+
+// ============================================
+// Arabic
+// ============================================
+
+const AR_ONES = ['', 'واحد', 'اثنان', 'ثلاثة', 'أربعة', 'خمسة', 'ستة', 'سبعة', 'ثمانية', 'تسعة']
+const AR_TEENS = ['عشرة', 'أحد عشر', 'اثنا عشر', 'ثلاثة عشر', 'أربعة عشر', 'خمسة عشر', 'ستة عشر', 'سبعة عشر', 'ثمانية عشر', 'تسعة عشر']
+const AR_TENS = ['', '', 'عشرون', 'ثلاثون', 'أربعون', 'خمسون', 'ستون', 'سبعون', 'ثمانون', 'تسعون']
+const AR_HUNDREDS = ['', 'مائة', 'مائتان', 'ثلاثمائة', 'أربعمائة', 'خمسمائة', 'ستمائة', 'سبعمائة', 'ثمانمائة', 'تسعمائة']
+
+// [singular, dual, plural (3-10)]
+const AR_SCALES: [string, string, string][] = [
+  ['', '', ''],
+  ['ألف', 'ألفان', 'آلاف'],
+  ['مليون', 'مليونان', 'ملايين'],
+  ['مليار', 'ملياران', 'مليارات'],
+]
+
+function arabicBelowThousand(n: number): string {
+  const parts: string[] = []
+  const hundreds = Math.floor(n / 100)
+  const rest = n % 100
+  if (hundreds > 0) parts.push(AR_HUNDREDS[hundreds])
+  if (rest >= 20) {
+    const ones = rest % 10
+    parts.push(ones > 0 ? `${AR_ONES[ones]} و${AR_TENS[Math.floor(rest / 10)]}` : AR_TENS[Math.floor(rest / 10)])
+  } else if (rest >= 10) {
+    parts.push(AR_TEENS[rest - 10])
+  } else if (rest > 0) {
+    parts.push(AR_ONES[rest])
+  }
+  return parts.join(' و')
+}
+
+export function numberToArabicWords(value: number): string {
+  const n = Math.floor(Math.abs(value))
+  if (n === 0) return 'صفر'
+
+  const groups: number[] = []
+  let remaining = n
+  while (remaining > 0) {
+    groups.push(remaining % 1000)
+    remaining = Math.floor(remaining / 1000)
+  }
+
+  const parts: string[] = []
+  for (let i = groups.length - 1; i >= 0; i--) {
+    const group = groups[i]
+    if (group === 0) continue
+    if (i === 0) {
+      parts.push(arabicBelowThousand(group))
+      continue
+    }
+    const [singular, dual, plural] = AR_SCALES[i]
+    if (group === 1) parts.push(singular)
+    else if (group === 2) parts.push(dual)
+    else if (group <= 10) parts.push(`${arabicBelowThousand(group)} ${plural}`)
+    else parts.push(`${arabicBelowThousand(group)} ${singular}`)
+  }
+  return parts.join(' و')
+}
+
+// ============================================
+// French
+// ============================================
+
+const FR_UNITS = [
+  'zéro', 'un', 'deux', 'trois', 'quatre', 'cinq', 'six', 'sept', 'huit', 'neuf',
+  'dix', 'onze', 'douze', 'treize', 'quatorze', 'quinze', 'seize',
+]
+const FR_TENS = ['', '', 'vingt', 'trente', 'quarante', 'cinquante', 'soixante']
+
+function frenchBelowHundred(n: number): string {
+  if (n <= 16) return FR_UNITS[n]
+  if (n < 20) return `dix-${FR_UNITS[n - 10]}`
+  if (n < 70) {
+    const tens = Math.floor(n / 10)
+    const ones = n % 10
+    if (ones === 0) return FR_TENS[tens]
+    return ones === 1 ? `${FR_TENS[tens]} et un` : `${FR_TENS[tens]}-${FR_UNITS[ones]}`
+  }
+  if (n < 80) {
+    return n === 71 ? 'soixante et onze' : `soixante-${frenchBelowHundred(n - 60)}`
+  }
+  if (n === 80) return 'quatre-vingts'
+  return `quatre-vingt-${frenchBelowHundred(n - 80)}`
+}
+
+function frenchBelowThousand(n: number, isLastGroup: boolean): string {
+  const hundreds = Math.floor(n / 100)
+  const rest = n % 100
+  const parts: string[] = []
+  if (hundreds === 1) parts.push('cent')
+  else if (hundreds > 1) parts.push(rest === 0 && isLastGroup ? `${FR_UNITS[hundreds]} cents` : `${FR_UNITS[hundreds]} cent`)
+  if (rest > 0) {
+    // "quatre-vingts" loses its s when followed by another word (mille)
+    parts.push(rest === 80 && !isLastGroup ? 'quatre-vingt' : frenchBelowHundred(rest))
+  }
+  return parts.join(' ')
+}
+
+export function numberToFrenchWords(value: number): string {
+  const n = Math.floor(Math.abs(value))
+  if (n === 0) return 'zéro'
+
+  const billions = Math.floor(n / 1_000_000_000)
+  const millions = Math.floor((n % 1_000_000_000) / 1_000_000)
+  const thousands = Math.floor((n % 1_000_000) / 1000)
+  const rest = n % 1000
+
+  const parts: string[] = []
+  if (billions > 0) parts.push(`${frenchBelowThousand(billions, true)} milliard${billions > 1 ? 's' : ''}`)
+  if (millions > 0) parts.push(`${frenchBelowThousand(millions, true)} million${millions > 1 ? 's' : ''}`)
+  if (thousands > 0) parts.push(thousands === 1 ? 'mille' : `${frenchBelowThousand(thousands, false)} mille`)
+  if (rest > 0) parts.push(frenchBelowThousand(rest, true))
+  return parts.join(' ')
+}
+
+// ============================================
+// Currency
+// ============================================
+
+/**
+ * Amount in words with dinars and millimes
+ */
+export function amountInWords(amount: number, language: DocumentLanguage): string {
+  const totalMillimes = Math.round(Math.abs(amount || 0) * 1000)
+  const dinars = Math.floor(totalMillimes / 1000)
+  const millimes = totalMillimes % 1000
+
+  if (language === 'ar') {
+    const dinarPart = `${numberToArabicWords(dinars)} دينار`
+    return millimes > 0 ? `${dinarPart} و${numberToArabicWords(millimes)} مليم` : dinarPart
+  }
+
+  // "un million de dinars", but "deux millions cinq cent mille dinars"
+  const unit = dinars >= 1_000_000 && dinars % 1_000_000 === 0 ? 'de dinars' : `dinar${dinars > 1 ? 's' : ''}`
+  const dinarPart = `${numberToFrenchWords(dinars)} ${unit}`
+  return millimes > 0
+    ? `${dinarPart} et ${numberToFrenchWords(millimes)} millime${millimes > 1 ? 's' : ''}`
+    : dinarPart
+}
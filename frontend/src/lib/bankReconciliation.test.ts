@@ -0,0 +1,183 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildExpenseCandidate,
+  buildPaymentCandidate,
+  findAutoMatches,
+  parseOfx,
+  parseStatementDate,
+  rankBankMatchCandidates,
+  scoreBankMatch,
+  validateStatementRows,
+  type BankMatchCandidate,
+  type ExpenseForMatch,
+  type MatchableLine,
+} from '@/lib/bankReconciliation'
+
+const line = (fields: Partial<MatchableLine>): MatchableLine => ({
+  id: 'l1',
+  transaction_date: '2026-03-10',
+  amount: 1500,
+  description: null,
+  reference: null,
+  ...fields,
+})
+
+const candidate = (fields: Partial<BankMatchCandidate>): BankMatchCandidate => ({
+  kind: 'payment',
+  id: 'p1',
+  amount: 1500,
+  date: '2026-03-10',
+  label: 'دفعة',
+  payment_method: 'BankTransfer',
+  keywords: [],
+  ...fields,
+})
+
+describe('parseStatementDate', () => {
+  it('reads the formats banks export', () => {
+    expect(parseStatementDate('2026-03-31')).toBe('2026-03-31')
+    expect(parseStatementDate('2026/3/5')).toBe('2026-03-05')
+    expect(parseStatementDate('31/03/2026')).toBe('2026-03-31')
+    expect(parseStatementDate('31-03-26')).toBe('2026-03-31')
+    expect(parseStatementDate('31.03.2026')).toBe('2026-03-31')
+    expect(parseStatementDate('20260331120000[+1:CET]')).toBe('2026-03-31')
+  })
+
+  it('refuses dates that do not exist', () => {
+    expect(parseStatementDate('31/02/2026')).toBeNull()
+    expect(parseStatementDate('2026-13-01')).toBeNull()
+    expect(parseStatementDate('hier')).toBeNull()
+  })
+})
+
+describe('validateStatementRows', () => {
+  it('signs credit and debit columns and rounds to the cent', () => {
+    const rows = validateStatementRows(
+      [
+        ['05/03/2026', '1 250,505', '', 'Virement client'],
+        ['06/03/2026', '', '80.1', 'Frais'],
+      ],
+      [2, 3],
+      { transaction_date: 0, credit: 1, debit: 2, description: 3 }
+    )
+
+    expect(rows.map(r => r.errors)).toEqual([[], []])
+    expect(rows.map(r => r.data?.amount)).toEqual([1250.51, -80.1])
+    expect(rows[0].data?.line_number).toBe(2)
+  })
+
+  it('rejects zero amounts and bad dates', () => {
+    const rows = validateStatementRows(
+      [['2026-03-05', '0'], ['not a date', '100']],
+      [2, 3],
+      { transaction_date: 0, amount: 1 }
+    )
+
+    expect(rows.every(r => r.data === null)).toBe(true)
+    expect(rows[0].errors).toContain('المبلغ غير صحيح')
+    expect(rows[1].errors).toContain('التاريخ غير صحيح')
+  })
+})
+
+describe('parseOfx', () => {
+  it('reads SGML transactions with their bank ids', () => {
+    const statement = parseOfx(`OFXHEADER:100
+<OFX><BANKACCTFROM><ACCTID>12345678
+<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20260310<TRNAMT>1500.00<FITID>A1<NAME>VIR BEN SALAH<MEMO>REF 2026-17
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20260311<TRNAMT>-42,5<FITID>A2<CHECKNUM>0099881
+</OFX>`)
+
+    expect(statement.account).toBe('12345678')
+    expect(statement.lines).toEqual([
+      { line_number: 1, transaction_date: '2026-03-10', amount: 1500, description: 'VIR BEN SALAH - REF 2026-17', reference: '', bank_transaction_id: 'A1' },
+      { line_number: 2, transaction_date: '2026-03-11', amount: -42.5, description: '', reference: '0099881', bank_transaction_id: 'A2' },
+    ])
+  })
+
+  it('fails on a file without transactions or with a zero amount', () => {
+    expect(() => parseOfx('<OFX></OFX>')).toThrow()
+    expect(() => parseOfx('<STMTTRN><DTPOSTED>20260310<TRNAMT>0')).toThrow()
+  })
+})
+
+describe('candidates', () => {
+  it('signs expenses as money out and revenue as money in', () => {
+    const expense: ExpenseForMatch = {
+      id: 'e1', amount: 300, expense_date: '2026-03-01', payment_method: 'Cash', description: 'كهرباء', notes: null, is_revenue: false,
+    }
+
+    expect(buildExpenseCandidate({ ...expense, is_revenue: false }).amount).toBe(-300)
+    expect(buildExpenseCandidate({ ...expense, is_revenue: true }).amount).toBe(300)
+  })
+
+  it('keeps client name, CIN and references as keywords', () => {
+    const payment = buildPaymentCandidate({
+      id: 'p1',
+      amount_paid: 1500.004,
+      payment_date: '2026-03-10T09:00:00',
+      payment_method: 'BankTransfer',
+      notes: 'virement 77123',
+      client: { name: 'Ben Salah', cin: '08123456' },
+    })
+
+    expect(payment.amount).toBe(1500)
+    expect(payment.date).toBe('2026-03-10')
+    expect(payment.keywords).toEqual(['77123', 'ben salah', '08123456'])
+  })
+})
+
+describe('scoreBankMatch', () => {
+  it('needs the exact amount within the date tolerance', () => {
+    expect(scoreBankMatch(line({}), candidate({ amount: 1500.01 }))).toBeNull()
+    expect(scoreBankMatch(line({}), candidate({ date: '2026-03-16' }))).toBeNull()
+    expect(scoreBankMatch(line({}), candidate({ date: '2026-03-15' }))).toBe(55)
+  })
+
+  it('scores closer dates and found references higher', () => {
+    expect(scoreBankMatch(line({}), candidate({}))).toBe(80)
+    expect(scoreBankMatch(line({ description: 'VIR BEN SALAH' }), candidate({ keywords: ['ben salah'] }))).toBe(100)
+  })
+})
+
+describe('rankBankMatchCandidates', () => {
+  it('offers only the same side of the bank, best first', () => {
+    const ranked = rankBankMatchCandidates(line({}), [
+      candidate({ id: 'far', amount: 1400 }),
+      candidate({ id: 'expense', kind: 'expense', amount: -1500 }),
+      candidate({ id: 'exact' }),
+      candidate({ id: 'close', amount: 1490 }),
+    ])
+
+    expect(ranked.map(r => r.candidate.id)).toEqual(['exact', 'close', 'far'])
+    expect(ranked.map(r => r.score)).toEqual([80, 0, 0])
+  })
+})
+
+describe('findAutoMatches', () => {
+  it('pairs each line with one candidate', () => {
+    const matches = findAutoMatches(
+      [line({ id: 'l1' }), line({ id: 'l2', amount: 200, transaction_date: '2026-03-12' })],
+      [candidate({ id: 'p1' }), candidate({ id: 'p2', amount: 200, date: '2026-03-11' })]
+    )
+
+    expect(matches.map(m => [m.line_id, m.candidate.id])).toEqual([['l1', 'p1'], ['l2', 'p2']])
+  })
+
+  it('leaves ties for manual matching', () => {
+    const matches = findAutoMatches(
+      [line({ id: 'l1' })],
+      [candidate({ id: 'p1' }), candidate({ id: 'p2' })]
+    )
+
+    expect(matches).toEqual([])
+  })
+
+  it('settles a tie when a reference picks one candidate', () => {
+    const matches = findAutoMatches(
+      [line({ id: 'l1', reference: 'CHQ 0099881' })],
+      [candidate({ id: 'p1' }), candidate({ id: 'p2', keywords: ['0099881'] })]
+    )
+
+    expect(matches.map(m => m.candidate.id)).toEqual(['p2'])
+  })
+})
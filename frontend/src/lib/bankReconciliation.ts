@@ -0,0 +1,352 @@
+/**
+ * Bank reconciliation
+ * Reads bank statements (CSV / XLSX with a column mapping, or OFX) into lines
+ * for import_bank_statement(), and proposes the payment or expense each line
+ * corresponds to before match_bank_statement_lines() stores it
+ * (add_bank_reconciliation.sql).
+ *
+ * Rules:
+ * - Amounts are signed: credits (money in) match payments and revenue
+ *   entries, debits match expenses
+ * - A candidate needs the exact amount and a date within the tolerance;
+ *   closer dates and a reference found in the bank text score higher
+ * - Auto matching only keeps unambiguous pairs: a tie for the same line or
+ *   the same payment is left for manual matching
+ * - A payment or expense is matched to one line only
+ */
+
+import type { BankMatchType, Expense, Payment } from '@/types/database'
+import { sanitizeText } from '@/lib/sanitize'
+import { roundMoney } from '@/lib/installmentSchedule'
+import { parseImportNumber, type ColumnMapping, type ImportField, type ImportRow } from '@/lib/bulkImport'
+
+export const DEFAULT_DATE_TOLERANCE_DAYS = 5
+
+export const BANK_MATCH_TYPE_LABELS: Record<BankMatchType, { label: string; variant: 'default' | 'secondary' | 'success' | 'outline' }> = {
+  Auto: { label: 'مطابقة تلقائية', variant: 'success' },
+  Manual: { label: 'مطابقة يدوية', variant: 'default' },
+  Ignored: { label: 'متجاهل', variant: 'secondary' },
+}
+
+// Line as sent to import_bank_statement()
+export interface BankStatementInputLine {
+  line_number: number
+  transaction_date: string
+  amount: number
+  description: string
+  reference: string
+  bank_transaction_id: string | null
+}
+
+// ============================================
+// CSV / XLSX
+// ============================================
+
+// Either an amount column (signed) or separate credit and debit columns
+export const BANK_STATEMENT_FIELDS: ImportField[] = [
+  { key: 'transaction_date', label: 'التاريخ', required: true, aliases: ['التاريخ', 'تاريخ العملية', 'date', 'date operation', 'date valeur', 'transaction date'] },
+  { key: 'amount', label: 'المبلغ (موجب أو سالب)', required: false, aliases: ['المبلغ', 'montant', 'amount'] },
+  { key: 'credit', label: 'دائن (إيداع)', required: false, aliases: ['دائن', 'إيداع', 'credit', 'credits'] },
+  { key: 'debit', label: 'مدين (سحب)', required: false, aliases: ['مدين', 'سحب', 'debit', 'debits'] },
+  { key: 'description', label: 'البيان', required: false, aliases: ['البيان', 'الوصف', 'libelle', 'description', 'operation', 'details'] },
+  { key: 'reference', label: 'المرجع', required: false, aliases: ['المرجع', 'reference', 'ref', 'n piece'] },
+]
+
+function cell(row: string[], mapping: ColumnMapping, key: string): string {
+  const index = mapping[key]
+  return index === null || index === undefined ? '' : (row[index] ?? '').trim()
+}
+
+function isValidDate(year: number, month: number, day: number): boolean {
+  const date = new Date(year, month - 1, day)
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day
+}
+
+/**
+ * YYYY-MM-DD from the formats banks export: 2024-03-31, 2024/03/31, 31/03/2024,
+ * 31-03-24, 31.03.2024 or 20240331
+ */
+export function parseStatementDate(value: string): string | null {
+  const text = value.trim()
+  let year: number, month: number, day: number
+
+  let match = text.match(/^(\d{4})[/.-](\d{1,2})[/.-](\d{1,2})/)
+  if (match) {
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])]
+  } else if ((match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})/))) {
+    [day, month, year] = [Number(match[1]), Number(match[2]), Number(match[3])]
+    if (year < 100) year += 2000
+  } else if ((match = text.match(/^(\d{4})(\d{2})(\d{2})/))) {
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])]
+  } else {
+    return null
+  }
+
+  if (!isValidDate(year, month, day)) return null
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+export function getMissingAmountColumns(mapping: ColumnMapping): boolean {
+  const mapped = (key: string) => mapping[key] !== null && mapping[key] !== undefined
+  return !mapped('amount') && !mapped('credit') && !mapped('debit')
+}
+
+export function validateStatementRows(
+  rows: string[][],
+  rowNumbers: number[],
+  mapping: ColumnMapping
+): ImportRow<BankStatementInputLine>[] {
+  return rows.map((row, index) => {
+    const rowNumber = rowNumbers[index]
+    const errors: string[] = []
+
+    const date = parseStatementDate(cell(row, mapping, 'transaction_date'))
+    if (!date) errors.push('التاريخ غير صحيح')
+
+    let amount: number | null = null
+    const rawAmount = cell(row, mapping, 'amount')
+    if (rawAmount) {
+      amount = parseImportNumber(rawAmount)
+    } else {
+      const credit = parseImportNumber(cell(row, mapping, 'credit')) ?? 0
+      const debit = parseImportNumber(cell(row, mapping, 'debit')) ?? 0
+      amount = Math.abs(credit) - Math.abs(debit)
+    }
+    if (amount === null || roundMoney(amount) === 0) errors.push('المبلغ غير صحيح')
+
+    const reference = sanitizeText(cell(row, mapping, 'reference')).slice(0, 255)
+    return {
+      rowNumber,
+      errors,
+      data: errors.length > 0 ? null : {
+        line_number: rowNumber,
+        transaction_date: date as string,
+        amount: roundMoney(amount as number),
+        description: sanitizeText(cell(row, mapping, 'description')),
+        reference,
+        bank_transaction_id: null,
+      },
+    }
+  })
+}
+
+// ============================================
+// OFX
+// ============================================
+
+export interface OfxStatement {
+  account: string | null
+  lines: BankStatementInputLine[]
+}
+
+// OFX 1.x (SGML, tags not closed) and 2.x (XML) carry the same tags
+function ofxTag(block: string, tag: string): string {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'))
+  return match ? match[1].trim() : ''
+}
+
+export function parseOfx(text: string): OfxStatement {
+  const blocks = text.split(/<STMTTRN>/i).slice(1).map(block => block.split(/<\/STMTTRN>/i)[0])
+  if (blocks.length === 0) throw new Error('لم يتم العثور على أي عملية في ملف OFX')
+
+  const lines = blocks.map((block, index) => {
+    const date = parseStatementDate(ofxTag(block, 'DTPOSTED'))
+    const amount = parseImportNumber(ofxTag(block, 'TRNAMT'))
+    if (!date || amount === null || roundMoney(amount) === 0) {
+      throw new Error(`عملية غير صحيحة في ملف OFX (رقم ${index + 1})`)
+    }
+    const name = ofxTag(block, 'NAME')
+    const memo = ofxTag(block, 'MEMO')
+    return {
+      line_number: index + 1,
+      transaction_date: date,
+      amount: roundMoney(amount),
+      description: sanitizeText([name, memo].filter(Boolean).join(' - ')),
+      reference: sanitizeText(ofxTag(block, 'CHECKNUM') || ofxTag(block, 'REFNUM')).slice(0, 255),
+      bank_transaction_id: sanitizeText(ofxTag(block, 'FITID')).slice(0, 255) || null,
+    }
+  })
+
+  return { account: ofxTag(text, 'ACCTID') || null, lines }
+}
+
+// ============================================
+// Matching
+// ============================================
+
+export type BankMatchCandidateKind = 'payment' | 'expense'
+
+export interface BankMatchCandidate {
+  kind: BankMatchCandidateKind
+  id: string
+  // Signed like a statement line
+  amount: number
+  date: string
+  label: string
+  payment_method: string | null
+  // Text that may appear on the bank side (client name, CIN, references)
+  keywords: string[]
+}
+
+export interface MatchableLine {
+  id: string
+  transaction_date: string
+  amount: number
+  description: string | null
+  reference: string | null
+}
+
+export interface ScoredCandidate {
+  candidate: BankMatchCandidate
+  // 0 when the amount or date rule is not met (manual matching only)
+  score: number
+}
+
+export interface AutoMatch {
+  line_id: string
+  candidate: BankMatchCandidate
+  score: number
+}
+
+export type PaymentForMatch = Pick<Payment, 'id' | 'amount_paid' | 'payment_date' | 'payment_method' | 'notes'> & {
+  client?: { name: string; cin: string } | null
+}
+
+export type ExpenseForMatch = Pick<Expense, 'id' | 'amount' | 'expense_date' | 'payment_method' | 'description' | 'notes' | 'is_revenue'>
+
+function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // accents
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+}
+
+// Words with a digit are references (invoice, transfer or cheque numbers)
+function referenceTokens(text: string | null | undefined): string[] {
+  return normalizeText(text || '').split(' ').filter(token => token.length >= 4 && /\d/.test(token))
+}
+
+export function buildPaymentCandidate(payment: PaymentForMatch): BankMatchCandidate {
+  const keywords = [...referenceTokens(payment.notes)]
+  if (payment.client?.name) keywords.push(normalizeText(payment.client.name))
+  if (payment.client?.cin) keywords.push(normalizeText(payment.client.cin))
+  return {
+    kind: 'payment',
+    id: payment.id,
+    amount: roundMoney(payment.amount_paid),
+    date: payment.payment_date.split('T')[0],
+    label: payment.client?.name || 'دفعة',
+    payment_method: payment.payment_method,
+    keywords,
+  }
+}
+
+export function buildExpenseCandidate(expense: ExpenseForMatch): BankMatchCandidate {
+  return {
+    kind: 'expense',
+    id: expense.id,
+    amount: roundMoney(expense.is_revenue ? expense.amount : -expense.amount),
+    date: expense.expense_date.split('T')[0],
+    label: expense.description || (expense.is_revenue ? 'إيراد' : 'مصروف'),
+    payment_method: expense.payment_method,
+    keywords: [...referenceTokens(expense.description), ...referenceTokens(expense.notes)],
+  }
+}
+
+// Cash never goes through the bank: offered for manual matching only
+export function isBankCandidate(candidate: BankMatchCandidate): boolean {
+  return candidate.payment_method !== 'Cash'
+}
+
+export function getCandidateKey(candidate: Pick<BankMatchCandidate, 'kind' | 'id'>): string {
+  return `${candidate.kind}:${candidate.id}`
+}
+
+function daysApart(a: string, b: string): number {
+  const toTime = (date: string) => {
+    const [year, month, day] = date.split('T')[0].split('-').map(Number)
+    return new Date(year, month - 1, day).getTime()
+  }
+  return Math.abs(Math.round((toTime(a) - toTime(b)) / (1000 * 60 * 60 * 24)))
+}
+
+function referenceFound(line: MatchableLine, candidate: BankMatchCandidate): boolean {
+  const text = ` ${normalizeText(`${line.description || ''} ${line.reference || ''}`)} `
+  return candidate.keywords.some(keyword => keyword.length >= 3 && text.includes(` ${keyword} `))
+}
+
+/**
+ * 50 for the amount, up to 30 for the date, 20 when a reference is found.
+ * null when the amount differs or the dates are too far apart.
+ */
+export function scoreBankMatch(
+  line: MatchableLine,
+  candidate: BankMatchCandidate,
+  toleranceDays: number = DEFAULT_DATE_TOLERANCE_DAYS
+): number | null {
+  if (Math.abs(roundMoney(line.amount - candidate.amount)) >= 0.01) return null
+  const days = daysApart(line.transaction_date, candidate.date)
+  if (days > toleranceDays) return null
+  return 50 + Math.round(30 * (1 - days / (toleranceDays + 1))) + (referenceFound(line, candidate) ? 20 : 0)
+}
+
+/**
+ * Candidates on the same side as the line for manual matching, best first:
+ * scored ones, then by amount difference and date distance
+ */
+export function rankBankMatchCandidates(
+  line: MatchableLine,
+  candidates: BankMatchCandidate[],
+  toleranceDays: number = DEFAULT_DATE_TOLERANCE_DAYS
+): ScoredCandidate[] {
+  return candidates
+    .filter(candidate => Math.sign(candidate.amount) === Math.sign(line.amount))
+    .map(candidate => ({ candidate, score: scoreBankMatch(line, candidate, toleranceDays) ?? 0 }))
+    .sort((a, b) =>
+      b.score - a.score ||
+      Math.abs(a.candidate.amount - line.amount) - Math.abs(b.candidate.amount - line.amount) ||
+      daysApart(a.candidate.date, line.transaction_date) - daysApart(b.candidate.date, line.transaction_date)
+    )
+}
+
+/**
+ * One-to-one matches for unmatched lines, highest score first.
+ * Candidates already matched elsewhere must be left out by the caller.
+ */
+export function findAutoMatches(
+  lines: MatchableLine[],
+  candidates: BankMatchCandidate[],
+  toleranceDays: number = DEFAULT_DATE_TOLERANCE_DAYS
+): AutoMatch[] {
+  const pairs: AutoMatch[] = []
+  lines.forEach(line => {
+    candidates.forEach(candidate => {
+      const score = scoreBankMatch(line, candidate, toleranceDays)
+      if (score !== null) pairs.push({ line_id: line.id, candidate, score })
+    })
+  })
+  pairs.sort((a, b) => b.score - a.score)
+
+  const usedLines = new Set<string>()
+  const usedCandidates = new Set<string>()
+  const matches: AutoMatch[] = []
+
+  pairs.forEach(pair => {
+    const candidateKey = getCandidateKey(pair.candidate)
+    if (usedLines.has(pair.line_id) || usedCandidates.has(candidateKey)) return
+    const isTie = (other: AutoMatch) => other !== pair && other.score === pair.score
+    const lineTied = pairs.some(other =>
+      isTie(other) && other.line_id === pair.line_id && !usedCandidates.has(getCandidateKey(other.candidate))
+    )
+    const candidateTied = pairs.some(other =>
+      isTie(other) && getCandidateKey(other.candidate) === candidateKey && !usedLines.has(other.line_id)
+    )
+    // Ambiguous pairs are left for manual matching
+    usedLines.add(pair.line_id)
+    usedCandidates.add(candidateKey)
+    if (!lineTied && !candidateTied) matches.push(pair)
+  })
+  return matches
+}
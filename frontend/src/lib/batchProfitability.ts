@@ -0,0 +1,192 @@
+/**
+ * Land batch profitability
+ * Combines batch and piece costs, the expenses linked to a batch, the sales
+ * of its pieces and the payments received into a result per piece and per
+ * batch.
+ *
+ * Rules:
+ * - A sale's price, company fee and payments are split evenly across its
+ *   pieces (as in SaleConfirmation)
+ * - Revenue is recognised for sales that left Pending and are not
+ *   Cancelled; cancelled and pending sales count for nothing
+ * - Collected = payments on the sale minus refunds, penalties excluded;
+ *   receivable = recognised revenue - collected, never below zero
+ * - Approved expenses linked to the batch (revenue entries excluded) are
+ *   spread across all its pieces by surface, sold or not
+ * - Realised margin = revenue + company fee - purchase cost - allocated
+ *   expenses of the sold pieces; margin per m² divides it by the sold surface
+ * - Overall result = revenue + company fees - batch total cost - all batch
+ *   expenses, the cash position of the batch so far
+ */
+
+import type { Expense, LandBatch, LandPiece, Payment, Sale } from '@/types/database'
+import { roundMoney } from '@/lib/installmentSchedule'
+
+export type BatchForReport = Pick<LandBatch, 'id' | 'name' | 'total_cost' | 'total_surface' | 'date_acquired'>
+
+export type PieceForReport = Pick<LandPiece, 'id' | 'land_batch_id' | 'piece_number' | 'surface_area' | 'purchase_cost' | 'selling_price_full' | 'status'>
+
+export type SaleForReport = Pick<Sale, 'id' | 'land_piece_ids' | 'status' | 'total_selling_price' | 'company_fee_amount'>
+
+export type PaymentForReport = Pick<Payment, 'sale_id' | 'amount_paid' | 'payment_type'>
+
+export type ExpenseForReport = Pick<Expense, 'related_batch_id' | 'amount' | 'status' | 'is_revenue'>
+
+export interface PieceProfitability {
+  piece_id: string
+  batch_id: string
+  piece_number: string
+  surface: number
+  status: PieceForReport['status']
+  sold: boolean
+  purchase_cost: number
+  allocated_expenses: number
+  revenue: number
+  company_fee: number
+  collected: number
+  receivable: number
+  // Sold pieces only
+  margin: number | null
+  margin_per_m2: number | null
+}
+
+export interface BatchProfitability {
+  batch_id: string
+  name: string
+  date_acquired: string
+  piece_count: number
+  sold_count: number
+  surface: number
+  sold_surface: number
+  acquisition_cost: number
+  expenses: number
+  revenue: number
+  company_fees: number
+  collected: number
+  receivable: number
+  realised_margin: number
+  margin_per_m2: number | null
+  overall_result: number
+  pieces: PieceProfitability[]
+}
+
+const RECOGNISED_EXCLUDED: Sale['status'][] = ['Pending', 'Cancelled']
+
+export function isRecognisedSale(sale: Pick<Sale, 'status'>): boolean {
+  return !RECOGNISED_EXCLUDED.includes(sale.status)
+}
+
+interface PieceShare {
+  revenue: number
+  company_fee: number
+  collected: number
+}
+
+// Revenue, fee and collected cash of each piece, from the recognised sales
+function buildPieceShares(sales: SaleForReport[], payments: PaymentForReport[]): Map<string, PieceShare> {
+  const collectedBySale = new Map<string, number>()
+  payments.forEach(p => {
+    if (!p.sale_id || p.payment_type === 'Penalty') return
+    const amount = p.payment_type === 'Refund' ? -p.amount_paid : p.amount_paid
+    collectedBySale.set(p.sale_id, (collectedBySale.get(p.sale_id) || 0) + amount)
+  })
+
+  const shares = new Map<string, PieceShare>()
+  sales.filter(isRecognisedSale).forEach(sale => {
+    const pieceIds = sale.land_piece_ids || []
+    if (pieceIds.length === 0) return
+    const count = pieceIds.length
+    pieceIds.forEach(pieceId => {
+      const share = shares.get(pieceId) || { revenue: 0, company_fee: 0, collected: 0 }
+      share.revenue += (sale.total_selling_price || 0) / count
+      share.company_fee += (sale.company_fee_amount || 0) / count
+      share.collected += (collectedBySale.get(sale.id) || 0) / count
+      shares.set(pieceId, share)
+    })
+  })
+  return shares
+}
+
+export function buildBatchProfitability(
+  batches: BatchForReport[],
+  pieces: PieceForReport[],
+  sales: SaleForReport[],
+  payments: PaymentForReport[],
+  expenses: ExpenseForReport[]
+): BatchProfitability[] {
+  const shares = buildPieceShares(sales, payments)
+
+  const expensesByBatch = new Map<string, number>()
+  expenses.forEach(e => {
+    if (!e.related_batch_id || e.status !== 'Approved' || e.is_revenue) return
+    expensesByBatch.set(e.related_batch_id, (expensesByBatch.get(e.related_batch_id) || 0) + (e.amount || 0))
+  })
+
+  const piecesByBatch = new Map<string, PieceForReport[]>()
+  pieces.forEach(piece => {
+    const list = piecesByBatch.get(piece.land_batch_id) || []
+    list.push(piece)
+    piecesByBatch.set(piece.land_batch_id, list)
+  })
+
+  return batches.map(batch => {
+    const batchPieces = piecesByBatch.get(batch.id) || []
+    const expenseTotal = roundMoney(expensesByBatch.get(batch.id) || 0)
+    const pieceSurface = batchPieces.reduce((sum, p) => sum + (p.surface_area || 0), 0)
+
+    const pieceRows = batchPieces.map((piece): PieceProfitability => {
+      const share = shares.get(piece.id)
+      const surface = piece.surface_area || 0
+      const allocated = pieceSurface > 0 ? roundMoney((expenseTotal * surface) / pieceSurface) : 0
+      const revenue = roundMoney(share?.revenue || 0)
+      const company_fee = roundMoney(share?.company_fee || 0)
+      const collected = roundMoney(share?.collected || 0)
+      const sold = !!share
+      const margin = sold ? roundMoney(revenue + company_fee - (piece.purchase_cost || 0) - allocated) : null
+      return {
+        piece_id: piece.id,
+        batch_id: batch.id,
+        piece_number: piece.piece_number,
+        surface,
+        status: piece.status,
+        sold,
+        purchase_cost: piece.purchase_cost || 0,
+        allocated_expenses: allocated,
+        revenue,
+        company_fee,
+        collected,
+        receivable: sold ? Math.max(0, roundMoney(revenue - collected)) : 0,
+        margin,
+        margin_per_m2: margin !== null && surface > 0 ? roundMoney(margin / surface) : null,
+      }
+    })
+
+    const sum = (pick: (p: PieceProfitability) => number, rows = pieceRows) =>
+      roundMoney(rows.reduce((total, p) => total + pick(p), 0))
+    const soldRows = pieceRows.filter(p => p.sold)
+    const sold_surface = sum(p => p.surface, soldRows)
+    const realised_margin = sum(p => p.margin || 0, soldRows)
+    const revenue = sum(p => p.revenue)
+    const company_fees = sum(p => p.company_fee)
+
+    return {
+      batch_id: batch.id,
+      name: batch.name,
+      date_acquired: batch.date_acquired,
+      piece_count: pieceRows.length,
+      sold_count: soldRows.length,
+      surface: roundMoney(pieceSurface),
+      sold_surface,
+      acquisition_cost: batch.total_cost || 0,
+      expenses: expenseTotal,
+      revenue,
+      company_fees,
+      collected: sum(p => p.collected),
+      receivable: sum(p => p.receivable),
+      realised_margin,
+      margin_per_m2: sold_surface > 0 ? roundMoney(realised_margin / sold_surface) : null,
+      overall_result: roundMoney(revenue + company_fees - (batch.total_cost || 0) - expenseTotal),
+      pieces: pieceRows,
+    }
+  })
+}
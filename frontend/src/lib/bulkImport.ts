@@ -0,0 +1,277 @@
+/**
+ * Bulk import of land pieces and clients from spreadsheets
+ * The wizard maps file columns to fields, then every row is sanitized and
+ * validated here before anything is written (dry run). Rows are checked for
+ * duplicates both inside the file and against the database:
+ * - Pieces: piece_number must be unique within the batch
+ * - Clients: cin must be unique
+ */
+
+import { sanitizeCIN, sanitizeEmail, sanitizeNotes, sanitizePhone, sanitizeText } from '@/lib/sanitize'
+import { roundMoney } from '@/lib/installmentSchedule'
+
+export type ImportKind = 'pieces' | 'clients'
+
+export interface ImportField {
+  key: string
+  label: string
+  required: boolean
+  // Normalized header names recognized automatically (Arabic, French, English)
+  aliases: string[]
+}
+
+// Field key -> column index in the file (null = not imported)
+export type ColumnMapping = Record<string, number | null>
+
+export interface ImportRow<T> {
+  rowNumber: number
+  data: T | null
+  errors: string[]
+}
+
+export interface PieceImportData {
+  piece_number: string
+  surface_area: number
+  purchase_cost: number
+  selling_price_full: number
+  selling_price_installment: number
+  notes: string | null
+}
+
+export interface ClientImportData {
+  name: string
+  cin: string
+  phone: string
+  email: string | null
+  address: string | null
+  client_type: string
+  notes: string | null
+}
+
+// One insert request is one transaction: the whole file is written or nothing
+export const MAX_IMPORT_ROWS = 1000
+
+export const PIECE_IMPORT_FIELDS: ImportField[] = [
+  { key: 'piece_number', label: 'رقم القطعة', required: true, aliases: ['رقم القطعة', 'القطعة', 'piece', 'numero', 'n lot', 'lot', 'piece number', 'piece_number', 'n'] },
+  { key: 'surface_area', label: 'المساحة (م²)', required: true, aliases: ['المساحة', 'مساحة', 'surface', 'superficie', 'surface m2', 'area', 'surface_area'] },
+  { key: 'selling_price_full', label: 'سعر البيع بالحاضر', required: false, aliases: ['سعر البيع بالحاضر', 'السعر بالحاضر', 'prix comptant', 'prix', 'price', 'selling_price_full'] },
+  { key: 'selling_price_installment', label: 'سعر البيع بالتقسيط', required: false, aliases: ['سعر البيع بالتقسيط', 'السعر بالتقسيط', 'prix facilite', 'prix echelonne', 'selling_price_installment'] },
+  { key: 'purchase_cost', label: 'تكلفة الشراء', required: false, aliases: ['تكلفة الشراء', 'التكلفة', 'cout', 'cout d achat', 'purchase_cost'] },
+  { key: 'notes', label: 'ملاحظات', required: false, aliases: ['ملاحظات', 'notes', 'remarques', 'observation'] },
+]
+
+export const CLIENT_IMPORT_FIELDS: ImportField[] = [
+  { key: 'name', label: 'الاسم', required: true, aliases: ['الاسم', 'الاسم واللقب', 'اسم العميل', 'nom', 'nom et prenom', 'nom prenom', 'name', 'client'] },
+  { key: 'cin', label: 'رقم الهوية', required: true, aliases: ['رقم الهوية', 'رقم ب ت و', 'بطاقة التعريف', 'cin', 'n cin', 'carte d identite'] },
+  { key: 'phone', label: 'الهاتف', required: true, aliases: ['الهاتف', 'رقم الهاتف', 'telephone', 'tel', 'gsm', 'phone', 'mobile'] },
+  { key: 'email', label: 'البريد الإلكتروني', required: false, aliases: ['البريد الإلكتروني', 'email', 'e mail', 'mail'] },
+  { key: 'address', label: 'العنوان', required: false, aliases: ['العنوان', 'adresse', 'address'] },
+  { key: 'client_type', label: 'نوع العميل', required: false, aliases: ['نوع العميل', 'النوع', 'type', 'client_type'] },
+  { key: 'notes', label: 'ملاحظات', required: false, aliases: ['ملاحظات', 'notes', 'remarques', 'observation'] },
+]
+
+export function getImportFields(kind: ImportKind): ImportField[] {
+  return kind === 'pieces' ? PIECE_IMPORT_FIELDS : CLIENT_IMPORT_FIELDS
+}
+
+function normalizeHeader(header: string): string {
+  return header
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // accents
+    .replace(/[°º²#'’_.:()/-]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Mapping guessed from the header row; each column is used at most once
+ */
+export function guessColumnMapping(fields: ImportField[], headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader)
+  const used = new Set<number>()
+  const mapping: ColumnMapping = {}
+
+  fields.forEach(field => {
+    const aliases = field.aliases.map(normalizeHeader)
+    const index = normalized.findIndex((header, i) => !used.has(i) && aliases.includes(header))
+    mapping[field.key] = index >= 0 ? index : null
+    if (index >= 0) used.add(index)
+  })
+  return mapping
+}
+
+/**
+ * Number from a spreadsheet cell: spaces and currency text are ignored,
+ * a comma is a decimal separator unless a dot is also present ("1,234.5")
+ */
+export function parseImportNumber(value: string): number | null {
+  let cleaned = value.replace(/\s/g, '').replace(/[^\d.,-]/g, '')
+  if (!cleaned) return null
+  if (cleaned.includes(',') && cleaned.includes('.')) {
+    cleaned = cleaned.lastIndexOf(',') > cleaned.lastIndexOf('.')
+      ? cleaned.replace(/\./g, '').replace(',', '.')
+      : cleaned.replace(/,/g, '')
+  } else {
+    cleaned = cleaned.replace(',', '.')
+  }
+  const number = Number(cleaned)
+  return isFinite(number) ? number : null
+}
+
+function cell(row: string[], mapping: ColumnMapping, key: string): string {
+  const index = mapping[key]
+  return index === null || index === undefined ? '' : (row[index] ?? '').trim()
+}
+
+export function getMissingRequiredFields(fields: ImportField[], mapping: ColumnMapping): ImportField[] {
+  return fields.filter(f => f.required && (mapping[f.key] === null || mapping[f.key] === undefined))
+}
+
+export interface PieceValidationContext {
+  // Piece numbers already in the batch
+  existingPieceNumbers: Set<string>
+  // Prices from the batch price per m², used when the file has no price columns
+  getDefaultPrices?: (surfaceArea: number) => { selling_price_full: number; selling_price_installment: number } | null
+}
+
+export function validatePieceRows(
+  rows: string[][],
+  rowNumbers: number[],
+  mapping: ColumnMapping,
+  context: PieceValidationContext
+): ImportRow<PieceImportData>[] {
+  const seen = new Map<string, number>()
+
+  return rows.map((row, index) => {
+    const rowNumber = rowNumbers[index]
+    const errors: string[] = []
+
+    const pieceNumber = sanitizeText(cell(row, mapping, 'piece_number')).slice(0, 50)
+    if (!pieceNumber) {
+      errors.push('رقم القطعة مطلوب')
+    } else if (context.existingPieceNumbers.has(pieceNumber)) {
+      errors.push(`القطعة ${pieceNumber} موجودة بالفعل في هذه الدفعة`)
+    } else if (seen.has(pieceNumber)) {
+      errors.push(`رقم القطعة مكرر في الملف (السطر ${seen.get(pieceNumber)})`)
+    }
+    if (pieceNumber && !seen.has(pieceNumber)) seen.set(pieceNumber, rowNumber)
+
+    const surface = parseImportNumber(cell(row, mapping, 'surface_area'))
+    if (surface === null || surface <= 0) errors.push('المساحة غير صحيحة')
+
+    const readAmount = (key: string, label: string): number | null => {
+      const raw = cell(row, mapping, key)
+      if (!raw) return null
+      const amount = parseImportNumber(raw)
+      if (amount === null || amount < 0) {
+        errors.push(`${label} غير صحيح`)
+        return null
+      }
+      return roundMoney(amount)
+    }
+    let priceFull = readAmount('selling_price_full', 'سعر البيع بالحاضر')
+    let priceInstallment = readAmount('selling_price_installment', 'سعر البيع بالتقسيط')
+    const purchaseCost = readAmount('purchase_cost', 'تكلفة الشراء') ?? 0
+
+    if ((priceFull === null || priceInstallment === null) && surface && surface > 0) {
+      const defaults = context.getDefaultPrices?.(surface)
+      if (defaults) {
+        priceFull = priceFull ?? defaults.selling_price_full
+        priceInstallment = priceInstallment ?? defaults.selling_price_installment
+      }
+    }
+    if (priceFull === null) priceFull = priceInstallment
+    if (priceInstallment === null) priceInstallment = priceFull
+    if (priceFull === null && surface && surface > 0) errors.push('السعر مطلوب (لا يوجد سعر للمتر في الدفعة)')
+
+    const notes = sanitizeNotes(cell(row, mapping, 'notes'))
+
+    return {
+      rowNumber,
+      errors,
+      data: errors.length > 0 ? null : {
+        piece_number: pieceNumber,
+        surface_area: surface as number,
+        purchase_cost: purchaseCost,
+        selling_price_full: priceFull as number,
+        selling_price_installment: priceInstallment as number,
+        notes: notes || null,
+      },
+    }
+  })
+}
+
+export interface ClientValidationContext {
+  // CIN -> name of the client already registered
+  existingClientsByCin: Map<string, string>
+}
+
+// Values accepted in the client type column
+const CLIENT_TYPES: Record<string, string> = {
+  individual: 'Individual',
+  'فرد': 'Individual',
+  personne: 'Individual',
+  particulier: 'Individual',
+  company: 'Company',
+  'شركة': 'Company',
+  societe: 'Company',
+  entreprise: 'Company',
+}
+
+export function validateClientRows(
+  rows: string[][],
+  rowNumbers: number[],
+  mapping: ColumnMapping,
+  context: ClientValidationContext
+): ImportRow<ClientImportData>[] {
+  const seen = new Map<string, number>()
+
+  return rows.map((row, index) => {
+    const rowNumber = rowNumbers[index]
+    const errors: string[] = []
+
+    const name = sanitizeText(cell(row, mapping, 'name')).slice(0, 255)
+    if (!name) errors.push('الاسم مطلوب')
+
+    const rawCin = cell(row, mapping, 'cin')
+    const cin = sanitizeCIN(rawCin)
+    if (!rawCin) {
+      errors.push('رقم CIN مطلوب')
+    } else if (!cin) {
+      errors.push('رقم CIN غير صالح')
+    } else if (context.existingClientsByCin.has(cin)) {
+      errors.push(`عميل برقم CIN "${cin}" موجود بالفعل: ${context.existingClientsByCin.get(cin)}`)
+    } else if (seen.has(cin)) {
+      errors.push(`رقم CIN مكرر في الملف (السطر ${seen.get(cin)})`)
+    }
+    if (cin && !seen.has(cin)) seen.set(cin, rowNumber)
+
+    const phone = sanitizePhone(cell(row, mapping, 'phone'))
+    if (!phone) errors.push('رقم الهاتف مطلوب')
+
+    const email = sanitizeEmail(cell(row, mapping, 'email'))
+    if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) errors.push('البريد الإلكتروني غير صالح')
+
+    const rawType = normalizeHeader(cell(row, mapping, 'client_type'))
+    const clientType = rawType ? CLIENT_TYPES[rawType] : 'Individual'
+    if (!clientType) errors.push('نوع العميل غير معروف (فرد أو شركة)')
+
+    const address = sanitizeText(cell(row, mapping, 'address'))
+    const notes = sanitizeNotes(cell(row, mapping, 'notes'))
+
+    return {
+      rowNumber,
+      errors,
+      data: errors.length > 0 ? null : {
+        name,
+        cin,
+        phone,
+        email: email || null,
+        address: address || null,
+        client_type: clientType,
+        notes: notes || null,
+      },
+    }
+  })
+}
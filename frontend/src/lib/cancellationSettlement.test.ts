@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest'
+import { buildRefundSchedule, calculateSettlement } from '@/lib/cancellationSettlement'
+import { roundMoney } from '@/lib/installmentSchedule'
+import type { Payment } from '@/types/database'
+
+const paid = (...amounts: number[]): Pick<Payment, 'amount_paid' | 'payment_type'>[] =>
+  amounts.map(amount_paid => ({ amount_paid, payment_type: 'Installment' }))
+
+const refund = (amount_paid: number): Pick<Payment, 'amount_paid' | 'payment_type'> => ({ amount_paid, payment_type: 'Refund' })
+
+describe('calculateSettlement', () => {
+  it('keeps a percentage of what was paid, net of refunds', () => {
+    const result = calculateSettlement({
+      payments: [...paid(5000, 2500.5), refund(500)],
+      smallAdvanceAmount: 0,
+      retentionType: 'Percentage',
+      retentionValue: 10,
+    })
+
+    expect(result).toEqual({
+      totalPaid: 7500.5,
+      alreadyRefunded: 500,
+      netPaid: 7000.5,
+      retentionAmount: 700.05,
+      refundAmount: 6300.45,
+    })
+  })
+
+  it('reads refunds stored as negative amounts at their absolute value', () => {
+    const result = calculateSettlement({
+      payments: [...paid(3000), refund(-1000)],
+      smallAdvanceAmount: 0,
+      retentionType: 'None',
+      retentionValue: 0,
+    })
+
+    expect(result.alreadyRefunded).toBe(1000)
+    expect(result.netPaid).toBe(2000)
+    expect(result.refundAmount).toBe(2000)
+  })
+
+  it('never keeps more than the net paid', () => {
+    const result = calculateSettlement({
+      payments: paid(3000),
+      smallAdvanceAmount: 0,
+      retentionType: 'Fixed',
+      retentionValue: 5000,
+    })
+
+    expect(result.retentionAmount).toBe(3000)
+    expect(result.refundAmount).toBe(0)
+  })
+
+  it('keeps the small advance when asked to', () => {
+    const result = calculateSettlement({
+      payments: paid(1000, 4000),
+      smallAdvanceAmount: 1000,
+      retentionType: 'SmallAdvance',
+      retentionValue: 0,
+    })
+
+    expect(result.retentionAmount).toBe(1000)
+    expect(result.refundAmount).toBe(4000)
+  })
+
+  it('treats a negative retention value as none', () => {
+    const result = calculateSettlement({
+      payments: paid(2000),
+      smallAdvanceAmount: 0,
+      retentionType: 'Fixed',
+      retentionValue: -300,
+    })
+
+    expect(result.retentionAmount).toBe(0)
+    expect(result.refundAmount).toBe(2000)
+  })
+
+  it('owes nothing when refunds already cover the payments', () => {
+    const result = calculateSettlement({
+      payments: [...paid(1000), refund(1500)],
+      smallAdvanceAmount: 0,
+      retentionType: 'Percentage',
+      retentionValue: 20,
+    })
+
+    expect(result.netPaid).toBe(0)
+    expect(result.retentionAmount).toBe(0)
+    expect(result.refundAmount).toBe(0)
+  })
+})
+
+describe('buildRefundSchedule', () => {
+  it('puts the rounding remainder on the last line', () => {
+    const lines = buildRefundSchedule(1000, 3, '2026-01-31')
+
+    expect(lines.map(l => l.amount)).toEqual([333.33, 333.33, 333.34])
+    expect(lines.map(l => l.due_date)).toEqual(['2026-01-31', '2026-02-28', '2026-03-31'])
+    expect(lines.map(l => l.installment_number)).toEqual([1, 2, 3])
+    // settle_sale_cancellation() refuses a schedule that does not add up to the refund
+    expect(roundMoney(lines.reduce((sum, l) => sum + l.amount, 0))).toBe(1000)
+  })
+
+  it('returns no lines when nothing is refunded', () => {
+    expect(buildRefundSchedule(0, 4, '2026-01-01')).toEqual([])
+    expect(buildRefundSchedule(-50, 4, '2026-01-01')).toEqual([])
+  })
+
+  it('pays in one line when the count is below one', () => {
+    expect(buildRefundSchedule(750.5, 0, '2026-06-15')).toEqual([
+      { installment_number: 1, due_date: '2026-06-15', amount: 750.5 },
+    ])
+  })
+
+  it('never emits empty lines for tiny amounts', () => {
+    const lines = buildRefundSchedule(0.02, 5, '2026-01-01')
+
+    expect(lines.map(l => l.amount)).toEqual([0.01, 0.01])
+    expect(lines.every(l => l.amount > 0)).toBe(true)
+  })
+})
@@ -0,0 +1,215 @@
+/**
+ * Cancellation settlement
+ * Mirrors settle_sale_cancellation() (add_cancellation_settlements.sql) so the
+ * UI can preview the refund before the sale is cancelled, and builds the
+ * cancellation agreement signed by the client.
+ *
+ * Rules:
+ * - Net paid = payments on the sale minus refunds already recorded
+ * - Retention: none, a fixed amount, a percentage of the net paid, or the small advance
+ * - The retention never exceeds the net paid; the rest is refunded
+ * - The refund is handed back in one or more scheduled amounts (last one carries the rounding)
+ */
+
+import type { DocumentLanguage, Payment, RetentionType } from '@/types/database'
+import { addMonths, roundMoney } from '@/lib/installmentSchedule'
+import { amountInWords } from '@/lib/amountInWords'
+import { buildPrintDocument, escapeHtml, formatDocumentAmount, formatDocumentDate } from '@/lib/printDocument'
+
+export const RETENTION_TYPE_LABELS: Record<RetentionType, { ar: string; fr: string }> = {
+  None: { ar: 'بدون اقتطاع', fr: 'Sans retenue' },
+  Fixed: { ar: 'مبلغ ثابت', fr: 'Montant fixe' },
+  Percentage: { ar: 'نسبة من المدفوع', fr: 'Pourcentage du montant versé' },
+  SmallAdvance: { ar: 'الاحتفاظ بالعربون', fr: 'Conservation des arrhes' },
+}
+
+export interface SettlementResult {
+  totalPaid: number
+  alreadyRefunded: number
+  netPaid: number
+  retentionAmount: number
+  refundAmount: number
+}
+
+export interface RefundScheduleLine {
+  installment_number: number
+  due_date: string
+  amount: number
+}
+
+/**
+ * Money to keep and to refund when the sale is cancelled
+ */
+export function calculateSettlement(params: {
+  payments: Pick<Payment, 'amount_paid' | 'payment_type'>[]
+  smallAdvanceAmount: number
+  retentionType: RetentionType
+  retentionValue: number
+}): SettlementResult {
+  const totalPaid = roundMoney(params.payments
+    .filter(p => p.payment_type !== 'Refund')
+    .reduce((sum, p) => sum + (p.amount_paid || 0), 0))
+  // Older cancellations stored refunds as negative amounts
+  const alreadyRefunded = roundMoney(params.payments
+    .filter(p => p.payment_type === 'Refund')
+    .reduce((sum, p) => sum + Math.abs(p.amount_paid || 0), 0))
+  const netPaid = Math.max(0, roundMoney(totalPaid - alreadyRefunded))
+  const value = Math.max(0, params.retentionValue || 0)
+
+  let retention = 0
+  if (params.retentionType === 'Fixed') retention = value
+  else if (params.retentionType === 'Percentage') retention = roundMoney((netPaid * value) / 100)
+  else if (params.retentionType === 'SmallAdvance') retention = params.smallAdvanceAmount || 0
+
+  const retentionAmount = roundMoney(Math.min(retention, netPaid))
+  return {
+    totalPaid,
+    alreadyRefunded,
+    netPaid,
+    retentionAmount,
+    refundAmount: roundMoney(netPaid - retentionAmount),
+  }
+}
+
+/**
+ * Split a refund into monthly amounts starting on the given date
+ */
+export function buildRefundSchedule(amount: number, count: number, firstDate: string): RefundScheduleLine[] {
+  const total = roundMoney(amount)
+  if (total <= 0) return []
+  // No more lines than cents, so none is empty (settle_sale_cancellation() refuses them)
+  const parts = Math.min(Math.max(1, Math.floor(count)), Math.round(total * 100))
+
+  const share = roundMoney(total / parts)
+  const lines: RefundScheduleLine[] = []
+  let left = total
+
+  for (let i = 0; i < parts && left > 0; i++) {
+    const lineAmount = i === parts - 1 ? left : Math.min(share, left)
+    lines.push({ installment_number: i + 1, due_date: addMonths(firstDate, i), amount: lineAmount })
+    left = roundMoney(left - lineAmount)
+  }
+
+  return lines
+}
+
+export interface CancellationAgreementData {
+  saleId: string
+  saleDate: string
+  settlementDate: string
+  client: { name: string; cin: string; address?: string | null }
+  items: string[] // Pieces or houses of the sale, as printed
+  totalPrice: number
+  reason: string
+  retentionType: RetentionType
+  retentionValue: number
+  settlement: SettlementResult
+  schedule: Pick<RefundScheduleLine, 'installment_number' | 'due_date' | 'amount'>[]
+}
+
+const AGREEMENT_TEXT: Record<DocumentLanguage, Record<string, string>> = {
+  ar: {
+    title: 'اتفاقية فسخ بيع',
+    intro: 'تم الاتفاق بين الشركة والحريف المذكور أسفله على فسخ البيع المبين بهذه الوثيقة بالشروط التالية:',
+    client: 'الحريف',
+    cin: 'بطاقة التعريف',
+    address: 'العنوان',
+    sale: 'مرجع البيع',
+    saleDate: 'تاريخ البيع',
+    items: 'موضوع البيع',
+    totalPrice: 'ثمن البيع',
+    reason: 'سبب الفسخ',
+    totalPaid: 'جملة المبالغ المدفوعة',
+    alreadyRefunded: 'مبالغ مسترجعة سابقاً',
+    retention: 'المبلغ المقتطع',
+    refund: 'المبلغ المسترجع',
+    inWords: 'المبلغ المسترجع بلسان القلم',
+    schedule: 'جدول الاسترجاع',
+    number: 'عدد',
+    dueDate: 'التاريخ',
+    amount: 'المبلغ',
+    noRefund: 'لا يوجد مبلغ للاسترجاع.',
+    closing: 'يقر الحريف بأن المبالغ المذكورة أعلاه تمثل تسوية نهائية لهذا البيع، ولا يحق لأي طرف المطالبة بأي مبلغ آخر.',
+    madeOn: 'حرر في',
+    clientSignature: 'إمضاء الحريف',
+    companySignature: 'ختم وإمضاء الشركة',
+  },
+  fr: {
+    title: 'Convention de résiliation de vente',
+    intro: 'La société et le client désigné ci-dessous conviennent de résilier la vente décrite dans le présent document aux conditions suivantes :',
+    client: 'Client',
+    cin: 'CIN',
+    address: 'Adresse',
+    sale: 'Référence de la vente',
+    saleDate: 'Date de la vente',
+    items: 'Objet de la vente',
+    totalPrice: 'Prix de vente',
+    reason: 'Motif de la résiliation',
+    totalPaid: 'Total des montants versés',
+    alreadyRefunded: 'Montants déjà remboursés',
+    retention: 'Montant retenu',
+    refund: 'Montant remboursé',
+    inWords: 'Montant remboursé en toutes lettres',
+    schedule: 'Échéancier de remboursement',
+    number: 'N°',
+    dueDate: 'Date',
+    amount: 'Montant',
+    noRefund: 'Aucun montant à rembourser.',
+    closing: 'Le client reconnaît que les montants ci-dessus constituent un règlement définitif de cette vente et qu\'aucune des parties ne peut réclamer d\'autre somme.',
+    madeOn: 'Fait le',
+    clientSignature: 'Signature du client',
+    companySignature: 'Cachet et signature de la société',
+  },
+}
+
+/**
+ * Print-ready cancellation agreement for the client to sign
+ */
+export function buildCancellationAgreementDocument(data: CancellationAgreementData, language: DocumentLanguage): string {
+  const text = AGREEMENT_TEXT[language]
+  const amount = (value: number) => escapeHtml(formatDocumentAmount(value, language))
+  const date = (value: string) => escapeHtml(formatDocumentDate(value, language))
+  const retentionLabel = RETENTION_TYPE_LABELS[data.retentionType][language]
+  const retentionDetail = data.retentionType === 'Percentage' ? ` (${data.retentionValue}%)` : ''
+
+  const row = (label: string, value: string) => `<tr><th style="width: 40%">${label}</th><td>${value}</td></tr>`
+
+  const scheduleTable = data.schedule.length > 0
+    ? `<table><thead><tr><th>${text.number}</th><th>${text.dueDate}</th><th>${text.amount}</th></tr></thead><tbody>${
+      data.schedule.map(line =>
+        `<tr><td>${escapeHtml(line.installment_number)}</td><td>${date(line.due_date)}</td><td>${amount(line.amount)}</td></tr>`
+      ).join('')
+    }</tbody></table>`
+    : `<p>${text.noRefund}</p>`
+
+  const body = `<h1>${text.title}</h1>
+<p>${text.intro}</p>
+<table>
+${row(text.client, escapeHtml(data.client.name))}
+${row(text.cin, escapeHtml(data.client.cin))}
+${data.client.address ? row(text.address, escapeHtml(data.client.address)) : ''}
+${row(text.sale, escapeHtml(data.saleId.substring(0, 8).toUpperCase()))}
+${row(text.saleDate, date(data.saleDate))}
+${row(text.items, escapeHtml(data.items.join(' ، ')))}
+${row(text.totalPrice, amount(data.totalPrice))}
+${row(text.reason, escapeHtml(data.reason))}
+</table>
+<table>
+${row(text.totalPaid, amount(data.settlement.totalPaid))}
+${data.settlement.alreadyRefunded > 0 ? row(text.alreadyRefunded, amount(data.settlement.alreadyRefunded)) : ''}
+${row(`${text.retention} - ${escapeHtml(retentionLabel)}${retentionDetail}`, amount(data.settlement.retentionAmount))}
+${row(`<strong>${text.refund}</strong>`, `<strong>${amount(data.settlement.refundAmount)}</strong>`)}
+${row(text.inWords, escapeHtml(amountInWords(data.settlement.refundAmount, language)))}
+</table>
+<h3>${text.schedule}</h3>
+${scheduleTable}
+<p>${text.closing}</p>
+<p>${text.madeOn} ${date(data.settlementDate)}</p>
+<div class="signatures"><div>${text.clientSignature}</div><div>${text.companySignature}</div></div>`
+
+  return buildPrintDocument({
+    title: `${text.title} - ${data.client.name}`,
+    language,
+    body,
+  })
+}
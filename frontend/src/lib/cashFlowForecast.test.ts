@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildCashFlowForecast,
+  getClientLateStats,
+  type ForecastScenario,
+  type InstallmentForForecast,
+} from '@/lib/cashFlowForecast'
+
+// Mid-January 2026, three projected months: January, February, March
+const asOf = new Date(2026, 0, 15)
+
+const inst = (fields: Partial<InstallmentForForecast>): InstallmentForForecast => ({
+  amount_due: 1000,
+  stacked_amount: 0,
+  amount_paid: 0,
+  due_date: '2026-02-10',
+  paid_date: null,
+  status: 'Unpaid',
+  client_id: null,
+  ...fields,
+})
+
+const scenario = (fields: Partial<ForecastScenario> = {}): ForecastScenario => ({
+  openingBalance: 0,
+  useClientLateRates: false,
+  extraLateShare: 0,
+  extraLateMonths: 0,
+  includeArrears: false,
+  ...fields,
+})
+
+const forecast = (
+  input: Partial<Parameters<typeof buildCashFlowForecast>[0]>,
+  fields: Partial<ForecastScenario> = {}
+) => buildCashFlowForecast({ installments: [], debts: [], debtPayments: [], templates: [], ...input }, scenario(fields), asOf, 3)
+
+describe('getClientLateStats', () => {
+  it('measures the late share and usual delay from matured installments', () => {
+    const stats = getClientLateStats([
+      inst({ client_id: 'c1', due_date: '2025-11-10', paid_date: '2025-11-12', status: 'Paid' }),
+      inst({ client_id: 'c1', due_date: '2025-12-10', paid_date: '2026-01-14', status: 'Paid' }),
+      inst({ client_id: 'c1', due_date: '2026-02-10' }),
+    ], asOf)
+
+    expect(stats.get('c1')).toEqual({ matured: 2, late: 1, rate: 0.5, delayMonths: 1 })
+  })
+
+  it('counts unpaid installments past the grace period as late', () => {
+    const stats = getClientLateStats([
+      inst({ client_id: 'c1', due_date: '2025-11-15' }),
+      inst({ client_id: 'c2', due_date: '2026-01-10' }),
+    ], asOf)
+
+    expect(stats.get('c1')).toEqual({ matured: 1, late: 1, rate: 1, delayMonths: 2 })
+    // Five days past due is within the grace period
+    expect(stats.get('c2')?.late).toBe(0)
+  })
+})
+
+describe('buildCashFlowForecast', () => {
+  it('places open installments in their month and reports arrears apart', () => {
+    const installments = [
+      inst({ due_date: '2026-01-05', amount_due: 300, status: 'Late' }),
+      inst({ due_date: '2026-01-20', amount_paid: 250, status: 'Partial' }),
+      inst({ due_date: '2026-02-10', amount_paid: 1000, status: 'Paid' }),
+      inst({ due_date: '2026-05-10', amount_due: 400 }),
+    ]
+
+    const result = forecast({ installments })
+    expect(result.months.map(m => m.key)).toEqual(['2026-01', '2026-02', '2026-03'])
+    expect(result.months.map(m => m.installments)).toEqual([750, 0, 0])
+    expect(result.arrears).toBe(300)
+    expect(result.beyondHorizon).toBe(400)
+
+    const withArrears = forecast({ installments }, { includeArrears: true })
+    expect(withArrears.months[0].installments).toBe(1050)
+    expect(withArrears.arrears).toBe(0)
+  })
+
+  it('moves the late share of a client forward by their delay', () => {
+    const result = forecast({
+      installments: [
+        inst({ client_id: 'c1', due_date: '2025-11-10', paid_date: '2025-11-12', status: 'Paid', amount_paid: 1000 }),
+        inst({ client_id: 'c1', due_date: '2025-12-10', paid_date: '2026-01-14', status: 'Paid', amount_paid: 1000 }),
+        inst({ client_id: 'c1', due_date: '2026-02-10' }),
+      ],
+    }, { useClientLateRates: true })
+
+    expect(result.months.map(m => m.installments)).toEqual([0, 500, 500])
+  })
+
+  it('delays a share of every installment and rounds each month to the cent', () => {
+    const result = forecast({ installments: [inst({ due_date: '2026-01-20' })] }, { extraLateShare: 1 / 3, extraLateMonths: 1 })
+
+    expect(result.months.map(m => m.installments)).toEqual([666.67, 333.33, 0])
+  })
+
+  it('keeps the delayed share between 0 and 1', () => {
+    const result = forecast({ installments: [inst({ due_date: '2026-01-20' })] }, { extraLateShare: 1.5, extraLateMonths: 5 })
+
+    expect(result.months.map(m => m.installments)).toEqual([0, 0, 0])
+    expect(result.beyondHorizon).toBe(1000)
+  })
+
+  it('takes debts net of their payments, overdue ones this month', () => {
+    const result = forecast({
+      debts: [
+        { id: 'd1', amount_owed: 1000, due_date: '2026-02-05', status: 'Active' },
+        { id: 'd2', amount_owed: 300, due_date: '2025-10-01', status: 'Active' },
+        { id: 'd3', amount_owed: 900, due_date: '2026-03-01', status: 'Paid' },
+        { id: 'd4', amount_owed: 200, due_date: '2026-03-01', status: 'Active' },
+      ],
+      debtPayments: [
+        { debt_id: 'd1', amount_paid: 400 },
+        { debt_id: 'd4', amount_paid: 250 },
+      ],
+    })
+
+    expect(result.months.map(m => m.debts)).toEqual([300, 600, 0])
+  })
+
+  it('repeats recurring templates, one behind on generation counting this month', () => {
+    const result = forecast({
+      templates: [
+        { amount: 100, is_revenue: false, recurrence_type: 'Monthly', next_occurrence_date: '2025-12-20', is_active: true },
+        { amount: 500, is_revenue: true, recurrence_type: 'Yearly', next_occurrence_date: '2026-02-01', is_active: true },
+        { amount: 999, is_revenue: false, recurrence_type: 'Monthly', next_occurrence_date: '2026-01-20', is_active: false },
+        { amount: 0, is_revenue: false, recurrence_type: 'Monthly', next_occurrence_date: '2026-01-20', is_active: true },
+      ],
+    })
+
+    expect(result.months.map(m => m.recurring_out)).toEqual([200, 100, 100])
+    expect(result.months.map(m => m.recurring_in)).toEqual([0, 500, 0])
+  })
+
+  it('runs the balance from the opening position and finds its lowest month', () => {
+    const result = forecast({
+      installments: [inst({ due_date: '2026-03-10' })],
+      debts: [{ id: 'd1', amount_owed: 1200, due_date: '2026-02-05', status: 'Active' }],
+    }, { openingBalance: 500 })
+
+    expect(result.months.map(m => m.net)).toEqual([0, -1200, 1000])
+    expect(result.months.map(m => m.balance)).toEqual([500, -700, 300])
+    expect(result.lowestBalance?.key).toBe('2026-02')
+  })
+})
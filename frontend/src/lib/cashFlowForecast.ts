@@ -0,0 +1,262 @@
+/**
+ * Cash-flow forecast
+ * Projects the next months of cash from the open installments, the unpaid
+ * debts and the active recurring expense templates, month by month, with a
+ * running balance from today's cash and bank position.
+ *
+ * Rules:
+ * - An installment is late when it was paid, or is still unpaid, more than
+ *   LATE_GRACE_DAYS after its due date; a client's late rate is the share of
+ *   their matured installments that were late, their delay the average
+ *   number of months late (at least one)
+ * - With the late-rate adjustment, the late share of each future installment
+ *   moves forward by the client's delay; clients without history pay on time
+ * - The scenario then moves a further share of every future installment
+ *   forward by a fixed number of months
+ * - Overdue installments are left out unless arrears are included, in which
+ *   case they are expected in the current month
+ * - Unpaid debts are owed on their due date, overdue ones in the current month
+ * - Recurring templates repeat from next_occurrence_date; a template behind on
+ *   generation counts once in the current month, revenue templates are inflows
+ * - Amounts pushed past the last month are reported but not projected
+ */
+
+import type { Debt, Installment, RecurrenceType, RecurringExpenseTemplate } from '@/types/database'
+import { addMonths, roundMoney, toDateString } from '@/lib/installmentSchedule'
+import { getDaysLate, getInstallmentOutstanding } from '@/lib/latePenalties'
+
+export const LATE_GRACE_DAYS = 7
+
+export const FORECAST_MONTHS = 12
+
+export type InstallmentForForecast = Pick<
+  Installment,
+  'amount_due' | 'stacked_amount' | 'amount_paid' | 'due_date' | 'paid_date' | 'status'
+> & { client_id: string | null }
+
+export type DebtForForecast = Pick<Debt, 'id' | 'amount_owed' | 'due_date' | 'status'>
+
+export interface DebtPaymentForForecast {
+  debt_id: string
+  amount_paid: number
+}
+
+export type TemplateForForecast = Pick<
+  RecurringExpenseTemplate,
+  'amount' | 'is_revenue' | 'recurrence_type' | 'next_occurrence_date' | 'is_active'
+>
+
+export interface ForecastScenario {
+  openingBalance: number
+  useClientLateRates: boolean
+  // Share (0-1) of future installments assumed late on top of the client history
+  extraLateShare: number
+  extraLateMonths: number
+  includeArrears: boolean
+}
+
+export interface ClientLateStats {
+  matured: number
+  late: number
+  rate: number
+  delayMonths: number
+}
+
+export interface ForecastMonth {
+  key: string
+  installments: number
+  recurring_in: number
+  debts: number
+  recurring_out: number
+  inflow: number
+  outflow: number
+  net: number
+  balance: number
+}
+
+export interface CashFlowForecast {
+  months: ForecastMonth[]
+  // Overdue installments not projected (arrears excluded)
+  arrears: number
+  // Inflows pushed past the last projected month
+  beyondHorizon: number
+  lowestBalance: ForecastMonth | null
+}
+
+const monthKey = (date: string) => date.slice(0, 7)
+
+function monthIndex(date: string, start: string): number {
+  const [year, month] = date.split('-').map(Number)
+  const [startYear, startMonth] = start.split('-').map(Number)
+  return (year - startYear) * 12 + (month - startMonth)
+}
+
+function isLate(installment: InstallmentForForecast, asOf: Date): { late: boolean; days: number } {
+  if (installment.paid_date && installment.status === 'Paid') {
+    const [year, month, day] = installment.paid_date.split('T')[0].split('-').map(Number)
+    const days = getDaysLate(installment.due_date, new Date(year, month - 1, day))
+    return { late: days > LATE_GRACE_DAYS, days }
+  }
+  const days = getDaysLate(installment.due_date, asOf)
+  return { late: days > LATE_GRACE_DAYS, days }
+}
+
+/**
+ * Late rate and usual delay of each client, from installments already due
+ */
+export function getClientLateStats(
+  installments: InstallmentForForecast[],
+  asOf: Date = new Date()
+): Map<string, ClientLateStats> {
+  const today = toDateString(asOf)
+  const totals = new Map<string, { matured: number; late: number; lateDays: number }>()
+  installments.forEach(installment => {
+    if (!installment.client_id || installment.due_date >= today) return
+    const entry = totals.get(installment.client_id) || { matured: 0, late: 0, lateDays: 0 }
+    const { late, days } = isLate(installment, asOf)
+    entry.matured += 1
+    if (late) {
+      entry.late += 1
+      entry.lateDays += days
+    }
+    totals.set(installment.client_id, entry)
+  })
+
+  const stats = new Map<string, ClientLateStats>()
+  totals.forEach((entry, clientId) => {
+    stats.set(clientId, {
+      matured: entry.matured,
+      late: entry.late,
+      rate: entry.late / entry.matured,
+      delayMonths: entry.late > 0 ? Math.max(1, Math.round(entry.lateDays / entry.late / 30)) : 1,
+    })
+  })
+  return stats
+}
+
+function nextOccurrence(date: string, recurrence: RecurrenceType): string {
+  if (recurrence === 'Monthly') return addMonths(date, 1)
+  if (recurrence === 'Yearly') return addMonths(date, 12)
+  const [year, month, day] = date.split('-').map(Number)
+  return toDateString(new Date(year, month - 1, day + (recurrence === 'Weekly' ? 7 : 1)))
+}
+
+export function buildCashFlowForecast(
+  input: {
+    installments: InstallmentForForecast[]
+    debts: DebtForForecast[]
+    debtPayments: DebtPaymentForForecast[]
+    templates: TemplateForForecast[]
+  },
+  scenario: ForecastScenario,
+  asOf: Date = new Date(),
+  monthCount: number = FORECAST_MONTHS
+): CashFlowForecast {
+  const today = toDateString(asOf)
+  const start = monthKey(today)
+  const months: ForecastMonth[] = Array.from({ length: monthCount }, (_, i) => ({
+    key: monthKey(addMonths(`${start}-01`, i)),
+    installments: 0,
+    recurring_in: 0,
+    debts: 0,
+    recurring_out: 0,
+    inflow: 0,
+    outflow: 0,
+    net: 0,
+    balance: 0,
+  }))
+  const horizonEnd = `${monthKey(addMonths(`${start}-01`, monthCount))}-01`
+  let arrears = 0
+  let beyondHorizon = 0
+
+  const placeInflow = (amount: number, index: number) => {
+    if (index < monthCount) months[Math.max(0, index)].installments += amount
+    else beyondHorizon += amount
+  }
+
+  // Installments
+  const lateStats = scenario.useClientLateRates ? getClientLateStats(input.installments, asOf) : new Map<string, ClientLateStats>()
+  const extraShare = Math.min(1, Math.max(0, scenario.extraLateShare))
+  input.installments.forEach(installment => {
+    if (installment.status === 'Paid') return
+    const outstanding = getInstallmentOutstanding(installment)
+    if (outstanding <= 0) return
+
+    if (installment.due_date < today) {
+      if (scenario.includeArrears) placeInflow(outstanding, 0)
+      else arrears += outstanding
+      return
+    }
+
+    const index = monthIndex(installment.due_date, start)
+    const stats = installment.client_id ? lateStats.get(installment.client_id) : undefined
+    const rate = stats?.rate || 0
+    const parts: Array<[number, number]> = [
+      [outstanding * (1 - rate), index],
+      [outstanding * rate, index + (stats?.delayMonths || 1)],
+    ]
+    parts.forEach(([amount, at]) => {
+      if (amount <= 0) return
+      placeInflow(amount * (1 - extraShare), at)
+      placeInflow(amount * extraShare, at + scenario.extraLateMonths)
+    })
+  })
+
+  // Debts
+  const paidByDebt = new Map<string, number>()
+  input.debtPayments.forEach(p => paidByDebt.set(p.debt_id, (paidByDebt.get(p.debt_id) || 0) + p.amount_paid))
+  input.debts.forEach(debt => {
+    if (debt.status === 'Paid') return
+    const remaining = debt.amount_owed - (paidByDebt.get(debt.id) || 0)
+    if (remaining <= 0) return
+    const index = monthIndex(debt.due_date, start)
+    if (index < monthCount) months[Math.max(0, index)].debts += remaining
+  })
+
+  // Recurring templates
+  input.templates.forEach(template => {
+    if (!template.is_active || !template.next_occurrence_date || template.amount <= 0) return
+    const place = (index: number) => {
+      const month = months[index]
+      if (template.is_revenue) month.recurring_in += template.amount
+      else month.recurring_out += template.amount
+    }
+    let date = template.next_occurrence_date.split('T')[0]
+    if (date < today) {
+      place(0)
+      while (date < today) date = nextOccurrence(date, template.recurrence_type)
+    }
+    while (date < horizonEnd) {
+      place(monthIndex(date, start))
+      date = nextOccurrence(date, template.recurrence_type)
+    }
+  })
+
+  let balance = scenario.openingBalance
+  let lowestBalance: ForecastMonth | null = null
+  const rounded = months.map(month => {
+    const inflow = roundMoney(month.installments + month.recurring_in)
+    const outflow = roundMoney(month.debts + month.recurring_out)
+    balance = roundMoney(balance + inflow - outflow)
+    const row: ForecastMonth = {
+      key: month.key,
+      installments: roundMoney(month.installments),
+      recurring_in: roundMoney(month.recurring_in),
+      debts: roundMoney(month.debts),
+      recurring_out: roundMoney(month.recurring_out),
+      inflow,
+      outflow,
+      net: roundMoney(inflow - outflow),
+      balance,
+    }
+    if (!lowestBalance || row.balance < lowestBalance.balance) lowestBalance = row
+    return row
+  })
+
+  return {
+    months: rounded,
+    arrears: roundMoney(arrears),
+    beyondHorizon: roundMoney(beyondHorizon),
+    lowestBalance,
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Cash register sessions
+ * Movements and variance of a user's cash drawer between open_cash_session()
+ * and close_cash_session() (add_cash_sessions.sql).
+ *
+ * Rules:
+ * - Expected cash = opening float + cash payments - cash refunds
+ *   - cash expenses + cash revenue entries; rejected expenses do not count
+ * - Variance = counted - expected: negative means cash is missing
+ * - A variance within VARIANCE_TOLERANCE is treated as balanced (coins)
+ */
+
+import type { CashSessionStatus, Expense, Payment } from '@/types/database'
+import { roundMoney } from '@/lib/installmentSchedule'
+
+export const VARIANCE_TOLERANCE = 1
+
+export const CASH_SESSION_STATUS_LABELS: Record<CashSessionStatus, { label: string; variant: 'success' | 'secondary' }> = {
+  Open: { label: 'مفتوحة', variant: 'success' },
+  Closed: { label: 'مغلقة', variant: 'secondary' },
+}
+
+export type VarianceStatus = 'balanced' | 'short' | 'over'
+
+export const VARIANCE_LABELS: Record<VarianceStatus, { label: string; className: string }> = {
+  balanced: { label: 'مطابق', className: 'text-green-700' },
+  short: { label: 'عجز', className: 'text-red-700' },
+  over: { label: 'زيادة', className: 'text-orange-700' },
+}
+
+export function getVarianceStatus(variance: number | null | undefined): VarianceStatus {
+  const value = roundMoney(variance || 0)
+  if (Math.abs(value) <= VARIANCE_TOLERANCE) return 'balanced'
+  return value < 0 ? 'short' : 'over'
+}
+
+export function getVariance(counted: number, expected: number): number {
+  return roundMoney(counted - expected)
+}
+
+export type PaymentForSession = Pick<Payment, 'id' | 'amount_paid' | 'payment_type' | 'payment_date' | 'created_at'> & {
+  client?: { name: string } | null
+}
+
+export type ExpenseForSession = Pick<Expense, 'id' | 'amount' | 'expense_date' | 'description' | 'status' | 'is_revenue' | 'created_at'>
+
+export interface CashMovement {
+  id: string
+  kind: 'payment' | 'refund' | 'expense' | 'revenue'
+  date: string
+  created_at: string
+  label: string
+  // Signed: positive = cash in the drawer, negative = cash out
+  amount: number
+}
+
+const MOVEMENT_LABELS: Record<CashMovement['kind'], string> = {
+  payment: 'دفعة',
+  refund: 'استرجاع',
+  expense: 'مصروف',
+  revenue: 'إيراد',
+}
+
+export function getMovementLabel(kind: CashMovement['kind']): string {
+  return MOVEMENT_LABELS[kind]
+}
+
+// Movements of a session, oldest first
+export function buildCashMovements(payments: PaymentForSession[], expenses: ExpenseForSession[]): CashMovement[] {
+  return [
+    ...payments.map((p): CashMovement => {
+      const refund = p.payment_type === 'Refund'
+      return {
+        id: p.id,
+        kind: refund ? 'refund' : 'payment',
+        date: p.payment_date,
+        created_at: p.created_at,
+        label: p.client?.name || '-',
+        amount: refund ? -p.amount_paid : p.amount_paid,
+      }
+    }),
+    ...expenses
+      .filter(e => e.status !== 'Rejected')
+      .map((e): CashMovement => ({
+        id: e.id,
+        kind: e.is_revenue ? 'revenue' : 'expense',
+        date: e.expense_date,
+        created_at: e.created_at,
+        label: e.description || '-',
+        amount: e.is_revenue ? e.amount : -e.amount,
+      })),
+  ].sort((a, b) => (a.created_at || '').localeCompare(b.created_at || ''))
+}
+
+export function getExpectedCash(openingFloat: number, movements: CashMovement[]): number {
+  return roundMoney(movements.reduce((sum, m) => sum + m.amount, openingFloat || 0))
+}
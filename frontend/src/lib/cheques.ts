@@ -0,0 +1,54 @@
+/**
+ * Cheque register
+ * Status labels and allowed moves, as enforced by update_cheque_status()
+ * (add_cheque_register.sql).
+ *
+ * Rules:
+ * - A cheque starts as Received (incoming) or issued (outgoing, same status)
+ * - Received -> Deposited -> Cleared or Bounced, nothing after that
+ * - Bouncing needs a reason; it reverses the linked payment (incoming) or debt
+ *   payment (outgoing) and opens the paid installments again
+ * - A payment or debt payment is settled by one cheque only
+ */
+
+import type { Cheque, ChequeDirection, ChequeStatus } from '@/types/database'
+import { toDateString } from '@/lib/installmentSchedule'
+
+export const CHEQUE_DIRECTION_LABELS: Record<ChequeDirection, string> = {
+  Incoming: 'وارد (من عميل)',
+  Outgoing: 'صادر (لدائن)',
+}
+
+export const CHEQUE_STATUS_LABELS: Record<ChequeStatus, { label: string; variant: 'default' | 'secondary' | 'success' | 'destructive' }> = {
+  Received: { label: 'في المحفظة', variant: 'secondary' },
+  Deposited: { label: 'مودع بالبنك', variant: 'default' },
+  Cleared: { label: 'محصل', variant: 'success' },
+  Bounced: { label: 'مرفوض', variant: 'destructive' },
+}
+
+// Outgoing cheques are given, not received
+export function getChequeStatusLabel(cheque: Pick<Cheque, 'direction' | 'status'>): string {
+  if (cheque.direction === 'Outgoing') {
+    if (cheque.status === 'Received') return 'مسلم للمستفيد'
+    if (cheque.status === 'Deposited') return 'مقدم للصرف'
+  }
+  return CHEQUE_STATUS_LABELS[cheque.status].label
+}
+
+const NEXT_STATUSES: Record<ChequeStatus, ChequeStatus[]> = {
+  Received: ['Deposited'],
+  Deposited: ['Cleared', 'Bounced'],
+  Cleared: [],
+  Bounced: [],
+}
+
+export function getNextChequeStatuses(status: ChequeStatus): ChequeStatus[] {
+  return NEXT_STATUSES[status]
+}
+
+/**
+ * Cheque still waiting to be cashed whose date has come
+ */
+export function isChequeDue(cheque: Pick<Cheque, 'status' | 'due_date'>, today: string = toDateString(new Date())): boolean {
+  return cheque.status === 'Received' && cheque.due_date <= today
+}
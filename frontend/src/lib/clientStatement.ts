@@ -0,0 +1,291 @@
+/**
+ * Client account statement (كشف حساب / relevé de compte)
+ * One ledger across all of a client's sales: what became due (debit) and what
+ * was paid (credit), with a running balance over a date range.
+ *
+ * Rules:
+ * - Full sale: the whole price is due on the sale date
+ * - Installment sale: price - sum of installments (advance + commission) is due on
+ *   the sale date, then each installment on its due date
+ * - Promise of sale: the initial payment on the sale date, the rest on the
+ *   completion date
+ * - Late penalties are due on the date they were charged
+ * - Every payment is a credit, refunds (money given back) are debits
+ * - Cancelled sales are left out (charges and payments)
+ * - Balance > 0: the client owes that amount as of the entry date
+ */
+
+import type { Client, Installment, InstallmentPenalty, Payment, Sale } from '@/types/database'
+import { roundMoney } from '@/lib/installmentSchedule'
+import { PAYMENT_RECORD_TYPE_LABELS } from '@/lib/paymentReceipts'
+import { buildPrintDocument, escapeHtml, formatDocumentAmount, formatDocumentDate } from '@/lib/printDocument'
+import type { CsvValue } from '@/lib/exportFile'
+
+export type StatementEntryKind = 'Charge' | 'Installment' | 'Penalty' | 'Payment' | 'Refund'
+
+export type StatementSale = Pick<
+  Sale,
+  'id' | 'sale_date' | 'payment_type' | 'status' | 'total_selling_price' | 'promise_initial_payment' | 'promise_completion_date'
+> & {
+  // Short reference shown on each line (date and pieces)
+  label: string
+}
+
+export interface ClientStatementInput {
+  sales: StatementSale[]
+  installments: Installment[]
+  payments: Payment[]
+  penalties: InstallmentPenalty[]
+}
+
+export interface StatementEntry {
+  date: string
+  kind: StatementEntryKind
+  saleId: string | null
+  saleLabel: string
+  description: string
+  debit: number
+  credit: number
+  balance: number
+}
+
+export interface ClientStatement {
+  from: string | null
+  to: string
+  openingBalance: number
+  entries: StatementEntry[]
+  totalDebit: number
+  totalCredit: number
+  closingBalance: number
+  // Whole contract, future installments included
+  remainingContractAmount: number
+  cancelledSalesCount: number
+}
+
+// Same-day order: what becomes due first, then what is paid
+const KIND_ORDER: Record<StatementEntryKind, number> = {
+  Charge: 0,
+  Installment: 1,
+  Penalty: 2,
+  Payment: 3,
+  Refund: 4,
+}
+
+type RawEntry = Omit<StatementEntry, 'balance'>
+
+function toDay(date: string): string {
+  return date.split('T')[0]
+}
+
+function buildRawEntries(input: ClientStatementInput): RawEntry[] {
+  const activeSales = input.sales.filter(s => s.status !== 'Cancelled')
+  const salesById = new Map(activeSales.map(s => [s.id, s]))
+  const installmentsById = new Map(input.installments.map(i => [i.id, i]))
+  const entries: RawEntry[] = []
+
+  activeSales.forEach(sale => {
+    const price = sale.total_selling_price || 0
+    const base = { saleId: sale.id, saleLabel: sale.label, credit: 0 }
+
+    if (sale.payment_type === 'Installment') {
+      const saleInstallments = input.installments
+        .filter(i => i.sale_id === sale.id)
+        .sort((a, b) => a.installment_number - b.installment_number)
+      const scheduled = saleInstallments.reduce((sum, i) => sum + i.amount_due, 0)
+      const upfront = roundMoney(price - scheduled)
+      if (upfront > 0) {
+        entries.push({ ...base, date: toDay(sale.sale_date), kind: 'Charge', description: 'التسبقة والعمولة', debit: upfront })
+      }
+      saleInstallments.forEach(inst => {
+        entries.push({
+          ...base,
+          date: toDay(inst.due_date),
+          kind: 'Installment',
+          description: `القسط رقم ${inst.installment_number}`,
+          debit: inst.amount_due,
+        })
+      })
+    } else if (sale.payment_type === 'PromiseOfSale') {
+      const initial = Math.min(sale.promise_initial_payment || 0, price)
+      if (initial > 0) {
+        entries.push({ ...base, date: toDay(sale.sale_date), kind: 'Charge', description: 'الدفعة الأولى (وعد بالبيع)', debit: initial })
+      }
+      const rest = roundMoney(price - initial)
+      if (rest > 0) {
+        entries.push({
+          ...base,
+          date: toDay(sale.promise_completion_date || sale.sale_date),
+          kind: 'Charge',
+          description: 'باقي الثمن (إتمام الوعد)',
+          debit: rest,
+        })
+      }
+    } else if (price > 0) {
+      entries.push({ ...base, date: toDay(sale.sale_date), kind: 'Charge', description: 'ثمن البيع (بالحاضر)', debit: price })
+    }
+  })
+
+  // Penalties from the ledger; installments charged before the ledger existed use their total
+  const penalizedFromLedger = new Set<string>()
+  input.penalties.forEach(penalty => {
+    const sale = salesById.get(penalty.sale_id)
+    if (!sale) return
+    penalizedFromLedger.add(penalty.installment_id)
+    const inst = installmentsById.get(penalty.installment_id)
+    entries.push({
+      date: toDay(penalty.applied_date),
+      kind: 'Penalty',
+      saleId: sale.id,
+      saleLabel: sale.label,
+      description: `غرامة تأخير - القسط رقم ${inst?.installment_number ?? '-'} (${penalty.days_late} يوم)`,
+      debit: penalty.amount,
+      credit: 0,
+    })
+  })
+  input.installments.forEach(inst => {
+    const sale = salesById.get(inst.sale_id)
+    if (!sale || penalizedFromLedger.has(inst.id) || !(inst.penalty_amount && inst.penalty_amount > 0)) return
+    entries.push({
+      date: toDay(inst.last_penalty_date || inst.due_date),
+      kind: 'Penalty',
+      saleId: sale.id,
+      saleLabel: sale.label,
+      description: `غرامة تأخير - القسط رقم ${inst.installment_number}`,
+      debit: inst.penalty_amount,
+      credit: 0,
+    })
+  })
+
+  input.payments.forEach(payment => {
+    const sale = payment.sale_id ? salesById.get(payment.sale_id) : null
+    // Payments of cancelled sales stay out with their sale
+    if (payment.sale_id && !sale) return
+
+    const typeLabel = PAYMENT_RECORD_TYPE_LABELS[payment.payment_type]?.ar || payment.payment_type
+    const inst = payment.installment_id ? installmentsById.get(payment.installment_id) : null
+    const description = inst && payment.payment_type !== 'Penalty'
+      ? `دفعة - القسط رقم ${inst.installment_number}`
+      : `دفعة - ${typeLabel}`
+    const isRefund = payment.payment_type === 'Refund'
+
+    entries.push({
+      date: toDay(payment.payment_date),
+      kind: isRefund ? 'Refund' : 'Payment',
+      saleId: sale?.id || null,
+      saleLabel: sale?.label || '-',
+      description: isRefund ? 'استرجاع مبلغ للعميل' : description,
+      debit: isRefund ? payment.amount_paid : 0,
+      credit: isRefund ? 0 : payment.amount_paid,
+    })
+  })
+
+  return entries.sort((a, b) =>
+    a.date === b.date ? KIND_ORDER[a.kind] - KIND_ORDER[b.kind] : a.date.localeCompare(b.date)
+  )
+}
+
+/**
+ * Statement between two dates (inclusive). Entries before `from` make up the
+ * opening balance; entries after `to` (future installments) are left out.
+ */
+export function buildClientStatement(
+  input: ClientStatementInput,
+  range: { from?: string | null; to: string }
+): ClientStatement {
+  const from = range.from || null
+  const rawEntries = buildRawEntries(input)
+
+  let openingBalance = 0
+  let balance = 0
+  let totalDebit = 0
+  let totalCredit = 0
+  let remainingContractAmount = 0
+  const entries: StatementEntry[] = []
+
+  rawEntries.forEach(entry => {
+    remainingContractAmount += entry.debit - entry.credit
+    if (from && entry.date < from) {
+      openingBalance += entry.debit - entry.credit
+      return
+    }
+    if (entry.date > range.to) return
+
+    if (entries.length === 0) balance = openingBalance
+    balance += entry.debit - entry.credit
+    totalDebit += entry.debit
+    totalCredit += entry.credit
+    entries.push({ ...entry, balance: roundMoney(balance) })
+  })
+
+  openingBalance = roundMoney(openingBalance)
+  return {
+    from,
+    to: range.to,
+    openingBalance,
+    entries,
+    totalDebit: roundMoney(totalDebit),
+    totalCredit: roundMoney(totalCredit),
+    closingBalance: entries.length > 0 ? entries[entries.length - 1].balance : openingBalance,
+    remainingContractAmount: roundMoney(remainingContractAmount),
+    cancelledSalesCount: input.sales.filter(s => s.status === 'Cancelled').length,
+  }
+}
+
+type StatementClient = Pick<Client, 'name' | 'cin' | 'phone'>
+
+/**
+ * Print-ready statement (Arabic)
+ */
+export function buildStatementDocument(client: StatementClient, statement: ClientStatement): string {
+  const amount = (value: number) => (value ? escapeHtml(formatDocumentAmount(value, 'ar')) : '')
+  const period = `${statement.from ? formatDocumentDate(statement.from, 'ar') : 'البداية'} - ${formatDocumentDate(statement.to, 'ar')}`
+
+  const rows = statement.entries.map(entry => `<tr>
+<td>${escapeHtml(formatDocumentDate(entry.date, 'ar'))}</td>
+<td>${escapeHtml(entry.saleLabel)}</td>
+<td>${escapeHtml(entry.description)}</td>
+<td>${amount(entry.debit)}</td>
+<td>${amount(entry.credit)}</td>
+<td>${escapeHtml(formatDocumentAmount(entry.balance, 'ar'))}</td>
+</tr>`).join('\n')
+
+  const body = `<h1>كشف حساب العميل</h1>
+<table>
+<tr><th>العميل</th><td>${escapeHtml(client.name)}</td><th>رقم CIN</th><td>${escapeHtml(client.cin || '-')}</td></tr>
+<tr><th>الهاتف</th><td>${escapeHtml(client.phone || '-')}</td><th>الفترة</th><td>${escapeHtml(period)}</td></tr>
+</table>
+<table>
+<thead><tr><th>التاريخ</th><th>البيع</th><th>البيان</th><th>مستحق</th><th>مدفوع</th><th>الرصيد</th></tr></thead>
+<tbody>
+<tr><td colspan="5"><strong>الرصيد الافتتاحي</strong></td><td><strong>${escapeHtml(formatDocumentAmount(statement.openingBalance, 'ar'))}</strong></td></tr>
+${rows}
+<tr><td colspan="3"><strong>المجموع</strong></td><td><strong>${amount(statement.totalDebit)}</strong></td><td><strong>${amount(statement.totalCredit)}</strong></td><td><strong>${escapeHtml(formatDocumentAmount(statement.closingBalance, 'ar'))}</strong></td></tr>
+</tbody>
+</table>
+<p>الرصيد المستحق في ${escapeHtml(formatDocumentDate(statement.to, 'ar'))}: <strong>${escapeHtml(formatDocumentAmount(statement.closingBalance, 'ar'))}</strong></p>
+<p>المتبقي من جميع العقود (بما في ذلك الأقساط القادمة): <strong>${escapeHtml(formatDocumentAmount(statement.remainingContractAmount, 'ar'))}</strong></p>
+${statement.cancelledSalesCount > 0 ? `<p class="muted">المبيعات الملغاة (${statement.cancelledSalesCount}) غير مدرجة في هذا الكشف.</p>` : ''}
+<p class="muted">تاريخ الإصدار: ${escapeHtml(formatDocumentDate(new Date(), 'ar'))}</p>`
+
+  return buildPrintDocument({ title: `كشف حساب - ${client.name}`, language: 'ar', body })
+}
+
+export const STATEMENT_CSV_HEADERS = ['التاريخ', 'البيع', 'البيان', 'مستحق', 'مدفوع', 'الرصيد']
+
+/**
+ * Statement rows for CSV export, opening balance first
+ */
+export function getStatementCsvRows(statement: ClientStatement): CsvValue[][] {
+  return [
+    [statement.from || '', '', 'الرصيد الافتتاحي', '', '', statement.openingBalance.toFixed(2)],
+    ...statement.entries.map(entry => [
+      entry.date,
+      entry.saleLabel,
+      entry.description,
+      entry.debit ? entry.debit.toFixed(2) : '',
+      entry.credit ? entry.credit.toFixed(2) : '',
+      entry.balance.toFixed(2),
+    ]),
+    ['', '', 'المجموع', statement.totalDebit.toFixed(2), statement.totalCredit.toFixed(2), statement.closingBalance.toFixed(2)],
+  ]
+}
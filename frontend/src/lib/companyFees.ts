@@ -0,0 +1,97 @@
+/**
+ * Company fee ledger
+ * Groups the company fee entries and their collections by batch, by month
+ * or by the user who made the sale (add_company_fee_ledger.sql).
+ *
+ * Rules:
+ * - A fee falls due when it is set on the confirmed sale (due_date)
+ * - Collections come from the sale's payments: FirstPayment takes the fee
+ *   out of the first payments, Proportional takes its share of each payment
+ * - By month, fees due are counted in the month they fall due and
+ *   collections in the month of the payment
+ * - Cancelled entries count their collections but nothing outstanding
+ */
+
+import type { CompanyFeeCollection, CompanyFeeCollectionMode, CompanyFeeEntry, CompanyFeeStatus } from '@/types/database'
+import { roundMoney } from '@/lib/installmentSchedule'
+
+export const COMPANY_FEE_STATUS_LABELS: Record<CompanyFeeStatus, { label: string; variant: 'warning' | 'default' | 'success' | 'secondary' }> = {
+  Due: { label: 'مستحقة', variant: 'warning' },
+  Partial: { label: 'محصلة جزئياً', variant: 'default' },
+  Collected: { label: 'محصلة', variant: 'success' },
+  Cancelled: { label: 'ملغاة', variant: 'secondary' },
+}
+
+export const COLLECTION_MODE_LABELS: Record<CompanyFeeCollectionMode, { label: string; description: string }> = {
+  FirstPayment: { label: 'من أول دفعة', description: 'تخصم العمولة من أول الدفعات حتى تسديدها' },
+  Proportional: { label: 'بالتناسب', description: 'كل دفعة تحمل حصتها من العمولة' },
+}
+
+export function getOutstandingFee(entry: Pick<CompanyFeeEntry, 'status' | 'fee_amount' | 'collected_amount'>): number {
+  if (entry.status === 'Cancelled') return 0
+  return Math.max(0, roundMoney(entry.fee_amount - entry.collected_amount))
+}
+
+export type FeeGrouping = 'batch' | 'month' | 'worker'
+
+export interface FeeGroupRow {
+  key: string
+  label: string
+  count: number
+  due: number
+  collected: number
+  outstanding: number
+}
+
+const monthKey = (date: string) => date.slice(0, 7)
+
+function emptyRow(key: string, label: string): FeeGroupRow {
+  return { key, label, count: 0, due: 0, collected: 0, outstanding: 0 }
+}
+
+export function groupCompanyFees(
+  entries: CompanyFeeEntry[],
+  collections: CompanyFeeCollection[],
+  grouping: FeeGrouping,
+  labelOf: (key: string) => string
+): FeeGroupRow[] {
+  const rows = new Map<string, FeeGroupRow>()
+  const rowFor = (key: string) => {
+    if (!rows.has(key)) rows.set(key, emptyRow(key, labelOf(key)))
+    return rows.get(key)!
+  }
+
+  if (grouping === 'month') {
+    entries.forEach(entry => {
+      if (entry.status === 'Cancelled') return
+      const row = rowFor(monthKey(entry.due_date))
+      row.count += 1
+      row.due += entry.fee_amount
+    })
+    const entryIds = new Set(entries.map(e => e.id))
+    collections.forEach(c => {
+      if (!entryIds.has(c.entry_id)) return
+      rowFor(monthKey(c.collected_date)).collected += c.amount
+    })
+  } else {
+    entries.forEach(entry => {
+      const key = (grouping === 'batch' ? entry.land_batch_id : entry.sold_by) || ''
+      const row = rowFor(key)
+      row.collected += entry.collected_amount
+      if (entry.status === 'Cancelled') return
+      row.count += 1
+      row.due += entry.fee_amount
+      row.outstanding += getOutstandingFee(entry)
+    })
+  }
+
+  return Array.from(rows.values())
+    .map(row => ({
+      ...row,
+      due: roundMoney(row.due),
+      collected: roundMoney(row.collected),
+      // Months compare what fell due with what came in; the other groupings sum the entries
+      outstanding: grouping === 'month' ? roundMoney(row.due - row.collected) : roundMoney(row.outstanding),
+    }))
+    .sort((a, b) => (grouping === 'month' ? b.key.localeCompare(a.key) : b.due - a.due))
+}
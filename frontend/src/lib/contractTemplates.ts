@@ -0,0 +1,264 @@
+/**
+ * Sale contract generator
+ * Fills a contract template (HTML with {{placeholders}}) from a confirmed sale.
+ * Templates are editable per payment type and language (contract_templates table);
+ * the defaults below are used until a template is saved.
+ *
+ * Values are HTML-escaped before insertion; table placeholders
+ * ({{pieces_table}}, {{installments_table}}) insert ready-made HTML tables.
+ */
+
+import type { Client, DocumentLanguage, Installment, PaymentType } from '@/types/database'
+import { buildPrintDocument, escapeHtml, formatDocumentAmount, formatDocumentDate } from '@/lib/printDocument'
+
+export interface ContractPiece {
+  batchName: string
+  pieceNumber: string
+  surfaceArea: number
+  realEstateTaxNumber: string | null
+  price: number
+}
+
+export interface ContractData {
+  saleId: string
+  saleDate: string
+  paymentType: PaymentType
+  client: Pick<Client, 'name' | 'cin' | 'address' | 'phone'>
+  pieces: ContractPiece[]
+  totalPrice: number
+  reservationAmount: number
+  advanceAmount: number
+  companyFeeAmount: number
+  numberOfInstallments: number
+  monthlyAmount: number
+  installmentStartDate: string | null
+  installmentEndDate: string | null
+  installments: Pick<Installment, 'installment_number' | 'due_date' | 'amount_due'>[]
+  promiseInitialPayment: number
+  promiseCompletionDate: string | null
+  contractEditor: { type: string; name: string; place: string } | null
+}
+
+export interface ContractTemplateContent {
+  title: string
+  body: string
+}
+
+export const CONTRACT_PLACEHOLDERS: { key: string; label: string }[] = [
+  { key: 'contract_title', label: 'عنوان العقد' },
+  { key: 'contract_date', label: 'تاريخ العقد' },
+  { key: 'sale_reference', label: 'مرجع البيع' },
+  { key: 'client_name', label: 'اسم العميل' },
+  { key: 'client_cin', label: 'رقم بطاقة التعريف' },
+  { key: 'client_address', label: 'عنوان العميل' },
+  { key: 'client_phone', label: 'هاتف العميل' },
+  { key: 'pieces_table', label: 'جدول القطع' },
+  { key: 'pieces_count', label: 'عدد القطع' },
+  { key: 'total_surface', label: 'المساحة الجملية' },
+  { key: 'total_price', label: 'السعر الجملي' },
+  { key: 'payment_type', label: 'طريقة الدفع' },
+  { key: 'reservation_amount', label: 'العربون' },
+  { key: 'advance_amount', label: 'التسبقة' },
+  { key: 'company_fee_amount', label: 'العمولة' },
+  { key: 'remaining_amount', label: 'المتبقي' },
+  { key: 'installments_count', label: 'عدد الأقساط' },
+  { key: 'monthly_amount', label: 'القسط الشهري' },
+  { key: 'installments_start', label: 'بداية الأقساط' },
+  { key: 'installments_end', label: 'نهاية الأقساط' },
+  { key: 'installments_table', label: 'جدول الأقساط' },
+  { key: 'promise_initial_payment', label: 'المبلغ المستلم (وعد بالبيع)' },
+  { key: 'promise_completion_date', label: 'أجل استكمال الوعد' },
+  { key: 'contract_editor', label: 'محرر العقد' },
+]
+
+const PAYMENT_TYPE_LABELS: Record<DocumentLanguage, Record<PaymentType, string>> = {
+  ar: { Full: 'بالحاضر', Installment: 'بالتقسيط', PromiseOfSale: 'وعد بالبيع' },
+  fr: { Full: 'Au comptant', Installment: 'Par facilités', PromiseOfSale: 'Promesse de vente' },
+}
+
+const AR_PARTIES = `<h1>{{contract_title}}</h1>
+<p class="muted">المرجع: {{sale_reference}} - بتاريخ {{contract_date}}</p>
+<h3>بين الممضين أسفله:</h3>
+<p>الطرف الأول: الشركة البائعة.</p>
+<p>الطرف الثاني: السيد(ة) <strong>{{client_name}}</strong>، صاحب(ة) بطاقة التعريف الوطنية عدد <strong>{{client_cin}}</strong>، القاطن(ة) بـ {{client_address}}، الهاتف: {{client_phone}}.</p>
+<h3>الفصل الأول: موضوع العقد</h3>
+<p>يبيع الطرف الأول للطرف الثاني القطع التالية ({{pieces_count}} قطعة، بمساحة جملية قدرها {{total_surface}} م²):</p>
+{{pieces_table}}`
+
+const AR_SIGNATURES = `<h3>الفصل الأخير: التحرير</h3>
+<p>حرر هذا العقد لدى: {{contract_editor}}.</p>
+<div class="signatures"><div>إمضاء الطرف الأول</div><div>إمضاء الطرف الثاني</div></div>`
+
+const FR_PARTIES = `<h1>{{contract_title}}</h1>
+<p class="muted">Réf. : {{sale_reference}} - le {{contract_date}}</p>
+<h3>Entre les soussignés :</h3>
+<p>D'une part, la société venderesse.</p>
+<p>Et d'autre part, M./Mme <strong>{{client_name}}</strong>, titulaire de la CIN n° <strong>{{client_cin}}</strong>, demeurant à {{client_address}}, tél. : {{client_phone}}.</p>
+<h3>Article 1 : Objet</h3>
+<p>La société vend à l'acquéreur les lots suivants ({{pieces_count}} lot(s), d'une superficie totale de {{total_surface}} m²) :</p>
+{{pieces_table}}`
+
+const FR_SIGNATURES = `<h3>Article final : Rédaction</h3>
+<p>Le présent contrat est rédigé auprès de : {{contract_editor}}.</p>
+<div class="signatures"><div>Signature du vendeur</div><div>Signature de l'acquéreur</div></div>`
+
+export const DEFAULT_CONTRACT_TEMPLATES: Record<PaymentType, Record<DocumentLanguage, ContractTemplateContent>> = {
+  Full: {
+    ar: {
+      title: 'عقد بيع',
+      body: `${AR_PARTIES}
+<h3>الفصل الثاني: الثمن</h3>
+<p>تم البيع بثمن جملي قدره <strong>{{total_price}}</strong> {{payment_type}}، دفعه الطرف الثاني كاملاً عند الإمضاء، بالإضافة إلى عمولة قدرها {{company_fee_amount}}.</p>
+${AR_SIGNATURES}`,
+    },
+    fr: {
+      title: 'Contrat de vente',
+      body: `${FR_PARTIES}
+<h3>Article 2 : Prix</h3>
+<p>La vente est consentie moyennant le prix global de <strong>{{total_price}}</strong> ({{payment_type}}), intégralement réglé à la signature, majoré d'une commission de {{company_fee_amount}}.</p>
+${FR_SIGNATURES}`,
+    },
+  },
+  Installment: {
+    ar: {
+      title: 'عقد بيع بالتقسيط',
+      body: `${AR_PARTIES}
+<h3>الفصل الثاني: الثمن وطريقة الدفع</h3>
+<p>تم البيع بثمن جملي قدره <strong>{{total_price}}</strong> {{payment_type}}، يدفع كما يلي:</p>
+<ul>
+<li>العربون: {{reservation_amount}}</li>
+<li>التسبقة: {{advance_amount}}</li>
+<li>العمولة: {{company_fee_amount}}</li>
+<li>المتبقي: {{remaining_amount}} على {{installments_count}} قسط شهري بقيمة {{monthly_amount}}، من {{installments_start}} إلى {{installments_end}}.</li>
+</ul>
+<h3>الفصل الثالث: جدول الأقساط</h3>
+{{installments_table}}
+<p>يلتزم الطرف الثاني بدفع كل قسط في أجله، وكل تأخير يخضع لغرامات التأخير المعمول بها.</p>
+${AR_SIGNATURES}`,
+    },
+    fr: {
+      title: 'Contrat de vente par facilités',
+      body: `${FR_PARTIES}
+<h3>Article 2 : Prix et modalités de paiement</h3>
+<p>La vente est consentie moyennant le prix global de <strong>{{total_price}}</strong> ({{payment_type}}), payable comme suit :</p>
+<ul>
+<li>Arrhes : {{reservation_amount}}</li>
+<li>Avance : {{advance_amount}}</li>
+<li>Commission : {{company_fee_amount}}</li>
+<li>Reste : {{remaining_amount}} en {{installments_count}} mensualités de {{monthly_amount}}, du {{installments_start}} au {{installments_end}}.</li>
+</ul>
+<h3>Article 3 : Échéancier</h3>
+{{installments_table}}
+<p>L'acquéreur s'engage à régler chaque échéance à sa date ; tout retard est soumis aux pénalités en vigueur.</p>
+${FR_SIGNATURES}`,
+    },
+  },
+  PromiseOfSale: {
+    ar: {
+      title: 'وعد بالبيع',
+      body: `${AR_PARTIES}
+<h3>الفصل الثاني: الثمن</h3>
+<p>يتم البيع بثمن جملي قدره <strong>{{total_price}}</strong> ({{payment_type}}). دفع الطرف الثاني مبلغ {{promise_initial_payment}} عند الإمضاء، ويلتزم باستكمال المبلغ المتبقي في أجل أقصاه {{promise_completion_date}}.</p>
+<p>في صورة عدم الاستكمال في الأجل المحدد، يحق للطرف الأول التصرف في القطع المذكورة.</p>
+${AR_SIGNATURES}`,
+    },
+    fr: {
+      title: 'Promesse de vente',
+      body: `${FR_PARTIES}
+<h3>Article 2 : Prix</h3>
+<p>La vente est promise moyennant le prix global de <strong>{{total_price}}</strong> ({{payment_type}}). L'acquéreur a versé {{promise_initial_payment}} à la signature et s'engage à régler le solde au plus tard le {{promise_completion_date}}.</p>
+<p>À défaut de paiement dans ce délai, la société reprend la libre disposition des lots.</p>
+${FR_SIGNATURES}`,
+    },
+  },
+}
+
+function buildPiecesTable(pieces: ContractPiece[], language: DocumentLanguage): string {
+  const headers = language === 'ar'
+    ? ['الدفعة', 'رقم القطعة', 'المساحة (م²)', 'الرسم العقاري عدد', 'السعر']
+    : ['Lotissement', 'N° du lot', 'Superficie (m²)', 'Titre foncier n°', 'Prix']
+  const rows = pieces.map(piece => `<tr>
+<td>${escapeHtml(piece.batchName)}</td>
+<td>${escapeHtml(piece.pieceNumber)}</td>
+<td>${escapeHtml(piece.surfaceArea)}</td>
+<td>${escapeHtml(piece.realEstateTaxNumber || '-')}</td>
+<td>${escapeHtml(formatDocumentAmount(piece.price, language))}</td>
+</tr>`).join('')
+  return `<table><thead><tr>${headers.map(h => `<th>${h}</th>`).join('')}</tr></thead><tbody>${rows}</tbody></table>`
+}
+
+function buildInstallmentsTable(data: ContractData, language: DocumentLanguage): string {
+  if (data.installments.length === 0) return ''
+  const headers = language === 'ar'
+    ? ['رقم القسط', 'تاريخ الاستحقاق', 'المبلغ']
+    : ['N°', 'Échéance', 'Montant']
+  const rows = data.installments.map(inst => `<tr>
+<td>${escapeHtml(inst.installment_number)}</td>
+<td>${escapeHtml(formatDocumentDate(inst.due_date, language))}</td>
+<td>${escapeHtml(formatDocumentAmount(inst.amount_due, language))}</td>
+</tr>`).join('')
+  return `<table><thead><tr>${headers.map(h => `<th>${h}</th>`).join('')}</tr></thead><tbody>${rows}</tbody></table>`
+}
+
+/**
+ * Placeholder values for a sale, already escaped for HTML
+ */
+export function getContractValues(data: ContractData, language: DocumentLanguage, title: string): Record<string, string> {
+  const amount = (value: number) => escapeHtml(formatDocumentAmount(value, language))
+  const date = (value: string | null) => escapeHtml(formatDocumentDate(value, language))
+  const totalSurface = data.pieces.reduce((sum, piece) => sum + (piece.surfaceArea || 0), 0)
+  const remaining = Math.max(0, data.totalPrice - data.advanceAmount - data.companyFeeAmount)
+  const editor = data.contractEditor
+    ? `${data.contractEditor.type} - ${data.contractEditor.name} (${data.contractEditor.place})`
+    : ''
+
+  return {
+    contract_title: escapeHtml(title),
+    contract_date: date(data.saleDate),
+    sale_reference: escapeHtml(data.saleId.substring(0, 8).toUpperCase()),
+    client_name: escapeHtml(data.client.name),
+    client_cin: escapeHtml(data.client.cin),
+    client_address: escapeHtml(data.client.address || '-'),
+    client_phone: escapeHtml(data.client.phone || '-'),
+    pieces_table: buildPiecesTable(data.pieces, language),
+    pieces_count: escapeHtml(data.pieces.length),
+    total_surface: escapeHtml(totalSurface),
+    total_price: amount(data.totalPrice),
+    payment_type: escapeHtml(PAYMENT_TYPE_LABELS[language][data.paymentType]),
+    reservation_amount: amount(data.reservationAmount),
+    advance_amount: amount(data.advanceAmount),
+    company_fee_amount: amount(data.companyFeeAmount),
+    remaining_amount: amount(remaining),
+    installments_count: escapeHtml(data.numberOfInstallments),
+    monthly_amount: amount(data.monthlyAmount),
+    installments_start: date(data.installmentStartDate),
+    installments_end: date(data.installmentEndDate),
+    installments_table: buildInstallmentsTable(data, language),
+    promise_initial_payment: amount(data.promiseInitialPayment),
+    promise_completion_date: date(data.promiseCompletionDate),
+    contract_editor: escapeHtml(editor || '-'),
+  }
+}
+
+/**
+ * Replace {{placeholders}} in a template body; unknown placeholders are left empty
+ */
+export function renderContractTemplate(body: string, values: Record<string, string>): string {
+  return body.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key: string) => values[key] ?? '')
+}
+
+/**
+ * Complete print-ready contract document
+ */
+export function buildContractDocument(
+  template: ContractTemplateContent,
+  data: ContractData,
+  language: DocumentLanguage
+): string {
+  const values = getContractValues(data, language, template.title)
+  return buildPrintDocument({
+    title: `${template.title} - ${data.client.name}`,
+    language,
+    body: renderContractTemplate(template.body, values),
+  })
+}
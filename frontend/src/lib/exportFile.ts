@@ -0,0 +1,81 @@
+/**
+ * File downloads from the browser (CSV, XLSX)
+ * CSV files start with a UTF-8 BOM so Excel opens Arabic text correctly.
+ * List pages export the rows they currently show (filters applied) through
+ * exportTable(), with headers in the selected interface language.
+ */
+
+import type { DocumentLanguage } from '@/types/database'
+import { buildXlsx } from '@/lib/xlsxWriter'
+import { toDateString } from '@/lib/installmentSchedule'
+
+export type CsvValue = string | number | null | undefined
+
+export type ExportFormat = 'csv' | 'xlsx'
+
+export interface ExportColumn<T> {
+  header: Record<DocumentLanguage, string>
+  value: (row: T) => CsvValue
+}
+
+function escapeCsvValue(value: CsvValue): string {
+  if (value === null || value === undefined) return ''
+  const text = String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * CSV text from a header row and data rows
+ */
+export function toCsv(headers: string[], rows: CsvValue[][]): string {
+  return [headers, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\r\n')
+}
+
+/**
+ * Trigger a browser download for in-memory content
+ */
+export function downloadFile(filename: string, content: BlobPart, mimeType: string): void {
+  const blob = new Blob([content], { type: mimeType })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+export function downloadCsv(filename: string, headers: string[], rows: CsvValue[][]): void {
+  downloadFile(filename, '\uFEFF' + toCsv(headers, rows), 'text/csv;charset=utf-8')
+}
+
+/**
+ * Export rows as CSV or XLSX; the file name gets today's date
+ * (e.g. clients-2025-03-12.xlsx)
+ */
+export function exportTable<T>(params: {
+  filename: string
+  sheetName: string
+  format: ExportFormat
+  language: DocumentLanguage
+  columns: ExportColumn<T>[]
+  rows: T[]
+}): void {
+  const headers = params.columns.map(column => column.header[params.language])
+  const rows = params.rows.map(row => params.columns.map(column => column.value(row)))
+  const name = `${params.filename}-${toDateString(new Date())}`
+
+  if (params.format === 'csv') {
+    downloadCsv(`${name}.csv`, headers, rows)
+    return
+  }
+
+  const xlsx = buildXlsx({
+    sheetName: params.sheetName,
+    headers,
+    rows,
+    rightToLeft: params.language === 'ar',
+  })
+  downloadFile(`${name}.xlsx`, xlsx, 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet')
+}
@@ -0,0 +1,264 @@
+/**
+ * General ledger
+ * Builds the trial balance, the profit and loss and the balance sheet from
+ * the rows of get_trial_balance(), and checks manual entries before
+ * post_manual_journal_entry() records them (add_general_ledger.sql).
+ *
+ * Rules:
+ * - Assets and expenses have a debit balance, liabilities, equity and
+ *   revenue a credit balance; a balance on the other side is shown negative
+ * - The P&L only uses the movements of the period; the balance sheet uses
+ *   the balances at the end of the period
+ * - Revenue minus expenses of all periods not yet closed is shown as current
+ *   earnings in equity, so the balance sheet balances
+ * - A manual entry needs two lines or more, one side per line, and equal
+ *   debit and credit totals
+ */
+
+import type { GlAccountType, JournalSourceType, TrialBalanceRow } from '@/types/database'
+import { roundMoney } from '@/lib/installmentSchedule'
+
+export const GL_ACCOUNT_TYPE_LABELS: Record<GlAccountType, string> = {
+  Asset: 'الأصول',
+  Liability: 'الخصوم',
+  Equity: 'حقوق الملكية',
+  Revenue: 'الإيرادات',
+  Expense: 'المصاريف',
+}
+
+export const JOURNAL_SOURCE_LABELS: Record<JournalSourceType, string> = {
+  payment: 'دفعة عميل',
+  expense: 'مصروف / إيراد',
+  sale: 'بيع',
+  company_fee: 'عمولة الشركة',
+  cancellation: 'إلغاء بيع',
+  debt: 'دين',
+  debt_payment: 'تسديد دين',
+  land_batch: 'شراء أرض',
+  manual: 'قيد يدوي',
+}
+
+const DEBIT_NORMAL: GlAccountType[] = ['Asset', 'Expense']
+
+export function isDebitNormal(type: GlAccountType): boolean {
+  return DEBIT_NORMAL.includes(type)
+}
+
+// Balance on the normal side of the account
+export function signedBalance(type: GlAccountType, debit: number, credit: number): number {
+  return roundMoney(isDebitNormal(type) ? debit - credit : credit - debit)
+}
+
+// ============================================
+// Trial balance
+// ============================================
+
+export interface TrialBalanceLine extends TrialBalanceRow {
+  closing_debit: number
+  closing_credit: number
+}
+
+export interface TrialBalanceTotals {
+  opening_debit: number
+  opening_credit: number
+  period_debit: number
+  period_credit: number
+  closing_debit: number
+  closing_credit: number
+}
+
+function toNumber(value: unknown): number {
+  return Number(value) || 0
+}
+
+// Closing balance on one side only; accounts without any movement are dropped
+export function buildTrialBalance(rows: TrialBalanceRow[]): { lines: TrialBalanceLine[]; totals: TrialBalanceTotals } {
+  const totals: TrialBalanceTotals = {
+    opening_debit: 0,
+    opening_credit: 0,
+    period_debit: 0,
+    period_credit: 0,
+    closing_debit: 0,
+    closing_credit: 0,
+  }
+
+  const lines = rows
+    .map((row) => {
+      const opening_debit = toNumber(row.opening_debit)
+      const opening_credit = toNumber(row.opening_credit)
+      const period_debit = toNumber(row.period_debit)
+      const period_credit = toNumber(row.period_credit)
+      const net = roundMoney(opening_debit + period_debit - opening_credit - period_credit)
+      return {
+        ...row,
+        opening_debit,
+        opening_credit,
+        period_debit,
+        period_credit,
+        closing_debit: net > 0 ? net : 0,
+        closing_credit: net < 0 ? -net : 0,
+      }
+    })
+    .filter((line) => line.opening_debit || line.opening_credit || line.period_debit || line.period_credit)
+
+  lines.forEach((line) => {
+    totals.opening_debit += line.opening_debit
+    totals.opening_credit += line.opening_credit
+    totals.period_debit += line.period_debit
+    totals.period_credit += line.period_credit
+    totals.closing_debit += line.closing_debit
+    totals.closing_credit += line.closing_credit
+  })
+  ;(Object.keys(totals) as (keyof TrialBalanceTotals)[]).forEach((key) => {
+    totals[key] = roundMoney(totals[key])
+  })
+
+  return { lines, totals }
+}
+
+// ============================================
+// Profit and loss
+// ============================================
+
+export interface StatementLine {
+  account_code: string
+  name: string
+  amount: number
+}
+
+export interface ProfitAndLoss {
+  revenue: StatementLine[]
+  expenses: StatementLine[]
+  total_revenue: number
+  total_expenses: number
+  net_income: number
+}
+
+function sumLines(lines: StatementLine[]): number {
+  return roundMoney(lines.reduce((sum, line) => sum + line.amount, 0))
+}
+
+export function buildProfitAndLoss(rows: TrialBalanceRow[]): ProfitAndLoss {
+  const linesOf = (type: GlAccountType): StatementLine[] =>
+    rows
+      .filter((row) => row.account_type === type)
+      .map((row) => ({
+        account_code: row.account_code,
+        name: row.name_ar,
+        amount: signedBalance(type, toNumber(row.period_debit), toNumber(row.period_credit)),
+      }))
+      .filter((line) => line.amount !== 0)
+
+  const revenue = linesOf('Revenue')
+  const expenses = linesOf('Expense')
+  const total_revenue = sumLines(revenue)
+  const total_expenses = sumLines(expenses)
+
+  return {
+    revenue,
+    expenses,
+    total_revenue,
+    total_expenses,
+    net_income: roundMoney(total_revenue - total_expenses),
+  }
+}
+
+// ============================================
+// Balance sheet
+// ============================================
+
+export interface BalanceSheet {
+  assets: StatementLine[]
+  liabilities: StatementLine[]
+  equity: StatementLine[]
+  total_assets: number
+  total_liabilities: number
+  total_equity: number
+  // Assets minus liabilities and equity; zero when the journal balances
+  difference: number
+}
+
+export const CURRENT_EARNINGS_LABEL = 'نتيجة الفترة (أرباح غير موزعة)'
+
+export function buildBalanceSheet(rows: TrialBalanceRow[]): BalanceSheet {
+  const closing = (row: TrialBalanceRow) =>
+    signedBalance(
+      row.account_type,
+      toNumber(row.opening_debit) + toNumber(row.period_debit),
+      toNumber(row.opening_credit) + toNumber(row.period_credit)
+    )
+
+  const linesOf = (type: GlAccountType): StatementLine[] =>
+    rows
+      .filter((row) => row.account_type === type)
+      .map((row) => ({ account_code: row.account_code, name: row.name_ar, amount: closing(row) }))
+      .filter((line) => line.amount !== 0)
+
+  const earnings = roundMoney(
+    rows.reduce((sum, row) => {
+      if (row.account_type === 'Revenue') return sum + closing(row)
+      if (row.account_type === 'Expense') return sum - closing(row)
+      return sum
+    }, 0)
+  )
+
+  const assets = linesOf('Asset')
+  const liabilities = linesOf('Liability')
+  const equity = linesOf('Equity')
+  if (earnings !== 0) {
+    equity.push({ account_code: '', name: CURRENT_EARNINGS_LABEL, amount: earnings })
+  }
+
+  const total_assets = sumLines(assets)
+  const total_liabilities = sumLines(liabilities)
+  const total_equity = sumLines(equity)
+
+  return {
+    assets,
+    liabilities,
+    equity,
+    total_assets,
+    total_liabilities,
+    total_equity,
+    difference: roundMoney(total_assets - total_liabilities - total_equity),
+  }
+}
+
+// ============================================
+// Manual entries
+// ============================================
+
+// Line as sent to post_manual_journal_entry()
+export interface ManualJournalLine {
+  account_code: string
+  debit: number
+  credit: number
+  memo: string
+}
+
+export function getManualEntryTotals(lines: ManualJournalLine[]): { debit: number; credit: number } {
+  return {
+    debit: roundMoney(lines.reduce((sum, line) => sum + (line.debit || 0), 0)),
+    credit: roundMoney(lines.reduce((sum, line) => sum + (line.credit || 0), 0)),
+  }
+}
+
+// Returns the first problem found, or null when the entry can be posted
+export function validateManualEntry(description: string, lines: ManualJournalLine[]): string | null {
+  if (!description.trim()) return 'يرجى إدخال بيان القيد'
+
+  const filled = lines.filter((line) => line.account_code || line.debit || line.credit)
+  if (filled.length < 2) return 'القيد يحتاج سطرين على الأقل'
+
+  for (let i = 0; i < filled.length; i++) {
+    const line = filled[i]
+    if (!line.account_code) return `السطر ${i + 1}: يرجى اختيار الحساب`
+    if (line.debit < 0 || line.credit < 0) return `السطر ${i + 1}: المبالغ يجب أن تكون موجبة`
+    if ((line.debit > 0) === (line.credit > 0)) return `السطر ${i + 1}: أدخل مبلغاً في المدين أو في الدائن فقط`
+  }
+
+  const totals = getManualEntryTotals(filled)
+  if (totals.debit !== totals.credit) return 'القيد غير متوازن: مجموع المدين يجب أن يساوي مجموع الدائن'
+
+  return null
+}
@@ -0,0 +1,136 @@
+/**
+ * Installment restructuring
+ * Builds the new schedule sent to restructure_installments()
+ * (add_installment_restructuring.sql) and the before / after comparison shown
+ * before it is approved. The database function checks the schedule against the
+ * balance and remains the only place installments are replaced.
+ *
+ * Rules:
+ * - Outstanding balance = what is still owed on the open (not Paid)
+ *   installments + late penalties not yet collected
+ * - The balloon payment is taken out of the balance first; the rest is spread
+ *   by number of months or by monthly amount (months win, as in
+ *   resolveInstallmentTerms)
+ * - A payment holiday pushes the first new installment back by that many months
+ * - The balloon is due one month after the last regular installment
+ * - Started open installments are closed at what was paid, untouched ones are
+ *   removed; new installments are numbered after the installments that stay
+ */
+
+import type { Installment } from '@/types/database'
+import { addMonths, buildInstallmentSchedule, resolveInstallmentTerms, roundMoney } from '@/lib/installmentSchedule'
+import { getInstallmentOutstanding, getOutstandingPenalty } from '@/lib/latePenalties'
+
+type RestructuringInstallment = Pick<
+  Installment,
+  'id' | 'installment_number' | 'due_date' | 'amount_due' | 'stacked_amount' | 'amount_paid' | 'status' | 'penalty_amount' | 'penalty_paid'
+>
+
+export interface RestructuringOptions {
+  numberOfMonths?: number | null
+  monthlyAmount?: number | null
+  startDate: string
+  holidayMonths?: number
+  balloonAmount?: number
+}
+
+export interface RestructuringBalance {
+  openInstallments: RestructuringInstallment[]
+  installmentsBalance: number
+  penalties: number
+  total: number
+}
+
+export interface RestructuredInstallment {
+  installment_number: number
+  due_date: string
+  amount: number
+  isBalloon: boolean
+}
+
+export interface RestructuringPlan {
+  balance: RestructuringBalance
+  numberOfMonths: number
+  monthlyAmount: number
+  balloonAmount: number
+  holidayMonths: number
+  firstDueDate: string
+  endDate: string | null
+  schedule: RestructuredInstallment[]
+}
+
+/**
+ * Open installments of a sale and what is still owed on them
+ */
+export function getRestructuringBalance(installments: RestructuringInstallment[]): RestructuringBalance {
+  const openInstallments = installments
+    .filter(i => i.status !== 'Paid')
+    .sort((a, b) => a.installment_number - b.installment_number)
+  const installmentsBalance = roundMoney(openInstallments.reduce((sum, i) => sum + getInstallmentOutstanding(i), 0))
+  const penalties = roundMoney(openInstallments.reduce((sum, i) => sum + getOutstandingPenalty(i), 0))
+  return {
+    openInstallments,
+    installmentsBalance,
+    penalties,
+    total: roundMoney(installmentsBalance + penalties),
+  }
+}
+
+/**
+ * New schedule for the outstanding balance of a sale
+ */
+export function buildRestructuringPlan(
+  installments: RestructuringInstallment[],
+  options: RestructuringOptions
+): RestructuringPlan {
+  const balance = getRestructuringBalance(installments)
+  const holidayMonths = Math.max(0, Math.floor(options.holidayMonths || 0))
+  const balloonAmount = roundMoney(Math.min(Math.max(options.balloonAmount || 0, 0), balance.total))
+  const regularAmount = roundMoney(balance.total - balloonAmount)
+  const firstDueDate = addMonths(options.startDate, holidayMonths)
+
+  const terms = resolveInstallmentTerms(regularAmount, {
+    numberOfMonths: options.numberOfMonths,
+    monthlyPayment: options.monthlyAmount,
+  })
+
+  // Paid and started installments stay (started ones are closed at what was paid)
+  const firstNumber = installments
+    .filter(i => i.status === 'Paid' || (i.amount_paid || 0) > 0 || (i.penalty_paid || 0) > 0)
+    .reduce((max, i) => Math.max(max, i.installment_number), 0) + 1
+  const regular = buildInstallmentSchedule({
+    saleId: '',
+    remainingAmount: regularAmount,
+    numberOfMonths: terms.numberOfMonths,
+    monthlyAmount: terms.monthlyAmount,
+    startDate: firstDueDate,
+    firstInstallmentNumber: firstNumber,
+  })
+
+  const schedule: RestructuredInstallment[] = regular.map(row => ({
+    installment_number: row.installment_number,
+    due_date: row.due_date,
+    amount: row.amount_due,
+    isBalloon: false,
+  }))
+
+  if (balloonAmount > 0) {
+    schedule.push({
+      installment_number: firstNumber + regular.length,
+      due_date: addMonths(firstDueDate, regular.length),
+      amount: balloonAmount,
+      isBalloon: true,
+    })
+  }
+
+  return {
+    balance,
+    numberOfMonths: regular.length,
+    monthlyAmount: regular.length > 0 ? terms.monthlyAmount : 0,
+    balloonAmount,
+    holidayMonths,
+    firstDueDate,
+    endDate: schedule.length > 0 ? schedule[schedule.length - 1].due_date : null,
+    schedule,
+  }
+}
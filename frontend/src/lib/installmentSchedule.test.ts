@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildInstallmentSchedule,
+  calculateOfferPlan,
+  roundMoney,
+  type OfferTerms,
+} from '@/lib/installmentSchedule'
+
+const offer = (terms: Partial<OfferTerms>): OfferTerms => ({
+  advance_amount: 0,
+  advance_is_percentage: false,
+  monthly_payment: 0,
+  number_of_months: null,
+  company_fee_percentage: 0,
+  ...terms,
+})
+
+const total = (rows: { amount_due: number }[]) => roundMoney(rows.reduce((sum, r) => sum + r.amount_due, 0))
+
+describe('buildInstallmentSchedule', () => {
+  it('puts the rounding remainder on the last month', () => {
+    const rows = buildInstallmentSchedule({
+      saleId: 's1',
+      remainingAmount: 1000,
+      numberOfMonths: 3,
+      monthlyAmount: 333.33,
+      startDate: '2026-01-31',
+    })
+
+    expect(rows.map(r => r.amount_due)).toEqual([333.33, 333.33, 333.34])
+    expect(total(rows)).toBe(1000)
+    expect(rows.map(r => r.due_date)).toEqual(['2026-01-31', '2026-02-28', '2026-03-31'])
+  })
+
+  it('stops early instead of emitting empty months', () => {
+    const rows = buildInstallmentSchedule({
+      saleId: 's1',
+      remainingAmount: 250,
+      numberOfMonths: 6,
+      monthlyAmount: 100,
+      startDate: '2026-01-01',
+    })
+
+    expect(rows.map(r => r.amount_due)).toEqual([100, 100, 50])
+    expect(total(rows)).toBe(250)
+  })
+
+  it('returns no rows when nothing is left to pay', () => {
+    expect(buildInstallmentSchedule({ saleId: 's1', remainingAmount: 0, numberOfMonths: 12, monthlyAmount: 0 })).toEqual([])
+  })
+})
+
+describe('calculateOfferPlan', () => {
+  it('spreads the whole price when there is no advance', () => {
+    const plan = calculateOfferPlan({
+      offer: offer({ number_of_months: 4 }),
+      price: 10000,
+      startDate: '2026-05-10',
+    })
+
+    expect(plan.advanceAmount).toBe(0)
+    expect(plan.companyFeeAmount).toBe(0)
+    expect(plan.advanceDueAtConfirmation).toBe(0)
+    expect(plan.remainingAmount).toBe(10000)
+    expect(plan.numberOfMonths).toBe(4)
+    expect(total(plan.installments)).toBe(10000)
+    expect(plan.endDate).toBe('2026-08-10')
+  })
+
+  it('collects the fee at confirmation when the offer has no advance', () => {
+    const plan = calculateOfferPlan({
+      offer: offer({ number_of_months: 10, company_fee_percentage: 2 }),
+      price: 50000,
+      startDate: '2026-01-15',
+    })
+
+    expect(plan.advanceAmount).toBe(0)
+    expect(plan.companyFeeAmount).toBe(1000)
+    expect(plan.advanceDueAtConfirmation).toBe(1000)
+    expect(plan.remainingAmount).toBe(49000)
+    expect(total(plan.installments)).toBe(49000)
+  })
+
+  it('deducts the reservation from the advance only', () => {
+    const plan = calculateOfferPlan({
+      offer: offer({ advance_amount: 20, advance_is_percentage: true, number_of_months: 12, company_fee_percentage: 1 }),
+      price: 30000,
+      reservationAmount: 1000,
+      startDate: '2026-01-01',
+    })
+
+    expect(plan.advanceAmount).toBe(6000)
+    expect(plan.advanceDueAtConfirmation).toBe(5300)
+    expect(plan.remainingAmount).toBe(23700)
+    expect(plan.installments).toHaveLength(12)
+    expect(total(plan.installments)).toBe(23700)
+  })
+
+  it('reports the months the schedule really has', () => {
+    const plan = calculateOfferPlan({
+      offer: offer({ monthly_payment: 3000 }),
+      price: 10000,
+      startDate: '2026-01-01',
+    })
+
+    expect(plan.numberOfMonths).toBe(plan.installments.length)
+    expect(plan.installments.map(r => r.amount_due)).toEqual([3000, 3000, 3000, 1000])
+  })
+})
@@ -0,0 +1,244 @@
+/**
+ * Installment schedule engine
+ * Single source of truth for advance, commission and monthly schedule math.
+ * Framework-free: no React, no Supabase - pages pass plain values in and
+ * persist the returned rows themselves.
+ *
+ * Rules:
+ * - Amounts are rounded to 2 decimals (half away from zero)
+ * - Remaining for installments = Price - Advance - Commission
+ *   (المتبقي للتقسيط = السعر - التسبقة - العمولة)
+ * - The reservation (العربون) is part of the advance (التسبقة), so it only
+ *   reduces what is collected at confirmation, never the installment base
+ * - The commission is collected with the advance at confirmation, even when
+ *   the offer has no advance, and is NOT spread over the installments
+ * - number_of_months takes priority over monthly_payment (primary input method)
+ * - Every installment is the same rounded monthly amount except the last one,
+ *   which absorbs the remainder so the schedule always sums to the remaining amount
+ * - Due dates move one calendar month at a time from the start date and are
+ *   clamped to the end of shorter months (31 Jan -> 28/29 Feb -> 31 Mar)
+ */
+
+import type { Installment, PaymentOffer } from '@/types/database'
+
+export type InstallmentInsert = Omit<Installment, 'id' | 'created_at' | 'updated_at'>
+
+export type OfferTerms = Pick<
+  PaymentOffer,
+  'advance_amount' | 'advance_is_percentage' | 'monthly_payment' | 'number_of_months' | 'company_fee_percentage'
+>
+
+export interface InstallmentTerms {
+  numberOfMonths: number
+  monthlyAmount: number
+}
+
+export interface InstallmentPlan extends InstallmentTerms {
+  price: number
+  advanceAmount: number
+  // Advance after reservation deduction + commission
+  advanceDueAtConfirmation: number
+  companyFeePercentage: number
+  companyFeeAmount: number
+  remainingAmount: number
+  startDate: string
+  endDate: string | null
+  installments: InstallmentInsert[]
+}
+
+export interface OfferPlanInput {
+  offer: OfferTerms | null
+  price: number
+  saleId?: string
+  startDate?: string | Date
+  // Reservation already paid (deducted from the advance due at confirmation)
+  reservationAmount?: number
+  // Overrides the offer's commission (e.g. sale.company_fee_percentage, including 0)
+  companyFeePercentage?: number | null
+}
+
+/**
+ * Round a money amount to 2 decimals, avoiding binary float drift (1.005 -> 1.01)
+ */
+export function roundMoney(amount: number): number {
+  if (!isFinite(amount)) return 0
+  const sign = amount < 0 ? -1 : 1
+  return (sign * Math.round(Math.abs(amount) * 100 + Number.EPSILON * 100)) / 100
+}
+
+/**
+ * Advance amount for a price, from a fixed amount or a percentage of the price
+ */
+export function calculateAdvanceAmount(
+  offer: Pick<PaymentOffer, 'advance_amount' | 'advance_is_percentage'> | null | undefined,
+  price: number
+): number {
+  if (!offer || !offer.advance_amount || offer.advance_amount <= 0) return 0
+  const advance = offer.advance_is_percentage
+    ? (price * offer.advance_amount) / 100
+    : offer.advance_amount
+  return roundMoney(Math.min(Math.max(advance, 0), Math.max(price, 0)))
+}
+
+/**
+ * Company fee (commission) amount for a price and percentage
+ */
+export function calculateCompanyFee(price: number, feePercentage: number | null | undefined): number {
+  if (!feePercentage || feePercentage <= 0 || price <= 0) return 0
+  return roundMoney((price * feePercentage) / 100)
+}
+
+/**
+ * Resolve number of months and monthly amount for a remaining balance.
+ * numberOfMonths wins over monthlyPayment; when only the monthly payment is
+ * known the number of months is rounded up so the balance is fully covered.
+ */
+export function resolveInstallmentTerms(
+  remainingAmount: number,
+  options: { numberOfMonths?: number | null; monthlyPayment?: number | null }
+): InstallmentTerms {
+  const remaining = roundMoney(remainingAmount)
+  if (remaining <= 0) return { numberOfMonths: 0, monthlyAmount: 0 }
+
+  const months = options.numberOfMonths && options.numberOfMonths > 0 ? Math.floor(options.numberOfMonths) : 0
+  if (months > 0) {
+    return { numberOfMonths: months, monthlyAmount: roundMoney(remaining / months) }
+  }
+
+  const monthly = options.monthlyPayment && options.monthlyPayment > 0 ? roundMoney(options.monthlyPayment) : 0
+  if (monthly > 0) {
+    return { numberOfMonths: Math.ceil(roundMoney(remaining / monthly)), monthlyAmount: monthly }
+  }
+
+  return { numberOfMonths: 0, monthlyAmount: 0 }
+}
+
+/**
+ * Format a date as YYYY-MM-DD using its calendar parts (no UTC shift)
+ */
+export function toDateString(date: Date): string {
+  const year = date.getFullYear()
+  const month = (date.getMonth() + 1).toString().padStart(2, '0')
+  const day = date.getDate().toString().padStart(2, '0')
+  return `${year}-${month}-${day}`
+}
+
+function parseDateParts(date: string | Date): { year: number; month: number; day: number } {
+  if (date instanceof Date) {
+    return { year: date.getFullYear(), month: date.getMonth(), day: date.getDate() }
+  }
+  const [year, month, day] = date.split('T')[0].split('-').map(Number)
+  return { year, month: month - 1, day }
+}
+
+/**
+ * Add calendar months to a date, clamping to the last day of the target month
+ */
+export function addMonths(date: string | Date, months: number): string {
+  const { year, month, day } = parseDateParts(date)
+  const target = new Date(year, month + months, 1)
+  const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate()
+  target.setDate(Math.min(day, lastDay))
+  return toDateString(target)
+}
+
+/**
+ * Due date of the last installment (first installment is due on the start date)
+ */
+export function calculateInstallmentEndDate(startDate: string | Date, numberOfMonths: number): string | null {
+  if (numberOfMonths <= 0) return null
+  return addMonths(startDate, numberOfMonths - 1)
+}
+
+/**
+ * Build the installment rows for a remaining amount.
+ * The last installment carries the remainder; if the monthly amount covers the
+ * balance early, the schedule stops there instead of emitting zero rows.
+ */
+export function buildInstallmentSchedule(params: {
+  saleId: string
+  remainingAmount: number
+  numberOfMonths: number
+  monthlyAmount: number
+  startDate?: string | Date
+  firstInstallmentNumber?: number
+}): InstallmentInsert[] {
+  const remaining = roundMoney(params.remainingAmount)
+  const months = Math.floor(params.numberOfMonths)
+  if (remaining <= 0 || months <= 0) return []
+
+  const monthly = params.monthlyAmount > 0 ? roundMoney(params.monthlyAmount) : roundMoney(remaining / months)
+  const startDate = params.startDate || new Date()
+  const firstNumber = params.firstInstallmentNumber ?? 1
+  const installments: InstallmentInsert[] = []
+  let left = remaining
+
+  for (let i = 0; i < months && left > 0; i++) {
+    const isLast = i === months - 1
+    const amountDue = isLast ? left : Math.min(monthly, left)
+    installments.push({
+      sale_id: params.saleId,
+      installment_number: firstNumber + i,
+      amount_due: amountDue,
+      amount_paid: 0,
+      stacked_amount: 0,
+      due_date: addMonths(startDate, i),
+      paid_date: null,
+      status: 'Unpaid',
+      notes: null,
+    })
+    left = roundMoney(left - amountDue)
+  }
+
+  return installments
+}
+
+/**
+ * Full plan for a price under a payment offer: advance, commission,
+ * remaining balance, terms and the installment rows.
+ */
+export function calculateOfferPlan(input: OfferPlanInput): InstallmentPlan {
+  const price = roundMoney(Math.max(input.price || 0, 0))
+  const offer = input.offer
+  const advanceAmount = calculateAdvanceAmount(offer, price)
+
+  const companyFeePercentage = input.companyFeePercentage !== null && input.companyFeePercentage !== undefined
+    ? input.companyFeePercentage
+    : offer?.company_fee_percentage || 0
+  const companyFeeAmount = calculateCompanyFee(price, companyFeePercentage)
+
+  const advanceDueAtConfirmation = roundMoney(
+    Math.max(0, advanceAmount - (input.reservationAmount || 0)) + companyFeeAmount
+  )
+  const remainingAmount = roundMoney(Math.max(0, price - advanceAmount - companyFeeAmount))
+  const terms = resolveInstallmentTerms(remainingAmount, {
+    numberOfMonths: offer?.number_of_months,
+    monthlyPayment: offer?.monthly_payment,
+  })
+
+  const startDate = typeof input.startDate === 'string'
+    ? input.startDate.split('T')[0]
+    : toDateString(input.startDate || new Date())
+
+  const installments = buildInstallmentSchedule({
+    saleId: input.saleId || '',
+    remainingAmount,
+    numberOfMonths: terms.numberOfMonths,
+    monthlyAmount: terms.monthlyAmount,
+    startDate,
+  })
+
+  return {
+    price,
+    advanceAmount,
+    advanceDueAtConfirmation,
+    companyFeePercentage,
+    companyFeeAmount,
+    remainingAmount,
+    numberOfMonths: installments.length,
+    monthlyAmount: terms.monthlyAmount,
+    startDate,
+    endDate: installments.length > 0 ? installments[installments.length - 1].due_date : null,
+    installments,
+  }
+}
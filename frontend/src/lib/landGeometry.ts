@@ -0,0 +1,344 @@
+/**
+ * Batch and piece geometry (GeoJSON / KML)
+ * Geometries are GeoJSON Polygon or MultiPolygon in WGS84 longitude/latitude.
+ * Surveyor files are matched to pieces by piece number; the surface computed
+ * from each geometry is compared with the stored surface_area.
+ */
+
+import type { LandGeometry, LandStatus } from '@/types/database'
+
+// Relative difference between computed and stored surface that gets flagged
+export const SURFACE_TOLERANCE = 0.05
+
+export interface GeometryFeature {
+  // Piece number, or name of the outline as found in the file
+  label: string
+  properties: Record<string, unknown>
+  geometry: LandGeometry
+}
+
+export interface GeometryFileResult {
+  features: GeometryFeature[]
+  errors: string[]
+}
+
+// ============================================
+// Area (geodesic, on the WGS84 sphere radius)
+// ============================================
+
+const EARTH_RADIUS = 6378137
+const RAD = Math.PI / 180
+
+// Spherical excess formula used by most GIS tools (same as turf/area)
+function ringArea(ring: number[][]): number {
+  const closed = ring.length > 1 && ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1]
+  const points = closed ? ring.slice(0, -1) : ring
+  const n = points.length
+  if (n < 3) return 0
+
+  let total = 0
+  for (let i = 0; i < n; i++) {
+    const lower = points[i]
+    const middle = points[(i + 1) % n]
+    const upper = points[(i + 2) % n]
+    total += (upper[0] * RAD - lower[0] * RAD) * Math.sin(middle[1] * RAD)
+  }
+  return Math.abs((total * EARTH_RADIUS * EARTH_RADIUS) / 2)
+}
+
+function polygonArea(rings: number[][][]): number {
+  if (rings.length === 0) return 0
+  return Math.max(0, ringArea(rings[0]) - rings.slice(1).reduce((sum, hole) => sum + ringArea(hole), 0))
+}
+
+/**
+ * Surface in m², rounded to 2 decimals
+ */
+export function geometryArea(geometry: LandGeometry): number {
+  const area = geometry.type === 'Polygon'
+    ? polygonArea(geometry.coordinates)
+    : geometry.coordinates.reduce((sum, polygon) => sum + polygonArea(polygon), 0)
+  return Math.round(area * 100) / 100
+}
+
+/**
+ * Relative difference with the stored surface, or null when it cannot be compared
+ */
+export function surfaceDifference(computedArea: number | null | undefined, storedArea: number | null | undefined): number | null {
+  if (!computedArea || !storedArea || storedArea <= 0) return null
+  return (computedArea - storedArea) / storedArea
+}
+
+export function isSurfaceDiscrepancy(computedArea: number | null | undefined, storedArea: number | null | undefined): boolean {
+  const difference = surfaceDifference(computedArea, storedArea)
+  return difference !== null && Math.abs(difference) > SURFACE_TOLERANCE
+}
+
+// ============================================
+// Validation
+// ============================================
+
+function validRing(ring: unknown): ring is number[][] {
+  return Array.isArray(ring)
+    && ring.length >= 3
+    && ring.every(p =>
+      Array.isArray(p) && p.length >= 2
+      && typeof p[0] === 'number' && typeof p[1] === 'number'
+      && Math.abs(p[0]) <= 180 && Math.abs(p[1]) <= 90
+    )
+}
+
+// 2D coordinates (altitude dropped), rings closed
+function cleanRings(rings: number[][][]): number[][][] {
+  return rings.map(ring => {
+    const points = ring.map(p => [p[0], p[1]])
+    const first = points[0]
+    const last = points[points.length - 1]
+    return first[0] === last[0] && first[1] === last[1] ? points : [...points, [first[0], first[1]]]
+  })
+}
+
+/**
+ * Polygon or MultiPolygon with WGS84 coordinates, or an error message
+ */
+export function toLandGeometry(value: unknown): LandGeometry | string {
+  const geometry = value as { type?: string; coordinates?: unknown } | null
+  if (!geometry || typeof geometry !== 'object') return 'لا يوجد شكل هندسي'
+
+  if (geometry.type === 'Polygon') {
+    const rings = geometry.coordinates
+    if (!Array.isArray(rings) || rings.length === 0 || !rings.every(validRing)) {
+      return 'إحداثيات غير صالحة (يجب أن تكون بنظام WGS84: خط الطول/خط العرض)'
+    }
+    return { type: 'Polygon', coordinates: cleanRings(rings) }
+  }
+  if (geometry.type === 'MultiPolygon') {
+    const polygons = geometry.coordinates
+    if (!Array.isArray(polygons) || polygons.length === 0
+      || !polygons.every(rings => Array.isArray(rings) && rings.length > 0 && rings.every(validRing))) {
+      return 'إحداثيات غير صالحة (يجب أن تكون بنظام WGS84: خط الطول/خط العرض)'
+    }
+    return { type: 'MultiPolygon', coordinates: polygons.map(cleanRings) }
+  }
+  return `نوع الشكل غير مدعوم: ${geometry.type || '-'} (المطلوب مضلع)`
+}
+
+// ============================================
+// Reading files
+// ============================================
+
+// Property names that may hold the piece number, in order of preference
+const LABEL_PROPERTIES = ['piece_number', 'piece', 'numero', 'num', 'lot', 'parcelle', 'parcel', 'name', 'nom', 'id']
+
+function featureLabel(properties: Record<string, unknown>, fallback: string): string {
+  const keys = Object.keys(properties)
+  for (const wanted of LABEL_PROPERTIES) {
+    const key = keys.find(k => k.toLowerCase() === wanted)
+    const value = key ? properties[key] : null
+    if (value !== null && value !== undefined && String(value).trim()) return String(value).trim()
+  }
+  return fallback
+}
+
+export function parseGeoJson(text: string): GeometryFileResult {
+  const features: GeometryFeature[] = []
+  const errors: string[] = []
+
+  let json: { type?: string; features?: unknown[]; properties?: unknown; geometry?: unknown }
+  try {
+    json = JSON.parse(text)
+  } catch {
+    return { features, errors: ['الملف ليس ملف GeoJSON صالحاً'] }
+  }
+
+  const crs = (json as { crs?: { properties?: { name?: string } } }).crs?.properties?.name
+  if (crs && !/4326|CRS84/i.test(crs)) {
+    return { features, errors: [`نظام الإحداثيات ${crs} غير مدعوم. يرجى التصدير بنظام WGS84 (EPSG:4326)`] }
+  }
+
+  const rawFeatures: Array<{ properties?: unknown; geometry?: unknown }> =
+    json.type === 'FeatureCollection' && Array.isArray(json.features) ? json.features as Array<{ properties?: unknown; geometry?: unknown }>
+      : json.type === 'Feature' ? [json]
+        : [{ properties: {}, geometry: json }]
+
+  rawFeatures.forEach((feature, index) => {
+    const properties = (feature.properties && typeof feature.properties === 'object' ? feature.properties : {}) as Record<string, unknown>
+    const label = featureLabel(properties, `#${index + 1}`)
+    const geometry = toLandGeometry(feature.geometry)
+    if (typeof geometry === 'string') {
+      errors.push(`${label}: ${geometry}`)
+      return
+    }
+    features.push({ label, properties, geometry })
+  })
+  return { features, errors }
+}
+
+function kmlRing(element: Element | undefined): number[][] | null {
+  const text = element?.getElementsByTagName('coordinates')[0]?.textContent
+  if (!text) return null
+  return text.trim().split(/\s+/).map(tuple => tuple.split(',').map(Number))
+}
+
+function kmlPolygon(polygon: Element): number[][][] | null {
+  const outer = kmlRing(polygon.getElementsByTagName('outerBoundaryIs')[0])
+  if (!outer) return null
+  const holes = Array.from(polygon.getElementsByTagName('innerBoundaryIs'))
+    .map(kmlRing)
+    .filter((ring): ring is number[][] => ring !== null)
+  return [outer, ...holes]
+}
+
+export function parseKml(text: string): GeometryFileResult {
+  const features: GeometryFeature[] = []
+  const errors: string[] = []
+
+  const doc = new DOMParser().parseFromString(text, 'application/xml')
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    return { features, errors: ['الملف ليس ملف KML صالحاً'] }
+  }
+
+  Array.from(doc.getElementsByTagName('Placemark')).forEach((placemark, index) => {
+    const properties: Record<string, unknown> = {}
+    const name = Array.from(placemark.children).find(c => c.localName === 'name')?.textContent?.trim()
+    if (name) properties.name = name
+    Array.from(placemark.getElementsByTagName('Data')).forEach(data => {
+      const key = data.getAttribute('name')
+      if (key) properties[key] = data.getElementsByTagName('value')[0]?.textContent?.trim() ?? ''
+    })
+    Array.from(placemark.getElementsByTagName('SimpleData')).forEach(data => {
+      const key = data.getAttribute('name')
+      if (key) properties[key] = data.textContent?.trim() ?? ''
+    })
+
+    const label = featureLabel(properties, `#${index + 1}`)
+    const polygons = Array.from(placemark.getElementsByTagName('Polygon'))
+      .map(kmlPolygon)
+      .filter((rings): rings is number[][][] => rings !== null)
+    if (polygons.length === 0) {
+      errors.push(`${label}: لا يحتوي على مضلع`)
+      return
+    }
+
+    const geometry = toLandGeometry(polygons.length === 1
+      ? { type: 'Polygon', coordinates: polygons[0] }
+      : { type: 'MultiPolygon', coordinates: polygons })
+    if (typeof geometry === 'string') {
+      errors.push(`${label}: ${geometry}`)
+      return
+    }
+    features.push({ label, properties, geometry })
+  })
+
+  if (features.length === 0 && errors.length === 0) errors.push('لم يتم العثور على أي مضلع في الملف')
+  return { features, errors }
+}
+
+export function parseGeometryFile(fileName: string, text: string): GeometryFileResult {
+  const name = fileName.toLowerCase()
+  if (name.endsWith('.kml')) return parseKml(text)
+  if (name.endsWith('.geojson') || name.endsWith('.json')) return parseGeoJson(text)
+  return { features: [], errors: ['صيغة الملف غير مدعومة. استخدم GeoJSON أو KML'] }
+}
+
+// ============================================
+// Matching features to pieces
+// ============================================
+
+export interface GeometryPiece {
+  id: string
+  piece_number: string
+  surface_area: number
+}
+
+export interface GeometryMatch {
+  feature: GeometryFeature
+  // Matched piece, or null for the batch outline / unknown features
+  piece: GeometryPiece | null
+  isBatchOutline: boolean
+  computedArea: number
+  difference: number | null
+  flagged: boolean
+}
+
+// "P012", "#12" and "12" are the same piece
+function normalizePieceNumber(value: string): string {
+  return value.trim().toLowerCase().replace(/^[p#]/, '').replace(/^0+(?=.)/, '')
+}
+
+/**
+ * The batch outline is the feature named like the batch or marked
+ * "type": "batch"; every other feature is matched on its piece number
+ */
+export function matchGeometryFeatures(features: GeometryFeature[], pieces: GeometryPiece[], batchName: string): GeometryMatch[] {
+  const exact = new Map(pieces.map(p => [p.piece_number.trim(), p]))
+  const normalized = new Map(pieces.map(p => [normalizePieceNumber(p.piece_number), p]))
+
+  return features.map(feature => {
+    const computedArea = geometryArea(feature.geometry)
+    const type = String(feature.properties.type ?? '').toLowerCase()
+    const isBatchOutline = type === 'batch' || feature.label.trim() === batchName.trim()
+    const piece = isBatchOutline
+      ? null
+      : exact.get(feature.label) || normalized.get(normalizePieceNumber(feature.label)) || null
+    const difference = piece ? surfaceDifference(computedArea, piece.surface_area) : null
+    return {
+      feature,
+      piece,
+      isBatchOutline,
+      computedArea,
+      difference,
+      flagged: difference !== null && Math.abs(difference) > SURFACE_TOLERANCE,
+    }
+  })
+}
+
+// ============================================
+// Export
+// ============================================
+
+export interface GeoJsonExportPiece extends GeometryPiece {
+  status: LandStatus
+  selling_price_full: number
+  selling_price_installment: number
+  geometry?: LandGeometry | null
+}
+
+/**
+ * FeatureCollection of the batch outline and its pieces (pieces without
+ * geometry are left out)
+ */
+export function buildBatchGeoJson(
+  batch: { id: string; name: string; location: string | null; geometry?: LandGeometry | null },
+  pieces: GeoJsonExportPiece[]
+): string {
+  const features: unknown[] = []
+  if (batch.geometry) {
+    features.push({
+      type: 'Feature',
+      properties: { type: 'batch', name: batch.name, location: batch.location, computed_surface_area: geometryArea(batch.geometry) },
+      geometry: batch.geometry,
+    })
+  }
+  pieces.forEach(piece => {
+    if (!piece.geometry) return
+    const computedArea = geometryArea(piece.geometry)
+    features.push({
+      type: 'Feature',
+      id: piece.id,
+      properties: {
+        type: 'piece',
+        batch: batch.name,
+        piece_number: piece.piece_number,
+        surface_area: piece.surface_area,
+        computed_surface_area: computedArea,
+        surface_discrepancy: isSurfaceDiscrepancy(computedArea, piece.surface_area),
+        status: piece.status,
+        selling_price_full: piece.selling_price_full,
+        selling_price_installment: piece.selling_price_installment,
+      },
+      geometry: piece.geometry,
+    })
+  })
+  return JSON.stringify({ type: 'FeatureCollection', name: batch.name, features }, null, 2)
+}
@@ -0,0 +1,93 @@
+/**
+ * Late penalty helpers
+ * Mirrors apply_late_penalties() (add_late_payment_penalties.sql) so the UI can
+ * preview charges and split a payment between penalty and installment.
+ * The database function remains the only place penalties are charged.
+ *
+ * Rules:
+ * - A penalty is charged once the installment is unpaid past due_date + grace period
+ * - Flat: fee_value per charge; Percentage: fee_value % of the outstanding amount
+ * - With repeat_monthly the charge repeats every month the installment stays late
+ * - Total penalties per installment never exceed cap_amount (when set)
+ * - Payments settle the outstanding penalty first, then the installment
+ */
+
+import type { Installment, LatePenaltyPolicy } from '@/types/database'
+import { addMonths, roundMoney, toDateString } from '@/lib/installmentSchedule'
+
+type PenaltyFields = Pick<Installment, 'penalty_amount' | 'penalty_paid' | 'penalty_written_off'>
+
+/**
+ * Penalty charged on an installment and not yet collected
+ */
+export function getOutstandingPenalty(installment: PenaltyFields): number {
+  return roundMoney(Math.max(0, (installment.penalty_amount || 0) - (installment.penalty_paid || 0) - (installment.penalty_written_off || 0)))
+}
+
+/**
+ * Installment amount still owed, penalties excluded
+ */
+export function getInstallmentOutstanding(
+  installment: Pick<Installment, 'amount_due' | 'stacked_amount' | 'amount_paid' | 'written_off_amount'>
+): number {
+  return roundMoney(Math.max(0, installment.amount_due + (installment.stacked_amount || 0) - installment.amount_paid - (installment.written_off_amount || 0)))
+}
+
+/**
+ * Whole days between the due date and a reference date (0 when not late)
+ */
+export function getDaysLate(dueDate: string, asOf: Date = new Date()): number {
+  const [year, month, day] = dueDate.split('T')[0].split('-').map(Number)
+  const due = new Date(year, month - 1, day)
+  const today = new Date(asOf.getFullYear(), asOf.getMonth(), asOf.getDate())
+  return Math.max(0, Math.round((today.getTime() - due.getTime()) / (1000 * 60 * 60 * 24)))
+}
+
+/**
+ * Charge the policy would add to an installment today, 0 if none is due.
+ * Same conditions as apply_late_penalties(): grace period, once or monthly, cap.
+ */
+export function calculatePenaltyCharge(
+  installment: Pick<
+    Installment,
+    'amount_due' | 'stacked_amount' | 'amount_paid' | 'due_date' | 'status' | 'penalty_amount' | 'last_penalty_date'
+  >,
+  policy: Pick<LatePenaltyPolicy, 'grace_period_days' | 'fee_type' | 'fee_value' | 'cap_amount' | 'repeat_monthly' | 'is_active'> | null,
+  asOf: Date = new Date()
+): number {
+  if (!policy || !policy.is_active || policy.fee_value <= 0) return 0
+  if (installment.status === 'Paid') return 0
+
+  const outstanding = getInstallmentOutstanding(installment)
+  if (outstanding <= 0.01) return 0
+  if (getDaysLate(installment.due_date, asOf) <= policy.grace_period_days) return 0
+
+  if (installment.last_penalty_date) {
+    if (!policy.repeat_monthly) return 0
+    if (addMonths(installment.last_penalty_date, 1) > toDateString(asOf)) return 0
+  }
+
+  let charge = policy.fee_type === 'Percentage'
+    ? roundMoney((outstanding * policy.fee_value) / 100)
+    : roundMoney(policy.fee_value)
+
+  if (policy.cap_amount !== null && policy.cap_amount !== undefined) {
+    charge = Math.min(charge, roundMoney(policy.cap_amount - (installment.penalty_amount || 0)))
+  }
+
+  return Math.max(0, charge)
+}
+
+/**
+ * Split a payment on one installment: outstanding penalty first, rest to the installment
+ */
+export function splitPaymentWithPenalty(
+  amount: number,
+  installment: PenaltyFields
+): { penaltyPortion: number; installmentPortion: number } {
+  const penaltyPortion = Math.min(roundMoney(Math.max(0, amount)), getOutstandingPenalty(installment))
+  return {
+    penaltyPortion,
+    installmentPortion: roundMoney(Math.max(0, amount - penaltyPortion)),
+  }
+}
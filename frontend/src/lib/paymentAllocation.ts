@@ -0,0 +1,85 @@
+/**
+ * Payment allocation
+ * Mirrors allocate_payment() (add_payment_allocation.sql) so the payment dialog
+ * can show where an amount will go before it is recorded.
+ * The database function remains the only place a payment is allocated.
+ *
+ * Rules:
+ * - With a chosen installment: its penalty, then its amount, come first
+ * - Then late penalties not yet collected, oldest installment first
+ * - Then partially paid installments, oldest first
+ * - Then the remaining installments (overdue and future), oldest first
+ * - An amount above everything still owed on the sale is refused
+ */
+
+import type { Installment, PaymentAllocationLine, PaymentAllocationMode } from '@/types/database'
+import { roundMoney } from '@/lib/installmentSchedule'
+import { getInstallmentOutstanding, getOutstandingPenalty } from '@/lib/latePenalties'
+
+type AllocationInstallment = Pick<
+  Installment,
+  'id' | 'installment_number' | 'amount_due' | 'stacked_amount' | 'amount_paid' | 'written_off_amount' | 'status' | 'penalty_amount' | 'penalty_paid' | 'penalty_written_off'
+>
+
+export interface PaymentAllocationPreview {
+  mode: PaymentAllocationMode
+  lines: PaymentAllocationLine[]
+  totalDue: number
+  // Part of the amount nothing is owed for (refused by allocate_payment)
+  excess: number
+}
+
+export const ALLOCATION_KIND_LABELS: Record<PaymentAllocationLine['kind'], string> = {
+  penalty: 'غرامة تأخير',
+  installment: 'قسط',
+}
+
+/**
+ * Spread an amount over the open installments of one sale
+ */
+export function allocatePayment(
+  installments: AllocationInstallment[],
+  amount: number,
+  installmentId?: string | null
+): PaymentAllocationPreview {
+  const open = installments
+    .filter(i => i.status !== 'Paid')
+    .sort((a, b) => a.installment_number - b.installment_number)
+    .map(i => ({
+      id: i.id,
+      installment_number: i.installment_number,
+      outstanding: getInstallmentOutstanding(i),
+      penalty: getOutstandingPenalty(i),
+      started: (i.amount_paid || 0) > 0,
+    }))
+
+  const totalDue = roundMoney(open.reduce((sum, i) => sum + i.outstanding + i.penalty, 0))
+  const lines: PaymentAllocationLine[] = []
+  let left = roundMoney(Math.max(0, amount))
+
+  const take = (inst: (typeof open)[number], kind: PaymentAllocationLine['kind']) => {
+    const part = Math.min(left, kind === 'penalty' ? inst.penalty : inst.outstanding)
+    if (part <= 0) return
+    lines.push({ installment_id: inst.id, installment_number: inst.installment_number, kind, amount: part })
+    if (kind === 'penalty') inst.penalty = roundMoney(inst.penalty - part)
+    else inst.outstanding = roundMoney(inst.outstanding - part)
+    left = roundMoney(left - part)
+  }
+
+  const chosen = installmentId ? open.find(i => i.id === installmentId) : undefined
+  if (chosen) {
+    take(chosen, 'penalty')
+    take(chosen, 'installment')
+  }
+
+  open.forEach(inst => take(inst, 'penalty'))
+  open.filter(inst => inst.started).forEach(inst => take(inst, 'installment'))
+  open.filter(inst => !inst.started).forEach(inst => take(inst, 'installment'))
+
+  return {
+    mode: installmentId ? 'installment' : 'oldest',
+    lines,
+    totalDue,
+    excess: left,
+  }
+}
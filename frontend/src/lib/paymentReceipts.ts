@@ -0,0 +1,97 @@
+/**
+ * Payment receipts
+ * Receipts are numbered by the database (add_payment_receipts.sql); this module
+ * only formats them. A receipt is bilingual (Arabic / French) on one page.
+ * Reprints are marked as duplicates, voided receipts as cancelled.
+ */
+
+import type { PaymentReceipt, PaymentRecordType } from '@/types/database'
+import { amountInWords } from '@/lib/amountInWords'
+import { buildPrintDocument, escapeHtml, formatDocumentAmount, formatDocumentDate } from '@/lib/printDocument'
+
+export const PAYMENT_RECORD_TYPE_LABELS: Record<PaymentRecordType, { ar: string; fr: string }> = {
+  BigAdvance: { ar: 'التسبقة', fr: 'Avance' },
+  SmallAdvance: { ar: 'العربون', fr: 'Arrhes' },
+  Installment: { ar: 'قسط', fr: 'Mensualité' },
+  Full: { ar: 'دفع كامل', fr: 'Paiement comptant' },
+  Partial: { ar: 'دفعة جزئية', fr: 'Paiement partiel' },
+  Field: { ar: 'دفعة ميدانية', fr: 'Paiement terrain' },
+  Refund: { ar: 'استرجاع', fr: 'Remboursement' },
+  InitialPayment: { ar: 'وعد بالبيع', fr: 'Promesse de vente' },
+  Penalty: { ar: 'غرامة تأخير', fr: 'Pénalité de retard' },
+}
+
+const PAYMENT_METHOD_LABELS: Record<string, { ar: string; fr: string }> = {
+  Cash: { ar: 'نقدي', fr: 'Espèces' },
+  BankTransfer: { ar: 'تحويل بنكي', fr: 'Virement' },
+  Check: { ar: 'شيك', fr: 'Chèque' },
+  CreditCard: { ar: 'بطاقة ائتمان', fr: 'Carte bancaire' },
+  Other: { ar: 'أخرى', fr: 'Autre' },
+}
+
+/**
+ * Receipt number as printed (zero padded)
+ */
+export function formatReceiptNumber(receiptNumber: number): string {
+  return receiptNumber.toString().padStart(6, '0')
+}
+
+function getMethodLabel(method: string | null): { ar: string; fr: string } {
+  if (!method) return PAYMENT_METHOD_LABELS.Cash
+  return PAYMENT_METHOD_LABELS[method] || { ar: method, fr: method }
+}
+
+const RECEIPT_STYLES = `
+  .receipt { border: 2px solid #222; padding: 14px 18px; position: relative; }
+  .receipt-header { display: flex; justify-content: space-between; align-items: baseline; border-bottom: 1px solid #444; margin-bottom: 8px; }
+  .receipt-row { display: flex; justify-content: space-between; gap: 12px; padding: 3px 0; border-bottom: 1px dotted #bbb; }
+  .receipt-row .fr { direction: ltr; text-align: left; }
+  .receipt-row .value { font-weight: bold; text-align: center; flex: 1; }
+  .words { margin: 10px 0; padding: 6px; background: #f6f6f6; }
+  .words .fr { direction: ltr; text-align: left; }
+  .stamp { position: absolute; top: 40%; left: 20%; font-size: 40pt; color: rgba(200, 0, 0, 0.25); transform: rotate(-20deg); }
+`
+
+/**
+ * Complete print-ready receipt (Arabic and French on the same page)
+ */
+export function buildReceiptDocument(receipt: PaymentReceipt, saleLabel?: string): string {
+  const typeLabel = PAYMENT_RECORD_TYPE_LABELS[receipt.payment_type] || { ar: receipt.payment_type, fr: receipt.payment_type }
+  const methodLabel = getMethodLabel(receipt.payment_method)
+  const number = formatReceiptNumber(receipt.receipt_number)
+  const isDuplicate = receipt.print_count > 0
+
+  const row = (ar: string, value: string, fr: string) => `<div class="receipt-row">
+<span>${ar}</span><span class="value">${value}</span><span class="fr">${fr}</span>
+</div>`
+
+  const body = `<div class="receipt">
+${receipt.is_voided ? '<div class="stamp">ملغى / ANNULÉ</div>' : ''}
+<div class="receipt-header">
+<h2>وصل خلاص عدد ${escapeHtml(number)}</h2>
+<h2 dir="ltr">Reçu N° ${escapeHtml(number)}</h2>
+</div>
+${isDuplicate ? '<p class="muted">نسخة / Duplicata</p>' : ''}
+${row('التاريخ', escapeHtml(formatDocumentDate(receipt.payment_date, 'fr')), 'Date')}
+${row('الحريف', escapeHtml(receipt.client_name || '-'), 'Client')}
+${row('بطاقة التعريف', escapeHtml(receipt.client_cin || '-'), 'CIN')}
+${saleLabel ? row('البيع', escapeHtml(saleLabel), 'Vente') : ''}
+${row('نوع الدفعة', `${escapeHtml(typeLabel.ar)} / ${escapeHtml(typeLabel.fr)}`, 'Nature')}
+${row('طريقة الدفع', `${escapeHtml(methodLabel.ar)} / ${escapeHtml(methodLabel.fr)}`, 'Mode de paiement')}
+${row('المبلغ', escapeHtml(formatDocumentAmount(receipt.amount, 'fr')), 'Montant')}
+<div class="words">
+<div>المبلغ بلسان القلم: <strong>${escapeHtml(amountInWords(receipt.amount, 'ar'))}</strong></div>
+<div class="fr">Arrêté le présent reçu à la somme de : <strong>${escapeHtml(amountInWords(receipt.amount, 'fr'))}</strong></div>
+</div>
+${row('سجله', escapeHtml(receipt.recorded_by_name || '-'), 'Encaissé par')}
+${receipt.is_voided && receipt.voided_at ? row('تاريخ الإلغاء', escapeHtml(formatDocumentDate(receipt.voided_at, 'fr')), 'Annulé le') : ''}
+<div class="signatures"><div>إمضاء المستلم / Signature</div><div>ختم الشركة / Cachet</div></div>
+</div>`
+
+  return buildPrintDocument({
+    title: `Reçu ${number}`,
+    language: 'ar',
+    body,
+    extraStyles: RECEIPT_STYLES,
+  })
+}
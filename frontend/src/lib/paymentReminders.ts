@@ -0,0 +1,85 @@
+/**
+ * Payment reminders
+ * Renders reminder templates the same way the send-reminders Edge Function
+ * (supabase/functions/send-reminders) does, so templates can be previewed
+ * before they are saved and reminders due can be shown before they are sent.
+ *
+ * Rules:
+ * - BeforeDue: sent N days before the due date
+ * - OnDue: sent on the due date
+ * - AfterDue: sent M days after the due date, while the installment is still open
+ * - A rule reminds an installment once (failed attempts are retried)
+ * - The template is picked in the client's language, else the other one
+ */
+
+import type { DocumentLanguage, DueReminder, ReminderChannel, ReminderLogStatus, ReminderTriggerType } from '@/types/database'
+import { formatDocumentAmount, formatDocumentDate } from '@/lib/printDocument'
+
+export const REMINDER_TRIGGER_LABELS: Record<ReminderTriggerType, string> = {
+  BeforeDue: 'قبل الاستحقاق',
+  OnDue: 'يوم الاستحقاق',
+  AfterDue: 'بعد الاستحقاق (تأخير)',
+}
+
+export const REMINDER_CHANNEL_LABELS: Record<ReminderChannel, string> = {
+  SMS: 'رسالة قصيرة SMS',
+  WhatsApp: 'واتساب',
+}
+
+export const REMINDER_STATUS_LABELS: Record<ReminderLogStatus, { label: string; variant: 'success' | 'destructive' | 'secondary' }> = {
+  Sent: { label: 'أُرسل', variant: 'success' },
+  Failed: { label: 'فشل', variant: 'destructive' },
+  Logged: { label: 'مسجل فقط', variant: 'secondary' },
+}
+
+// Placeholders available in template bodies
+export const REMINDER_PLACEHOLDERS: { key: string; label: string }[] = [
+  { key: '{client_name}', label: 'اسم العميل' },
+  { key: '{phone}', label: 'هاتف العميل' },
+  { key: '{amount}', label: 'المبلغ المستحق' },
+  { key: '{due_date}', label: 'تاريخ الاستحقاق' },
+  { key: '{piece_numbers}', label: 'رقم القطعة' },
+  { key: '{installment_number}', label: 'رقم القسط' },
+  { key: '{days}', label: 'عدد الأيام' },
+]
+
+export type ReminderTemplateValues = Pick<
+  DueReminder,
+  'client_name' | 'phone' | 'amount_due' | 'due_date' | 'piece_numbers' | 'installment_number' | 'days'
+>
+
+// Used to preview a template while it is being written
+export const SAMPLE_REMINDER_VALUES: ReminderTemplateValues = {
+  client_name: 'محمد بن علي',
+  phone: '20 123 456',
+  amount_due: 1250,
+  due_date: '2025-01-05',
+  piece_numbers: '12, 13',
+  installment_number: 4,
+  days: 3,
+}
+
+/**
+ * Message text for one reminder
+ */
+export function renderReminderTemplate(body: string, values: ReminderTemplateValues, language: DocumentLanguage): string {
+  const replacements: Record<string, string> = {
+    client_name: values.client_name || '',
+    phone: values.phone || '',
+    amount: formatDocumentAmount(values.amount_due, language),
+    due_date: formatDocumentDate(values.due_date, language),
+    piece_numbers: values.piece_numbers || '',
+    installment_number: String(values.installment_number ?? ''),
+    days: String(values.days ?? ''),
+  }
+  return body.replace(/\{(\w+)\}/g, (match, key: string) => (key in replacements ? replacements[key] : match))
+}
+
+/**
+ * Short description of when a rule fires
+ */
+export function describeReminderRule(rule: { trigger_type: ReminderTriggerType; days: number }): string {
+  if (rule.trigger_type === 'OnDue') return 'يوم الاستحقاق'
+  if (rule.trigger_type === 'BeforeDue') return `${rule.days} يوم قبل الاستحقاق`
+  return `${rule.days} يوم بعد الاستحقاق`
+}
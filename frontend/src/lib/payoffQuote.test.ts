@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest'
+import { calculatePayoffQuote, isPayoffQuoteExpired } from '@/lib/payoffQuote'
+
+type PayoffInstallment = Parameters<typeof calculatePayoffQuote>[0][number]
+
+const inst = (fields: Partial<PayoffInstallment>): PayoffInstallment => ({
+  amount_due: 1000,
+  stacked_amount: 0,
+  amount_paid: 0,
+  status: 'Unpaid',
+  penalty_amount: 0,
+  penalty_paid: 0,
+  ...fields,
+})
+
+const noDiscount = { discountType: 'None' as const, discountValue: 0, waivePenalties: false }
+
+describe('calculatePayoffQuote', () => {
+  it('sums what is left on the open installments', () => {
+    const quote = calculatePayoffQuote([
+      inst({ status: 'Paid', amount_paid: 1000 }),
+      inst({ status: 'Partial', amount_paid: 400 }),
+      inst({ stacked_amount: 250 }),
+    ], noDiscount)
+
+    expect(quote.remainingPrincipal).toBe(1850)
+    expect(quote.openInstallments).toBe(2)
+    expect(quote.payoffAmount).toBe(1850)
+  })
+
+  it('rounds a percentage discount to the cent, like ROUND(x, 2)', () => {
+    const quote = calculatePayoffQuote([
+      inst({ amount_due: 1234.56 }),
+      inst({ amount_due: 1000 }),
+    ], { discountType: 'Percentage', discountValue: 7.5, waivePenalties: false })
+
+    expect(quote.remainingPrincipal).toBe(2234.56)
+    expect(quote.discountAmount).toBe(167.59)
+    expect(quote.payoffAmount).toBe(2066.97)
+  })
+
+  it('caps discounts at the principal', () => {
+    const fixed = calculatePayoffQuote([inst({ amount_due: 800 })], { discountType: 'Fixed', discountValue: 5000, waivePenalties: false })
+    const percentage = calculatePayoffQuote([inst({ amount_due: 800 })], { discountType: 'Percentage', discountValue: 150, waivePenalties: false })
+
+    expect(fixed.discountAmount).toBe(800)
+    expect(fixed.payoffAmount).toBe(0)
+    expect(percentage.discountAmount).toBe(800)
+  })
+
+  it('ignores a negative discount', () => {
+    const quote = calculatePayoffQuote([inst({})], { discountType: 'Fixed', discountValue: -200, waivePenalties: false })
+
+    expect(quote.discountAmount).toBe(0)
+    expect(quote.payoffAmount).toBe(1000)
+  })
+
+  it('adds penalties left on paid installments', () => {
+    const installments = [
+      inst({ status: 'Paid', amount_paid: 1000, penalty_amount: 50, penalty_paid: 20 }),
+      inst({ penalty_amount: 25 }),
+    ]
+
+    const quote = calculatePayoffQuote(installments, noDiscount)
+    expect(quote.outstandingPenalties).toBe(55)
+    expect(quote.payoffAmount).toBe(1055)
+
+    const waived = calculatePayoffQuote(installments, { ...noDiscount, waivePenalties: true })
+    expect(waived.outstandingPenalties).toBe(55)
+    expect(waived.payoffAmount).toBe(1000)
+  })
+
+  it('leaves out amounts already written off', () => {
+    const quote = calculatePayoffQuote([
+      inst({ status: 'Paid', amount_paid: 900, written_off_amount: 100, penalty_amount: 40, penalty_written_off: 40 }),
+      inst({ status: 'Partial', amount_paid: 300, written_off_amount: 200 }),
+    ], noDiscount)
+
+    expect(quote.remainingPrincipal).toBe(500)
+    expect(quote.outstandingPenalties).toBe(0)
+    expect(quote.payoffAmount).toBe(500)
+  })
+
+  it('owes nothing on a sale already paid off', () => {
+    const quote = calculatePayoffQuote([inst({ status: 'Paid', amount_paid: 1000 })], noDiscount)
+
+    expect(quote).toEqual({ remainingPrincipal: 0, outstandingPenalties: 0, discountAmount: 0, payoffAmount: 0, openInstallments: 0 })
+  })
+})
+
+describe('isPayoffQuoteExpired', () => {
+  it('keeps a quote valid through its last day', () => {
+    expect(isPayoffQuoteExpired({ status: 'Pending', valid_until: '2026-03-10' }, '2026-03-10')).toBe(false)
+    expect(isPayoffQuoteExpired({ status: 'Pending', valid_until: '2026-03-10' }, '2026-03-11')).toBe(true)
+  })
+
+  it('only expires pending quotes', () => {
+    expect(isPayoffQuoteExpired({ status: 'Accepted', valid_until: '2026-03-10' }, '2026-04-01')).toBe(false)
+  })
+})
@@ -0,0 +1,161 @@
+/**
+ * Early payoff quote
+ * Mirrors create_payoff_quote() (add_payoff_quotes.sql) so the dialog can
+ * preview the amount before the quote is issued, and builds the printable
+ * quote handed to the client.
+ *
+ * Rules:
+ * - Remaining principal = what is still owed on the open (not Paid) installments
+ * - Penalties = uncollected penalties of every installment, Paid ones included
+ * - Discount on the principal only: a percentage of it or a fixed amount (capped)
+ * - Late penalties not yet collected are added, unless waived
+ * - Payoff amount = principal - discount + penalties
+ * - A quote can be accepted until its valid_until date (inclusive), as long as
+ *   the balance of the sale has not changed since it was issued
+ */
+
+import type { DocumentLanguage, Installment, PayoffDiscountType, PayoffQuote } from '@/types/database'
+import { roundMoney, toDateString } from '@/lib/installmentSchedule'
+import { getInstallmentOutstanding, getOutstandingPenalty } from '@/lib/latePenalties'
+import { amountInWords } from '@/lib/amountInWords'
+import { buildPrintDocument, escapeHtml, formatDocumentAmount, formatDocumentDate } from '@/lib/printDocument'
+
+export const PAYOFF_DISCOUNT_LABELS: Record<PayoffDiscountType, { ar: string; fr: string }> = {
+  None: { ar: 'بدون خصم', fr: 'Sans remise' },
+  Percentage: { ar: 'نسبة من المتبقي', fr: 'Pourcentage du restant' },
+  Fixed: { ar: 'مبلغ ثابت', fr: 'Montant fixe' },
+}
+
+export interface PayoffCalculation {
+  remainingPrincipal: number
+  outstandingPenalties: number
+  discountAmount: number
+  payoffAmount: number
+  openInstallments: number
+}
+
+/**
+ * Amount to pay today to settle the sale
+ */
+export function calculatePayoffQuote(
+  installments: Pick<
+    Installment,
+    'amount_due' | 'stacked_amount' | 'amount_paid' | 'written_off_amount' | 'status' | 'penalty_amount' | 'penalty_paid' | 'penalty_written_off'
+  >[],
+  options: { discountType: PayoffDiscountType; discountValue: number; waivePenalties: boolean }
+): PayoffCalculation {
+  const open = installments.filter(i => i.status !== 'Paid')
+  const remainingPrincipal = roundMoney(open.reduce((sum, i) => sum + getInstallmentOutstanding(i), 0))
+  const outstandingPenalties = roundMoney(installments.reduce((sum, i) => sum + getOutstandingPenalty(i), 0))
+  const value = Math.max(0, options.discountValue || 0)
+
+  let discountAmount = 0
+  if (options.discountType === 'Percentage') discountAmount = roundMoney((remainingPrincipal * Math.min(value, 100)) / 100)
+  else if (options.discountType === 'Fixed') discountAmount = roundMoney(Math.min(value, remainingPrincipal))
+
+  return {
+    remainingPrincipal,
+    outstandingPenalties,
+    discountAmount,
+    payoffAmount: roundMoney(remainingPrincipal - discountAmount + (options.waivePenalties ? 0 : outstandingPenalties)),
+    openInstallments: open.length,
+  }
+}
+
+/**
+ * Pending quote whose validity date has passed
+ */
+export function isPayoffQuoteExpired(quote: Pick<PayoffQuote, 'status' | 'valid_until'>, today: string = toDateString(new Date())): boolean {
+  return quote.status === 'Pending' && quote.valid_until < today
+}
+
+export interface PayoffQuoteDocumentData {
+  quote: PayoffQuote
+  saleDate: string
+  client: { name: string; cin: string; phone?: string | null }
+  items: string[] // Pieces of the sale, as printed
+}
+
+const QUOTE_TEXT: Record<DocumentLanguage, Record<string, string>> = {
+  ar: {
+    title: 'عرض سداد مسبق',
+    intro: 'بطلب من الحريف، نعلمه بالمبلغ الواجب دفعه لتسوية كامل المتبقي من هذا البيع دفعة واحدة:',
+    client: 'الحريف',
+    cin: 'بطاقة التعريف',
+    phone: 'الهاتف',
+    sale: 'مرجع البيع',
+    saleDate: 'تاريخ البيع',
+    items: 'موضوع البيع',
+    principal: 'المتبقي من الأقساط',
+    discount: 'الخصم',
+    penalties: 'غرامات التأخير',
+    waived: 'معفاة',
+    payoff: 'المبلغ الواجب دفعه',
+    inWords: 'المبلغ بلسان القلم',
+    validity: 'هذا العرض صالح إلى غاية',
+    closing: 'عند دفع هذا المبلغ في الأجل المذكور تعتبر جميع الأقساط المتبقية خالصة ويُغلق البيع. بعد هذا التاريخ يجب طلب عرض جديد.',
+    madeOn: 'حرر في',
+    companySignature: 'ختم وإمضاء الشركة',
+  },
+  fr: {
+    title: 'Offre de remboursement anticipé',
+    intro: 'À la demande du client, nous lui communiquons le montant à verser pour solder en une seule fois le restant de cette vente :',
+    client: 'Client',
+    cin: 'CIN',
+    phone: 'Téléphone',
+    sale: 'Référence de la vente',
+    saleDate: 'Date de la vente',
+    items: 'Objet de la vente',
+    principal: 'Restant des échéances',
+    discount: 'Remise',
+    penalties: 'Pénalités de retard',
+    waived: 'Annulées',
+    payoff: 'Montant à payer',
+    inWords: 'Montant en toutes lettres',
+    validity: 'Cette offre est valable jusqu\'au',
+    closing: 'Le paiement de ce montant dans le délai indiqué solde toutes les échéances restantes et clôture la vente. Passé cette date, une nouvelle offre doit être demandée.',
+    madeOn: 'Fait le',
+    companySignature: 'Cachet et signature de la société',
+  },
+}
+
+/**
+ * Print-ready payoff quote for the client
+ */
+export function buildPayoffQuoteDocument(data: PayoffQuoteDocumentData, language: DocumentLanguage): string {
+  const text = QUOTE_TEXT[language]
+  const { quote } = data
+  const amount = (value: number) => escapeHtml(formatDocumentAmount(value, language))
+  const date = (value: string) => escapeHtml(formatDocumentDate(value, language))
+  const discountDetail = quote.discount_type === 'Percentage' ? ` (${quote.discount_value}%)` : ''
+
+  const row = (label: string, value: string) => `<tr><th style="width: 40%">${label}</th><td>${value}</td></tr>`
+
+  const body = `<h1>${text.title}</h1>
+<p>${text.intro}</p>
+<table>
+${row(text.client, escapeHtml(data.client.name))}
+${row(text.cin, escapeHtml(data.client.cin))}
+${data.client.phone ? row(text.phone, escapeHtml(data.client.phone)) : ''}
+${row(text.sale, escapeHtml(quote.sale_id.substring(0, 8).toUpperCase()))}
+${row(text.saleDate, date(data.saleDate))}
+${row(text.items, escapeHtml(data.items.join(' ، ')))}
+</table>
+<table>
+${row(text.principal, amount(quote.remaining_principal))}
+${quote.discount_amount > 0 ? row(`${text.discount}${discountDetail}`, `- ${amount(quote.discount_amount)}`) : ''}
+${quote.outstanding_penalties > 0 ? row(text.penalties, quote.waive_penalties ? `${amount(quote.outstanding_penalties)} (${text.waived})` : amount(quote.outstanding_penalties)) : ''}
+${row(`<strong>${text.payoff}</strong>`, `<strong>${amount(quote.payoff_amount)}</strong>`)}
+${row(text.inWords, escapeHtml(amountInWords(quote.payoff_amount, language)))}
+</table>
+<p><strong>${text.validity} ${date(quote.valid_until)}</strong></p>
+<p>${text.closing}</p>
+<p>${text.madeOn} ${date(quote.created_at)}</p>
+<div class="signatures"><div></div><div>${text.companySignature}</div></div>`
+
+  return buildPrintDocument({
+    title: `${text.title} - ${data.client.name}`,
+    language,
+    body,
+  })
+}
@@ -0,0 +1,171 @@
+/**
+ * Partial cancellation (one piece out of a multi-piece sale)
+ * Mirrors remove_piece_from_sale() (add_partial_sale_cancellation.sql) so the
+ * dialog can preview the new totals and schedule before anything is changed.
+ * The database function remains the only place the sale is modified.
+ *
+ * Rules:
+ * - The piece's share of the sale is its price (installment price for
+ *   installment sales) over the price of all pieces of the sale
+ * - total_selling_price loses that share; the commission is recomputed from
+ *   company_fee_percentage (or reduced by the share when there is none)
+ * - Open installments keep the other pieces' share of what is still owed
+ * - What the client already paid for the removed piece (its share of the net
+ *   paid) is credited to the open installments, starting from the last one so
+ *   the plan gets shorter; credit left after that is an overpayment to refund
+ * - Without installments, the overpayment is what was paid above the new
+ *   price + commission
+ */
+
+import type { Installment, LandPiece, Payment, Sale } from '@/types/database'
+import { roundMoney } from '@/lib/installmentSchedule'
+import { getInstallmentOutstanding } from '@/lib/latePenalties'
+
+export type InstallmentChangeAction = 'keep' | 'update' | 'paid' | 'delete'
+
+export interface InstallmentChange {
+  id: string
+  installment_number: number
+  due_date: string
+  oldOutstanding: number
+  newOutstanding: number
+  action: InstallmentChangeAction
+}
+
+export interface PieceRemovalPlan {
+  share: number
+  removedPrice: number
+  newTotalPrice: number
+  newPurchaseCost: number
+  newCompanyFee: number
+  netPaid: number
+  oldOpenBalance: number
+  newOpenBalance: number
+  creditAmount: number
+  creditApplied: number
+  overpayment: number
+  installments: InstallmentChange[]
+}
+
+type RemovalPiece = Pick<LandPiece, 'id' | 'selling_price_full' | 'selling_price_installment' | 'purchase_cost'>
+
+/**
+ * Price used to weigh a piece within its sale
+ */
+function getPieceWeight(piece: RemovalPiece, paymentType: Sale['payment_type']): number {
+  if (paymentType === 'Installment') {
+    return piece.selling_price_installment || piece.selling_price_full || 0
+  }
+  return piece.selling_price_full || 0
+}
+
+/**
+ * New sale totals and installment changes if the piece is removed from the sale
+ */
+export function calculatePieceRemoval(params: {
+  sale: Pick<
+    Sale,
+    'payment_type' | 'total_selling_price' | 'total_purchase_cost' | 'company_fee_percentage' | 'company_fee_amount'
+  >
+  pieces: RemovalPiece[]
+  pieceId: string
+  installments: Pick<Installment, 'id' | 'installment_number' | 'due_date' | 'amount_due' | 'stacked_amount' | 'amount_paid' | 'status'>[]
+  payments: Pick<Payment, 'amount_paid' | 'payment_type'>[]
+}): PieceRemovalPlan {
+  const { sale, pieces, pieceId } = params
+  const piece = pieces.find(p => p.id === pieceId)
+  const totalWeight = pieces.reduce((sum, p) => sum + getPieceWeight(p, sale.payment_type), 0)
+  const share = piece && totalWeight > 0
+    ? getPieceWeight(piece, sale.payment_type) / totalWeight
+    : 1 / Math.max(pieces.length, 1)
+
+  const totalPrice = sale.total_selling_price || 0
+  const removedPrice = roundMoney(totalPrice * share)
+  const newTotalPrice = roundMoney(totalPrice - removedPrice)
+  const removedCost = Math.min(piece?.purchase_cost || roundMoney((sale.total_purchase_cost || 0) * share), sale.total_purchase_cost || 0)
+  const newPurchaseCost = roundMoney((sale.total_purchase_cost || 0) - removedCost)
+  const newCompanyFee = sale.company_fee_percentage !== null && sale.company_fee_percentage !== undefined
+    ? roundMoney((newTotalPrice * sale.company_fee_percentage) / 100)
+    : roundMoney((sale.company_fee_amount || 0) * (1 - share))
+
+  const paid = params.payments
+    .filter(p => p.payment_type !== 'Refund')
+    .reduce((sum, p) => sum + (p.amount_paid || 0), 0)
+  const refunded = params.payments
+    .filter(p => p.payment_type === 'Refund')
+    .reduce((sum, p) => sum + Math.abs(p.amount_paid || 0), 0)
+  const netPaid = Math.max(0, roundMoney(paid - refunded))
+
+  const open = params.installments
+    .filter(i => i.status !== 'Paid')
+    .sort((a, b) => a.installment_number - b.installment_number)
+  const oldOpenBalance = roundMoney(open.reduce((sum, i) => sum + getInstallmentOutstanding(i), 0))
+
+  if (open.length === 0) {
+    return {
+      share,
+      removedPrice,
+      newTotalPrice,
+      newPurchaseCost,
+      newCompanyFee,
+      netPaid,
+      oldOpenBalance: 0,
+      newOpenBalance: 0,
+      creditAmount: 0,
+      creditApplied: 0,
+      overpayment: Math.max(0, roundMoney(netPaid - newTotalPrice - newCompanyFee)),
+      installments: [],
+    }
+  }
+
+  // Other pieces' share of each open installment; the last one takes the rounding
+  const scaledTarget = roundMoney(oldOpenBalance * (1 - share))
+  let scaledSoFar = 0
+  const outstanding = open.map((inst, index) => {
+    const value = index === open.length - 1
+      ? roundMoney(scaledTarget - scaledSoFar)
+      : roundMoney(getInstallmentOutstanding(inst) * (1 - share))
+    scaledSoFar = roundMoney(scaledSoFar + value)
+    return Math.max(0, value)
+  })
+
+  // Credit for the removed piece, from the last installment backwards
+  const creditAmount = roundMoney(netPaid * share)
+  let creditLeft = creditAmount
+  for (let i = outstanding.length - 1; i >= 0 && creditLeft > 0; i--) {
+    const applied = Math.min(creditLeft, outstanding[i])
+    outstanding[i] = roundMoney(outstanding[i] - applied)
+    creditLeft = roundMoney(creditLeft - applied)
+  }
+
+  const installments: InstallmentChange[] = open.map((inst, index) => {
+    const oldOutstanding = getInstallmentOutstanding(inst)
+    const newOutstanding = outstanding[index]
+    let action: InstallmentChangeAction = 'update'
+    if (newOutstanding <= 0) action = (inst.amount_paid || 0) > 0 ? 'paid' : 'delete'
+    else if (Math.abs(newOutstanding - oldOutstanding) < 0.01) action = 'keep'
+    return {
+      id: inst.id,
+      installment_number: inst.installment_number,
+      due_date: inst.due_date,
+      oldOutstanding,
+      newOutstanding,
+      action,
+    }
+  })
+
+  return {
+    share,
+    removedPrice,
+    newTotalPrice,
+    newPurchaseCost,
+    newCompanyFee,
+    netPaid,
+    oldOpenBalance,
+    newOpenBalance: roundMoney(outstanding.reduce((sum, value) => sum + value, 0)),
+    creditAmount,
+    creditApplied: roundMoney(creditAmount - creditLeft),
+    overpayment: creditLeft,
+    installments,
+  }
+}
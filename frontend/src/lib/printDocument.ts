@@ -0,0 +1,119 @@
+/**
+ * Print-ready HTML documents (contracts, receipts, statements)
+ * Documents are standalone HTML pages (A4, RTL for Arabic, LTR for French)
+ * printed through a hidden iframe; "Save as PDF" in the print dialog gives the PDF.
+ */
+
+import type { DocumentLanguage } from '@/types/database'
+import { formatDate } from '@/lib/utils'
+
+const FRENCH_MONTHS = [
+  'janvier', 'février', 'mars', 'avril', 'mai', 'juin',
+  'juillet', 'août', 'septembre', 'octobre', 'novembre', 'décembre',
+]
+
+/**
+ * Escape a value before inserting it into document HTML
+ */
+export function escapeHtml(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/**
+ * Date in the document language (Arabic months, or "12 mars 2025")
+ */
+export function formatDocumentDate(date: string | Date | null | undefined, language: DocumentLanguage): string {
+  if (!date) return ''
+  if (language === 'ar') return formatDate(date)
+  const dateObj = new Date(date)
+  return `${dateObj.getDate()} ${FRENCH_MONTHS[dateObj.getMonth()]} ${dateObj.getFullYear()}`
+}
+
+/**
+ * Amount with 2 decimals and the currency in the document language
+ */
+export function formatDocumentAmount(amount: number | null | undefined, language: DocumentLanguage): string {
+  const value = new Intl.NumberFormat('fr-TN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+    .format(amount || 0)
+  return language === 'ar' ? `${value} د.ت` : `${value} DT`
+}
+
+/**
+ * Wrap a document body into a complete printable HTML page
+ */
+export function buildPrintDocument(params: {
+  title: string
+  language: DocumentLanguage
+  body: string
+  extraStyles?: string
+}): string {
+  const dir = params.language === 'ar' ? 'rtl' : 'ltr'
+  const align = params.language === 'ar' ? 'right' : 'left'
+  return `<!DOCTYPE html>
+<html lang="${params.language}" dir="${dir}">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(params.title)}</title>
+<style>
+  @page { size: A4; margin: 18mm 16mm; }
+  * { box-sizing: border-box; }
+  body {
+    font-family: ${params.language === 'ar' ? "'Amiri', 'Traditional Arabic', 'Arial', sans-serif" : "'Times New Roman', serif"};
+    font-size: 13pt;
+    line-height: 1.7;
+    color: #111;
+    margin: 0;
+    text-align: ${align};
+  }
+  h1, h2, h3 { margin: 0.4em 0; }
+  h1 { text-align: center; font-size: 18pt; }
+  table { width: 100%; border-collapse: collapse; margin: 0.6em 0; }
+  th, td { border: 1px solid #444; padding: 4px 6px; text-align: ${align}; font-size: 11pt; }
+  th { background: #f0f0f0; }
+  .signatures { display: flex; justify-content: space-between; margin-top: 3em; }
+  .signatures div { width: 40%; text-align: center; border-top: 1px solid #444; padding-top: 0.4em; }
+  .muted { color: #555; font-size: 10pt; }
+  ${params.extraStyles || ''}
+</style>
+</head>
+<body>
+${params.body}
+</body>
+</html>`
+}
+
+/**
+ * Print a complete HTML document without leaving the page
+ */
+export function printHtmlDocument(html: string): void {
+  const iframe = document.createElement('iframe')
+  iframe.style.position = 'fixed'
+  iframe.style.width = '0'
+  iframe.style.height = '0'
+  iframe.style.border = '0'
+  iframe.setAttribute('aria-hidden', 'true')
+  document.body.appendChild(iframe)
+
+  const frameWindow = iframe.contentWindow
+  if (!frameWindow) {
+    document.body.removeChild(iframe)
+    return
+  }
+
+  frameWindow.document.open()
+  frameWindow.document.write(html)
+  frameWindow.document.close()
+
+  // Give fonts and layout a moment before opening the print dialog
+  setTimeout(() => {
+    frameWindow.focus()
+    frameWindow.print()
+    setTimeout(() => document.body.removeChild(iframe), 1000)
+  }, 250)
+}
@@ -0,0 +1,61 @@
+/**
+ * Reservations
+ * A reservation holds one or more pieces for a client against a small advance
+ * until reserved_until. State changes go through the database functions in
+ * add_reservation_workflow.sql (create, extend, cancel, convert to sale);
+ * expiry is done by run_status_transitions(). This module only holds the
+ * labels and date helpers used by the pages.
+ */
+
+import type { ReservationChangeType, ReservationStatus } from '@/types/database'
+import { toDateString } from '@/lib/installmentSchedule'
+
+// Default length of a new reservation
+export const DEFAULT_RESERVATION_DAYS = 7
+// Pending reservations ending within this many days are highlighted
+export const RESERVATION_EXPIRING_DAYS = 2
+
+export const RESERVATION_STATUS_LABELS: Record<
+  ReservationStatus,
+  { label: string; variant: 'warning' | 'success' | 'destructive' | 'secondary' }
+> = {
+  Pending: { label: 'نشط', variant: 'warning' },
+  Confirmed: { label: 'تم التحويل إلى بيع', variant: 'success' },
+  Cancelled: { label: 'ملغى', variant: 'destructive' },
+  Expired: { label: 'منتهي', variant: 'secondary' },
+}
+
+export const RESERVATION_CHANGE_LABELS: Record<ReservationChangeType, string> = {
+  created: 'إنشاء',
+  extended: 'تمديد',
+  cancelled: 'إلغاء',
+  converted: 'تحويل إلى بيع',
+  expired: 'انتهاء الصلاحية',
+  updated: 'تعديل',
+}
+
+/**
+ * Date (YYYY-MM-DD) a number of days after the given date
+ */
+export function addDays(date: string | Date, days: number): string {
+  const base = typeof date === 'string' ? new Date(`${date.split('T')[0]}T00:00:00`) : new Date(date)
+  base.setDate(base.getDate() + days)
+  return toDateString(base)
+}
+
+/**
+ * Whole days from today until the date (negative once it has passed)
+ */
+export function daysUntil(date: string, today: Date = new Date()): number {
+  const target = new Date(`${date.split('T')[0]}T00:00:00`)
+  const start = new Date(today.getFullYear(), today.getMonth(), today.getDate())
+  return Math.round((target.getTime() - start.getTime()) / (1000 * 60 * 60 * 24))
+}
+
+/**
+ * Pending reservation whose end date is close (or already passed but not yet
+ * expired by the status job)
+ */
+export function isReservationExpiring(reservation: { status: ReservationStatus; reserved_until: string }): boolean {
+  return reservation.status === 'Pending' && daysUntil(reservation.reserved_until) <= RESERVATION_EXPIRING_DAYS
+}
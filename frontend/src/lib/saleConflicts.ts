@@ -0,0 +1,34 @@
+/**
+ * Double-booking conflicts
+ * Sales are created by create_sale_atomic() (add_atomic_sale_creation.sql),
+ * which locks the pieces or houses of the sale and rejects it with SQLSTATE
+ * PT409 when one of them was taken in the meantime. The error details list
+ * what was taken so the page can update it without reloading.
+ */
+
+import type { LandStatus } from '@/types/database'
+
+export const SALE_CONFLICT_CODE = 'PT409'
+
+export interface SaleConflict {
+  pieces: Array<{ id: string; piece_number: string; status: LandStatus }>
+  houses: Array<{ id: string; name: string; status: LandStatus }>
+}
+
+/**
+ * Conflict described by a create_sale_atomic() error, or null for any other error
+ */
+export function getSaleConflict(error: { code?: string; details?: string | null } | null | undefined): SaleConflict | null {
+  if (!error || error.code !== SALE_CONFLICT_CODE) return null
+
+  let details: Partial<SaleConflict> = {}
+  try {
+    details = error.details ? JSON.parse(error.details) : {}
+  } catch {
+    // Message only
+  }
+  return {
+    pieces: Array.isArray(details.pieces) ? details.pieces : [],
+    houses: Array.isArray(details.houses) ? details.houses : [],
+  }
+}
@@ -0,0 +1,238 @@
+/**
+ * Spreadsheet reader for imports (CSV and XLSX, no dependencies)
+ * Only the first sheet of a workbook is read. Every cell comes back as text;
+ * converting to numbers is left to the import validation.
+ */
+
+export interface SpreadsheetData {
+  headers: string[]
+  rows: string[][]
+  // Line of each row in the file (1-based, header included), for error messages
+  rowNumbers: number[]
+}
+
+// ============================================
+// CSV
+// ============================================
+
+function detectDelimiter(firstLine: string): string {
+  const candidates = [',', ';', '\t']
+  let best = ','
+  let bestCount = 0
+  candidates.forEach(candidate => {
+    const count = firstLine.split(candidate).length - 1
+    if (count > bestCount) {
+      best = candidate
+      bestCount = count
+    }
+  })
+  return best
+}
+
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '')
+  const delimiter = detectDelimiter(content.split(/\r?\n/, 1)[0] || '')
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows
+}
+
+// ============================================
+// XLSX (zip of XML parts)
+// ============================================
+
+interface ZipEntry {
+  method: number
+  compressedSize: number
+  localHeaderOffset: number
+}
+
+function readZipDirectory(data: Uint8Array): Map<string, ZipEntry> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  // End of central directory record: last 22 bytes, plus up to 64KB of comment
+  let eocd = -1
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i
+      break
+    }
+  }
+  if (eocd < 0) throw new Error('الملف ليس ملف Excel صالحاً')
+
+  const entryCount = view.getUint16(eocd + 10, true)
+  let position = view.getUint32(eocd + 16, true)
+  const decoder = new TextDecoder()
+  const entries = new Map<string, ZipEntry>()
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(position, true) !== 0x02014b50) break
+    const nameLength = view.getUint16(position + 28, true)
+    const extraLength = view.getUint16(position + 30, true)
+    const commentLength = view.getUint16(position + 32, true)
+    const name = decoder.decode(data.subarray(position + 46, position + 46 + nameLength))
+    entries.set(name, {
+      method: view.getUint16(position + 10, true),
+      compressedSize: view.getUint32(position + 20, true),
+      localHeaderOffset: view.getUint32(position + 42, true),
+    })
+    position += 46 + nameLength + extraLength + commentLength
+  }
+  return entries
+}
+
+async function readZipText(data: Uint8Array, entries: Map<string, ZipEntry>, name: string): Promise<string | null> {
+  const entry = entries.get(name)
+  if (!entry) return null
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  const offset = entry.localHeaderOffset
+  const start = offset + 30 + view.getUint16(offset + 26, true) + view.getUint16(offset + 28, true)
+  const compressed = data.slice(start, start + entry.compressedSize)
+
+  if (entry.method === 0) return new TextDecoder().decode(compressed)
+  if (entry.method !== 8) throw new Error('طريقة ضغط غير مدعومة في ملف Excel')
+
+  const stream = new Blob([compressed]).stream().pipeThrough(new DecompressionStream('deflate-raw'))
+  return new Response(stream).text()
+}
+
+function parseXml(text: string): Document {
+  return new DOMParser().parseFromString(text, 'application/xml')
+}
+
+// Text of a shared or inline string, rich text runs included (phonetic runs excluded)
+function stringItemText(item: Element): string {
+  return Array.from(item.getElementsByTagName('t'))
+    .filter(t => t.parentElement?.localName !== 'rPh')
+    .map(t => t.textContent || '')
+    .join('')
+}
+
+function columnIndex(ref: string): number {
+  const letters = ref.replace(/\d+$/, '').toUpperCase()
+  let index = 0
+  for (let i = 0; i < letters.length; i++) {
+    index = index * 26 + (letters.charCodeAt(i) - 64)
+  }
+  return index - 1
+}
+
+async function firstSheetPath(data: Uint8Array, entries: Map<string, ZipEntry>): Promise<string> {
+  const fallback = 'xl/worksheets/sheet1.xml'
+  const workbookXml = await readZipText(data, entries, 'xl/workbook.xml')
+  const relsXml = await readZipText(data, entries, 'xl/_rels/workbook.xml.rels')
+  if (!workbookXml || !relsXml) return fallback
+
+  const sheet = parseXml(workbookXml).getElementsByTagName('sheet')[0]
+  const relationId = sheet?.getAttribute('r:id')
+    || sheet?.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id')
+  const relation = Array.from(parseXml(relsXml).getElementsByTagName('Relationship'))
+    .find(r => r.getAttribute('Id') === relationId)
+  const target = relation?.getAttribute('Target')
+  if (!target) return fallback
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`
+}
+
+export async function parseXlsx(buffer: ArrayBuffer): Promise<string[][]> {
+  const data = new Uint8Array(buffer)
+  const entries = readZipDirectory(data)
+
+  const sheetXml = await readZipText(data, entries, await firstSheetPath(data, entries))
+  if (!sheetXml) throw new Error('لم يتم العثور على ورقة بيانات في ملف Excel')
+
+  const sharedStringsXml = await readZipText(data, entries, 'xl/sharedStrings.xml')
+  const sharedStrings = sharedStringsXml
+    ? Array.from(parseXml(sharedStringsXml).getElementsByTagName('si')).map(stringItemText)
+    : []
+
+  const rows: string[][] = []
+  Array.from(parseXml(sheetXml).getElementsByTagName('row')).forEach(rowElement => {
+    const rowNumber = parseInt(rowElement.getAttribute('r') || '', 10)
+    const rowIndex = isNaN(rowNumber) ? rows.length : rowNumber - 1
+    const row: string[] = []
+
+    Array.from(rowElement.getElementsByTagName('c')).forEach(cell => {
+      const ref = cell.getAttribute('r')
+      const col = ref ? columnIndex(ref) : row.length
+      const type = cell.getAttribute('t')
+      const rawValue = cell.getElementsByTagName('v')[0]?.textContent ?? ''
+
+      let value = rawValue
+      if (type === 's') value = sharedStrings[parseInt(rawValue, 10)] ?? ''
+      else if (type === 'inlineStr') {
+        const inline = cell.getElementsByTagName('is')[0]
+        value = inline ? stringItemText(inline) : ''
+      } else if (type === 'b') value = rawValue === '1' ? 'TRUE' : 'FALSE'
+
+      while (row.length < col) row.push('')
+      row[col] = value
+    })
+
+    while (rows.length < rowIndex) rows.push([])
+    rows[rowIndex] = row
+  })
+  return rows
+}
+
+// ============================================
+// Entry point
+// ============================================
+
+export async function readSpreadsheet(file: File): Promise<SpreadsheetData> {
+  const name = file.name.toLowerCase()
+  let table: string[][]
+  if (name.endsWith('.xlsx')) {
+    table = await parseXlsx(await file.arrayBuffer())
+  } else if (name.endsWith('.csv') || name.endsWith('.txt')) {
+    table = parseCsv(await file.text())
+  } else {
+    throw new Error('صيغة الملف غير مدعومة. استخدم CSV أو XLSX')
+  }
+
+  const nonEmpty = table
+    .map((row, index) => ({ cells: (row || []).map(cell => (cell ?? '').trim()), line: index + 1 }))
+    .filter(row => row.cells.some(cell => cell !== ''))
+  if (nonEmpty.length === 0) throw new Error('الملف فارغ')
+
+  const [header, ...rows] = nonEmpty
+  const width = Math.max(header.cells.length, ...rows.map(r => r.cells.length))
+  const pad = (cells: string[]) => Array.from({ length: width }, (_, i) => cells[i] ?? '')
+  return {
+    headers: pad(header.cells).map((h, i) => h || `${i + 1}`),
+    rows: rows.map(r => pad(r.cells)),
+    rowNumbers: rows.map(r => r.line),
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Subdivision map helpers
+ * Piece outlines are drawn over the batch plan image. Points are stored
+ * relative to the image size (x and y between 0 and 1) in land_pieces.map_polygon.
+ */
+
+import type { LandStatus, MapPoint } from '@/types/database'
+
+export const MAP_STATUS_STYLES: Record<LandStatus, { fill: string; stroke: string; label: string }> = {
+  Available: { fill: 'rgba(34, 197, 94, 0.35)', stroke: '#15803d', label: 'متاح' },
+  Reserved: { fill: 'rgba(249, 115, 22, 0.40)', stroke: '#c2410c', label: 'محجوز' },
+  Sold: { fill: 'rgba(239, 68, 68, 0.40)', stroke: '#b91c1c', label: 'مباع' },
+  Cancelled: { fill: 'rgba(148, 163, 184, 0.35)', stroke: '#475569', label: 'ملغي' },
+}
+
+export function isValidPolygon(value: unknown): value is MapPoint[] {
+  return Array.isArray(value)
+    && value.length >= 3
+    && value.every(p => Array.isArray(p) && p.length === 2 && p.every(n => typeof n === 'number' && isFinite(n)))
+}
+
+// Clamp to the image and keep 5 decimals (well below a pixel on any plan scan)
+export function normalizePoint(x: number, y: number): MapPoint {
+  const clamp = (n: number) => Math.round(Math.min(1, Math.max(0, n)) * 100000) / 100000
+  return [clamp(x), clamp(y)]
+}
+
+/**
+ * Label position: area-weighted centroid, or the average of the points for
+ * degenerate (zero-area) outlines
+ */
+export function polygonCentroid(points: MapPoint[]): MapPoint {
+  let area = 0
+  let cx = 0
+  let cy = 0
+  for (let i = 0; i < points.length; i++) {
+    const [x1, y1] = points[i]
+    const [x2, y2] = points[(i + 1) % points.length]
+    const cross = x1 * y2 - x2 * y1
+    area += cross
+    cx += (x1 + x2) * cross
+    cy += (y1 + y2) * cross
+  }
+  if (Math.abs(area) < 1e-12) {
+    return [
+      points.reduce((sum, p) => sum + p[0], 0) / points.length,
+      points.reduce((sum, p) => sum + p[1], 0) / points.length,
+    ]
+  }
+  return [cx / (3 * area), cy / (3 * area)]
+}
+
+export function toSvgPoints(points: MapPoint[]): string {
+  return points.map(([x, y]) => `${x},${y}`).join(' ')
+}
+
+export interface PolygonImportResult {
+  // piece_number -> outline
+  polygons: Map<string, MapPoint[]>
+  errors: string[]
+}
+
+function readPoint(value: unknown): [number, number] | null {
+  if (Array.isArray(value) && value.length >= 2) {
+    const [x, y] = value.map(Number)
+    return isFinite(x) && isFinite(y) ? [x, y] : null
+  }
+  if (value && typeof value === 'object' && 'x' in value && 'y' in value) {
+    const x = Number((value as { x: unknown }).x)
+    const y = Number((value as { y: unknown }).y)
+    return isFinite(x) && isFinite(y) ? [x, y] : null
+  }
+  return null
+}
+
+/**
+ * Outlines from a JSON file, either
+ *   [{ "piece_number": "12", "points": [[x, y], ...] }, ...]  or  { "12": [[x, y], ...], ... }
+ * Points may be {x, y} objects. Coordinates above 1 are read as pixels of the
+ * plan image and converted with its natural size.
+ */
+export function parsePolygonImport(text: string, imageSize: { width: number; height: number }): PolygonImportResult {
+  const polygons = new Map<string, MapPoint[]>()
+  const errors: string[] = []
+
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch {
+    return { polygons, errors: ['الملف ليس ملف JSON صالحاً'] }
+  }
+
+  const items: Array<{ pieceNumber: string; points: unknown }> = Array.isArray(json)
+    ? json.map(item => ({
+        pieceNumber: String(item?.piece_number ?? item?.piece ?? item?.name ?? '').trim(),
+        points: item?.points ?? item?.polygon,
+      }))
+    : json && typeof json === 'object'
+      ? Object.entries(json as Record<string, unknown>).map(([pieceNumber, points]) => ({ pieceNumber: pieceNumber.trim(), points }))
+      : []
+
+  if (items.length === 0) errors.push('لم يتم العثور على أي شكل في الملف')
+
+  items.forEach((item, index) => {
+    const label = item.pieceNumber || `#${index + 1}`
+    if (!item.pieceNumber) {
+      errors.push(`الشكل ${label}: رقم القطعة مفقود`)
+      return
+    }
+    const raw = Array.isArray(item.points) ? item.points.map(readPoint) : []
+    if (raw.length < 3 || raw.some(p => p === null)) {
+      errors.push(`القطعة ${label}: يجب أن يحتوي الشكل على 3 نقاط صحيحة على الأقل`)
+      return
+    }
+    const points = raw as [number, number][]
+    const inPixels = points.some(([x, y]) => x > 1 || y > 1)
+    if (inPixels && (!imageSize.width || !imageSize.height)) {
+      errors.push(`القطعة ${label}: لا يمكن تحويل الإحداثيات قبل تحميل صورة المخطط`)
+      return
+    }
+    polygons.set(item.pieceNumber, points.map(([x, y]) =>
+      inPixels ? normalizePoint(x / imageSize.width, y / imageSize.height) : normalizePoint(x, y)
+    ))
+  })
+
+  return { polygons, errors }
+}
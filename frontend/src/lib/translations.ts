@@ -9,12 +9,20 @@ export const translations = {
       homes: 'إدارة المنازل',
       clients: 'العملاء',
       sales: 'السجل',
+      reservations: 'الحجوزات',
       confirmSales: 'تأكيد المبيعات',
       saleManagement: 'إدارة المبيعات',
       installments: 'الأقساط',
       financial: 'المالية',
       expenses: 'المصاريف',
       debts: 'الديون',
+      cheques: 'الشيكات',
+      bankReconciliation: 'المطابقة البنكية',
+      generalLedger: 'المحاسبة العامة',
+      cashRegister: 'الصندوق',
+      batchProfitability: 'ربحية الدفعات',
+      companyFees: 'دفتر العمولات',
+      cashFlowForecast: 'توقعات السيولة',
       realEstate: 'التطوير والبناء',
       workers: 'العمال',
       messages: 'الرسائل',
@@ -58,6 +66,9 @@ export const translations = {
     warning: 'تحذير',
       saving: 'جاري الحفظ...',
       deleteConfirm: 'هل أنت متأكد من الحذف؟',
+      exportCsv: 'تصدير CSV',
+      exportExcel: 'تصدير Excel',
+      nothingToExport: 'لا توجد بيانات للتصدير',
     },
     // Real Estate Buildings
     realEstate: {
@@ -570,11 +581,19 @@ export const translations = {
       homes: 'Gestion des Maisons',
       clients: 'Clients',
       sales: 'Historique',
+      reservations: 'Réservations',
       confirmSales: 'Confirmation des Ventes',
       installments: 'Versements',
       financial: 'Financier',
       expenses: 'Dépenses',
       debts: 'Dettes',
+      cheques: 'Chèques',
+      bankReconciliation: 'Rapprochement bancaire',
+      generalLedger: 'Comptabilité générale',
+      cashRegister: 'Caisse',
+      batchProfitability: 'Rentabilité des lots',
+      companyFees: 'Registre des commissions',
+      cashFlowForecast: 'Prévision de trésorerie',
       realEstate: 'Développement et Construction',
       workers: 'Ouvriers',
       messages: 'Messages',
@@ -618,6 +637,9 @@ export const translations = {
       warning: 'Avertissement',
       saving: 'Enregistrement...',
       deleteConfirm: 'Êtes-vous sûr de vouloir supprimer ?',
+      exportCsv: 'Exporter CSV',
+      exportExcel: 'Exporter Excel',
+      nothingToExport: 'Aucune donnée à exporter',
     },
     // Real Estate Buildings
     realEstate: {
@@ -0,0 +1,826 @@
+import { useEffect, useMemo, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/contexts/AuthContext'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Select } from '@/components/ui/select'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { ConfirmDialog } from '@/components/ui/confirm-dialog'
+import { showNotification } from '@/components/ui/notification'
+import { BankStatementImportDialog } from '@/components/BankStatementImportDialog'
+import { ExportButtons } from '@/components/ExportButtons'
+import { formatCurrency, formatDate } from '@/lib/utils'
+import { sanitizeNotes } from '@/lib/sanitize'
+import { toDateString } from '@/lib/installmentSchedule'
+import {
+  BANK_MATCH_TYPE_LABELS,
+  DEFAULT_DATE_TOLERANCE_DAYS,
+  buildExpenseCandidate,
+  buildPaymentCandidate,
+  findAutoMatches,
+  getCandidateKey,
+  isBankCandidate,
+  rankBankMatchCandidates,
+  type AutoMatch,
+  type BankMatchCandidate,
+  type ExpenseForMatch,
+  type PaymentForMatch,
+} from '@/lib/bankReconciliation'
+import type { ExportColumn } from '@/lib/exportFile'
+import { Ban, Link2, Unlink, Upload, Wand2 } from 'lucide-react'
+import type { BankStatement, BankStatementLine, Expense, Payment } from '@/types/database'
+
+interface LineWithMatch extends BankStatementLine {
+  payment?: (Pick<Payment, 'id' | 'amount_paid' | 'payment_date' | 'payment_method'> & { client?: { name: string } | null }) | null
+  expense?: Pick<Expense, 'id' | 'amount' | 'expense_date' | 'description'> | null
+}
+
+type LineFilter = 'all' | 'unmatched' | 'matched' | 'ignored'
+
+type ReconciliationView = 'lines' | 'report'
+
+interface ReportRow {
+  side: 'bank' | 'system'
+  date: string
+  label: string
+  reference: string
+  amount: number
+}
+
+// Payments and expenses this many days around the statement are offered for matching
+const CANDIDATE_WINDOW_DAYS = 30
+
+const VIEWS: Array<{ value: ReconciliationView; label: string }> = [
+  { value: 'lines', label: 'عمليات الكشف' },
+  { value: 'report', label: 'تقرير غير المطابق' },
+]
+
+const shiftDate = (date: string, days: number) => {
+  const [year, month, day] = date.split('T')[0].split('-').map(Number)
+  return toDateString(new Date(year, month - 1, day + days))
+}
+
+const reportExportColumns: ExportColumn<ReportRow>[] = [
+  { header: { ar: 'المصدر', fr: 'Source' }, value: r => (r.side === 'bank' ? 'كشف البنك' : 'مسجل بالنظام') },
+  { header: { ar: 'التاريخ', fr: 'Date' }, value: r => r.date },
+  { header: { ar: 'البيان', fr: 'Libellé' }, value: r => r.label },
+  { header: { ar: 'المرجع', fr: 'Référence' }, value: r => r.reference },
+  { header: { ar: 'المبلغ', fr: 'Montant' }, value: r => r.amount },
+]
+
+export function BankReconciliation() {
+  const { hasPermission, profile } = useAuth()
+  const [statements, setStatements] = useState<BankStatement[]>([])
+  const [selectedId, setSelectedId] = useState('')
+  const [lines, setLines] = useState<LineWithMatch[]>([])
+  const [candidates, setCandidates] = useState<BankMatchCandidate[]>([])
+  // Payments and expenses already matched on any statement
+  const [matchedKeys, setMatchedKeys] = useState<Set<string>>(new Set())
+  const [loading, setLoading] = useState(true)
+  const [linesLoading, setLinesLoading] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+  const [view, setView] = useState<ReconciliationView>('lines')
+  const [lineFilter, setLineFilter] = useState<LineFilter>('all')
+  const [search, setSearch] = useState('')
+  const [toleranceDays, setToleranceDays] = useState(DEFAULT_DATE_TOLERANCE_DAYS)
+
+  const [importOpen, setImportOpen] = useState(false)
+  const [autoMatches, setAutoMatches] = useState<AutoMatch[] | null>(null)
+  const [matchTarget, setMatchTarget] = useState<LineWithMatch | null>(null)
+  const [matchSearch, setMatchSearch] = useState('')
+  const [ignoreTarget, setIgnoreTarget] = useState<LineWithMatch | null>(null)
+  const [ignoreReason, setIgnoreReason] = useState('')
+  const [unmatchTarget, setUnmatchTarget] = useState<LineWithMatch | null>(null)
+  const [deleteOpen, setDeleteOpen] = useState(false)
+
+  const canEdit = hasPermission('record_payments')
+  const isOwner = profile?.role === 'Owner'
+  const selectedStatement = statements.find(s => s.id === selectedId) || null
+
+  useEffect(() => {
+    fetchStatements()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  const fetchStatements = async (selectId?: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('bank_statements')
+        .select('*')
+        .order('period_end', { ascending: false, nullsFirst: false })
+        .order('created_at', { ascending: false })
+        .limit(200)
+
+      if (error) throw error
+      const list = (data as BankStatement[]) || []
+      setStatements(list)
+      const next = list.find(s => s.id === selectId) || list.find(s => s.id === selectedId) || list[0]
+      if (next) {
+        setSelectedId(next.id)
+        loadStatement(next)
+      } else {
+        setSelectedId('')
+        setLines([])
+      }
+    } catch (error) {
+      console.error('Error fetching bank statements:', error)
+      showNotification('خطأ في تحميل الكشوف البنكية: ' + (error as Error).message, 'error')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const loadStatement = async (statement: BankStatement) => {
+    setLinesLoading(true)
+    try {
+      const today = toDateString(new Date())
+      const from = shiftDate(statement.period_start || today, -CANDIDATE_WINDOW_DAYS)
+      const to = shiftDate(statement.period_end || today, CANDIDATE_WINDOW_DAYS)
+
+      const [linesRes, paymentsRes, expensesRes, matchedRes] = await Promise.all([
+        supabase
+          .from('bank_statement_lines')
+          .select('*, payment:payments(id, amount_paid, payment_date, payment_method, client:clients(name)), expense:expenses(id, amount, expense_date, description)')
+          .eq('statement_id', statement.id)
+          .order('transaction_date', { ascending: true })
+          .order('line_number', { ascending: true }),
+        supabase
+          .from('payments')
+          .select('id, amount_paid, payment_date, payment_method, notes, client:clients(name, cin)')
+          .neq('payment_type', 'Refund')
+          .gte('payment_date', from)
+          .lte('payment_date', to)
+          .limit(2000),
+        supabase
+          .from('expenses')
+          .select('id, amount, expense_date, payment_method, description, notes, is_revenue')
+          .neq('status', 'Rejected')
+          .gte('expense_date', from)
+          .lte('expense_date', to)
+          .limit(2000),
+        supabase
+          .from('bank_statement_lines')
+          .select('payment_id, expense_id')
+          .or('payment_id.not.is.null,expense_id.not.is.null'),
+      ])
+      if (linesRes.error) throw linesRes.error
+      if (paymentsRes.error) throw paymentsRes.error
+      if (expensesRes.error) throw expensesRes.error
+      if (matchedRes.error) throw matchedRes.error
+
+      setLines((linesRes.data as LineWithMatch[]) || [])
+      setCandidates([
+        ...((paymentsRes.data || []) as unknown as PaymentForMatch[]).map(buildPaymentCandidate),
+        ...((expensesRes.data || []) as ExpenseForMatch[]).map(buildExpenseCandidate),
+      ])
+      const keys = new Set<string>()
+      ;((matchedRes.data || []) as Array<{ payment_id: string | null; expense_id: string | null }>).forEach(row => {
+        if (row.payment_id) keys.add(getCandidateKey({ kind: 'payment', id: row.payment_id }))
+        if (row.expense_id) keys.add(getCandidateKey({ kind: 'expense', id: row.expense_id }))
+      })
+      setMatchedKeys(keys)
+    } catch (error) {
+      console.error('Error loading bank statement:', error)
+      showNotification('خطأ في تحميل عمليات الكشف: ' + (error as Error).message, 'error')
+    } finally {
+      setLinesLoading(false)
+    }
+  }
+
+  const selectStatement = (id: string) => {
+    setSelectedId(id)
+    const statement = statements.find(s => s.id === id)
+    if (statement) loadStatement(statement)
+  }
+
+  const reload = () => {
+    if (selectedStatement) loadStatement(selectedStatement)
+  }
+
+  const openCandidates = useMemo(
+    () => candidates.filter(c => !matchedKeys.has(getCandidateKey(c))),
+    [candidates, matchedKeys]
+  )
+
+  const filteredLines = useMemo(() => {
+    const term = search.trim().toLowerCase()
+    return lines.filter(line => {
+      if (lineFilter === 'unmatched' && line.match_type) return false
+      if (lineFilter === 'matched' && (!line.match_type || line.match_type === 'Ignored')) return false
+      if (lineFilter === 'ignored' && line.match_type !== 'Ignored') return false
+      if (!term) return true
+      return (
+        line.description?.toLowerCase().includes(term) ||
+        line.reference?.toLowerCase().includes(term) ||
+        String(line.amount).includes(term)
+      )
+    })
+  }, [lines, lineFilter, search])
+
+  const stats = useMemo(() => {
+    const credits = lines.filter(l => l.amount > 0).reduce((sum, l) => sum + l.amount, 0)
+    const debits = lines.filter(l => l.amount < 0).reduce((sum, l) => sum - l.amount, 0)
+    const unmatched = lines.filter(l => !l.match_type)
+    return {
+      credits,
+      debits,
+      matched: lines.filter(l => l.match_type && l.match_type !== 'Ignored').length,
+      ignored: lines.filter(l => l.match_type === 'Ignored').length,
+      unmatched: unmatched.length,
+      unmatchedAmount: unmatched.reduce((sum, l) => sum + Math.abs(l.amount), 0),
+    }
+  }, [lines])
+
+  // Bank payments and expenses recorded during the statement period that are on no statement
+  const missingOnStatement = useMemo(() => {
+    if (!selectedStatement?.period_start || !selectedStatement.period_end) return []
+    const { period_start: start, period_end: end } = selectedStatement
+    return openCandidates
+      .filter(c => isBankCandidate(c) && c.date >= start && c.date <= end)
+      .sort((a, b) => a.date.localeCompare(b.date))
+  }, [openCandidates, selectedStatement])
+
+  const reportRows = useMemo<ReportRow[]>(() => [
+    ...lines.filter(l => !l.match_type).map(l => ({
+      side: 'bank' as const,
+      date: l.transaction_date,
+      label: l.description || '',
+      reference: l.reference || l.bank_transaction_id || '',
+      amount: l.amount,
+    })),
+    ...missingOnStatement.map(c => ({
+      side: 'system' as const,
+      date: c.date,
+      label: `${c.kind === 'payment' ? 'دفعة' : 'مصروف'} - ${c.label}`,
+      reference: c.payment_method || '',
+      amount: c.amount,
+    })),
+  ], [lines, missingOnStatement])
+
+  // ============================================
+  // Matching
+  // ============================================
+  const previewAutoMatch = () => {
+    const unmatched = lines.filter(l => !l.match_type)
+    const matches = findAutoMatches(unmatched, openCandidates.filter(isBankCandidate), toleranceDays)
+    if (matches.length === 0) {
+      showNotification('لم يتم العثور على مطابقات مؤكدة. استعمل المطابقة اليدوية للأسطر المتبقية', 'error')
+      return
+    }
+    setAutoMatches(matches)
+  }
+
+  const saveMatches = async (matches: Array<{ line_id: string; candidate: BankMatchCandidate }>, matchType: 'Auto' | 'Manual') => {
+    if (submitting) return false
+    setSubmitting(true)
+    try {
+      const { data, error } = await supabase.rpc('match_bank_statement_lines', {
+        p_matches: matches.map(m => ({
+          line_id: m.line_id,
+          payment_id: m.candidate.kind === 'payment' ? m.candidate.id : null,
+          expense_id: m.candidate.kind === 'expense' ? m.candidate.id : null,
+        })),
+        p_match_type: matchType,
+      })
+      if (error) throw error
+
+      showNotification(matchType === 'Auto' ? `تمت مطابقة ${data} عملية` : 'تمت المطابقة', 'success')
+      reload()
+      return true
+    } catch (error) {
+      console.error('Error matching bank lines:', error)
+      showNotification('حدث خطأ أثناء المطابقة: ' + (error as Error).message, 'error')
+      return false
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const applyAutoMatches = async () => {
+    if (!autoMatches) return
+    if (await saveMatches(autoMatches, 'Auto')) setAutoMatches(null)
+  }
+
+  const applyManualMatch = async (candidate: BankMatchCandidate) => {
+    if (!matchTarget) return
+    if (await saveMatches([{ line_id: matchTarget.id, candidate }], 'Manual')) setMatchTarget(null)
+  }
+
+  const manualCandidates = useMemo(() => {
+    if (!matchTarget) return []
+    const term = matchSearch.trim().toLowerCase()
+    return rankBankMatchCandidates(matchTarget, openCandidates, toleranceDays)
+      .filter(({ candidate }) => !term || candidate.label.toLowerCase().includes(term) || String(Math.abs(candidate.amount)).includes(term))
+      .slice(0, 50)
+  }, [matchTarget, matchSearch, openCandidates, toleranceDays])
+
+  const ignoreLine = async () => {
+    if (!ignoreTarget || submitting) return
+    if (!ignoreReason.trim()) {
+      showNotification('يرجى إدخال سبب التجاهل', 'error')
+      return
+    }
+    setSubmitting(true)
+    try {
+      const { error } = await supabase.rpc('ignore_bank_statement_line', {
+        p_line_id: ignoreTarget.id,
+        p_notes: sanitizeNotes(ignoreReason),
+      })
+      if (error) throw error
+      showNotification('تم تجاهل العملية', 'success')
+      setIgnoreTarget(null)
+      reload()
+    } catch (error) {
+      console.error('Error ignoring bank line:', error)
+      showNotification('حدث خطأ: ' + (error as Error).message, 'error')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const unmatchLine = async () => {
+    if (!unmatchTarget) return
+    try {
+      const { error } = await supabase.rpc('unmatch_bank_statement_line', { p_line_id: unmatchTarget.id })
+      if (error) throw error
+      showNotification('تم إلغاء المطابقة', 'success')
+      reload()
+    } catch (error) {
+      console.error('Error unmatching bank line:', error)
+      showNotification('حدث خطأ أثناء إلغاء المطابقة: ' + (error as Error).message, 'error')
+    } finally {
+      setUnmatchTarget(null)
+    }
+  }
+
+  const deleteStatement = async () => {
+    if (!selectedStatement) return
+    try {
+      const { error } = await supabase.from('bank_statements').delete().eq('id', selectedStatement.id)
+      if (error) throw error
+      showNotification('تم حذف الكشف', 'success')
+      setDeleteOpen(false)
+      fetchStatements()
+    } catch (error) {
+      console.error('Error deleting bank statement:', error)
+      showNotification('حدث خطأ أثناء حذف الكشف: ' + (error as Error).message, 'error')
+    }
+  }
+
+  const describeMatch = (line: LineWithMatch) => {
+    if (line.payment) {
+      return `دفعة ${line.payment.client?.name || ''} - ${formatDate(line.payment.payment_date)}`
+    }
+    if (line.expense) {
+      return `${line.expense.description || 'مصروف'} - ${formatDate(line.expense.expense_date)}`
+    }
+    return line.match_type === 'Ignored' ? line.notes || '' : ''
+  }
+
+  if (loading) {
+    return (
+      <div className="flex h-64 items-center justify-center">
+        <div className="text-muted-foreground">جاري التحميل...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold">المطابقة البنكية</h1>
+          <p className="text-sm text-muted-foreground mt-1">مقارنة كشوف البنك بالمدفوعات والمصاريف المسجلة للتأكد من وصول التحويلات</p>
+        </div>
+        {canEdit && (
+          <Button onClick={() => setImportOpen(true)} className="w-full sm:w-auto">
+            <Upload className="h-4 w-4 ml-2" />
+            استيراد كشف
+          </Button>
+        )}
+      </div>
+
+      {statements.length === 0 ? (
+        <p className="text-center text-muted-foreground py-8">لم يتم استيراد أي كشف بنكي بعد</p>
+      ) : (
+        <>
+          {/* Statement */}
+          <div className="flex flex-col sm:flex-row sm:items-end gap-2">
+            <div className="sm:w-96">
+              <Label htmlFor="bank_statement_select">الكشف</Label>
+              <Select id="bank_statement_select" value={selectedId} onChange={(e) => selectStatement(e.target.value)}>
+                {statements.map(statement => (
+                  <option key={statement.id} value={statement.id}>
+                    {statement.bank_account}
+                    {statement.period_start && statement.period_end
+                      ? ` - ${formatDate(statement.period_start)} / ${formatDate(statement.period_end)}`
+                      : ''}
+                    {` (${statement.line_count})`}
+                  </option>
+                ))}
+              </Select>
+            </div>
+            <div className="sm:w-40">
+              <Label htmlFor="bank_tolerance">فارق الأيام المقبول</Label>
+              <Input
+                id="bank_tolerance"
+                type="number"
+                min="0"
+                max="30"
+                value={toleranceDays}
+                onChange={(e) => setToleranceDays(Math.min(30, Math.max(0, parseInt(e.target.value, 10) || 0)))}
+              />
+            </div>
+            {canEdit && (
+              <Button variant="outline" onClick={previewAutoMatch} disabled={linesLoading || stats.unmatched === 0}>
+                <Wand2 className="h-4 w-4 ml-2" />
+                مطابقة تلقائية
+              </Button>
+            )}
+            {isOwner && selectedStatement && (
+              <Button variant="ghost" className="text-red-600" onClick={() => setDeleteOpen(true)}>
+                حذف الكشف
+              </Button>
+            )}
+          </div>
+
+          {/* Summary */}
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+            <Card className="bg-green-50 border-green-200">
+              <CardContent className="pt-3 pb-3">
+                <p className="text-xs font-medium text-green-700 mb-1">إيداعات الكشف</p>
+                <p className="text-xl font-bold text-green-900">{formatCurrency(stats.credits)}</p>
+                <p className="text-xs text-red-600 mt-0.5">سحوبات: {formatCurrency(stats.debits)}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-3 pb-3">
+                <p className="text-xs font-medium text-muted-foreground mb-1">عمليات مطابقة</p>
+                <p className="text-xl font-bold">{stats.matched} / {lines.length}</p>
+                <p className="text-xs text-muted-foreground mt-0.5">متجاهلة: {stats.ignored}</p>
+              </CardContent>
+            </Card>
+            <Card className={stats.unmatched > 0 ? 'bg-orange-50 border-orange-200' : ''}>
+              <CardContent className="pt-3 pb-3">
+                <p className="text-xs font-medium text-orange-700 mb-1">بالكشف وغير مسجلة</p>
+                <p className="text-xl font-bold text-orange-800">{formatCurrency(stats.unmatchedAmount)}</p>
+                <p className="text-xs text-orange-600 mt-0.5">{stats.unmatched} عملية</p>
+              </CardContent>
+            </Card>
+            <Card className={missingOnStatement.length > 0 ? 'bg-red-50 border-red-200' : ''}>
+              <CardContent className="pt-3 pb-3">
+                <p className="text-xs font-medium text-red-700 mb-1">مسجلة ولم تظهر بالكشف</p>
+                <p className="text-xl font-bold text-red-800">
+                  {formatCurrency(missingOnStatement.reduce((sum, c) => sum + Math.abs(c.amount), 0))}
+                </p>
+                <p className="text-xs text-red-600 mt-0.5">{missingOnStatement.length} عملية</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {VIEWS.map(item => (
+              <Button
+                key={item.value}
+                size="sm"
+                variant={view === item.value ? 'default' : 'outline'}
+                onClick={() => setView(item.value)}
+              >
+                {item.label}
+              </Button>
+            ))}
+          </div>
+
+          {linesLoading ? (
+            <div className="text-center py-8 text-muted-foreground">جاري التحميل...</div>
+          ) : view === 'lines' ? (
+            <>
+              {/* Filters */}
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Input
+                  placeholder="بحث بالبيان، المرجع أو المبلغ..."
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  className="sm:max-w-sm"
+                />
+                <Select
+                  value={lineFilter}
+                  onChange={(e) => setLineFilter(e.target.value as LineFilter)}
+                  className="sm:w-48"
+                >
+                  <option value="all">كل العمليات</option>
+                  <option value="unmatched">غير مطابقة</option>
+                  <option value="matched">مطابقة</option>
+                  <option value="ignored">متجاهلة</option>
+                </Select>
+              </div>
+
+              {filteredLines.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8">لا توجد عمليات</p>
+              ) : (
+                <div className="overflow-x-auto rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="bg-gray-100">
+                        <TableHead>التاريخ</TableHead>
+                        <TableHead>البيان</TableHead>
+                        <TableHead>المبلغ</TableHead>
+                        <TableHead>المطابقة</TableHead>
+                        <TableHead>إجراءات</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {filteredLines.map(line => (
+                        <TableRow key={line.id} className={!line.match_type ? 'bg-orange-50' : ''}>
+                          <TableCell className="text-xs">{formatDate(line.transaction_date)}</TableCell>
+                          <TableCell className="text-sm">
+                            <p>{line.description || '-'}</p>
+                            {(line.reference || line.bank_transaction_id) && (
+                              <p className="text-xs text-muted-foreground">{line.reference || line.bank_transaction_id}</p>
+                            )}
+                          </TableCell>
+                          <TableCell className={`text-sm font-medium ${line.amount < 0 ? 'text-red-700' : 'text-green-700'}`}>
+                            {formatCurrency(line.amount)}
+                          </TableCell>
+                          <TableCell className="text-xs">
+                            {line.match_type ? (
+                              <>
+                                <Badge variant={BANK_MATCH_TYPE_LABELS[line.match_type].variant}>
+                                  {BANK_MATCH_TYPE_LABELS[line.match_type].label}
+                                </Badge>
+                                <p className="text-muted-foreground mt-1">{describeMatch(line)}</p>
+                              </>
+                            ) : (
+                              <span className="text-orange-700">غير مطابقة</span>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {canEdit && (
+                              <div className="flex flex-wrap gap-1">
+                                {line.match_type ? (
+                                  <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => setUnmatchTarget(line)}>
+                                    <Unlink className="h-3.5 w-3.5 ml-1" />
+                                    إلغاء
+                                  </Button>
+                                ) : (
+                                  <>
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      className="h-7 text-xs"
+                                      onClick={() => { setMatchSearch(''); setMatchTarget(line) }}
+                                    >
+                                      <Link2 className="h-3.5 w-3.5 ml-1" />
+                                      مطابقة
+                                    </Button>
+                                    <Button
+                                      size="sm"
+                                      variant="ghost"
+                                      className="h-7 text-xs"
+                                      onClick={() => { setIgnoreReason(''); setIgnoreTarget(line) }}
+                                    >
+                                      <Ban className="h-3.5 w-3.5 ml-1" />
+                                      تجاهل
+                                    </Button>
+                                  </>
+                                )}
+                              </div>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </>
+          ) : (
+            <div className="space-y-3">
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                <p className="text-sm text-muted-foreground">
+                  عمليات الكشف بدون دفعة أو مصروف مقابل، ومدفوعات ومصاريف غير نقدية مسجلة خلال فترة الكشف ولم تظهر في أي كشف.
+                </p>
+                <ExportButtons
+                  permission="report_export"
+                  filename="bank-reconciliation"
+                  sheetName={{ ar: 'المطابقة البنكية', fr: 'Rapprochement bancaire' }}
+                  columns={reportExportColumns}
+                  rows={reportRows}
+                />
+              </div>
+              {reportRows.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8">كل العمليات مطابقة</p>
+              ) : (
+                <div className="overflow-x-auto rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="bg-gray-100">
+                        <TableHead>المصدر</TableHead>
+                        <TableHead>التاريخ</TableHead>
+                        <TableHead>البيان</TableHead>
+                        <TableHead>المرجع</TableHead>
+                        <TableHead>المبلغ</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {reportRows.map((row, index) => (
+                        <TableRow key={index}>
+                          <TableCell>
+                            <Badge variant={row.side === 'bank' ? 'warning' : 'destructive'}>
+                              {row.side === 'bank' ? 'بالكشف فقط' : 'بالنظام فقط'}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-xs">{formatDate(row.date)}</TableCell>
+                          <TableCell className="text-sm">{row.label || '-'}</TableCell>
+                          <TableCell className="text-xs">{row.reference || '-'}</TableCell>
+                          <TableCell className={`text-sm font-medium ${row.amount < 0 ? 'text-red-700' : 'text-green-700'}`}>
+                            {formatCurrency(row.amount)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </div>
+          )}
+        </>
+      )}
+
+      <BankStatementImportDialog
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        defaultAccount={selectedStatement?.bank_account}
+        onImported={(statement) => fetchStatements(statement.id)}
+      />
+
+      {/* Auto match preview */}
+      <Dialog open={!!autoMatches} onOpenChange={(open) => !open && setAutoMatches(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>مطابقة تلقائية: {autoMatches?.length || 0} عملية</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">
+            نفس المبلغ وفارق {toleranceDays} أيام على الأكثر. الحالات التي تحتمل أكثر من مقابل تبقى للمطابقة اليدوية.
+          </p>
+          <div className="overflow-x-auto max-h-[50vh]">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-gray-100">
+                  <TableHead>عملية الكشف</TableHead>
+                  <TableHead>المقابل</TableHead>
+                  <TableHead>المبلغ</TableHead>
+                  <TableHead>النتيجة</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {(autoMatches || []).map(match => {
+                  const line = lines.find(l => l.id === match.line_id)
+                  return (
+                    <TableRow key={match.line_id}>
+                      <TableCell className="text-xs">
+                        {line && formatDate(line.transaction_date)}
+                        <p className="text-muted-foreground">{line?.description}</p>
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {formatDate(match.candidate.date)}
+                        <p className="text-muted-foreground">
+                          {match.candidate.kind === 'payment' ? 'دفعة' : 'مصروف'} - {match.candidate.label}
+                        </p>
+                      </TableCell>
+                      <TableCell className="text-xs font-medium">{formatCurrency(match.candidate.amount)}</TableCell>
+                      <TableCell className="text-xs">{match.score}%</TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          </div>
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setAutoMatches(null)}>إلغاء</Button>
+            <Button onClick={applyAutoMatches} disabled={submitting}>
+              {submitting ? 'جاري الحفظ...' : 'تأكيد المطابقة'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Manual match */}
+      <Dialog open={!!matchTarget} onOpenChange={(open) => !open && setMatchTarget(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>مطابقة يدوية</DialogTitle>
+          </DialogHeader>
+          {matchTarget && (
+            <div className="space-y-3">
+              <div className="rounded-md border p-3 text-sm">
+                <p>{formatDate(matchTarget.transaction_date)} - {matchTarget.description || '-'}</p>
+                <p className={`font-medium ${matchTarget.amount < 0 ? 'text-red-700' : 'text-green-700'}`}>
+                  {formatCurrency(matchTarget.amount)}
+                </p>
+              </div>
+              <Input
+                placeholder={matchTarget.amount > 0 ? 'بحث باسم العميل أو المبلغ...' : 'بحث بالبيان أو المبلغ...'}
+                value={matchSearch}
+                onChange={(e) => setMatchSearch(e.target.value)}
+              />
+              {manualCandidates.length === 0 ? (
+                <p className="text-center text-muted-foreground py-4">
+                  لا توجد {matchTarget.amount > 0 ? 'مدفوعات' : 'مصاريف'} غير مطابقة في حدود {CANDIDATE_WINDOW_DAYS} يوماً من فترة الكشف
+                </p>
+              ) : (
+                <div className="rounded-md border divide-y max-h-[50vh] overflow-y-auto">
+                  {manualCandidates.map(({ candidate, score }) => {
+                    const sameAmount = Math.abs(candidate.amount - matchTarget.amount) < 0.01
+                    return (
+                      <button
+                        key={getCandidateKey(candidate)}
+                        type="button"
+                        className="w-full text-right p-2 text-sm hover:bg-gray-50 flex items-center justify-between gap-2"
+                        onClick={() => applyManualMatch(candidate)}
+                        disabled={submitting}
+                      >
+                        <span>
+                          {candidate.label}
+                          <span className="text-xs text-muted-foreground"> - {formatDate(candidate.date)} - {candidate.payment_method}</span>
+                        </span>
+                        <span className="flex items-center gap-2">
+                          {score > 0 && <Badge variant="success">{score}%</Badge>}
+                          <span className={sameAmount ? 'font-medium' : 'text-orange-700'}>{formatCurrency(candidate.amount)}</span>
+                        </span>
+                      </button>
+                    )
+                  })}
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Ignore */}
+      <Dialog open={!!ignoreTarget} onOpenChange={(open) => !open && setIgnoreTarget(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>تجاهل العملية</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              للعمليات التي لا تقابلها دفعة أو مصروف، مثل عمولات البنك أو التحويل بين حسابات الشركة.
+            </p>
+            <div>
+              <Label htmlFor="bank_ignore_reason">السبب *</Label>
+              <Textarea
+                id="bank_ignore_reason"
+                value={ignoreReason}
+                onChange={(e) => setIgnoreReason(e.target.value)}
+                rows={2}
+              />
+            </div>
+          </div>
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setIgnoreTarget(null)}>إلغاء</Button>
+            <Button onClick={ignoreLine} disabled={submitting}>
+              {submitting ? 'جاري الحفظ...' : 'تجاهل'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={!!unmatchTarget}
+        onOpenChange={(open) => !open && setUnmatchTarget(null)}
+        onConfirm={unmatchLine}
+        title="إلغاء المطابقة"
+        description="ستعود العملية إلى قائمة غير المطابقة. هل أنت متأكد؟"
+      />
+
+      <ConfirmDialog
+        open={deleteOpen}
+        onOpenChange={setDeleteOpen}
+        onConfirm={deleteStatement}
+        title="حذف الكشف"
+        description="سيتم حذف الكشف وكل عملياته ومطابقاتها. المدفوعات والمصاريف لا تتأثر. هل أنت متأكد؟"
+      />
+    </div>
+  )
+}
@@ -0,0 +1,418 @@
+import { useEffect, useMemo, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Select } from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { showNotification } from '@/components/ui/notification'
+import { ExportButtons } from '@/components/ExportButtons'
+import { formatCurrency, formatDate } from '@/lib/utils'
+import {
+  buildBatchProfitability,
+  type BatchForReport,
+  type BatchProfitability as BatchRow,
+  type ExpenseForReport,
+  type PaymentForReport,
+  type PieceForReport,
+  type PieceProfitability,
+  type SaleForReport,
+} from '@/lib/batchProfitability'
+import type { ExportColumn } from '@/lib/exportFile'
+import { ArrowRight } from 'lucide-react'
+import type { LandStatus } from '@/types/database'
+
+type SortKey = 'name' | 'margin_per_m2' | 'realised_margin' | 'overall_result' | 'receivable'
+
+const SORT_OPTIONS: Array<{ value: SortKey; label: string }> = [
+  { value: 'margin_per_m2', label: 'الهامش للمتر المربع' },
+  { value: 'realised_margin', label: 'الهامش المحقق' },
+  { value: 'overall_result', label: 'النتيجة الإجمالية' },
+  { value: 'receivable', label: 'المتبقي للتحصيل' },
+  { value: 'name', label: 'الاسم' },
+]
+
+const statusColors: Record<LandStatus, 'success' | 'warning' | 'default' | 'secondary'> = {
+  Available: 'success',
+  Reserved: 'warning',
+  Sold: 'default',
+  Cancelled: 'secondary',
+}
+
+const statusLabels: Record<LandStatus, string> = {
+  Available: 'متاح',
+  Reserved: 'محجوز',
+  Sold: 'مباع',
+  Cancelled: 'ملغي',
+}
+
+// Supabase returns 1000 rows per request at most
+const CHUNK_SIZE = 1000
+
+async function fetchAllRows<T>(table: string, columns: string): Promise<T[]> {
+  let rows: T[] = []
+  let from = 0
+  let hasMore = true
+  while (hasMore) {
+    const { data, error } = await supabase
+      .from(table)
+      .select(columns)
+      .range(from, from + CHUNK_SIZE - 1)
+    if (error) throw error
+    rows = [...rows, ...((data || []) as unknown as T[])]
+    hasMore = (data?.length || 0) === CHUNK_SIZE
+    from += CHUNK_SIZE
+  }
+  return rows
+}
+
+const perM2 = (value: number | null) => (value === null ? '-' : `${formatCurrency(value)} / م²`)
+
+const batchExportColumns: ExportColumn<BatchRow>[] = [
+  { header: { ar: 'الدفعة', fr: 'Lot' }, value: r => r.name },
+  { header: { ar: 'القطع', fr: 'Parcelles' }, value: r => r.piece_count },
+  { header: { ar: 'المباعة', fr: 'Vendues' }, value: r => r.sold_count },
+  { header: { ar: 'المساحة (م²)', fr: 'Surface (m²)' }, value: r => r.surface },
+  { header: { ar: 'المساحة المباعة (م²)', fr: 'Surface vendue (m²)' }, value: r => r.sold_surface },
+  { header: { ar: 'تكلفة الشراء', fr: 'Coût d\'acquisition' }, value: r => r.acquisition_cost },
+  { header: { ar: 'المصاريف', fr: 'Charges' }, value: r => r.expenses },
+  { header: { ar: 'الإيرادات', fr: 'Chiffre d\'affaires' }, value: r => r.revenue },
+  { header: { ar: 'المحصل', fr: 'Encaissé' }, value: r => r.collected },
+  { header: { ar: 'المتبقي للتحصيل', fr: 'Reste à encaisser' }, value: r => r.receivable },
+  { header: { ar: 'عمولة الشركة', fr: 'Commissions' }, value: r => r.company_fees },
+  { header: { ar: 'الهامش المحقق', fr: 'Marge réalisée' }, value: r => r.realised_margin },
+  { header: { ar: 'الهامش للمتر', fr: 'Marge par m²' }, value: r => r.margin_per_m2 ?? '' },
+  { header: { ar: 'النتيجة الإجمالية', fr: 'Résultat global' }, value: r => r.overall_result },
+]
+
+const pieceExportColumns: ExportColumn<PieceProfitability>[] = [
+  { header: { ar: 'القطعة', fr: 'Parcelle' }, value: r => r.piece_number },
+  { header: { ar: 'المساحة (م²)', fr: 'Surface (m²)' }, value: r => r.surface },
+  { header: { ar: 'الحالة', fr: 'Statut' }, value: r => statusLabels[r.status] },
+  { header: { ar: 'تكلفة الشراء', fr: 'Coût d\'achat' }, value: r => r.purchase_cost },
+  { header: { ar: 'المصاريف الموزعة', fr: 'Charges réparties' }, value: r => r.allocated_expenses },
+  { header: { ar: 'الإيراد', fr: 'Chiffre d\'affaires' }, value: r => r.revenue },
+  { header: { ar: 'عمولة الشركة', fr: 'Commission' }, value: r => r.company_fee },
+  { header: { ar: 'المحصل', fr: 'Encaissé' }, value: r => r.collected },
+  { header: { ar: 'المتبقي', fr: 'Reste' }, value: r => r.receivable },
+  { header: { ar: 'الهامش', fr: 'Marge' }, value: r => r.margin ?? '' },
+  { header: { ar: 'الهامش للمتر', fr: 'Marge par m²' }, value: r => r.margin_per_m2 ?? '' },
+]
+
+export function BatchProfitability() {
+  const [rows, setRows] = useState<BatchRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [sortKey, setSortKey] = useState<SortKey>('margin_per_m2')
+  const [selectedBatchId, setSelectedBatchId] = useState<string | null>(null)
+  const [pieceFilter, setPieceFilter] = useState<'all' | 'sold' | 'unsold'>('all')
+
+  useEffect(() => {
+    fetchReport()
+  }, [])
+
+  const fetchReport = async () => {
+    try {
+      const [batches, pieces, sales, payments, expenses] = await Promise.all([
+        fetchAllRows<BatchForReport>('land_batches', 'id, name, total_cost, total_surface, date_acquired'),
+        fetchAllRows<PieceForReport>('land_pieces', 'id, land_batch_id, piece_number, surface_area, purchase_cost, selling_price_full, status'),
+        fetchAllRows<SaleForReport>('sales', 'id, land_piece_ids, status, total_selling_price, company_fee_amount'),
+        fetchAllRows<PaymentForReport>('payments', 'sale_id, amount_paid, payment_type'),
+        fetchAllRows<ExpenseForReport>('expenses', 'related_batch_id, amount, status, is_revenue'),
+      ])
+      setRows(buildBatchProfitability(batches, pieces, sales, payments, expenses))
+    } catch (error) {
+      console.error('Error loading batch profitability:', error)
+      showNotification('خطأ في تحميل تقرير الربحية: ' + (error as Error).message, 'error')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const sortedRows = useMemo(() => [...rows].sort((a, b) => {
+    if (sortKey === 'name') return a.name.localeCompare(b.name)
+    return (b[sortKey] ?? -Infinity) - (a[sortKey] ?? -Infinity)
+  }), [rows, sortKey])
+
+  const totals = useMemo(() => rows.reduce((sum, r) => ({
+    acquisition_cost: sum.acquisition_cost + r.acquisition_cost,
+    expenses: sum.expenses + r.expenses,
+    revenue: sum.revenue + r.revenue + r.company_fees,
+    receivable: sum.receivable + r.receivable,
+    realised_margin: sum.realised_margin + r.realised_margin,
+    sold_surface: sum.sold_surface + r.sold_surface,
+  }), { acquisition_cost: 0, expenses: 0, revenue: 0, receivable: 0, realised_margin: 0, sold_surface: 0 }), [rows])
+
+  // Bar length in the comparison, relative to the largest margin per m²
+  const maxMarginPerM2 = useMemo(
+    () => Math.max(1, ...rows.map(r => Math.abs(r.margin_per_m2 || 0))),
+    [rows]
+  )
+
+  const selectedBatch = rows.find(r => r.batch_id === selectedBatchId) || null
+
+  const filteredPieces = useMemo(() => {
+    if (!selectedBatch) return []
+    return selectedBatch.pieces
+      .filter(p => pieceFilter === 'all' || (pieceFilter === 'sold' ? p.sold : !p.sold))
+      .sort((a, b) => a.piece_number.localeCompare(b.piece_number, undefined, { numeric: true }))
+  }, [selectedBatch, pieceFilter])
+
+  if (loading) {
+    return (
+      <div className="flex h-64 items-center justify-center">
+        <div className="text-muted-foreground">جاري التحميل...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold">ربحية الدفعات</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            تكلفة الشراء، المصاريف الموزعة حسب المساحة، الإيرادات، المتبقي للتحصيل والهامش لكل دفعة وقطعة
+          </p>
+        </div>
+        {selectedBatch && (
+          <Button variant="outline" onClick={() => setSelectedBatchId(null)} className="w-full sm:w-auto">
+            <ArrowRight className="h-4 w-4 ml-2" />
+            كل الدفعات
+          </Button>
+        )}
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+        <Card>
+          <CardContent className="pt-3 pb-3">
+            <p className="text-xs font-medium text-muted-foreground mb-1">تكلفة الشراء والمصاريف</p>
+            <p className="text-xl font-bold">{formatCurrency(totals.acquisition_cost + totals.expenses)}</p>
+            <p className="text-xs text-muted-foreground mt-0.5">منها مصاريف: {formatCurrency(totals.expenses)}</p>
+          </CardContent>
+        </Card>
+        <Card className="bg-green-50 border-green-200">
+          <CardContent className="pt-3 pb-3">
+            <p className="text-xs font-medium text-green-700 mb-1">الإيرادات والعمولات</p>
+            <p className="text-xl font-bold text-green-900">{formatCurrency(totals.revenue)}</p>
+          </CardContent>
+        </Card>
+        <Card className="bg-orange-50 border-orange-200">
+          <CardContent className="pt-3 pb-3">
+            <p className="text-xs font-medium text-orange-700 mb-1">المتبقي للتحصيل</p>
+            <p className="text-xl font-bold text-orange-800">{formatCurrency(totals.receivable)}</p>
+          </CardContent>
+        </Card>
+        <Card className="bg-blue-50 border-blue-200">
+          <CardContent className="pt-3 pb-3">
+            <p className="text-xs font-medium text-blue-700 mb-1">الهامش المحقق</p>
+            <p className="text-xl font-bold text-blue-900">{formatCurrency(totals.realised_margin)}</p>
+            <p className="text-xs text-blue-700 mt-0.5">
+              {perM2(totals.sold_surface > 0 ? totals.realised_margin / totals.sold_surface : null)}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {!selectedBatch ? (
+        <div className="space-y-3">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+            <Select value={sortKey} onChange={(e) => setSortKey(e.target.value as SortKey)} className="sm:w-56">
+              {SORT_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>ترتيب: {option.label}</option>
+              ))}
+            </Select>
+            <ExportButtons
+              permission="report_export"
+              filename="batch_profitability"
+              sheetName={{ ar: 'ربحية الدفعات', fr: 'Rentabilité des lots' }}
+              columns={batchExportColumns}
+              rows={sortedRows}
+            />
+          </div>
+
+          {sortedRows.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">لا توجد دفعات أراضي</p>
+          ) : (
+            <>
+              {/* Comparison */}
+              <Card>
+                <CardContent className="pt-4 pb-4 space-y-2">
+                  <p className="text-sm font-medium">مقارنة الهامش المحقق للمتر المربع</p>
+                  {sortedRows.map(row => {
+                    const value = row.margin_per_m2 || 0
+                    return (
+                      <div key={row.batch_id} className="flex items-center gap-2 text-xs">
+                        <span className="w-32 truncate">{row.name}</span>
+                        <div className="flex-1 h-3 bg-gray-100 rounded">
+                          <div
+                            className={`h-3 rounded ${value < 0 ? 'bg-red-500' : 'bg-green-500'}`}
+                            style={{ width: `${(Math.abs(value) / maxMarginPerM2) * 100}%` }}
+                          />
+                        </div>
+                        <span className="w-32 text-left">{perM2(row.margin_per_m2)}</span>
+                      </div>
+                    )
+                  })}
+                </CardContent>
+              </Card>
+
+              <div className="overflow-x-auto rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-gray-100">
+                      <TableHead>الدفعة</TableHead>
+                      <TableHead>القطع المباعة</TableHead>
+                      <TableHead>التكلفة</TableHead>
+                      <TableHead>الإيرادات</TableHead>
+                      <TableHead>المتبقي للتحصيل</TableHead>
+                      <TableHead>الهامش المحقق</TableHead>
+                      <TableHead>النتيجة الإجمالية</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {sortedRows.map(row => (
+                      <TableRow
+                        key={row.batch_id}
+                        className="cursor-pointer hover:bg-gray-50"
+                        onClick={() => { setPieceFilter('all'); setSelectedBatchId(row.batch_id) }}
+                      >
+                        <TableCell className="text-sm">
+                          <p className="font-medium">{row.name}</p>
+                          <p className="text-xs text-muted-foreground">{formatDate(row.date_acquired)}</p>
+                        </TableCell>
+                        <TableCell className="text-xs">
+                          <p>{row.sold_count} / {row.piece_count}</p>
+                          <p className="text-muted-foreground">{row.sold_surface} / {row.surface} م²</p>
+                        </TableCell>
+                        <TableCell className="text-xs">
+                          <p>{formatCurrency(row.acquisition_cost)}</p>
+                          <p className="text-muted-foreground">مصاريف: {formatCurrency(row.expenses)}</p>
+                        </TableCell>
+                        <TableCell className="text-xs">
+                          <p>{formatCurrency(row.revenue)}</p>
+                          <p className="text-muted-foreground">عمولة: {formatCurrency(row.company_fees)}</p>
+                        </TableCell>
+                        <TableCell className="text-sm text-orange-700">{formatCurrency(row.receivable)}</TableCell>
+                        <TableCell className="text-sm">
+                          <p className={row.realised_margin < 0 ? 'text-red-700 font-medium' : 'text-green-700 font-medium'}>
+                            {formatCurrency(row.realised_margin)}
+                          </p>
+                          <p className="text-xs text-muted-foreground">{perM2(row.margin_per_m2)}</p>
+                        </TableCell>
+                        <TableCell className={`text-sm font-medium ${row.overall_result < 0 ? 'text-red-700' : 'text-green-700'}`}>
+                          {formatCurrency(row.overall_result)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <div className="rounded-md border p-3 text-sm grid grid-cols-2 lg:grid-cols-4 gap-2">
+            <p className="font-bold col-span-2 lg:col-span-4">{selectedBatch.name}</p>
+            <p>تكلفة الشراء: {formatCurrency(selectedBatch.acquisition_cost)}</p>
+            <p>المصاريف: {formatCurrency(selectedBatch.expenses)}</p>
+            <p>الإيرادات: {formatCurrency(selectedBatch.revenue)}</p>
+            <p>المحصل: {formatCurrency(selectedBatch.collected)}</p>
+            <p>الهامش المحقق: {formatCurrency(selectedBatch.realised_margin)}</p>
+            <p>{perM2(selectedBatch.margin_per_m2)}</p>
+            <p>النتيجة الإجمالية: {formatCurrency(selectedBatch.overall_result)}</p>
+          </div>
+
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+            <Select
+              value={pieceFilter}
+              onChange={(e) => setPieceFilter(e.target.value as 'all' | 'sold' | 'unsold')}
+              className="sm:w-48"
+            >
+              <option value="all">كل القطع</option>
+              <option value="sold">المباعة</option>
+              <option value="unsold">غير المباعة</option>
+            </Select>
+            <ExportButtons
+              permission="report_export"
+              filename={`batch_profitability_${selectedBatch.name}`}
+              sheetName={{ ar: 'ربحية القطع', fr: 'Rentabilité des parcelles' }}
+              columns={pieceExportColumns}
+              rows={filteredPieces}
+            />
+          </div>
+
+          {filteredPieces.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">لا توجد قطع</p>
+          ) : (
+            <div className="overflow-x-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-gray-100">
+                    <TableHead>القطعة</TableHead>
+                    <TableHead>الحالة</TableHead>
+                    <TableHead>تكلفة الشراء</TableHead>
+                    <TableHead>المصاريف الموزعة</TableHead>
+                    <TableHead>الإيراد</TableHead>
+                    <TableHead>المحصل / المتبقي</TableHead>
+                    <TableHead>الهامش</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredPieces.map(piece => (
+                    <TableRow key={piece.piece_id}>
+                      <TableCell className="text-sm">
+                        <p className="font-medium">{piece.piece_number}</p>
+                        <p className="text-xs text-muted-foreground">{piece.surface} م²</p>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={statusColors[piece.status]}>{statusLabels[piece.status]}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">{formatCurrency(piece.purchase_cost)}</TableCell>
+                      <TableCell className="text-sm">{formatCurrency(piece.allocated_expenses)}</TableCell>
+                      <TableCell className="text-xs">
+                        {piece.sold ? (
+                          <>
+                            <p>{formatCurrency(piece.revenue)}</p>
+                            <p className="text-muted-foreground">عمولة: {formatCurrency(piece.company_fee)}</p>
+                          </>
+                        ) : '-'}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {piece.sold ? (
+                          <>
+                            <p>{formatCurrency(piece.collected)}</p>
+                            <p className="text-orange-700">{formatCurrency(piece.receivable)}</p>
+                          </>
+                        ) : '-'}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {piece.margin !== null ? (
+                          <>
+                            <p className={piece.margin < 0 ? 'text-red-700 font-medium' : 'text-green-700 font-medium'}>
+                              {formatCurrency(piece.margin)}
+                            </p>
+                            <p className="text-xs text-muted-foreground">{perM2(piece.margin_per_m2)}</p>
+                          </>
+                        ) : '-'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,387 @@
+import { useEffect, useMemo, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { Card, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select } from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { showNotification } from '@/components/ui/notification'
+import { ExportButtons } from '@/components/ExportButtons'
+import { formatCurrency } from '@/lib/utils'
+import { roundMoney, toDateString } from '@/lib/installmentSchedule'
+import {
+  FORECAST_MONTHS,
+  LATE_GRACE_DAYS,
+  buildCashFlowForecast,
+  type DebtForForecast,
+  type DebtPaymentForForecast,
+  type ForecastMonth,
+  type InstallmentForForecast,
+  type TemplateForForecast,
+} from '@/lib/cashFlowForecast'
+import type { ExportColumn } from '@/lib/exportFile'
+import type { SaleStatus, TrialBalanceRow } from '@/types/database'
+
+interface InstallmentRow extends Omit<InstallmentForForecast, 'client_id'> {
+  sale: { client_id: string; status: SaleStatus } | null
+}
+
+const CHUNK_SIZE = 1000
+
+async function fetchAllRows<T>(table: string, columns: string): Promise<T[]> {
+  let rows: T[] = []
+  let from = 0
+  let hasMore = true
+  while (hasMore) {
+    const { data, error } = await supabase
+      .from(table)
+      .select(columns)
+      .range(from, from + CHUNK_SIZE - 1)
+    if (error) throw error
+    rows = [...rows, ...((data || []) as unknown as T[])]
+    hasMore = (data?.length || 0) === CHUNK_SIZE
+    from += CHUNK_SIZE
+  }
+  return rows
+}
+
+// Cash (1000) and bank (1100) accounts of the general ledger
+const CASH_ACCOUNT_CODES = ['1000', '1100']
+
+const EXTRA_LATE_SHARES = [0, 10, 20, 30, 50]
+
+const CHART_WIDTH = 720
+const CHART_HEIGHT = 240
+const CHART_PADDING = 24
+
+const monthExportColumns: ExportColumn<ForecastMonth>[] = [
+  { header: { ar: 'الشهر', fr: 'Mois' }, value: m => m.key },
+  { header: { ar: 'الأقساط', fr: 'Échéances' }, value: m => m.installments },
+  { header: { ar: 'إيرادات متكررة', fr: 'Recettes récurrentes' }, value: m => m.recurring_in },
+  { header: { ar: 'الديون', fr: 'Dettes' }, value: m => m.debts },
+  { header: { ar: 'مصاريف متكررة', fr: 'Charges récurrentes' }, value: m => m.recurring_out },
+  { header: { ar: 'الداخل', fr: 'Entrées' }, value: m => m.inflow },
+  { header: { ar: 'الخارج', fr: 'Sorties' }, value: m => m.outflow },
+  { header: { ar: 'الصافي', fr: 'Net' }, value: m => m.net },
+  { header: { ar: 'الرصيد', fr: 'Solde' }, value: m => m.balance },
+]
+
+function BalanceChart({ months, openingBalance }: { months: ForecastMonth[]; openingBalance: number }) {
+  const values = months.flatMap(m => [m.inflow, -m.outflow, m.balance]).concat(openingBalance, 0)
+  const max = Math.max(...values)
+  const min = Math.min(...values)
+  const range = max - min || 1
+  const innerHeight = CHART_HEIGHT - CHART_PADDING * 2
+  const slot = (CHART_WIDTH - CHART_PADDING * 2) / months.length
+  const y = (value: number) => CHART_PADDING + ((max - value) / range) * innerHeight
+  const x = (index: number) => CHART_PADDING + slot * index + slot / 2
+  const barWidth = Math.max(4, slot / 4)
+  const line = months.map((m, i) => `${x(i)},${y(m.balance)}`).join(' ')
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT + 16}`} className="w-full h-64" role="img" aria-label="الرصيد المتوقع">
+      <line x1={CHART_PADDING} x2={CHART_WIDTH - CHART_PADDING} y1={y(0)} y2={y(0)} className="stroke-gray-300" />
+      {months.map((m, i) => (
+        <g key={m.key}>
+          <rect
+            x={x(i) - barWidth}
+            y={y(m.inflow)}
+            width={barWidth}
+            height={Math.max(0, y(0) - y(m.inflow))}
+            className="fill-green-400"
+          >
+            <title>{`${m.key} - الداخل: ${formatCurrency(m.inflow)}`}</title>
+          </rect>
+          <rect
+            x={x(i)}
+            y={y(0)}
+            width={barWidth}
+            height={Math.max(0, y(-m.outflow) - y(0))}
+            className="fill-red-400"
+          >
+            <title>{`${m.key} - الخارج: ${formatCurrency(m.outflow)}`}</title>
+          </rect>
+          <text x={x(i)} y={CHART_HEIGHT + 12} textAnchor="middle" className="fill-gray-500 text-[10px]">
+            {m.key.slice(2)}
+          </text>
+        </g>
+      ))}
+      <polyline points={line} fill="none" className="stroke-blue-600" strokeWidth={2} />
+      {months.map((m, i) => (
+        <circle key={m.key} cx={x(i)} cy={y(m.balance)} r={3} className={m.balance < 0 ? 'fill-red-600' : 'fill-blue-600'}>
+          <title>{`${m.key} - الرصيد: ${formatCurrency(m.balance)}`}</title>
+        </circle>
+      ))}
+    </svg>
+  )
+}
+
+export function CashFlowForecast() {
+  const [installments, setInstallments] = useState<InstallmentForForecast[]>([])
+  const [debts, setDebts] = useState<DebtForForecast[]>([])
+  const [debtPayments, setDebtPayments] = useState<DebtPaymentForForecast[]>([])
+  const [templates, setTemplates] = useState<TemplateForForecast[]>([])
+  const [loading, setLoading] = useState(true)
+  const [openingBalance, setOpeningBalance] = useState('')
+  const [useClientLateRates, setUseClientLateRates] = useState(true)
+  const [extraLateShare, setExtraLateShare] = useState(0)
+  const [extraLateMonths, setExtraLateMonths] = useState(1)
+  const [includeArrears, setIncludeArrears] = useState(false)
+
+  useEffect(() => {
+    fetchData()
+  }, [])
+
+  const fetchData = async () => {
+    try {
+      const [installmentRows, debtRows, debtPaymentRows, templatesRes] = await Promise.all([
+        fetchAllRows<InstallmentRow>(
+          'installments',
+          'amount_due, stacked_amount, amount_paid, due_date, paid_date, status, sale:sales(client_id, status)'
+        ),
+        fetchAllRows<DebtForForecast>('debts', 'id, amount_owed, due_date, status'),
+        fetchAllRows<DebtPaymentForForecast>('debt_payments', 'debt_id, amount_paid'),
+        supabase
+          .from('recurring_expenses_templates')
+          .select('amount, is_revenue, recurrence_type, next_occurrence_date, is_active')
+          .eq('is_active', true),
+      ])
+      if (templatesRes.error) throw templatesRes.error
+
+      setInstallments(
+        installmentRows
+          .filter(row => row.sale && row.sale.status !== 'Cancelled')
+          .map(({ sale, ...row }) => ({ ...row, client_id: sale?.client_id || null }))
+      )
+      setDebts(debtRows)
+      setDebtPayments(debtPaymentRows)
+      setTemplates((templatesRes.data as TemplateForForecast[]) || [])
+    } catch (error) {
+      console.error('Error loading cash-flow forecast:', error)
+      showNotification('خطأ في تحميل توقعات السيولة: ' + (error as Error).message, 'error')
+    }
+
+    // Today's cash and bank position from the ledger, editable when it is not set up
+    const today = toDateString(new Date())
+    const { data, error } = await supabase.rpc('get_trial_balance', { p_from: today, p_to: today })
+    if (error) {
+      console.error('Error fetching cash position:', error)
+    } else {
+      const cash = ((data as TrialBalanceRow[]) || [])
+        .filter(row => CASH_ACCOUNT_CODES.includes(row.account_code))
+        .reduce((sum, row) => sum + row.opening_debit - row.opening_credit + row.period_debit - row.period_credit, 0)
+      setOpeningBalance(roundMoney(cash).toString())
+    }
+    setLoading(false)
+  }
+
+  const forecast = useMemo(
+    () =>
+      buildCashFlowForecast(
+        { installments, debts, debtPayments, templates },
+        {
+          openingBalance: parseFloat(openingBalance) || 0,
+          useClientLateRates,
+          extraLateShare: extraLateShare / 100,
+          extraLateMonths,
+          includeArrears,
+        }
+      ),
+    [installments, debts, debtPayments, templates, openingBalance, useClientLateRates, extraLateShare, extraLateMonths, includeArrears]
+  )
+
+  const totals = useMemo(() => ({
+    inflow: roundMoney(forecast.months.reduce((sum, m) => sum + m.inflow, 0)),
+    outflow: roundMoney(forecast.months.reduce((sum, m) => sum + m.outflow, 0)),
+    closing: forecast.months[forecast.months.length - 1]?.balance || 0,
+  }), [forecast])
+
+  if (loading) {
+    return (
+      <div className="flex h-64 items-center justify-center">
+        <div className="text-muted-foreground">جاري التحميل...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl sm:text-3xl font-bold">توقعات السيولة</h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          الداخل المتوقع من الأقساط مقابل الديون والمصاريف المتكررة خلال {FORECAST_MONTHS} شهراً القادمة
+        </p>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+        <Card className="bg-green-50 border-green-200">
+          <CardContent className="pt-3 pb-3">
+            <p className="text-xs font-medium text-green-700 mb-1">الداخل المتوقع</p>
+            <p className="text-xl font-bold text-green-900">{formatCurrency(totals.inflow)}</p>
+          </CardContent>
+        </Card>
+        <Card className="bg-red-50 border-red-200">
+          <CardContent className="pt-3 pb-3">
+            <p className="text-xs font-medium text-red-700 mb-1">الخارج المتوقع</p>
+            <p className="text-xl font-bold text-red-900">{formatCurrency(totals.outflow)}</p>
+          </CardContent>
+        </Card>
+        <Card className="bg-blue-50 border-blue-200">
+          <CardContent className="pt-3 pb-3">
+            <p className="text-xs font-medium text-blue-700 mb-1">الرصيد في نهاية الفترة</p>
+            <p className={`text-xl font-bold ${totals.closing < 0 ? 'text-red-700' : 'text-blue-900'}`}>
+              {formatCurrency(totals.closing)}
+            </p>
+          </CardContent>
+        </Card>
+        <Card className={forecast.lowestBalance && forecast.lowestBalance.balance < 0 ? 'bg-orange-50 border-orange-200' : ''}>
+          <CardContent className="pt-3 pb-3">
+            <p className="text-xs font-medium text-muted-foreground mb-1">أدنى رصيد</p>
+            <p className={`text-xl font-bold ${forecast.lowestBalance && forecast.lowestBalance.balance < 0 ? 'text-red-700' : ''}`}>
+              {formatCurrency(forecast.lowestBalance?.balance || 0)}
+            </p>
+            {forecast.lowestBalance && (
+              <p className="text-xs text-muted-foreground mt-0.5">{forecast.lowestBalance.key}</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Scenario */}
+      <Card>
+        <CardContent className="pt-4 pb-4 space-y-3">
+          <p className="text-sm font-medium">الافتراضات</p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+            <div>
+              <Label htmlFor="opening_balance">الرصيد الحالي (الصندوق + البنك)</Label>
+              <Input
+                id="opening_balance"
+                type="number"
+                value={openingBalance}
+                onChange={(e) => setOpeningBalance(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="extra_late_share">نسبة الأقساط المتأخرة الإضافية</Label>
+              <Select
+                id="extra_late_share"
+                value={extraLateShare.toString()}
+                onChange={(e) => setExtraLateShare(parseInt(e.target.value))}
+              >
+                {EXTRA_LATE_SHARES.map(share => (
+                  <option key={share} value={share}>{share === 0 ? 'بدون' : `${share}%`}</option>
+                ))}
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="extra_late_months">مدة التأخير</Label>
+              <Select
+                id="extra_late_months"
+                value={extraLateMonths.toString()}
+                onChange={(e) => setExtraLateMonths(parseInt(e.target.value))}
+                disabled={extraLateShare === 0}
+              >
+                {[1, 2, 3, 6].map(months => (
+                  <option key={months} value={months}>{months === 1 ? 'شهر واحد' : `${months} أشهر`}</option>
+                ))}
+              </Select>
+            </div>
+            <div className="space-y-2 pt-1">
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={useClientLateRates}
+                  onChange={(e) => setUseClientLateRates(e.target.checked)}
+                  className="rounded"
+                />
+                تعديل حسب نسبة تأخر كل عميل
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={includeArrears}
+                  onChange={(e) => setIncludeArrears(e.target.checked)}
+                  className="rounded"
+                />
+                احتساب المتأخرات هذا الشهر
+              </label>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            يعتبر القسط متأخراً إذا دُفع أو بقي غير مدفوع بعد {LATE_GRACE_DAYS} أيام من تاريخ استحقاقه.
+            {!includeArrears && forecast.arrears > 0 && (
+              <> متأخرات غير محتسبة: {formatCurrency(forecast.arrears)}.</>
+            )}
+            {forecast.beyondHorizon > 0 && (
+              <> مبالغ مؤجلة إلى ما بعد الفترة: {formatCurrency(forecast.beyondHorizon)}.</>
+            )}
+          </p>
+        </CardContent>
+      </Card>
+
+      {/* Chart */}
+      <Card>
+        <CardContent className="pt-4 pb-4 space-y-2">
+          <div className="flex flex-wrap items-center gap-4 text-xs">
+            <span className="flex items-center gap-1"><span className="inline-block h-3 w-3 rounded-sm bg-green-400" /> الداخل</span>
+            <span className="flex items-center gap-1"><span className="inline-block h-3 w-3 rounded-sm bg-red-400" /> الخارج</span>
+            <span className="flex items-center gap-1"><span className="inline-block h-0.5 w-4 bg-blue-600" /> الرصيد</span>
+          </div>
+          <BalanceChart months={forecast.months} openingBalance={parseFloat(openingBalance) || 0} />
+        </CardContent>
+      </Card>
+
+      {/* Monthly table */}
+      <div className="flex justify-end">
+        <ExportButtons
+          permission="report_export"
+          filename="cash_flow_forecast"
+          sheetName={{ ar: 'توقعات السيولة', fr: 'Prévision de trésorerie' }}
+          columns={monthExportColumns}
+          rows={forecast.months}
+        />
+      </div>
+      <div className="overflow-x-auto rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow className="bg-gray-100">
+              <TableHead>الشهر</TableHead>
+              <TableHead>الأقساط</TableHead>
+              <TableHead>إيرادات متكررة</TableHead>
+              <TableHead>الديون</TableHead>
+              <TableHead>مصاريف متكررة</TableHead>
+              <TableHead>الصافي</TableHead>
+              <TableHead>الرصيد</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {forecast.months.map(month => (
+              <TableRow key={month.key}>
+                <TableCell className="text-sm font-medium">{month.key}</TableCell>
+                <TableCell className="text-sm text-green-700">{formatCurrency(month.installments)}</TableCell>
+                <TableCell className="text-sm text-green-700">{formatCurrency(month.recurring_in)}</TableCell>
+                <TableCell className="text-sm text-red-700">{formatCurrency(month.debts)}</TableCell>
+                <TableCell className="text-sm text-red-700">{formatCurrency(month.recurring_out)}</TableCell>
+                <TableCell className={`text-sm ${month.net < 0 ? 'text-red-700' : 'text-green-700'}`}>
+                  {formatCurrency(month.net)}
+                </TableCell>
+                <TableCell className={`text-sm font-semibold ${month.balance < 0 ? 'text-red-700' : ''}`}>
+                  {formatCurrency(month.balance)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  )
+}
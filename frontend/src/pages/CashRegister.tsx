@@ -0,0 +1,664 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useSearchParams } from 'react-router-dom'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/contexts/AuthContext'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Select } from '@/components/ui/select'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { showNotification } from '@/components/ui/notification'
+import { ExportButtons } from '@/components/ExportButtons'
+import { formatCurrency, formatDateTime } from '@/lib/utils'
+import { sanitizeNotes } from '@/lib/sanitize'
+import {
+  CASH_SESSION_STATUS_LABELS,
+  VARIANCE_LABELS,
+  buildCashMovements,
+  getMovementLabel,
+  getVariance,
+  getVarianceStatus,
+  type CashMovement,
+  type ExpenseForSession,
+  type PaymentForSession,
+} from '@/lib/cashSessions'
+import type { ExportColumn } from '@/lib/exportFile'
+import { Lock, Unlock, Wallet } from 'lucide-react'
+import type { CashSession, CashSessionTotals, User } from '@/types/database'
+
+type RegisterView = 'mine' | 'handover' | 'history'
+
+type UserOption = Pick<User, 'id' | 'name' | 'role'>
+
+const sessionExportColumns = (userName: (id: string | null) => string): ExportColumn<CashSession>[] => [
+  { header: { ar: 'المستخدم', fr: 'Utilisateur' }, value: s => userName(s.user_id) },
+  { header: { ar: 'الافتتاح', fr: 'Ouverture' }, value: s => s.opened_at },
+  { header: { ar: 'الإغلاق', fr: 'Clôture' }, value: s => s.closed_at || '' },
+  { header: { ar: 'رصيد الافتتاح', fr: 'Fond de caisse' }, value: s => s.opening_float },
+  { header: { ar: 'المتوقع', fr: 'Attendu' }, value: s => s.expected_amount ?? '' },
+  { header: { ar: 'المعدود', fr: 'Compté' }, value: s => s.counted_amount ?? '' },
+  { header: { ar: 'الفرق', fr: 'Écart' }, value: s => s.variance ?? '' },
+  { header: { ar: 'سلمت إلى', fr: 'Remis à' }, value: s => (s.handed_over_to ? userName(s.handed_over_to) : '') },
+  { header: { ar: 'ملاحظات', fr: 'Notes' }, value: s => s.closing_notes || '' },
+]
+
+export function CashRegister() {
+  const { profile, user } = useAuth()
+  const [searchParams] = useSearchParams()
+  const userParam = searchParams.get('user')
+  const isOwner = profile?.role === 'Owner'
+
+  const [sessions, setSessions] = useState<CashSession[]>([])
+  const [totals, setTotals] = useState<Map<string, CashSessionTotals>>(new Map())
+  const [users, setUsers] = useState<UserOption[]>([])
+  const [myMovements, setMyMovements] = useState<CashMovement[]>([])
+  const [loading, setLoading] = useState(true)
+  const [submitting, setSubmitting] = useState(false)
+  const [view, setView] = useState<RegisterView>(userParam ? 'history' : 'mine')
+  const [historyUser, setHistoryUser] = useState(userParam || 'all')
+
+  const [openDialog, setOpenDialog] = useState(false)
+  const [openingFloat, setOpeningFloat] = useState('')
+  const [openingNotes, setOpeningNotes] = useState('')
+  const [closeTarget, setCloseTarget] = useState<CashSession | null>(null)
+  const [countedAmount, setCountedAmount] = useState('')
+  const [handedOverTo, setHandedOverTo] = useState('')
+  const [closingNotes, setClosingNotes] = useState('')
+  const [detailsTarget, setDetailsTarget] = useState<CashSession | null>(null)
+  const [detailsMovements, setDetailsMovements] = useState<CashMovement[]>([])
+  const [detailsLoading, setDetailsLoading] = useState(false)
+
+  const VIEWS: Array<{ value: RegisterView; label: string }> = [
+    { value: 'mine', label: 'صندوقي' },
+    ...(isOwner ? [{ value: 'handover' as const, label: 'التسليم' }] : []),
+    { value: 'history', label: 'السجل' },
+  ]
+
+  useEffect(() => {
+    fetchData()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  const fetchData = async () => {
+    try {
+      const [sessionsRes, usersRes] = await Promise.all([
+        supabase
+          .from('cash_sessions')
+          .select('*')
+          .order('opened_at', { ascending: false })
+          .limit(500),
+        supabase
+          .from('users')
+          .select('id, name, role')
+          .order('name', { ascending: true }),
+      ])
+      if (sessionsRes.error) throw sessionsRes.error
+      if (usersRes.error) throw usersRes.error
+
+      const list = (sessionsRes.data as CashSession[]) || []
+      setSessions(list)
+      setUsers((usersRes.data as UserOption[]) || [])
+
+      const openIds = list.filter(s => s.status === 'Open').map(s => s.id)
+      const map = new Map<string, CashSessionTotals>()
+      if (openIds.length > 0) {
+        const { data, error } = await supabase.rpc('get_cash_session_totals', { p_session_ids: openIds })
+        if (error) throw error
+        ;((data as CashSessionTotals[]) || []).forEach(row => map.set(row.session_id, row))
+      }
+      setTotals(map)
+
+      const mine = list.find(s => s.status === 'Open' && s.user_id === user?.id)
+      setMyMovements(mine ? await fetchMovements(mine.id) : [])
+    } catch (error) {
+      console.error('Error fetching cash sessions:', error)
+      showNotification('خطأ في تحميل جلسات الصندوق: ' + (error as Error).message, 'error')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchMovements = async (sessionId: string): Promise<CashMovement[]> => {
+    const [paymentsRes, expensesRes] = await Promise.all([
+      supabase
+        .from('payments')
+        .select('id, amount_paid, payment_type, payment_date, created_at, client:clients(name)')
+        .eq('cash_session_id', sessionId),
+      supabase
+        .from('expenses')
+        .select('id, amount, expense_date, description, status, is_revenue, created_at')
+        .eq('cash_session_id', sessionId),
+    ])
+    if (paymentsRes.error) throw paymentsRes.error
+    if (expensesRes.error) throw expensesRes.error
+
+    return buildCashMovements(
+      (paymentsRes.data || []) as unknown as PaymentForSession[],
+      (expensesRes.data || []) as ExpenseForSession[]
+    )
+  }
+
+  const userName = (id: string | null) => users.find(u => u.id === id)?.name || '-'
+
+  const mySession = sessions.find(s => s.status === 'Open' && s.user_id === user?.id) || null
+  const openSessions = useMemo(() => sessions.filter(s => s.status === 'Open'), [sessions])
+
+  const historySessions = useMemo(
+    () => sessions.filter(s => historyUser === 'all' || s.user_id === historyUser),
+    [sessions, historyUser]
+  )
+
+  const historyStats = useMemo(() => {
+    const closed = historySessions.filter(s => s.status === 'Closed')
+    return {
+      count: closed.length,
+      short: closed.filter(s => getVarianceStatus(s.variance) === 'short').length,
+      variance: closed.reduce((sum, s) => sum + (s.variance || 0), 0),
+    }
+  }, [historySessions])
+
+  const expectedOf = (session: CashSession) =>
+    session.status === 'Closed' ? session.expected_amount || 0 : totals.get(session.id)?.expected_amount ?? session.opening_float
+
+  const owners = users.filter(u => u.role === 'Owner')
+
+  // ============================================
+  // Open / close
+  // ============================================
+  const startSession = async () => {
+    const amount = parseFloat(openingFloat) || 0
+    if (amount < 0) {
+      showNotification('رصيد الافتتاح لا يمكن أن يكون سالباً', 'error')
+      return
+    }
+    if (submitting) return
+    setSubmitting(true)
+    try {
+      const { error } = await supabase.rpc('open_cash_session', {
+        p_opening_float: amount,
+        p_notes: sanitizeNotes(openingNotes) || null,
+      })
+      if (error) throw error
+
+      showNotification('تم فتح جلسة الصندوق', 'success')
+      setOpenDialog(false)
+      fetchData()
+    } catch (error) {
+      console.error('Error opening cash session:', error)
+      showNotification('حدث خطأ أثناء فتح الجلسة: ' + (error as Error).message, 'error')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const openCloseDialog = (session: CashSession) => {
+    setCountedAmount('')
+    setHandedOverTo(owners.find(o => o.id !== session.user_id)?.id || '')
+    setClosingNotes('')
+    setCloseTarget(session)
+  }
+
+  const closeSession = async () => {
+    if (!closeTarget) return
+    if (countedAmount === '' || parseFloat(countedAmount) < 0) {
+      showNotification('يرجى إدخال المبلغ المعدود', 'error')
+      return
+    }
+    if (submitting) return
+    setSubmitting(true)
+    try {
+      const { data, error } = await supabase.rpc('close_cash_session', {
+        p_session_id: closeTarget.id,
+        p_counted_amount: parseFloat(countedAmount),
+        p_handed_over_to: handedOverTo || null,
+        p_notes: sanitizeNotes(closingNotes) || null,
+      })
+      if (error) throw error
+
+      const closed = data as CashSession
+      const status = getVarianceStatus(closed?.variance)
+      showNotification(
+        status === 'balanced'
+          ? 'تم إغلاق الجلسة، الصندوق مطابق'
+          : `تم إغلاق الجلسة مع ${VARIANCE_LABELS[status].label}: ${formatCurrency(Math.abs(closed.variance || 0))}`,
+        status === 'balanced' ? 'success' : 'error'
+      )
+      setCloseTarget(null)
+      fetchData()
+    } catch (error) {
+      console.error('Error closing cash session:', error)
+      showNotification('حدث خطأ أثناء إغلاق الجلسة: ' + (error as Error).message, 'error')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const showDetails = async (session: CashSession) => {
+    setDetailsTarget(session)
+    setDetailsMovements([])
+    setDetailsLoading(true)
+    try {
+      setDetailsMovements(await fetchMovements(session.id))
+    } catch (error) {
+      console.error('Error loading cash movements:', error)
+      showNotification('خطأ في تحميل حركات الجلسة: ' + (error as Error).message, 'error')
+    } finally {
+      setDetailsLoading(false)
+    }
+  }
+
+  const renderVariance = (variance: number | null) => {
+    if (variance === null) return '-'
+    const status = getVarianceStatus(variance)
+    return (
+      <span className={VARIANCE_LABELS[status].className}>
+        {VARIANCE_LABELS[status].label}
+        {status !== 'balanced' && ` ${formatCurrency(Math.abs(variance))}`}
+      </span>
+    )
+  }
+
+  const renderMovements = (movements: CashMovement[]) => (
+    movements.length === 0 ? (
+      <p className="text-center text-muted-foreground py-4">لا توجد حركات نقدية في هذه الجلسة</p>
+    ) : (
+      <div className="overflow-x-auto rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow className="bg-gray-100">
+              <TableHead>الوقت</TableHead>
+              <TableHead>النوع</TableHead>
+              <TableHead>البيان</TableHead>
+              <TableHead>المبلغ</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {movements.map(m => (
+              <TableRow key={`${m.kind}-${m.id}`}>
+                <TableCell className="text-xs">{formatDateTime(m.created_at)}</TableCell>
+                <TableCell className="text-xs">{getMovementLabel(m.kind)}</TableCell>
+                <TableCell className="text-sm">{m.label}</TableCell>
+                <TableCell className={`text-sm font-medium ${m.amount < 0 ? 'text-red-700' : 'text-green-700'}`}>
+                  {formatCurrency(m.amount)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    )
+  )
+
+  if (loading) {
+    return (
+      <div className="flex h-64 items-center justify-center">
+        <div className="text-muted-foreground">جاري التحميل...</div>
+      </div>
+    )
+  }
+
+  const myTotals = mySession ? totals.get(mySession.id) : undefined
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold">الصندوق</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            جلسات الصندوق لكل مستخدم: رصيد الافتتاح، الدفعات والمصاريف النقدية، والمبلغ المعدود عند الإغلاق
+          </p>
+        </div>
+        {!mySession && (
+          <Button
+            onClick={() => { setOpeningFloat(''); setOpeningNotes(''); setOpenDialog(true) }}
+            className="w-full sm:w-auto"
+          >
+            <Unlock className="h-4 w-4 ml-2" />
+            فتح جلسة
+          </Button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {VIEWS.map(item => (
+          <Button
+            key={item.value}
+            size="sm"
+            variant={view === item.value ? 'default' : 'outline'}
+            onClick={() => setView(item.value)}
+          >
+            {item.label}
+          </Button>
+        ))}
+      </div>
+
+      {view === 'mine' ? (
+        mySession ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+              <Card>
+                <CardContent className="pt-3 pb-3">
+                  <p className="text-xs font-medium text-muted-foreground mb-1">رصيد الافتتاح</p>
+                  <p className="text-xl font-bold">{formatCurrency(mySession.opening_float)}</p>
+                  <p className="text-xs text-muted-foreground mt-0.5">{formatDateTime(mySession.opened_at)}</p>
+                </CardContent>
+              </Card>
+              <Card className="bg-green-50 border-green-200">
+                <CardContent className="pt-3 pb-3">
+                  <p className="text-xs font-medium text-green-700 mb-1">مقبوضات</p>
+                  <p className="text-xl font-bold text-green-900">
+                    {formatCurrency((myTotals?.payments_in || 0) + (myTotals?.revenue_in || 0))}
+                  </p>
+                </CardContent>
+              </Card>
+              <Card className="bg-red-50 border-red-200">
+                <CardContent className="pt-3 pb-3">
+                  <p className="text-xs font-medium text-red-700 mb-1">مدفوعات ومصاريف</p>
+                  <p className="text-xl font-bold text-red-800">
+                    {formatCurrency((myTotals?.expenses_out || 0) + (myTotals?.refunds_out || 0))}
+                  </p>
+                </CardContent>
+              </Card>
+              <Card className="bg-blue-50 border-blue-200">
+                <CardContent className="pt-3 pb-3">
+                  <p className="text-xs font-medium text-blue-700 mb-1">المتوقع في الصندوق</p>
+                  <p className="text-xl font-bold text-blue-900">{formatCurrency(expectedOf(mySession))}</p>
+                </CardContent>
+              </Card>
+            </div>
+            <div className="flex justify-end">
+              <Button onClick={() => openCloseDialog(mySession)}>
+                <Lock className="h-4 w-4 ml-2" />
+                إغلاق الجلسة
+              </Button>
+            </div>
+            {renderMovements(myMovements)}
+          </div>
+        ) : (
+          <div className="text-center text-muted-foreground py-8 space-y-2">
+            <Wallet className="h-10 w-10 mx-auto text-gray-400" />
+            <p>لا توجد جلسة صندوق مفتوحة. الدفعات والمصاريف النقدية لن تحتسب في صندوقك حتى تفتح جلسة.</p>
+          </div>
+        )
+      ) : view === 'handover' ? (
+        openSessions.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">لا توجد جلسات مفتوحة</p>
+        ) : (
+          <div className="overflow-x-auto rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-gray-100">
+                  <TableHead>المستخدم</TableHead>
+                  <TableHead>منذ</TableHead>
+                  <TableHead>رصيد الافتتاح</TableHead>
+                  <TableHead>مقبوضات</TableHead>
+                  <TableHead>مدفوعات</TableHead>
+                  <TableHead>المتوقع</TableHead>
+                  <TableHead>إجراءات</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {openSessions.map(session => {
+                  const t = totals.get(session.id)
+                  return (
+                    <TableRow key={session.id}>
+                      <TableCell className="text-sm font-medium">{userName(session.user_id)}</TableCell>
+                      <TableCell className="text-xs">{formatDateTime(session.opened_at)}</TableCell>
+                      <TableCell className="text-sm">{formatCurrency(session.opening_float)}</TableCell>
+                      <TableCell className="text-sm text-green-700">
+                        {formatCurrency((t?.payments_in || 0) + (t?.revenue_in || 0))}
+                      </TableCell>
+                      <TableCell className="text-sm text-red-700">
+                        {formatCurrency((t?.expenses_out || 0) + (t?.refunds_out || 0))}
+                      </TableCell>
+                      <TableCell className="text-sm font-bold">{formatCurrency(expectedOf(session))}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => showDetails(session)}>
+                            الحركات
+                          </Button>
+                          <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => openCloseDialog(session)}>
+                            <Lock className="h-3.5 w-3.5 ml-1" />
+                            استلام وإغلاق
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )
+      ) : (
+        <div className="space-y-3">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+            {isOwner ? (
+              <Select value={historyUser} onChange={(e) => setHistoryUser(e.target.value)} className="sm:w-64">
+                <option value="all">كل المستخدمين</option>
+                {users.map(u => (
+                  <option key={u.id} value={u.id}>{u.name}</option>
+                ))}
+              </Select>
+            ) : <div />}
+            <ExportButtons
+              permission="report_export"
+              filename="cash_sessions"
+              sheetName={{ ar: 'جلسات الصندوق', fr: 'Sessions de caisse' }}
+              columns={sessionExportColumns(userName)}
+              rows={historySessions}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+            <Card>
+              <CardContent className="pt-3 pb-3">
+                <p className="text-xs font-medium text-muted-foreground mb-1">جلسات مغلقة</p>
+                <p className="text-xl font-bold">{historyStats.count}</p>
+              </CardContent>
+            </Card>
+            <Card className={historyStats.short > 0 ? 'bg-red-50 border-red-200' : ''}>
+              <CardContent className="pt-3 pb-3">
+                <p className="text-xs font-medium text-red-700 mb-1">جلسات بعجز</p>
+                <p className="text-xl font-bold text-red-800">{historyStats.short}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-3 pb-3">
+                <p className="text-xs font-medium text-muted-foreground mb-1">مجموع الفروقات</p>
+                <p className={`text-xl font-bold ${VARIANCE_LABELS[getVarianceStatus(historyStats.variance)].className}`}>
+                  {formatCurrency(historyStats.variance)}
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+
+          {historySessions.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">لا توجد جلسات</p>
+          ) : (
+            <div className="overflow-x-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-gray-100">
+                    <TableHead>المستخدم</TableHead>
+                    <TableHead>الفترة</TableHead>
+                    <TableHead>الحالة</TableHead>
+                    <TableHead>المتوقع</TableHead>
+                    <TableHead>المعدود</TableHead>
+                    <TableHead>الفرق</TableHead>
+                    <TableHead>سلمت إلى</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {historySessions.map(session => (
+                    <TableRow key={session.id} className="cursor-pointer hover:bg-gray-50" onClick={() => showDetails(session)}>
+                      <TableCell className="text-sm font-medium">{userName(session.user_id)}</TableCell>
+                      <TableCell className="text-xs">
+                        <p>{formatDateTime(session.opened_at)}</p>
+                        {session.closed_at && <p className="text-muted-foreground">{formatDateTime(session.closed_at)}</p>}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={CASH_SESSION_STATUS_LABELS[session.status].variant}>
+                          {CASH_SESSION_STATUS_LABELS[session.status].label}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">{formatCurrency(expectedOf(session))}</TableCell>
+                      <TableCell className="text-sm">
+                        {session.counted_amount !== null ? formatCurrency(session.counted_amount) : '-'}
+                      </TableCell>
+                      <TableCell className="text-sm">{renderVariance(session.variance)}</TableCell>
+                      <TableCell className="text-xs">
+                        {session.handed_over_to ? userName(session.handed_over_to) : '-'}
+                        {session.closing_notes && <p className="text-muted-foreground">{session.closing_notes}</p>}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Open session */}
+      <Dialog open={openDialog} onOpenChange={setOpenDialog}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>فتح جلسة صندوق</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div>
+              <Label htmlFor="cash_opening_float">رصيد الافتتاح (المبلغ الموجود في الصندوق)</Label>
+              <Input
+                id="cash_opening_float"
+                type="number"
+                min="0"
+                step="0.01"
+                value={openingFloat}
+                onChange={(e) => setOpeningFloat(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="cash_opening_notes">ملاحظات</Label>
+              <Textarea
+                id="cash_opening_notes"
+                value={openingNotes}
+                onChange={(e) => setOpeningNotes(e.target.value)}
+                rows={2}
+              />
+            </div>
+          </div>
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setOpenDialog(false)}>إلغاء</Button>
+            <Button onClick={startSession} disabled={submitting}>
+              {submitting ? 'جاري الحفظ...' : 'فتح الجلسة'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Close session */}
+      <Dialog open={!!closeTarget} onOpenChange={(open) => !open && setCloseTarget(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>إغلاق جلسة الصندوق</DialogTitle>
+          </DialogHeader>
+          {closeTarget && (
+            <div className="space-y-3">
+              <div className="rounded-md border p-3 text-sm space-y-1">
+                <p>{userName(closeTarget.user_id)} - منذ {formatDateTime(closeTarget.opened_at)}</p>
+                <p className="font-medium">المتوقع في الصندوق: {formatCurrency(expectedOf(closeTarget))}</p>
+              </div>
+              <div>
+                <Label htmlFor="cash_counted_amount">المبلغ المعدود *</Label>
+                <Input
+                  id="cash_counted_amount"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={countedAmount}
+                  onChange={(e) => setCountedAmount(e.target.value)}
+                />
+                {countedAmount !== '' && (
+                  <p className="text-xs mt-1">
+                    {renderVariance(getVariance(parseFloat(countedAmount) || 0, expectedOf(closeTarget)))}
+                  </p>
+                )}
+              </div>
+              <div>
+                <Label htmlFor="cash_handed_over_to">تسليم المبلغ إلى</Label>
+                <Select id="cash_handed_over_to" value={handedOverTo} onChange={(e) => setHandedOverTo(e.target.value)}>
+                  <option value="">بدون تسليم (يبقى في الصندوق)</option>
+                  {users.filter(u => u.id !== closeTarget.user_id).map(u => (
+                    <option key={u.id} value={u.id}>{u.name}</option>
+                  ))}
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="cash_closing_notes">ملاحظات</Label>
+                <Textarea
+                  id="cash_closing_notes"
+                  value={closingNotes}
+                  onChange={(e) => setClosingNotes(e.target.value)}
+                  rows={2}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setCloseTarget(null)}>إلغاء</Button>
+            <Button onClick={closeSession} disabled={submitting}>
+              {submitting ? 'جاري الحفظ...' : 'إغلاق الجلسة'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Session movements */}
+      <Dialog open={!!detailsTarget} onOpenChange={(open) => !open && setDetailsTarget(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>حركات الجلسة</DialogTitle>
+          </DialogHeader>
+          {detailsTarget && (
+            <div className="space-y-3">
+              <div className="rounded-md border p-3 text-sm grid grid-cols-2 gap-2">
+                <p>{userName(detailsTarget.user_id)}</p>
+                <p className="text-muted-foreground">{formatDateTime(detailsTarget.opened_at)}</p>
+                <p>رصيد الافتتاح: {formatCurrency(detailsTarget.opening_float)}</p>
+                <p>المتوقع: {formatCurrency(expectedOf(detailsTarget))}</p>
+                {detailsTarget.status === 'Closed' && (
+                  <>
+                    <p>المعدود: {formatCurrency(detailsTarget.counted_amount || 0)}</p>
+                    <p>{renderVariance(detailsTarget.variance)}</p>
+                  </>
+                )}
+              </div>
+              {detailsLoading ? (
+                <div className="text-center py-4 text-muted-foreground">جاري التحميل...</div>
+              ) : renderMovements(detailsMovements)}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
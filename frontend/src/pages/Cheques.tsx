@@ -0,0 +1,852 @@
+import { useEffect, useMemo, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/contexts/AuthContext'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Select } from '@/components/ui/select'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { showNotification } from '@/components/ui/notification'
+import { formatCurrency, formatDate, formatDateTime } from '@/lib/utils'
+import { sanitizeNotes, sanitizeText } from '@/lib/sanitize'
+import { toDateString } from '@/lib/installmentSchedule'
+import {
+  CHEQUE_DIRECTION_LABELS,
+  CHEQUE_STATUS_LABELS,
+  getChequeStatusLabel,
+  getNextChequeStatuses,
+  isChequeDue,
+} from '@/lib/cheques'
+import { ArrowLeftRight, History, Plus } from 'lucide-react'
+import type {
+  Cheque,
+  ChequeDirection,
+  ChequeStatus,
+  ChequeStatusChange,
+  Client,
+  Debt,
+  Payment,
+} from '@/types/database'
+
+interface ChequeWithRelations extends Cheque {
+  client?: Pick<Client, 'id' | 'name' | 'cin'> | null
+  debt?: Pick<Debt, 'id' | 'creditor_name'> | null
+}
+
+type HistoryEntry = ChequeStatusChange & { changed_by_user?: { name: string } | null }
+
+type LinkablePayment = Pick<Payment, 'id' | 'amount_paid' | 'payment_date' | 'payment_type' | 'payment_method'>
+
+interface LinkableDebtPayment {
+  id: string
+  amount_paid: number
+  payment_date: string
+}
+
+const emptyCreateForm = () => ({
+  direction: 'Incoming' as ChequeDirection,
+  cheque_number: '',
+  bank_name: '',
+  drawer_name: '',
+  payee_name: '',
+  amount: '',
+  issue_date: toDateString(new Date()),
+  due_date: toDateString(new Date()),
+  payment_id: '',
+  debt_id: '',
+  debt_payment_id: '',
+  notes: '',
+})
+
+export function Cheques() {
+  const { hasPermission } = useAuth()
+  const [cheques, setCheques] = useState<ChequeWithRelations[]>([])
+  const [loading, setLoading] = useState(true)
+  const [directionFilter, setDirectionFilter] = useState<ChequeDirection | 'all'>('all')
+  const [statusFilter, setStatusFilter] = useState<ChequeStatus | 'all'>('all')
+  const [search, setSearch] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  // Create
+  const [createOpen, setCreateOpen] = useState(false)
+  const [createForm, setCreateForm] = useState(emptyCreateForm)
+  const [clientSearch, setClientSearch] = useState('')
+  const [clientResults, setClientResults] = useState<Pick<Client, 'id' | 'name' | 'cin'>[]>([])
+  const [selectedClient, setSelectedClient] = useState<Pick<Client, 'id' | 'name' | 'cin'> | null>(null)
+  const [clientPayments, setClientPayments] = useState<LinkablePayment[]>([])
+  const [debts, setDebts] = useState<Pick<Debt, 'id' | 'creditor_name' | 'amount_owed' | 'status'>[]>([])
+  const [debtPayments, setDebtPayments] = useState<LinkableDebtPayment[]>([])
+
+  // Status change / history
+  const [statusTarget, setStatusTarget] = useState<ChequeWithRelations | null>(null)
+  const [statusForm, setStatusForm] = useState({ status: '' as ChequeStatus | '', date: '', deposit_account: '', notes: '' })
+  const [historyTarget, setHistoryTarget] = useState<ChequeWithRelations | null>(null)
+  const [history, setHistory] = useState<HistoryEntry[]>([])
+  const [historyLoading, setHistoryLoading] = useState(false)
+
+  const canEdit = hasPermission('record_payments')
+
+  useEffect(() => {
+    fetchCheques()
+  }, [])
+
+  const fetchCheques = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('cheques')
+        .select('*, client:clients(id, name, cin), debt:debts(id, creditor_name)')
+        .order('due_date', { ascending: true })
+        .limit(1000)
+
+      if (error) throw error
+      setCheques((data as ChequeWithRelations[]) || [])
+    } catch (error) {
+      console.error('Error fetching cheques:', error)
+      showNotification('خطأ في تحميل الشيكات: ' + (error as Error).message, 'error')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const filteredCheques = useMemo(() => {
+    const term = search.trim().toLowerCase()
+    return cheques.filter(c => {
+      if (directionFilter !== 'all' && c.direction !== directionFilter) return false
+      if (statusFilter !== 'all' && c.status !== statusFilter) return false
+      if (!term) return true
+      return (
+        c.cheque_number.toLowerCase().includes(term) ||
+        c.bank_name.toLowerCase().includes(term) ||
+        c.drawer_name.toLowerCase().includes(term) ||
+        c.payee_name?.toLowerCase().includes(term) ||
+        c.client?.name?.toLowerCase().includes(term) ||
+        c.debt?.creditor_name?.toLowerCase().includes(term)
+      )
+    })
+  }, [cheques, directionFilter, statusFilter, search])
+
+  const stats = useMemo(() => {
+    const sum = (list: Cheque[]) => list.reduce((total, c) => total + (c.amount || 0), 0)
+    const incomingOpen = cheques.filter(c => c.direction === 'Incoming' && (c.status === 'Received' || c.status === 'Deposited'))
+    const outgoingOpen = cheques.filter(c => c.direction === 'Outgoing' && (c.status === 'Received' || c.status === 'Deposited'))
+    const due = cheques.filter(c => c.direction === 'Incoming' && isChequeDue(c))
+    const bounced = cheques.filter(c => c.status === 'Bounced')
+    return {
+      incomingOpen: incomingOpen.length,
+      incomingOpenAmount: sum(incomingOpen),
+      outgoingOpen: outgoingOpen.length,
+      outgoingOpenAmount: sum(outgoingOpen),
+      due: due.length,
+      dueAmount: sum(due),
+      bounced: bounced.length,
+      bouncedAmount: sum(bounced),
+    }
+  }, [cheques])
+
+  // ============================================
+  // Create
+  // ============================================
+  const openCreateDialog = async () => {
+    setCreateForm(emptyCreateForm())
+    setSelectedClient(null)
+    setClientSearch('')
+    setClientResults([])
+    setClientPayments([])
+    setDebtPayments([])
+    setCreateOpen(true)
+
+    const { data, error } = await supabase
+      .from('debts')
+      .select('id, creditor_name, amount_owed, status')
+      .order('due_date', { ascending: true })
+    if (error) {
+      console.error('Error fetching debts:', error)
+      return
+    }
+    setDebts(data || [])
+  }
+
+  const searchClients = async () => {
+    const term = sanitizeText(clientSearch).replace(/[,()]/g, ' ').trim()
+    if (!term) return
+    const { data, error } = await supabase
+      .from('clients')
+      .select('id, name, cin')
+      .or(`name.ilike.%${term}%,cin.ilike.%${term}%,phone.ilike.%${term}%`)
+      .limit(10)
+    if (error) {
+      console.error('Error searching clients:', error)
+      showNotification('خطأ في البحث عن العملاء: ' + error.message, 'error')
+      return
+    }
+    setClientResults(data || [])
+  }
+
+  // Payments of the client not yet covered by a cheque
+  const selectClient = async (client: Pick<Client, 'id' | 'name' | 'cin'>) => {
+    setSelectedClient(client)
+    setClientResults([])
+    setCreateForm(prev => ({ ...prev, payment_id: '', drawer_name: prev.drawer_name || client.name }))
+
+    const [paymentsRes, linkedRes] = await Promise.all([
+      supabase
+        .from('payments')
+        .select('id, amount_paid, payment_date, payment_type, payment_method')
+        .eq('client_id', client.id)
+        .neq('payment_type', 'Refund')
+        .order('payment_date', { ascending: false })
+        .limit(50),
+      supabase.from('cheques').select('payment_id').eq('client_id', client.id).not('payment_id', 'is', null),
+    ])
+    if (paymentsRes.error) {
+      console.error('Error fetching client payments:', paymentsRes.error)
+      return
+    }
+    const linked = new Set((linkedRes.data || []).map((c: { payment_id: string }) => c.payment_id))
+    setClientPayments(((paymentsRes.data || []) as LinkablePayment[]).filter(p => !linked.has(p.id)))
+  }
+
+  const selectDebt = async (debtId: string) => {
+    setCreateForm(prev => ({
+      ...prev,
+      debt_id: debtId,
+      debt_payment_id: '',
+      payee_name: prev.payee_name || debts.find(d => d.id === debtId)?.creditor_name || '',
+    }))
+    setDebtPayments([])
+    if (!debtId) return
+
+    const [paymentsRes, linkedRes] = await Promise.all([
+      supabase
+        .from('debt_payments')
+        .select('id, amount_paid, payment_date')
+        .eq('debt_id', debtId)
+        .order('payment_date', { ascending: false }),
+      supabase.from('cheques').select('debt_payment_id').eq('debt_id', debtId).not('debt_payment_id', 'is', null),
+    ])
+    if (paymentsRes.error) {
+      console.error('Error fetching debt payments:', paymentsRes.error)
+      return
+    }
+    const linked = new Set((linkedRes.data || []).map((c: { debt_payment_id: string }) => c.debt_payment_id))
+    setDebtPayments(((paymentsRes.data || []) as LinkableDebtPayment[]).filter(p => !linked.has(p.id)))
+  }
+
+  const createCheque = async () => {
+    if (submitting) return
+    const amount = parseFloat(createForm.amount) || 0
+    if (!createForm.cheque_number.trim() || !createForm.bank_name.trim() || !createForm.drawer_name.trim()) {
+      showNotification('يرجى إدخال رقم الشيك والبنك والساحب', 'error')
+      return
+    }
+    if (amount <= 0 || !createForm.due_date) {
+      showNotification('يرجى إدخال المبلغ وتاريخ الاستحقاق', 'error')
+      return
+    }
+
+    const incoming = createForm.direction === 'Incoming'
+    setSubmitting(true)
+    try {
+      const { error } = await supabase.rpc('record_cheque', {
+        p_direction: createForm.direction,
+        p_cheque_number: sanitizeText(createForm.cheque_number),
+        p_bank_name: sanitizeText(createForm.bank_name),
+        p_drawer_name: sanitizeText(createForm.drawer_name),
+        p_amount: amount,
+        p_due_date: createForm.due_date,
+        p_issue_date: createForm.issue_date || null,
+        p_payee_name: !incoming && createForm.payee_name ? sanitizeText(createForm.payee_name) : null,
+        p_client_id: incoming ? selectedClient?.id || null : null,
+        p_payment_id: incoming ? createForm.payment_id || null : null,
+        p_debt_id: !incoming ? createForm.debt_id || null : null,
+        p_debt_payment_id: !incoming ? createForm.debt_payment_id || null : null,
+        p_notes: createForm.notes ? sanitizeNotes(createForm.notes) : null,
+      })
+      if (error) throw error
+
+      showNotification('تم تسجيل الشيك', 'success')
+      setCreateOpen(false)
+      fetchCheques()
+    } catch (error) {
+      console.error('Error recording cheque:', error)
+      showNotification('حدث خطأ أثناء تسجيل الشيك: ' + (error as Error).message, 'error')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  // ============================================
+  // Status
+  // ============================================
+  const openStatusDialog = (cheque: ChequeWithRelations, status: ChequeStatus) => {
+    setStatusForm({ status, date: toDateString(new Date()), deposit_account: '', notes: '' })
+    setStatusTarget(cheque)
+  }
+
+  const updateStatus = async () => {
+    if (!statusTarget || !statusForm.status || submitting) return
+    if (statusForm.status === 'Bounced' && !statusForm.notes.trim()) {
+      showNotification('يرجى إدخال سبب رفض الشيك', 'error')
+      return
+    }
+
+    setSubmitting(true)
+    try {
+      const { error } = await supabase.rpc('update_cheque_status', {
+        p_cheque_id: statusTarget.id,
+        p_status: statusForm.status,
+        p_status_date: statusForm.date || null,
+        p_deposit_account: statusForm.deposit_account ? sanitizeText(statusForm.deposit_account) : null,
+        p_notes: statusForm.notes ? sanitizeNotes(statusForm.notes) : null,
+      })
+      if (error) throw error
+
+      showNotification(
+        statusForm.status === 'Bounced' && (statusTarget.payment_id || statusTarget.debt_payment_id)
+          ? 'تم تسجيل رفض الشيك وإلغاء الدفعة المرتبطة به'
+          : 'تم تحديث حالة الشيك',
+        'success'
+      )
+      setStatusTarget(null)
+      fetchCheques()
+    } catch (error) {
+      console.error('Error updating cheque status:', error)
+      showNotification('حدث خطأ أثناء تحديث الحالة: ' + (error as Error).message, 'error')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const openHistory = async (cheque: ChequeWithRelations) => {
+    setHistoryTarget(cheque)
+    setHistory([])
+    setHistoryLoading(true)
+    try {
+      const { data, error } = await supabase
+        .from('cheque_status_history')
+        .select('*, changed_by_user:users(name)')
+        .eq('cheque_id', cheque.id)
+        .order('created_at', { ascending: true })
+      if (error) throw error
+      setHistory((data as HistoryEntry[]) || [])
+    } catch (error) {
+      console.error('Error fetching cheque history:', error)
+      showNotification('خطأ في تحميل السجل: ' + (error as Error).message, 'error')
+    } finally {
+      setHistoryLoading(false)
+    }
+  }
+
+  const STATUS_ACTION_LABELS: Record<ChequeStatus, string> = {
+    Received: '',
+    Deposited: 'إيداع',
+    Cleared: 'تحصيل',
+    Bounced: 'رفض',
+  }
+
+  if (loading) {
+    return (
+      <div className="flex h-64 items-center justify-center">
+        <div className="text-muted-foreground">جاري التحميل...</div>
+      </div>
+    )
+  }
+
+  const incoming = createForm.direction === 'Incoming'
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold">الشيكات</h1>
+          <p className="text-sm text-muted-foreground mt-1">الشيكات الواردة من العملاء والصادرة للدائنين، من الاستلام إلى التحصيل أو الرفض</p>
+        </div>
+        {canEdit && (
+          <Button onClick={openCreateDialog} className="w-full sm:w-auto">
+            <Plus className="h-4 w-4 ml-2" />
+            شيك جديد
+          </Button>
+        )}
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+        <Card className="bg-blue-50 border-blue-200">
+          <CardContent className="pt-3 pb-3">
+            <p className="text-xs font-medium text-blue-700 mb-1">شيكات واردة قيد التحصيل</p>
+            <p className="text-xl font-bold text-blue-900">{formatCurrency(stats.incomingOpenAmount)}</p>
+            <p className="text-xs text-blue-600 mt-0.5">{stats.incomingOpen} شيك</p>
+          </CardContent>
+        </Card>
+        <Card className={stats.due > 0 ? 'bg-orange-50 border-orange-200' : ''}>
+          <CardContent className="pt-3 pb-3">
+            <p className="text-xs font-medium text-orange-700 mb-1">حان أجلها ولم تودع</p>
+            <p className="text-xl font-bold text-orange-800">{formatCurrency(stats.dueAmount)}</p>
+            <p className="text-xs text-orange-600 mt-0.5">{stats.due} شيك</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-3 pb-3">
+            <p className="text-xs font-medium text-muted-foreground mb-1">شيكات صادرة لم تصرف</p>
+            <p className="text-xl font-bold">{formatCurrency(stats.outgoingOpenAmount)}</p>
+            <p className="text-xs text-muted-foreground mt-0.5">{stats.outgoingOpen} شيك</p>
+          </CardContent>
+        </Card>
+        <Card className={stats.bounced > 0 ? 'bg-red-50 border-red-200' : ''}>
+          <CardContent className="pt-3 pb-3">
+            <p className="text-xs font-medium text-red-700 mb-1">شيكات مرفوضة</p>
+            <p className="text-xl font-bold text-red-800">{formatCurrency(stats.bouncedAmount)}</p>
+            <p className="text-xs text-red-600 mt-0.5">{stats.bounced} شيك</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Input
+          placeholder="بحث برقم الشيك، البنك، الساحب أو العميل..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="sm:max-w-sm"
+        />
+        <Select
+          value={directionFilter}
+          onChange={(e) => setDirectionFilter(e.target.value as ChequeDirection | 'all')}
+          className="sm:w-48"
+        >
+          <option value="all">الواردة والصادرة</option>
+          {(Object.keys(CHEQUE_DIRECTION_LABELS) as ChequeDirection[]).map(direction => (
+            <option key={direction} value={direction}>{CHEQUE_DIRECTION_LABELS[direction]}</option>
+          ))}
+        </Select>
+        <Select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as ChequeStatus | 'all')}
+          className="sm:w-48"
+        >
+          <option value="all">كل الحالات</option>
+          {(Object.keys(CHEQUE_STATUS_LABELS) as ChequeStatus[]).map(status => (
+            <option key={status} value={status}>{CHEQUE_STATUS_LABELS[status].label}</option>
+          ))}
+        </Select>
+      </div>
+
+      {/* List */}
+      {filteredCheques.length === 0 ? (
+        <p className="text-center text-muted-foreground py-8">لا توجد شيكات</p>
+      ) : (
+        <div className="overflow-x-auto rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-gray-100">
+                <TableHead>الشيك</TableHead>
+                <TableHead>الساحب / المستفيد</TableHead>
+                <TableHead>المبلغ</TableHead>
+                <TableHead>تاريخ الاستحقاق</TableHead>
+                <TableHead>مرتبط بـ</TableHead>
+                <TableHead>الحالة</TableHead>
+                <TableHead>إجراءات</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredCheques.map(cheque => {
+                const due = isChequeDue(cheque)
+                return (
+                  <TableRow key={cheque.id} className={due ? 'bg-orange-50' : cheque.status === 'Bounced' ? 'bg-red-50' : ''}>
+                    <TableCell>
+                      <p className="font-medium text-sm">#{cheque.cheque_number}</p>
+                      <p className="text-xs text-muted-foreground">{cheque.bank_name}</p>
+                      <Badge variant="outline" className="text-xs mt-1">{CHEQUE_DIRECTION_LABELS[cheque.direction]}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <p>{cheque.drawer_name}</p>
+                      {cheque.payee_name && <p className="text-xs text-muted-foreground">لفائدة: {cheque.payee_name}</p>}
+                    </TableCell>
+                    <TableCell className="text-sm font-medium">{formatCurrency(cheque.amount)}</TableCell>
+                    <TableCell className="text-xs">
+                      {formatDate(cheque.due_date)}
+                      {due && <p className="text-orange-700 font-medium">حان أجله</p>}
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      {cheque.direction === 'Incoming' ? (
+                        <>
+                          <p>{cheque.client?.name || '-'}</p>
+                          {cheque.payment_id && <p className="text-muted-foreground">دفعة مسجلة</p>}
+                        </>
+                      ) : (
+                        <>
+                          <p>{cheque.debt?.creditor_name || '-'}</p>
+                          {cheque.debt_payment_id && <p className="text-muted-foreground">دفعة دين مسجلة</p>}
+                        </>
+                      )}
+                      {cheque.reversed_payment && <p className="text-red-600">تم إلغاء الدفعة</p>}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={CHEQUE_STATUS_LABELS[cheque.status].variant}>{getChequeStatusLabel(cheque)}</Badge>
+                      {cheque.status === 'Bounced' && cheque.bounce_reason && (
+                        <p className="text-xs text-muted-foreground mt-1">{cheque.bounce_reason}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {canEdit && getNextChequeStatuses(cheque.status).map(status => (
+                          <Button
+                            key={status}
+                            size="sm"
+                            variant="outline"
+                            className={`h-7 text-xs ${status === 'Bounced' ? 'text-red-600' : ''}`}
+                            onClick={() => openStatusDialog(cheque, status)}
+                          >
+                            <ArrowLeftRight className="h-3.5 w-3.5 ml-1" />
+                            {STATUS_ACTION_LABELS[status]}
+                          </Button>
+                        ))}
+                        <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => openHistory(cheque)}>
+                          <History className="h-3.5 w-3.5 ml-1" />
+                          السجل
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {/* Create */}
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>تسجيل شيك</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="cheque_direction">النوع</Label>
+              <Select
+                id="cheque_direction"
+                value={createForm.direction}
+                onChange={(e) => setCreateForm({ ...emptyCreateForm(), direction: e.target.value as ChequeDirection })}
+              >
+                {(Object.keys(CHEQUE_DIRECTION_LABELS) as ChequeDirection[]).map(direction => (
+                  <option key={direction} value={direction}>{CHEQUE_DIRECTION_LABELS[direction]}</option>
+                ))}
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="cheque_number">رقم الشيك *</Label>
+                <Input
+                  id="cheque_number"
+                  value={createForm.cheque_number}
+                  onChange={(e) => setCreateForm({ ...createForm, cheque_number: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="cheque_bank">البنك *</Label>
+                <Input
+                  id="cheque_bank"
+                  value={createForm.bank_name}
+                  onChange={(e) => setCreateForm({ ...createForm, bank_name: e.target.value })}
+                />
+              </div>
+            </div>
+
+            {incoming && (
+              <div className="space-y-2">
+                <Label>العميل</Label>
+                {selectedClient ? (
+                  <div className="flex items-center justify-between rounded-md border p-2 text-sm">
+                    <span>{selectedClient.name} ({selectedClient.cin})</span>
+                    <Button size="sm" variant="ghost" onClick={() => { setSelectedClient(null); setClientPayments([]) }}>
+                      تغيير
+                    </Button>
+                  </div>
+                ) : (
+                  <>
+                    <div className="flex gap-2">
+                      <Input
+                        placeholder="الاسم، رقم البطاقة أو الهاتف"
+                        value={clientSearch}
+                        onChange={(e) => setClientSearch(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && searchClients()}
+                      />
+                      <Button variant="outline" onClick={searchClients}>بحث</Button>
+                    </div>
+                    {clientResults.length > 0 && (
+                      <div className="rounded-md border divide-y max-h-40 overflow-y-auto">
+                        {clientResults.map(client => (
+                          <button
+                            key={client.id}
+                            type="button"
+                            className="w-full text-right p-2 text-sm hover:bg-gray-50"
+                            onClick={() => selectClient(client)}
+                          >
+                            {client.name} <span className="text-muted-foreground">({client.cin})</span>
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="cheque_drawer">الساحب *</Label>
+                <Input
+                  id="cheque_drawer"
+                  value={createForm.drawer_name}
+                  onChange={(e) => setCreateForm({ ...createForm, drawer_name: e.target.value })}
+                  placeholder={incoming ? 'صاحب الحساب' : 'الشركة'}
+                />
+              </div>
+              <div>
+                <Label htmlFor="cheque_amount">المبلغ *</Label>
+                <Input
+                  id="cheque_amount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={createForm.amount}
+                  onChange={(e) => setCreateForm({ ...createForm, amount: e.target.value })}
+                />
+              </div>
+            </div>
+
+            {!incoming && (
+              <div>
+                <Label htmlFor="cheque_payee">المستفيد</Label>
+                <Input
+                  id="cheque_payee"
+                  value={createForm.payee_name}
+                  onChange={(e) => setCreateForm({ ...createForm, payee_name: e.target.value })}
+                />
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="cheque_issue_date">تاريخ التسليم</Label>
+                <Input
+                  id="cheque_issue_date"
+                  type="date"
+                  value={createForm.issue_date}
+                  onChange={(e) => setCreateForm({ ...createForm, issue_date: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="cheque_due_date">تاريخ الاستحقاق *</Label>
+                <Input
+                  id="cheque_due_date"
+                  type="date"
+                  value={createForm.due_date}
+                  onChange={(e) => setCreateForm({ ...createForm, due_date: e.target.value })}
+                />
+              </div>
+            </div>
+
+            {incoming && selectedClient && (
+              <div>
+                <Label htmlFor="cheque_payment">الدفعة التي يسددها الشيك</Label>
+                <Select
+                  id="cheque_payment"
+                  value={createForm.payment_id}
+                  onChange={(e) => {
+                    const payment = clientPayments.find(p => p.id === e.target.value)
+                    setCreateForm({
+                      ...createForm,
+                      payment_id: e.target.value,
+                      amount: payment && !createForm.amount ? String(payment.amount_paid) : createForm.amount,
+                    })
+                  }}
+                >
+                  <option value="">بدون ربط</option>
+                  {clientPayments.map(payment => (
+                    <option key={payment.id} value={payment.id}>
+                      {formatDate(payment.payment_date)} - {formatCurrency(payment.amount_paid)}
+                      {payment.payment_method === 'Check' ? ' (شيك)' : ''}
+                    </option>
+                  ))}
+                </Select>
+              </div>
+            )}
+
+            {!incoming && (
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="cheque_debt">الدين</Label>
+                  <Select id="cheque_debt" value={createForm.debt_id} onChange={(e) => selectDebt(e.target.value)}>
+                    <option value="">بدون ربط</option>
+                    {debts.map(debt => (
+                      <option key={debt.id} value={debt.id}>
+                        {debt.creditor_name} - {formatCurrency(debt.amount_owed)}
+                      </option>
+                    ))}
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="cheque_debt_payment">دفعة الدين</Label>
+                  <Select
+                    id="cheque_debt_payment"
+                    value={createForm.debt_payment_id}
+                    onChange={(e) => {
+                      const payment = debtPayments.find(p => p.id === e.target.value)
+                      setCreateForm({
+                        ...createForm,
+                        debt_payment_id: e.target.value,
+                        amount: payment && !createForm.amount ? String(payment.amount_paid) : createForm.amount,
+                      })
+                    }}
+                    disabled={!createForm.debt_id}
+                  >
+                    <option value="">بدون ربط</option>
+                    {debtPayments.map(payment => (
+                      <option key={payment.id} value={payment.id}>
+                        {formatDate(payment.payment_date)} - {formatCurrency(payment.amount_paid)}
+                      </option>
+                    ))}
+                  </Select>
+                </div>
+              </div>
+            )}
+
+            <div>
+              <Label htmlFor="cheque_notes">ملاحظات</Label>
+              <Textarea
+                id="cheque_notes"
+                value={createForm.notes}
+                onChange={(e) => setCreateForm({ ...createForm, notes: e.target.value })}
+                rows={2}
+              />
+            </div>
+          </div>
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setCreateOpen(false)}>إلغاء</Button>
+            <Button onClick={createCheque} disabled={submitting}>
+              {submitting ? 'جاري الحفظ...' : 'تسجيل الشيك'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Status change */}
+      <Dialog open={!!statusTarget} onOpenChange={(open) => !open && setStatusTarget(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {statusForm.status && STATUS_ACTION_LABELS[statusForm.status]} الشيك #{statusTarget?.cheque_number}
+            </DialogTitle>
+          </DialogHeader>
+          {statusTarget && (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                {statusTarget.bank_name} - {statusTarget.drawer_name} - {formatCurrency(statusTarget.amount)}
+              </p>
+              <div>
+                <Label htmlFor="cheque_status_date">التاريخ</Label>
+                <Input
+                  id="cheque_status_date"
+                  type="date"
+                  value={statusForm.date}
+                  onChange={(e) => setStatusForm({ ...statusForm, date: e.target.value })}
+                />
+              </div>
+              {statusForm.status === 'Deposited' && statusTarget.direction === 'Incoming' && (
+                <div>
+                  <Label htmlFor="cheque_deposit_account">الحساب البنكي</Label>
+                  <Input
+                    id="cheque_deposit_account"
+                    value={statusForm.deposit_account}
+                    onChange={(e) => setStatusForm({ ...statusForm, deposit_account: e.target.value })}
+                  />
+                </div>
+              )}
+              <div>
+                <Label htmlFor="cheque_status_notes">{statusForm.status === 'Bounced' ? 'سبب الرفض *' : 'ملاحظات'}</Label>
+                <Textarea
+                  id="cheque_status_notes"
+                  value={statusForm.notes}
+                  onChange={(e) => setStatusForm({ ...statusForm, notes: e.target.value })}
+                  rows={2}
+                />
+              </div>
+              {statusForm.status === 'Bounced' && (statusTarget.payment_id || statusTarget.debt_payment_id) && (
+                <div className="bg-red-50 border border-red-200 text-red-700 p-3 rounded-md text-sm">
+                  {statusTarget.payment_id
+                    ? 'سيتم إلغاء الدفعة المرتبطة بهذا الشيك، وتعود الأقساط التي سددتها غير مدفوعة.'
+                    : 'سيتم إلغاء دفعة الدين المرتبطة بهذا الشيك، ويعود الدين قائماً.'}
+                </div>
+              )}
+            </div>
+          )}
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setStatusTarget(null)}>إلغاء</Button>
+            <Button
+              onClick={updateStatus}
+              disabled={submitting}
+              variant={statusForm.status === 'Bounced' ? 'destructive' : 'default'}
+            >
+              {submitting ? 'جاري الحفظ...' : 'تأكيد'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* History */}
+      <Dialog open={!!historyTarget} onOpenChange={(open) => !open && setHistoryTarget(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>سجل الشيك #{historyTarget?.cheque_number}</DialogTitle>
+          </DialogHeader>
+          {historyLoading ? (
+            <p className="text-center text-muted-foreground py-4">جاري التحميل...</p>
+          ) : history.length === 0 ? (
+            <p className="text-center text-muted-foreground py-4">لا يوجد سجل</p>
+          ) : (
+            <div className="space-y-2">
+              {history.map(entry => (
+                <div key={entry.id} className="rounded-md border p-2 text-sm">
+                  <div className="flex items-center justify-between gap-2">
+                    <Badge variant={CHEQUE_STATUS_LABELS[entry.to_status].variant}>
+                      {historyTarget ? getChequeStatusLabel({ direction: historyTarget.direction, status: entry.to_status }) : ''}
+                    </Badge>
+                    <span className="text-xs text-muted-foreground">{formatDate(entry.status_date)}</span>
+                  </div>
+                  {entry.notes && <p className="mt-1">{entry.notes}</p>}
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {entry.changed_by_user?.name || '-'} - {formatDateTime(entry.created_at)}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setHistoryTarget(null)}>إغلاق</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
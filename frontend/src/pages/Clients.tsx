@@ -12,6 +12,9 @@ import { sanitizeText, sanitizeEmail, sanitizePhone, sanitizeCIN, sanitizeNotes,
 import { ConfirmDialog } from '@/components/ui/confirm-dialog'
 import { debounce } from '@/lib/throttle'
 import { validatePermissionServerSide } from '@/lib/permissionValidation'
+import { ExportButtons } from '@/components/ExportButtons'
+import { BulkImportDialog } from '@/components/BulkImportDialog'
+import type { ExportColumn } from '@/lib/exportFile'
 import {
   Table,
   TableBody,
@@ -28,14 +31,26 @@ import {
   DialogFooter,
 } from '@/components/ui/dialog'
 import { formatCurrency, formatDate } from '@/lib/utils'
-import { Plus, Edit, Trash2, User, Eye, ShoppingCart, AlertCircle, CheckCircle, XCircle } from 'lucide-react'
-import type { Client, Sale, Reservation } from '@/types/database'
+import { Plus, Edit, Trash2, User, Eye, ShoppingCart, AlertCircle, CheckCircle, XCircle, Upload } from 'lucide-react'
+import type { Client, DocumentLanguage, Sale, Reservation } from '@/types/database'
 
 interface ClientWithRelations extends Client {
   sales?: Sale[]
   reservations?: Reservation[]
 }
 
+const CLIENT_EXPORT_COLUMNS: ExportColumn<ClientWithRelations>[] = [
+  { header: { ar: 'الاسم', fr: 'Nom' }, value: c => c.name },
+  { header: { ar: 'رقم الهوية', fr: 'CIN' }, value: c => c.cin },
+  { header: { ar: 'الهاتف', fr: 'Téléphone' }, value: c => c.phone },
+  { header: { ar: 'البريد الإلكتروني', fr: 'Email' }, value: c => c.email },
+  { header: { ar: 'العنوان', fr: 'Adresse' }, value: c => c.address },
+  { header: { ar: 'النوع', fr: 'Type' }, value: c => c.client_type },
+  { header: { ar: 'المبيعات', fr: 'Ventes' }, value: c => c.sales?.length || 0 },
+  { header: { ar: 'ملاحظات', fr: 'Notes' }, value: c => c.notes },
+  { header: { ar: 'تاريخ الإضافة', fr: 'Date de création' }, value: c => c.created_at?.split('T')[0] },
+]
+
 export function Clients() {
   const { hasPermission, user, profile } = useAuth()
   const { t } = useLanguage()
@@ -101,6 +116,7 @@ export function Clients() {
             address: data.address || '',
             client_type: data.client_type,
             notes: data.notes || '',
+            preferred_language: data.preferred_language || 'ar',
           })
         } else {
           setFoundClient(null)
@@ -127,6 +143,7 @@ export function Clients() {
 
   // Client dialog
   const [dialogOpen, setDialogOpen] = useState(false)
+  const [importDialogOpen, setImportDialogOpen] = useState(false)
   const [editingClient, setEditingClient] = useState<Client | null>(null)
   const [form, setForm] = useState({
     name: '',
@@ -136,6 +153,7 @@ export function Clients() {
     address: '',
     client_type: 'Individual',
     notes: '',
+    preferred_language: 'ar',
   })
 
   // Details dialog
@@ -193,6 +211,7 @@ export function Clients() {
         address: client.address || '',
         client_type: client.client_type,
         notes: client.notes || '',
+        preferred_language: client.preferred_language || 'ar',
       })
       setFoundClient(null)
       setClientSearchStatus('idle')
@@ -206,6 +225,7 @@ export function Clients() {
         address: '',
         client_type: 'Individual',
         notes: '',
+        preferred_language: 'ar',
       })
       setFoundClient(null)
       setClientSearchStatus('idle')
@@ -304,6 +324,7 @@ export function Clients() {
         address: form.address ? sanitizeText(form.address) : null,
         client_type: form.client_type,
         notes: form.notes ? sanitizeNotes(form.notes) : null,
+        preferred_language: form.preferred_language,
       }
 
       // Only add created_by for new clients
@@ -588,12 +609,27 @@ export function Clients() {
           <h1 className="text-xl sm:text-2xl md:text-3xl font-bold">إدارة العملاء</h1>
           <p className="text-muted-foreground text-xs sm:text-sm md:text-base mt-1">إدارة عملائك ومعلوماتهم</p>
         </div>
-        {hasPermission('edit_clients') && (
-          <Button onClick={() => openDialog()} className="w-full sm:w-auto">
-            <Plus className="mr-2 h-4 w-4" />
-            إضافة عميل
-          </Button>
-        )}
+        <div className="flex flex-wrap items-center gap-2 w-full sm:w-auto">
+          <ExportButtons
+            permission="client_export"
+            filename="clients"
+            sheetName={{ ar: 'العملاء', fr: 'Clients' }}
+            columns={CLIENT_EXPORT_COLUMNS}
+            rows={filteredClients}
+          />
+          {hasPermission('edit_clients') && (
+            <Button variant="outline" size="sm" onClick={() => setImportDialogOpen(true)}>
+              <Upload className="mr-2 h-4 w-4" />
+              استيراد من ملف
+            </Button>
+          )}
+          {hasPermission('edit_clients') && (
+            <Button onClick={() => openDialog()} className="w-full sm:w-auto">
+              <Plus className="mr-2 h-4 w-4" />
+              إضافة عميل
+            </Button>
+          )}
+        </div>
       </div>
 
       {/* Stats */}
@@ -819,6 +855,13 @@ export function Clients() {
         </>
       )}
 
+      <BulkImportDialog
+        kind="clients"
+        open={importDialogOpen}
+        onOpenChange={setImportDialogOpen}
+        onImported={fetchClients}
+      />
+
       {/* Delete Confirmation Dialog */}
       <ConfirmDialog
         open={deleteConfirmOpen}
@@ -954,6 +997,18 @@ export function Clients() {
                 <option value="Company">شركة</option>
               </select>
             </div>
+            <div className="space-y-1.5 sm:space-y-2">
+              <Label htmlFor="client_preferred_language" className="text-xs sm:text-sm">لغة التذكيرات</Label>
+              <select
+                id="client_preferred_language"
+                value={form.preferred_language}
+                onChange={(e) => setForm({ ...form, preferred_language: e.target.value as DocumentLanguage })}
+                className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                <option value="ar">العربية</option>
+                <option value="fr">الفرنسية</option>
+              </select>
+            </div>
             {errorMessage && (
               <div className="bg-destructive/10 border-2 border-destructive/30 text-destructive p-3 sm:p-4 rounded-lg text-xs sm:text-sm flex items-start gap-2 shadow-md">
                 <AlertCircle className="h-5 w-5 flex-shrink-0 mt-0.5" />
@@ -0,0 +1,415 @@
+import { useEffect, useMemo, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/contexts/AuthContext'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Select } from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { showNotification } from '@/components/ui/notification'
+import { ExportButtons } from '@/components/ExportButtons'
+import { formatCurrency, formatDate } from '@/lib/utils'
+import {
+  COLLECTION_MODE_LABELS,
+  COMPANY_FEE_STATUS_LABELS,
+  getOutstandingFee,
+  groupCompanyFees,
+  type FeeGrouping,
+  type FeeGroupRow,
+} from '@/lib/companyFees'
+import type { ExportColumn } from '@/lib/exportFile'
+import type {
+  CompanyFeeCollection,
+  CompanyFeeCollectionMode,
+  CompanyFeeEntry,
+  CompanyFeeStatus,
+} from '@/types/database'
+
+interface FeeEntryWithDetails extends CompanyFeeEntry {
+  client?: { name: string } | null
+  sale?: { sale_date: string; total_selling_price: number; status: string } | null
+}
+
+type FeeView = 'entries' | FeeGrouping
+
+const VIEWS: Array<{ value: FeeView; label: string }> = [
+  { value: 'entries', label: 'العمولات' },
+  { value: 'batch', label: 'حسب الدفعة' },
+  { value: 'month', label: 'حسب الشهر' },
+  { value: 'worker', label: 'حسب البائع' },
+]
+
+const GROUP_HEADERS: Record<FeeGrouping, string> = {
+  batch: 'الدفعة',
+  month: 'الشهر',
+  worker: 'البائع',
+}
+
+export function CompanyFees() {
+  const { hasPermission } = useAuth()
+  const [entries, setEntries] = useState<FeeEntryWithDetails[]>([])
+  const [collections, setCollections] = useState<CompanyFeeCollection[]>([])
+  const [batchNames, setBatchNames] = useState<Map<string, string>>(new Map())
+  const [userNames, setUserNames] = useState<Map<string, string>>(new Map())
+  const [loading, setLoading] = useState(true)
+  const [updatingId, setUpdatingId] = useState<string | null>(null)
+  const [view, setView] = useState<FeeView>('entries')
+  const [statusFilter, setStatusFilter] = useState<CompanyFeeStatus | 'all' | 'open'>('all')
+  const [dateFrom, setDateFrom] = useState('')
+  const [dateTo, setDateTo] = useState('')
+  const [search, setSearch] = useState('')
+
+  const canEditMode = hasPermission('edit_sales')
+
+  useEffect(() => {
+    fetchData()
+  }, [])
+
+  const fetchData = async () => {
+    try {
+      const [entriesRes, collectionsRes, batchesRes, usersRes] = await Promise.all([
+        supabase
+          .from('company_fee_entries')
+          .select('*, client:clients(name), sale:sales(sale_date, total_selling_price, status)')
+          .order('due_date', { ascending: false })
+          .limit(5000),
+        supabase
+          .from('company_fee_collections')
+          .select('*')
+          .limit(10000),
+        supabase.from('land_batches').select('id, name'),
+        supabase.from('users').select('id, name'),
+      ])
+      if (entriesRes.error) throw entriesRes.error
+      if (collectionsRes.error) throw collectionsRes.error
+      if (batchesRes.error) throw batchesRes.error
+      if (usersRes.error) throw usersRes.error
+
+      setEntries((entriesRes.data || []) as unknown as FeeEntryWithDetails[])
+      setCollections((collectionsRes.data as CompanyFeeCollection[]) || [])
+      setBatchNames(new Map(((batchesRes.data || []) as Array<{ id: string; name: string }>).map(b => [b.id, b.name])))
+      setUserNames(new Map(((usersRes.data || []) as Array<{ id: string; name: string }>).map(u => [u.id, u.name])))
+    } catch (error) {
+      console.error('Error fetching company fees:', error)
+      showNotification('خطأ في تحميل دفتر العمولات: ' + (error as Error).message, 'error')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const inPeriod = (date: string) => (!dateFrom || date >= dateFrom) && (!dateTo || date <= dateTo)
+
+  const filteredEntries = useMemo(() => {
+    const term = search.trim().toLowerCase()
+    return entries.filter(entry => {
+      if (statusFilter === 'open' && (entry.status === 'Collected' || entry.status === 'Cancelled')) return false
+      if (statusFilter !== 'all' && statusFilter !== 'open' && entry.status !== statusFilter) return false
+      if (!inPeriod(entry.due_date)) return false
+      if (term && !entry.client?.name?.toLowerCase().includes(term)) return false
+      return true
+    })
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [entries, statusFilter, dateFrom, dateTo, search])
+
+  // By month, collections are placed by their own date
+  const filteredCollections = useMemo(
+    () => collections.filter(c => inPeriod(c.collected_date)),
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+    [collections, dateFrom, dateTo]
+  )
+
+  const stats = useMemo(() => {
+    const active = filteredEntries.filter(e => e.status !== 'Cancelled')
+    const due = active.reduce((sum, e) => sum + e.fee_amount, 0)
+    const collected = filteredEntries.reduce((sum, e) => sum + e.collected_amount, 0)
+    return {
+      due,
+      collected,
+      outstanding: active.reduce((sum, e) => sum + getOutstandingFee(e), 0),
+      rate: due > 0 ? Math.round((Math.min(collected, due) / due) * 100) : 0,
+      count: active.length,
+    }
+  }, [filteredEntries])
+
+  const labelOf = (grouping: FeeGrouping) => (key: string) => {
+    if (grouping === 'month') return key
+    if (!key) return grouping === 'batch' ? 'بدون دفعة' : 'غير معروف'
+    return (grouping === 'batch' ? batchNames.get(key) : userNames.get(key)) || key
+  }
+
+  const groupRows = useMemo<FeeGroupRow[]>(() => {
+    if (view === 'entries') return []
+    return groupCompanyFees(
+      filteredEntries,
+      view === 'month' ? filteredCollections : collections,
+      view,
+      labelOf(view)
+    )
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [view, filteredEntries, filteredCollections, collections, batchNames, userNames])
+
+  const changeMode = async (entry: FeeEntryWithDetails, mode: CompanyFeeCollectionMode) => {
+    if (mode === entry.collection_mode) return
+    setUpdatingId(entry.id)
+    try {
+      const { data, error } = await supabase.rpc('set_company_fee_collection_mode', {
+        p_entry_id: entry.id,
+        p_mode: mode,
+      })
+      if (error) throw error
+
+      const updated = data as CompanyFeeEntry
+      setEntries(list => list.map(e => (e.id === entry.id ? { ...e, ...updated } : e)))
+      const collectionsRes = await supabase.from('company_fee_collections').select('*').eq('entry_id', entry.id)
+      if (collectionsRes.error) throw collectionsRes.error
+      setCollections(list => [
+        ...list.filter(c => c.entry_id !== entry.id),
+        ...((collectionsRes.data as CompanyFeeCollection[]) || []),
+      ])
+      showNotification('تم تغيير طريقة التحصيل', 'success')
+    } catch (error) {
+      console.error('Error updating collection mode:', error)
+      showNotification('حدث خطأ أثناء تغيير طريقة التحصيل: ' + (error as Error).message, 'error')
+    } finally {
+      setUpdatingId(null)
+    }
+  }
+
+  const entryExportColumns: ExportColumn<FeeEntryWithDetails>[] = [
+    { header: { ar: 'العميل', fr: 'Client' }, value: e => e.client?.name || '' },
+    { header: { ar: 'الدفعة', fr: 'Lot' }, value: e => labelOf('batch')(e.land_batch_id || '') },
+    { header: { ar: 'البائع', fr: 'Vendeur' }, value: e => labelOf('worker')(e.sold_by || '') },
+    { header: { ar: 'تاريخ الاستحقاق', fr: 'Échéance' }, value: e => e.due_date },
+    { header: { ar: 'النسبة', fr: 'Taux' }, value: e => e.fee_percentage ?? '' },
+    { header: { ar: 'العمولة', fr: 'Commission' }, value: e => e.fee_amount },
+    { header: { ar: 'المحصل', fr: 'Encaissé' }, value: e => e.collected_amount },
+    { header: { ar: 'المتبقي', fr: 'Reste' }, value: e => getOutstandingFee(e) },
+    { header: { ar: 'تاريخ التحصيل', fr: 'Encaissée le' }, value: e => e.collected_at || '' },
+    { header: { ar: 'الحالة', fr: 'Statut' }, value: e => COMPANY_FEE_STATUS_LABELS[e.status].label },
+  ]
+
+  const groupExportColumns: ExportColumn<FeeGroupRow>[] = [
+    { header: { ar: view === 'entries' ? '' : GROUP_HEADERS[view], fr: 'Groupe' }, value: r => r.label },
+    { header: { ar: 'العدد', fr: 'Nombre' }, value: r => r.count },
+    { header: { ar: 'المستحق', fr: 'Dû' }, value: r => r.due },
+    { header: { ar: 'المحصل', fr: 'Encaissé' }, value: r => r.collected },
+    { header: { ar: 'المتبقي', fr: 'Reste' }, value: r => r.outstanding },
+  ]
+
+  if (loading) {
+    return (
+      <div className="flex h-64 items-center justify-center">
+        <div className="text-muted-foreground">جاري التحميل...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl sm:text-3xl font-bold">دفتر العمولات</h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          عمولة الشركة لكل بيع مؤكد: تاريخ الاستحقاق، ما تم تحصيله من دفعات العميل والمتبقي
+        </p>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+        <Card className="bg-indigo-50 border-indigo-200">
+          <CardContent className="pt-3 pb-3">
+            <p className="text-xs font-medium text-indigo-700 mb-1">العمولات المستحقة</p>
+            <p className="text-xl font-bold text-indigo-900">{formatCurrency(stats.due)}</p>
+            <p className="text-xs text-indigo-700 mt-0.5">{stats.count} بيع</p>
+          </CardContent>
+        </Card>
+        <Card className="bg-green-50 border-green-200">
+          <CardContent className="pt-3 pb-3">
+            <p className="text-xs font-medium text-green-700 mb-1">المحصل</p>
+            <p className="text-xl font-bold text-green-900">{formatCurrency(stats.collected)}</p>
+          </CardContent>
+        </Card>
+        <Card className="bg-orange-50 border-orange-200">
+          <CardContent className="pt-3 pb-3">
+            <p className="text-xs font-medium text-orange-700 mb-1">المتبقي للتحصيل</p>
+            <p className="text-xl font-bold text-orange-800">{formatCurrency(stats.outstanding)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-3 pb-3">
+            <p className="text-xs font-medium text-muted-foreground mb-1">نسبة التحصيل</p>
+            <p className="text-xl font-bold">{stats.rate}%</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-col sm:flex-row sm:items-end gap-2">
+        <div className="sm:w-64">
+          <Label htmlFor="fee_search">العميل</Label>
+          <Input id="fee_search" placeholder="بحث باسم العميل..." value={search} onChange={(e) => setSearch(e.target.value)} />
+        </div>
+        <div className="sm:w-44">
+          <Label htmlFor="fee_status">الحالة</Label>
+          <Select
+            id="fee_status"
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as CompanyFeeStatus | 'all' | 'open')}
+          >
+            <option value="all">الكل</option>
+            <option value="open">غير محصلة بالكامل</option>
+            {(Object.keys(COMPANY_FEE_STATUS_LABELS) as CompanyFeeStatus[]).map(status => (
+              <option key={status} value={status}>{COMPANY_FEE_STATUS_LABELS[status].label}</option>
+            ))}
+          </Select>
+        </div>
+        <div className="sm:w-40">
+          <Label htmlFor="fee_date_from">من</Label>
+          <Input id="fee_date_from" type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} />
+        </div>
+        <div className="sm:w-40">
+          <Label htmlFor="fee_date_to">إلى</Label>
+          <Input id="fee_date_to" type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} />
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <div className="flex flex-wrap gap-2">
+          {VIEWS.map(item => (
+            <Button
+              key={item.value}
+              size="sm"
+              variant={view === item.value ? 'default' : 'outline'}
+              onClick={() => setView(item.value)}
+            >
+              {item.label}
+            </Button>
+          ))}
+        </div>
+        {view === 'entries' ? (
+          <ExportButtons
+            permission="report_export"
+            filename="company_fees"
+            sheetName={{ ar: 'العمولات', fr: 'Commissions' }}
+            columns={entryExportColumns}
+            rows={filteredEntries}
+          />
+        ) : (
+          <ExportButtons
+            permission="report_export"
+            filename={`company_fees_by_${view}`}
+            sheetName={{ ar: `العمولات ${VIEWS.find(v => v.value === view)?.label}`, fr: 'Commissions' }}
+            columns={groupExportColumns}
+            rows={groupRows}
+          />
+        )}
+      </div>
+
+      {view === 'entries' ? (
+        filteredEntries.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">لا توجد عمولات</p>
+        ) : (
+          <div className="overflow-x-auto rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-gray-100">
+                  <TableHead>العميل</TableHead>
+                  <TableHead>الدفعة / البائع</TableHead>
+                  <TableHead>الاستحقاق</TableHead>
+                  <TableHead>العمولة</TableHead>
+                  <TableHead>المحصل</TableHead>
+                  <TableHead>الحالة</TableHead>
+                  <TableHead>طريقة التحصيل</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredEntries.map(entry => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="text-sm font-medium">{entry.client?.name || '-'}</TableCell>
+                    <TableCell className="text-xs">
+                      <p>{labelOf('batch')(entry.land_batch_id || '')}</p>
+                      <p className="text-muted-foreground">{labelOf('worker')(entry.sold_by || '')}</p>
+                    </TableCell>
+                    <TableCell className="text-xs">{formatDate(entry.due_date)}</TableCell>
+                    <TableCell className="text-sm">
+                      <p>{formatCurrency(entry.fee_amount)}</p>
+                      {entry.fee_percentage !== null && (
+                        <p className="text-xs text-muted-foreground">{entry.fee_percentage}%</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <p className="text-green-700">{formatCurrency(entry.collected_amount)}</p>
+                      {entry.collected_at ? (
+                        <p className="text-xs text-muted-foreground">{formatDate(entry.collected_at)}</p>
+                      ) : getOutstandingFee(entry) > 0 && (
+                        <p className="text-xs text-orange-700">المتبقي: {formatCurrency(getOutstandingFee(entry))}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={COMPANY_FEE_STATUS_LABELS[entry.status].variant}>
+                        {COMPANY_FEE_STATUS_LABELS[entry.status].label}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      {canEditMode && entry.status !== 'Cancelled' ? (
+                        <Select
+                          value={entry.collection_mode}
+                          onChange={(e) => changeMode(entry, e.target.value as CompanyFeeCollectionMode)}
+                          disabled={updatingId === entry.id}
+                          className="h-8 text-xs"
+                          title={COLLECTION_MODE_LABELS[entry.collection_mode].description}
+                        >
+                          {(Object.keys(COLLECTION_MODE_LABELS) as CompanyFeeCollectionMode[]).map(mode => (
+                            <option key={mode} value={mode}>{COLLECTION_MODE_LABELS[mode].label}</option>
+                          ))}
+                        </Select>
+                      ) : COLLECTION_MODE_LABELS[entry.collection_mode].label}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )
+      ) : groupRows.length === 0 ? (
+        <p className="text-center text-muted-foreground py-8">لا توجد عمولات</p>
+      ) : (
+        <div className="overflow-x-auto rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-gray-100">
+                <TableHead>{GROUP_HEADERS[view]}</TableHead>
+                <TableHead>العدد</TableHead>
+                <TableHead>المستحق</TableHead>
+                <TableHead>المحصل</TableHead>
+                <TableHead>{view === 'month' ? 'الفرق' : 'المتبقي'}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {groupRows.map(row => (
+                <TableRow key={row.key || 'none'}>
+                  <TableCell className="text-sm font-medium">{row.label}</TableCell>
+                  <TableCell className="text-sm">{row.count}</TableCell>
+                  <TableCell className="text-sm">{formatCurrency(row.due)}</TableCell>
+                  <TableCell className="text-sm text-green-700">{formatCurrency(row.collected)}</TableCell>
+                  <TableCell className={`text-sm ${row.outstanding > 0 ? 'text-orange-700' : ''}`}>
+                    {formatCurrency(row.outstanding)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  )
+}
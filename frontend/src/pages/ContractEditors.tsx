@@ -26,6 +26,7 @@ import {
 } from '@/components/ui/dialog'
 import { Plus, Edit, Trash2, FileText } from 'lucide-react'
 import { showNotification } from '@/components/ui/notification'
+import { ContractTemplatesManager } from '@/components/ContractTemplatesManager'
 
 export interface ContractEditor {
   id: string
@@ -307,6 +308,9 @@ export function ContractEditors() {
         </CardContent>
       </Card>
 
+      {/* Contract Templates */}
+      <ContractTemplatesManager />
+
       {/* Add/Edit Dialog */}
       <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
         <DialogContent className="sm:max-w-[500px]">
@@ -18,6 +18,8 @@ import { formatCurrency, formatDate } from '@/lib/utils'
 import { Plus, Edit, Trash2, Calendar, User, FileText, AlertCircle, DollarSign } from 'lucide-react'
 import { sanitizeText, sanitizeNotes } from '@/lib/sanitize'
 import { ConfirmDialog } from '@/components/ui/confirm-dialog'
+import { ExportButtons } from '@/components/ExportButtons'
+import type { ExportColumn } from '@/lib/exportFile'
 
 interface Debt {
   id: string
@@ -380,6 +382,18 @@ export function Debts() {
     return Math.ceil((dueDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24))
   }
 
+  const activeDebts = debts.filter(d => d.status === 'Active')
+
+  const debtExportColumns: ExportColumn<Debt>[] = [
+    { header: { ar: 'الدائن', fr: 'Créancier' }, value: d => d.creditor_name },
+    { header: { ar: 'المبلغ', fr: 'Montant' }, value: d => d.amount_owed },
+    { header: { ar: 'المتبقي', fr: 'Reste à payer' }, value: d => getRemainingAmount(d) },
+    { header: { ar: 'تاريخ الاستحقاق', fr: "Date d'échéance" }, value: d => d.due_date },
+    { header: { ar: 'رقم الشيك', fr: 'N° chèque' }, value: d => d.check_number },
+    { header: { ar: 'رقم المرجع', fr: 'Référence' }, value: d => d.reference_number },
+    { header: { ar: 'ملاحظات', fr: 'Notes' }, value: d => d.notes },
+  ]
+
   if (loading) {
     return (
       <div className="flex h-64 items-center justify-center">
@@ -396,10 +410,19 @@ export function Debts() {
           <h1 className="text-2xl sm:text-3xl font-bold">الديون</h1>
           <p className="text-sm text-muted-foreground mt-1">تتبع وإدارة الديون المستحقة</p>
         </div>
-        <Button onClick={() => openDialog()} className="w-full sm:w-auto">
-          <Plus className="h-4 w-4 ml-2" />
-          إضافة دين جديد
-        </Button>
+        <div className="flex flex-wrap items-center gap-2 w-full sm:w-auto">
+          <ExportButtons
+            permission="report_export"
+            filename="debts"
+            sheetName={{ ar: 'الديون', fr: 'Dettes' }}
+            columns={debtExportColumns}
+            rows={activeDebts}
+          />
+          <Button onClick={() => openDialog()} className="w-full sm:w-auto">
+            <Plus className="h-4 w-4 ml-2" />
+            إضافة دين جديد
+          </Button>
+        </div>
       </div>
 
       {/* Daily Payment Summary - Simplified */}
@@ -446,7 +469,7 @@ export function Debts() {
 
       {/* Debts List - Compact */}
       <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-3">
-        {debts.filter(d => d.status === 'Active').map((debt) => {
+        {activeDebts.map((debt) => {
           const dailyPayment = calculateDailyPayment(debt)
           const daysRemaining = getDaysRemaining(debt)
           const progress = calculateProgress(debt)
@@ -588,7 +611,7 @@ export function Debts() {
         })}
       </div>
 
-      {debts.filter(d => d.status === 'Active').length === 0 && (
+      {activeDebts.length === 0 && (
         <Card>
           <CardContent className="py-12 text-center">
             <p className="text-muted-foreground">لا توجد ديون مسجلة</p>
@@ -28,6 +28,8 @@ import { retryWithBackoff } from '@/lib/retry'
 import { Plus, Edit, Trash2, CheckCircle, XCircle, Filter, ChevronDown, ChevronUp, User, Repeat } from 'lucide-react'
 import type { Expense, ExpenseCategory, LandBatch, Sale, PaymentMethod } from '@/types/database'
 import { RecurringExpensesManager } from '@/components/RecurringExpensesManager'
+import { ExportButtons } from '@/components/ExportButtons'
+import type { ExportColumn } from '@/lib/exportFile'
 
 interface ExpenseWithUser extends Expense {
   submitted_by_user?: { id: string; name: string; email?: string }
@@ -350,6 +352,17 @@ export function Expenses() {
     })
   }, [expenses, categories, filterStatus, filterCategory, filterPaymentMethod, dateRangeStart, dateRangeEnd, amountMin, amountMax, searchTerm, dateFilter])
 
+  const expenseExportColumns = useMemo<ExportColumn<ExpenseWithUser>[]>(() => [
+    { header: { ar: 'التاريخ', fr: 'Date' }, value: e => e.expense_date },
+    { header: { ar: 'الفئة', fr: 'Catégorie' }, value: e => categories.find(c => c.id === e.category)?.name || e.category },
+    { header: { ar: 'الوصف', fr: 'Description' }, value: e => e.description },
+    { header: { ar: 'المبلغ', fr: 'Montant' }, value: e => e.amount },
+    { header: { ar: 'طريقة الدفع', fr: 'Mode de paiement' }, value: e => e.payment_method },
+    { header: { ar: 'الحالة', fr: 'Statut' }, value: e => e.status },
+    { header: { ar: 'المستخدم', fr: 'Utilisateur' }, value: e => e.submitted_by_user?.name },
+    { header: { ar: 'ملاحظات', fr: 'Notes' }, value: e => e.notes },
+  ], [categories])
+
   // Group expenses by user
   const expensesByUser = useMemo(() => {
     const userGroups = new Map<string, ExpensesByUser>()
@@ -397,12 +410,23 @@ export function Expenses() {
           <h1 className="text-2xl sm:text-3xl font-bold">المصاريف</h1>
           <p className="text-muted-foreground text-sm sm:text-base">إدارة وتتبع مصاريف الشركة</p>
         </div>
-        {canEditExpenses && activeTab === 'expenses' && (
-          <Button onClick={() => openExpenseDialog()} size="lg">
-            <Plus className="ml-2 h-4 w-4" />
-            إضافة مصروف جديد
-          </Button>
-        )}
+        <div className="flex flex-wrap items-center gap-2">
+          {activeTab === 'expenses' && (
+            <ExportButtons
+              permission="expense_export"
+              filename="expenses"
+              sheetName={{ ar: 'المصاريف', fr: 'Dépenses' }}
+              columns={expenseExportColumns}
+              rows={filteredExpenses}
+            />
+          )}
+          {canEditExpenses && activeTab === 'expenses' && (
+            <Button onClick={() => openExpenseDialog()} size="lg">
+              <Plus className="ml-2 h-4 w-4" />
+              إضافة مصروف جديد
+            </Button>
+          )}
+        </div>
       </div>
 
       {/* Tabs */}
@@ -1,4 +1,5 @@
 import React, { useEffect, useState, useMemo } from 'react'
+import { useNavigate } from 'react-router-dom'
 import { supabase } from '@/lib/supabase'
 import { useAuth } from '@/contexts/AuthContext'
 import { useLanguage } from '@/contexts/LanguageContext'
@@ -22,8 +23,12 @@ import {
 } from '@/components/ui/dialog'
 import { formatCurrency, formatDate } from '@/lib/utils'
 import { retryWithBackoff, isRetryableError } from '@/lib/retry'
-import { DollarSign, CreditCard, TrendingUp, X, ChevronDown, ChevronUp, Calendar, AlertTriangle, CheckCircle, RefreshCw } from 'lucide-react'
-import type { Sale, Client, Payment, LandPiece, LandBatch } from '@/types/database'
+import { PaymentReceiptDialog } from '@/components/PaymentReceiptDialog'
+import { ExportButtons } from '@/components/ExportButtons'
+import { PAYMENT_RECORD_TYPE_LABELS } from '@/lib/paymentReceipts'
+import type { ExportColumn } from '@/lib/exportFile'
+import { DollarSign, CreditCard, TrendingUp, X, ChevronDown, ChevronUp, Calendar, AlertTriangle, CheckCircle, RefreshCw, Printer, Landmark, BookOpen } from 'lucide-react'
+import type { Sale, Client, Payment, LandPiece, LandBatch, CompanyFeeEntry, CompanyFeeCollection } from '@/types/database'
 
 interface SaleWithClient extends Sale {
   client?: Client
@@ -102,11 +107,15 @@ type PaymentTypeFilter = 'Installment' | 'SmallAdvance' | 'Full' | 'BigAdvance'
 
 export function Financial() {
   const { hasPermission } = useAuth()
-  const { t } = useLanguage()
+  const navigate = useNavigate()
+  const { t, language } = useLanguage()
   const [sales, setSales] = useState<SaleWithClient[]>([])
   const [payments, setPayments] = useState<PaymentWithDetails[]>([])
   const [landPieces, setLandPieces] = useState<Array<LandPiece & { land_batch?: LandBatch }>>([])
   const [installments, setInstallments] = useState<Array<any & { sale?: SaleWithClient }>>([])
+  // Company fee ledger (add_company_fee_ledger.sql): fee due per confirmed sale and its collections
+  const [feeEntries, setFeeEntries] = useState<CompanyFeeEntry[]>([])
+  const [feeCollections, setFeeCollections] = useState<CompanyFeeCollection[]>([])
   const [loading, setLoading] = useState(true)
   
   // Installment dialogs
@@ -123,6 +132,7 @@ export function Financial() {
   const [selectedGroupForDetails, setSelectedGroupForDetails] = useState<PaymentByLand | null>(null)
   const [selectedGroupPaymentType, setSelectedGroupPaymentType] = useState<PaymentTypeFilter | null>(null)
   const [groupDetailsDialogOpen, setGroupDetailsDialogOpen] = useState(false)
+  const [receiptPaymentId, setReceiptPaymentId] = useState<string | null>(null)
 
   useEffect(() => {
     if (!hasPermission('view_financial')) return
@@ -133,7 +143,7 @@ export function Financial() {
     setLoading(true)
     
     try {
-      const [salesRes, paymentsRes, piecesRes, installmentsRes] = await retryWithBackoff(
+      const [salesRes, paymentsRes, piecesRes, installmentsRes, feeEntriesRes, feeCollectionsRes] = await retryWithBackoff(
         async () => {
           return await Promise.all([
         supabase
@@ -152,6 +162,12 @@ export function Financial() {
           .from('installments')
           .select('*, sale:sales(*, client:clients(*))')
           .order('due_date', { ascending: true }),
+        supabase
+          .from('company_fee_entries')
+          .select('*'),
+        supabase
+          .from('company_fee_collections')
+          .select('*'),
       ])
         },
         {
@@ -175,6 +191,12 @@ export function Financial() {
       if (installmentsRes.error) {
         console.error('Error fetching installments:', installmentsRes.error)
       }
+      if (feeEntriesRes.error) {
+        console.error('Error fetching company fee entries:', feeEntriesRes.error)
+      }
+      if (feeCollectionsRes.error) {
+        console.error('Error fetching company fee collections:', feeCollectionsRes.error)
+      }
 
       const salesData = (salesRes.data as SaleWithClient[]) || []
       const paymentsData = (paymentsRes.data as PaymentWithDetails[]) || []
@@ -216,6 +238,8 @@ export function Financial() {
       setPayments(paymentsData)
       setLandPieces(allPieces)
       setInstallments((installmentsRes.data as any[]) || [])
+      setFeeEntries((feeEntriesRes.data as CompanyFeeEntry[]) || [])
+      setFeeCollections((feeCollectionsRes.data as CompanyFeeCollection[]) || [])
     } catch (error) {
       const err = error as Error
       console.error('Financial fetch error:', err)
@@ -228,6 +252,10 @@ export function Financial() {
     }
   }
 
+  // Fee of a sale as recorded in the company fee ledger
+  const feeEntryBySale = useMemo(() => new Map(feeEntries.map(entry => [entry.sale_id, entry])), [feeEntries])
+  const getSaleFee = (sale: Pick<Sale, 'id'>) => feeEntryBySale.get(sale.id)?.fee_amount || 0
+
   // Filter data by date
   const getDateRange = (filter: DateFilter): { start: Date; end: Date | null } => {
     const now = new Date()
@@ -423,31 +451,18 @@ export function Financial() {
       bigAdvanceTotal + 
       totalPromiseOfSalePayments
 
-    // Calculate company fees from sales
-    // NOTE: Commission is counted for CONFIRMED sales (either Completed status OR has been confirmed)
-    // Commission is collected at confirmation time, not at reservation
-    // IMPORTANT: Always preserve Completed sales - they should always be included
-    // Exclude reset sales (status = 'Pending', big_advance_amount = 0, company_fee_amount = null)
-    const companyFeesTotal = filteredSales
-      .filter(s => {
-        // Always include Completed sales - preserve their commission stats
-        if (s.status === 'Completed') return true
-        
-        if (s.status === 'Cancelled') return false
-        
-        // Exclude reset sales - these are sales that were reset back to confirmation page
-        // This only applies to Pending sales that were reset, NOT completed sales
-        if (s.status === 'Pending' && 
-            s.big_advance_amount === 0 && 
-            !s.company_fee_amount) {
-          return false // Exclude reset sales
-        }
-        
-        // Include if:
-        // Has company_fee_amount > 0 (means it was confirmed and commission was set)
-        return (s.company_fee_amount && s.company_fee_amount > 0)
-      })
-      .reduce((sum, s) => sum + (s.company_fee_amount || 0), 0)
+    // Company fees come from the fee ledger: counted in the period they fall due
+    // (the sale's confirmation), cancelled sales excluded. The fee is collected
+    // out of the payments above, so it is never added to the cash received.
+    const companyFeeSales = sales.filter(s => {
+      const entry = feeEntryBySale.get(s.id)
+      return !!entry && entry.status !== 'Cancelled' && isDateInRange(entry.due_date, startDate, endDate)
+    })
+    const companyFeesTotal = companyFeeSales.reduce((sum, s) => sum + getSaleFee(s), 0)
+    const feeEntryIds = new Set(feeEntries.map(entry => entry.id))
+    const companyFeesCollected = feeCollections
+      .filter(c => feeEntryIds.has(c.entry_id) && isDateInRange(c.collected_date, startDate, endDate))
+      .reduce((sum, c) => sum + c.amount, 0)
 
     // Group payments by client and date
     const groupPayments = (paymentList: PaymentWithDetails[]): GroupedPayment[] => {
@@ -491,28 +506,7 @@ export function Financial() {
     const groupedInitialPayments = groupPayments(initialPaymentsList)
 
     // Group company fees by client and date
-    // NOTE: Commission is counted for CONFIRMED sales (either Completed status OR has been confirmed)
-    // IMPORTANT: Always preserve Completed sales - they should always be included
-    // Exclude reset sales
     const groupCompanyFees = (): GroupedCompanyFee[] => {
-      const companyFeeSales = filteredSales
-        .filter(s => {
-          // Always include Completed sales - preserve their commission stats
-          if (s.status === 'Completed' && s.company_fee_amount && s.company_fee_amount > 0) return true
-          
-          if (s.status === 'Cancelled') return false
-          if (!s.company_fee_amount || s.company_fee_amount <= 0) return false
-          
-          // Exclude reset sales (only Pending sales that were reset)
-          if (s.status === 'Pending' && 
-              s.big_advance_amount === 0 && 
-              !s.company_fee_amount) {
-            return false
-          }
-          
-          return true
-        })
-      
       const groups = new Map<string, GroupedCompanyFee>()
       
       companyFeeSales.forEach(sale => {
@@ -539,7 +533,7 @@ export function Financial() {
         }
         
         const group = groups.get(key)!
-        group.totalAmount += sale.company_fee_amount || 0
+        group.totalAmount += getSaleFee(sale)
         group.sales.push(sale)
       })
       
@@ -551,28 +545,7 @@ export function Financial() {
     const groupedCompanyFees = groupCompanyFees()
 
     // Group company fees by land batch for table display
-    // NOTE: Commission is counted for CONFIRMED sales (either Completed status OR has been confirmed)
-    // IMPORTANT: Always preserve Completed sales - they should always be included
-    // Exclude reset sales
     const groupCompanyFeesByLand = (): CompanyFeeByLand[] => {
-      const companyFeeSales = filteredSales
-        .filter(s => {
-          // Always include Completed sales - preserve their commission stats
-          if (s.status === 'Completed' && s.company_fee_amount && s.company_fee_amount > 0) return true
-          
-          if (s.status === 'Cancelled') return false
-          if (!s.company_fee_amount || s.company_fee_amount <= 0) return false
-          
-          // Exclude reset sales (only Pending sales that were reset)
-          if (s.status === 'Pending' && 
-              s.big_advance_amount === 0 && 
-              !s.company_fee_amount) {
-            return false
-          }
-          
-          return true
-        })
-      
       const landGroups = new Map<string, CompanyFeeByLand>()
       
       companyFeeSales.forEach(sale => {
@@ -596,7 +569,7 @@ export function Financial() {
         }
         
         const group = landGroups.get(key)!
-        group.totalAmount += sale.company_fee_amount || 0
+        group.totalAmount += getSaleFee(sale)
         group.salesCount++
         group.piecesCount += pieceIds.length
         group.sales.push(sale)
@@ -610,6 +583,8 @@ export function Financial() {
     return {
       sales: filteredSales,
       payments: filteredPayments,
+      // Payments counted on this page (cancelled and reset sales excluded)
+      paymentsWithPieces,
       cashReceived,
       // Payment lists by type
       installmentPaymentsList,
@@ -633,11 +608,32 @@ export function Financial() {
       promiseOfSalePaymentsTotal: totalPromiseOfSalePayments,
       initialPaymentsTotal,
       companyFeesTotal,
+      companyFeesCollected,
       // Grouped company fees
+      companyFeeSales,
       groupedCompanyFees,
       companyFeesByLand,
     }
-  }, [sales, payments, landPieces, dateFilter, selectedDate])
+  }, [sales, payments, landPieces, feeEntries, feeCollections, feeEntryBySale, dateFilter, selectedDate])
+
+  const paymentExportColumns = useMemo<ExportColumn<PaymentWithDetails>[]>(() => [
+    { header: { ar: 'التاريخ', fr: 'Date' }, value: p => p.payment_date },
+    { header: { ar: 'النوع', fr: 'Type' }, value: p => PAYMENT_RECORD_TYPE_LABELS[p.payment_type]?.[language] || p.payment_type },
+    { header: { ar: 'العميل', fr: 'Client' }, value: p => p.client?.name },
+    { header: { ar: 'رقم CIN', fr: 'CIN' }, value: p => p.client?.cin },
+    {
+      header: { ar: 'القطع', fr: 'Lots' },
+      value: p => (p.land_pieces || []).map(piece => `${piece.land_batch?.name || ''} #${piece.piece_number}`).join(', '),
+    },
+    { header: { ar: 'المبلغ', fr: 'Montant' }, value: p => p.amount_paid },
+    { header: { ar: 'طريقة الدفع', fr: 'Mode de paiement' }, value: p => p.payment_method },
+    { header: { ar: 'سجل بواسطة', fr: 'Enregistré par' }, value: p => p.recorded_by_user?.name },
+  ], [language])
+
+  const paymentsForExport = useMemo(
+    () => [...filteredData.paymentsWithPieces].sort((a, b) => a.payment_date.localeCompare(b.payment_date)),
+    [filteredData]
+  )
 
   // Get small advance (reservation) from sales table grouped by land
   // IMPORTANT: Show small advance (العربون) for ALL sales, not just confirmed ones
@@ -1616,12 +1612,6 @@ export function Financial() {
           }
         }
         
-        // Add company fee - from sales table (only for confirmed sales)
-        if (isConfirmed && (sale.company_fee_amount || 0) > 0) {
-          const amountForBatch = (sale.company_fee_amount || 0) * ratio
-          addToPlace(place, amountForBatch, 'companyFee')
-        }
-        
         // For Full payment type, only if sale is confirmed/completed
         // IMPORTANT: Exclude reset sales (status = 'Pending', big_advance_amount = 0, company_fee_amount = null, small_advance_amount = 0)
         if (isConfirmed && sale.payment_type === 'Full' && !hasFullPayment) {
@@ -1647,6 +1637,19 @@ export function Financial() {
         }
       })
     })
+
+    // Company fees from the fee ledger, spread over the batches by piece count
+    filteredData.companyFeeSales.forEach(sale => {
+      const pieceIds = sale.land_piece_ids || []
+      const pieces = landPieces.filter(p => pieceIds.includes(p.id))
+      if (pieces.length === 0) {
+        addToPlace(null, getSaleFee(sale), 'companyFee')
+        return
+      }
+      pieces.forEach(piece => {
+        addToPlace(piece.land_batch?.name || null, getSaleFee(sale) / pieces.length, 'companyFee')
+      })
+    })
     
     // Also process payments from payment records (for confirmed sales with payment records)
     // Use filtered payments to match the main tables
@@ -1758,9 +1761,10 @@ export function Financial() {
     })
 
     // Calculate total for each place AFTER all amounts are added
+    // The company fee is collected out of these payments, so it is not added again
     placeTotals.forEach((placeData) => {
       placeData.total = placeData.installment + placeData.smallAdvance + placeData.full + 
-                       placeData.bigAdvance + placeData.promiseOfSale + placeData.companyFee
+                       placeData.bigAdvance + placeData.promiseOfSale
     })
 
     // Return all places, sorted by total (descending), then by name for places with same total
@@ -1860,10 +1864,21 @@ export function Financial() {
                             return (
                               <div key={payIdx} className="text-xs text-gray-600 flex items-center justify-between">
                                 <span>{formatCurrency(payment.amount_paid)} - {formatDate(payment.payment_date)}</span>
-                                <span className="text-xs text-muted-foreground">
+                                <span className="text-xs text-muted-foreground flex items-center gap-1">
                                   {recordedBy !== '-' && `سجل: ${recordedBy}`}
                                   {soldBy !== '-' && recordedBy !== '-' && ' • '}
                                   {soldBy !== '-' && `باع: ${soldBy}`}
+                                  {/* Virtual payments (advance from the sale row) have no receipt */}
+                                  {!payment.id.startsWith('virtual-') && (
+                                    <button
+                                      type="button"
+                                      onClick={() => setReceiptPaymentId(payment.id)}
+                                      className="p-0.5 rounded hover:bg-gray-200"
+                                      title="طباعة الوصل"
+                                    >
+                                      <Printer className="h-3 w-3" />
+                                    </button>
+                                  )}
                                 </span>
                               </div>
                             )
@@ -1931,6 +1946,29 @@ export function Financial() {
       {/* Header */}
       <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 sm:gap-4">
         <h1 className="text-xl sm:text-2xl md:text-3xl font-bold">المالية</h1>
+        <div className="flex flex-wrap items-center gap-2">
+          {/* Whether bank transfers actually reached the account */}
+          <Button variant="outline" size="sm" onClick={() => navigate('/bank-reconciliation')}>
+            <Landmark className="h-4 w-4" />
+            المطابقة البنكية
+          </Button>
+          {/* Trial balance, P&L and balance sheet from the journal */}
+          <Button variant="outline" size="sm" onClick={() => navigate('/general-ledger')}>
+            <BookOpen className="h-4 w-4" />
+            المحاسبة العامة
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => navigate('/cash-flow-forecast')}>
+            <TrendingUp className="h-4 w-4" />
+            توقعات السيولة
+          </Button>
+          <ExportButtons
+            permission="report_export"
+            filename="payments"
+            sheetName={{ ar: 'المدفوعات', fr: 'Paiements' }}
+            columns={paymentExportColumns}
+            rows={paymentsForExport}
+          />
+        </div>
       </div>
 
       {/* Installment Statistics - 3 Boxes */}
@@ -1998,26 +2036,26 @@ export function Financial() {
         
         // Total remaining installments (using filtered installments)
         const totalRemaining = validInstallments.reduce((sum, inst) => {
-          const remaining = (inst.amount_due + inst.stacked_amount) - inst.amount_paid
+          const remaining = (inst.amount_due + inst.stacked_amount) - inst.amount_paid - (inst.written_off_amount || 0)
           return sum + Math.max(0, remaining)
         }, 0)
         
         // Unpaid this month (clients who didn't pay)
         const unpaidThisMonth = thisMonthInstallments.filter(inst => {
-          const remaining = (inst.amount_due + inst.stacked_amount) - inst.amount_paid
+          const remaining = (inst.amount_due + inst.stacked_amount) - inst.amount_paid - (inst.written_off_amount || 0)
           return remaining > 0.01
         })
         const uniqueUnpaidClients = new Set(unpaidThisMonth.map(inst => inst.sale?.client?.id).filter(Boolean))
         
         // Unpaid amount this month
         const unpaidAmountThisMonth = unpaidThisMonth.reduce((sum, inst) => {
-          const remaining = (inst.amount_due + inst.stacked_amount) - inst.amount_paid
+          const remaining = (inst.amount_due + inst.stacked_amount) - inst.amount_paid - (inst.written_off_amount || 0)
           return sum + Math.max(0, remaining)
         }, 0)
         
         // Paid this month
         const paidThisMonth = thisMonthInstallments.filter(inst => {
-          const remaining = (inst.amount_due + inst.stacked_amount) - inst.amount_paid
+          const remaining = (inst.amount_due + inst.stacked_amount) - inst.amount_paid - (inst.written_off_amount || 0)
           return remaining <= 0.01
         })
         const uniquePaidClients = new Set(paidThisMonth.map(inst => inst.sale?.client?.id).filter(Boolean))
@@ -2753,8 +2791,7 @@ export function Financial() {
                             filteredData.fullPaymentsTotal + 
                             filteredData.bigAdvanceTotal + 
                             filteredData.smallAdvanceTotal + // SmallAdvance is separate from BigAdvance
-                            filteredData.promiseOfSalePaymentsTotal + 
-                            filteredData.companyFeesTotal
+                            filteredData.promiseOfSalePaymentsTotal
                           )
                         )
                       })()}
@@ -3110,7 +3147,7 @@ export function Financial() {
               <div className="flex items-center justify-between">
                 <div>
                   <h3 className="font-bold text-base text-gray-900">الإجمالي</h3>
-                  <p className="text-xs text-gray-600 mt-1">جميع المدفوعات والعمولات</p>
+                  <p className="text-xs text-gray-600 mt-1">جميع المدفوعات (العمولة محصلة منها)</p>
                 </div>
                 <div className="flex items-center gap-2">
                   <span className="text-xl font-bold text-green-700">
@@ -3123,8 +3160,7 @@ export function Financial() {
                           filteredData.fullPaymentsTotal + 
                           filteredData.bigAdvanceTotal + 
                           filteredData.smallAdvanceTotal + 
-                          filteredData.promiseOfSalePaymentsTotal + 
-                          filteredData.companyFeesTotal
+                          filteredData.promiseOfSalePaymentsTotal
                         )
                       )
                     })()}
@@ -3550,15 +3586,22 @@ export function Financial() {
             {/* Summary Card */}
             {filteredData.groupedCompanyFees.length > 0 && (
                           <Card className="bg-gradient-to-r from-indigo-50 to-purple-50 border-indigo-200">
-                <CardHeader className="p-4 sm:p-6">
+                <CardHeader className="p-4 sm:p-6 flex flex-row items-center justify-between gap-2">
                   <CardTitle className="text-base sm:text-lg">الملخص</CardTitle>
+                  <Button variant="outline" size="sm" onClick={() => navigate('/company-fees')}>
+                    دفتر العمولات (المحصل والمتبقي)
+                  </Button>
                 </CardHeader>
                 <CardContent className="p-4 sm:p-6 pt-0">
-                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 sm:gap-4">
+                  <div className="grid grid-cols-2 sm:grid-cols-5 gap-3 sm:gap-4">
                     <div className="bg-white p-3 rounded-lg">
                       <p className="text-xs sm:text-sm text-muted-foreground mb-1">إجمالي العمولة</p>
                       <p className="text-lg sm:text-xl font-bold text-indigo-600">{formatCurrency(filteredData.companyFeesTotal)}</p>
                     </div>
+                    <div className="bg-white p-3 rounded-lg">
+                      <p className="text-xs sm:text-sm text-muted-foreground mb-1">المحصل من الدفعات</p>
+                      <p className="text-lg sm:text-xl font-bold text-green-600">{formatCurrency(filteredData.companyFeesCollected)}</p>
+                    </div>
                     <div className="bg-white p-3 rounded-lg">
                       <p className="text-xs sm:text-sm text-muted-foreground mb-1">عدد المبيعات</p>
                       <p className="text-lg sm:text-xl font-bold text-blue-600">{filteredData.groupedCompanyFees.reduce((sum, g) => sum + g.sales.length, 0)}</p>
@@ -3600,7 +3643,7 @@ export function Financial() {
                     })
                   }
                   const group = landGroups.get(key)!
-                  group.totalAmount += sale.company_fee_amount || 0
+                  group.totalAmount += getSaleFee(sale)
                   group.salesCount += 1
                   group.piecesCount += pieceIds.length
                   group.sales.push(sale)
@@ -3623,7 +3666,7 @@ export function Financial() {
                     }
                     const group = landGroups.get(key)!
                     // Distribute company fee per piece
-                    const feePerPiece = (sale.company_fee_amount || 0) / pieceIds.length
+                    const feePerPiece = getSaleFee(sale) / pieceIds.length
                     group.totalAmount += feePerPiece
                     group.piecesCount += 1
                     if (!group.sales.find(s => s.id === sale.id)) {
@@ -3694,7 +3737,7 @@ export function Financial() {
                             const batchName = pieces[0]?.land_batch?.name || 'غير محدد'
                             const location = pieces[0]?.land_batch?.location || null
                             const client = sale.client as any
-                            const feePerPiece = (sale.company_fee_amount || 0) / pieceIds.length
+                            const feePerPiece = getSaleFee(sale) / pieceIds.length
                             const feeForThisBatch = pieces.length * feePerPiece
                             const salePriceForThisBatch = (sale.total_selling_price / pieceIds.length) * pieces.length
                             
@@ -3800,7 +3843,7 @@ export function Financial() {
                                 const batchName = pieces[0]?.land_batch?.name || 'غير محدد'
                                 const location = pieces[0]?.land_batch?.location || null
                                 const client = sale.client as any
-                                const feePerPiece = (sale.company_fee_amount || 0) / pieceIds.length
+                                const feePerPiece = getSaleFee(sale) / pieceIds.length
                                 const feeForThisBatch = pieces.length * feePerPiece
                                 
                                 return (
@@ -3927,7 +3970,7 @@ export function Financial() {
               })
             } else if (selectedInstallmentView === 'total') {
               displayInstallments = validInstallments.filter(inst => {
-                const remaining = (inst.amount_due + inst.stacked_amount) - inst.amount_paid
+                const remaining = (inst.amount_due + inst.stacked_amount) - inst.amount_paid - (inst.written_off_amount || 0)
                 return remaining > 0.01
               })
             } else if (selectedInstallmentView === 'unpaid') {
@@ -3936,7 +3979,7 @@ export function Financial() {
                 return dueDate >= monthStart && dueDate <= monthEnd
               })
               displayInstallments = thisMonthInsts.filter(inst => {
-                const remaining = (inst.amount_due + inst.stacked_amount) - inst.amount_paid
+                const remaining = (inst.amount_due + inst.stacked_amount) - inst.amount_paid - (inst.written_off_amount || 0)
                 return remaining > 0.01
               })
             } else if (selectedInstallmentView === 'paid') {
@@ -3945,7 +3988,7 @@ export function Financial() {
                 return dueDate >= monthStart && dueDate <= monthEnd
               })
               displayInstallments = thisMonthInsts.filter(inst => {
-                const remaining = (inst.amount_due + inst.stacked_amount) - inst.amount_paid
+                const remaining = (inst.amount_due + inst.stacked_amount) - inst.amount_paid - (inst.written_off_amount || 0)
                 return remaining <= 0.01
               })
             }
@@ -3974,7 +4017,7 @@ export function Financial() {
               }
               
               const group = groupedByClient.get(clientId)!
-              const remaining = (inst.amount_due + inst.stacked_amount) - inst.amount_paid
+              const remaining = (inst.amount_due + inst.stacked_amount) - inst.amount_paid - (inst.written_off_amount || 0)
               
               group.installments.push(inst)
               group.totalDue += inst.amount_due + inst.stacked_amount
@@ -3986,7 +4029,7 @@ export function Financial() {
               const dueDate = new Date(inst.due_date)
               return dueDate >= monthStart && dueDate <= monthEnd
             }).filter(inst => {
-              const remaining = (inst.amount_due + inst.stacked_amount) - inst.amount_paid
+              const remaining = (inst.amount_due + inst.stacked_amount) - inst.amount_paid - (inst.written_off_amount || 0)
               return remaining <= 0.01
             })
             
@@ -4083,7 +4126,7 @@ export function Financial() {
                         <CardContent>
                           <div className="space-y-2">
                             {group.installments.map((inst) => {
-                              const remaining = (inst.amount_due + inst.stacked_amount) - inst.amount_paid
+                              const remaining = (inst.amount_due + inst.stacked_amount) - inst.amount_paid - (inst.written_off_amount || 0)
                               return (
                                 <div key={inst.id} className="flex items-center justify-between p-2 bg-gray-50 rounded">
                                   <div>
@@ -4288,6 +4331,12 @@ export function Financial() {
           )}
         </DialogContent>
       </Dialog>
+
+      <PaymentReceiptDialog
+        open={receiptPaymentId !== null}
+        onOpenChange={(open) => { if (!open) setReceiptPaymentId(null) }}
+        paymentIds={receiptPaymentId ? [receiptPaymentId] : []}
+      />
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,685 @@
+import { useEffect, useMemo, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/contexts/AuthContext'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Select } from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { ConfirmDialog } from '@/components/ui/confirm-dialog'
+import { showNotification } from '@/components/ui/notification'
+import { ExportButtons } from '@/components/ExportButtons'
+import { formatCurrency, formatDate } from '@/lib/utils'
+import { sanitizeText } from '@/lib/sanitize'
+import { toDateString } from '@/lib/installmentSchedule'
+import {
+  GL_ACCOUNT_TYPE_LABELS,
+  JOURNAL_SOURCE_LABELS,
+  buildBalanceSheet,
+  buildProfitAndLoss,
+  buildTrialBalance,
+  getManualEntryTotals,
+  validateManualEntry,
+  type ManualJournalLine,
+  type StatementLine,
+  type TrialBalanceLine,
+} from '@/lib/generalLedger'
+import type { ExportColumn } from '@/lib/exportFile'
+import { Plus, Trash2, Undo2 } from 'lucide-react'
+import type { GlAccount, JournalEntry, JournalSourceType, TrialBalanceRow } from '@/types/database'
+
+type LedgerView = 'trial' | 'pnl' | 'balance' | 'journal'
+
+const VIEWS: Array<{ value: LedgerView; label: string }> = [
+  { value: 'trial', label: 'ميزان المراجعة' },
+  { value: 'pnl', label: 'حساب النتيجة' },
+  { value: 'balance', label: 'الميزانية' },
+  { value: 'journal', label: 'دفتر اليومية' },
+]
+
+// Entries shown in the journal view; the reports always use the whole period
+const JOURNAL_LIMIT = 500
+
+const emptyLine = (): ManualJournalLine => ({ account_code: '', debit: 0, credit: 0, memo: '' })
+
+const trialExportColumns: ExportColumn<TrialBalanceLine>[] = [
+  { header: { ar: 'الحساب', fr: 'Compte' }, value: r => r.account_code },
+  { header: { ar: 'الاسم', fr: 'Intitulé' }, value: r => r.name_ar },
+  { header: { ar: 'مدين افتتاحي', fr: 'Débit ouverture' }, value: r => r.opening_debit },
+  { header: { ar: 'دائن افتتاحي', fr: 'Crédit ouverture' }, value: r => r.opening_credit },
+  { header: { ar: 'حركة مدينة', fr: 'Mouvements débit' }, value: r => r.period_debit },
+  { header: { ar: 'حركة دائنة', fr: 'Mouvements crédit' }, value: r => r.period_credit },
+  { header: { ar: 'رصيد مدين', fr: 'Solde débiteur' }, value: r => r.closing_debit },
+  { header: { ar: 'رصيد دائن', fr: 'Solde créditeur' }, value: r => r.closing_credit },
+]
+
+interface JournalExportRow {
+  entry_number: number
+  entry_date: string
+  description: string
+  source: string
+  account_code: string
+  account_name: string
+  debit: number
+  credit: number
+  memo: string
+}
+
+const journalExportColumns: ExportColumn<JournalExportRow>[] = [
+  { header: { ar: 'رقم القيد', fr: 'N° écriture' }, value: r => r.entry_number },
+  { header: { ar: 'التاريخ', fr: 'Date' }, value: r => r.entry_date },
+  { header: { ar: 'البيان', fr: 'Libellé' }, value: r => r.description },
+  { header: { ar: 'المصدر', fr: 'Source' }, value: r => r.source },
+  { header: { ar: 'الحساب', fr: 'Compte' }, value: r => r.account_code },
+  { header: { ar: 'اسم الحساب', fr: 'Intitulé' }, value: r => r.account_name },
+  { header: { ar: 'مدين', fr: 'Débit' }, value: r => r.debit },
+  { header: { ar: 'دائن', fr: 'Crédit' }, value: r => r.credit },
+  { header: { ar: 'ملاحظة', fr: 'Mémo' }, value: r => r.memo },
+]
+
+export function GeneralLedger() {
+  const { profile } = useAuth()
+  const [accounts, setAccounts] = useState<GlAccount[]>([])
+  const [rows, setRows] = useState<TrialBalanceRow[]>([])
+  const [entries, setEntries] = useState<JournalEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [reportLoading, setReportLoading] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+  const [view, setView] = useState<LedgerView>('trial')
+  const [dateFrom, setDateFrom] = useState(() => `${new Date().getFullYear()}-01-01`)
+  const [dateTo, setDateTo] = useState(() => toDateString(new Date()))
+  const [sourceFilter, setSourceFilter] = useState<JournalSourceType | 'all'>('all')
+  const [accountFilter, setAccountFilter] = useState('all')
+
+  const [manualOpen, setManualOpen] = useState(false)
+  const [manualDate, setManualDate] = useState(() => toDateString(new Date()))
+  const [manualDescription, setManualDescription] = useState('')
+  const [manualLines, setManualLines] = useState<ManualJournalLine[]>([emptyLine(), emptyLine()])
+  const [reverseTarget, setReverseTarget] = useState<JournalEntry | null>(null)
+
+  const isOwner = profile?.role === 'Owner'
+
+  useEffect(() => {
+    fetchAccounts()
+    loadPeriod()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  const fetchAccounts = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('gl_accounts')
+        .select('*')
+        .order('code', { ascending: true })
+
+      if (error) throw error
+      setAccounts((data as GlAccount[]) || [])
+    } catch (error) {
+      console.error('Error fetching accounts:', error)
+      showNotification('خطأ في تحميل دليل الحسابات: ' + (error as Error).message, 'error')
+    }
+  }
+
+  const loadPeriod = async () => {
+    if (!dateFrom || !dateTo || dateFrom > dateTo) {
+      showNotification('يرجى تحديد فترة صحيحة', 'error')
+      return
+    }
+    setReportLoading(true)
+    try {
+      const [trialRes, entriesRes] = await Promise.all([
+        supabase.rpc('get_trial_balance', { p_from: dateFrom, p_to: dateTo }),
+        supabase
+          .from('gl_journal_entries')
+          .select('*, lines:gl_journal_lines(*)')
+          .gte('entry_date', dateFrom)
+          .lte('entry_date', dateTo)
+          .order('entry_date', { ascending: false })
+          .order('entry_number', { ascending: false })
+          .limit(JOURNAL_LIMIT),
+      ])
+      if (trialRes.error) throw trialRes.error
+      if (entriesRes.error) throw entriesRes.error
+
+      setRows((trialRes.data as TrialBalanceRow[]) || [])
+      setEntries((entriesRes.data as JournalEntry[]) || [])
+    } catch (error) {
+      console.error('Error loading ledger:', error)
+      showNotification('خطأ في تحميل القيود المحاسبية: ' + (error as Error).message, 'error')
+    } finally {
+      setReportLoading(false)
+      setLoading(false)
+    }
+  }
+
+  const accountName = (code: string) => accounts.find(a => a.code === code)?.name_ar || code
+
+  const trialBalance = useMemo(() => buildTrialBalance(rows), [rows])
+  const profitAndLoss = useMemo(() => buildProfitAndLoss(rows), [rows])
+  const balanceSheet = useMemo(() => buildBalanceSheet(rows), [rows])
+
+  const reversedIds = useMemo(
+    () => new Set(entries.map(e => e.reversal_of).filter(Boolean) as string[]),
+    [entries]
+  )
+
+  const filteredEntries = useMemo(() => entries.filter(entry => {
+    if (sourceFilter !== 'all' && entry.source_type !== sourceFilter) return false
+    if (accountFilter !== 'all' && !entry.lines?.some(line => line.account_code === accountFilter)) return false
+    return true
+  }), [entries, sourceFilter, accountFilter])
+
+  const journalExportRows = useMemo<JournalExportRow[]>(() => filteredEntries.flatMap(entry =>
+    (entry.lines || []).map(line => ({
+      entry_number: entry.entry_number,
+      entry_date: entry.entry_date,
+      description: entry.description,
+      source: JOURNAL_SOURCE_LABELS[entry.source_type],
+      account_code: line.account_code,
+      account_name: accountName(line.account_code),
+      debit: line.debit,
+      credit: line.credit,
+      memo: line.memo || '',
+    }))
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  ), [filteredEntries, accounts])
+
+  const cashBalance = useMemo(() => balanceSheet.assets
+    .filter(line => line.account_code === '1000' || line.account_code === '1100')
+    .reduce((sum, line) => sum + line.amount, 0), [balanceSheet])
+
+  // ============================================
+  // Manual entries
+  // ============================================
+  const openManualEntry = () => {
+    setManualDate(toDateString(new Date()))
+    setManualDescription('')
+    setManualLines([emptyLine(), emptyLine()])
+    setManualOpen(true)
+  }
+
+  const updateManualLine = (index: number, changes: Partial<ManualJournalLine>) => {
+    setManualLines(lines => lines.map((line, i) => (i === index ? { ...line, ...changes } : line)))
+  }
+
+  const manualTotals = getManualEntryTotals(manualLines)
+
+  const postManualEntry = async () => {
+    const problem = validateManualEntry(manualDescription, manualLines)
+    if (problem) {
+      showNotification(problem, 'error')
+      return
+    }
+    if (submitting) return
+    setSubmitting(true)
+    try {
+      const { error } = await supabase.rpc('post_manual_journal_entry', {
+        p_entry_date: manualDate,
+        p_description: sanitizeText(manualDescription),
+        p_lines: manualLines
+          .filter(line => line.account_code)
+          .map(line => ({
+            account_code: line.account_code,
+            debit: line.debit || 0,
+            credit: line.credit || 0,
+            memo: sanitizeText(line.memo),
+          })),
+      })
+      if (error) throw error
+
+      showNotification('تم تسجيل القيد', 'success')
+      setManualOpen(false)
+      loadPeriod()
+    } catch (error) {
+      console.error('Error posting journal entry:', error)
+      showNotification('حدث خطأ أثناء تسجيل القيد: ' + (error as Error).message, 'error')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const reverseEntry = async () => {
+    if (!reverseTarget) return
+    try {
+      const { error } = await supabase.rpc('reverse_manual_journal_entry', { p_entry_id: reverseTarget.id })
+      if (error) throw error
+
+      showNotification('تم عكس القيد', 'success')
+      setReverseTarget(null)
+      loadPeriod()
+    } catch (error) {
+      console.error('Error reversing journal entry:', error)
+      showNotification('حدث خطأ أثناء عكس القيد: ' + (error as Error).message, 'error')
+    }
+  }
+
+  const renderStatementSection = (title: string, lines: StatementLine[], total: number) => (
+    <div className="rounded-md border">
+      <div className="bg-gray-100 px-3 py-2 text-sm font-semibold">{title}</div>
+      {lines.length === 0 ? (
+        <p className="px-3 py-2 text-sm text-muted-foreground">لا توجد أرصدة</p>
+      ) : (
+        <div className="divide-y">
+          {lines.map(line => (
+            <div key={line.account_code || line.name} className="flex justify-between px-3 py-1.5 text-sm">
+              <span>
+                {line.account_code && <span className="text-xs text-muted-foreground ml-2">{line.account_code}</span>}
+                {line.name}
+              </span>
+              <span className={line.amount < 0 ? 'text-red-700' : ''}>{formatCurrency(line.amount)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="flex justify-between border-t px-3 py-2 text-sm font-bold">
+        <span>المجموع</span>
+        <span>{formatCurrency(total)}</span>
+      </div>
+    </div>
+  )
+
+  if (loading) {
+    return (
+      <div className="flex h-64 items-center justify-center">
+        <div className="text-muted-foreground">جاري التحميل...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold">المحاسبة العامة</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            قيود مزدوجة تسجل تلقائياً مع كل دفعة، مصروف معتمد، تسديد دين واسترجاع
+          </p>
+        </div>
+        {isOwner && (
+          <Button onClick={openManualEntry} className="w-full sm:w-auto">
+            <Plus className="h-4 w-4 ml-2" />
+            قيد يدوي
+          </Button>
+        )}
+      </div>
+
+      {/* Period */}
+      <div className="flex flex-col sm:flex-row sm:items-end gap-2">
+        <div className="sm:w-44">
+          <Label htmlFor="gl_date_from">من</Label>
+          <Input id="gl_date_from" type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} />
+        </div>
+        <div className="sm:w-44">
+          <Label htmlFor="gl_date_to">إلى</Label>
+          <Input id="gl_date_to" type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} />
+        </div>
+        <Button variant="outline" onClick={loadPeriod} disabled={reportLoading}>
+          {reportLoading ? 'جاري التحميل...' : 'عرض'}
+        </Button>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+        <Card className="bg-green-50 border-green-200">
+          <CardContent className="pt-3 pb-3">
+            <p className="text-xs font-medium text-green-700 mb-1">إيرادات الفترة</p>
+            <p className="text-xl font-bold text-green-900">{formatCurrency(profitAndLoss.total_revenue)}</p>
+          </CardContent>
+        </Card>
+        <Card className="bg-red-50 border-red-200">
+          <CardContent className="pt-3 pb-3">
+            <p className="text-xs font-medium text-red-700 mb-1">تكاليف ومصاريف الفترة</p>
+            <p className="text-xl font-bold text-red-800">{formatCurrency(profitAndLoss.total_expenses)}</p>
+          </CardContent>
+        </Card>
+        <Card className={profitAndLoss.net_income >= 0 ? 'bg-blue-50 border-blue-200' : 'bg-orange-50 border-orange-200'}>
+          <CardContent className="pt-3 pb-3">
+            <p className="text-xs font-medium text-muted-foreground mb-1">صافي النتيجة</p>
+            <p className={`text-xl font-bold ${profitAndLoss.net_income >= 0 ? 'text-blue-900' : 'text-orange-800'}`}>
+              {formatCurrency(profitAndLoss.net_income)}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-3 pb-3">
+            <p className="text-xs font-medium text-muted-foreground mb-1">الصندوق والبنك في {formatDate(dateTo)}</p>
+            <p className="text-xl font-bold">{formatCurrency(cashBalance)}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {VIEWS.map(item => (
+          <Button
+            key={item.value}
+            size="sm"
+            variant={view === item.value ? 'default' : 'outline'}
+            onClick={() => setView(item.value)}
+          >
+            {item.label}
+          </Button>
+        ))}
+      </div>
+
+      {reportLoading ? (
+        <div className="text-center py-8 text-muted-foreground">جاري التحميل...</div>
+      ) : view === 'trial' ? (
+        <div className="space-y-3">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+            <p className="text-sm text-muted-foreground">
+              {trialBalance.totals.closing_debit === trialBalance.totals.closing_credit
+                ? 'الميزان متوازن'
+                : <span className="text-red-700">الميزان غير متوازن، يرجى مراجعة القيود</span>}
+            </p>
+            <ExportButtons
+              permission="report_export"
+              filename={`trial_balance_${dateFrom}_${dateTo}`}
+              sheetName={{ ar: 'ميزان المراجعة', fr: 'Balance' }}
+              columns={trialExportColumns}
+              rows={trialBalance.lines}
+            />
+          </div>
+          {trialBalance.lines.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">لا توجد قيود حتى هذا التاريخ</p>
+          ) : (
+            <div className="overflow-x-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-gray-100">
+                    <TableHead>الحساب</TableHead>
+                    <TableHead>مدين افتتاحي</TableHead>
+                    <TableHead>دائن افتتاحي</TableHead>
+                    <TableHead>حركة مدينة</TableHead>
+                    <TableHead>حركة دائنة</TableHead>
+                    <TableHead>رصيد مدين</TableHead>
+                    <TableHead>رصيد دائن</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {trialBalance.lines.map(line => (
+                    <TableRow key={line.account_code}>
+                      <TableCell className="text-sm">
+                        <span className="text-xs text-muted-foreground ml-2">{line.account_code}</span>
+                        {line.name_ar}
+                        <p className="text-xs text-muted-foreground">{GL_ACCOUNT_TYPE_LABELS[line.account_type]}</p>
+                      </TableCell>
+                      <TableCell className="text-xs">{formatCurrency(line.opening_debit)}</TableCell>
+                      <TableCell className="text-xs">{formatCurrency(line.opening_credit)}</TableCell>
+                      <TableCell className="text-xs">{formatCurrency(line.period_debit)}</TableCell>
+                      <TableCell className="text-xs">{formatCurrency(line.period_credit)}</TableCell>
+                      <TableCell className="text-sm font-medium">{formatCurrency(line.closing_debit)}</TableCell>
+                      <TableCell className="text-sm font-medium">{formatCurrency(line.closing_credit)}</TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow className="bg-gray-50 font-bold">
+                    <TableCell>المجموع</TableCell>
+                    <TableCell className="text-xs">{formatCurrency(trialBalance.totals.opening_debit)}</TableCell>
+                    <TableCell className="text-xs">{formatCurrency(trialBalance.totals.opening_credit)}</TableCell>
+                    <TableCell className="text-xs">{formatCurrency(trialBalance.totals.period_debit)}</TableCell>
+                    <TableCell className="text-xs">{formatCurrency(trialBalance.totals.period_credit)}</TableCell>
+                    <TableCell className="text-sm">{formatCurrency(trialBalance.totals.closing_debit)}</TableCell>
+                    <TableCell className="text-sm">{formatCurrency(trialBalance.totals.closing_credit)}</TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      ) : view === 'pnl' ? (
+        <div className="space-y-3 max-w-2xl">
+          <p className="text-sm text-muted-foreground">
+            من {formatDate(dateFrom)} إلى {formatDate(dateTo)}
+          </p>
+          {renderStatementSection('الإيرادات', profitAndLoss.revenue, profitAndLoss.total_revenue)}
+          {renderStatementSection('التكاليف والمصاريف', profitAndLoss.expenses, profitAndLoss.total_expenses)}
+          <div className={`flex justify-between rounded-md border px-3 py-2 font-bold ${profitAndLoss.net_income >= 0 ? 'text-green-800' : 'text-red-800'}`}>
+            <span>{profitAndLoss.net_income >= 0 ? 'ربح الفترة' : 'خسارة الفترة'}</span>
+            <span>{formatCurrency(profitAndLoss.net_income)}</span>
+          </div>
+        </div>
+      ) : view === 'balance' ? (
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground">الأرصدة في {formatDate(dateTo)}</p>
+          <div className="grid gap-3 lg:grid-cols-2">
+            {renderStatementSection('الأصول', balanceSheet.assets, balanceSheet.total_assets)}
+            <div className="space-y-3">
+              {renderStatementSection('الخصوم', balanceSheet.liabilities, balanceSheet.total_liabilities)}
+              {renderStatementSection('حقوق الملكية', balanceSheet.equity, balanceSheet.total_equity)}
+            </div>
+          </div>
+          {balanceSheet.difference !== 0 && (
+            <p className="text-sm text-red-700">
+              فرق بين الأصول والخصوم: {formatCurrency(balanceSheet.difference)}
+            </p>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Select
+                value={sourceFilter}
+                onChange={(e) => setSourceFilter(e.target.value as JournalSourceType | 'all')}
+                className="sm:w-48"
+              >
+                <option value="all">كل المصادر</option>
+                {(Object.keys(JOURNAL_SOURCE_LABELS) as JournalSourceType[]).map(source => (
+                  <option key={source} value={source}>{JOURNAL_SOURCE_LABELS[source]}</option>
+                ))}
+              </Select>
+              <Select value={accountFilter} onChange={(e) => setAccountFilter(e.target.value)} className="sm:w-64">
+                <option value="all">كل الحسابات</option>
+                {accounts.map(account => (
+                  <option key={account.code} value={account.code}>{account.code} - {account.name_ar}</option>
+                ))}
+              </Select>
+            </div>
+            <ExportButtons
+              permission="report_export"
+              filename={`journal_${dateFrom}_${dateTo}`}
+              sheetName={{ ar: 'دفتر اليومية', fr: 'Journal' }}
+              columns={journalExportColumns}
+              rows={journalExportRows}
+            />
+          </div>
+          {entries.length >= JOURNAL_LIMIT && (
+            <p className="text-xs text-orange-700">يتم عرض آخر {JOURNAL_LIMIT} قيد فقط، يرجى تضييق الفترة</p>
+          )}
+          {filteredEntries.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">لا توجد قيود</p>
+          ) : (
+            <div className="overflow-x-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-gray-100">
+                    <TableHead>القيد</TableHead>
+                    <TableHead>البيان</TableHead>
+                    <TableHead>الحساب</TableHead>
+                    <TableHead>مدين</TableHead>
+                    <TableHead>دائن</TableHead>
+                    {isOwner && <TableHead>إجراءات</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredEntries.map(entry => (entry.lines || []).map((line, index) => (
+                    <TableRow key={line.id} className={index === 0 ? 'border-t-2' : ''}>
+                      {index === 0 && (
+                        <>
+                          <TableCell rowSpan={entry.lines?.length} className="text-xs align-top">
+                            <p className="font-medium">#{entry.entry_number}</p>
+                            <p>{formatDate(entry.entry_date)}</p>
+                          </TableCell>
+                          <TableCell rowSpan={entry.lines?.length} className="text-sm align-top">
+                            <p>{entry.description}</p>
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              <Badge variant="outline">{JOURNAL_SOURCE_LABELS[entry.source_type]}</Badge>
+                              {entry.reversal_of && <Badge variant="secondary">قيد عكسي</Badge>}
+                              {reversedIds.has(entry.id) && <Badge variant="warning">معكوس</Badge>}
+                            </div>
+                          </TableCell>
+                        </>
+                      )}
+                      <TableCell className="text-sm">
+                        <span className="text-xs text-muted-foreground ml-2">{line.account_code}</span>
+                        {accountName(line.account_code)}
+                        {line.memo && <p className="text-xs text-muted-foreground">{line.memo}</p>}
+                      </TableCell>
+                      <TableCell className="text-sm">{line.debit ? formatCurrency(line.debit) : ''}</TableCell>
+                      <TableCell className="text-sm">{line.credit ? formatCurrency(line.credit) : ''}</TableCell>
+                      {isOwner && index === 0 && (
+                        <TableCell rowSpan={entry.lines?.length} className="align-top">
+                          {entry.source_type === 'manual' && !entry.reversal_of && !reversedIds.has(entry.id) && (
+                            <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => setReverseTarget(entry)}>
+                              <Undo2 className="h-3.5 w-3.5 ml-1" />
+                              عكس
+                            </Button>
+                          )}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  )))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Manual entry */}
+      <Dialog open={manualOpen} onOpenChange={setManualOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>قيد يدوي</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              للأرصدة الافتتاحية وإعادة التصنيف والتصحيحات. القيد لا يعدل بعد تسجيله، يمكن فقط عكسه.
+            </p>
+            <div className="grid gap-2 sm:grid-cols-3">
+              <div>
+                <Label htmlFor="gl_manual_date">التاريخ *</Label>
+                <Input id="gl_manual_date" type="date" value={manualDate} onChange={(e) => setManualDate(e.target.value)} />
+              </div>
+              <div className="sm:col-span-2">
+                <Label htmlFor="gl_manual_description">البيان *</Label>
+                <Input
+                  id="gl_manual_description"
+                  value={manualDescription}
+                  onChange={(e) => setManualDescription(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="overflow-x-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-gray-100">
+                    <TableHead>الحساب</TableHead>
+                    <TableHead>مدين</TableHead>
+                    <TableHead>دائن</TableHead>
+                    <TableHead>ملاحظة</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {manualLines.map((line, index) => (
+                    <TableRow key={index}>
+                      <TableCell className="min-w-[12rem]">
+                        <Select
+                          value={line.account_code}
+                          onChange={(e) => updateManualLine(index, { account_code: e.target.value })}
+                        >
+                          <option value="">اختر الحساب</option>
+                          {accounts.filter(a => a.is_active).map(account => (
+                            <option key={account.code} value={account.code}>{account.code} - {account.name_ar}</option>
+                          ))}
+                        </Select>
+                      </TableCell>
+                      <TableCell className="min-w-[7rem]">
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={line.debit || ''}
+                          onChange={(e) => updateManualLine(index, { debit: parseFloat(e.target.value) || 0 })}
+                        />
+                      </TableCell>
+                      <TableCell className="min-w-[7rem]">
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={line.credit || ''}
+                          onChange={(e) => updateManualLine(index, { credit: parseFloat(e.target.value) || 0 })}
+                        />
+                      </TableCell>
+                      <TableCell className="min-w-[8rem]">
+                        <Input value={line.memo} onChange={(e) => updateManualLine(index, { memo: e.target.value })} />
+                      </TableCell>
+                      <TableCell>
+                        {manualLines.length > 2 && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="h-7"
+                            onClick={() => setManualLines(lines => lines.filter((_, i) => i !== index))}
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow className="bg-gray-50 font-bold">
+                    <TableCell>المجموع</TableCell>
+                    <TableCell className="text-sm">{formatCurrency(manualTotals.debit)}</TableCell>
+                    <TableCell className="text-sm">{formatCurrency(manualTotals.credit)}</TableCell>
+                    <TableCell colSpan={2} className="text-xs">
+                      {manualTotals.debit !== manualTotals.credit && (
+                        <span className="text-red-700">الفرق: {formatCurrency(manualTotals.debit - manualTotals.credit)}</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => setManualLines(lines => [...lines, emptyLine()])}>
+              <Plus className="h-4 w-4 ml-1" />
+              إضافة سطر
+            </Button>
+          </div>
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setManualOpen(false)}>إلغاء</Button>
+            <Button onClick={postManualEntry} disabled={submitting}>
+              {submitting ? 'جاري الحفظ...' : 'تسجيل القيد'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={!!reverseTarget}
+        onOpenChange={(open) => !open && setReverseTarget(null)}
+        onConfirm={reverseEntry}
+        title="عكس القيد"
+        description={`سيتم تسجيل قيد عكسي بتاريخ اليوم يلغي القيد رقم ${reverseTarget?.entry_number ?? ''}. هل أنت متأكد؟`}
+      />
+    </div>
+  )
+}
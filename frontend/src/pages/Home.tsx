@@ -19,7 +19,15 @@ import {
   Phone,
   Download,
   Briefcase,
-  FileText
+  FileText,
+  Bookmark,
+  Banknote,
+  Landmark,
+  BookOpen,
+  Wallet,
+  PieChart,
+  Percent,
+  LineChart
 } from 'lucide-react'
 import { useAuth } from '@/contexts/AuthContext'
 import { useLanguage } from '@/contexts/LanguageContext'
@@ -73,6 +81,14 @@ export function Home() {
       permission: 'view_sales',
       pageId: 'sales',
     },
+    {
+      title: t('nav.reservations'),
+      icon: Bookmark,
+      color: 'bg-amber-500',
+      route: '/reservations',
+      permission: 'view_sales',
+      pageId: 'reservations',
+    },
     {
       title: t('nav.confirmSales'),
       icon: CheckCircle2,
@@ -137,6 +153,62 @@ export function Home() {
       permission: null,
       pageId: 'debts',
     },
+    {
+      title: t('nav.cheques'),
+      icon: Banknote,
+      color: 'bg-sky-600',
+      route: '/cheques',
+      permission: 'view_financial',
+      pageId: 'cheques',
+    },
+    {
+      title: t('nav.bankReconciliation'),
+      icon: Landmark,
+      color: 'bg-lime-600',
+      route: '/bank-reconciliation',
+      permission: 'view_financial',
+      pageId: 'bank-reconciliation',
+    },
+    {
+      title: t('nav.generalLedger'),
+      icon: BookOpen,
+      color: 'bg-fuchsia-600',
+      route: '/general-ledger',
+      permission: 'view_financial',
+      pageId: 'general-ledger',
+    },
+    {
+      title: t('nav.cashRegister'),
+      icon: Wallet,
+      color: 'bg-emerald-600',
+      route: '/cash-register',
+      permission: null,
+      pageId: 'cash-register',
+    },
+    {
+      title: t('nav.batchProfitability'),
+      icon: PieChart,
+      color: 'bg-violet-600',
+      route: '/batch-profitability',
+      permission: 'view_financial',
+      pageId: 'batch-profitability',
+    },
+    {
+      title: t('nav.companyFees'),
+      icon: Percent,
+      color: 'bg-cyan-600',
+      route: '/company-fees',
+      permission: 'view_financial',
+      pageId: 'company-fees',
+    },
+    {
+      title: t('nav.cashFlowForecast'),
+      icon: LineChart,
+      color: 'bg-rose-600',
+      route: '/cash-flow-forecast',
+      permission: 'view_financial',
+      pageId: 'cash-flow-forecast',
+    },
     {
       title: t('nav.realEstate'),
       icon: Building2,
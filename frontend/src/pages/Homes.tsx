@@ -1,4 +1,4 @@
-import { useEffect, useState, useCallback } from 'react'
+import { useEffect, useState, useCallback, useRef } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { supabase } from '@/lib/supabase'
 import { useAuth } from '@/contexts/AuthContext'
@@ -31,7 +31,9 @@ import { sanitizeText, sanitizeNotes, sanitizeCIN, sanitizePhone } from '@/lib/s
 import { showNotification } from '@/components/ui/notification'
 import { debounce } from '@/lib/throttle'
 import { formatCurrency, formatDate } from '@/lib/utils'
+import { calculateOfferPlan } from '@/lib/installmentSchedule'
 import { validatePermissionServerSide } from '@/lib/permissionValidation'
+import { getSaleConflict } from '@/lib/saleConflicts'
 import { Plus, Edit, Trash2, ShoppingCart, X, AlertTriangle, CheckCircle, XCircle } from 'lucide-react'
 import type { House, LandStatus, Client, PaymentOffer } from '@/types/database'
 
@@ -190,6 +192,49 @@ export function Homes() {
     fetchHouses()
   }, [])
 
+  // Houses taken by another sale (realtime update or create_sale_atomic conflict)
+  const applyHouseStatusChanges = (changes: Array<{ id: string; status: LandStatus }>) => {
+    const statuses = new Map(changes.map(c => [c.id, c.status]))
+    setHouses(prev => prev.map(house => {
+      const status = statuses.get(house.id)
+      return status && status !== house.status ? { ...house, status } : house
+    }))
+  }
+
+  // Read by the realtime handler below without resubscribing
+  const saleSelectionRef = useRef({ houseId: selectedHouse?.id, dialogOpen: saleDialogOpen, creating: creatingSale })
+  useEffect(() => {
+    saleSelectionRef.current = { houseId: selectedHouse?.id, dialogOpen: saleDialogOpen, creating: creatingSale }
+  }, [selectedHouse?.id, saleDialogOpen, creatingSale])
+
+  // Realtime: houses reserved, sold or freed by other users
+  useEffect(() => {
+    const housesChannel = supabase
+      .channel('houses-status')
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'houses',
+        },
+        (payload) => {
+          const house = payload.new as House
+          const { houseId, dialogOpen, creating } = saleSelectionRef.current
+          if (dialogOpen && !creating && house.id === houseId && house.status !== 'Available') {
+            showNotification(`المنزل ${house.name} لم يعد متاحاً`, 'error')
+            setSaleDialogOpen(false)
+          }
+          applyHouseStatusChanges([house])
+        }
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(housesChannel)
+    }
+  }, [])
+
   // Auto-select offer when sale dialog opens and payment type is Installment
   useEffect(() => {
     if (saleDialogOpen && saleForm.payment_type === 'Installment' && availableOffers.length > 0 && !selectedOffer) {
@@ -243,32 +288,19 @@ export function Homes() {
     const installmentPrice = parseFloat(houseForm.price_installment)
     if (isNaN(installmentPrice) || installmentPrice <= 0) return
     
-    const priceFull = houseForm.price_full ? parseFloat(houseForm.price_full) : 0
-    
     // Use functional update to get latest form state and avoid stale closures
     setOfferForm(prev => {
-      // Calculate advance amount (for display and calculation of remaining amount)
-      const advanceAmount = prev.advance_amount 
-        ? (prev.advance_is_percentage 
-            ? (priceFull * parseFloat(prev.advance_amount)) / 100
-            : parseFloat(prev.advance_amount))
-        : 0
-      
-      // Remaining amount for installments = Installment price - Advance
-      // This is what will be paid in monthly installments
-      const remainingForInstallments = installmentPrice - advanceAmount
-      
-      // Removed excessive logging - only log when calculation method is set
-      if (prev.calculation_method) {
-        console.log('[calculateInstallmentPrice] Calculation:', {
-          installmentPrice,
-          advanceAmount,
-          remainingForInstallments,
-          calculationMethod: prev.calculation_method,
-          monthlyPayment: prev.monthly_payment,
-          numberOfMonths: prev.number_of_months
-        })
-      }
+      // Advance is taken from the installment price; the rest is spread over the months
+      const plan = calculateOfferPlan({
+        offer: {
+          advance_amount: parseFloat(prev.advance_amount) || 0,
+          advance_is_percentage: prev.advance_is_percentage,
+          monthly_payment: prev.calculation_method === 'monthly' ? parseFloat(prev.monthly_payment) || 0 : 0,
+          number_of_months: prev.calculation_method === 'months' ? parseFloat(prev.number_of_months) || 0 : null,
+          company_fee_percentage: parseFloat(prev.company_fee_percentage) || 0,
+        },
+        price: installmentPrice,
+      })
       
       const updates: Partial<typeof prev> = {}
       
@@ -276,65 +308,27 @@ export function Homes() {
       // CRITICAL: Only calculate based on the selected calculation_method - never change it
       if (prev.calculation_method === 'monthly' && prev.monthly_payment) {
         const monthlyPayment = parseFloat(prev.monthly_payment)
-        if (!isNaN(monthlyPayment) && monthlyPayment > 0 && remainingForInstallments > 0) {
-          // Calculate number of months needed based on remaining amount (after advance)
-          const numberOfMonths = Math.ceil(remainingForInstallments / monthlyPayment)
-          
-          console.log('[calculateInstallmentPrice] Monthly calculation:', {
-            monthlyPayment,
-            numberOfMonths,
-            remainingForInstallments,
-            calculationMethod: prev.calculation_method, // Log to verify it's not changing
-            breakdown: {
-              installmentPrice: installmentPrice,
-              advance: advanceAmount,
-              remaining: remainingForInstallments,
-              monthlyPayment: monthlyPayment,
-              numberOfMonths: numberOfMonths
-            }
-          })
-          
-          updates.number_of_months = numberOfMonths.toString()
-        } else if (!isNaN(monthlyPayment) && monthlyPayment > 0 && remainingForInstallments <= 0) {
+        if (!isNaN(monthlyPayment) && monthlyPayment > 0) {
           // If advance covers everything, no installments needed
-          updates.number_of_months = '0'
+          updates.number_of_months = plan.numberOfMonths.toString()
         }
       } else if (prev.calculation_method === 'months' && prev.number_of_months) {
         const numberOfMonths = parseFloat(prev.number_of_months)
-        if (!isNaN(numberOfMonths) && numberOfMonths > 0 && remainingForInstallments > 0) {
-          // Calculate monthly payment from remaining amount (after advance)
-          const monthlyPayment = remainingForInstallments / numberOfMonths
-          
-          console.log('[calculateInstallmentPrice] Months calculation:', {
-            numberOfMonths,
-            monthlyPayment,
-            remainingForInstallments,
-            calculationMethod: prev.calculation_method, // Log to verify it's not changing
-            breakdown: {
-              installmentPrice: installmentPrice,
-              advance: advanceAmount,
-              remaining: remainingForInstallments,
-              monthlyPayment: monthlyPayment,
-              numberOfMonths: numberOfMonths
-            }
-          })
-          
-          updates.monthly_payment = monthlyPayment.toFixed(2)
-        } else if (!isNaN(numberOfMonths) && numberOfMonths > 0 && remainingForInstallments <= 0) {
+        if (!isNaN(numberOfMonths) && numberOfMonths > 0) {
           // If advance covers everything, no monthly payment needed
-          updates.monthly_payment = '0'
+          updates.monthly_payment = plan.monthlyAmount > 0 ? plan.monthlyAmount.toFixed(2) : '0'
         }
       }
       
       // Only update if there are changes to avoid infinite loops
       // IMPORTANT: Always preserve the calculation_method - never change it during calculation
-      if (Object.keys(updates).length > 0) {
+      if (Object.keys(updates).some(key => updates[key as keyof typeof updates] !== prev[key as keyof typeof prev])) {
         return { ...prev, ...updates, calculation_method: prev.calculation_method }
       }
       
       return prev
     })
-  }, [houseForm.price_installment, houseForm.price_full, showOfferForm])
+  }, [houseForm.price_installment, showOfferForm])
 
   // Calculate monthly payment or number of months when installment price, advance, or calculation method changes
   // The installment price is manually set by the user and does NOT change automatically
@@ -1031,157 +1025,32 @@ export function Homes() {
 
       if (saleForm.payment_type === 'Installment' && selectedOffer) {
         saleData.selected_offer_id = selectedOffer.id
-        // Calculate installment details
-        const advanceAmount = selectedOffer.advance_is_percentage
-          ? (price * selectedOffer.advance_amount) / 100
-          : selectedOffer.advance_amount
-        
-        // التسبقة = Advance - Reservation (العربون is deducted from التسبقة)
-        const advanceAfterReservation = Math.max(0, advanceAmount - reservationAmount)
-        
-        // Remaining for installments = Price - Advance (after reservation deduction) - Commission
-        const remainingForInstallments = Math.max(0, price - advanceAfterReservation - companyFeeAmount)
-        
-        // Calculate months and monthly payment
-        // IMPORTANT: Prioritize number_of_months if set - this was the primary input method
-        // Only calculate from monthly_payment if number_of_months is not set
-        let numberOfMonths = 0
-        let monthlyAmount = 0
-        
-        if (selectedOffer.number_of_months && selectedOffer.number_of_months > 0) {
-          // Use number_of_months directly - this is the primary input
-          numberOfMonths = selectedOffer.number_of_months
-          monthlyAmount = remainingForInstallments > 0
-            ? remainingForInstallments / selectedOffer.number_of_months
-            : 0
-        } else if (selectedOffer.monthly_payment && selectedOffer.monthly_payment > 0) {
-          // Calculate number of months from monthly payment only if number_of_months is not set
-          monthlyAmount = selectedOffer.monthly_payment
-          numberOfMonths = remainingForInstallments > 0
-            ? Math.ceil(remainingForInstallments / selectedOffer.monthly_payment)
-            : 0
-        }
+        // Calculate installment details (Price - Advance - Commission, spread over the offer terms)
+        const { numberOfMonths, monthlyAmount } = calculateOfferPlan({
+          offer: selectedOffer,
+          price,
+          reservationAmount,
+          companyFeePercentage,
+        })
         
         saleData.number_of_installments = numberOfMonths
         saleData.monthly_installment_amount = monthlyAmount
       }
 
-      const { data: sale, error } = await supabase
-        .from('sales')
-        .insert([saleData])
-        .select()
-        .single()
-
-      if (error) throw error
-      
-      // Check if sale was created successfully
-      if (!sale || !sale.id) {
-        // If select() didn't return data (RLS issue), try fetching it manually
-        await new Promise(resolve => setTimeout(resolve, 100))
-        
-        const { data: fetchedSales, error: fetchError } = await supabase
-          .from('sales')
-          .select('id')
-          .eq('client_id', currentClient.id)
-          .contains('house_ids', [selectedHouse.id])
-          .eq('status', 'Pending')
-          .order('created_at', { ascending: false })
-          .limit(1)
-        
-        if (fetchError || !fetchedSales || fetchedSales.length === 0) {
-          throw new Error('تم إنشاء البيع لكن فشل في جلب بياناته. يرجى التحقق من قاعدة البيانات.')
-        }
-        
-        // Use the fetched sale
-        const saleId = fetchedSales[0].id
-
-      // Update house status to Reserved
-        const { error: houseError } = await supabase
-        .from('houses')
-        .update({ 
-          status: 'Reserved',
-            reservation_client_id: currentClient.id,
-          reserved_until: saleForm.deadline_date || null,
-        } as any)
-        .eq('id', selectedHouse.id)
-        
-        if (houseError) {
-          // If house update fails, try to delete the sale we just created
-          await supabase.from('sales').delete().eq('id', saleId)
-          throw new Error('فشل في تحديث حالة المنزل: ' + houseError.message)
-        }
-
-      // Create payment record for reservation
-      if (reservationAmount > 0) {
-          const { error: paymentError } = await supabase
-            .from('payments')
-            .insert([{
-              client_id: currentClient.id,
-              sale_id: saleId,
-              amount_paid: reservationAmount,
-              payment_type: 'SmallAdvance',
-              payment_date: new Date().toISOString().split('T')[0],
-              payment_method: 'Cash',
-              recorded_by: user?.id || null,
-            }])
-          
-          if (paymentError) {
-            // If payment creation fails, rollback house status
-        await supabase
-              .from('houses')
-              .update({ status: 'Available', reservation_client_id: null, reserved_until: null } as any)
-              .eq('id', selectedHouse.id)
-            throw new Error('فشل في إنشاء سجل الدفع: ' + paymentError.message)
-          }
-        }
-
-        showNotification(t('homes.saleCreatedSuccess'), 'success')
-        setNewClient(null)
-        setSaleDialogOpen(false)
-        await fetchHouses()
-        navigate(`/sales/confirmation?saleId=${saleId}`)
-        return
-      }
-      
-      // Sale was returned successfully - proceed with house status update and payment
-      // Update house status to Reserved
-      const { error: houseError } = await supabase
-        .from('houses')
-        .update({ 
-          status: 'Reserved',
-          reservation_client_id: currentClient.id,
-          reserved_until: saleForm.deadline_date || null,
-        } as any)
-        .eq('id', selectedHouse.id)
-      
-      if (houseError) {
-        // If house update fails, try to delete the sale we just created
-        await supabase.from('sales').delete().eq('id', sale.id)
-        throw new Error('فشل في تحديث حالة المنزل: ' + houseError.message)
-      }
+      // Insert the sale, reserve the house and record the advance in one
+      // transaction; fails with a conflict if the house was taken meanwhile
+      const { data: sale, error } = await supabase.rpc('create_sale_atomic', {
+        p_sale: saleData,
+        p_payment_method: 'Cash',
+      })
 
-      // Create payment record for reservation
-      if (reservationAmount > 0) {
-        const { error: paymentError } = await supabase
-          .from('payments')
-          .insert([{
-            client_id: currentClient.id,
-            sale_id: sale.id,
-            amount_paid: reservationAmount,
-            payment_type: 'SmallAdvance',
-            payment_date: new Date().toISOString().split('T')[0],
-            payment_method: 'Cash',
-            recorded_by: user?.id || null,
-          }])
-        
-        if (paymentError) {
-          // If payment creation fails, rollback house status
-          await supabase
-            .from('houses')
-            .update({ status: 'Available', reservation_client_id: null, reserved_until: null } as any)
-            .eq('id', selectedHouse.id)
-          throw new Error('فشل في إنشاء سجل الدفع: ' + paymentError.message)
+      if (error) {
+        const conflict = getSaleConflict(error)
+        if (conflict) {
+          applyHouseStatusChanges(conflict.houses)
+          setSaleDialogOpen(false)
         }
+        throw error
       }
 
       showNotification(t('homes.saleCreatedSuccess'), 'success')
@@ -1760,26 +1629,12 @@ export function Homes() {
                     
                     const price = selectedHouse.price_installment
                     const companyFeePercentage = (selectedHouse as any).company_fee_percentage || offer.company_fee_percentage || 0
-                    const companyFeeAmount = (price * companyFeePercentage) / 100
-                    
-                    const advanceAmount = offer.advance_is_percentage
-                      ? (price * offer.advance_amount) / 100
-                      : offer.advance_amount
-                    
-                    const reservation = parseFloat(saleForm.reservation_amount) || 0
-                    const advanceAfterReservation = Math.max(0, advanceAmount - reservation)
-                    const remainingForInstallments = Math.max(0, price - advanceAfterReservation - companyFeeAmount)
-                    
-                    let numberOfMonths = 0
-                    // Prioritize number_of_months if set - this was the primary input method
-                    // Only calculate from monthly_payment if number_of_months is not set
-                    if (offer.number_of_months && offer.number_of_months > 0) {
-                      numberOfMonths = offer.number_of_months
-                    } else if (offer.monthly_payment && offer.monthly_payment > 0) {
-                      numberOfMonths = remainingForInstallments > 0
-                        ? Math.ceil(remainingForInstallments / offer.monthly_payment)
-                        : 0
-                    }
+                    const { advanceAmount, numberOfMonths } = calculateOfferPlan({
+                      offer,
+                      price,
+                      reservationAmount: parseFloat(saleForm.reservation_amount) || 0,
+                      companyFeePercentage,
+                    })
                     
                     const isSelected = selectedOffer?.id === offer.id
                     
@@ -1981,38 +1836,22 @@ export function Homes() {
                 
                 // Calculate with selected offer
                 // Use installment price as base (not full price)
-                const installmentPrice = selectedHouse.price_installment
-                const advanceAmount = selectedOffer.advance_is_percentage
-                  ? (installmentPrice * selectedOffer.advance_amount) / 100
-                  : selectedOffer.advance_amount
+                // المتبقي للتقسيط = السعر (بالتقسيط) - التسبقة - العمولة
+                const {
+                  advanceAmount,
+                  remainingAmount: remainingForInstallments,
+                  numberOfMonths,
+                  monthlyAmount,
+                } = calculateOfferPlan({
+                  offer: selectedOffer,
+                  price: selectedHouse.price_installment,
+                  reservationAmount: reservation,
+                  companyFeePercentage,
+                })
                 
                 // التسبقة = Advance - Reservation (العربون is deducted from التسبقة)
                 const advanceAfterReservation = Math.max(0, advanceAmount - reservation)
                 
-                // Remaining for installments = Installment Price - Advance - Commission
-                // المتبقي للتقسيط = السعر (بالتقسيط) - التسبقة - العمولة
-                const remainingForInstallments = Math.max(0, installmentPrice - advanceAmount - companyFeeAmount)
-                
-                // Calculate months and monthly payment
-                // IMPORTANT: Prioritize number_of_months if set - this was the primary input method
-                // Only calculate from monthly_payment if number_of_months is not set
-                let numberOfMonths = 0
-                let monthlyAmount = 0
-                
-                if (selectedOffer.number_of_months && selectedOffer.number_of_months > 0) {
-                  // Use number_of_months directly - this is the primary input
-                  numberOfMonths = selectedOffer.number_of_months
-                  monthlyAmount = remainingForInstallments > 0
-                    ? remainingForInstallments / selectedOffer.number_of_months
-                    : 0
-                } else if (selectedOffer.monthly_payment && selectedOffer.monthly_payment > 0) {
-                  // Calculate number of months from monthly payment only if number_of_months is not set
-                  monthlyAmount = selectedOffer.monthly_payment
-                  numberOfMonths = remainingForInstallments > 0
-                    ? Math.ceil(remainingForInstallments / selectedOffer.monthly_payment)
-                    : 0
-                }
-                
                 return (
                   <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 space-y-3">
                     <p className="font-semibold text-blue-800 text-sm mb-2">تفاصيل البيع (بالتقسيط):</p>
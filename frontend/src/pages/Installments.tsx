@@ -27,8 +27,18 @@ import {
 import { ConfirmDialog } from '@/components/ui/confirm-dialog'
 import { sanitizeNotes } from '@/lib/sanitize'
 import { formatCurrency, formatDate } from '@/lib/utils'
-import { User, ChevronDown, ChevronUp, RefreshCw, AlertTriangle, X, Merge } from 'lucide-react'
-import type { Installment, Sale, Client, InstallmentStatus } from '@/types/database'
+import { buildInstallmentSchedule, calculateInstallmentEndDate } from '@/lib/installmentSchedule'
+import { getOutstandingPenalty } from '@/lib/latePenalties'
+import { ALLOCATION_KIND_LABELS, allocatePayment } from '@/lib/paymentAllocation'
+import { LatePenaltyPolicyManager } from '@/components/LatePenaltyPolicyManager'
+import { PaymentRemindersManager } from '@/components/PaymentRemindersManager'
+import { PaymentReceiptDialog } from '@/components/PaymentReceiptDialog'
+import { ClientStatementDialog } from '@/components/ClientStatementDialog'
+import { PayoffQuoteDialog } from '@/components/PayoffQuoteDialog'
+import { ExportButtons } from '@/components/ExportButtons'
+import type { ExportColumn } from '@/lib/exportFile'
+import { User, ChevronDown, ChevronUp, RefreshCw, AlertTriangle, X, Merge, Gavel, Printer, FileText, BadgePercent, BellRing } from 'lucide-react'
+import type { Installment, Sale, Client, InstallmentStatus, PaymentAllocationMode, PaymentMethod } from '@/types/database'
 
 interface ContractEditor {
   id: string
@@ -255,9 +265,20 @@ export function Installments() {
 
   // Payment dialog
   const [paymentDialogOpen, setPaymentDialogOpen] = useState(false)
+  const [penaltyPolicyOpen, setPenaltyPolicyOpen] = useState(false)
+  const [remindersOpen, setRemindersOpen] = useState(false)
+  const [remindersClientId, setRemindersClientId] = useState<string | null>(null)
+  const [receiptDialogOpen, setReceiptDialogOpen] = useState(false)
+  const [receiptPaymentIds, setReceiptPaymentIds] = useState<string[]>([])
+  const [receiptSaleId, setReceiptSaleId] = useState<string | null>(null)
   const [selectedInstallment, setSelectedInstallment] = useState<InstallmentWithRelations | null>(null)
   const [paymentAmount, setPaymentAmount] = useState('')
   const [monthsToPayCount, setMonthsToPayCount] = useState(1)
+  // Oldest first, or the selected installment first (allocate_payment)
+  const [allocationMode, setAllocationMode] = useState<PaymentAllocationMode>('oldest')
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('Cash')
+  // Cheque details when paid by cheque (allocate_cheque_payment)
+  const [chequeForm, setChequeForm] = useState({ cheque_number: '', bank_name: '', drawer_name: '', due_date: '' })
   const [errorMessage, setErrorMessage] = useState<string | null>(null)
   
   // Merge installments dialog
@@ -283,6 +304,9 @@ export function Installments() {
   const [clientDetailsOpen, setClientDetailsOpen] = useState(false)
   const [selectedClientForDetails, setSelectedClientForDetails] = useState<any>(null)
   const [clientSales, setClientSales] = useState<any[]>([])
+  const [clientStatementOpen, setClientStatementOpen] = useState(false)
+  // Early payoff quote for the sale shown in the details drawer
+  const [payoffSaleId, setPayoffSaleId] = useState<string | null>(null)
   
   const openClientDetails = async (client: any) => {
     if (!client || !client.id) return
@@ -406,8 +430,8 @@ export function Installments() {
         const bigAdvanceAmount = (firstInst.sale as any)?.big_advance_amount || 0
         const totalPaid = freshInstallments.reduce((sum, inst) => sum + (inst.amount_paid || 0), 0) + bigAdvanceAmount
         const totalUnpaid = freshInstallments.reduce((sum, inst) => {
-          const remaining = inst.amount_due + (inst.stacked_amount || 0) - (inst.amount_paid || 0)
-          return sum + Math.max(0, remaining)
+          const remaining = inst.amount_due + (inst.stacked_amount || 0) - (inst.amount_paid || 0) - (inst.written_off_amount || 0)
+          return sum + Math.max(0, remaining) + getOutstandingPenalty(inst)
         }, 0)
         
         // Check if any installment data changed (include big advance in comparison)
@@ -456,108 +480,6 @@ export function Installments() {
     }
   }, [installments, refreshKey, detailsDrawerOpen, selectedSaleForDetails?.saleId])
 
-  // Stack unpaid overdue installments onto the first unpaid installment
-  useEffect(() => {
-    const stackOverdueInstallments = async () => {
-      const now = new Date()
-      now.setHours(0, 0, 0, 0)
-      
-      // Group installments by sale
-      const installmentsBySale = new Map<string, InstallmentWithRelations[]>()
-      installments.forEach(inst => {
-        if (!installmentsBySale.has(inst.sale_id)) {
-          installmentsBySale.set(inst.sale_id, [])
-        }
-        installmentsBySale.get(inst.sale_id)!.push(inst)
-      })
-      
-      // For each sale, stack overdue installments
-      for (const [saleId, saleInstallments] of installmentsBySale.entries()) {
-        // Sort by installment number
-        saleInstallments.sort((a, b) => a.installment_number - b.installment_number)
-        
-        // Find first unpaid installment (lowest number with remaining amount)
-        const firstUnpaid = saleInstallments.find(i => {
-          const remaining = i.amount_due + (i.stacked_amount || 0) - i.amount_paid
-          return remaining > 0.01
-        })
-        
-        if (!firstUnpaid) continue
-        
-        // Find all overdue unpaid installments that come before the first unpaid
-        const overdueBeforeFirst = saleInstallments.filter(i => {
-          if (i.id === firstUnpaid.id) return false
-          const dueDate = new Date(i.due_date)
-          dueDate.setHours(0, 0, 0, 0)
-          const remaining = i.amount_due + (i.stacked_amount || 0) - i.amount_paid
-          return dueDate < now && remaining > 0.01 && i.installment_number < firstUnpaid.installment_number
-        })
-        
-        if (overdueBeforeFirst.length === 0) continue
-        
-        // Calculate total to stack from overdue installments
-        let totalToStack = 0
-        const overdueToStack: Array<{ id: string; remaining: number }> = []
-        
-        for (const overdue of overdueBeforeFirst) {
-          const remaining = overdue.amount_due + (overdue.stacked_amount || 0) - overdue.amount_paid
-          if (remaining > 0.01) {
-            totalToStack += remaining
-            overdueToStack.push({ id: overdue.id, remaining })
-          }
-        }
-        
-        if (totalToStack <= 0.01) continue
-        
-        // Check if first unpaid already has this stacked amount (avoid duplicate stacking)
-        const currentStacked = firstUnpaid.stacked_amount || 0
-        const expectedStacked = overdueToStack.reduce((sum, o) => sum + o.remaining, 0)
-        
-        // Only update if the stacked amount doesn't already include these overdue amounts
-        if (Math.abs(currentStacked - expectedStacked) > 0.01) {
-          // Add stacked amount to first unpaid installment
-          const newStackedAmount = currentStacked + totalToStack
-          
-          await supabase
-            .from('installments')
-            .update({ stacked_amount: newStackedAmount })
-            .eq('id', firstUnpaid.id)
-          
-          // Mark overdue installments as having their amounts stacked (but keep them as unpaid)
-          // We don't mark them as Paid - they remain unpaid but their amounts are stacked
-          for (const overdue of overdueToStack) {
-            // Update the overdue installment to reflect that its amount is stacked
-            // Keep it as unpaid but set amount_paid to include the amount_due so remaining is 0
-            const overdueInst = saleInstallments.find(i => i.id === overdue.id)
-            if (overdueInst) {
-              const newAmountPaid = overdueInst.amount_paid + overdueInst.amount_due + (overdueInst.stacked_amount || 0)
-              await supabase
-                .from('installments')
-                .update({ 
-                  stacked_amount: 0,
-                  amount_paid: newAmountPaid,
-                  // Keep status as Unpaid or Late, don't mark as Paid
-                  status: overdueInst.status === 'Late' ? 'Late' : 'Unpaid'
-                })
-                .eq('id', overdue.id)
-            }
-          }
-        }
-      }
-    }
-    
-    // Run stacking check when installments change (debounced to avoid too many updates)
-    if (installments.length > 0) {
-      const timeoutId = setTimeout(() => {
-        stackOverdueInstallments().catch(err => {
-          console.error('Error stacking overdue installments:', err)
-        })
-      }, 1000) // Wait 1 second after installments change
-      
-      return () => clearTimeout(timeoutId)
-    }
-  }, [installments])
-
   // IMPROVED: Fetch installments with retry logic and proper error handling
   const fetchInstallments = async (retryCount = 0): Promise<boolean> => {
     const maxRetries = 3
@@ -707,7 +629,7 @@ export function Installments() {
       })
       // Calculate total overdue only for installments with actual remaining amounts
       const totalOverdue = overdue.reduce((sum, i) => {
-        const remaining = i.amount_due + i.stacked_amount - i.amount_paid
+        const remaining = i.amount_due + i.stacked_amount - i.amount_paid - (i.written_off_amount || 0)
         return sum + Math.max(0, remaining)
       }, 0)
       
@@ -768,9 +690,9 @@ export function Installments() {
     return installments
       .filter((i) => {
         if (i.sale_id !== saleId) return false
-        // Check if there's actually an amount remaining (including stacked amounts)
-        const remaining = i.amount_due + (i.stacked_amount || 0) - i.amount_paid
-        return remaining > 0.01
+        // Check if there's actually an amount remaining (including stacked amounts and penalties)
+        const remaining = i.amount_due + (i.stacked_amount || 0) - i.amount_paid - (i.written_off_amount || 0)
+        return remaining > 0.01 || getOutstandingPenalty(i) > 0.01
       })
       .sort((a, b) => a.installment_number - b.installment_number)
   }, [installments])
@@ -803,7 +725,7 @@ export function Installments() {
   const openPaymentDialog = (installment: InstallmentWithRelations) => {
     // VALIDATION: Check if installment is already paid
     const remainingAmount = getRemainingAmount(installment)
-    if (remainingAmount <= 0.01 || installment.status === 'Paid') {
+    if (remainingAmount <= 0.01 || (installment.status === 'Paid' && getOutstandingPenalty(installment) <= 0.01)) {
       // Alert user that this installment is already paid
       setErrorMessage(`⚠️ هذا القسط #${installment.installment_number} مدفوع بالكامل بالفعل!`)
       console.log('[openPaymentDialog] Attempted to pay already paid installment:', {
@@ -817,6 +739,14 @@ export function Installments() {
     
     setErrorMessage(null)
     setSelectedInstallment(installment)
+    setAllocationMode('oldest')
+    setPaymentMethod('Cash')
+    setChequeForm({
+      cheque_number: '',
+      bank_name: '',
+      drawer_name: installment.sale?.client?.name || '',
+      due_date: new Date().toISOString().split('T')[0],
+    })
     
     // Auto-calculate payment amount for ALL unpaid installments (including stacked amounts)
     const unpaid = getUnpaidInstallmentsForSale(installment.sale_id)
@@ -880,6 +810,12 @@ export function Installments() {
       return
     }
 
+    if (paymentMethod === 'Check' && (!chequeForm.cheque_number.trim() || !chequeForm.bank_name.trim() || !chequeForm.due_date)) {
+      setErrorMessage('يرجى إدخال رقم الشيك والبنك وتاريخ الاستحقاق')
+      setPaymentConfirmOpen(false)
+      return
+    }
+
     // Check network connection
     if (!navigator.onLine) {
       setErrorMessage('لا يوجد اتصال بالإنترنت. يرجى التحقق من الاتصال والمحاولة مرة أخرى.')
@@ -897,7 +833,7 @@ export function Installments() {
       // This prevents double payment if UI data is stale
       const { data: freshInstallment, error: checkError } = await supabase
         .from('installments')
-        .select('id, amount_paid, amount_due, stacked_amount, status')
+        .select('id, amount_paid, amount_due, stacked_amount, written_off_amount, status')
         .eq('id', selectedInstallment.id)
         .single()
       
@@ -910,7 +846,7 @@ export function Installments() {
       }
       
       if (freshInstallment) {
-        const freshRemaining = freshInstallment.amount_due + (freshInstallment.stacked_amount || 0) - freshInstallment.amount_paid
+        const freshRemaining = freshInstallment.amount_due + (freshInstallment.stacked_amount || 0) - freshInstallment.amount_paid - (freshInstallment.written_off_amount || 0)
         if (freshRemaining <= 0.01 || freshInstallment.status === 'Paid') {
           // Installment was paid in another session/tab
           setErrorMessage(`⚠️ هذا القسط مدفوع بالكامل بالفعل! يرجى تحديث الصفحة.`)
@@ -924,16 +860,6 @@ export function Installments() {
         }
       }
       
-      // CRITICAL: Only get installments for THIS specific sale (per-client isolation)
-      // This ensures overpayments only affect the same client's installments
-      const clientId = selectedInstallment.sale?.client_id
-      if (!clientId) {
-        setErrorMessage('خطأ: لا يمكن تحديد العميل')
-        setIsRefreshing(false)
-        setPaymentConfirmOpen(false)
-        return
-      }
-
       // Get installments to pay (for multi-month payment) - ONLY for this sale
       const unpaidInstallments = getUnpaidInstallmentsForSale(selectedInstallment.sale_id)
       const installmentsToPay = unpaidInstallments.slice(0, monthsToPayCount)
@@ -948,84 +874,31 @@ export function Installments() {
         return
       }
       
-      let remainingPayment = amount
-      const today = new Date().toISOString().split('T')[0]
-
-      // Process each installment for THIS sale only
-      for (const inst of installmentsToPay) {
-        if (remainingPayment <= 0) break
-
-        // Calculate remaining amount for this specific installment (per-client calculation)
-        const totalDue = getRemainingAmount(inst)
-        
-        // If this installment is already fully paid, skip to next
-        if (totalDue <= 0.01) continue
-        
-        const paymentForThis = Math.min(remainingPayment, totalDue)
-        const newPaid = inst.amount_paid + paymentForThis
-        const totalRequired = inst.amount_due + inst.stacked_amount
-        const isFullyPaid = newPaid >= totalRequired - 0.01 // Use threshold for floating point
-
-        // Calculate new stacked_amount correctly
-        // If fully paid, stacked_amount should be 0
-        // Otherwise, it's the remaining amount after payment
-        const newStackedAmount = isFullyPaid ? 0 : Math.max(0, totalRequired - newPaid)
-
-        // Update installment - per-client, isolated calculation
-        const { error: updateError } = await supabase
-          .from('installments')
-          .update({
-            amount_paid: newPaid,
-            status: isFullyPaid ? 'Paid' : newPaid > 0.01 ? 'Partial' : inst.status,
-            paid_date: isFullyPaid ? today : null,
-            stacked_amount: newStackedAmount,
+      // One payment row, spread over the installments by allocate_payment();
+      // a cheque goes to the register with it, in the same transaction
+      const { data: paymentRow, error: paymentError } = paymentMethod === 'Check'
+        ? await supabase.rpc('allocate_cheque_payment', {
+            p_sale_id: selectedInstallment.sale_id,
+            p_amount: amount,
+            p_installment_id: allocationMode === 'installment' ? selectedInstallment.id : null,
+            p_cheque_number: chequeForm.cheque_number.trim(),
+            p_bank_name: chequeForm.bank_name.trim(),
+            p_drawer_name: chequeForm.drawer_name.trim() || selectedInstallment.sale?.client?.name || '-',
+            p_due_date: chequeForm.due_date,
           })
-          .eq('id', inst.id)
-        
-        if (updateError) {
-          console.error('Error updating installment:', updateError)
-          console.error('Installment ID:', inst.id)
-          console.error('Update data:', {
-            amount_paid: newPaid,
-            status: isFullyPaid ? 'Paid' : newPaid > 0.01 ? 'Partial' : inst.status,
-            paid_date: isFullyPaid ? today : null,
-            stacked_amount: newStackedAmount,
+        : await supabase.rpc('allocate_payment', {
+            p_sale_id: selectedInstallment.sale_id,
+            p_amount: amount,
+            p_installment_id: allocationMode === 'installment' ? selectedInstallment.id : null,
+            p_payment_method: paymentMethod,
           })
-          // Provide more helpful error message
-          const errorMessage = updateError.code === 'PGRST116' 
-            ? 'القسط غير موجود' 
-            : updateError.code === '42501'
-            ? 'ليس لديك صلاحية لتحديث هذا القسط'
-            : updateError.message || 'خطأ في تحديث القسط'
-          throw new Error(errorMessage)
-        }
 
-        // Record individual payment - linked to this specific client and sale
-        const { error: paymentError } = await supabase.from('payments').insert([{
-          client_id: clientId, // Ensure payment is linked to correct client
-          sale_id: selectedInstallment.sale_id, // Ensure payment is linked to correct sale
-          installment_id: inst.id,
-          amount_paid: paymentForThis,
-          payment_type: 'Installment',
-          payment_date: today,
-          recorded_by: user?.id || null, // Track who recorded this payment
-        }])
-        
-        if (paymentError) {
-          console.error('Error recording payment:', paymentError)
-          throw paymentError
-        }
-
-        remainingPayment -= paymentForThis
-      }
-
-      // If there's remaining payment after paying all installments for this sale,
-      // it should be stored as credit for this client's future installments
-      // For now, we'll just log it - future enhancement could add a credit system
-      if (remainingPayment > 0.01) {
-        console.log(`Overpayment of ${remainingPayment} for sale ${selectedInstallment.sale_id} - could be applied to future installments`)
-        // TODO: Implement credit system for overpayments
+      if (paymentError) {
+        console.error('Error recording payment:', paymentError)
+        throw new Error(paymentError.message || 'خطأ في تسجيل الدفعة')
       }
+      // The payment gets a numbered receipt
+      const recordedPaymentIds: string[] = paymentRow ? [(paymentRow as { id: string }).id] : []
 
       // Recalculate sale status after payment - only affects this sale
       await recalculateSaleStatus(selectedInstallment.sale_id)
@@ -1122,8 +995,8 @@ export function Installments() {
             const bigAdvanceAmount = (firstInst.sale as any)?.big_advance_amount || 0
             const totalPaid = freshInstallments.reduce((sum, inst) => sum + (inst.amount_paid || 0), 0) + bigAdvanceAmount
             const totalUnpaid = freshInstallments.reduce((sum, inst) => {
-              const remaining = inst.amount_due + (inst.stacked_amount || 0) - (inst.amount_paid || 0)
-              return sum + Math.max(0, remaining)
+              const remaining = inst.amount_due + (inst.stacked_amount || 0) - (inst.amount_paid || 0) - (inst.written_off_amount || 0)
+              return sum + Math.max(0, remaining) + getOutstandingPenalty(inst)
             }, 0)
             
             console.log('[recordPayment] Refreshing details drawer with fresh data:', {
@@ -1190,6 +1063,13 @@ export function Installments() {
       
       // Auto-hide success message after 4 seconds
       setTimeout(() => setSuccessMessage(null), 4000)
+
+      // Offer the receipts of this payment for printing
+      if (recordedPaymentIds.length > 0) {
+        setReceiptSaleId(null)
+        setReceiptPaymentIds(recordedPaymentIds)
+        setReceiptDialogOpen(true)
+      }
       
       console.log('[recordPayment] Payment process completed successfully!')
       
@@ -1219,7 +1099,7 @@ export function Installments() {
     if (inst.status === 'Paid') return false
     
     // Calculate remaining amount for this specific installment
-    const remainingAmount = inst.amount_due + inst.stacked_amount - inst.amount_paid
+    const remainingAmount = inst.amount_due + inst.stacked_amount - inst.amount_paid - (inst.written_off_amount || 0)
     
     // If fully paid, not overdue
     if (remainingAmount <= 0.01) return false // Use small threshold for floating point
@@ -1233,9 +1113,15 @@ export function Installments() {
     return dueDate < now && remainingAmount > 0.01
   }
   
-  // Helper function to get remaining amount for an installment (per-client calculation)
+  // Helper function to get remaining amount for an installment (per-client calculation),
+  // late penalty not yet collected included
   const getRemainingAmount = (inst: InstallmentWithRelations): number => {
-    return Math.max(0, inst.amount_due + inst.stacked_amount - inst.amount_paid)
+    return Math.max(0, inst.amount_due + inst.stacked_amount - inst.amount_paid - (inst.written_off_amount || 0)) + getOutstandingPenalty(inst)
+  }
+
+  // Still owed: unpaid principal, or a penalty left on an installment whose principal is paid
+  const isStillOwed = (inst: InstallmentWithRelations): boolean => {
+    return getRemainingAmount(inst) > 0.01 && (inst.status !== 'Paid' || getOutstandingPenalty(inst) > 0.01)
   }
 
   // Helper function to get days until due or overdue
@@ -1326,8 +1212,8 @@ export function Installments() {
       const prev = installments[i - 1]
       const curr = installments[i]
       
-      const prevAmount = prev.amount_due + prev.stacked_amount - prev.amount_paid
-      const currAmount = curr.amount_due + curr.stacked_amount - curr.amount_paid
+      const prevAmount = prev.amount_due + prev.stacked_amount - prev.amount_paid - (prev.written_off_amount || 0)
+      const currAmount = curr.amount_due + curr.stacked_amount - curr.amount_paid - (curr.written_off_amount || 0)
       const prevDate = new Date(prev.due_date)
       const currDate = new Date(curr.due_date)
       
@@ -1354,7 +1240,7 @@ export function Installments() {
             groups.push({
               type: 'single',
               installments: [inst],
-              amount: inst.amount_due + inst.stacked_amount - inst.amount_paid,
+              amount: inst.amount_due + inst.stacked_amount - inst.amount_paid - (inst.written_off_amount || 0),
               date: formatDate(inst.due_date)
             })
           })
@@ -1371,7 +1257,7 @@ export function Installments() {
         installments: currentGroup,
         startNumber: currentGroup[0].installment_number,
         endNumber: last.installment_number,
-        amount: last.amount_due + last.stacked_amount - last.amount_paid,
+        amount: last.amount_due + last.stacked_amount - last.amount_paid - (last.written_off_amount || 0),
         date: formatDate(currentGroup[0].due_date)
       })
     } else {
@@ -1379,7 +1265,7 @@ export function Installments() {
         groups.push({
           type: 'single',
           installments: [inst],
-          amount: inst.amount_due + inst.stacked_amount - inst.amount_paid,
+          amount: inst.amount_due + inst.stacked_amount - inst.amount_paid - (inst.written_off_amount || 0),
           date: formatDate(inst.due_date)
         })
       })
@@ -1499,27 +1385,21 @@ export function Installments() {
           if (saleInstallments.length === 0) return
         }
         
-        const unpaidInstallments = saleInstallments.filter(i => {
-          const remaining = getRemainingAmount(i)
-          return remaining > 0.01 && i.status !== 'Paid'
-        })
+        const unpaidInstallments = saleInstallments.filter(isStillOwed)
         const nextInst = unpaidInstallments[0]
         
         // Skip fully paid deals - check if all installments are paid
-        const allPaid = saleInstallments.every(i => {
-          const remaining = getRemainingAmount(i)
-          return remaining <= 0.01 || i.status === 'Paid'
-        })
+        const allPaid = !saleInstallments.some(isStillOwed)
         if (allPaid) return // Skip fully paid deals
         
         const totalUnpaid = unpaidInstallments.reduce((sum, inst) => sum + getRemainingAmount(inst), 0)
         const daysUntilDue = nextInst ? getDaysUntilDue(nextInst) : 999
-        const isOverdue = nextInst ? isInstallmentOverdue(nextInst) : false
+        const isOverdue = nextInst ? isInstallmentOverdue(nextInst) || getOutstandingPenalty(nextInst) > 0.01 : false
         
-        // Calculate overdue amount: sum only installments that are actually overdue (past due date)
+        // Calculate overdue amount: installments past their due date, and penalties (charged only once late)
         const overdueInstallments = sale.installments.filter(inst => {
           const remaining = getRemainingAmount(inst)
-          return remaining > 0.01 && isInstallmentOverdue(inst)
+          return remaining > 0.01 && (isInstallmentOverdue(inst) || getOutstandingPenalty(inst) > 0.01)
         })
         const overdueAmount = overdueInstallments.reduce((sum, inst) => sum + getRemainingAmount(inst), 0)
         
@@ -1649,6 +1529,25 @@ export function Installments() {
     
     return filtered
   }, [clientGroups, debouncedSearchTerm, filterOverdue, filterDueThisMonth, filterMinRemaining, filterProgress, filterStatus, refreshKey, getRemainingAmount])
+
+  const dealExportColumns = useMemo<ExportColumn<typeof dealsTableData[0]>[]>(() => [
+    { header: { ar: 'العميل', fr: 'Client' }, value: d => d.clientName },
+    { header: { ar: 'رقم CIN', fr: 'CIN' }, value: d => d.clientCin },
+    { header: { ar: 'تاريخ البيع', fr: 'Date de vente' }, value: d => d.saleDate?.split('T')[0] },
+    { header: { ar: 'القطع', fr: 'Lots' }, value: d => d.landPieces },
+    { header: { ar: 'الأقساط المدفوعة', fr: 'Échéances payées' }, value: d => d.paidInstallments },
+    { header: { ar: 'عدد الأقساط', fr: "Nombre d'échéances" }, value: d => d.totalInstallments },
+    { header: { ar: 'المستحق', fr: 'Total dû' }, value: d => d.totalDue },
+    { header: { ar: 'المدفوع', fr: 'Total payé' }, value: d => d.totalPaid },
+    { header: { ar: 'المتبقي', fr: 'Reste à payer' }, value: d => d.totalUnpaid },
+    { header: { ar: 'المتأخر', fr: 'Montant en retard' }, value: d => d.overdueAmount },
+    {
+      header: { ar: 'غرامات التأخير', fr: 'Pénalités de retard' },
+      value: d => d.installments.reduce((sum, inst) => sum + getOutstandingPenalty(inst), 0),
+    },
+    { header: { ar: 'القسط القادم', fr: 'Prochaine échéance' }, value: d => d.nextDueDate?.split('T')[0] },
+    { header: { ar: 'التقدم %', fr: 'Progression %' }, value: d => Math.round(d.progress) },
+  ], [])
   
   const openSaleDetails = async (deal: typeof dealsTableData[0]) => {
     // Get contract editor from deal or first installment's sale
@@ -1870,7 +1769,7 @@ export function Installments() {
       
       // Get installment details from first sale
       const firstSaleInsts = salesData[0].installments.filter(i => {
-        const remaining = i.amount_due + (i.stacked_amount || 0) - i.amount_paid
+        const remaining = i.amount_due + (i.stacked_amount || 0) - i.amount_paid - (i.written_off_amount || 0)
         return remaining > 0.01
       })
       
@@ -1882,10 +1781,6 @@ export function Installments() {
       const numberOfInstallments = firstSaleInsts.length
       const installmentStartDate = firstSaleInsts[0].due_date
       
-      // Calculate end date
-      const startDate = new Date(installmentStartDate)
-      const endDate = new Date(startDate)
-      endDate.setMonth(endDate.getMonth() + numberOfInstallments - 1)
       
       // Update base sale with merged data
       const { error: updateError } = await supabase
@@ -1901,7 +1796,7 @@ export function Installments() {
           number_of_installments: numberOfInstallments,
           monthly_installment_amount: monthlyAmount,
           installment_start_date: installmentStartDate,
-          installment_end_date: endDate.toISOString().split('T')[0],
+          installment_end_date: calculateInstallmentEndDate(installmentStartDate, numberOfInstallments),
         })
         .eq('id', baseSale.id)
       
@@ -1982,21 +1877,13 @@ export function Installments() {
       const totalPaid = totalPaidFromInstallments
       
       // Create new installments for merged sale
-      const installmentsToCreate = []
-      for (let i = 0; i < numberOfInstallments; i++) {
-        const dueDate = new Date(startDate)
-        dueDate.setMonth(dueDate.getMonth() + i)
-        
-        installmentsToCreate.push({
-          sale_id: baseSale.id,
-          installment_number: i + 1,
-          amount_due: monthlyAmount,
-          amount_paid: 0,
-          stacked_amount: 0,
-          due_date: dueDate.toISOString().split('T')[0],
-          status: 'Unpaid',
-        })
-      }
+      const installmentsToCreate = buildInstallmentSchedule({
+        saleId: baseSale.id,
+        remainingAmount: monthlyAmount * numberOfInstallments,
+        numberOfMonths: numberOfInstallments,
+        monthlyAmount,
+        startDate: installmentStartDate,
+      })
       
       // Distribute payments across installments
       let remainingPaid = totalPaid
@@ -2146,16 +2033,48 @@ export function Installments() {
       {/* Compact Header */}
       <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
         <h1 className="text-2xl sm:text-3xl font-bold">الأقساط</h1>
-        {hasPermission('manage_sales') && (
-          <Button
-            onClick={findMergeableSales}
-            variant="outline"
-            className="flex items-center gap-2"
-          >
-            <Merge className="h-4 w-4" />
-            دمج الأقساط
-          </Button>
-        )}
+        <div className="flex flex-wrap gap-2">
+          <ExportButtons
+            permission="payment_export"
+            filename="installments"
+            sheetName={{ ar: 'الأقساط', fr: 'Échéances' }}
+            columns={dealExportColumns}
+            rows={dealsTableData}
+          />
+          {hasPermission('edit_installments') && (
+            <Button
+              onClick={() => setPenaltyPolicyOpen(true)}
+              variant="outline"
+              className="flex items-center gap-2"
+            >
+              <Gavel className="h-4 w-4" />
+              غرامات التأخير
+            </Button>
+          )}
+          {hasPermission('edit_installments') && (
+            <Button
+              onClick={() => {
+                setRemindersClientId(null)
+                setRemindersOpen(true)
+              }}
+              variant="outline"
+              className="flex items-center gap-2"
+            >
+              <BellRing className="h-4 w-4" />
+              التذكيرات
+            </Button>
+          )}
+          {hasPermission('manage_sales') && (
+            <Button
+              onClick={findMergeableSales}
+              variant="outline"
+              className="flex items-center gap-2"
+            >
+              <Merge className="h-4 w-4" />
+              دمج الأقساط
+            </Button>
+          )}
+        </div>
       </div>
 
       {/* Search and Advanced Filters */}
@@ -2793,6 +2712,11 @@ export function Installments() {
                                                 )}
                                               </div>
                                               <p className="text-lg font-bold text-primary mb-1">{formatCurrency(instRemainingAmount)}</p>
+                                              {getOutstandingPenalty(inst) > 0.01 && (
+                                                <p className="text-xs font-medium text-red-600 mb-1">
+                                                  + غرامة تأخير: {formatCurrency(getOutstandingPenalty(inst))}
+                                                </p>
+                                              )}
                                               <p className="text-xs text-muted-foreground">
                                                 {formatDate(inst.due_date)}
                                               </p>
@@ -2867,7 +2791,7 @@ export function Installments() {
         
         // Filter out fully paid installments (but keep partially paid if they still have amount due)
         let filtered = filteredInstallments.filter(i => {
-          const remaining = i.amount_due + i.stacked_amount - i.amount_paid
+          const remaining = i.amount_due + i.stacked_amount - i.amount_paid - (i.written_off_amount || 0)
           return remaining > 0.01 // Only show if there's actually an amount due
         })
         
@@ -3096,7 +3020,7 @@ export function Installments() {
                                         const inst = group.installments[0]
                                         const instDaysLeft = getDaysUntilDue(inst)
                                         const instIsOverdue = isInstallmentOverdue(inst)
-                                        const instRemainingAmount = inst.amount_due + inst.stacked_amount - inst.amount_paid
+                                        const instRemainingAmount = inst.amount_due + inst.stacked_amount - inst.amount_paid - (inst.written_off_amount || 0)
                                         
                                         let instActionText = 'دفع'
                                         let instActionVariant: 'destructive' | 'default' | 'outline' = 'default'
@@ -3211,6 +3135,11 @@ export function Installments() {
                 // Check if this is an installment sale or full payment sale
                 const isInstallmentSale = selectedInstallment.sale?.payment_type !== 'Full'
                 
+                // Late penalties on the installments covered by this payment
+                const selectedPenalty = unpaid
+                  .slice(0, isInstallmentSale ? monthsToPayCount : unpaid.length)
+                  .reduce((sum, inst) => sum + getOutstandingPenalty(inst), 0)
+                
                 // Round amounts to avoid floating point precision issues
                 const roundedUnpaid = Math.round(totalUnpaidAmount * 100) / 100
                 const roundedPaid = Math.round(actualTotalPaid * 100) / 100
@@ -3249,6 +3178,12 @@ export function Installments() {
                         <span className="text-muted-foreground">الإجمالي:</span>
                         <span className="font-bold">{formatCurrency(roundedTotal)}</span>
                       </div>
+                      {selectedPenalty > 0.01 && (
+                        <div className="flex justify-between items-center p-2 sm:p-3 bg-red-50 rounded-lg border border-red-200 text-xs sm:text-sm">
+                          <span className="text-red-700">غرامات التأخير (تُخصم أولاً):</span>
+                          <span className="font-bold text-red-700">{formatCurrency(Math.round(selectedPenalty * 100) / 100)}</span>
+                        </div>
+                      )}
                       {!isInstallmentSale && (
                         // Only show "المتبقي" for full payment sales
                         <div className="flex justify-between items-center p-2 sm:p-3 bg-primary/10 rounded-lg border-2 border-primary text-xs sm:text-sm">
@@ -3353,6 +3288,87 @@ export function Installments() {
                       )}
                     </div>
 
+                    <div className="space-y-2">
+                      <Label htmlFor="paymentMethod" className="text-xs sm:text-sm">طريقة الدفع</Label>
+                      <Select
+                        id="paymentMethod"
+                        value={paymentMethod}
+                        onChange={(e) => setPaymentMethod(e.target.value as PaymentMethod)}
+                        className="text-xs sm:text-sm"
+                      >
+                        <option value="Cash">نقدي</option>
+                        <option value="Check">شيك</option>
+                        <option value="BankTransfer">تحويل بنكي</option>
+                      </Select>
+                      {paymentMethod === 'Check' && (
+                        <div className="grid grid-cols-2 gap-2">
+                          <Input
+                            placeholder="رقم الشيك *"
+                            value={chequeForm.cheque_number}
+                            onChange={(e) => setChequeForm({ ...chequeForm, cheque_number: e.target.value })}
+                            className="text-xs sm:text-sm"
+                          />
+                          <Input
+                            placeholder="البنك *"
+                            value={chequeForm.bank_name}
+                            onChange={(e) => setChequeForm({ ...chequeForm, bank_name: e.target.value })}
+                            className="text-xs sm:text-sm"
+                          />
+                          <Input
+                            placeholder="الساحب"
+                            value={chequeForm.drawer_name}
+                            onChange={(e) => setChequeForm({ ...chequeForm, drawer_name: e.target.value })}
+                            className="text-xs sm:text-sm"
+                          />
+                          <Input
+                            type="date"
+                            title="تاريخ استحقاق الشيك"
+                            value={chequeForm.due_date}
+                            onChange={(e) => setChequeForm({ ...chequeForm, due_date: e.target.value })}
+                            className="text-xs sm:text-sm"
+                          />
+                        </div>
+                      )}
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="allocationMode" className="text-xs sm:text-sm">توزيع الدفعة</Label>
+                      <Select
+                        id="allocationMode"
+                        value={allocationMode}
+                        onChange={(e) => setAllocationMode(e.target.value as PaymentAllocationMode)}
+                        className="text-xs sm:text-sm"
+                      >
+                        <option value="oldest">الأقدم أولاً</option>
+                        <option value="installment">القسط #{selectedInstallment.installment_number} أولاً</option>
+                      </Select>
+                      {(() => {
+                        const preview = allocatePayment(
+                          allSaleInstallments,
+                          parseFloat(paymentAmount) || 0,
+                          allocationMode === 'installment' ? selectedInstallment.id : null
+                        )
+                        if (preview.lines.length === 0 && preview.excess <= 0) return null
+                        return (
+                          <div className="text-xs bg-gray-50 p-2 rounded-md border space-y-1">
+                            {preview.lines.map((line, idx) => (
+                              <div key={idx} className="flex justify-between">
+                                <span className={line.kind === 'penalty' ? 'text-red-600' : 'text-muted-foreground'}>
+                                  {ALLOCATION_KIND_LABELS[line.kind]} #{line.installment_number}
+                                </span>
+                                <span className="font-medium">{formatCurrency(line.amount)}</span>
+                              </div>
+                            ))}
+                            {preview.excess > 0 && (
+                              <p className="text-red-600 font-medium">
+                                المبلغ يتجاوز المتبقي على البيع بـ {formatCurrency(preview.excess)}
+                              </p>
+                            )}
+                          </div>
+                        )
+                      })()}
+                    </div>
+
                     <p className="text-xs sm:text-sm text-muted-foreground">
                       المتبقي بعد الدفع:{' '}
                       <span className="font-medium">
@@ -3389,6 +3405,25 @@ export function Installments() {
         cancelText="إلغاء"
       />
 
+      <LatePenaltyPolicyManager
+        open={penaltyPolicyOpen}
+        onOpenChange={setPenaltyPolicyOpen}
+        onPenaltiesApplied={() => fetchInstallments()}
+      />
+
+      <PaymentRemindersManager
+        open={remindersOpen}
+        onOpenChange={setRemindersOpen}
+        clientId={remindersClientId}
+      />
+
+      <PaymentReceiptDialog
+        open={receiptDialogOpen}
+        onOpenChange={setReceiptDialogOpen}
+        paymentIds={receiptPaymentIds}
+        saleId={receiptSaleId}
+      />
+
       {/* Merge Installments Dialog */}
       <Dialog open={mergeDialogOpen} onOpenChange={setMergeDialogOpen}>
         <DialogContent className="w-[95vw] sm:w-full max-w-3xl max-h-[95vh] overflow-y-auto">
@@ -3522,6 +3557,23 @@ export function Installments() {
                     </div>
                   )}
                 </div>
+                <div className="flex flex-wrap gap-2 mt-4">
+                  <Button variant="outline" size="sm" onClick={() => setClientStatementOpen(true)}>
+                    <FileText className="h-4 w-4 ml-2" />
+                    كشف الحساب
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      setRemindersClientId(selectedClientForDetails.id)
+                      setRemindersOpen(true)
+                    }}
+                  >
+                    <BellRing className="h-4 w-4 ml-2" />
+                    سجل التذكيرات
+                  </Button>
+                </div>
               </div>
 
               {/* All Land Pieces Summary */}
@@ -3634,6 +3686,28 @@ export function Installments() {
         </DialogContent>
       </Dialog>
 
+      <ClientStatementDialog
+        client={selectedClientForDetails}
+        open={clientStatementOpen}
+        onOpenChange={setClientStatementOpen}
+      />
+
+      <PayoffQuoteDialog
+        saleId={payoffSaleId}
+        open={!!payoffSaleId}
+        onOpenChange={(open) => { if (!open) setPayoffSaleId(null) }}
+        onAccepted={async (quote) => {
+          setDetailsDrawerOpen(false)
+          await fetchInstallments()
+          setRefreshKey(prev => prev + 1)
+          if (quote.payment_id) {
+            setReceiptSaleId(null)
+            setReceiptPaymentIds([quote.payment_id])
+            setReceiptDialogOpen(true)
+          }
+        }}
+      />
+
       {/* Sale Details Drawer - Progressive Disclosure */}
       <Dialog open={detailsDrawerOpen} onOpenChange={setDetailsDrawerOpen}>
         <DialogContent className="w-[95vw] sm:w-full max-w-4xl max-h-[95vh] overflow-y-auto">
@@ -3641,6 +3715,33 @@ export function Installments() {
             <div className="flex items-center justify-between">
             <DialogTitle>تفاصيل الصفقة</DialogTitle>
               {selectedSaleForDetails && (
+                <div className="flex items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setReceiptPaymentIds([])
+                    setReceiptSaleId(selectedSaleForDetails.saleId)
+                    setReceiptDialogOpen(true)
+                  }}
+                  className="h-8 px-2 text-xs"
+                  title="وصولات الخلاص"
+                >
+                  <Printer className="h-4 w-4 ml-1" />
+                  الوصولات
+                </Button>
+                {selectedSaleForDetails.totalUnpaid > 0.01 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setPayoffSaleId(selectedSaleForDetails.saleId)}
+                    className="h-8 px-2 text-xs"
+                    title="عرض السداد المسبق"
+                  >
+                    <BadgePercent className="h-4 w-4 ml-1" />
+                    سداد مسبق
+                  </Button>
+                )}
                 <Button
                   variant="ghost"
                   size="sm"
@@ -3685,7 +3786,7 @@ export function Installments() {
                         const bigAdvanceAmount = (firstInst.sale as any)?.big_advance_amount || 0
                         const totalPaid = freshInstallments.reduce((sum, inst) => sum + (inst.amount_paid || 0), 0) + bigAdvanceAmount
                         const totalUnpaid = freshInstallments.reduce((sum, inst) => {
-                          const remaining = inst.amount_due + (inst.stacked_amount || 0) - (inst.amount_paid || 0)
+                          const remaining = inst.amount_due + (inst.stacked_amount || 0) - (inst.amount_paid || 0) - (inst.written_off_amount || 0)
                           return sum + Math.max(0, remaining)
                         }, 0)
                         
@@ -3738,6 +3839,7 @@ export function Installments() {
                 >
                   <RefreshCw className="h-4 w-4" />
                 </Button>
+                </div>
               )}
             </div>
           </DialogHeader>
@@ -3844,7 +3946,7 @@ export function Installments() {
                           const bigAdvanceAmount = (firstInst.sale as any)?.big_advance_amount || 0
                           const totalPaid = freshInstallments.reduce((sum, inst) => sum + (inst.amount_paid || 0), 0) + bigAdvanceAmount
                           const totalUnpaid = freshInstallments.reduce((sum, inst) => {
-                            const remaining = inst.amount_due + (inst.stacked_amount || 0) - (inst.amount_paid || 0)
+                            const remaining = inst.amount_due + (inst.stacked_amount || 0) - (inst.amount_paid || 0) - (inst.written_off_amount || 0)
                             return sum + Math.max(0, remaining)
                           }, 0)
                           
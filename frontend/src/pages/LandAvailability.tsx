@@ -15,6 +15,9 @@ import {
 import { formatCurrency, formatDate } from '@/lib/utils'
 import { Check, Clock, X, Search, MapPin, Package } from 'lucide-react'
 import { showNotification } from '@/components/ui/notification'
+import { SubdivisionMap } from '@/components/SubdivisionMap'
+import { isValidPolygon } from '@/lib/subdivisionMap'
+import type { MapPoint } from '@/types/database'
 
 interface PieceWithStatus {
   id: string
@@ -24,7 +27,8 @@ interface PieceWithStatus {
   selling_price_full: number
   selling_price_installment: number
   notes?: string | null
-  land_batch?: { name: string; id: string; real_estate_tax_number?: string | null; location?: string | null; notes?: string | null }
+  map_polygon?: MapPoint[] | null
+  land_batch?: { name: string; id: string; real_estate_tax_number?: string | null; location?: string | null; notes?: string | null; image_url?: string | null }
   status_display: 'Available' | 'Reserved' | 'Sold'
   sale?: any
   reservation?: any
@@ -96,7 +100,7 @@ export function LandAvailability() {
       setLoading(true)
       const { data: piecesData, error: piecesError } = await supabase
         .from('land_pieces')
-        .select('id, piece_number, surface_area, purchase_cost, selling_price_full, selling_price_installment, status, notes, land_batch:land_batches(name, real_estate_tax_number, location, notes)')
+        .select('id, piece_number, surface_area, purchase_cost, selling_price_full, selling_price_installment, status, notes, map_polygon, land_batch:land_batches(id, name, real_estate_tax_number, location, notes, image_url)')
         .order('piece_number', { ascending: true })
 
       if (piecesError) throw piecesError
@@ -109,7 +113,7 @@ export function LandAvailability() {
       const { data: reservationsData } = await supabase
         .from('reservations')
         .select('*, client:clients(*)')
-        .in('status', ['Pending', 'Completed'])
+        .eq('status', 'Pending')
 
       const batchMap = new Map<string, { id: string; name: string }>()
       ;(piecesData || []).forEach((p: any) => {
@@ -164,6 +168,7 @@ export function LandAvailability() {
           selling_price_full: piece.selling_price_full || 0,
           selling_price_installment: piece.selling_price_installment || 0,
           notes: piece.notes || null,
+          map_polygon: piece.map_polygon || null,
           land_batch: piece.land_batch,
           status_display,
           sale: completedSale || activeSale || undefined,
@@ -191,6 +196,23 @@ export function LandAvailability() {
     })
   }, [pieces, searchedPieces, pieceSearch, statusFilter, batchFilter])
 
+  // Subdivision map of the selected area, when its plan has outlined pieces
+  const batchMap = useMemo(() => {
+    if (batchFilter === 'all') return null
+    const batchPieces = pieces.filter(p => p.land_batch?.name === batchFilter)
+    const imageUrl = batchPieces.find(p => p.land_batch?.image_url)?.land_batch?.image_url
+    if (!imageUrl || !batchPieces.some(p => isValidPolygon(p.map_polygon))) return null
+    return {
+      imageUrl,
+      pieces: batchPieces.map(p => ({
+        id: p.id,
+        piece_number: String(p.piece_number),
+        status: p.status_display,
+        map_polygon: p.map_polygon,
+      })),
+    }
+  }, [pieces, batchFilter])
+
   const stats = useMemo(() => ({
     total: pieces.length,
     available: pieces.filter(p => p.status_display === 'Available').length,
@@ -342,6 +364,26 @@ export function LandAvailability() {
         </CardContent>
       </Card>
 
+      {/* Subdivision Map (read-only) */}
+      {batchMap && (
+        <Card className="max-w-5xl mx-auto">
+          <CardHeader>
+            <CardTitle className="text-center">مخطط التقسيم - {batchFilter}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <SubdivisionMap
+              imageUrl={batchMap.imageUrl}
+              pieces={batchMap.pieces}
+              selectedPieceId={detailsOpen ? selectedPiece?.id : null}
+              onPieceClick={(mapPiece) => {
+                const piece = pieces.find(p => p.id === mapPiece.id)
+                if (piece) openDetails(piece)
+              }}
+            />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Results Count */}
       <div className="text-center text-sm text-muted-foreground">
         عرض {filteredPieces.length} من {pieces.length} قطعة
@@ -27,13 +27,19 @@ import {
   DialogFooter,
 } from '@/components/ui/dialog'
 import { ConfirmDialog } from '@/components/ui/confirm-dialog'
+import { BulkImportDialog } from '@/components/BulkImportDialog'
+import { SubdivisionMapDialog } from '@/components/SubdivisionMapDialog'
+import { BatchGeometryDialog, type GeometryUpdates } from '@/components/BatchGeometryDialog'
 import { sanitizeText, sanitizeNotes, sanitizeEmail, sanitizePhone, sanitizeCIN } from '@/lib/sanitize'
 import { showNotification } from '@/components/ui/notification'
 import { debounce } from '@/lib/throttle'
 import { formatCurrency, formatDate } from '@/lib/utils'
+import { buildInstallmentSchedule, calculateOfferPlan, roundMoney } from '@/lib/installmentSchedule'
 import { validatePermissionServerSide } from '@/lib/permissionValidation'
-import { Plus, Edit, Trash2, Map, ChevronDown, ChevronRight, Calculator, X, DollarSign, AlertTriangle, ShoppingCart, Upload, Image as ImageIcon, Settings, RotateCcw, CheckCircle, XCircle, Eye, User, Shield } from 'lucide-react'
-import type { LandBatch, LandPiece, LandStatus, Client, PaymentOffer } from '@/types/database'
+import { isSurfaceDiscrepancy } from '@/lib/landGeometry'
+import { getSaleConflict } from '@/lib/saleConflicts'
+import { Plus, Edit, Trash2, Map, ChevronDown, ChevronRight, Calculator, X, DollarSign, AlertTriangle, ShoppingCart, Upload, Image as ImageIcon, Settings, RotateCcw, CheckCircle, XCircle, Eye, User, Shield, MapPin } from 'lucide-react'
+import type { LandBatch, LandPiece, LandStatus, Client, PaymentOffer, MapPoint } from '@/types/database'
 
 interface LandBatchWithPieces extends LandBatch {
   land_pieces: LandPiece[]
@@ -44,6 +50,13 @@ interface PieceConfig {
   surface: number
 }
 
+// p_piece_prices row of create_sale_atomic(): prices a sale used for a piece
+interface SalePiecePrice {
+  id: string
+  selling_price_full?: number
+  selling_price_installment?: number
+}
+
 // New flexible piece generation interface - integrates all modes
 interface PieceGenerationItem {
   id: string
@@ -611,6 +624,9 @@ export function LandManagement() {
   // Piece dialog
   const [pieceDialogOpen, setPieceDialogOpen] = useState(false)
   const [bulkAddDialogOpen, setBulkAddDialogOpen] = useState(false)
+  const [importPiecesDialogOpen, setImportPiecesDialogOpen] = useState(false)
+  const [mapBatchId, setMapBatchId] = useState<string | null>(null)
+  const [geometryBatchId, setGeometryBatchId] = useState<string | null>(null)
   const [editingPiece, setEditingPiece] = useState<LandPiece | null>(null)
   const [selectedBatchId, setSelectedBatchId] = useState<string>('')
   const [selectedBatchForPiece, setSelectedBatchForPiece] = useState<LandBatch | null>(null)
@@ -736,8 +752,8 @@ export function LandManagement() {
     
     if (!isNaN(pricePerM2Full) && !isNaN(pricePerM2Installment) && pricePerM2Full > 0 && pricePerM2Installment > 0) {
       // Use batch price per m²
-      sellingPriceFull = Math.round(surface * pricePerM2Full * 100) / 100
-      sellingPriceInstallment = Math.round(surface * pricePerM2Installment * 100) / 100
+      sellingPriceFull = roundMoney(surface * pricePerM2Full)
+      sellingPriceInstallment = roundMoney(surface * pricePerM2Installment)
     } else {
       // Get average prices from existing pieces in this batch
       const batchWithPieces = selectedBatchForPiece as LandBatchWithPieces
@@ -752,8 +768,8 @@ export function LandManagement() {
         if (totalSurface > 0) {
           const avgPricePerM2Full = totalFull / totalSurface
           const avgPricePerM2Installment = totalInstallment / totalSurface
-          sellingPriceFull = Math.round(surface * avgPricePerM2Full * 100) / 100
-          sellingPriceInstallment = Math.round(surface * avgPricePerM2Installment * 100) / 100
+          sellingPriceFull = roundMoney(surface * avgPricePerM2Full)
+          sellingPriceInstallment = roundMoney(surface * avgPricePerM2Installment)
         } else {
           // Fallback defaults
           sellingPriceFull = surface * 100
@@ -1080,25 +1096,26 @@ export function LandManagement() {
       
       // Calculate for each piece separately
       // NOTE: Commission is NOT included in installments - it's collected at confirmation with advance
+      let totalRemaining = 0
       for (const piece of piecesData) {
         const pricePerPiece = piece.selling_price_installment || piece.selling_price_full || averagePricePerPiece
-        const companyFeePerPiece = (pricePerPiece * companyFeePercentage) / 100
-        const advanceAmount = selectedNewOffer.advance_is_percentage
-          ? (pricePerPiece * selectedNewOffer.advance_amount) / 100
-          : selectedNewOffer.advance_amount
-        // Remaining for installments = Price - Reservation - Advance (WITHOUT commission)
-        // Commission is collected separately at confirmation
-        const remainingForInstallments = pricePerPiece - reservationPerPiece - advanceAmount
-        
-        totalCompanyFee += companyFeePerPiece
+        const plan = calculateOfferPlan({
+          offer: selectedNewOffer,
+          price: pricePerPiece,
+          reservationAmount: reservationPerPiece,
+          companyFeePercentage,
+        })
         
-        if (monthlyAmount > 0 && remainingForInstallments > 0) {
-          const monthsForPiece = Math.ceil(remainingForInstallments / monthlyAmount)
-          maxMonths = Math.max(maxMonths, monthsForPiece)
-        }
+        totalCompanyFee += plan.companyFeeAmount
+        totalRemaining += plan.remainingAmount
+        maxMonths = Math.max(maxMonths, plan.numberOfMonths)
       }
       
       const numberOfMonths = maxMonths
+      // Monthly amount for the whole sale, spread over the longest piece schedule
+      if (numberOfMonths > 0) {
+        monthlyAmount = roundMoney(totalRemaining / numberOfMonths)
+      }
       
       // Update sale with new offer
       const { error: updateError } = await supabase
@@ -1124,23 +1141,13 @@ export function LandManagement() {
       
       // Create new installments if sale is confirmed (has big_advance_amount)
       if (selectedSaleForOfferChange.big_advance_amount > 0 && numberOfMonths > 0) {
-        const installmentsToCreate = []
-        const startDate = new Date(selectedSaleForOfferChange.installment_start_date || new Date())
-        startDate.setHours(0, 0, 0, 0)
-        
-        for (let i = 0; i < numberOfMonths; i++) {
-          const dueDate = new Date(startDate)
-          dueDate.setMonth(dueDate.getMonth() + i)
-          installmentsToCreate.push({
-            sale_id: selectedSaleForOfferChange.id,
-            installment_number: i + 1,
-            amount_due: parseFloat(monthlyAmount.toFixed(2)),
-            amount_paid: 0,
-            stacked_amount: 0,
-            due_date: dueDate.toISOString().split('T')[0],
-            status: 'Unpaid',
-          })
-        }
+        const installmentsToCreate = buildInstallmentSchedule({
+          saleId: selectedSaleForOfferChange.id,
+          remainingAmount: totalRemaining,
+          numberOfMonths,
+          monthlyAmount,
+          startDate: selectedSaleForOfferChange.installment_start_date || undefined,
+        })
         
         const { error: installmentsError } = await supabase
           .from('installments')
@@ -2429,7 +2436,7 @@ export function LandManagement() {
         .from('reservations')
         .select('id')
         .contains('land_piece_ids', [pieceToDelete.id])
-        .in('status', ['Pending', 'Completed'])
+        .eq('status', 'Pending')
 
       if (reservations && reservations.length > 0) {
         setError('لا يمكن حذف قطعة محجوزة. يرجى إلغاء الحجز أولاً')
@@ -2656,6 +2663,92 @@ export function LandManagement() {
     setBulkAddDialogOpen(true)
   }
 
+  const openImportPiecesDialog = (batchId: string) => {
+    setSelectedBatchId(batchId)
+    const batch = batches.find(b => b.id === batchId)
+    setSelectedBatchForPiece(batch || null)
+    setImportPiecesDialogOpen(true)
+  }
+
+  // Subdivision map: keep the saved outlines without refetching every batch
+  const applySavedPolygons = (updates: Array<{ id: string; polygon: MapPoint[] | null }>) => {
+    const polygons = new globalThis.Map(updates.map(u => [u.id, u.polygon]))
+    setBatches(prev => prev.map(batch => ({
+      ...batch,
+      land_pieces: (batch.land_pieces || []).map(piece =>
+        polygons.has(piece.id) ? { ...piece, map_polygon: polygons.get(piece.id) } : piece
+      ),
+    })))
+  }
+
+  // Geographic geometry: same local update as the subdivision map
+  const applySavedGeometry = (batchId: string, updates: GeometryUpdates) => {
+    const geometries = new globalThis.Map(updates.pieces.map(u => [u.id, u]))
+    setBatches(prev => prev.map(batch => batch.id !== batchId ? batch : {
+      ...batch,
+      ...(updates.batch || {}),
+      land_pieces: (batch.land_pieces || []).map(piece => {
+        const update = geometries.get(piece.id)
+        return update ? { ...piece, geometry: update.geometry, geometry_area: update.geometry_area } : piece
+      }),
+    }))
+  }
+
+  // Pieces taken by another sale (realtime update or create_sale_atomic conflict):
+  // update their status in place and drop them from the current selection
+  const applyPieceStatusChanges = (changes: Array<{ id: string; status: LandStatus }>) => {
+    const statuses = new globalThis.Map(changes.map(c => [c.id, c.status]))
+    setBatches(prev => prev.map(batch => ({
+      ...batch,
+      land_pieces: (batch.land_pieces || []).map(piece => {
+        const status = statuses.get(piece.id)
+        // Pieces of completed sales are shown as Sold; keep that unless the piece was freed
+        if (!status || piece.status === status || (piece.status === 'Sold' && status !== 'Available')) return piece
+        return { ...piece, status }
+      }),
+    })))
+    setSelectedPieces(prev => {
+      const taken = changes.filter(c => c.status !== 'Available' && prev.has(c.id))
+      if (taken.length === 0) return prev
+      const next = new Set(prev)
+      taken.forEach(c => next.delete(c.id))
+      return next
+    })
+  }
+
+  // Read by the realtime handler below without resubscribing
+  const saleSelectionRef = useRef({ pieces: selectedPieces, creating: creatingSale })
+  useEffect(() => {
+    saleSelectionRef.current = { pieces: selectedPieces, creating: creatingSale }
+  }, [selectedPieces, creatingSale])
+
+  // Realtime: pieces reserved, sold or freed by other users
+  useEffect(() => {
+    const landPiecesChannel = supabase
+      .channel('land-pieces-status')
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'land_pieces',
+        },
+        (payload) => {
+          const piece = payload.new as LandPiece
+          const { pieces, creating } = saleSelectionRef.current
+          if (!creating && piece.status !== 'Available' && pieces.has(piece.id)) {
+            showNotification(`القطعة #${piece.piece_number} لم تعد متاحة وتمت إزالتها من الاختيار`, 'error')
+          }
+          applyPieceStatusChanges([piece])
+        }
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(landPiecesChannel)
+    }
+  }, [])
+
   const openPieceDialog = async (batchId: string, piece?: LandPiece) => {
     setSelectedBatchId(batchId)
     // Find the batch for auto-calculation
@@ -2964,15 +3057,12 @@ export function LandManagement() {
               
               // Calculate values per piece based on the updated offer
               const companyFeePercentage = offerData.company_fee_percentage || 0
-              const companyFeePerPiece = (pricePerPiece * companyFeePercentage) / 100
-              const advanceAmount = offerData.advance_is_percentage
-                ? (pricePerPiece * offerData.advance_amount) / 100
-                : offerData.advance_amount
-              const remainingAfterAdvance = (pricePerPiece + companyFeePerPiece) - reservationPerPiece - advanceAmount
-              const monthlyAmount = offerData.monthly_payment
-              const numberOfMonths = monthlyAmount > 0 && remainingAfterAdvance > 0
-                ? Math.ceil(remainingAfterAdvance / monthlyAmount)
-                : 0
+              const { companyFeeAmount: companyFeePerPiece, numberOfMonths, monthlyAmount } = calculateOfferPlan({
+                offer: offerData,
+                price: pricePerPiece,
+                reservationAmount: reservationPerPiece,
+                companyFeePercentage,
+              })
               
               await supabase
                 .from('sales')
@@ -3020,15 +3110,12 @@ export function LandManagement() {
             
             // Calculate values per piece based on the new offer
             const companyFeePercentage = offerData.company_fee_percentage || 0
-            const companyFeePerPiece = (pricePerPiece * companyFeePercentage) / 100
-            const advanceAmount = offerData.advance_is_percentage
-              ? (pricePerPiece * offerData.advance_amount) / 100
-              : offerData.advance_amount
-            const remainingAfterAdvance = (pricePerPiece + companyFeePerPiece) - reservationPerPiece - advanceAmount
-            const monthlyAmount = offerData.monthly_payment
-            const numberOfMonths = monthlyAmount > 0 && remainingAfterAdvance > 0
-              ? Math.ceil(remainingAfterAdvance / monthlyAmount)
-              : 0
+            const { companyFeeAmount: companyFeePerPiece, numberOfMonths, monthlyAmount } = calculateOfferPlan({
+              offer: offerData,
+              price: pricePerPiece,
+              reservationAmount: reservationPerPiece,
+              companyFeePercentage,
+            })
             
             await supabase
               .from('sales')
@@ -3130,29 +3217,12 @@ export function LandManagement() {
       
       // Calculate values per piece based on the selected offer
       const companyFeePercentage = selectedOffer.company_fee_percentage || 0
-      const companyFeePerPiece = (pricePerPiece * companyFeePercentage) / 100
-      const advanceAmount = selectedOffer.advance_is_percentage
-        ? (pricePerPiece * selectedOffer.advance_amount) / 100
-        : selectedOffer.advance_amount
-      const remainingAfterAdvance = (pricePerPiece + companyFeePerPiece) - reservationPerPiece - advanceAmount
-      
-      // Calculate based on what the offer has: monthly_payment or number_of_months
-      let monthlyAmount = 0
-      let numberOfMonths = 0
-      
-      if (selectedOffer.monthly_payment && selectedOffer.monthly_payment > 0) {
-        // Offer has monthly_payment - calculate number of months
-        monthlyAmount = selectedOffer.monthly_payment
-        numberOfMonths = remainingAfterAdvance > 0
-          ? Math.ceil(remainingAfterAdvance / selectedOffer.monthly_payment)
-          : 0
-      } else if (selectedOffer.number_of_months && selectedOffer.number_of_months > 0) {
-        // Offer has number_of_months - calculate monthly payment
-        numberOfMonths = selectedOffer.number_of_months
-        monthlyAmount = remainingAfterAdvance > 0
-          ? remainingAfterAdvance / selectedOffer.number_of_months
-          : 0
-      }
+      const { companyFeeAmount: companyFeePerPiece, numberOfMonths, monthlyAmount } = calculateOfferPlan({
+        offer: selectedOffer,
+        price: pricePerPiece,
+        reservationAmount: reservationPerPiece,
+        companyFeePercentage,
+      })
       
       // Update the sale with the selected offer (values are per piece)
       const { error: updateError } = await supabase
@@ -3951,7 +4021,7 @@ export function LandManagement() {
       if (unavailablePieces.length > 0) {
         const pieceNumbers = unavailablePieces.map((p: any) => `#${p.piece_number}`).join(', ')
         showNotification(`القطع التالية لم تعد متاحة: ${pieceNumbers}`, 'error')
-        fetchBatches()
+        applyPieceStatusChanges(unavailablePieces)
         setCreatingSale(false)
         return
       }
@@ -4123,40 +4193,19 @@ export function LandManagement() {
             ? (p.surface_area * offerToUse.price_per_m2_installment)
             : (parseFloat(p.selling_price_installment) || parseFloat(p.selling_price_full) || 0)
           
-          const companyFeePercentage = offerToUse.company_fee_percentage || 0
-          const companyFeePerPiece = (piecePrice * companyFeePercentage) / 100
-          
-          const advancePerPiece = offerToUse.advance_is_percentage
-            ? (piecePrice * offerToUse.advance_amount) / 100
-            : offerToUse.advance_amount
-          
-          // التسبقة = Advance - Reservation (العربون is deducted from التسبقة)
-          const reservationAmount = parseFloat(String(reservationPerPiece)) || 0
-          const advanceAfterReservation = Math.max(0, (advancePerPiece || 0) - reservationAmount)
-          
-          // Remaining for installments = Price - Advance (after reservation deduction) - Commission
+          // Remaining for installments = Price - Advance - Commission
           // Commission is collected separately at confirmation with advance
-          const remainingPerPiece = Math.max(0, (piecePrice || 0) - advanceAfterReservation - (companyFeePerPiece || 0))
-          
-          // Calculate based on what the offer has: monthly_payment or number_of_months
-          // IMPORTANT: Prioritize number_of_months if set - this was the primary input method
-          // Only calculate from monthly_payment if number_of_months is not set
-          let monthsPerPiece = 0
-          let monthlyAmountPerPiece = 0
-          
-          if (offerToUse.number_of_months && offerToUse.number_of_months > 0) {
-            // Use number_of_months directly - this is the primary input
-            monthsPerPiece = offerToUse.number_of_months
-            monthlyAmountPerPiece = remainingPerPiece > 0
-              ? remainingPerPiece / offerToUse.number_of_months
-              : 0
-          } else if (offerToUse.monthly_payment && offerToUse.monthly_payment > 0) {
-            // Calculate number of months from monthly payment only if number_of_months is not set
-            monthlyAmountPerPiece = offerToUse.monthly_payment
-            monthsPerPiece = remainingPerPiece > 0
-              ? Math.ceil(remainingPerPiece / offerToUse.monthly_payment)
-              : 0
-          }
+          const {
+            companyFeeAmount: companyFeePerPiece,
+            advanceAmount: advancePerPiece,
+            remainingAmount: remainingPerPiece,
+            numberOfMonths: monthsPerPiece,
+            monthlyAmount: monthlyAmountPerPiece,
+          } = calculateOfferPlan({
+            offer: offerToUse,
+            price: piecePrice,
+            reservationAmount: parseFloat(String(reservationPerPiece)) || 0,
+          })
           
           return {
             companyFeePerPiece,
@@ -4209,29 +4258,8 @@ export function LandManagement() {
       }
       saleData.deadline_date = saleForm.deadline_date
 
-      const { data: newSale, error } = await supabase
-        .from('sales')
-        .insert(saleData)
-        .select()
-        .single()
-      
-      if (error) throw error
-
-      // Create SmallAdvance payment if reservation amount > 0
-      if (reservation > 0 && newSale) {
-        await supabase.from('payments').insert([{
-          client_id: newClient.id,
-          sale_id: newSale.id,
-          amount_paid: reservation,
-          payment_type: 'SmallAdvance',
-          payment_date: new Date().toISOString().split('T')[0],
-          recorded_by: user?.id || null,
-        }] as any)
-      }
-      
-      // Initial payment for PromiseOfSale will be created during confirmation
-
-      // Update all selected pieces status to Reserved and save calculated prices
+      // Calculated prices of the selected pieces, saved with the sale
+      const piecePrices: SalePiecePrice[] = []
       for (const pieceId of selectedPieces) {
         const piece = selectedPieceObjects.find((p: any) => p.id === pieceId)
         if (!piece) continue
@@ -4275,21 +4303,37 @@ export function LandManagement() {
           }
         }
 
-        // Update piece with calculated prices and status
-        const updateData: any = { status: 'Reserved' }
+        // Prices saved on the piece when it is reserved
+        const piecePrice: SalePiecePrice = { id: pieceId }
         if (calculatedPrice > 0) {
-          updateData.selling_price_full = Math.round(calculatedPrice * 100) / 100
+          piecePrice.selling_price_full = Math.round(calculatedPrice * 100) / 100
         }
         if (calculatedInstallmentPrice > 0) {
-          updateData.selling_price_installment = Math.round(calculatedInstallmentPrice * 100) / 100
+          piecePrice.selling_price_installment = Math.round(calculatedInstallmentPrice * 100) / 100
         }
+        piecePrices.push(piecePrice)
+      }
 
-        await supabase
-          .from('land_pieces')
-          .update(updateData)
-          .eq('id', pieceId)
+      // Insert the sale, reserve the pieces and record the advance in one
+      // transaction; fails with a conflict if a piece was taken meanwhile
+      const { error } = await supabase.rpc('create_sale_atomic', {
+        p_sale: saleData,
+        p_piece_prices: piecePrices,
+      })
+
+      if (error) {
+        const conflict = getSaleConflict(error)
+        if (conflict) {
+          showNotification(error.message, 'error')
+          applyPieceStatusChanges(conflict.pieces)
+          return
+        }
+        throw error
       }
 
+      // Initial payment for PromiseOfSale will be created during confirmation
+
+
       setSuccessMessage('تم إنشاء البيع بنجاح')
       setSuccessDialogOpen(true)
       // Auto-dismiss after 3 seconds
@@ -4581,6 +4625,10 @@ export function LandManagement() {
                       <Plus className="ml-1 h-3.5 w-3.5" />
                       إضافة متعددة
                   </Button>
+                    <Button variant="outline" size="sm" onClick={() => openImportPiecesDialog(batch.id)} className="flex-1 h-8 text-xs">
+                      <Upload className="ml-1 h-3.5 w-3.5" />
+                      استيراد من ملف
+                    </Button>
               </div>
                 )}
 
@@ -4617,9 +4665,39 @@ export function LandManagement() {
                         </Button>
                       </div>
                     </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setMapBatchId(batch.id)}
+                      className="w-full h-8 text-xs mt-2"
+                    >
+                      <Map className="ml-1 h-3.5 w-3.5" />
+                      خريطة التقسيم
+                    </Button>
               </div>
                 )}
 
+                {/* Geographic coordinates (GeoJSON / KML) */}
+                <div className="p-2 border-b bg-gray-50">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setGeometryBatchId(batch.id)}
+                    className="w-full h-8 text-xs"
+                  >
+                    <MapPin className="ml-1 h-3.5 w-3.5" />
+                    الإحداثيات الجغرافية
+                    {batch.land_pieces?.some(p => p.geometry) && (
+                      <span className="mr-1 text-muted-foreground">
+                        ({batch.land_pieces.filter(p => p.geometry).length}/{batch.land_pieces.length})
+                      </span>
+                    )}
+                    {batch.land_pieces?.some(p => isSurfaceDiscrepancy(p.geometry_area, p.surface_area)) && (
+                      <AlertTriangle className="mr-1 h-3.5 w-3.5 text-orange-500" />
+                    )}
+                  </Button>
+                </div>
+
               {(!batch.land_pieces || batch.land_pieces.length === 0) ? (
                   <p className="text-center text-muted-foreground py-4 text-sm">لا توجد قطع</p>
               ) : (
@@ -5735,6 +5813,50 @@ export function LandManagement() {
       </Dialog>
 
       {/* Bulk Add Pieces Dialog */}
+      <SubdivisionMapDialog
+        open={!!mapBatchId}
+        onOpenChange={(open) => { if (!open) setMapBatchId(null) }}
+        batch={batches.find(b => b.id === mapBatchId) || null}
+        canEdit={hasPermission('edit_land')}
+        canSell={hasPermission('create_sales')}
+        onOpenPiece={(piece) => {
+          setMapBatchId(null)
+          openPieceDialog(piece.land_batch_id, piece)
+        }}
+        onSellPiece={(piece) => {
+          setMapBatchId(null)
+          setSelectedPieces(new Set([piece.id]))
+          setClientDialogOpen(true)
+        }}
+        onViewSale={(piece) => {
+          setMapBatchId(null)
+          openSaleDetailsDialog(piece)
+        }}
+        onPolygonsSaved={applySavedPolygons}
+      />
+
+      <BatchGeometryDialog
+        open={!!geometryBatchId}
+        onOpenChange={(open) => { if (!open) setGeometryBatchId(null) }}
+        batch={batches.find(b => b.id === geometryBatchId) || null}
+        canEdit={hasPermission('edit_land')}
+        onGeometrySaved={applySavedGeometry}
+      />
+
+      <BulkImportDialog
+        kind="pieces"
+        open={importPiecesDialogOpen}
+        onOpenChange={setImportPiecesDialogOpen}
+        batch={selectedBatchForPiece ? { id: selectedBatchForPiece.id, name: selectedBatchForPiece.name } : null}
+        getDefaultPiecePrices={(surface) => calculatePieceValues('', surface.toString())}
+        onImported={async () => {
+          await fetchBatches()
+          if (selectedBatchId) {
+            setExpandedBatches(prev => new Set(prev).add(selectedBatchId))
+          }
+        }}
+      />
+
       <Dialog open={bulkAddDialogOpen} onOpenChange={setBulkAddDialogOpen}>
         <DialogContent className="w-[95vw] sm:w-full max-w-lg max-h-[95vh] overflow-y-auto">
           <DialogHeader>
@@ -6500,18 +6622,12 @@ export function LandManagement() {
                           ? (p.surface_area * offer.price_per_m2_installment)
                           : (p.selling_price_installment || p.selling_price_full || 0)
                         
-                        const companyFeePercentage = offer.company_fee_percentage || 0
-                        const companyFeePerPiece = (piecePrice * companyFeePercentage) / 100
-                        
-                        const advancePerPiece = offer.advance_is_percentage
-                          ? (piecePrice * offer.advance_amount) / 100
-                          : offer.advance_amount
-                        
-                        // Remaining for installments = Price - Advance (WITHOUT commission)
-                        const remainingPerPiece = piecePrice - advancePerPiece
-                        const monthsPerPiece = offer.monthly_payment > 0 && remainingPerPiece > 0
-                          ? Math.ceil(remainingPerPiece / offer.monthly_payment)
-                          : 0
+                        const {
+                          companyFeeAmount: companyFeePerPiece,
+                          advanceAmount: advancePerPiece,
+                          remainingAmount: remainingPerPiece,
+                          numberOfMonths: monthsPerPiece,
+                        } = calculateOfferPlan({ offer, price: piecePrice })
                         
                         return {
                           piecePrice,
@@ -6801,39 +6917,21 @@ export function LandManagement() {
                       : (p.selling_price_installment || p.selling_price_full || 0)
                     
                     const companyFeePercentage = offerToUse.company_fee_percentage || 0
-                    const companyFeePerPiece = (piecePrice * companyFeePercentage) / 100
+                    // Remaining for installments = Price - Advance - Commission
+                    // Commission is collected separately at confirmation with advance
+                    const reservationAmount = parseFloat(String(reservationPerPiece)) || 0
+                    const {
+                      companyFeeAmount: companyFeePerPiece,
+                      advanceAmount: advancePerPiece,
+                      remainingAmount: remainingPerPiece,
+                      numberOfMonths: monthsPerPiece,
+                      monthlyAmount: monthlyAmountPerPiece,
+                    } = calculateOfferPlan({ offer: offerToUse, price: piecePrice, reservationAmount })
                     // Total payable = price + commission (for display purposes)
                     const totalPayablePerPiece = piecePrice + companyFeePerPiece
                     
-                    const advancePerPiece = offerToUse.advance_is_percentage
-                      ? (piecePrice * offerToUse.advance_amount) / 100
-                      : offerToUse.advance_amount
-                    
                     // التسبقة = Advance - Reservation (العربون is deducted from التسبقة)
-                    const reservationAmount = parseFloat(String(reservationPerPiece)) || 0
-                    const advanceAfterReservation = Math.max(0, (advancePerPiece || 0) - reservationAmount)
-                    
-                    // Remaining for installments = Price - Advance (after reservation deduction) - Commission
-                    // Commission is collected separately at confirmation with advance
-                    const remainingPerPiece = Math.max(0, (piecePrice || 0) - advanceAfterReservation - (companyFeePerPiece || 0))
-                    
-                    // Calculate based on what the offer has: monthly_payment or number_of_months
-                    let monthsPerPiece = 0
-                    let monthlyAmountPerPiece = 0
-                    
-                    if (offerToUse.monthly_payment && offerToUse.monthly_payment > 0) {
-                      // Offer has monthly_payment - calculate number of months
-                      monthlyAmountPerPiece = offerToUse.monthly_payment
-                      monthsPerPiece = remainingPerPiece > 0
-                        ? Math.ceil(remainingPerPiece / offerToUse.monthly_payment)
-                        : 0
-                    } else if (offerToUse.number_of_months && offerToUse.number_of_months > 0) {
-                      // Offer has number_of_months - calculate monthly payment
-                      monthsPerPiece = offerToUse.number_of_months
-                      monthlyAmountPerPiece = remainingPerPiece > 0
-                        ? remainingPerPiece / offerToUse.number_of_months
-                        : 0
-                    }
+                    const advanceAfterReservation = Math.max(0, advancePerPiece - reservationAmount)
                     
                     return {
                       piece: p,
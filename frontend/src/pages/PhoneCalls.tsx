@@ -20,6 +20,9 @@ import { showNotification } from '@/components/ui/notification'
 import { ConfirmDialog } from '@/components/ui/confirm-dialog'
 import { Phone, Plus, Calendar as CalendarIcon, CheckCircle2, XCircle, Clock, MapPin, ChevronLeft, ChevronRight, Trash2 } from 'lucide-react'
 import { formatDate } from '@/lib/utils'
+import { getTranslation } from '@/lib/translations'
+import { ExportButtons } from '@/components/ExportButtons'
+import type { ExportColumn } from '@/lib/exportFile'
 import type { LandBatch } from '@/types/database'
 
 interface PhoneCall {
@@ -293,6 +296,27 @@ export function PhoneCalls() {
     'يوليو', 'أغسطس', 'سبتمبر', 'أكتوبر', 'نوفمبر', 'ديسمبر'
   ]
 
+  // Export: calls of the displayed month, headers from the phoneCalls translations
+  const bilingual = (key: string) => ({ ar: getTranslation('ar', key), fr: getTranslation('fr', key) })
+  const statusKeys: Record<PhoneCall['status'], string> = {
+    pending: 'phoneCalls.pending',
+    done: 'phoneCalls.done',
+    not_done: 'phoneCalls.notDone',
+  }
+  const phoneCallExportColumns: ExportColumn<PhoneCall>[] = [
+    { header: bilingual('phoneCalls.rendezvousDateTime'), value: c => new Date(c.rendezvous_time).toLocaleString(locale) },
+    { header: bilingual('phoneCalls.name'), value: c => c.name },
+    { header: bilingual('phoneCalls.phoneNumber'), value: c => c.phone_number },
+    { header: bilingual('phoneCalls.landBatch'), value: c => c.land_batch?.name },
+    {
+      header: bilingual('phoneCalls.motorized'),
+      value: c => t(c.motorized === 'motorisé' ? 'phoneCalls.motorizedOption' : 'phoneCalls.nonMotorizedOption'),
+    },
+    { header: bilingual('phoneCalls.status'), value: c => t(statusKeys[c.status]) },
+    { header: bilingual('common.notes'), value: c => c.notes },
+  ]
+  const phoneCallsForExport = [...phoneCalls].sort((a, b) => a.rendezvous_time.localeCompare(b.rendezvous_time))
+
   const goToPreviousMonth = () => {
     setCurrentCalendarDate(new Date(currentYear, currentMonth - 1, 1))
   }
@@ -313,10 +337,19 @@ export function PhoneCalls() {
           <Phone className="h-6 w-6 text-primary" />
           <h1 className="text-2xl font-bold">{t('phoneCalls.title')}</h1>
         </div>
-        <Button onClick={() => setDialogOpen(true)} className="w-full sm:w-auto">
-          <Plus className="h-4 w-4 ml-2" />
-          {t('phoneCalls.addCall')}
-        </Button>
+        <div className="flex flex-wrap items-center gap-2 w-full sm:w-auto">
+          <ExportButtons
+            permission="client_export"
+            filename="rendez-vous"
+            sheetName={bilingual('phoneCalls.title')}
+            columns={phoneCallExportColumns}
+            rows={phoneCallsForExport}
+          />
+          <Button onClick={() => setDialogOpen(true)} className="w-full sm:w-auto">
+            <Plus className="h-4 w-4 ml-2" />
+            {t('phoneCalls.addCall')}
+          </Button>
+        </div>
       </div>
 
       {/* Calendar View */}
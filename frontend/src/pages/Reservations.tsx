@@ -0,0 +1,880 @@
+import { useEffect, useMemo, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/contexts/AuthContext'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Select } from '@/components/ui/select'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { showNotification } from '@/components/ui/notification'
+import { formatCurrency, formatDate, formatDateTime } from '@/lib/utils'
+import { sanitizeNotes, sanitizeText } from '@/lib/sanitize'
+import {
+  DEFAULT_RESERVATION_DAYS,
+  RESERVATION_CHANGE_LABELS,
+  RESERVATION_STATUS_LABELS,
+  addDays,
+  daysUntil,
+  isReservationExpiring,
+} from '@/lib/reservations'
+import { CalendarPlus, History, Plus, ShoppingCart, XCircle } from 'lucide-react'
+import type {
+  Client,
+  LandPiece,
+  PaymentOffer,
+  PaymentType,
+  Reservation,
+  ReservationHistory,
+  ReservationStatus,
+} from '@/types/database'
+
+type ReservationPiece = Pick<LandPiece, 'id' | 'piece_number' | 'surface_area' | 'selling_price_full' | 'selling_price_installment' | 'status' | 'land_batch_id'> & {
+  land_batch?: { name: string } | null
+}
+
+interface ReservationWithDetails extends Reservation {
+  client?: Pick<Client, 'id' | 'name' | 'cin' | 'phone'> | null
+  pieces: ReservationPiece[]
+}
+
+type HistoryEntry = ReservationHistory & { changed_by_user?: { name: string } | null }
+
+const today = () => new Date().toISOString().split('T')[0]
+
+const emptyCreateForm = () => ({
+  batch_id: '',
+  piece_ids: [] as string[],
+  small_advance_amount: '',
+  reserved_until: addDays(new Date(), DEFAULT_RESERVATION_DAYS),
+  payment_method: 'Cash',
+  notes: '',
+})
+
+export function Reservations() {
+  const { hasPermission } = useAuth()
+  const [reservations, setReservations] = useState<ReservationWithDetails[]>([])
+  const [loading, setLoading] = useState(true)
+  const [statusFilter, setStatusFilter] = useState<ReservationStatus | 'all'>('Pending')
+  const [search, setSearch] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  // Create
+  const [createOpen, setCreateOpen] = useState(false)
+  const [createForm, setCreateForm] = useState(emptyCreateForm)
+  const [clientSearch, setClientSearch] = useState('')
+  const [clientResults, setClientResults] = useState<Pick<Client, 'id' | 'name' | 'cin' | 'phone'>[]>([])
+  const [selectedClient, setSelectedClient] = useState<Pick<Client, 'id' | 'name' | 'cin' | 'phone'> | null>(null)
+  const [batches, setBatches] = useState<{ id: string; name: string }[]>([])
+  const [availablePieces, setAvailablePieces] = useState<ReservationPiece[]>([])
+
+  // Extend / cancel / convert / history
+  const [extendTarget, setExtendTarget] = useState<ReservationWithDetails | null>(null)
+  const [extendForm, setExtendForm] = useState({ reserved_until: '', reason: '' })
+  const [cancelTarget, setCancelTarget] = useState<ReservationWithDetails | null>(null)
+  const [cancelReason, setCancelReason] = useState('')
+  const [convertTarget, setConvertTarget] = useState<ReservationWithDetails | null>(null)
+  const [convertForm, setConvertForm] = useState({ payment_type: 'Full' as PaymentType, selected_offer_id: '', deadline_date: '' })
+  const [convertOffers, setConvertOffers] = useState<PaymentOffer[]>([])
+  const [historyTarget, setHistoryTarget] = useState<ReservationWithDetails | null>(null)
+  const [history, setHistory] = useState<HistoryEntry[]>([])
+  const [historyLoading, setHistoryLoading] = useState(false)
+
+  const canCreate = hasPermission('create_sales')
+  const canEdit = hasPermission('edit_sales')
+
+  useEffect(() => {
+    fetchReservations()
+  }, [])
+
+  const fetchReservations = async () => {
+    try {
+      // Expire overdue reservations first so the list is current even without the daily job
+      const { error: transitionError } = await supabase.rpc('run_status_transitions')
+      if (transitionError) console.warn('Status transitions not run:', transitionError.message)
+
+      const { data, error } = await supabase
+        .from('reservations')
+        .select('*, client:clients(id, name, cin, phone)')
+        .order('created_at', { ascending: false })
+        .limit(500)
+
+      if (error) throw error
+
+      const rows = (data || []) as (Reservation & { client: ReservationWithDetails['client'] })[]
+      const pieceIds = Array.from(new Set(rows.flatMap(r => r.land_piece_ids || [])))
+      let pieces: ReservationPiece[] = []
+      if (pieceIds.length > 0) {
+        const { data: piecesData, error: piecesError } = await supabase
+          .from('land_pieces')
+          .select('id, piece_number, surface_area, selling_price_full, selling_price_installment, status, land_batch_id, land_batch:land_batches(name)')
+          .in('id', pieceIds)
+        if (piecesError) throw piecesError
+        pieces = (piecesData || []) as unknown as ReservationPiece[]
+      }
+      const piecesById = new Map(pieces.map(p => [p.id, p]))
+
+      setReservations(rows.map(r => ({
+        ...r,
+        pieces: (r.land_piece_ids || []).map(id => piecesById.get(id)).filter(Boolean) as ReservationPiece[],
+      })))
+    } catch (error) {
+      console.error('Error fetching reservations:', error)
+      showNotification('خطأ في تحميل الحجوزات: ' + (error as Error).message, 'error')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const filteredReservations = useMemo(() => {
+    const term = search.trim().toLowerCase()
+    return reservations.filter(r => {
+      if (statusFilter !== 'all' && r.status !== statusFilter) return false
+      if (!term) return true
+      return (
+        r.client?.name?.toLowerCase().includes(term) ||
+        r.client?.cin?.toLowerCase().includes(term) ||
+        r.client?.phone?.toLowerCase().includes(term) ||
+        r.pieces.some(p => p.piece_number.toLowerCase().includes(term))
+      )
+    })
+  }, [reservations, statusFilter, search])
+
+  const stats = useMemo(() => {
+    const active = reservations.filter(r => r.status === 'Pending')
+    return {
+      active: active.length,
+      expiring: active.filter(isReservationExpiring).length,
+      advances: active.reduce((sum, r) => sum + (r.small_advance_amount || 0), 0),
+      pieces: active.reduce((sum, r) => sum + r.pieces.length, 0),
+    }
+  }, [reservations])
+
+  const describePieces = (pieces: ReservationPiece[]) =>
+    pieces.map(p => `#${p.piece_number}${p.land_batch?.name ? ` (${p.land_batch.name})` : ''}`).join('، ')
+
+  // ============================================
+  // Create
+  // ============================================
+  const openCreateDialog = async () => {
+    setCreateForm(emptyCreateForm())
+    setSelectedClient(null)
+    setClientSearch('')
+    setClientResults([])
+    setAvailablePieces([])
+    setCreateOpen(true)
+
+    const { data, error } = await supabase.from('land_batches').select('id, name').order('name')
+    if (error) {
+      console.error('Error fetching batches:', error)
+      return
+    }
+    setBatches(data || [])
+  }
+
+  const searchClients = async () => {
+    const term = sanitizeText(clientSearch).replace(/[,()]/g, ' ').trim()
+    if (!term) return
+    const { data, error } = await supabase
+      .from('clients')
+      .select('id, name, cin, phone')
+      .or(`name.ilike.%${term}%,cin.ilike.%${term}%,phone.ilike.%${term}%`)
+      .limit(10)
+    if (error) {
+      console.error('Error searching clients:', error)
+      showNotification('خطأ في البحث عن العملاء: ' + error.message, 'error')
+      return
+    }
+    setClientResults(data || [])
+  }
+
+  const selectBatch = async (batchId: string) => {
+    setCreateForm(prev => ({ ...prev, batch_id: batchId, piece_ids: [] }))
+    setAvailablePieces([])
+    if (!batchId) return
+
+    const { data, error } = await supabase
+      .from('land_pieces')
+      .select('id, piece_number, surface_area, selling_price_full, selling_price_installment, status, land_batch_id')
+      .eq('land_batch_id', batchId)
+      .eq('status', 'Available')
+    if (error) {
+      console.error('Error fetching pieces:', error)
+      return
+    }
+    setAvailablePieces(((data || []) as ReservationPiece[])
+      .sort((a, b) => a.piece_number.localeCompare(b.piece_number, undefined, { numeric: true })))
+  }
+
+  const togglePiece = (pieceId: string) => {
+    setCreateForm(prev => ({
+      ...prev,
+      piece_ids: prev.piece_ids.includes(pieceId)
+        ? prev.piece_ids.filter(id => id !== pieceId)
+        : [...prev.piece_ids, pieceId],
+    }))
+  }
+
+  const selectedPiecesTotal = availablePieces
+    .filter(p => createForm.piece_ids.includes(p.id))
+    .reduce((sum, p) => sum + (p.selling_price_full || 0), 0)
+
+  const createReservation = async () => {
+    if (!selectedClient || createForm.piece_ids.length === 0 || submitting) return
+    const advance = parseFloat(createForm.small_advance_amount) || 0
+    if (advance < 0) {
+      showNotification('مبلغ العربون لا يمكن أن يكون سالباً', 'error')
+      return
+    }
+    if (!createForm.reserved_until || createForm.reserved_until < today()) {
+      showNotification('تاريخ انتهاء الحجز يجب أن يكون اليوم أو بعده', 'error')
+      return
+    }
+
+    setSubmitting(true)
+    try {
+      const { error } = await supabase.rpc('create_reservation', {
+        p_client_id: selectedClient.id,
+        p_land_piece_ids: createForm.piece_ids,
+        p_small_advance_amount: advance,
+        p_reserved_until: createForm.reserved_until,
+        p_payment_method: createForm.payment_method,
+        p_notes: createForm.notes ? sanitizeNotes(createForm.notes) : null,
+      })
+      if (error) throw error
+
+      showNotification('تم إنشاء الحجز بنجاح', 'success')
+      setCreateOpen(false)
+      fetchReservations()
+    } catch (error) {
+      console.error('Error creating reservation:', error)
+      showNotification('خطأ في إنشاء الحجز: ' + (error as Error).message, 'error')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  // ============================================
+  // Extend / cancel
+  // ============================================
+  const openExtendDialog = (reservation: ReservationWithDetails) => {
+    const base = reservation.reserved_until < today() ? today() : reservation.reserved_until
+    setExtendForm({ reserved_until: addDays(base, DEFAULT_RESERVATION_DAYS), reason: '' })
+    setExtendTarget(reservation)
+  }
+
+  const extendReservation = async () => {
+    if (!extendTarget || submitting) return
+    if (!extendForm.reason.trim()) {
+      showNotification('يرجى إدخال سبب التمديد', 'error')
+      return
+    }
+    if (extendForm.reserved_until <= extendTarget.reserved_until) {
+      showNotification('التاريخ الجديد يجب أن يكون بعد تاريخ الانتهاء الحالي', 'error')
+      return
+    }
+
+    setSubmitting(true)
+    try {
+      const { error } = await supabase.rpc('extend_reservation', {
+        p_reservation_id: extendTarget.id,
+        p_reserved_until: extendForm.reserved_until,
+        p_reason: sanitizeNotes(extendForm.reason),
+      })
+      if (error) throw error
+
+      showNotification('تم تمديد الحجز', 'success')
+      setExtendTarget(null)
+      fetchReservations()
+    } catch (error) {
+      console.error('Error extending reservation:', error)
+      showNotification('خطأ في تمديد الحجز: ' + (error as Error).message, 'error')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const cancelReservation = async () => {
+    if (!cancelTarget || submitting) return
+    if (!cancelReason.trim()) {
+      showNotification('يرجى إدخال سبب الإلغاء', 'error')
+      return
+    }
+
+    setSubmitting(true)
+    try {
+      const { error } = await supabase.rpc('cancel_reservation', {
+        p_reservation_id: cancelTarget.id,
+        p_reason: sanitizeNotes(cancelReason),
+      })
+      if (error) throw error
+
+      showNotification('تم إلغاء الحجز وتحرير القطع', 'success')
+      setCancelTarget(null)
+      setCancelReason('')
+      fetchReservations()
+    } catch (error) {
+      console.error('Error cancelling reservation:', error)
+      showNotification('خطأ في إلغاء الحجز: ' + (error as Error).message, 'error')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  // ============================================
+  // Convert to sale
+  // ============================================
+  const openConvertDialog = async (reservation: ReservationWithDetails) => {
+    setConvertForm({ payment_type: 'Full', selected_offer_id: '', deadline_date: addDays(new Date(), 30) })
+    setConvertOffers([])
+    setConvertTarget(reservation)
+
+    const batchIds = Array.from(new Set(reservation.pieces.map(p => p.land_batch_id)))
+    const { data, error } = await supabase
+      .from('payment_offers')
+      .select('*')
+      .or(`land_batch_id.in.(${batchIds.join(',')}),land_piece_id.in.(${reservation.land_piece_ids.join(',')})`)
+      .order('is_default', { ascending: false })
+      .order('created_at', { ascending: true })
+    if (error) {
+      console.error('Error fetching payment offers:', error)
+      return
+    }
+    const offers = (data || []) as PaymentOffer[]
+    setConvertOffers(offers)
+    if (offers.length > 0) setConvertForm(prev => ({ ...prev, selected_offer_id: offers[0].id }))
+  }
+
+  const convertReservation = async () => {
+    if (!convertTarget || submitting) return
+    if (!convertForm.deadline_date) {
+      showNotification('يرجى إدخال آخر أجل لإتمام الإجراءات', 'error')
+      return
+    }
+
+    setSubmitting(true)
+    try {
+      const { error } = await supabase.rpc('convert_reservation_to_sale', {
+        p_reservation_id: convertTarget.id,
+        p_payment_type: convertForm.payment_type,
+        p_deadline_date: convertForm.deadline_date,
+        p_selected_offer_id: convertForm.payment_type === 'Installment' && convertForm.selected_offer_id
+          ? convertForm.selected_offer_id
+          : null,
+      })
+      if (error) throw error
+
+      showNotification('تم إنشاء البيع. يمكن إتمامه من صفحة تأكيد المبيعات', 'success')
+      setConvertTarget(null)
+      fetchReservations()
+    } catch (error) {
+      console.error('Error converting reservation:', error)
+      showNotification('خطأ في تحويل الحجز إلى بيع: ' + (error as Error).message, 'error')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  // ============================================
+  // History
+  // ============================================
+  const openHistory = async (reservation: ReservationWithDetails) => {
+    setHistoryTarget(reservation)
+    setHistory([])
+    setHistoryLoading(true)
+    try {
+      const { data, error } = await supabase
+        .from('reservation_history')
+        .select('*, changed_by_user:users(name)')
+        .eq('reservation_id', reservation.id)
+        .order('created_at', { ascending: false })
+      if (error) throw error
+      setHistory((data || []) as HistoryEntry[])
+    } catch (error) {
+      console.error('Error fetching reservation history:', error)
+      showNotification('خطأ في تحميل سجل الحجز: ' + (error as Error).message, 'error')
+    } finally {
+      setHistoryLoading(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex h-64 items-center justify-center">
+        <div className="text-muted-foreground">جاري التحميل...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold">الحجوزات</h1>
+          <p className="text-sm text-muted-foreground mt-1">حجز القطع بعربون، تمديده أو إلغاؤه، وتحويله إلى بيع</p>
+        </div>
+        {canCreate && (
+          <Button onClick={openCreateDialog} className="w-full sm:w-auto">
+            <Plus className="h-4 w-4 ml-2" />
+            حجز جديد
+          </Button>
+        )}
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+        <Card className="bg-blue-50 border-blue-200">
+          <CardContent className="pt-3 pb-3">
+            <p className="text-xs font-medium text-blue-700 mb-1">حجوزات نشطة</p>
+            <p className="text-xl font-bold text-blue-900">{stats.active}</p>
+            <p className="text-xs text-blue-600 mt-0.5">{stats.pieces} قطعة محجوزة</p>
+          </CardContent>
+        </Card>
+        <Card className="bg-green-50 border-green-200">
+          <CardContent className="pt-3 pb-3">
+            <p className="text-xs font-medium text-green-700 mb-1">العربون المقبوض</p>
+            <p className="text-xl font-bold text-green-700">{formatCurrency(stats.advances)}</p>
+          </CardContent>
+        </Card>
+        <Card className={stats.expiring > 0 ? 'bg-orange-50 border-orange-200' : ''}>
+          <CardContent className="pt-3 pb-3">
+            <p className="text-xs font-medium text-orange-700 mb-1">تنتهي قريباً</p>
+            <p className="text-xl font-bold text-orange-800">{stats.expiring}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Input
+          placeholder="بحث بالاسم، رقم البطاقة، الهاتف أو رقم القطعة..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="sm:max-w-sm"
+        />
+        <Select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as ReservationStatus | 'all')}
+          className="sm:w-48"
+        >
+          <option value="all">الكل</option>
+          {(Object.keys(RESERVATION_STATUS_LABELS) as ReservationStatus[]).map(status => (
+            <option key={status} value={status}>{RESERVATION_STATUS_LABELS[status].label}</option>
+          ))}
+        </Select>
+      </div>
+
+      {/* List */}
+      {filteredReservations.length === 0 ? (
+        <p className="text-center text-muted-foreground py-8">لا توجد حجوزات</p>
+      ) : (
+        <div className="overflow-x-auto rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-gray-100">
+                <TableHead>العميل</TableHead>
+                <TableHead>القطع</TableHead>
+                <TableHead>العربون</TableHead>
+                <TableHead>تاريخ الحجز</TableHead>
+                <TableHead>صالح حتى</TableHead>
+                <TableHead>الحالة</TableHead>
+                <TableHead>إجراءات</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredReservations.map(reservation => {
+                const remaining = daysUntil(reservation.reserved_until)
+                const expiring = isReservationExpiring(reservation)
+                const statusLabel = RESERVATION_STATUS_LABELS[reservation.status]
+                return (
+                  <TableRow key={reservation.id} className={expiring ? 'bg-orange-50' : ''}>
+                    <TableCell>
+                      <p className="font-medium text-sm">{reservation.client?.name || '-'}</p>
+                      <p className="text-xs text-muted-foreground">{reservation.client?.cin}</p>
+                    </TableCell>
+                    <TableCell className="text-xs max-w-[220px]">{describePieces(reservation.pieces)}</TableCell>
+                    <TableCell className="text-sm">{formatCurrency(reservation.small_advance_amount || 0)}</TableCell>
+                    <TableCell className="text-xs">{formatDate(reservation.reservation_date)}</TableCell>
+                    <TableCell className="text-xs">
+                      {formatDate(reservation.reserved_until)}
+                      {reservation.status === 'Pending' && (
+                        <p className={expiring ? 'text-orange-700 font-medium' : 'text-muted-foreground'}>
+                          {remaining < 0 ? 'منتهي' : remaining === 0 ? 'ينتهي اليوم' : `${remaining} يوم متبقي`}
+                        </p>
+                      )}
+                      {reservation.extension_count > 0 && (
+                        <p className="text-muted-foreground">تم التمديد {reservation.extension_count} مرة</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={statusLabel.variant}>{statusLabel.label}</Badge>
+                      {reservation.status === 'Cancelled' && reservation.cancellation_reason && (
+                        <p className="text-xs text-muted-foreground mt-1">{reservation.cancellation_reason}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {reservation.status === 'Pending' && canCreate && (
+                          <Button size="sm" className="h-7 text-xs bg-green-600 hover:bg-green-700" onClick={() => openConvertDialog(reservation)}>
+                            <ShoppingCart className="h-3.5 w-3.5 ml-1" />
+                            تحويل إلى بيع
+                          </Button>
+                        )}
+                        {reservation.status === 'Pending' && canEdit && (
+                          <>
+                            <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => openExtendDialog(reservation)}>
+                              <CalendarPlus className="h-3.5 w-3.5 ml-1" />
+                              تمديد
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="h-7 text-xs text-red-600"
+                              onClick={() => {
+                                setCancelReason('')
+                                setCancelTarget(reservation)
+                              }}
+                            >
+                              <XCircle className="h-3.5 w-3.5 ml-1" />
+                              إلغاء
+                            </Button>
+                          </>
+                        )}
+                        <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => openHistory(reservation)}>
+                          <History className="h-3.5 w-3.5 ml-1" />
+                          السجل
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {/* Create Dialog */}
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent className="w-[95vw] max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>حجز جديد</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>العميل *</Label>
+              {selectedClient ? (
+                <div className="flex items-center justify-between rounded-md border p-2 text-sm">
+                  <span>{selectedClient.name} - {selectedClient.cin}</span>
+                  <Button size="sm" variant="ghost" onClick={() => setSelectedClient(null)}>تغيير</Button>
+                </div>
+              ) : (
+                <>
+                  <div className="flex gap-2">
+                    <Input
+                      placeholder="الاسم، رقم البطاقة أو الهاتف"
+                      value={clientSearch}
+                      onChange={(e) => setClientSearch(e.target.value)}
+                      onKeyDown={(e) => { if (e.key === 'Enter') searchClients() }}
+                    />
+                    <Button variant="outline" onClick={searchClients}>بحث</Button>
+                  </div>
+                  {clientResults.length > 0 && (
+                    <div className="max-h-40 overflow-y-auto rounded-md border divide-y">
+                      {clientResults.map(client => (
+                        <button
+                          key={client.id}
+                          type="button"
+                          onClick={() => setSelectedClient(client)}
+                          className="flex w-full justify-between px-2 py-1.5 text-sm hover:bg-gray-50"
+                        >
+                          <span>{client.name}</span>
+                          <span className="text-muted-foreground">{client.cin}</span>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="reservation_batch">الدفعة *</Label>
+              <Select id="reservation_batch" value={createForm.batch_id} onChange={(e) => selectBatch(e.target.value)}>
+                <option value="">اختر الدفعة</option>
+                {batches.map(batch => (
+                  <option key={batch.id} value={batch.id}>{batch.name}</option>
+                ))}
+              </Select>
+              {createForm.batch_id && (
+                availablePieces.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">لا توجد قطع متاحة في هذه الدفعة</p>
+                ) : (
+                  <div className="grid grid-cols-3 sm:grid-cols-5 gap-1 max-h-48 overflow-y-auto rounded-md border p-2">
+                    {availablePieces.map(piece => (
+                      <label key={piece.id} className="flex items-center gap-1 text-xs cursor-pointer">
+                        <input
+                          type="checkbox"
+                          className="rounded"
+                          checked={createForm.piece_ids.includes(piece.id)}
+                          onChange={() => togglePiece(piece.id)}
+                        />
+                        #{piece.piece_number}
+                        <span className="text-muted-foreground">({piece.surface_area} م²)</span>
+                      </label>
+                    ))}
+                  </div>
+                )
+              )}
+              {createForm.piece_ids.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {createForm.piece_ids.length} قطعة - السعر الكامل: {formatCurrency(selectedPiecesTotal)}
+                </p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="reservation_advance">العربون</Label>
+                <Input
+                  id="reservation_advance"
+                  type="number"
+                  min="0"
+                  value={createForm.small_advance_amount}
+                  onChange={(e) => setCreateForm({ ...createForm, small_advance_amount: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="reservation_method">طريقة الدفع</Label>
+                <Select
+                  id="reservation_method"
+                  value={createForm.payment_method}
+                  onChange={(e) => setCreateForm({ ...createForm, payment_method: e.target.value })}
+                >
+                  <option value="Cash">نقدي</option>
+                  <option value="BankTransfer">تحويل بنكي</option>
+                  <option value="Check">شيك</option>
+                  <option value="CreditCard">بطاقة ائتمان</option>
+                  <option value="Other">أخرى</option>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="reservation_until">صالح حتى *</Label>
+                <Input
+                  id="reservation_until"
+                  type="date"
+                  min={today()}
+                  value={createForm.reserved_until}
+                  onChange={(e) => setCreateForm({ ...createForm, reserved_until: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="reservation_notes">ملاحظات</Label>
+              <Textarea
+                id="reservation_notes"
+                rows={2}
+                value={createForm.notes}
+                onChange={(e) => setCreateForm({ ...createForm, notes: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setCreateOpen(false)} disabled={submitting}>إلغاء</Button>
+            <Button onClick={createReservation} disabled={submitting || !selectedClient || createForm.piece_ids.length === 0}>
+              {submitting ? 'جاري الحفظ...' : 'تأكيد الحجز'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Extend Dialog */}
+      <Dialog open={!!extendTarget} onOpenChange={(open) => { if (!open) setExtendTarget(null) }}>
+        <DialogContent className="w-[95vw] max-w-md">
+          <DialogHeader>
+            <DialogTitle>تمديد الحجز</DialogTitle>
+          </DialogHeader>
+          {extendTarget && (
+            <div className="space-y-3">
+              <p className="text-sm">
+                {extendTarget.client?.name} - {describePieces(extendTarget.pieces)}
+              </p>
+              <p className="text-sm text-muted-foreground">صالح حالياً حتى {formatDate(extendTarget.reserved_until)}</p>
+              <div className="space-y-2">
+                <Label htmlFor="extend_until">التاريخ الجديد *</Label>
+                <Input
+                  id="extend_until"
+                  type="date"
+                  min={addDays(extendTarget.reserved_until, 1)}
+                  value={extendForm.reserved_until}
+                  onChange={(e) => setExtendForm({ ...extendForm, reserved_until: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="extend_reason">سبب التمديد *</Label>
+                <Textarea
+                  id="extend_reason"
+                  rows={2}
+                  value={extendForm.reason}
+                  onChange={(e) => setExtendForm({ ...extendForm, reason: e.target.value })}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setExtendTarget(null)} disabled={submitting}>إلغاء</Button>
+            <Button onClick={extendReservation} disabled={submitting || !extendForm.reason.trim()}>
+              {submitting ? 'جاري الحفظ...' : 'تمديد'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Cancel Dialog */}
+      <Dialog open={!!cancelTarget} onOpenChange={(open) => { if (!open) setCancelTarget(null) }}>
+        <DialogContent className="w-[95vw] max-w-md">
+          <DialogHeader>
+            <DialogTitle>إلغاء الحجز</DialogTitle>
+          </DialogHeader>
+          {cancelTarget && (
+            <div className="space-y-3">
+              <p className="text-sm">
+                {cancelTarget.client?.name} - {describePieces(cancelTarget.pieces)}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                ستصبح القطع متاحة. العربون ({formatCurrency(cancelTarget.small_advance_amount || 0)}) يبقى مسجلاً، ويُسجَّل استرجاعه إن وجد بشكل منفصل.
+              </p>
+              <div className="space-y-2">
+                <Label htmlFor="cancel_reason">سبب الإلغاء *</Label>
+                <Textarea
+                  id="cancel_reason"
+                  rows={2}
+                  value={cancelReason}
+                  onChange={(e) => setCancelReason(e.target.value)}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setCancelTarget(null)} disabled={submitting}>رجوع</Button>
+            <Button variant="destructive" onClick={cancelReservation} disabled={submitting || !cancelReason.trim()}>
+              {submitting ? 'جاري الإلغاء...' : 'إلغاء الحجز'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Convert Dialog */}
+      <Dialog open={!!convertTarget} onOpenChange={(open) => { if (!open) setConvertTarget(null) }}>
+        <DialogContent className="w-[95vw] max-w-md">
+          <DialogHeader>
+            <DialogTitle>تحويل الحجز إلى بيع</DialogTitle>
+          </DialogHeader>
+          {convertTarget && (
+            <div className="space-y-3">
+              <p className="text-sm">
+                {convertTarget.client?.name} - {describePieces(convertTarget.pieces)}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                العربون المدفوع ({formatCurrency(convertTarget.small_advance_amount || 0)}) يُحتسب في البيع.
+              </p>
+              <div className="space-y-2">
+                <Label htmlFor="convert_payment_type">نوع الدفع</Label>
+                <Select
+                  id="convert_payment_type"
+                  value={convertForm.payment_type}
+                  onChange={(e) => setConvertForm({ ...convertForm, payment_type: e.target.value as PaymentType })}
+                >
+                  <option value="Full">دفع كامل</option>
+                  <option value="Installment">بالتقسيط</option>
+                  <option value="PromiseOfSale">وعد بالبيع</option>
+                </Select>
+              </div>
+              {convertForm.payment_type === 'Installment' && (
+                <div className="space-y-2">
+                  <Label htmlFor="convert_offer">العرض</Label>
+                  <Select
+                    id="convert_offer"
+                    value={convertForm.selected_offer_id}
+                    onChange={(e) => setConvertForm({ ...convertForm, selected_offer_id: e.target.value })}
+                  >
+                    <option value="">بدون عرض (سعر القطعة بالتقسيط)</option>
+                    {convertOffers.map(offer => (
+                      <option key={offer.id} value={offer.id}>
+                        {offer.offer_name || 'عرض'}
+                        {offer.price_per_m2_installment ? ` - ${formatCurrency(offer.price_per_m2_installment)}/م²` : ''}
+                      </option>
+                    ))}
+                  </Select>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="convert_deadline">آخر أجل لإتمام الإجراءات *</Label>
+                <Input
+                  id="convert_deadline"
+                  type="date"
+                  value={convertForm.deadline_date}
+                  onChange={(e) => setConvertForm({ ...convertForm, deadline_date: e.target.value })}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setConvertTarget(null)} disabled={submitting}>إلغاء</Button>
+            <Button onClick={convertReservation} disabled={submitting || !convertForm.deadline_date}>
+              {submitting ? 'جاري التحويل...' : 'إنشاء البيع'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* History Dialog */}
+      <Dialog open={!!historyTarget} onOpenChange={(open) => { if (!open) setHistoryTarget(null) }}>
+        <DialogContent className="w-[95vw] max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>سجل الحجز - {historyTarget?.client?.name}</DialogTitle>
+          </DialogHeader>
+          {historyLoading ? (
+            <p className="text-center text-muted-foreground py-4">جاري التحميل...</p>
+          ) : history.length === 0 ? (
+            <p className="text-center text-muted-foreground py-4">لا يوجد سجل</p>
+          ) : (
+            <div className="space-y-2">
+              {history.map(entry => (
+                <div key={entry.id} className="rounded-md border p-2 text-sm space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <Badge variant="outline">{RESERVATION_CHANGE_LABELS[entry.change_type] || entry.change_type}</Badge>
+                    <span className="text-xs text-muted-foreground">{formatDateTime(entry.created_at)}</span>
+                  </div>
+                  {entry.change_description && <p>{entry.change_description}</p>}
+                  {entry.reason && <p className="text-muted-foreground">السبب: {entry.reason}</p>}
+                  {entry.changed_by_user?.name && (
+                    <p className="text-xs text-muted-foreground">بواسطة: {entry.changed_by_user.name}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -19,8 +19,11 @@ import {
 } from '@/components/ui/dialog'
 import { formatCurrency, formatDate, formatDateTime } from '@/lib/utils'
 import { retryWithBackoff, isRetryableError } from '@/lib/retry'
-import { CheckCircle, XCircle, Clock, DollarSign, AlertTriangle, Calendar, Edit, Save } from 'lucide-react'
+import { CheckCircle, XCircle, Clock, DollarSign, AlertTriangle, Calendar, Edit, Save, Printer } from 'lucide-react'
 import { showNotification } from '@/components/ui/notification'
+import { SaleContractDialog } from '@/components/SaleContractDialog'
+import { CancellationSettlementDialog } from '@/components/CancellationSettlementDialog'
+import { RemovePieceDialog } from '@/components/RemovePieceDialog'
 import { ConfirmDialog } from '@/components/ui/confirm-dialog'
 import {
   Table,
@@ -31,6 +34,14 @@ import {
   TableRow,
 } from '@/components/ui/table'
 import type { Sale, Client, LandPiece, PaymentOffer } from '@/types/database'
+import {
+  buildInstallmentSchedule,
+  calculateAdvanceAmount,
+  calculateOfferPlan,
+  resolveInstallmentTerms,
+  roundMoney,
+  toDateString,
+} from '@/lib/installmentSchedule'
 
 interface Rendezvous {
   id: string
@@ -65,6 +76,8 @@ export function SaleConfirmation() {
   const [confirmBeforeConfirmOpen, setConfirmBeforeConfirmOpen] = useState(false)
   const [pendingConfirmationType, setPendingConfirmationType] = useState<'full' | 'bigAdvance' | null>(null)
   const [successDialogOpen, setSuccessDialogOpen] = useState(false)
+  const [contractSaleId, setContractSaleId] = useState<string | null>(null)
+  const [contractDialogOpen, setContractDialogOpen] = useState(false)
   const [successMessage, setSuccessMessage] = useState('')
   
   // Search state
@@ -1526,37 +1539,13 @@ export function SaleConfirmation() {
     const totalPayablePerPiece = calculatedPricePerPiece + companyFeePerPiece
     
     // Calculate number of months from offer if available
-    if (offer && type === 'bigAdvance' && sale.payment_type === 'Installment') {
-      // Advance is calculated from PRICE (without commission)
-      const advanceAmount = offer.advance_is_percentage
-        ? (calculatedPricePerPiece * offer.advance_amount) / 100
-        : offer.advance_amount
-      // Remaining for installments = Price - Reservation - Advance (commission is paid at confirmation)
-      const remainingAmount = calculatedPricePerPiece - reservationPerPiece - advanceAmount
-      
-      let numberOfMonths = 0
-      // IMPORTANT: Prioritize number_of_months if set - this was the primary input method
-      if (offer.number_of_months && offer.number_of_months > 0) {
-        numberOfMonths = offer.number_of_months
-      } else if (offer.monthly_payment && offer.monthly_payment > 0) {
-        numberOfMonths = remainingAmount > 0 ? Math.ceil(remainingAmount / offer.monthly_payment) : 0
-      } else {
-        numberOfMonths = 12
-      }
-      setNumberOfInstallments(numberOfMonths.toString())
-    } else if (offer && sale.payment_type === 'Installment') {
-      // For installment sales, try to get number_of_months from offer even if not bigAdvance type
-      // IMPORTANT: Prioritize number_of_months if set - this was the primary input method
-      if (offer.number_of_months && offer.number_of_months > 0) {
-        setNumberOfInstallments(offer.number_of_months.toString())
-      } else if (offer.monthly_payment && offer.monthly_payment > 0) {
-        // Calculate from monthly_payment if number_of_months is not set
-        const advanceAmount = offer.advance_is_percentage
-          ? (calculatedPricePerPiece * offer.advance_amount) / 100
-          : offer.advance_amount
-        const remainingAmount = calculatedPricePerPiece - reservationPerPiece - advanceAmount
-        const calculatedMonths = remainingAmount > 0 ? Math.ceil(remainingAmount / offer.monthly_payment) : 0
-        setNumberOfInstallments(calculatedMonths.toString())
+    // (number_of_months takes priority over monthly_payment - see installmentSchedule)
+    if (offer && sale.payment_type === 'Installment') {
+      const plan = calculateOfferPlan({ offer, price: calculatedPricePerPiece, reservationAmount: reservationPerPiece })
+      if (plan.numberOfMonths > 0) {
+        setNumberOfInstallments(plan.numberOfMonths.toString())
+      } else if (type === 'bigAdvance') {
+        setNumberOfInstallments('12')
       } else {
         setNumberOfInstallments(sale.number_of_installments?.toString() || '12')
       }
@@ -1846,11 +1835,7 @@ export function SaleConfirmation() {
     // Calculate advance amount (التسبقة) from offer if available
     let advancePerPiece = 0
     if (sale.payment_type === 'Installment' && offerToUse) {
-      if (offerToUse.advance_is_percentage) {
-        advancePerPiece = (pricePerPiece * offerToUse.advance_amount) / 100
-      } else {
-        advancePerPiece = offerToUse.advance_amount
-      }
+      advancePerPiece = calculateAdvanceAmount(offerToUse, pricePerPiece)
     } else if (sale.payment_type === 'Installment' && sale.big_advance_amount) {
       // Fallback to sale's big_advance_amount if no offer
       advancePerPiece = sale.big_advance_amount / pieceCount
@@ -1867,209 +1852,26 @@ export function SaleConfirmation() {
     }
   }
 
-  const handleCancelHouse = async (sale: SaleWithDetails, house: any) => {
-    if (!confirm('هل أنت متأكد من إلغاء بيع هذا المنزل وإعادته إلى الحالة المتاحة؟ سيتم استرداد المبلغ المدفوع.')) {
-      return
-    }
+  // Sale being cancelled as a whole (CancellationSettlementDialog)
+  const [settlementSaleId, setSettlementSaleId] = useState<string | null>(null)
+  // One piece removed from a multi-piece sale (RemovePieceDialog)
+  const [pieceToRemove, setPieceToRemove] = useState<{ saleId: string; pieceId: string } | null>(null)
 
-    try {
-      setError(null)
-      
-      // Get all payments for this sale
-      const { data: paymentsData } = await supabase
-        .from('payments')
-        .select('amount_paid')
-        .eq('sale_id', sale.id)
-      
-      const totalPaid = (paymentsData || []).reduce((sum, p) => sum + (parseFloat(p.amount_paid.toString()) || 0), 0)
-      
-      // Cancel the entire sale (house sales are always single-item)
-      const { error: cancelError } = await supabase
-        .from('sales')
-        .update({ status: 'Cancelled' } as any)
-        .eq('id', sale.id)
-      
-      if (cancelError) throw cancelError
-      
-      // Create refund if money was paid
-      if (totalPaid > 0) {
-        await supabase.from('payments').insert([{
-          client_id: sale.client_id,
-          sale_id: sale.id,
-          amount_paid: -totalPaid,
-          payment_type: 'Refund',
-          payment_date: new Date().toISOString().split('T')[0],
-          notes: `استرداد لإلغاء بيع المنزل #${sale.id.slice(0, 8)}`,
-          recorded_by: user?.id || null,
-        }] as any)
-      }
-      
-      // Release the house - update status back to Available
-      await supabase
-        .from('houses')
-        .update({ 
-          status: 'Available',
-          reservation_client_id: null,
-          reserved_until: null
-        } as any)
-        .eq('id', house.id)
-      
-      fetchSales()
-      showNotification('تم إلغاء بيع المنزل بنجاح', 'success')
-    } catch (err) {
-      console.error('Error cancelling house sale:', err)
-      const error = err as any
-      let errorMessage = error.message || 'خطأ غير معروف'
-      
-      setError('حدث خطأ أثناء إلغاء بيع المنزل: ' + errorMessage)
-      showNotification('حدث خطأ أثناء إلغاء بيع المنزل: ' + errorMessage, 'error')
-    }
+  // House sales are single-item: cancelling one cancels the sale with a refund settlement
+  const handleCancelHouse = (sale: SaleWithDetails) => {
+    setSettlementSaleId(sale.id)
   }
 
-  const handleCancelPiece = async (sale: SaleWithDetails, piece: LandPiece) => {
-    if (!confirm('هل أنت متأكد من إلغاء هذه القطعة وإعادتها إلى الحالة المتاحة؟ سيتم استرداد المبلغ المدفوع لهذه القطعة.')) {
+  const handleCancelPiece = (sale: SaleWithDetails, piece: LandPiece) => {
+    const pieceCount = sale.land_piece_ids.length
+
+    // Cancelling the whole sale goes through the refund settlement
+    if (pieceCount === 1 || (keepPiecesTogether && confirmingAllPieces && pieceCount > 1)) {
+      setSettlementSaleId(sale.id)
       return
     }
 
-    try {
-      setError(null)
-      
-      const pieceCount = sale.land_piece_ids.length
-      
-      // Get all payments for this sale to calculate refund per piece
-      const { data: paymentsData } = await supabase
-        .from('payments')
-        .select('amount_paid')
-        .eq('sale_id', sale.id)
-      
-      const totalPaid = (paymentsData || []).reduce((sum, p) => sum + (parseFloat(p.amount_paid.toString()) || 0), 0)
-      const paidPerPiece = totalPaid / pieceCount
-      
-      if (pieceCount === 1 || (keepPiecesTogether && confirmingAllPieces && pieceCount > 1)) {
-        // Only one piece - cancel the entire sale
-        const { error: cancelError } = await supabase
-          .from('sales')
-          .update({ status: 'Cancelled' } as any)
-          .eq('id', sale.id)
-        
-        if (cancelError) throw cancelError
-        
-        // Create refund if money was paid
-        if (totalPaid > 0) {
-          await supabase.from('payments').insert([{
-            client_id: sale.client_id,
-            sale_id: sale.id,
-            amount_paid: -totalPaid,
-            payment_type: 'Refund',
-            payment_date: new Date().toISOString().split('T')[0],
-            notes: `استرداد لإلغاء البيع #${sale.id.slice(0, 8)}`,
-            recorded_by: user?.id || null,
-          }] as any)
-        }
-        
-        // Release the piece
-        await supabase
-          .from('land_pieces')
-          .update({ status: 'Available' } as any)
-          .eq('id', piece.id)
-      } else {
-        // Multiple pieces - split the sale
-        const pricePerPiece = sale.total_selling_price / pieceCount
-        const costPerPiece = sale.total_purchase_cost / pieceCount
-        const profitPerPiece = sale.profit_margin / pieceCount
-        const reservationPerPiece = (sale.small_advance_amount || 0) / pieceCount
-        
-        // Create a new cancelled sale for this piece
-        const { data: cancelledSale, error: newSaleError } = await supabase
-          .from('sales')
-          .insert([{
-            client_id: sale.client_id,
-            land_piece_ids: [piece.id],
-            payment_type: sale.payment_type,
-            total_purchase_cost: costPerPiece,
-            total_selling_price: pricePerPiece,
-            profit_margin: profitPerPiece,
-            small_advance_amount: reservationPerPiece,
-            big_advance_amount: 0,
-            number_of_installments: null,
-            monthly_installment_amount: null,
-            status: 'Cancelled',
-            sale_date: sale.sale_date,
-            notes: `إلغاء قطعة من البيع #${sale.id.slice(0, 8)}`,
-          }] as any)
-          .select()
-          .single()
-        
-        if (newSaleError) throw newSaleError
-        
-        // Create refund for this piece if money was paid
-        if (paidPerPiece > 0 && cancelledSale) {
-          await supabase.from('payments').insert([{
-            client_id: sale.client_id,
-            sale_id: cancelledSale.id,
-            amount_paid: -paidPerPiece,
-            payment_type: 'Refund',
-            payment_date: new Date().toISOString().split('T')[0],
-            notes: `استرداد لإلغاء القطعة #${piece.piece_number}`,
-            recorded_by: user?.id || null,
-          }] as any)
-        }
-        
-        // Release the piece
-        await supabase
-          .from('land_pieces')
-          .update({ status: 'Available' } as any)
-          .eq('id', piece.id)
-        
-        // Update the original sale - remove this piece and recalculate
-        const remainingPieces = sale.land_piece_ids.filter(id => id !== piece.id)
-        const remainingCount = remainingPieces.length
-        const remainingPrice = sale.total_selling_price - pricePerPiece
-        const remainingCost = sale.total_purchase_cost - costPerPiece
-        const remainingProfit = sale.profit_margin - profitPerPiece
-        const remainingReservation = (sale.small_advance_amount || 0) - reservationPerPiece
-        
-        await supabase
-          .from('sales')
-          .update({
-            land_piece_ids: remainingPieces,
-            total_selling_price: remainingPrice,
-            total_purchase_cost: remainingCost,
-            profit_margin: remainingProfit,
-            small_advance_amount: remainingReservation,
-            big_advance_amount: sale.big_advance_amount ? (sale.big_advance_amount * remainingCount / pieceCount) : 0,
-            monthly_installment_amount: sale.monthly_installment_amount ? (sale.monthly_installment_amount * remainingCount / pieceCount) : null,
-          } as any)
-          .eq('id', sale.id)
-      }
-      
-      fetchSales()
-    } catch (err) {
-      console.error('Error cancelling piece:', err)
-      const error = err as any
-      let errorMessage = error.message || 'خطأ غير معروف'
-      
-      // Log full error details for debugging
-      if (error.details) {
-        console.error('Error details:', error.details)
-        errorMessage = error.details
-      }
-      if (error.hint) {
-        console.error('Error hint:', error.hint)
-      }
-      if (error.code) {
-        console.error('Error code:', error.code)
-      }
-      
-      // Check for the specific "Confirmed" enum error
-      if (errorMessage.includes('sale_status') && errorMessage.includes('Confirmed')) {
-        errorMessage = 'خطأ في قاعدة البيانات: يرجى تشغيل السكريبت fix_sale_status_confirmed_error.sql في Supabase SQL Editor لإصلاح المشكلة'
-        console.error('DATABASE TRIGGER ISSUE: A trigger is trying to set sale status to "Confirmed" which is not a valid enum value.')
-      }
-      
-      setError('حدث خطأ أثناء إلغاء القطعة: ' + errorMessage)
-      showNotification('حدث خطأ أثناء إلغاء القطعة: ' + errorMessage, 'error')
-    }
+    setPieceToRemove({ saleId: sale.id, pieceId: piece.id })
   }
 
 
@@ -2110,6 +1912,9 @@ export function SaleConfirmation() {
     setError(null)
     setConfirmBeforeConfirmOpen(false)
     
+    // Sale the contract is printed for once confirmation succeeds
+    let confirmedSaleId: string | null = null
+    
     try {
       // Check if this is a house sale
       const isHouseSale = selectedHouse && (selectedSale as any).house_ids && (selectedSale as any).house_ids.length > 0
@@ -2289,20 +2094,20 @@ export function SaleConfirmation() {
               monthlyAmount = selectedSale.monthly_installment_amount
             } else if (selectedSale.number_of_installments && selectedSale.number_of_installments > 0) {
               // Sale has manually edited number of installments - use it and calculate monthly amount
-              installments = selectedSale.number_of_installments
-              monthlyAmount = remainingAfterAdvance / installments
+              ({ numberOfMonths: installments, monthlyAmount } = resolveInstallmentTerms(remainingAfterAdvance, {
+                numberOfMonths: selectedSale.number_of_installments,
+              }))
             } else if (selectedSale.monthly_installment_amount && selectedSale.monthly_installment_amount > 0) {
               // Sale has manually edited monthly amount - use it and calculate number of installments
-              monthlyAmount = selectedSale.monthly_installment_amount
-              installments = Math.ceil(remainingAfterAdvance / monthlyAmount)
-            } else if (selectedOffer && selectedOffer.number_of_months && selectedOffer.number_of_months > 0) {
-              // No manual edits - use offer's number_of_months (prioritize over monthly_payment)
-              installments = selectedOffer.number_of_months
-              monthlyAmount = remainingAfterAdvance / selectedOffer.number_of_months
-            } else if (selectedOffer && selectedOffer.monthly_payment && selectedOffer.monthly_payment > 0) {
-              // No manual edits - use offer's monthly_payment
-              installments = Math.ceil(remainingAfterAdvance / selectedOffer.monthly_payment)
-              monthlyAmount = selectedOffer.monthly_payment
+              ({ numberOfMonths: installments, monthlyAmount } = resolveInstallmentTerms(remainingAfterAdvance, {
+                monthlyPayment: selectedSale.monthly_installment_amount,
+              }))
+            } else if (selectedOffer && ((selectedOffer.number_of_months || 0) > 0 || (selectedOffer.monthly_payment || 0) > 0)) {
+              // No manual edits - use offer terms (number_of_months takes priority over monthly_payment)
+              ({ numberOfMonths: installments, monthlyAmount } = resolveInstallmentTerms(remainingAfterAdvance, {
+                numberOfMonths: selectedOffer.number_of_months,
+                monthlyPayment: selectedOffer.monthly_payment,
+              }))
             } else {
               // No offer or offer doesn't have payment info - use form values
               installments = parseInt(numberOfInstallments) || selectedSale.number_of_installments || 12
@@ -2312,17 +2117,24 @@ export function SaleConfirmation() {
               setConfirming(false)
               return
               }
-              monthlyAmount = remainingAfterAdvance / installments
+              monthlyAmount = roundMoney(remainingAfterAdvance / installments)
             }
             
-            updates.number_of_installments = installments
-            updates.monthly_installment_amount = parseFloat(monthlyAmount.toFixed(2))
-            const startDateStr = installmentStartDate || new Date().toISOString().split('T')[0]
+            const startDateStr = installmentStartDate || toDateString(new Date())
+            // Create installments schedule (last installment absorbs the rounding remainder)
+            const installmentsToCreate = buildInstallmentSchedule({
+              saleId: selectedSale.id,
+              remainingAmount: remainingAfterAdvance,
+              numberOfMonths: installments,
+              monthlyAmount,
+              startDate: startDateStr,
+            })
+            // The schedule stops early when the monthly amount covers the balance sooner
+            const scheduledCount = installmentsToCreate.length
+            updates.number_of_installments = scheduledCount
+            updates.monthly_installment_amount = roundMoney(monthlyAmount)
             updates.installment_start_date = startDateStr
-            // Calculate end date (start date + number of months - 1)
-            const endDate = new Date(startDateStr)
-            endDate.setMonth(endDate.getMonth() + installments - 1)
-            updates.installment_end_date = endDate.toISOString().split('T')[0]
+            updates.installment_end_date = scheduledCount > 0 ? installmentsToCreate[scheduledCount - 1].due_date : null
             
             // Get existing installments to see what we're working with
             const { data: existingInstallments } = await supabase
@@ -2348,25 +2160,6 @@ export function SaleConfirmation() {
               }
             }
             
-            // Create installments schedule
-            const installmentsToCreate = []
-            const startDate = new Date(installmentStartDate || new Date())
-            startDate.setHours(0, 0, 0, 0) // Ensure consistent date handling
-            for (let i = 0; i < installments; i++) {
-              const dueDate = new Date(startDate)
-              // First installment (i=0) should be on startDate, second (i=1) should be 1 month later, etc.
-              dueDate.setMonth(dueDate.getMonth() + i)
-              installmentsToCreate.push({
-                sale_id: selectedSale.id,
-                installment_number: i + 1,
-                amount_due: parseFloat(monthlyAmount.toFixed(2)),
-                amount_paid: 0,
-                stacked_amount: 0,
-                due_date: dueDate.toISOString().split('T')[0],
-                status: 'Unpaid',
-              })
-            }
-            
             // Insert or update installments - optimized batch processing
             // Fetch all existing installments for this sale in one query
             const { data: allExistingInstallments } = await supabase
@@ -2472,13 +2265,13 @@ export function SaleConfirmation() {
             }
             
             // Clean up any extra installments that shouldn't exist (if number of installments decreased)
-            if (existingInstallments && existingInstallments.length > installments) {
+            if (existingInstallments && existingInstallments.length > scheduledCount) {
               // Delete installments with numbers greater than the new count
               await supabase
                 .from('installments')
                 .delete()
                 .eq('sale_id', selectedSale.id)
-                .gt('installment_number', installments)
+                .gt('installment_number', scheduledCount)
             }
           }
         }
@@ -2597,6 +2390,7 @@ export function SaleConfirmation() {
           .single()
 
         if (updateError) throw updateError
+        confirmedSaleId = selectedSale.id
 
         // Create payment record
         if (received > 0) {
@@ -2689,6 +2483,7 @@ export function SaleConfirmation() {
         }
         
         // Create a new sale for this piece
+        let installmentsRemainingAmount = 0
         const newSaleData: any = {
           client_id: selectedSale.client_id,
           land_piece_ids: [selectedPiece.id],
@@ -2769,20 +2564,20 @@ export function SaleConfirmation() {
               monthlyAmount = selectedSale.monthly_installment_amount
             } else if (selectedSale.number_of_installments && selectedSale.number_of_installments > 0) {
               // Sale has manually edited number of installments - use it and calculate monthly amount
-              installments = selectedSale.number_of_installments
-              monthlyAmount = remainingAfterAdvance / installments
+              ({ numberOfMonths: installments, monthlyAmount } = resolveInstallmentTerms(remainingAfterAdvance, {
+                numberOfMonths: selectedSale.number_of_installments,
+              }))
             } else if (selectedSale.monthly_installment_amount && selectedSale.monthly_installment_amount > 0) {
               // Sale has manually edited monthly amount - use it and calculate number of installments
-              monthlyAmount = selectedSale.monthly_installment_amount
-              installments = Math.ceil(remainingAfterAdvance / monthlyAmount)
-            } else if (selectedOffer && selectedOffer.number_of_months && selectedOffer.number_of_months > 0) {
-              // No manual edits - use offer's number_of_months (prioritize over monthly_payment)
-              installments = selectedOffer.number_of_months
-              monthlyAmount = remainingAfterAdvance / selectedOffer.number_of_months
-            } else if (selectedOffer && selectedOffer.monthly_payment && selectedOffer.monthly_payment > 0) {
-              // No manual edits - use offer's monthly_payment
-              installments = Math.ceil(remainingAfterAdvance / selectedOffer.monthly_payment)
-              monthlyAmount = selectedOffer.monthly_payment
+              ({ numberOfMonths: installments, monthlyAmount } = resolveInstallmentTerms(remainingAfterAdvance, {
+                monthlyPayment: selectedSale.monthly_installment_amount,
+              }))
+            } else if (selectedOffer && ((selectedOffer.number_of_months || 0) > 0 || (selectedOffer.monthly_payment || 0) > 0)) {
+              // No manual edits - use offer terms (number_of_months takes priority over monthly_payment)
+              ({ numberOfMonths: installments, monthlyAmount } = resolveInstallmentTerms(remainingAfterAdvance, {
+                numberOfMonths: selectedOffer.number_of_months,
+                monthlyPayment: selectedOffer.monthly_payment,
+              }))
             } else {
               // No offer or offer doesn't have payment info - use form values
               installments = parseInt(numberOfInstallments) || selectedSale.number_of_installments || 12
@@ -2792,17 +2587,25 @@ export function SaleConfirmation() {
               setConfirming(false)
               return
               }
-              monthlyAmount = remainingAfterAdvance / installments
+              monthlyAmount = roundMoney(remainingAfterAdvance / installments)
             }
             
-            newSaleData.number_of_installments = installments
-            newSaleData.monthly_installment_amount = parseFloat(monthlyAmount.toFixed(2))
-            const startDateStr = installmentStartDate || new Date().toISOString().split('T')[0]
+            installmentsRemainingAmount = remainingAfterAdvance
+            const startDateStr = installmentStartDate || toDateString(new Date())
+            // Count the rows the schedule will really have (it can stop early)
+            const plannedInstallments = buildInstallmentSchedule({
+              saleId: '',
+              remainingAmount: remainingAfterAdvance,
+              numberOfMonths: installments,
+              monthlyAmount,
+              startDate: startDateStr,
+            })
+            newSaleData.number_of_installments = plannedInstallments.length
+            newSaleData.monthly_installment_amount = roundMoney(monthlyAmount)
             newSaleData.installment_start_date = startDateStr
-            // Calculate end date (start date + number of months - 1)
-            const endDate = new Date(startDateStr)
-            endDate.setMonth(endDate.getMonth() + installments - 1)
-            newSaleData.installment_end_date = endDate.toISOString().split('T')[0]
+            newSaleData.installment_end_date = plannedInstallments.length > 0
+              ? plannedInstallments[plannedInstallments.length - 1].due_date
+              : null
           }
         }
 
@@ -2857,6 +2660,7 @@ export function SaleConfirmation() {
           
           newSale = fetchedSales[0]
         }
+        confirmedSaleId = newSale.id
         
         // Update with company fee if columns exist (after SQL migration)
         // We'll try to update, but ignore errors if columns don't exist yet
@@ -2974,25 +2778,13 @@ export function SaleConfirmation() {
             }
           }
           
-          const installmentsToCreate = []
-          const startDate = new Date(newSaleData.installment_start_date || new Date())
-          startDate.setHours(0, 0, 0, 0) // Ensure consistent date handling
-          const monthlyAmount = newSaleData.monthly_installment_amount || 0
-          
-          for (let i = 0; i < newSaleData.number_of_installments; i++) {
-            const dueDate = new Date(startDate)
-            // First installment (i=0) should be on startDate, second (i=1) should be 1 month later, etc.
-            dueDate.setMonth(dueDate.getMonth() + i)
-            installmentsToCreate.push({
-              sale_id: newSale.id,
-              installment_number: i + 1,
-              amount_due: monthlyAmount,
-              amount_paid: 0,
-              stacked_amount: 0,
-              due_date: dueDate.toISOString().split('T')[0],
-              status: 'Unpaid',
-            })
-          }
+          const installmentsToCreate = buildInstallmentSchedule({
+            saleId: newSale.id,
+            remainingAmount: installmentsRemainingAmount,
+            numberOfMonths: newSaleData.number_of_installments,
+            monthlyAmount: newSaleData.monthly_installment_amount || 0,
+            startDate: newSaleData.installment_start_date || undefined,
+          })
           
           // Insert or update installments - optimized batch processing
           // Fetch all existing installments for this sale in one query
@@ -3290,6 +3082,7 @@ export function SaleConfirmation() {
                 }
                 
                 // Create a new sale for this piece (same logic as single piece confirmation)
+                let installmentsRemainingAmount = 0
                 const newSaleData: any = {
                   client_id: currentSale.client_id,
                   land_piece_ids: [pieceToConfirm.id],
@@ -3345,27 +3138,32 @@ export function SaleConfirmation() {
                     const remainingAfterAdvance = pieceValues.pricePerPiece - advanceOnly - pieceValues.companyFeePerPiece
                     
                     if (remainingAfterAdvance > 0) {
-                      let installments = 0
-                      let monthlyAmount = 0
-                      
-                      if (offerToUse && offerToUse.monthly_payment && offerToUse.monthly_payment > 0) {
-                        installments = Math.ceil(remainingAfterAdvance / offerToUse.monthly_payment)
-                        monthlyAmount = offerToUse.monthly_payment
-                      } else if (offerToUse && offerToUse.number_of_months && offerToUse.number_of_months > 0) {
-                        installments = offerToUse.number_of_months
-                        monthlyAmount = remainingAfterAdvance / offerToUse.number_of_months
-                      } else {
+                      // Offer terms first (number_of_months over monthly_payment), then form/sale fallback
+                      let { numberOfMonths: installments, monthlyAmount } = resolveInstallmentTerms(remainingAfterAdvance, {
+                        numberOfMonths: offerToUse?.number_of_months,
+                        monthlyPayment: offerToUse?.monthly_payment,
+                      })
+                      if (installments === 0) {
                         installments = parseInt(numberOfInstallments) || currentSale.number_of_installments || 12
-                        monthlyAmount = remainingAfterAdvance / installments
+                        monthlyAmount = roundMoney(remainingAfterAdvance / installments)
                       }
                       
-                      newSaleData.number_of_installments = installments
-                      newSaleData.monthly_installment_amount = parseFloat(monthlyAmount.toFixed(2))
-                      const startDateStr = installmentStartDate || new Date().toISOString().split('T')[0]
+                      installmentsRemainingAmount = remainingAfterAdvance
+                      const startDateStr = installmentStartDate || toDateString(new Date())
+                      // Count the rows the schedule will really have (it can stop early)
+                      const plannedInstallments = buildInstallmentSchedule({
+                        saleId: '',
+                        remainingAmount: remainingAfterAdvance,
+                        numberOfMonths: installments,
+                        monthlyAmount,
+                        startDate: startDateStr,
+                      })
+                      newSaleData.number_of_installments = plannedInstallments.length
+                      newSaleData.monthly_installment_amount = roundMoney(monthlyAmount)
                       newSaleData.installment_start_date = startDateStr
-                      const endDate = new Date(startDateStr)
-                      endDate.setMonth(endDate.getMonth() + installments - 1)
-                      newSaleData.installment_end_date = endDate.toISOString().split('T')[0]
+                      newSaleData.installment_end_date = plannedInstallments.length > 0
+                        ? plannedInstallments[plannedInstallments.length - 1].due_date
+                        : null
                     }
                   }
                 }
@@ -3467,24 +3265,13 @@ export function SaleConfirmation() {
                     }
                   }
                   
-                  const installmentsToCreate = []
-                  const startDate = new Date(newSaleData.installment_start_date || new Date())
-                  startDate.setHours(0, 0, 0, 0)
-                  const monthlyAmount = newSaleData.monthly_installment_amount || 0
-                  
-                  for (let i = 0; i < newSaleData.number_of_installments; i++) {
-                    const dueDate = new Date(startDate)
-                    dueDate.setMonth(dueDate.getMonth() + i)
-                    installmentsToCreate.push({
-                      sale_id: newSale.id,
-                      installment_number: i + 1,
-                      amount_due: monthlyAmount,
-                      amount_paid: 0,
-                      stacked_amount: 0,
-                      due_date: dueDate.toISOString().split('T')[0],
-                      status: 'Unpaid',
-                    })
-                  }
+                  const installmentsToCreate = buildInstallmentSchedule({
+                    saleId: newSale.id,
+                    remainingAmount: installmentsRemainingAmount,
+                    numberOfMonths: newSaleData.number_of_installments,
+                    monthlyAmount: newSaleData.monthly_installment_amount || 0,
+                    startDate: newSaleData.installment_start_date || undefined,
+                  })
                   
                   // Insert installments
                   const { error: installmentsError } = await supabase.from('installments').insert(installmentsToCreate as any)
@@ -3560,6 +3347,7 @@ export function SaleConfirmation() {
         
         // Reset the flag and show success
         setConfirmingAllPieces(false)
+        setContractSaleId(null)
         setSuccessMessage(`تم تأكيد جميع القطع (${allPieces.length} قطع) بنجاح`)
         setSuccessDialogOpen(true)
         // Auto-dismiss after 3 seconds
@@ -3577,8 +3365,11 @@ export function SaleConfirmation() {
         setSuccessMessage(message)
         setSuccessDialogOpen(true)
         setConfirmingAllPieces(false)
-        // Auto-dismiss after 3 seconds
-        setTimeout(() => setSuccessDialogOpen(false), 3000)
+        setContractSaleId(confirmedSaleId)
+        // Auto-dismiss after 3 seconds, unless the contract can be printed from the dialog
+        if (!confirmedSaleId) {
+          setTimeout(() => setSuccessDialogOpen(false), 3000)
+        }
       }
       
       setConfirmDialogOpen(false)
@@ -4012,7 +3803,7 @@ export function SaleConfirmation() {
                                   موعد
                                 </Button>
                                 <Button
-                                  onClick={() => house ? handleCancelHouse(sale, house) : piece ? handleCancelPiece(sale, piece) : undefined}
+                                  onClick={() => house ? handleCancelHouse(sale) : piece ? handleCancelPiece(sale, piece) : undefined}
                                   variant="destructive"
                                   size="sm"
                                   className="text-xs h-8 flex-1"
@@ -4217,7 +4008,7 @@ export function SaleConfirmation() {
                                   </Button>
                                   {house ? (
                                   <Button
-                                      onClick={() => handleCancelHouse(sale, house)}
+                                      onClick={() => handleCancelHouse(sale)}
                                     variant="destructive"
                                     size="sm"
                                     className="text-xs px-2 h-7"
@@ -4970,6 +4761,22 @@ export function SaleConfirmation() {
             </DialogDescription>
           </DialogHeader>
           <DialogFooter className="flex justify-center gap-[10px] mt-2">
+            {contractSaleId && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={(e) => {
+                  e.preventDefault()
+                  e.stopPropagation()
+                  setSuccessDialogOpen(false)
+                  setContractDialogOpen(true)
+                }}
+                className="px-[14px] py-[8px] rounded-[10px] text-[14px] font-medium"
+              >
+                <Printer className="h-4 w-4 ml-2" />
+                طباعة العقد
+              </Button>
+            )}
             <Button
               type="button"
               onClick={(e) => {
@@ -4990,6 +4797,27 @@ export function SaleConfirmation() {
         </DialogContent>
       </Dialog>
 
+      <SaleContractDialog
+        saleId={contractSaleId}
+        open={contractDialogOpen}
+        onOpenChange={setContractDialogOpen}
+      />
+
+      <CancellationSettlementDialog
+        saleId={settlementSaleId}
+        open={!!settlementSaleId}
+        onOpenChange={(open) => { if (!open) setSettlementSaleId(null) }}
+        onSettled={() => fetchSales()}
+      />
+
+      <RemovePieceDialog
+        saleId={pieceToRemove?.saleId || null}
+        pieceId={pieceToRemove?.pieceId || null}
+        open={!!pieceToRemove}
+        onOpenChange={(open) => { if (!open) setPieceToRemove(null) }}
+        onRemoved={() => fetchSales()}
+      />
+
       {/* Rendez-vous Dialog */}
       <Dialog open={rendezvousDialogOpen} onOpenChange={setRendezvousDialogOpen}>
         <DialogContent className="w-[95vw] sm:w-full max-w-md">
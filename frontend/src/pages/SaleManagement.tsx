@@ -45,6 +45,8 @@ import type { Sale, Client, LandPiece, Installment, Payment } from '@/types/data
 import { formatCurrency, formatDate } from '@/lib/utils'
 import { ConfirmDialog } from '@/components/ui/confirm-dialog'
 import { showNotification } from '@/components/ui/notification'
+import { RemovePieceDialog } from '@/components/RemovePieceDialog'
+import { RestructureInstallmentsDialog } from '@/components/RestructureInstallmentsDialog'
 
 type SaleStatus = 'Pending' | 'Completed' | 'Cancelled'
 type PaymentType = 'Full' | 'Installment' | 'PromiseOfSale'
@@ -72,6 +74,9 @@ export function SaleManagement() {
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
   const [resetInstallmentsDialogOpen, setResetInstallmentsDialogOpen] = useState(false)
   const [selectedSale, setSelectedSale] = useState<SaleWithDetails | null>(null)
+  // One piece removed from a multi-piece sale (RemovePieceDialog)
+  const [pieceToRemove, setPieceToRemove] = useState<{ saleId: string; pieceId: string } | null>(null)
+  const [restructureSaleId, setRestructureSaleId] = useState<string | null>(null)
   
   // Actions
   const [actionLoading, setActionLoading] = useState(false)
@@ -670,7 +675,20 @@ export function SaleManagement() {
                     {selectedSale.pieces.map((piece) => (
                       <div key={piece.id} className="flex items-center justify-between p-2 bg-gray-50 rounded">
                         <span className="font-medium">#{piece.piece_number}</span>
-                        <span className="text-sm text-muted-foreground">{piece.surface_area} م²</span>
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm text-muted-foreground">{piece.surface_area} م²</span>
+                          {selectedSale.status !== 'Cancelled' && selectedSale.pieces.length > 1 && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setPieceToRemove({ saleId: selectedSale.id, pieceId: piece.id })}
+                              className="text-red-600 hover:text-red-700"
+                            >
+                              <XCircle className="h-4 w-4 mr-1" />
+                              إلغاء القطعة
+                            </Button>
+                          )}
+                        </div>
                       </div>
                     ))}
                   </div>
@@ -683,17 +701,29 @@ export function SaleManagement() {
                   <CardHeader>
                     <div className="flex items-center justify-between">
                       <CardTitle className="text-lg">الأقساط ({selectedSale.installments.length})</CardTitle>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => {
-                          setResetInstallmentsDialogOpen(true)
-                        }}
-                        className="text-orange-600"
-                      >
-                        <RotateCcw className="h-4 w-4 mr-2" />
-                        إعادة تعيين
-                      </Button>
+                      <div className="flex gap-2">
+                        {selectedSale.status !== 'Cancelled' && selectedSale.installments.some(inst => inst.status !== 'Paid') && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setRestructureSaleId(selectedSale.id)}
+                          >
+                            <Calendar className="h-4 w-4 mr-2" />
+                            إعادة جدولة
+                          </Button>
+                        )}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            setResetInstallmentsDialogOpen(true)
+                          }}
+                          className="text-orange-600"
+                        >
+                          <RotateCcw className="h-4 w-4 mr-2" />
+                          إعادة تعيين
+                        </Button>
+                      </div>
                     </div>
                   </CardHeader>
                   <CardContent>
@@ -1033,6 +1063,29 @@ export function SaleManagement() {
         disabled={actionLoading}
         variant="destructive"
       />
+
+      <RemovePieceDialog
+        saleId={pieceToRemove?.saleId || null}
+        pieceId={pieceToRemove?.pieceId || null}
+        open={!!pieceToRemove}
+        onOpenChange={(open) => { if (!open) setPieceToRemove(null) }}
+        onRemoved={() => {
+          setDetailsDialogOpen(false)
+          setSelectedSale(null)
+          fetchSales()
+        }}
+      />
+
+      <RestructureInstallmentsDialog
+        saleId={restructureSaleId}
+        open={!!restructureSaleId}
+        onOpenChange={(open) => { if (!open) setRestructureSaleId(null) }}
+        onRestructured={() => {
+          setDetailsDialogOpen(false)
+          setSelectedSale(null)
+          fetchSales()
+        }}
+      />
     </div>
   )
 }
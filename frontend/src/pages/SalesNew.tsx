@@ -24,13 +24,18 @@ import {
   DialogTitle,
   DialogFooter,
 } from '@/components/ui/dialog'
-import { ConfirmDialog } from '@/components/ui/confirm-dialog'
 import { sanitizeText, sanitizePhone, sanitizeCIN, sanitizeEmail, sanitizeNotes, validateLebanesePhone } from '@/lib/sanitize'
 import { debounce } from '@/lib/throttle'
 import { formatCurrency, formatDate, formatDateTime } from '@/lib/utils'
 import { retryWithBackoff, isRetryableError } from '@/lib/retry'
 import { validatePermissionServerSide } from '@/lib/permissionValidation'
-import { Plus, Search, Filter, ArrowUpDown, ArrowUp, ArrowDown, X, AlertCircle, Calendar, ChevronDown, ChevronRight } from 'lucide-react'
+import { Plus, Search, Filter, ArrowUpDown, ArrowUp, ArrowDown, X, AlertCircle, Calendar, ChevronDown, ChevronRight, Printer, FileText } from 'lucide-react'
+import { SaleContractDialog } from '@/components/SaleContractDialog'
+import { CancellationSettlementDialog } from '@/components/CancellationSettlementDialog'
+import { RemovePieceDialog } from '@/components/RemovePieceDialog'
+import { ClientStatementDialog } from '@/components/ClientStatementDialog'
+import { ExportButtons } from '@/components/ExportButtons'
+import type { ExportColumn } from '@/lib/exportFile'
 import type { Sale, Client, LandPiece, Installment } from '@/types/database'
 
 // Types for per-piece tracking
@@ -72,6 +77,20 @@ interface PieceSale {
   status: 'Pending' | 'AwaitingPayment' | 'InstallmentsOngoing' | 'Completed' | 'Cancelled'
 }
 
+const PAYMENT_TYPE_EXPORT_LABELS: Record<PieceSale['paymentType'], { ar: string; fr: string }> = {
+  Full: { ar: 'بالحاضر', fr: 'Comptant' },
+  Installment: { ar: 'بالتقسيط', fr: 'Échelonné' },
+  PromiseOfSale: { ar: 'وعد بالبيع', fr: 'Promesse de vente' },
+}
+
+const SALE_STATUS_EXPORT_LABELS: Record<PieceSale['status'], { ar: string; fr: string }> = {
+  Pending: { ar: 'محجوز', fr: 'Réservé' },
+  AwaitingPayment: { ar: 'في انتظار الدفع', fr: 'En attente de paiement' },
+  InstallmentsOngoing: { ar: 'أقساط جارية', fr: 'Échéances en cours' },
+  Completed: { ar: 'مكتمل', fr: 'Terminé' },
+  Cancelled: { ar: 'ملغي', fr: 'Annulé' },
+}
+
 interface ClientMonthlySummary {
   clientId: string
   clientName: string
@@ -82,7 +101,7 @@ interface ClientMonthlySummary {
 
 export function SalesNew() {
   const { hasPermission, user } = useAuth()
-  const { t } = useLanguage()
+  const { t, language } = useLanguage()
   const [sales, setSales] = useState<Sale[]>([])
   const [clients, setClients] = useState<Client[]>([])
   const [pieces, setPieces] = useState<LandPiece[]>([])
@@ -120,10 +139,12 @@ export function SalesNew() {
   // Client details dialog
   const [clientDetailsOpen, setClientDetailsOpen] = useState(false)
   const [selectedClientForDetails, setSelectedClientForDetails] = useState<Client | null>(null)
+  const [clientStatementOpen, setClientStatementOpen] = useState(false)
   const [clientSales, setClientSales] = useState<Sale[]>([])
   
   // Sale details dialog
   const [saleDetailsOpen, setSaleDetailsOpen] = useState(false)
+  const [contractDialogOpen, setContractDialogOpen] = useState(false)
   const [selectedSaleForDetails, setSelectedSaleForDetails] = useState<PieceSale | null>(null)
   const [resettingSale, setResettingSale] = useState(false)
   const [installmentsExpanded, setInstallmentsExpanded] = useState(false)
@@ -571,6 +592,21 @@ export function SalesNew() {
     return filtered
   }, [pieceSales, sortBy, sortOrder, timePeriodFilter, selectedDate, statusFilter, paymentTypeFilter, clientFilter, landBatchFilter, landPieceSearch])
 
+  const saleExportColumns = useMemo<ExportColumn<PieceSale>[]>(() => [
+    { header: { ar: 'تاريخ البيع', fr: 'Date de vente' }, value: s => s.saleDate?.split('T')[0] },
+    { header: { ar: 'العميل', fr: 'Client' }, value: s => s.clientName },
+    { header: { ar: 'الدفعة', fr: 'Lotissement' }, value: s => s.batchName },
+    { header: { ar: 'القطعة', fr: 'Lot' }, value: s => s.pieceName },
+    { header: { ar: 'المساحة (م²)', fr: 'Surface (m²)' }, value: s => s.surfaceArea },
+    { header: { ar: 'نوع الدفع', fr: 'Mode de paiement' }, value: s => PAYMENT_TYPE_EXPORT_LABELS[s.paymentType]?.[language] || s.paymentType },
+    { header: { ar: 'السعر', fr: 'Prix' }, value: s => s.price },
+    { header: { ar: 'العربون', fr: 'Arrhes' }, value: s => s.reservationAmount },
+    { header: { ar: 'التسبقة', fr: 'Avance' }, value: s => s.bigAdvanceAmount },
+    { header: { ar: 'العمولة', fr: 'Commission' }, value: s => s.companyFeeAmount },
+    { header: { ar: 'المتبقي', fr: 'Reste à payer' }, value: s => s.remainingAmount },
+    { header: { ar: 'الحالة', fr: 'Statut' }, value: s => SALE_STATUS_EXPORT_LABELS[s.status]?.[language] || s.status },
+  ], [language])
+
 
   // Calculate monthly summary per client
   const clientMonthlySummary = useMemo((): ClientMonthlySummary[] => {
@@ -1007,218 +1043,26 @@ export function SalesNew() {
     }
   }
 
-  // Cancel sale - removes all related data
-  const [cancelDialogOpen, setCancelDialogOpen] = useState(false)
-  const [saleToCancel, setSaleToCancel] = useState<PieceSale | null>(null)
-  const [refundAmount, setRefundAmount] = useState('')
-
-  // Check how many pieces are in a sale
-  const [salePieceCount, setSalePieceCount] = useState(1)
+  // Cancel sale: the whole sale with a refund settlement, or one piece of a multi-piece sale
+  const [settlementSaleId, setSettlementSaleId] = useState<string | null>(null)
+  const [pieceToRemove, setPieceToRemove] = useState<{ saleId: string; pieceId: string } | null>(null)
 
   const openCancelDialog = async (sale: PieceSale) => {
-    setSaleToCancel(sale)
-    setRefundAmount('')
-    
-    // Check if this sale has multiple pieces
-    const { data } = await supabase
-      .from('sales')
-      .select('land_piece_ids')
-      .eq('id', sale.saleId)
-      .single()
-    
-    if (data) {
-      setSalePieceCount((data as any).land_piece_ids?.length || 1)
-    }
-    
-    setCancelDialogOpen(true)
-  }
-
-  const [cancelConfirmOpen, setCancelConfirmOpen] = useState(false)
-
-  const cancelSale = async () => {
-    if (!saleToCancel) return
-    
-    // Client-side authorization check (UI only)
     if (!hasPermission('edit_sales')) {
       setErrorMessage('ليس لديك صلاحية لتعديل المبيعات')
       return
     }
 
-    // Server-side authorization validation (prevents bypass)
-    try {
-      const hasServerPermission = await validatePermissionServerSide('edit_sales')
-      if (!hasServerPermission) {
-        setErrorMessage('ليس لديك صلاحية لتعديل المبيعات')
-        return
-      }
-    } catch (error) {
-      console.error('Error validating permission:', error)
-      setErrorMessage('خطأ في التحقق من الصلاحيات')
-      return
-    }
-
-    setIsSubmitting(true)
-    setErrorMessage(null)
-    try {
-      const saleId = saleToCancel.saleId
-      const refund = parseFloat(refundAmount) || 0
-
-      // Get the original sale
-      const { data: saleData } = await supabase
-        .from('sales')
-        .select('*')
-        .eq('id', saleId)
-        .single()
-
-      if (!saleData) throw new Error('Sale not found')
-
-      const sale = saleData as Sale
-      const pieceCount = sale.land_piece_ids.length
-
-      // If this sale has multiple pieces, remove only this piece
-      if (pieceCount > 1) {
-        // Calculate per-piece values
-        const pricePerPiece = sale.total_selling_price / pieceCount
-        const costPerPiece = sale.total_purchase_cost / pieceCount
-        const profitPerPiece = sale.profit_margin / pieceCount
-        const reservationPerPiece = ((sale as any).small_advance_amount || 0) / pieceCount
-
-        // Get payments and installments for this sale
-        const { data: payments } = await supabase
-          .from('payments')
-          .select('*')
-          .eq('sale_id', saleId)
-
-        const { data: installments } = await supabase
-          .from('installments')
-          .select('*')
-          .eq('sale_id', saleId)
-
-        // Delete payments related to this piece (proportional)
-        if (payments && payments.length > 0) {
-          for (const payment of payments) {
-            const piecePaymentAmount = payment.amount_paid / pieceCount
-            if (piecePaymentAmount > 0) {
-              // Update payment to reflect remaining pieces
-              await supabase
-                .from('payments')
-                .update({ amount_paid: payment.amount_paid - piecePaymentAmount } as any)
-                .eq('id', payment.id)
-            }
-          }
-        }
-
-        // Delete installments related to this piece (proportional)
-        if (installments && installments.length > 0) {
-          for (const inst of installments) {
-            const pieceAmount = (inst.amount_due as number) / pieceCount
-            const piecePaid = (inst.amount_paid as number) / pieceCount
-            const pieceStacked = (inst.stacked_amount as number) / pieceCount
-
-            // Update installment to reflect remaining pieces
-            await supabase
-              .from('installments')
-              .update({
-                amount_due: (inst.amount_due as number) - pieceAmount,
-                amount_paid: (inst.amount_paid as number) - piecePaid,
-                stacked_amount: (inst.stacked_amount as number) - pieceStacked,
-              } as any)
-              .eq('id', inst.id)
-          }
-        }
-
-        // If refund amount specified, record it
-        if (refund > 0) {
-          await supabase.from('payments').insert([{
-            client_id: saleToCancel.clientId,
-            sale_id: saleId,
-            amount_paid: refund,
-            payment_type: 'Refund',
-            payment_date: new Date().toISOString().split('T')[0],
-            recorded_by: user?.id || null,
-          }] as any)
-        }
-
-        // Update only this specific piece back to Available
-        await supabase
-          .from('land_pieces')
-          .update({ status: 'Available' } as any)
-          .eq('id', saleToCancel.pieceId)
-
-        // Update the original sale - remove this piece and recalculate
-        const remainingPieces = sale.land_piece_ids.filter(id => id !== saleToCancel.pieceId)
-        const remainingCount = remainingPieces.length
-        const remainingPrice = sale.total_selling_price - pricePerPiece
-        const remainingCost = sale.total_purchase_cost - costPerPiece
-        const remainingProfit = sale.profit_margin - profitPerPiece
-        const remainingReservation = ((sale as any).small_advance_amount || 0) - reservationPerPiece
-
-        await supabase
-          .from('sales')
-          .update({
-            land_piece_ids: remainingPieces,
-            total_selling_price: remainingPrice,
-            total_purchase_cost: remainingCost,
-            profit_margin: remainingProfit,
-            small_advance_amount: remainingReservation,
-            big_advance_amount: sale.big_advance_amount ? (sale.big_advance_amount * remainingCount / pieceCount) : 0,
-            monthly_installment_amount: sale.monthly_installment_amount ? (sale.monthly_installment_amount * remainingCount / pieceCount) : null,
-          } as any)
-          .eq('id', saleId)
-      } else {
-        // Single piece sale - cancel the entire sale
-        // 1. Delete all installments for this sale
-        await supabase
-          .from('installments')
-          .delete()
-          .eq('sale_id', saleId)
-
-        // 2. Delete all payments for this sale
-        await supabase
-          .from('payments')
-          .delete()
-          .eq('sale_id', saleId)
-
-        // 3. If refund amount specified, record it
-        if (refund > 0) {
-          await supabase.from('payments').insert([{
-            client_id: saleToCancel.clientId,
-            sale_id: saleId,
-            amount_paid: refund,
-            payment_type: 'Refund',
-            payment_date: new Date().toISOString().split('T')[0],
-            recorded_by: user?.id || null,
-          }] as any)
-        }
-
-        // 4. Update land piece back to Available - CRITICAL: Must be done before sale update
-        const { error: pieceError } = await supabase
-          .from('land_pieces')
-          .update({ status: 'Available' } as any)
-          .eq('id', saleToCancel.pieceId)
-
-        if (pieceError) {
-          throw pieceError
-        }
-
-        // 5. Cancel the entire sale (single piece sale)
-        await supabase
-          .from('sales')
-          .update({ status: 'Cancelled' } as any)
-          .eq('id', saleId)
-      }
+    const { data } = await supabase
+      .from('sales')
+      .select('land_piece_ids')
+      .eq('id', sale.saleId)
+      .single()
 
-      setCancelDialogOpen(false)
-      setSaleToCancel(null)
-      setRefundAmount('')
-      
-      // Force refresh of pieces to ensure cancelled piece shows as available
-      await fetchData()
-      setErrorMessage(null)
-    } catch (error) {
-      setErrorMessage('خطأ في إلغاء البيع. يرجى المحاولة مرة أخرى.')
-    } finally {
-      setIsSubmitting(false)
+    if (((data as any)?.land_piece_ids?.length || 1) > 1) {
+      setPieceToRemove({ saleId: sale.saleId, pieceId: sale.pieceId })
+    } else {
+      setSettlementSaleId(sale.saleId)
     }
   }
 
@@ -1252,6 +1096,13 @@ export function SalesNew() {
       {/* Compact Header */}
       <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
         <h1 className="text-2xl sm:text-3xl font-bold">السجل</h1>
+        <ExportButtons
+          permission="sale_export"
+          filename="sales"
+          sheetName={{ ar: 'المبيعات', fr: 'Ventes' }}
+          columns={saleExportColumns}
+          rows={filteredAndSortedSales}
+        />
       </div>
 
       {/* Time Period Filter */}
@@ -1897,77 +1748,6 @@ export function SalesNew() {
         </DialogContent>
       </Dialog>
 
-      {/* Cancel Sale Dialog */}
-      <Dialog open={cancelDialogOpen} onOpenChange={setCancelDialogOpen}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle className="text-destructive">إلغاء البيع</DialogTitle>
-          </DialogHeader>
-          {saleToCancel && (
-            <div className="space-y-4">
-              <div className="bg-destructive/10 p-4 rounded-lg space-y-2 border border-destructive/20">
-                <p><strong>العميل:</strong> {saleToCancel.clientName}</p>
-                <p><strong>القطعة:</strong> {saleToCancel.batchName} - {saleToCancel.pieceName}</p>
-                <p><strong>السعر:</strong> {formatCurrency(saleToCancel.price)}</p>
-                <p><strong>نوع الدفع:</strong> {saleToCancel.paymentType === 'Full' ? 'دفع كامل' : 'أقساط'}</p>
-              </div>
-
-              {salePieceCount > 1 && (
-                <div className="bg-red-100 p-3 rounded-lg border border-red-300">
-                  <p className="text-sm text-red-800 font-bold">
-                    ⚠️ تحذير هام: هذا البيع يحتوي على {salePieceCount} قطع!
-                  </p>
-                  <p className="text-sm text-red-700 mt-1">
-                    سيتم إلغاء جميع القطع في هذا البيع معاً. لإلغاء قطعة واحدة فقط، يرجى تشغيل سكريبت تقسيم المبيعات أولاً.
-                  </p>
-                </div>
-              )}
-
-              <div className="bg-yellow-50 p-3 rounded-lg border border-yellow-200">
-                <p className="text-sm text-yellow-800">
-                  <strong>تحذير:</strong> سيتم حذف جميع المدفوعات والأقساط المرتبطة بهذا البيع وإرجاع {salePieceCount > 1 ? 'القطع' : 'القطعة'} إلى حالة "متاحة".
-                </p>
-              </div>
-
-              <div className="space-y-2">
-                <Label>مبلغ الاسترداد للعميل (اختياري)</Label>
-                <Input
-                  type="number"
-                  value={refundAmount}
-                  onChange={e => setRefundAmount(e.target.value)}
-                  placeholder="أدخل المبلغ المسترد إن وجد"
-                />
-                <p className="text-xs text-muted-foreground">
-                  إذا تم دفع مبالغ سابقاً وتريد تسجيل استرداد، أدخل المبلغ هنا
-                </p>
-              </div>
-            </div>
-          )}
-          <DialogFooter>
-            <Button variant="outline" onClick={() => setCancelDialogOpen(false)}>
-              تراجع
-            </Button>
-            <Button variant="destructive" onClick={() => {
-              setCancelDialogOpen(false)
-              setCancelConfirmOpen(true)
-            }} disabled={isSubmitting}>
-              متابعة
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
-
-      {/* Cancel Sale Confirmation Dialog */}
-      <ConfirmDialog
-        open={cancelConfirmOpen}
-        onOpenChange={setCancelConfirmOpen}
-        onConfirm={cancelSale}
-        title="تأكيد الإلغاء"
-        description={saleToCancel ? `هل أنت متأكد من إلغاء هذه القطعة؟ سيتم إرجاع القطعة إلى حالة "متاحة".${salePieceCount > 1 ? ` تحذير: هذا البيع يحتوي على ${salePieceCount} قطع!` : ''}` : ''}
-        variant="destructive"
-        confirmText="نعم، إلغاء"
-        cancelText="تراجع"
-      />
 
       {/* Sale Details Dialog */}
       <Dialog open={saleDetailsOpen} onOpenChange={setSaleDetailsOpen}>
@@ -2301,7 +2081,10 @@ export function SalesNew() {
                             {saleData?.promise_completion_date && (
                               <div>
                                 <p className="text-sm text-muted-foreground">تاريخ الاستكمال المحدد</p>
-                                <p className="font-medium">{formatDate(saleData.promise_completion_date)}</p>
+                                <p className={`font-medium ${saleData.promise_overdue ? 'text-red-600' : ''}`}>
+                                  {formatDate(saleData.promise_completion_date)}
+                                  {saleData.promise_overdue && ' (تجاوز الموعد)'}
+                                </p>
                               </div>
                             )}
                             {saleData?.promise_completed && (
@@ -2518,6 +2301,12 @@ export function SalesNew() {
                       {resettingSale ? 'جاري الإرجاع...' : 'إرجاع إلى صفحة التأكيد'}
                     </Button>
                   )}
+                  {saleData && saleData.status !== 'Cancelled' && (
+                    <Button variant="outline" onClick={() => setContractDialogOpen(true)}>
+                      <Printer className="h-4 w-4 ml-2" />
+                      طباعة العقد
+                    </Button>
+                  )}
                   <Button variant="outline" onClick={() => setSaleDetailsOpen(false)}>
                     إغلاق
                   </Button>
@@ -2528,6 +2317,27 @@ export function SalesNew() {
         </DialogContent>
       </Dialog>
 
+      <SaleContractDialog
+        saleId={selectedSaleForDetails?.saleId || null}
+        open={contractDialogOpen}
+        onOpenChange={setContractDialogOpen}
+      />
+
+      <CancellationSettlementDialog
+        saleId={settlementSaleId}
+        open={!!settlementSaleId}
+        onOpenChange={(open) => { if (!open) setSettlementSaleId(null) }}
+        onSettled={() => fetchData()}
+      />
+
+      <RemovePieceDialog
+        saleId={pieceToRemove?.saleId || null}
+        pieceId={pieceToRemove?.pieceId || null}
+        open={!!pieceToRemove}
+        onOpenChange={(open) => { if (!open) setPieceToRemove(null) }}
+        onRemoved={() => fetchData()}
+      />
+
       {/* Client Details Dialog */}
       <Dialog open={clientDetailsOpen} onOpenChange={setClientDetailsOpen}>
         <DialogContent className="w-[95vw] sm:w-full max-w-2xl max-h-[95vh] overflow-y-auto">
@@ -2561,6 +2371,11 @@ export function SalesNew() {
                 )}
               </div>
 
+              <Button variant="outline" size="sm" onClick={() => setClientStatementOpen(true)}>
+                <FileText className="h-4 w-4 ml-2" />
+                كشف الحساب
+              </Button>
+
               {clientSales.length > 0 && (
                 <div>
                   <h4 className="font-semibold mb-2">{t('sales.salesHistory')}</h4>
@@ -2620,6 +2435,12 @@ export function SalesNew() {
           )}
         </DialogContent>
       </Dialog>
+
+      <ClientStatementDialog
+        client={selectedClientForDetails}
+        open={clientStatementOpen}
+        onOpenChange={setClientStatementOpen}
+      />
     </div>
   )
 }
@@ -1,4 +1,5 @@
 import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
 import { supabase } from '@/lib/supabase'
 import { useAuth } from '@/contexts/AuthContext'
 import { useLanguage } from '@/contexts/LanguageContext'
@@ -24,7 +25,7 @@ import {
   DialogTitle,
   DialogFooter,
 } from '@/components/ui/dialog'
-import { Plus, Edit, Trash2, User, Shield, Activity, TrendingUp, CheckCircle2, ShoppingCart, Map as MapIcon, Users as UsersIcon, Calendar, FileText, CreditCard, Home, Home as HomeIcon, Building, Wallet, DollarSign, Lock, Eye, EyeOff, AlertCircle, Briefcase, MessageSquare, XCircle, ArrowUp, ArrowDown, Phone, Download, Settings, Search, Filter, ChevronDown, ChevronRight, CheckSquare, Square } from 'lucide-react'
+import { Plus, Edit, Trash2, User, Shield, Activity, TrendingUp, CheckCircle2, ShoppingCart, Map as MapIcon, Users as UsersIcon, Calendar, FileText, CreditCard, Home, Home as HomeIcon, Building, Wallet, DollarSign, Lock, Eye, EyeOff, AlertCircle, Briefcase, MessageSquare, XCircle, ArrowUp, ArrowDown, Phone, Download, Settings, Search, Filter, ChevronDown, ChevronRight, CheckSquare, Square, Bookmark, Banknote, Landmark, BookOpen, PieChart, Percent, LineChart } from 'lucide-react'
 import type { User as UserType, UserRole, Sale, WorkerProfile } from '@/types/database'
 import { sanitizeText, sanitizeEmail } from '@/lib/sanitize'
 import { ConfirmDialog } from '@/components/ui/confirm-dialog'
@@ -50,6 +51,7 @@ const ALL_PAGES = [
   { id: 'home', name: 'الرئيسية', icon: Home, description: 'الصفحة الرئيسية' },
   { id: 'land', name: 'إدارة الأراضي', icon: MapIcon, description: 'إدارة قطع الأراضي' },
   { id: 'homes', name: 'إدارة المنازل', icon: HomeIcon, description: 'إدارة المنازل' },
+  { id: 'reservations', name: 'الحجوزات', icon: Bookmark, description: 'حجز القطع بعربون وتحويلها إلى بيع' },
   { id: 'confirm-sales', name: 'تأكيد المبيعات', icon: CheckCircle2, description: 'تأكيد عمليات البيع' },
   { id: 'installments', name: 'الأقساط', icon: CreditCard, description: 'إدارة الأقساط' },
   { id: 'clients', name: 'العملاء', icon: UsersIcon, description: 'إدارة العملاء' },
@@ -63,6 +65,13 @@ const ALL_PAGES = [
   { id: 'download', name: 'تحميل التطبيق', icon: Download, description: 'تحميل تطبيق Android' },
   { id: 'expenses', name: 'المصاريف', icon: Wallet, description: 'إدارة المصاريف' },
   { id: 'debts', name: 'الديون', icon: FileText, description: 'إدارة الديون' },
+  { id: 'cheques', name: 'الشيكات', icon: Banknote, description: 'سجل الشيكات الواردة والصادرة' },
+  { id: 'bank-reconciliation', name: 'المطابقة البنكية', icon: Landmark, description: 'استيراد كشوف البنك ومطابقتها مع المدفوعات والمصاريف' },
+  { id: 'cash-register', name: 'الصندوق', icon: Wallet, description: 'فتح وإغلاق جلسات الصندوق وتسليم النقود' },
+  { id: 'batch-profitability', name: 'ربحية الدفعات', icon: PieChart, description: 'تكاليف وإيرادات وهامش كل دفعة أرض وقطعة' },
+  { id: 'company-fees', name: 'دفتر العمولات', icon: Percent, description: 'عمولات الشركة المستحقة والمحصلة حسب الدفعة والشهر والبائع' },
+  { id: 'cash-flow-forecast', name: 'توقعات السيولة', icon: LineChart, description: 'توقع الداخل والخارج والرصيد للأشهر القادمة مع فرضيات التأخير' },
+  { id: 'general-ledger', name: 'المحاسبة العامة', icon: BookOpen, description: 'القيود المحاسبية، ميزان المراجعة، حساب النتيجة والميزانية' },
   { id: 'real-estate', name: 'التطوير والبناء', icon: Building, description: 'المشاريع العقارية' },
   { id: 'workers', name: 'العمال', icon: Briefcase, description: 'إدارة العمال' },
   { id: 'messages', name: 'الرسائل', icon: MessageSquare, description: 'الرسائل والمحادثات' },
@@ -80,6 +89,7 @@ interface UserStats {
 
 export function Users() {
   const { hasPermission, profile, refreshProfile } = useAuth()
+  const navigate = useNavigate()
   const { t } = useLanguage()
   const [users, setUsers] = useState<UserType[]>([])
   const [userStats, setUserStats] = useState<Map<string, UserStats>>(new Map())
@@ -2235,9 +2245,19 @@ export function Users() {
                       </Badge>
                     </div>
                   </div>
-                <div className="text-left">
+                <div className="text-left space-y-1">
                   <p className="text-xs text-gray-500">تاريخ الانضمام</p>
                   <p className="text-sm font-medium">{formatDate(selectedUserForDetails.created_at)}</p>
+                  {/* Drawer sessions, handovers and variances of this user */}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-xs h-7"
+                    onClick={() => navigate(`/cash-register?user=${selectedUserForDetails.id}`)}
+                  >
+                    <Wallet className="h-3 w-3 ml-1" />
+                    جلسات الصندوق
+                  </Button>
                 </div>
               </div>
 
@@ -5,13 +5,23 @@ export type ReservationStatus = 'Pending' | 'Confirmed' | 'Cancelled' | 'Expired
 export type ExpenseStatus = 'Pending' | 'Approved' | 'Rejected'
 export type PaymentMethod = 'Cash' | 'BankTransfer' | 'Check' | 'CreditCard' | 'Other'
 export type InstallmentStatus = 'Unpaid' | 'Paid' | 'Late' | 'Partial'
-export type PaymentRecordType = 'BigAdvance' | 'SmallAdvance' | 'Installment' | 'Full' | 'Partial' | 'Field' | 'Refund' | 'InitialPayment'
+export type PaymentRecordType = 'BigAdvance' | 'SmallAdvance' | 'Installment' | 'Full' | 'Partial' | 'Field' | 'Refund' | 'InitialPayment' | 'Penalty'
 export type UserRole = 'Owner' | 'Worker'
 export type UserStatus = 'Active' | 'Inactive'
 export type WorkerAvailabilityStatus = 'Available' | 'Busy' | 'Unavailable'
 export type ConversationStatus = 'open' | 'closed'
 export type NotificationType = 'new_message' | 'task_update' | 'system'
 export type RecurrenceType = 'Daily' | 'Weekly' | 'Monthly' | 'Yearly'
+export type PenaltyFeeType = 'Flat' | 'Percentage'
+export type DocumentLanguage = 'ar' | 'fr'
+export type RetentionType = 'None' | 'Fixed' | 'Percentage' | 'SmallAdvance'
+export type RefundScheduleStatus = 'Pending' | 'Paid'
+export type MapPoint = [number, number]
+
+// GeoJSON geometry (WGS84 longitude/latitude) for batches and pieces
+export type LandGeometry =
+  | { type: 'Polygon'; coordinates: number[][][] }
+  | { type: 'MultiPolygon'; coordinates: number[][][][] }
 
 export interface Role {
   id: string
@@ -60,6 +70,9 @@ export interface LandBatch {
   date_acquired: string
   notes: string | null
   real_estate_tax_number: string | null
+  image_url?: string | null
+  geometry?: LandGeometry | null
+  geometry_area?: number | null
   price_per_m2_full?: number | null
   price_per_m2_installment?: number | null
   company_fee_percentage_full?: number | null
@@ -80,6 +93,11 @@ export interface LandPiece {
   reserved_until: string | null
   reservation_client_id: string | null
   notes: string | null
+  // Outline on the batch plan image, points relative to the image size (0..1)
+  map_polygon?: MapPoint[] | null
+  geometry?: LandGeometry | null
+  // Surface computed from geometry (m²)
+  geometry_area?: number | null
   created_at: string
   updated_at: string
   payment_offers?: PaymentOffer[]
@@ -130,6 +148,7 @@ export interface Client {
   address: string | null
   client_type: string
   notes: string | null
+  preferred_language?: DocumentLanguage // Language of payment reminders
   created_by: string | null
   created_at: string
   updated_at: string
@@ -144,6 +163,11 @@ export interface Reservation {
   reserved_until: string
   status: ReservationStatus
   notes: string | null
+  cancellation_reason: string | null
+  cancelled_at: string | null
+  cancelled_by: string | null
+  sale_id: string | null // Sale created when the reservation was converted
+  extension_count: number
   created_by: string | null
   created_at: string
   updated_at: string
@@ -153,6 +177,7 @@ export interface Sale {
   id: string
   client_id: string
   land_piece_ids: string[]
+  house_ids?: string[] | null // House sales (land_piece_ids is then empty)
   reservation_id: string | null
   payment_type: PaymentType
   total_purchase_cost: number
@@ -172,6 +197,7 @@ export interface Sale {
   promise_initial_payment: number | null
   promise_completion_date: string | null
   promise_completed: boolean | null
+  promise_overdue?: boolean // Set by run_status_transitions() once promise_completion_date has passed
   status: SaleStatus
   sale_date: string
   deadline_date: string | null
@@ -195,6 +221,13 @@ export interface Installment {
   notes: string | null
   created_at: string
   updated_at: string
+  // Late penalty fields (add_late_payment_penalties.sql)
+  penalty_amount?: number
+  penalty_paid?: number
+  last_penalty_date?: string | null
+  // Given up by early payoffs (installment_write_offs, add_payoff_quotes.sql)
+  written_off_amount?: number
+  penalty_written_off?: number
 }
 
 export interface Payment {
@@ -211,6 +244,26 @@ export interface Payment {
   recorded_by: string | null
   created_at: string
   updated_at: string
+  // How the payment was spread over installments (add_payment_allocation.sql)
+  allocation?: PaymentAllocation | null
+  // Drawer session of a Cash payment (add_cash_sessions.sql)
+  cash_session_id?: string | null
+}
+
+export type PaymentAllocationMode = 'oldest' | 'installment' | 'payoff'
+
+export type PaymentAllocationKind = 'penalty' | 'installment'
+
+export interface PaymentAllocationLine {
+  installment_id: string
+  installment_number: number
+  kind: PaymentAllocationKind
+  amount: number
+}
+
+export interface PaymentAllocation {
+  mode: PaymentAllocationMode
+  lines: PaymentAllocationLine[]
 }
 
 export interface AuditLog {
@@ -363,6 +416,8 @@ export interface Expense {
   recurrence_template_id?: string | null
   next_occurrence_date?: string | null
   last_generated_date?: string | null
+  // Drawer session of a Cash expense (add_cash_sessions.sql)
+  cash_session_id?: string | null
 }
 
 export interface RecurringExpenseTemplate {
@@ -387,6 +442,467 @@ export interface RecurringExpenseTemplate {
   updated_at: string
 }
 
+export interface LatePenaltyPolicy {
+  id: string
+  name: string
+  grace_period_days: number
+  fee_type: PenaltyFeeType
+  fee_value: number // Amount (Flat) or percent of outstanding (Percentage)
+  cap_amount: number | null // Max total penalty per installment
+  repeat_monthly: boolean
+  is_active: boolean
+  notes: string | null
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface InstallmentPenalty {
+  id: string
+  installment_id: string
+  sale_id: string
+  policy_id: string | null
+  amount: number
+  outstanding_amount: number
+  days_late: number
+  applied_date: string
+  created_at: string
+}
+
+export interface PaymentReceipt {
+  id: string
+  receipt_number: number
+  payment_id: string | null
+  client_id: string | null
+  sale_id: string | null
+  installment_id: string | null
+  client_name: string | null
+  client_cin: string | null
+  amount: number
+  payment_type: PaymentRecordType
+  payment_method: string | null
+  payment_date: string
+  recorded_by: string | null
+  recorded_by_name: string | null
+  is_voided: boolean
+  voided_at: string | null
+  void_reason: string | null
+  print_count: number
+  last_printed_at: string | null
+  created_at: string
+}
+
+export interface ContractTemplate {
+  id: string
+  payment_type: PaymentType
+  language: DocumentLanguage
+  title: string
+  body: string // HTML with {{placeholders}}
+  updated_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type ReservationChangeType = 'created' | 'extended' | 'cancelled' | 'converted' | 'expired' | 'updated'
+
+export interface ReservationHistory {
+  id: string
+  reservation_id: string
+  changed_by: string | null
+  change_type: ReservationChangeType
+  old_status: string | null
+  new_status: string | null
+  old_reserved_until: string | null
+  new_reserved_until: string | null
+  old_small_advance_amount: number | null
+  new_small_advance_amount: number | null
+  reason: string | null
+  change_description: string | null
+  created_at: string
+}
+
+export interface CancellationSettlement {
+  id: string
+  sale_id: string
+  client_id: string
+  cancellation_request_id: string | null
+  total_paid: number // Payments on the sale, refunds excluded
+  already_refunded: number // Refunds recorded before the settlement
+  retention_type: RetentionType
+  retention_value: number // Amount (Fixed) or percent (Percentage)
+  retention_amount: number
+  refund_amount: number
+  refund_payment_id: string | null // Older settlements only; refunds are now recorded per schedule line
+  reason: string
+  created_by: string | null
+  created_at: string
+}
+
+export interface RefundScheduleEntry {
+  id: string
+  settlement_id: string
+  installment_number: number
+  due_date: string
+  amount: number
+  status: RefundScheduleStatus
+  paid_at: string | null
+  paid_by: string | null
+  payment_method: string | null
+  payment_id: string | null // 'Refund' payment recorded when handed over
+  created_at: string
+}
+
+export interface SalePieceRemoval {
+  id: string
+  sale_id: string
+  land_piece_id: string | null
+  piece_number: string | null
+  reason: string
+  share: number // Piece's part of the sale price (0..1)
+  old_total_selling_price: number
+  new_total_selling_price: number
+  old_company_fee_amount: number | null
+  new_company_fee_amount: number | null
+  old_open_balance: number
+  new_open_balance: number
+  credit_amount: number // Paid for the removed piece
+  credit_applied: number // Deducted from the open installments
+  overpayment_amount: number // To refund to the client
+  removed_by: string | null
+  created_at: string
+}
+
+export interface InstallmentRestructuring {
+  id: string
+  sale_id: string
+  outstanding_balance: number // Installments + penalties rescheduled
+  capitalized_penalties: number
+  old_installment_count: number
+  old_monthly_amount: number | null
+  old_end_date: string | null
+  new_installment_count: number
+  new_monthly_amount: number | null
+  new_end_date: string | null
+  holiday_months: number
+  balloon_amount: number
+  reason: string
+  approved_by: string | null
+  created_at: string
+}
+
+export interface SupersededInstallment {
+  id: string
+  restructuring_id: string
+  sale_id: string
+  installment_id: string | null
+  installment_number: number
+  amount_due: number
+  amount_paid: number
+  stacked_amount: number
+  penalty_amount: number
+  penalty_paid: number
+  due_date: string
+  status: InstallmentStatus
+  notes: string | null
+  created_at: string
+}
+
+export type PayoffDiscountType = 'None' | 'Percentage' | 'Fixed'
+
+export type PayoffQuoteStatus = 'Pending' | 'Accepted' | 'Cancelled'
+
+export interface PayoffQuote {
+  id: string
+  sale_id: string
+  client_id: string
+  remaining_principal: number
+  outstanding_penalties: number
+  waive_penalties: boolean
+  discount_type: PayoffDiscountType
+  discount_value: number // Percent (Percentage) or amount (Fixed)
+  discount_amount: number
+  payoff_amount: number // To pay to settle the sale
+  valid_until: string
+  status: PayoffQuoteStatus
+  payment_id: string | null
+  created_by: string | null
+  approved_by: string | null // Owner who granted the discount / waiver
+  approved_at: string | null
+  accepted_by: string | null
+  accepted_at: string | null
+  created_at: string
+}
+
+export type ReminderChannel = 'SMS' | 'WhatsApp'
+
+export type ReminderTriggerType = 'BeforeDue' | 'OnDue' | 'AfterDue'
+
+export type ReminderLogStatus = 'Sent' | 'Failed' | 'Logged'
+
+export interface ReminderTemplate {
+  id: string
+  name: string
+  language: DocumentLanguage
+  body: string // With {placeholders}, see lib/paymentReminders
+  is_active: boolean
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface ReminderRule {
+  id: string
+  name: string
+  trigger_type: ReminderTriggerType
+  days: number // Before (BeforeDue) or after (AfterDue) the due date
+  channel: ReminderChannel
+  template_ar_id: string | null
+  template_fr_id: string | null
+  is_active: boolean
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface ReminderLogEntry {
+  id: string
+  client_id: string
+  sale_id: string | null
+  installment_id: string | null
+  rule_id: string | null
+  channel: ReminderChannel
+  language: DocumentLanguage
+  phone: string
+  message: string
+  provider: string
+  status: ReminderLogStatus
+  provider_message_id: string | null
+  error: string | null
+  created_by: string | null
+  created_at: string
+}
+
+// Row returned by get_due_reminders()
+export interface DueReminder {
+  rule_id: string
+  rule_name: string
+  trigger_type: ReminderTriggerType
+  days: number
+  channel: ReminderChannel
+  installment_id: string
+  installment_number: number
+  due_date: string
+  amount_due: number
+  sale_id: string
+  client_id: string
+  client_name: string
+  phone: string
+  language: DocumentLanguage
+  template_body: string
+  piece_numbers: string | null
+}
+
+export type ChequeDirection = 'Incoming' | 'Outgoing'
+
+export type ChequeStatus = 'Received' | 'Deposited' | 'Cleared' | 'Bounced'
+
+export interface Cheque {
+  id: string
+  direction: ChequeDirection
+  cheque_number: string
+  bank_name: string
+  drawer_name: string // Who signed the cheque
+  payee_name: string | null
+  amount: number
+  issue_date: string | null
+  due_date: string // Date written on the cheque
+  status: ChequeStatus
+  client_id: string | null
+  payment_id: string | null // Incoming: payment settled by the cheque
+  debt_id: string | null // Outgoing: debt settled by the cheque
+  debt_payment_id: string | null
+  deposit_account: string | null
+  deposited_at: string | null
+  cleared_at: string | null
+  bounced_at: string | null
+  bounce_reason: string | null
+  reversed_payment: Record<string, unknown> | null // Payment removed when the cheque bounced
+  notes: string | null
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface ChequeStatusChange {
+  id: string
+  cheque_id: string
+  from_status: ChequeStatus | null
+  to_status: ChequeStatus
+  status_date: string
+  notes: string | null
+  changed_by: string | null
+  created_at: string
+}
+
+export type BankMatchType = 'Auto' | 'Manual' | 'Ignored'
+
+export type BankStatementFormat = 'CSV' | 'XLSX' | 'OFX'
+
+export interface BankStatement {
+  id: string
+  bank_account: string
+  file_name: string | null
+  file_format: BankStatementFormat
+  period_start: string | null
+  period_end: string | null
+  line_count: number
+  skipped_count: number
+  notes: string | null
+  imported_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface BankStatementLine {
+  id: string
+  statement_id: string
+  bank_account: string
+  line_number: number
+  transaction_date: string
+  // Positive = credit (money in), negative = debit
+  amount: number
+  description: string | null
+  reference: string | null
+  bank_transaction_id: string | null
+  payment_id: string | null
+  expense_id: string | null
+  match_type: BankMatchType | null
+  matched_by: string | null
+  matched_at: string | null
+  notes: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type GlAccountType = 'Asset' | 'Liability' | 'Equity' | 'Revenue' | 'Expense'
+
+export type JournalSourceType =
+  | 'payment'
+  | 'expense'
+  | 'sale'
+  | 'company_fee'
+  | 'cancellation'
+  | 'debt'
+  | 'debt_payment'
+  | 'land_batch'
+  | 'manual'
+
+export interface GlAccount {
+  code: string
+  name_ar: string
+  name_fr: string
+  account_type: GlAccountType
+  is_system: boolean
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+export interface JournalEntry {
+  id: string
+  entry_number: number
+  entry_date: string
+  description: string
+  source_type: JournalSourceType
+  source_id: string | null
+  // Entry cancelled by this one
+  reversal_of: string | null
+  created_by: string | null
+  created_at: string
+  lines?: JournalLine[]
+}
+
+export interface JournalLine {
+  id: string
+  entry_id: string
+  account_code: string
+  debit: number
+  credit: number
+  memo: string | null
+}
+
+export interface TrialBalanceRow {
+  account_code: string
+  name_ar: string
+  name_fr: string
+  account_type: GlAccountType
+  opening_debit: number
+  opening_credit: number
+  period_debit: number
+  period_credit: number
+}
+
+export type CashSessionStatus = 'Open' | 'Closed'
+
+export interface CashSession {
+  id: string
+  user_id: string
+  status: CashSessionStatus
+  opening_float: number
+  opened_at: string
+  opening_notes: string | null
+  closed_at: string | null
+  closed_by: string | null
+  expected_amount: number | null
+  counted_amount: number | null
+  // counted - expected; negative = cash missing
+  variance: number | null
+  handed_over_to: string | null
+  closing_notes: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface CashSessionTotals {
+  session_id: string
+  payments_in: number
+  refunds_out: number
+  expenses_out: number
+  revenue_in: number
+  expected_amount: number
+}
+
+export type CompanyFeeCollectionMode = 'FirstPayment' | 'Proportional'
+
+export type CompanyFeeStatus = 'Due' | 'Partial' | 'Collected' | 'Cancelled'
+
+export interface CompanyFeeEntry {
+  id: string
+  sale_id: string
+  client_id: string | null
+  land_batch_id: string | null
+  // User who created the sale
+  sold_by: string | null
+  fee_percentage: number | null
+  fee_amount: number
+  due_date: string
+  collection_mode: CompanyFeeCollectionMode
+  collected_amount: number
+  collected_at: string | null
+  status: CompanyFeeStatus
+  created_at: string
+  updated_at: string
+}
+
+export interface CompanyFeeCollection {
+  id: string
+  entry_id: string
+  payment_id: string
+  amount: number
+  collected_date: string
+  created_at: string
+}
+
 export interface WorkerProfile {
   id: string
   user_id: string
@@ -0,0 +1,85 @@
+// Reminder providers for the send-reminders Edge Function
+// A provider delivers one message to one phone number. The provider is picked
+// with the REMINDER_PROVIDER secret:
+//   'log'  (default) nothing leaves the server, the message is only logged
+//   'mock' pretends to send, for testing; numbers ending in 0 fail
+//   'http' posts to an SMS/WhatsApp gateway at REMINDER_HTTP_URL
+
+export type ReminderChannel = 'SMS' | 'WhatsApp'
+
+export interface ReminderMessage {
+  channel: ReminderChannel
+  phone: string
+  body: string
+}
+
+export interface ReminderSendResult {
+  status: 'Sent' | 'Failed' | 'Logged'
+  providerMessageId?: string
+  error?: string
+}
+
+export interface ReminderProvider {
+  name: string
+  send(message: ReminderMessage): Promise<ReminderSendResult>
+}
+
+export class LogOnlyProvider implements ReminderProvider {
+  name = 'log'
+
+  async send(message: ReminderMessage): Promise<ReminderSendResult> {
+    console.log(`[reminder:${message.channel}] ${message.phone}: ${message.body}`)
+    return { status: 'Logged' }
+  }
+}
+
+export class MockProvider implements ReminderProvider {
+  name = 'mock'
+  sent: ReminderMessage[] = []
+
+  async send(message: ReminderMessage): Promise<ReminderSendResult> {
+    if (message.phone.replace(/\D/g, '').endsWith('0')) {
+      return { status: 'Failed', error: 'Mock failure' }
+    }
+    this.sent.push(message)
+    return { status: 'Sent', providerMessageId: `mock-${this.sent.length}` }
+  }
+}
+
+export class HttpGatewayProvider implements ReminderProvider {
+  name = 'http'
+
+  constructor(private url: string, private token?: string) {}
+
+  async send(message: ReminderMessage): Promise<ReminderSendResult> {
+    try {
+      const response = await fetch(this.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.token ? { Authorization: `Bearer ${this.token}` } : {}),
+        },
+        body: JSON.stringify({ channel: message.channel, to: message.phone, message: message.body }),
+      })
+      const payload = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        return { status: 'Failed', error: payload.error || `HTTP ${response.status}` }
+      }
+      return { status: 'Sent', providerMessageId: payload.id ? String(payload.id) : undefined }
+    } catch (error) {
+      return { status: 'Failed', error: error.message }
+    }
+  }
+}
+
+export function getReminderProvider(): ReminderProvider {
+  const name = Deno.env.get('REMINDER_PROVIDER') ?? 'log'
+
+  if (name === 'mock') return new MockProvider()
+  if (name === 'http') {
+    const url = Deno.env.get('REMINDER_HTTP_URL')
+    if (!url) throw new Error('REMINDER_HTTP_URL is not set')
+    return new HttpGatewayProvider(url, Deno.env.get('REMINDER_HTTP_TOKEN') ?? undefined)
+  }
+  return new LogOnlyProvider()
+}
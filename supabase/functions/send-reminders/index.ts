@@ -0,0 +1,153 @@
+// Edge Function: Payment Reminders
+// Sends the reminders listed by get_due_reminders() (add_payment_reminders.sql)
+// through the configured provider and records each attempt in reminder_log.
+// Called daily by pg_cron (x-cron-secret header) or by the Owner from the app.
+// Body: { asOf?: 'YYYY-MM-DD' (today or earlier), clientId?: string, dryRun?: boolean }
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { verifyAuth } from '../_shared/auth.ts'
+import { corsHeaders, handleCors } from '../_shared/cors.ts'
+import { getReminderProvider } from '../_shared/reminderProviders.ts'
+
+const AR_MONTHS = ['يناير', 'فبراير', 'مارس', 'أبريل', 'مايو', 'يونيو', 'يوليو', 'أغسطس', 'سبتمبر', 'أكتوبر', 'نوفمبر', 'ديسمبر']
+const FR_MONTHS = ['janvier', 'février', 'mars', 'avril', 'mai', 'juin', 'juillet', 'août', 'septembre', 'octobre', 'novembre', 'décembre']
+
+// Row returned by get_due_reminders(), as DueReminder in frontend/src/types/database.ts
+interface DueReminder {
+  rule_id: string
+  rule_name: string
+  trigger_type: 'BeforeDue' | 'OnDue' | 'AfterDue'
+  days: number
+  channel: 'SMS' | 'WhatsApp'
+  installment_id: string
+  installment_number: number
+  due_date: string
+  amount_due: number
+  sale_id: string
+  client_id: string
+  client_name: string
+  phone: string
+  language: 'ar' | 'fr'
+  template_body: string
+  piece_numbers: string | null
+}
+
+// Same output as renderReminderTemplate() in frontend/src/lib/paymentReminders.ts
+function renderTemplate(body: string, reminder: DueReminder): string {
+  const language = reminder.language === 'fr' ? 'fr' : 'ar'
+  const amount = new Intl.NumberFormat('fr-TN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+    .format(Number(reminder.amount_due) || 0)
+  const date = new Date(reminder.due_date)
+  const months = language === 'fr' ? FR_MONTHS : AR_MONTHS
+
+  const replacements: Record<string, string> = {
+    client_name: reminder.client_name || '',
+    phone: reminder.phone || '',
+    amount: language === 'ar' ? `${amount} د.ت` : `${amount} DT`,
+    due_date: `${date.getDate()} ${months[date.getMonth()]} ${date.getFullYear()}`,
+    piece_numbers: reminder.piece_numbers || '',
+    installment_number: String(reminder.installment_number ?? ''),
+    days: String(reminder.days ?? ''),
+  }
+  return body.replace(/\{(\w+)\}/g, (match, key) => (key in replacements ? replacements[key] : match))
+}
+
+serve(async (req) => {
+  const corsResponse = handleCors(req)
+  if (corsResponse) return corsResponse
+
+  try {
+    let supabaseClient
+    let userId: string | null = null
+
+    const cronSecret = Deno.env.get('REMINDER_CRON_SECRET')
+    if (cronSecret && req.headers.get('x-cron-secret') === cronSecret) {
+      supabaseClient = createClient(
+        Deno.env.get('SUPABASE_URL') ?? '',
+        Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+        {
+          auth: {
+            autoRefreshToken: false,
+            persistSession: false
+          }
+        }
+      )
+    } else {
+      const auth = await verifyAuth(req).catch((error) => {
+        throw Object.assign(error, { status: 401 })
+      })
+      if (auth.userProfile.role !== 'Owner') {
+        throw Object.assign(new Error('Only the owner can send reminders'), { status: 403 })
+      }
+      supabaseClient = auth.supabaseClient
+      userId = auth.user.id
+    }
+
+    const body = await req.json().catch(() => ({}))
+    const { asOf, clientId, dryRun = false } = body
+
+    // Catching up on a missed day is fine; reminders of a later day would be
+    // sent early and then skipped on the day itself
+    if (asOf && (!/^\d{4}-\d{2}-\d{2}$/.test(asOf) || asOf > new Date().toISOString().slice(0, 10))) {
+      throw Object.assign(new Error('asOf must be a date no later than today'), { status: 400 })
+    }
+
+    const { data: due, error } = await supabaseClient.rpc('get_due_reminders', asOf ? { p_as_of: asOf } : {})
+    if (error) throw error
+
+    const reminders = ((due || []) as DueReminder[])
+      .filter((reminder) => !clientId || reminder.client_id === clientId)
+      .map((reminder) => ({
+        ...reminder,
+        message: renderTemplate(reminder.template_body, reminder),
+      }))
+
+    if (dryRun) {
+      return new Response(
+        JSON.stringify({ data: reminders, count: reminders.length }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const provider = getReminderProvider()
+    const counts = { Sent: 0, Failed: 0, Logged: 0 }
+
+    for (const reminder of reminders) {
+      const result = await provider.send({
+        channel: reminder.channel,
+        phone: reminder.phone,
+        body: reminder.message,
+      })
+      counts[result.status]++
+
+      const { error: logError } = await supabaseClient.from('reminder_log').insert({
+        client_id: reminder.client_id,
+        sale_id: reminder.sale_id,
+        installment_id: reminder.installment_id,
+        rule_id: reminder.rule_id,
+        channel: reminder.channel,
+        language: reminder.language,
+        phone: reminder.phone,
+        message: reminder.message,
+        provider: provider.name,
+        status: result.status,
+        provider_message_id: result.providerMessageId ?? null,
+        error: result.error ?? null,
+        created_by: userId,
+      })
+      if (logError) console.error('Reminder log error:', logError)
+    }
+
+    return new Response(
+      JSON.stringify({ provider: provider.name, count: reminders.length, ...counts }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('Send reminders error:', error)
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: error.status ?? 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})